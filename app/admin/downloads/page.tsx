@@ -0,0 +1,223 @@
+"use client"
+
+import { useState, useEffect, useCallback } from "react"
+import { useTranslations } from "next-intl"
+import { toast } from "sonner"
+import { Search, ChevronLeft, ChevronRight } from "lucide-react"
+import { SkeletonDataTable } from "@/app/components/admin/SkeletonDataTable"
+import { DataTable } from "@/app/components/admin/DataTable"
+import { DigitalPurchaseModal } from "@/app/components/admin/DigitalPurchaseModal"
+import { useAdminPermissions } from "@/app/components/admin/AdminPermissionsContext"
+
+type DownloadStatus = "active" | "expired" | "used_up" | "revoked"
+
+interface DigitalPurchaseEntry {
+  id: string
+  productName: string | null
+  email: string
+  userId: string | null
+  downloadCount: number
+  maxDownloads: number
+  reissueCount: number
+  expiresAt: string
+  createdAt: string
+  status: DownloadStatus
+  totalDownloads: number
+}
+
+interface DownloadsResponse {
+  purchases: DigitalPurchaseEntry[]
+  total: number
+  page: number
+  totalPages: number
+}
+
+const statusColors: Record<DownloadStatus, string> = {
+  active: "bg-emerald-500/20 text-emerald-400",
+  expired: "bg-gray-500/20 text-gray-400",
+  used_up: "bg-amber-500/20 text-amber-400",
+  revoked: "bg-red-500/20 text-red-400",
+}
+
+export default function DownloadsPage() {
+  const t = useTranslations("admin.downloads")
+  const { can } = useAdminPermissions()
+  const [data, setData] = useState<DownloadsResponse | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [page, setPage] = useState(1)
+  const [search, setSearch] = useState("")
+  const [debouncedSearch, setDebouncedSearch] = useState("")
+  const [openId, setOpenId] = useState<string | null>(null)
+
+  // Debounce search input
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      setPage(1)
+      setDebouncedSearch(search)
+    }, 300)
+    return () => clearTimeout(timer)
+  }, [search])
+
+  const fetchPurchases = useCallback(async () => {
+    setLoading(true)
+    try {
+      const params = new URLSearchParams()
+      params.set("page", page.toString())
+      params.set("limit", "50")
+      if (debouncedSearch) params.set("search", debouncedSearch)
+      const res = await fetch(`/api/admin/downloads?${params}`)
+      if (!res.ok) throw new Error()
+      setData(await res.json())
+    } catch {
+      toast.error(t("fetchFailed"))
+    } finally {
+      setLoading(false)
+    }
+  }, [page, debouncedSearch, t])
+
+  useEffect(() => { fetchPurchases() }, [fetchPurchases])
+
+  const closeModal = useCallback(() => setOpenId(null), [])
+
+  const statusBadge = (status: DownloadStatus) => (
+    <span className={`px-2.5 py-1 rounded-full text-xs font-medium whitespace-nowrap ${statusColors[status]}`}>
+      {t(`status_${status}`)}
+    </span>
+  )
+
+  const columns = [
+    {
+      key: "productName",
+      header: t("product"),
+      render: (item: DigitalPurchaseEntry) => (
+        <div className="min-w-0">
+          <p className="font-medium text-white text-sm truncate">{item.productName ?? t("unknownProduct")}</p>
+          <p className="text-xs text-gray-500 truncate">
+            {item.email}
+            {!item.userId && <span className="ml-1 text-gray-600">({t("guest")})</span>}
+          </p>
+        </div>
+      ),
+    },
+    {
+      key: "status",
+      header: t("status"),
+      className: "whitespace-nowrap w-[120px]",
+      render: (item: DigitalPurchaseEntry) => statusBadge(item.status),
+    },
+    {
+      key: "downloads",
+      header: t("downloads"),
+      className: "whitespace-nowrap w-[140px] hidden sm:table-cell",
+      render: (item: DigitalPurchaseEntry) => (
+        <div className="text-sm">
+          <p className="text-gray-300">{item.downloadCount} / {item.maxDownloads}</p>
+          <p className="text-xs text-gray-500">{t("totalDownloads", { count: item.totalDownloads })}</p>
+        </div>
+      ),
+    },
+    {
+      key: "reissueCount",
+      header: t("reissues"),
+      className: "whitespace-nowrap w-[100px] hidden md:table-cell",
+      render: (item: DigitalPurchaseEntry) => <span className="text-gray-400">{item.reissueCount}</span>,
+    },
+    {
+      key: "expiresAt",
+      header: t("expires"),
+      className: "whitespace-nowrap w-[160px] hidden lg:table-cell",
+      render: (item: DigitalPurchaseEntry) => (
+        <span className="text-gray-400">{new Date(item.expiresAt).toLocaleString()}</span>
+      ),
+    },
+    {
+      key: "createdAt",
+      header: t("purchased"),
+      className: "whitespace-nowrap w-[120px] hidden lg:table-cell",
+      render: (item: DigitalPurchaseEntry) => (
+        <span className="text-gray-400">{new Date(item.createdAt).toLocaleDateString()}</span>
+      ),
+    },
+  ]
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+        <div>
+          <h1 className="text-2xl lg:text-3xl font-bold text-white">{t("title")}</h1>
+          <p className="text-sm lg:text-base text-gray-400 mt-1">{t("subtitle")}</p>
+        </div>
+        <div className="relative sm:w-72">
+          <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-gray-400" />
+          <input
+            type="text"
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder={t("searchPlaceholder")}
+            className="w-full pl-10 pr-4 py-2.5 bg-white/5 border border-white/10 rounded-xl text-white text-sm placeholder-gray-500 focus:outline-none focus:border-emerald-500/50"
+          />
+        </div>
+      </div>
+
+      {loading && !data ? (
+        <SkeletonDataTable columns={5} />
+      ) : (
+        <>
+          <DataTable
+            data={data?.purchases ?? []}
+            columns={columns}
+            searchable={false}
+            pageSize={50}
+            emptyMessage={t("noPurchases")}
+            onRowClick={(item: DigitalPurchaseEntry) => setOpenId(item.id)}
+            renderMobileCard={(item: DigitalPurchaseEntry) => (
+              <>
+                <div className="min-w-0">
+                  <p className="font-medium text-white text-sm truncate">{item.productName ?? t("unknownProduct")}</p>
+                  <p className="text-xs text-gray-500 truncate">{item.email}</p>
+                  <p className="text-xs text-gray-500">{item.downloadCount} / {item.maxDownloads} · {new Date(item.expiresAt).toLocaleDateString()}</p>
+                </div>
+                <div className="flex items-center justify-end">
+                  {statusBadge(item.status)}
+                </div>
+              </>
+            )}
+          />
+
+          {data && data.totalPages > 1 && (
+            <div className="flex flex-col sm:flex-row items-center justify-between gap-2">
+              <span className="text-sm text-gray-400">
+                {t("pageInfo", { page: data.page, total: data.totalPages })}
+              </span>
+              <div className="flex items-center gap-2">
+                <button
+                  onClick={() => setPage((p) => Math.max(1, p - 1))}
+                  disabled={page === 1}
+                  className="p-2 rounded-lg bg-white/5 text-gray-400 hover:text-white hover:bg-white/10 transition-colors disabled:opacity-30 disabled:cursor-not-allowed"
+                >
+                  <ChevronLeft className="w-4 h-4" />
+                </button>
+                <button
+                  onClick={() => setPage((p) => Math.min(data.totalPages, p + 1))}
+                  disabled={page === data.totalPages}
+                  className="p-2 rounded-lg bg-white/5 text-gray-400 hover:text-white hover:bg-white/10 transition-colors disabled:opacity-30 disabled:cursor-not-allowed"
+                >
+                  <ChevronRight className="w-4 h-4" />
+                </button>
+              </div>
+            </div>
+          )}
+        </>
+      )}
+
+      {openId && (
+        <DigitalPurchaseModal
+          purchaseId={openId}
+          canEdit={can("orders", "edit")}
+          onSaved={fetchPurchases}
+          onClose={closeModal}
+        />
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,282 @@
+"use client"
+
+import { useState, useEffect, useCallback } from "react"
+import Link from "next/link"
+import { useLocale, useTranslations } from "next-intl"
+import { toast } from "sonner"
+import { Rss, PackageCheck, Package, Copy, Languages, Edit2 } from "lucide-react"
+import { SkeletonDataTable } from "@/app/components/admin/SkeletonDataTable"
+import { DataTable } from "@/app/components/admin/DataTable"
+import { useAdminPermissions } from "@/app/components/admin/AdminPermissionsContext"
+import { locales, localeNames, type Locale } from "@/i18n/config"
+import type { FeedIssue } from "@/lib/productFeeds"
+
+interface FeedCategory {
+  id: string
+  slug: string
+  parentId: string | null
+  nameBg: string
+  nameEn: string
+  nameEs: string
+}
+
+interface FeedIssueRow {
+  id: string
+  productId: string
+  title: string
+  issues: FeedIssue[]
+}
+
+interface FeedPreview {
+  settings: { categories: string[] }
+  categories: FeedCategory[]
+  locale: Locale
+  totals: { items: number; valid: number; products: number }
+  issues: FeedIssueRow[]
+}
+
+const FEEDS = [
+  { channel: "google", extension: "xml" },
+  { channel: "meta", extension: "csv" },
+]
+
+export default function ProductFeedsPage() {
+  const t = useTranslations("admin.feeds")
+  const locale = useLocale()
+  const { can } = useAdminPermissions()
+  const [previewLocale, setPreviewLocale] = useState<Locale>(locale as Locale)
+  const [preview, setPreview] = useState<FeedPreview | null>(null)
+  const [selected, setSelected] = useState<string[]>([])
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+  const [origin, setOrigin] = useState("")
+
+  const fetchPreview = useCallback(async () => {
+    setLoading(true)
+    try {
+      const res = await fetch(`/api/admin/feeds?locale=${previewLocale}`)
+      if (!res.ok) throw new Error()
+      const data: FeedPreview = await res.json()
+      setPreview(data)
+      setSelected(data.settings.categories)
+    } catch {
+      toast.error(t("fetchFailed"))
+    } finally {
+      setLoading(false)
+    }
+  }, [previewLocale, t])
+
+  useEffect(() => { fetchPreview() }, [fetchPreview])
+  useEffect(() => { setOrigin(window.location.origin) }, [])
+
+  const handleSave = async () => {
+    setSaving(true)
+    try {
+      const res = await fetch("/api/admin/feeds", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ categories: selected }),
+      })
+      if (!res.ok) {
+        const err = await res.json().catch(() => ({}))
+        toast.error(err.error || t("saveFailed"))
+        return
+      }
+      toast.success(t("savedSuccess"))
+      fetchPreview()
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const categoryName = (c: FeedCategory) => (locale === "bg" ? c.nameBg : locale === "es" ? c.nameEs : c.nameEn)
+  const categories = preview?.categories ?? []
+  const parentOf = new Map(categories.map((c) => [c.id, c.parentId]))
+  const slugById = new Map(categories.map((c) => [c.id, c.slug]))
+
+  // A selected category already covers its subcategories
+  const coveredByParent = (category: FeedCategory) => {
+    let parentId = category.parentId
+    while (parentId) {
+      if (selected.includes(slugById.get(parentId) ?? "")) return true
+      parentId = parentOf.get(parentId) ?? null
+    }
+    return false
+  }
+
+  const toggle = (slug: string) => {
+    setSelected((prev) => (prev.includes(slug) ? prev.filter((s) => s !== slug) : [...prev, slug]))
+  }
+
+  const renderCategories = (parentId: string | null, depth: number): React.ReactNode =>
+    categories.filter((c) => c.parentId === parentId).map((category) => {
+      const covered = coveredByParent(category)
+      return (
+        <div key={category.id}>
+          <label
+            className="flex items-center gap-2 py-1.5 text-sm text-gray-300 cursor-pointer"
+            style={{ paddingLeft: depth * 20 }}
+          >
+            <input
+              type="checkbox"
+              checked={covered || selected.includes(category.slug)}
+              disabled={covered || !can("products", "edit")}
+              onChange={() => toggle(category.slug)}
+              className="w-4 h-4 rounded border-white/20 bg-white/5 text-emerald-500 focus:ring-emerald-500/50 disabled:opacity-50"
+            />
+            {categoryName(category)}
+          </label>
+          {renderCategories(category.id, depth + 1)}
+        </div>
+      )
+    })
+
+  const copyUrl = (url: string) => {
+    navigator.clipboard.writeText(url)
+    toast.success(t("copied"))
+  }
+
+  const stats = preview ? [
+    { label: t("totalItems"), value: preview.totals.items.toLocaleString(), icon: Rss, color: "text-emerald-400" },
+    { label: t("validItems"), value: preview.totals.valid.toLocaleString(), icon: PackageCheck, color: "text-cyan-400" },
+    { label: t("products"), value: preview.totals.products.toLocaleString(), icon: Package, color: "text-amber-400" },
+  ] : []
+
+  const issueColumns = [
+    {
+      key: "title",
+      header: t("item"),
+      render: (item: FeedIssueRow) => (
+        <div>
+          <p className="font-medium text-white text-sm">{item.title}</p>
+          <p className="text-xs font-mono text-gray-500">{item.id}</p>
+        </div>
+      ),
+    },
+    {
+      key: "issues",
+      header: t("issues"),
+      render: (item: FeedIssueRow) => (
+        <div className="flex flex-wrap gap-1">
+          {item.issues.map((issue) => (
+            <span key={issue} className="px-2 py-0.5 rounded-full text-xs bg-red-500/20 text-red-400">{t(`issue_${issue}`)}</span>
+          ))}
+        </div>
+      ),
+    },
+    {
+      key: "actions",
+      header: "",
+      className: "w-[60px]",
+      render: (item: FeedIssueRow) => can("products", "edit") && (
+        <Link
+          href={`/admin/products?edit=${item.productId}`}
+          onClick={(e) => e.stopPropagation()}
+          className="inline-flex p-2 rounded-lg hover:bg-white/10 transition-colors"
+          title={t("editProduct")}
+        >
+          <Edit2 className="w-4 h-4 text-gray-400" />
+        </Link>
+      ),
+    },
+  ]
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+        <div>
+          <h1 className="text-2xl lg:text-3xl font-bold text-white">{t("title")}</h1>
+          <p className="text-sm lg:text-base text-gray-400 mt-1">{t("subtitle")}</p>
+        </div>
+        <div className="relative">
+          <Languages className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-gray-400 pointer-events-none" />
+          <select
+            value={previewLocale}
+            onChange={(e) => setPreviewLocale(e.target.value as Locale)}
+            className="w-full sm:w-auto pl-10 pr-8 py-2.5 bg-white/5 border border-white/10 rounded-xl text-sm text-white appearance-none focus:outline-none focus:border-emerald-500/50 cursor-pointer"
+          >
+            {locales.map((l) => (
+              <option key={l} value={l} className="bg-[#0d0d1a]">{localeNames[l]}</option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      <div className="glass rounded-2xl p-4 sm:p-5 space-y-3">
+        <h2 className="text-lg font-semibold text-white">{t("feedUrls")}</h2>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+          {FEEDS.flatMap(({ channel, extension }) => locales.map((l) => {
+            const url = `${origin}/api/feeds/${channel}/${l}.${extension}`
+            return (
+              <div key={url} className="flex items-center gap-3 px-3 py-2 rounded-xl bg-white/5 border border-white/10">
+                <span className="w-28 shrink-0 text-xs text-gray-400">{t(`channel_${channel}`)} · {l.toUpperCase()}</span>
+                <span className="flex-1 min-w-0 truncate font-mono text-xs text-emerald-400">{url}</span>
+                <button
+                  onClick={() => copyUrl(url)}
+                  className="p-2 rounded-lg hover:bg-white/10 transition-colors"
+                  title={t("copyUrl")}
+                >
+                  <Copy className="w-4 h-4 text-gray-400" />
+                </button>
+              </div>
+            )
+          }))}
+        </div>
+      </div>
+
+      {loading && !preview ? (
+        <SkeletonDataTable columns={3} />
+      ) : preview && (
+        <>
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+            {stats.map((stat) => (
+              <div key={stat.label} className="glass rounded-2xl p-4 sm:p-5 flex items-center gap-4">
+                <stat.icon className={`w-8 h-8 shrink-0 ${stat.color}`} />
+                <div>
+                  <p className="text-2xl font-bold text-white">{stat.value}</p>
+                  <p className="text-xs text-gray-400">{stat.label}</p>
+                </div>
+              </div>
+            ))}
+          </div>
+
+          <div className="grid grid-cols-1 xl:grid-cols-3 gap-6">
+            <div className="glass rounded-2xl p-4 sm:p-5 space-y-3">
+              <div>
+                <h2 className="text-lg font-semibold text-white">{t("categories")}</h2>
+                <p className="text-sm text-gray-400">{t("categoriesHint")}</p>
+              </div>
+              <div className="max-h-96 overflow-y-auto">
+                {categories.length === 0
+                  ? <p className="text-sm text-gray-500">{t("noCategories")}</p>
+                  : renderCategories(null, 0)}
+              </div>
+              {can("products", "edit") && (
+                <button
+                  onClick={handleSave}
+                  disabled={saving}
+                  className="w-full px-4 py-2.5 rounded-xl bg-gradient-to-r from-emerald-500 to-cyan-500 text-white text-sm font-medium hover:shadow-lg hover:shadow-emerald-500/30 transition-all disabled:opacity-50 disabled:hover:shadow-none"
+                >
+                  {saving ? t("saving") : t("save")}
+                </button>
+              )}
+            </div>
+
+            <div className="xl:col-span-2 space-y-3">
+              <div>
+                <h2 className="text-lg font-semibold text-white">{t("excludedItems")}</h2>
+                <p className="text-sm text-gray-400">{t("excludedItemsHint")}</p>
+              </div>
+              <DataTable
+                data={preview.issues}
+                columns={issueColumns}
+                searchPlaceholder={t("searchPlaceholder")}
+                emptyMessage={t("noIssues")}
+              />
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  )
+}
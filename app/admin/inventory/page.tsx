@@ -0,0 +1,381 @@
+"use client"
+
+import { useState, useEffect, useCallback } from "react"
+import Link from "next/link"
+import { useLocale, useTranslations } from "next-intl"
+import { toast } from "sonner"
+import { Plus, Edit2, Trash2, Scale, AlertTriangle } from "lucide-react"
+import { SkeletonDataTable } from "@/app/components/admin/SkeletonDataTable"
+import { FilamentStockForm } from "@/app/components/admin/FilamentStockForm"
+import { FilamentSpoolForm } from "@/app/components/admin/FilamentSpoolForm"
+import { ConfirmModal } from "@/app/components/admin/ConfirmModal"
+import { useAdminPermissions } from "@/app/components/admin/AdminPermissionsContext"
+import type { StockLevel } from "@/lib/filamentStock"
+
+interface ColorRef {
+  id: string
+  nameEn: string
+  nameBg: string
+  nameEs: string
+  hex: string
+}
+
+interface Spool {
+  id: string
+  stockId: string
+  initialGrams: number
+  remainingGrams: number
+  costPerKg: string | null
+  supplier: string | null
+  notes: string | null
+  createdAt: string
+}
+
+interface Stock {
+  id: string
+  materialId: string
+  colorId: string
+  lowStockGrams: number
+  remainingGrams: number
+  value: number
+  level: StockLevel
+  material: { id: string; name: string }
+  color: ColorRef
+  spools: Spool[]
+}
+
+interface Usage {
+  id: string
+  label: string
+  grams: number
+  shortGrams: number
+  createdAt: string
+  stock: { material: { name: string }; color: ColorRef }
+  order: { id: string; orderNumber: string } | null
+}
+
+interface AffectedVariant {
+  id: string
+  colorId: string
+  level: "low" | "out"
+  product: { id: string; nameEn: string; nameBg: string; nameEs: string; published: boolean }
+  packageVariants: { status: string; stock: number | null; filamentSoldOut: boolean; package: { weight: { label: string } } }[]
+}
+
+const LEVEL_BADGES: Record<StockLevel, string> = {
+  ok: "bg-emerald-500/20 text-emerald-400",
+  low: "bg-amber-500/20 text-amber-400",
+  out: "bg-red-500/20 text-red-400",
+}
+
+export default function InventoryPage() {
+  const t = useTranslations("admin.inventory")
+  const locale = useLocale()
+  const { can } = useAdminPermissions()
+  const [stocks, setStocks] = useState<Stock[]>([])
+  const [usages, setUsages] = useState<Usage[]>([])
+  const [affected, setAffected] = useState<AffectedVariant[]>([])
+  const [materials, setMaterials] = useState<{ id: string; name: string }[]>([])
+  const [colors, setColors] = useState<ColorRef[]>([])
+  const [autoSoldOut, setAutoSoldOut] = useState(false)
+  const [loading, setLoading] = useState(true)
+  const [stockForm, setStockForm] = useState<{ stock: Stock | null } | null>(null)
+  const [spoolForm, setSpoolForm] = useState<{ stock: Stock; spool: Spool | null } | null>(null)
+  const [deleteItem, setDeleteItem] = useState<{ kind: "stock" | "spool"; id: string; name: string } | null>(null)
+
+  const fetchInventory = useCallback(async () => {
+    try {
+      const res = await fetch("/api/admin/inventory")
+      const data = await res.json()
+      setStocks(Array.isArray(data.stocks) ? data.stocks : [])
+      setUsages(Array.isArray(data.usages) ? data.usages : [])
+      setAffected(Array.isArray(data.affected) ? data.affected : [])
+      setMaterials(Array.isArray(data.materials) ? data.materials : [])
+      setColors(Array.isArray(data.colors) ? data.colors : [])
+      setAutoSoldOut(!!data.autoSoldOut)
+    } finally {
+      setLoading(false)
+    }
+  }, [])
+
+  useEffect(() => { fetchInventory() }, [fetchInventory])
+
+  const colorName = (color: ColorRef) => (locale === "bg" ? color.nameBg : locale === "es" ? color.nameEs : color.nameEn)
+  const productName = (product: AffectedVariant["product"]) =>
+    locale === "bg" ? product.nameBg : locale === "es" ? product.nameEs : product.nameEn
+  const stockLabel = (stock: { material: { name: string }; color: ColorRef }) => `${stock.material.name} · ${colorName(stock.color)}`
+  const formatGrams = (grams: number) => `${Math.round(grams).toLocaleString(locale)} g`
+
+  const save = async (url: string, method: string, body: object): Promise<boolean> => {
+    const res = await fetch(url, {
+      method,
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(body),
+    })
+    if (!res.ok) {
+      const err = await res.json().catch(() => ({ error: "An error occurred" }))
+      toast.error(err.error || t("saveFailed"))
+      return false
+    }
+    toast.success(t("savedSuccess"))
+    fetchInventory()
+    return true
+  }
+
+  const handleStockSubmit = async (data: { id?: string; materialId: string; colorId: string; lowStockGrams: string }) => {
+    const saved = data.id
+      ? await save("/api/admin/inventory", "PUT", { id: data.id, lowStockGrams: data.lowStockGrams })
+      : await save("/api/admin/inventory", "POST", data)
+    if (saved) setStockForm(null)
+  }
+
+  const handleSpoolSubmit = async (data: { id?: string; stockId: string; grams: string; costPerKg: string; supplier: string; notes: string }) => {
+    const saved = await save("/api/admin/inventory/spools", data.id ? "PUT" : "POST", data)
+    if (saved) setSpoolForm(null)
+  }
+
+  const confirmDelete = async () => {
+    if (!deleteItem) return
+    const url = deleteItem.kind === "stock" ? "/api/admin/inventory" : "/api/admin/inventory/spools"
+    const res = await fetch(`${url}?id=${deleteItem.id}`, { method: "DELETE" })
+    setDeleteItem(null)
+    if (!res.ok) {
+      const err = await res.json().catch(() => ({ error: "An error occurred" }))
+      toast.error(err.error || t("deleteFailed"))
+      return
+    }
+    toast.success(t("deletedSuccess"))
+    fetchInventory()
+  }
+
+  const canEdit = can("products", "edit")
+  const colorsById = new Map(colors.map((color) => [color.id, color]))
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+        <div>
+          <h1 className="text-2xl lg:text-3xl font-bold text-white">{t("title")}</h1>
+          <p className="text-sm lg:text-base text-gray-400 mt-1">{t("subtitle")}</p>
+        </div>
+        {canEdit && (
+          <button
+            onClick={() => setStockForm({ stock: null })}
+            disabled={materials.length === 0 || colors.length === 0}
+            className="flex items-center justify-center gap-2 px-6 py-3 rounded-xl bg-gradient-to-r from-emerald-500 to-cyan-500 text-sm sm:text-base text-white font-medium hover:shadow-lg hover:shadow-emerald-500/30 transition-all disabled:opacity-40 disabled:cursor-not-allowed"
+          >
+            <Plus className="w-5 h-5" />
+            {t("addStock")}
+          </button>
+        )}
+      </div>
+
+      {loading ? (
+        <SkeletonDataTable columns={4} />
+      ) : stocks.length === 0 ? (
+        <div className="glass rounded-2xl p-8 flex flex-col items-center gap-2 text-center">
+          <p className="text-gray-400">{t("noStocks")}</p>
+          <p className="text-xs text-gray-600">{t("noStocksHint")}</p>
+        </div>
+      ) : (
+        <div className="grid gap-4 lg:grid-cols-2">
+          {stocks.map((stock) => (
+            <div key={stock.id} className="glass rounded-2xl p-4 sm:p-5 space-y-3">
+              <div className="flex items-start justify-between gap-3">
+                <div className="flex items-center gap-3 min-w-0">
+                  <span className="w-8 h-8 rounded-full border border-white/20 shrink-0" style={{ backgroundColor: stock.color.hex }} />
+                  <div className="min-w-0">
+                    <p className="font-medium text-white text-sm truncate">{stockLabel(stock)}</p>
+                    <p className="text-xs text-gray-500">
+                      {t("remainingOf", { remaining: formatGrams(stock.remainingGrams), threshold: formatGrams(stock.lowStockGrams) })}
+                      {stock.value > 0 && ` · €${stock.value.toFixed(2)}`}
+                    </p>
+                  </div>
+                </div>
+                <span className={`px-2 py-0.5 rounded-full text-xs font-medium shrink-0 ${LEVEL_BADGES[stock.level]}`}>
+                  {t(`level_${stock.level}`)}
+                </span>
+              </div>
+
+              {stock.spools.length === 0 ? (
+                <p className="text-xs text-gray-600">{t("noSpools")}</p>
+              ) : (
+                <ul className="space-y-2">
+                  {stock.spools.map((spool) => (
+                    <li key={spool.id} className="flex items-center gap-3 text-sm">
+                      <div className="flex-1 min-w-0">
+                        <div className="flex items-center justify-between gap-2 text-xs text-gray-400">
+                          <span className="truncate">
+                            {[spool.supplier, spool.costPerKg && `€${Number(spool.costPerKg).toFixed(2)}/kg`].filter(Boolean).join(" · ") || t("spool")}
+                          </span>
+                          <span className="shrink-0">{formatGrams(Math.max(spool.remainingGrams, 0))} / {formatGrams(spool.initialGrams)}</span>
+                        </div>
+                        <div className="mt-1 h-1.5 rounded-full bg-white/10 overflow-hidden">
+                          <div
+                            className="h-full rounded-full bg-gradient-to-r from-emerald-500 to-cyan-500"
+                            style={{ width: `${spool.initialGrams > 0 ? Math.max(0, Math.min(100, (spool.remainingGrams / spool.initialGrams) * 100)) : 0}%` }}
+                          />
+                        </div>
+                      </div>
+                      {canEdit && (
+                        <div className="flex items-center shrink-0">
+                          <button
+                            onClick={() => setSpoolForm({ stock, spool })}
+                            className="p-1.5 rounded-lg hover:bg-white/10 transition-colors"
+                            title={t("weighSpool")}
+                          >
+                            <Scale className="w-4 h-4 text-gray-400" />
+                          </button>
+                          <button
+                            onClick={() => setDeleteItem({ kind: "spool", id: spool.id, name: stockLabel(stock) })}
+                            className="p-1.5 rounded-lg hover:bg-red-500/20 transition-colors"
+                            title={t("delete")}
+                          >
+                            <Trash2 className="w-4 h-4 text-red-400" />
+                          </button>
+                        </div>
+                      )}
+                    </li>
+                  ))}
+                </ul>
+              )}
+
+              {canEdit && (
+                <div className="flex items-center justify-end gap-2 pt-1">
+                  <button
+                    onClick={() => setSpoolForm({ stock, spool: null })}
+                    className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-xs border border-white/10 text-gray-300 hover:text-white hover:border-white/30 transition-colors"
+                  >
+                    <Plus className="w-3.5 h-3.5" />
+                    {t("addSpool")}
+                  </button>
+                  <button
+                    onClick={() => setStockForm({ stock })}
+                    className="p-2 rounded-lg hover:bg-white/10 transition-colors"
+                    title={t("edit")}
+                  >
+                    <Edit2 className="w-4 h-4 text-gray-400" />
+                  </button>
+                  <button
+                    onClick={() => setDeleteItem({ kind: "stock", id: stock.id, name: stockLabel(stock) })}
+                    className="p-2 rounded-lg hover:bg-red-500/20 transition-colors"
+                    title={t("delete")}
+                  >
+                    <Trash2 className="w-4 h-4 text-red-400" />
+                  </button>
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {/* Catalog variants that depend on low or empty colors */}
+      {!loading && affected.length > 0 && (
+        <div className="glass rounded-2xl p-4 sm:p-5 space-y-3">
+          <div className="flex items-start gap-3">
+            <AlertTriangle className="w-5 h-5 text-amber-400 shrink-0 mt-0.5" />
+            <div>
+              <h2 className="text-white font-semibold">{t("affectedTitle")}</h2>
+              <p className="text-xs text-gray-500">
+                {autoSoldOut ? t("affectedAutoOn") : t("affectedAutoOff")}{" "}
+                {can("settings", "view") && (
+                  <Link href="/admin/settings" className="text-emerald-400 hover:underline">{t("affectedSettingsLink")}</Link>
+                )}
+              </p>
+            </div>
+          </div>
+          <ul className="divide-y divide-white/5">
+            {affected.map((variant) => {
+              const color = colorsById.get(variant.colorId)
+              const soldOut = variant.packageVariants.filter((cell) => cell.filamentSoldOut).length
+              return (
+                <li key={variant.id} className="flex items-center gap-3 py-2 text-sm">
+                  <span className="w-4 h-4 rounded-full border border-white/20 shrink-0" style={{ backgroundColor: color?.hex }} />
+                  <Link href={`/admin/products?edit=${variant.product.id}`} className="flex-1 min-w-0 truncate text-gray-200 hover:text-emerald-400">
+                    {productName(variant.product)}
+                    {color && <span className="text-gray-500"> · {colorName(color)}</span>}
+                    {!variant.product.published && <span className="text-gray-600"> · {t("unpublished")}</span>}
+                  </Link>
+                  {soldOut > 0 && <span className="text-xs text-gray-500 shrink-0">{t("autoSoldOutCells", { count: soldOut })}</span>}
+                  <span className={`px-2 py-0.5 rounded-full text-xs font-medium shrink-0 ${LEVEL_BADGES[variant.level]}`}>
+                    {variant.level === "out" ? t("unfulfillable") : t("atRisk")}
+                  </span>
+                </li>
+              )
+            })}
+          </ul>
+        </div>
+      )}
+
+      {/* Consumption history */}
+      {!loading && usages.length > 0 && (
+        <div className="glass rounded-2xl p-4 sm:p-5 space-y-3">
+          <h2 className="text-white font-semibold">{t("usageTitle")}</h2>
+          <ul className="divide-y divide-white/5">
+            {usages.map((usage) => (
+              <li key={usage.id} className="flex items-center gap-3 py-2 text-sm">
+                <span className="w-4 h-4 rounded-full border border-white/20 shrink-0" style={{ backgroundColor: usage.stock.color.hex }} />
+                <div className="flex-1 min-w-0">
+                  <p className="text-gray-200 truncate">
+                    {usage.order ? (
+                      <Link href={`/admin/orders?edit=${usage.order.id}`} className="hover:text-emerald-400">{usage.label}</Link>
+                    ) : usage.label}
+                  </p>
+                  <p className="text-xs text-gray-500">
+                    {stockLabel(usage.stock)} · {new Date(usage.createdAt).toLocaleDateString(locale)}
+                  </p>
+                </div>
+                <div className="text-right shrink-0">
+                  <p className="text-gray-300">−{formatGrams(usage.grams)}</p>
+                  {usage.shortGrams > 0 && <p className="text-xs text-red-400">{t("shortBy", { grams: formatGrams(usage.shortGrams) })}</p>}
+                </div>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {stockForm && (
+        <FilamentStockForm
+          initialData={stockForm.stock ? {
+            id: stockForm.stock.id,
+            materialId: stockForm.stock.materialId,
+            colorId: stockForm.stock.colorId,
+            lowStockGrams: String(stockForm.stock.lowStockGrams),
+          } : undefined}
+          materials={materials}
+          colors={colors}
+          onSubmit={handleStockSubmit}
+          onCancel={() => setStockForm(null)}
+        />
+      )}
+
+      {spoolForm && (
+        <FilamentSpoolForm
+          initialData={{
+            id: spoolForm.spool?.id,
+            stockId: spoolForm.stock.id,
+            grams: spoolForm.spool ? String(Math.max(spoolForm.spool.remainingGrams, 0)) : "",
+            costPerKg: spoolForm.spool?.costPerKg ?? "",
+            supplier: spoolForm.spool?.supplier ?? "",
+            notes: spoolForm.spool?.notes ?? "",
+          }}
+          stockLabel={stockLabel(spoolForm.stock)}
+          onSubmit={handleSpoolSubmit}
+          onCancel={() => setSpoolForm(null)}
+        />
+      )}
+
+      <ConfirmModal
+        open={!!deleteItem}
+        title={deleteItem?.kind === "spool" ? t("confirmDeleteSpoolTitle") : t("confirmDeleteTitle")}
+        message={deleteItem?.kind === "spool"
+          ? t("confirmDeleteSpoolMessage", { name: deleteItem.name })
+          : t("confirmDeleteMessage", { name: deleteItem?.name ?? "" })}
+        onConfirm={confirmDelete}
+        onCancel={() => setDeleteItem(null)}
+      />
+    </div>
+  )
+}
@@ -0,0 +1,211 @@
+"use client"
+
+import { useState, useEffect, useCallback } from "react"
+import { useTranslations } from "next-intl"
+import { toast } from "sonner"
+import { Plus, Edit2, Trash2 } from "lucide-react"
+import { SkeletonDataTable } from "@/app/components/admin/SkeletonDataTable"
+import { SortableDataTable } from "@/app/components/admin/SortableDataTable"
+import { MaterialForm } from "@/app/components/admin/MaterialForm"
+import { ConfirmModal } from "@/app/components/admin/ConfirmModal"
+import { useAdminPermissions } from "@/app/components/admin/AdminPermissionsContext"
+
+interface Material {
+  id: string
+  name: string
+  density: number
+  pricePerGram: string
+  active: boolean
+  order: number
+}
+
+export default function MaterialsPage() {
+  const t = useTranslations("admin.materials")
+  const { can } = useAdminPermissions()
+  const [materials, setMaterials] = useState<Material[]>([])
+  const [loading, setLoading] = useState(true)
+  const [showForm, setShowForm] = useState(false)
+  const [editingMaterial, setEditingMaterial] = useState<Material | null>(null)
+  const [deleteItem, setDeleteItem] = useState<{ id: string; name: string } | null>(null)
+
+  const fetchMaterials = useCallback(async () => {
+    setLoading(true)
+    try {
+      const res = await fetch("/api/admin/materials")
+      const data = await res.json()
+      setMaterials(Array.isArray(data) ? data : [])
+    } finally {
+      setLoading(false)
+    }
+  }, [])
+
+  useEffect(() => { fetchMaterials() }, [fetchMaterials])
+
+  const handleSubmit = async (data: { id?: string; name: string; density: string; pricePerGram: string; active: boolean; order: number }) => {
+    const method = data.id ? "PUT" : "POST"
+    const res = await fetch("/api/admin/materials", {
+      method,
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(data),
+    })
+    if (!res.ok) {
+      const err = await res.json()
+      toast.error(err.error || t("saveFailed"))
+      return
+    }
+    setShowForm(false)
+    setEditingMaterial(null)
+    toast.success(t("savedSuccess"))
+    fetchMaterials()
+  }
+
+  const confirmDelete = async () => {
+    if (!deleteItem) return
+    const res = await fetch(`/api/admin/materials?id=${deleteItem.id}`, { method: "DELETE" })
+    if (!res.ok) {
+      const err = await res.json().catch(() => ({ error: "An error occurred" }))
+      toast.error(err.error || t("deleteFailed"))
+      setDeleteItem(null)
+      return
+    }
+    setDeleteItem(null)
+    toast.success(t("deletedSuccess"))
+    fetchMaterials()
+  }
+
+  const handleReorder = async (items: Material[]) => {
+    setMaterials(items)
+    await fetch("/api/admin/materials", {
+      method: "PATCH",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ items: items.map((item, i) => ({ id: item.id, order: i })) }),
+    })
+  }
+
+  const columns = [
+    {
+      key: "name",
+      header: t("name"),
+      render: (item: Material) => (
+        <div>
+          <p className="font-medium text-white text-sm">{item.name}</p>
+          {!item.active && <p className="text-xs text-gray-500">{t("inactive")}</p>}
+        </div>
+      ),
+    },
+    {
+      key: "density",
+      header: t("density"),
+      className: "hidden sm:table-cell",
+      render: (item: Material) => <span className="text-sm text-gray-400">{item.density} g/cm³</span>,
+    },
+    {
+      key: "pricePerGram",
+      header: t("pricePerGram"),
+      render: (item: Material) => <span className="text-sm text-gray-300">€{Number(item.pricePerGram).toFixed(4)}</span>,
+    },
+    {
+      key: "actions",
+      header: "",
+      render: (item: Material) => (
+        <div className="flex items-center gap-2">
+          {can("quotes", "edit") && (
+            <button
+              onClick={(e) => { e.stopPropagation(); setEditingMaterial(item); setShowForm(true) }}
+              className="p-2 rounded-lg hover:bg-white/10 transition-colors"
+              title={t("edit")}
+            >
+              <Edit2 className="w-4 h-4 text-gray-400" />
+            </button>
+          )}
+          {can("quotes", "edit") && (
+            <button
+              onClick={(e) => { e.stopPropagation(); setDeleteItem({ id: item.id, name: item.name }) }}
+              className="p-2 rounded-lg hover:bg-red-500/20 transition-colors"
+              title={t("delete")}
+            >
+              <Trash2 className="w-4 h-4 text-red-400" />
+            </button>
+          )}
+        </div>
+      ),
+    },
+  ]
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+        <div>
+          <h1 className="text-2xl lg:text-3xl font-bold text-white">{t("title")}</h1>
+          <p className="text-sm lg:text-base text-gray-400 mt-1">{t("subtitle")}</p>
+        </div>
+        {can("quotes", "edit") && (
+          <button
+            onClick={() => { setEditingMaterial(null); setShowForm(true) }}
+            className="flex items-center justify-center gap-2 px-6 py-3 rounded-xl bg-gradient-to-r from-emerald-500 to-cyan-500 text-sm sm:text-base text-white font-medium hover:shadow-lg hover:shadow-emerald-500/30 transition-all"
+          >
+            <Plus className="w-5 h-5" />
+            {t("addMaterial")}
+          </button>
+        )}
+      </div>
+
+      {loading ? (
+        <SkeletonDataTable columns={3} />
+      ) : (
+        <SortableDataTable
+          data={materials}
+          columns={columns}
+          searchPlaceholder={t("searchPlaceholder")}
+          emptyMessage={
+            <div className="flex flex-col items-center gap-2">
+              <p className="text-gray-400">{t("noMaterials")}</p>
+              <p className="text-xs text-gray-600">{t("noMaterialsHint")}</p>
+            </div>
+          }
+          onReorder={handleReorder}
+          onRowClick={(item) => { setEditingMaterial(item); setShowForm(true) }}
+          renderMobileCard={(item: Material) => (
+            <>
+              <div className="flex items-center justify-between gap-2">
+                <div className="min-w-0">
+                  <p className="font-medium text-white text-sm">{item.name}</p>
+                  <p className="text-xs text-gray-500">{item.density} g/cm³{!item.active && ` · ${t("inactive")}`}</p>
+                </div>
+                <span className="text-xs text-gray-300 shrink-0">€{Number(item.pricePerGram).toFixed(4)}</span>
+              </div>
+              <div className="flex items-center justify-end gap-2">
+                {can("quotes", "edit") && (
+                  <button onClick={() => { setEditingMaterial(item); setShowForm(true) }} className="p-2 rounded-lg hover:bg-white/10 transition-colors">
+                    <Edit2 className="w-4 h-4 text-gray-400" />
+                  </button>
+                )}
+                {can("quotes", "edit") && (
+                  <button onClick={() => setDeleteItem({ id: item.id, name: item.name })} className="p-2 rounded-lg hover:bg-red-500/20 transition-colors">
+                    <Trash2 className="w-4 h-4 text-red-400" />
+                  </button>
+                )}
+              </div>
+            </>
+          )}
+        />
+      )}
+
+      {showForm && (
+        <MaterialForm
+          initialData={editingMaterial ? { ...editingMaterial, density: String(editingMaterial.density), pricePerGram: String(Number(editingMaterial.pricePerGram)) } : undefined}
+          onSubmit={handleSubmit}
+          onCancel={() => { setShowForm(false); setEditingMaterial(null) }}
+        />
+      )}
+
+      <ConfirmModal
+        open={!!deleteItem}
+        title={t("confirmDeleteTitle")}
+        message={t("confirmDeleteMessage", { name: deleteItem?.name ?? "" })}
+        onConfirm={confirmDelete}
+        onCancel={() => setDeleteItem(null)}
+      />
+    </div>
+  )
+}
@@ -83,6 +83,7 @@ const SOURCE_FILTERS = [
   { value: "banners", labelKey: "sourceBanners" },
   { value: "content", labelKey: "sourceNews" },
   { value: "categories", labelKey: "sourceCategories" },
+  { value: "quotes", labelKey: "sourceQuotes" },
   { value: "unused", labelKey: "sourceUnused" },
 ]
 
@@ -94,6 +95,7 @@ const RESOURCE_PAGES: Record<string, string> = {
   content: "/admin/content",
   banners: "/admin/banners",
   categories: "/admin/products", // categories are managed from products page
+  quotes: "/admin/quotes",
 }
 
 export default function MediaGalleryPage() {
@@ -207,6 +207,7 @@ export default function NotificationTemplatesPage() {
     sent: number
     couponsCreated: number
     reminders: { sent: number; errors: string[] }
+    quotes: { expired: number; reminded: number; errors: string[] }
     errors: string[]
     simulatedDate: string | null
   } | null>(null)
@@ -2105,11 +2106,15 @@ export default function NotificationTemplatesPage() {
                       <CheckCircle2 className="w-4 h-4 text-emerald-400 shrink-0" />
                       <span>{t("runCronReminders", { count: cronResult.reminders.sent })}</span>
                     </div>
+                    <div className="flex items-center gap-2 text-gray-300">
+                      <CheckCircle2 className="w-4 h-4 text-emerald-400 shrink-0" />
+                      <span>{t("runCronQuotes", { expired: cronResult.quotes.expired, reminded: cronResult.quotes.reminded })}</span>
+                    </div>
                   </div>
-                  {(cronResult.errors.length > 0 || cronResult.reminders.errors.length > 0) && (
+                  {(cronResult.errors.length > 0 || cronResult.reminders.errors.length > 0 || cronResult.quotes.errors.length > 0) && (
                     <div className="bg-red-500/10 border border-red-500/20 rounded-xl p-4 space-y-1">
                       <p className="text-xs font-semibold text-red-400">{t("runCronErrors")}</p>
-                      {[...cronResult.errors, ...cronResult.reminders.errors].map((e, i) => (
+                      {[...cronResult.errors, ...cronResult.reminders.errors, ...cronResult.quotes.errors].map((e, i) => (
                         <p key={i} className="text-xs text-red-300">{e}</p>
                       ))}
                     </div>
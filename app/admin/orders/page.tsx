@@ -2,7 +2,7 @@
 
 import { useState, useEffect } from "react"
 import { useSearchParams } from "next/navigation"
-import { useTranslations } from "next-intl"
+import { useTranslations, useLocale } from "next-intl"
 import { toast } from "sonner"
 import {
   Plus,
@@ -14,11 +14,62 @@ import {
   CheckCircle,
   XCircle,
   PlayCircle,
+  RotateCcw,
+  AlertTriangle,
+  FileText,
 } from "lucide-react"
 import { DataTable } from "@/app/components/admin/DataTable"
 import { SkeletonDataTable } from "@/app/components/admin/SkeletonDataTable"
 import { ConfirmModal } from "@/app/components/admin/ConfirmModal"
+import { OrderRefundModal } from "@/app/components/admin/OrderRefundModal"
 import { useAdminPermissions } from "@/app/components/admin/AdminPermissionsContext"
+import { getCountryName } from "@/lib/countries"
+
+interface OrderItem {
+  id: string
+  productId: string | null
+  nameEn: string
+  packageLabel: string | null
+  colorNameEn: string | null
+  colorHex: string | null
+  sku: string | null
+  fileType: string
+  quantity: number
+  unitPrice: string
+  bulkDiscount: string
+  couponDiscount: string
+  lineTotal: string
+  refundedQuantity: number
+}
+
+interface Refund {
+  id: string
+  number: string | null
+  amount: string
+  reason: string | null
+  status: "pending" | "succeeded" | "failed"
+  source: "admin" | "stripe"
+  includesShipping: boolean
+  createdAt: string
+}
+
+interface Invoice {
+  id: string
+  type: "invoice" | "credit_note"
+  number: string
+  total: string
+  issuedAt: string
+}
+
+interface ShippingAddress {
+  fullName: string
+  phone: string
+  line1: string
+  line2?: string | null
+  city: string
+  postalCode: string
+  country: string
+}
 
 interface Order {
   id: string
@@ -31,6 +82,26 @@ interface Order {
   notes: string | null
   userId: string | null
   user: { id: string; name: string | null; email: string | null; image: string | null } | null
+  subtotal: string | null
+  discountAmount: string | null
+  total: string | null
+  currency: string
+  couponCode: string | null
+  shippingMethodName: string | null
+  shippingFee: string | null
+  shippingAddress: ShippingAddress | null
+  stripeSession: string | null
+  refundedAmount: string
+  disputedAt: string | null
+  disputeReason: string | null
+  taxCountry: string | null
+  vatNumber: string | null
+  reverseCharge: boolean
+  vatAmount: string | null
+  taxBreakdown: Array<{ rate: number; net: number; vat: number }> | null
+  items: OrderItem[]
+  refunds: Refund[]
+  invoices: Invoice[]
   createdAt: string
   updatedAt: string
 }
@@ -44,6 +115,7 @@ const statusConfig = {
 
 export default function OrdersPage() {
   const t = useTranslations("admin.orders")
+  const locale = useLocale()
   const { can } = useAdminPermissions()
   const searchParams = useSearchParams()
   const [orders, setOrders] = useState<Order[]>([])
@@ -52,6 +124,8 @@ export default function OrdersPage() {
   const [editingOrder, setEditingOrder] = useState<Order | null>(null)
   const [filter, setFilter] = useState<string>(searchParams.get("status") || "all")
   const [deleteItem, setDeleteItem] = useState<{ id: string, name: string } | null>(null)
+  const [refundingOrder, setRefundingOrder] = useState<Order | null>(null)
+  const [issuingInvoice, setIssuingInvoice] = useState(false)
 
   const fetchOrders = async () => {
     setLoading(true)
@@ -140,6 +214,51 @@ export default function OrdersPage() {
     fetchOrders()
   }
 
+  const canRefund = (order: Order) =>
+    can("orders", "edit") && !!order.stripeSession && !!order.total &&
+    parseFloat(order.total) - parseFloat(order.refundedAmount) > 0
+
+  const handleRefund = async (data: { lines: Array<{ orderItemId: string; quantity: number }>; includeShipping: boolean; reason: string }) => {
+    if (!refundingOrder) return
+    const res = await fetch(`/api/admin/orders/${refundingOrder.id}/refund`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(data),
+    })
+    if (!res.ok) {
+      const err = await res.json().catch(() => ({}))
+      toast.error(err.error || t("refundFailed"))
+      return
+    }
+    const updated: Order = await res.json()
+    setRefundingOrder(null)
+    if (editingOrder?.id === updated.id) setEditingOrder(updated)
+    toast.success(t("refundSuccess"))
+    fetchOrders()
+  }
+
+  const canIssueInvoice = (order: Order) =>
+    can("orders", "edit") && !!order.stripeSession && !!order.total &&
+    !order.invoices.some(i => i.type === "invoice")
+
+  const handleIssueInvoice = async (order: Order) => {
+    setIssuingInvoice(true)
+    try {
+      const res = await fetch(`/api/admin/orders/${order.id}/invoice`, { method: "POST" })
+      if (!res.ok) {
+        const err = await res.json().catch(() => ({}))
+        toast.error(err.error || t("invoiceFailed"))
+        return
+      }
+      const updated: Order = await res.json()
+      if (editingOrder?.id === updated.id) setEditingOrder(updated)
+      toast.success(t("invoiceIssued"))
+      fetchOrders()
+    } finally {
+      setIssuingInvoice(false)
+    }
+  }
+
   const columns = [
     {
       key: "orderNumber",
@@ -178,6 +297,23 @@ export default function OrdersPage() {
         <p className="text-gray-300 truncate max-w-xs">{item.description}</p>
       ),
     },
+    {
+      key: "total",
+      header: t("total"),
+      className: "whitespace-nowrap w-[110px] hidden sm:table-cell",
+      render: (item: Order) => item.total ? (
+        <div>
+          <p className="font-medium text-white">€{parseFloat(item.total).toFixed(2)}</p>
+          {parseFloat(item.refundedAmount) > 0 ? (
+            <p className="text-xs text-red-400">{t("refundedShort", { amount: `€${parseFloat(item.refundedAmount).toFixed(2)}` })}</p>
+          ) : (
+            <p className="text-xs text-gray-500">{t("itemsCount", { count: item.items.reduce((sum, i) => sum + i.quantity, 0) })}</p>
+          )}
+        </div>
+      ) : (
+        <span className="text-gray-600">—</span>
+      ),
+    },
     {
       key: "status",
       header: t("status"),
@@ -216,7 +352,7 @@ export default function OrdersPage() {
     {
       key: "actions",
       header: t("actions"),
-      className: "w-[80px]",
+      className: "w-[120px]",
       render: (item: Order) => (
         <div className="flex items-center gap-2">
           {can("orders", "edit") && (
@@ -231,6 +367,18 @@ export default function OrdersPage() {
               <Edit2 className="w-4 h-4 text-gray-400" />
             </button>
           )}
+          {canRefund(item) && (
+            <button
+              onClick={(e) => {
+                e.stopPropagation()
+                setRefundingOrder(item)
+              }}
+              className="p-2 rounded-lg hover:bg-amber-500/20 transition-colors"
+              title={t("refund")}
+            >
+              <RotateCcw className="w-4 h-4 text-amber-400" />
+            </button>
+          )}
           {can("orders", "delete") && (
             <button
               onClick={(e) => {
@@ -287,7 +435,7 @@ export default function OrdersPage() {
       </div>
 
       {loading ? (
-        <SkeletonDataTable columns={5} />
+        <SkeletonDataTable columns={6} />
       ) : (
         <DataTable
           data={orders}
@@ -334,6 +482,7 @@ export default function OrdersPage() {
                 <div className="flex items-center justify-between gap-2">
                   <span className="text-xs text-gray-500">
                     {new Date(item.createdAt).toLocaleDateString()}
+                    {item.total && <span className="ml-2 text-white font-medium">€{parseFloat(item.total).toFixed(2)}</span>}
                   </span>
                   <div className="flex items-center gap-2">
                     {can("orders", "edit") && (
@@ -348,6 +497,17 @@ export default function OrdersPage() {
                         <Edit2 className="w-4 h-4 text-gray-400" />
                       </button>
                     )}
+                    {canRefund(item) && (
+                      <button
+                        onClick={(e) => {
+                          e.stopPropagation()
+                          setRefundingOrder(item)
+                        }}
+                        className="p-2 rounded-lg hover:bg-amber-500/20 transition-colors"
+                      >
+                        <RotateCcw className="w-4 h-4 text-amber-400" />
+                      </button>
+                    )}
                     {can("orders", "delete") && (
                       <button
                         onClick={(e) => {
@@ -442,6 +602,195 @@ export default function OrdersPage() {
                 </div>
               </div>
 
+              {editingOrder && editingOrder.items.length > 0 && (
+                <div>
+                  <label className="block text-sm font-medium text-gray-400 mb-2">
+                    {t("items")}
+                  </label>
+                  <div className="rounded-xl border border-white/10 divide-y divide-white/5">
+                    {editingOrder.items.map((line) => (
+                      <div key={line.id} className="flex items-center justify-between gap-3 px-4 py-2 text-sm">
+                        <div className="flex items-center gap-2 min-w-0">
+                          {line.colorHex && (
+                            <span className="w-3 h-3 rounded-full border border-white/20 shrink-0" style={{ backgroundColor: line.colorHex }} />
+                          )}
+                          <div className="min-w-0">
+                            <p className="text-white truncate">{line.nameEn}</p>
+                            <p className="text-xs text-gray-500 truncate">
+                              {[line.packageLabel, line.colorNameEn, line.sku, line.fileType === "digital" ? t("digital") : null].filter(Boolean).join(" · ")}
+                            </p>
+                          </div>
+                        </div>
+                        <div className="text-right shrink-0">
+                          <p className="text-gray-300">{line.quantity} × €{parseFloat(line.unitPrice).toFixed(2)}</p>
+                          {line.refundedQuantity > 0 && (
+                            <p className="text-xs text-red-400">{t("refundedQty", { count: line.refundedQuantity })}</p>
+                          )}
+                          {parseFloat(line.bulkDiscount) + parseFloat(line.couponDiscount) > 0 && (
+                            <p className="text-xs text-emerald-400">-€{(parseFloat(line.bulkDiscount) + parseFloat(line.couponDiscount)).toFixed(2)}</p>
+                          )}
+                          <p className="font-medium text-white">€{parseFloat(line.lineTotal).toFixed(2)}</p>
+                        </div>
+                      </div>
+                    ))}
+                    {editingOrder.total && (
+                      <div className="px-4 py-2 text-sm space-y-1">
+                        {editingOrder.subtotal && (
+                          <div className="flex justify-between text-gray-400">
+                            <span>{t("subtotal")}</span>
+                            <span>€{parseFloat(editingOrder.subtotal).toFixed(2)}</span>
+                          </div>
+                        )}
+                        {editingOrder.discountAmount && parseFloat(editingOrder.discountAmount) > 0 && (
+                          <div className="flex justify-between text-emerald-400">
+                            <span>{t("discount")}{editingOrder.couponCode ? ` (${editingOrder.couponCode})` : ""}</span>
+                            <span>-€{parseFloat(editingOrder.discountAmount).toFixed(2)}</span>
+                          </div>
+                        )}
+                        {editingOrder.shippingFee !== null && (
+                          <div className="flex justify-between text-gray-400">
+                            <span>{t("shipping")}{editingOrder.shippingMethodName ? ` (${editingOrder.shippingMethodName})` : ""}</span>
+                            <span>€{parseFloat(editingOrder.shippingFee).toFixed(2)}</span>
+                          </div>
+                        )}
+                        <div className="flex justify-between font-semibold text-white">
+                          <span>{t("total")}</span>
+                          <span>€{parseFloat(editingOrder.total).toFixed(2)}</span>
+                        </div>
+                        {editingOrder.taxBreakdown?.filter(line => line.rate > 0).map(line => (
+                          <div key={line.rate} className="flex justify-between text-xs text-gray-500">
+                            <span>{t("vatIncluded", { rate: line.rate })}</span>
+                            <span>€{line.vat.toFixed(2)}</span>
+                          </div>
+                        ))}
+                        {(editingOrder.reverseCharge || editingOrder.vatNumber) && (
+                          <div className="flex justify-between text-xs text-gray-500">
+                            <span>{editingOrder.reverseCharge ? t("reverseCharge") : t("vatNumber")}</span>
+                            <span className="font-mono">{editingOrder.vatNumber}</span>
+                          </div>
+                        )}
+                        {parseFloat(editingOrder.refundedAmount) > 0 && (
+                          <div className="flex justify-between text-red-400">
+                            <span>{t("refunded")}</span>
+                            <span>-€{parseFloat(editingOrder.refundedAmount).toFixed(2)}</span>
+                          </div>
+                        )}
+                      </div>
+                    )}
+                  </div>
+                </div>
+              )}
+
+              {editingOrder?.disputedAt && (
+                <div className="flex items-start gap-2 rounded-xl border border-red-500/30 bg-red-500/10 px-4 py-3 text-sm text-red-300">
+                  <AlertTriangle className="w-4 h-4 mt-0.5 shrink-0" />
+                  <span>{t("disputeOpened", { date: new Date(editingOrder.disputedAt).toLocaleDateString(), reason: editingOrder.disputeReason ?? "" })}</span>
+                </div>
+              )}
+
+              {editingOrder && editingOrder.refunds.length > 0 && (
+                <div>
+                  <div className="flex items-center justify-between mb-2">
+                    <label className="block text-sm font-medium text-gray-400">
+                      {t("refunds")}
+                    </label>
+                    {canRefund(editingOrder) && (
+                      <button
+                        type="button"
+                        onClick={() => setRefundingOrder(editingOrder)}
+                        className="flex items-center gap-1 text-xs text-amber-400 hover:text-amber-300"
+                      >
+                        <RotateCcw className="w-3.5 h-3.5" />
+                        {t("refund")}
+                      </button>
+                    )}
+                  </div>
+                  <div className="rounded-xl border border-white/10 divide-y divide-white/5">
+                    {editingOrder.refunds.map((refund) => (
+                      <div key={refund.id} className="flex items-center justify-between gap-3 px-4 py-2 text-sm">
+                        <div className="min-w-0">
+                          <p className="text-white">
+                            {refund.number && <span className="font-mono text-xs text-gray-400 mr-2">{refund.number}</span>}
+                            {new Date(refund.createdAt).toLocaleDateString()}
+                            <span className="ml-2 text-xs text-gray-500">
+                              {refund.source === "stripe" ? t("refundSourceStripe") : t("refundSourceAdmin")}
+                              {refund.includesShipping ? ` · ${t("shipping")}` : ""}
+                              {refund.reason ? ` · ${t(`refundReasons.${refund.reason}`)}` : ""}
+                            </span>
+                          </p>
+                        </div>
+                        <div className="text-right shrink-0">
+                          <p className={refund.status === "failed" ? "text-gray-500 line-through" : "text-red-400"}>-€{parseFloat(refund.amount).toFixed(2)}</p>
+                          {refund.status !== "succeeded" && (
+                            <p className="text-xs text-gray-500">{t(refund.status === "failed" ? "refundStatusFailed" : "refundStatusPending")}</p>
+                          )}
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+
+              {editingOrder && (editingOrder.invoices.length > 0 || canIssueInvoice(editingOrder)) && (
+                <div>
+                  <div className="flex items-center justify-between mb-2">
+                    <label className="block text-sm font-medium text-gray-400">
+                      {t("invoices")}
+                    </label>
+                    {canIssueInvoice(editingOrder) && (
+                      <button
+                        type="button"
+                        onClick={() => handleIssueInvoice(editingOrder)}
+                        disabled={issuingInvoice}
+                        className="flex items-center gap-1 text-xs text-emerald-400 hover:text-emerald-300 disabled:opacity-40"
+                      >
+                        <FileText className="w-3.5 h-3.5" />
+                        {issuingInvoice ? t("issuingInvoice") : t("issueInvoice")}
+                      </button>
+                    )}
+                  </div>
+                  {editingOrder.invoices.length > 0 && (
+                    <div className="rounded-xl border border-white/10 divide-y divide-white/5">
+                      {editingOrder.invoices.map((invoice) => (
+                        <a
+                          key={invoice.id}
+                          href={`/api/invoices/${invoice.id}`}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          className="flex items-center justify-between gap-3 px-4 py-2 text-sm hover:bg-white/5 transition-colors"
+                        >
+                          <span className="flex items-center gap-2 min-w-0">
+                            <FileText className="w-4 h-4 text-gray-500 shrink-0" />
+                            <span className="text-white font-mono">{invoice.number}</span>
+                            <span className="text-xs text-gray-500 truncate">
+                              {invoice.type === "credit_note" ? t("creditNote") : t("invoice")} · {new Date(invoice.issuedAt).toLocaleDateString()}
+                            </span>
+                          </span>
+                          <span className={invoice.type === "credit_note" ? "text-red-400 shrink-0" : "text-gray-300 shrink-0"}>
+                            {invoice.type === "credit_note" ? "-" : ""}€{parseFloat(invoice.total).toFixed(2)}
+                          </span>
+                        </a>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              )}
+
+              {editingOrder?.shippingAddress && (
+                <div>
+                  <label className="block text-sm font-medium text-gray-400 mb-2">
+                    {t("shippingAddress")}
+                  </label>
+                  <div className="rounded-xl border border-white/10 px-4 py-3 text-sm text-gray-300 leading-relaxed">
+                    <p className="text-white">{editingOrder.shippingAddress.fullName}</p>
+                    <p>{editingOrder.shippingAddress.line1}</p>
+                    {editingOrder.shippingAddress.line2 && <p>{editingOrder.shippingAddress.line2}</p>}
+                    <p>{editingOrder.shippingAddress.postalCode} {editingOrder.shippingAddress.city}, {getCountryName(editingOrder.shippingAddress.country, locale)}</p>
+                    <p className="text-gray-500">{editingOrder.shippingAddress.phone}</p>
+                  </div>
+                </div>
+              )}
+
               <div>
                 <label className="block text-sm font-medium text-gray-400 mb-2">
                   {t("description")}
@@ -491,6 +840,14 @@ export default function OrdersPage() {
         </div>
       )}
 
+      {refundingOrder && (
+        <OrderRefundModal
+          order={refundingOrder}
+          onSubmit={handleRefund}
+          onCancel={() => setRefundingOrder(null)}
+        />
+      )}
+
       <ConfirmModal
         open={!!deleteItem}
         title={t("confirmDeleteTitle")}
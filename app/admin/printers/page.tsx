@@ -0,0 +1,246 @@
+"use client"
+
+import { useState, useEffect, useCallback } from "react"
+import { useTranslations } from "next-intl"
+import { toast } from "sonner"
+import { Plus, Edit2, Trash2 } from "lucide-react"
+import { SkeletonDataTable } from "@/app/components/admin/SkeletonDataTable"
+import { SortableDataTable } from "@/app/components/admin/SortableDataTable"
+import { PrinterForm } from "@/app/components/admin/PrinterForm"
+import { ConfirmModal } from "@/app/components/admin/ConfirmModal"
+import { useAdminPermissions } from "@/app/components/admin/AdminPermissionsContext"
+
+interface Printer {
+  id: string
+  name: string
+  model: string | null
+  buildX: number
+  buildY: number
+  buildZ: number
+  materialIds: string[]
+  active: boolean
+  notes: string | null
+  order: number
+}
+
+interface PrinterFormData {
+  id?: string
+  name: string
+  model: string
+  buildX: string
+  buildY: string
+  buildZ: string
+  materialIds: string[]
+  active: boolean
+  notes: string
+  order: number
+}
+
+export default function PrintersPage() {
+  const t = useTranslations("admin.printers")
+  const { can } = useAdminPermissions()
+  const [printers, setPrinters] = useState<Printer[]>([])
+  const [materials, setMaterials] = useState<{ id: string; name: string }[]>([])
+  const [loading, setLoading] = useState(true)
+  const [showForm, setShowForm] = useState(false)
+  const [editingPrinter, setEditingPrinter] = useState<Printer | null>(null)
+  const [deleteItem, setDeleteItem] = useState<{ id: string; name: string } | null>(null)
+
+  const fetchPrinters = useCallback(async () => {
+    setLoading(true)
+    try {
+      const res = await fetch("/api/admin/printers")
+      const data = await res.json()
+      setPrinters(Array.isArray(data.printers) ? data.printers : [])
+      setMaterials(Array.isArray(data.materials) ? data.materials : [])
+    } finally {
+      setLoading(false)
+    }
+  }, [])
+
+  useEffect(() => { fetchPrinters() }, [fetchPrinters])
+
+  const handleSubmit = async (data: PrinterFormData) => {
+    const method = data.id ? "PUT" : "POST"
+    const res = await fetch("/api/admin/printers", {
+      method,
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(data),
+    })
+    if (!res.ok) {
+      const err = await res.json()
+      toast.error(err.error || t("saveFailed"))
+      return
+    }
+    setShowForm(false)
+    setEditingPrinter(null)
+    toast.success(t("savedSuccess"))
+    fetchPrinters()
+  }
+
+  const confirmDelete = async () => {
+    if (!deleteItem) return
+    const res = await fetch(`/api/admin/printers?id=${deleteItem.id}`, { method: "DELETE" })
+    if (!res.ok) {
+      const err = await res.json().catch(() => ({ error: "An error occurred" }))
+      toast.error(err.error || t("deleteFailed"))
+      setDeleteItem(null)
+      return
+    }
+    setDeleteItem(null)
+    toast.success(t("deletedSuccess"))
+    fetchPrinters()
+  }
+
+  const handleReorder = async (items: Printer[]) => {
+    setPrinters(items)
+    await fetch("/api/admin/printers", {
+      method: "PATCH",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ items: items.map((item, i) => ({ id: item.id, order: i })) }),
+    })
+  }
+
+  const materialNames = (item: Printer) =>
+    item.materialIds.length === 0
+      ? t("anyMaterial")
+      : materials.filter((m) => item.materialIds.includes(m.id)).map((m) => m.name).join(", ")
+
+  const columns = [
+    {
+      key: "name",
+      header: t("name"),
+      render: (item: Printer) => (
+        <div>
+          <p className="font-medium text-white text-sm">{item.name}</p>
+          <p className="text-xs text-gray-500">
+            {item.model}
+            {!item.active && `${item.model ? " · " : ""}${t("inactive")}`}
+          </p>
+        </div>
+      ),
+    },
+    {
+      key: "build",
+      header: t("buildVolume"),
+      render: (item: Printer) => <span className="text-sm text-gray-300">{item.buildX} × {item.buildY} × {item.buildZ} mm</span>,
+    },
+    {
+      key: "materials",
+      header: t("materials"),
+      className: "hidden sm:table-cell",
+      render: (item: Printer) => <span className="text-sm text-gray-400">{materialNames(item)}</span>,
+    },
+    {
+      key: "actions",
+      header: "",
+      render: (item: Printer) => (
+        <div className="flex items-center gap-2">
+          {can("orders", "edit") && (
+            <button
+              onClick={(e) => { e.stopPropagation(); setEditingPrinter(item); setShowForm(true) }}
+              className="p-2 rounded-lg hover:bg-white/10 transition-colors"
+              title={t("edit")}
+            >
+              <Edit2 className="w-4 h-4 text-gray-400" />
+            </button>
+          )}
+          {can("orders", "edit") && (
+            <button
+              onClick={(e) => { e.stopPropagation(); setDeleteItem({ id: item.id, name: item.name }) }}
+              className="p-2 rounded-lg hover:bg-red-500/20 transition-colors"
+              title={t("delete")}
+            >
+              <Trash2 className="w-4 h-4 text-red-400" />
+            </button>
+          )}
+        </div>
+      ),
+    },
+  ]
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+        <div>
+          <h1 className="text-2xl lg:text-3xl font-bold text-white">{t("title")}</h1>
+          <p className="text-sm lg:text-base text-gray-400 mt-1">{t("subtitle")}</p>
+        </div>
+        {can("orders", "edit") && (
+          <button
+            onClick={() => { setEditingPrinter(null); setShowForm(true) }}
+            className="flex items-center justify-center gap-2 px-6 py-3 rounded-xl bg-gradient-to-r from-emerald-500 to-cyan-500 text-sm sm:text-base text-white font-medium hover:shadow-lg hover:shadow-emerald-500/30 transition-all"
+          >
+            <Plus className="w-5 h-5" />
+            {t("addPrinter")}
+          </button>
+        )}
+      </div>
+
+      {loading ? (
+        <SkeletonDataTable columns={3} />
+      ) : (
+        <SortableDataTable
+          data={printers}
+          columns={columns}
+          searchPlaceholder={t("searchPlaceholder")}
+          emptyMessage={
+            <div className="flex flex-col items-center gap-2">
+              <p className="text-gray-400">{t("noPrinters")}</p>
+              <p className="text-xs text-gray-600">{t("noPrintersHint")}</p>
+            </div>
+          }
+          onReorder={handleReorder}
+          onRowClick={(item) => { setEditingPrinter(item); setShowForm(true) }}
+          renderMobileCard={(item: Printer) => (
+            <>
+              <div className="flex items-center justify-between gap-2">
+                <div className="min-w-0">
+                  <p className="font-medium text-white text-sm">{item.name}</p>
+                  <p className="text-xs text-gray-500 truncate">{materialNames(item)}{!item.active && ` · ${t("inactive")}`}</p>
+                </div>
+                <span className="text-xs text-gray-300 shrink-0">{item.buildX} × {item.buildY} × {item.buildZ} mm</span>
+              </div>
+              <div className="flex items-center justify-end gap-2">
+                {can("orders", "edit") && (
+                  <button onClick={() => { setEditingPrinter(item); setShowForm(true) }} className="p-2 rounded-lg hover:bg-white/10 transition-colors">
+                    <Edit2 className="w-4 h-4 text-gray-400" />
+                  </button>
+                )}
+                {can("orders", "edit") && (
+                  <button onClick={() => setDeleteItem({ id: item.id, name: item.name })} className="p-2 rounded-lg hover:bg-red-500/20 transition-colors">
+                    <Trash2 className="w-4 h-4 text-red-400" />
+                  </button>
+                )}
+              </div>
+            </>
+          )}
+        />
+      )}
+
+      {showForm && (
+        <PrinterForm
+          initialData={editingPrinter ? {
+            ...editingPrinter,
+            model: editingPrinter.model ?? "",
+            buildX: String(editingPrinter.buildX),
+            buildY: String(editingPrinter.buildY),
+            buildZ: String(editingPrinter.buildZ),
+            notes: editingPrinter.notes ?? "",
+          } : undefined}
+          materials={materials}
+          onSubmit={handleSubmit}
+          onCancel={() => { setShowForm(false); setEditingPrinter(null) }}
+        />
+      )}
+
+      <ConfirmModal
+        open={!!deleteItem}
+        title={t("confirmDeleteTitle")}
+        message={t("confirmDeleteMessage", { name: deleteItem?.name ?? "" })}
+        onConfirm={confirmDelete}
+        onCancel={() => setDeleteItem(null)}
+      />
+    </div>
+  )
+}
@@ -0,0 +1,485 @@
+"use client"
+
+import { useState, useEffect, useMemo } from "react"
+import { useLocale, useTranslations } from "next-intl"
+import { toast } from "sonner"
+import { ChevronLeft, ChevronRight, ChevronUp, ChevronDown, Plus, Loader2, Printer as PrinterIcon, Clock, LayoutGrid, CalendarDays, AlertTriangle } from "lucide-react"
+import {
+  DndContext,
+  PointerSensor,
+  KeyboardSensor,
+  useSensor,
+  useSensors,
+  useDraggable,
+  useDroppable,
+  DragEndEvent,
+} from "@dnd-kit/core"
+import { CSS } from "@dnd-kit/utilities"
+import { ConfirmModal } from "@/app/components/admin/ConfirmModal"
+import { PrintJobModal, type BoardPrinter, type PrintJobRow, type PrintJobUpdate } from "@/app/components/admin/PrintJobModal"
+import { useAdminPermissions } from "@/app/components/admin/AdminPermissionsContext"
+import { PRINT_JOB_STATUSES, printerFitIssue, schedulePrinterJobs, type PrintJobStatus } from "@/lib/production"
+
+const STATUS_STYLES: Record<PrintJobStatus, { labelKey: string; color: string }> = {
+  queued: { labelKey: "statusQueued", color: "bg-slate-500/20 text-slate-300" },
+  printing: { labelKey: "statusPrinting", color: "bg-blue-500/20 text-blue-400" },
+  post_processing: { labelKey: "statusPostProcessing", color: "bg-purple-500/20 text-purple-400" },
+  qa: { labelKey: "statusQa", color: "bg-amber-500/20 text-amber-400" },
+  packed: { labelKey: "statusPacked", color: "bg-emerald-500/20 text-emerald-400" },
+}
+
+/** Hours shown on the schedule */
+const SCHEDULE_HOURS = 72
+
+const formatMinutes = (minutes: number) =>
+  minutes >= 60 ? `${Math.floor(minutes / 60)}h${minutes % 60 ? ` ${minutes % 60}m` : ""}` : `${minutes}m`
+
+function JobCard({
+  job,
+  printer,
+  canEdit,
+  onOpen,
+  onMove,
+}: {
+  job: PrintJobRow
+  printer: BoardPrinter | undefined
+  canEdit: boolean
+  onOpen: (job: PrintJobRow) => void
+  onMove: (job: PrintJobRow, status: PrintJobStatus) => void
+}) {
+  const t = useTranslations("admin.production")
+  const locale = useLocale()
+  const { attributes, listeners, setNodeRef, transform, isDragging } = useDraggable({ id: job.id, disabled: !canEdit })
+  const index = PRINT_JOB_STATUSES.indexOf(job.status)
+  const issue = printer ? printerFitIssue(printer, job) : null
+  const colorName = job.color && (locale === "bg" ? job.color.nameBg : locale === "es" ? job.color.nameEs : job.color.nameEn)
+  const unpaid = !!job.quote && !job.order
+
+  return (
+    <div
+      ref={setNodeRef}
+      style={{ transform: CSS.Translate.toString(transform), opacity: isDragging ? 0.5 : 1, zIndex: isDragging ? 10 : 0 }}
+      className="relative rounded-xl bg-white/5 border border-white/10 p-3 space-y-2 hover:border-white/20 transition-colors"
+    >
+      <div {...listeners} {...attributes} onClick={() => onOpen(job)} className={`space-y-1 ${canEdit ? "cursor-grab active:cursor-grabbing" : "cursor-pointer"}`}>
+        <div className="flex items-start justify-between gap-2">
+          <p className="text-sm font-medium text-white break-words min-w-0">{job.name}</p>
+          <span className="text-xs text-gray-400 shrink-0">×{job.quantity}</span>
+        </div>
+        <p className="text-xs text-gray-500 truncate">
+          {job.order?.orderNumber ?? job.quote?.quoteNumber} · {job.order?.customerName ?? job.quote?.name}
+        </p>
+        <div className="flex flex-wrap items-center gap-1.5">
+          {job.material && <span className="px-1.5 py-0.5 rounded bg-white/10 text-[11px] text-gray-300">{job.material.name}</span>}
+          {job.color && (
+            <span className="flex items-center gap-1 px-1.5 py-0.5 rounded bg-white/10 text-[11px] text-gray-300">
+              <span className="w-2.5 h-2.5 rounded-full border border-white/20" style={{ backgroundColor: job.color.hex }} />
+              {colorName}
+            </span>
+          )}
+          <span className="flex items-center gap-1 px-1.5 py-0.5 rounded bg-white/10 text-[11px] text-gray-300">
+            <Clock className="w-3 h-3" />
+            {job.estimatedMinutes !== null ? formatMinutes(job.estimatedMinutes) : t("noEstimate")}
+          </span>
+          {unpaid && <span className="px-1.5 py-0.5 rounded bg-amber-500/20 text-[11px] text-amber-400">{t("unpaid")}</span>}
+          {job.quote?.deadline && (
+            <span className="px-1.5 py-0.5 rounded bg-white/10 text-[11px] text-gray-300">
+              {t("due", { date: new Date(job.quote.deadline).toLocaleDateString(locale) })}
+            </span>
+          )}
+        </div>
+        <p className={`flex items-center gap-1 text-[11px] ${issue ? "text-red-400" : printer ? "text-cyan-400" : "text-gray-500"}`}>
+          {issue ? <AlertTriangle className="w-3 h-3" /> : <PrinterIcon className="w-3 h-3" />}
+          {printer?.name ?? t("unassigned")}
+          {issue === "material" && ` — ${t("wrongMaterial")}`}
+          {issue === "size" && ` — ${t("tooLarge")}`}
+        </p>
+      </div>
+      {canEdit && (
+        <div className="flex justify-between">
+          <button
+            onClick={() => onMove(job, PRINT_JOB_STATUSES[index - 1])}
+            disabled={index === 0}
+            className="p-1 rounded-lg hover:bg-white/10 disabled:opacity-0 transition-colors"
+            title={t("moveBack")}
+          >
+            <ChevronLeft className="w-4 h-4 text-gray-400" />
+          </button>
+          <button
+            onClick={() => onMove(job, PRINT_JOB_STATUSES[index + 1])}
+            disabled={index === PRINT_JOB_STATUSES.length - 1}
+            className="p-1 rounded-lg hover:bg-white/10 disabled:opacity-0 transition-colors"
+            title={t("moveForward")}
+          >
+            <ChevronRight className="w-4 h-4 text-gray-400" />
+          </button>
+        </div>
+      )}
+    </div>
+  )
+}
+
+function BoardColumn({ status, count, children }: { status: PrintJobStatus; count: number; children: React.ReactNode }) {
+  const t = useTranslations("admin.production")
+  const { setNodeRef, isOver } = useDroppable({ id: status })
+  const style = STATUS_STYLES[status]
+
+  return (
+    <div
+      ref={setNodeRef}
+      className={`flex flex-col w-72 shrink-0 lg:w-auto lg:shrink rounded-2xl border p-3 gap-3 transition-colors ${
+        isOver ? "border-emerald-500/40 bg-emerald-500/5" : "border-white/10 bg-white/[0.02]"
+      }`}
+    >
+      <div className="flex items-center justify-between">
+        <span className={`px-2 py-1 rounded-lg text-xs font-medium ${style.color}`}>{t(style.labelKey)}</span>
+        <span className="text-xs text-gray-500">{count}</span>
+      </div>
+      {children}
+    </div>
+  )
+}
+
+export default function ProductionPage() {
+  const t = useTranslations("admin.production")
+  const locale = useLocale()
+  const { can } = useAdminPermissions()
+  const canEdit = can("orders", "edit")
+  const [jobs, setJobs] = useState<PrintJobRow[]>([])
+  const [printers, setPrinters] = useState<BoardPrinter[]>([])
+  const [loading, setLoading] = useState(true)
+  const [view, setView] = useState<"board" | "schedule">("board")
+  const [printerFilter, setPrinterFilter] = useState("")
+  const [number, setNumber] = useState("")
+  const [adding, setAdding] = useState(false)
+  const [openJob, setOpenJob] = useState<PrintJobRow | null>(null)
+  const [deleteJob, setDeleteJob] = useState<PrintJobRow | null>(null)
+  const [now, setNow] = useState(() => new Date())
+
+  const sensors = useSensors(
+    useSensor(PointerSensor, { activationConstraint: { distance: 5 } }),
+    useSensor(KeyboardSensor)
+  )
+
+  const fetchBoard = async () => {
+    const res = await fetch("/api/admin/production")
+    const data = await res.json()
+    setJobs(Array.isArray(data.jobs) ? data.jobs : [])
+    setPrinters(Array.isArray(data.printers) ? data.printers : [])
+    setNow(new Date())
+    setLoading(false)
+  }
+
+  useEffect(() => { fetchBoard() }, [])
+
+  const printerById = useMemo(() => new Map(printers.map((p) => [p.id, p])), [printers])
+
+  const visibleJobs = jobs.filter((job) =>
+    printerFilter === "" ? true : printerFilter === "none" ? !job.printerId : job.printerId === printerFilter
+  )
+
+  const updateJob = async (id: string, update: PrintJobUpdate): Promise<boolean> => {
+    const res = await fetch(`/api/admin/production/${id}`, {
+      method: "PUT",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(update),
+    })
+    const data = await res.json().catch(() => ({}))
+    if (!res.ok) {
+      toast.error(data.error || t("saveFailed"))
+      return false
+    }
+    setJobs((prev) => prev.map((job) => (job.id === id ? data : job)))
+    return true
+  }
+
+  const moveJob = (job: PrintJobRow, status: PrintJobStatus) => {
+    if (status === job.status) return
+    // Optimistic — the card snaps back if the server refuses
+    setJobs((prev) => prev.map((j) => (j.id === job.id ? { ...j, status } : j)))
+    updateJob(job.id, { status }).then((saved) => {
+      if (!saved) setJobs((prev) => prev.map((j) => (j.id === job.id ? job : j)))
+    })
+  }
+
+  const handleDragEnd = (event: DragEndEvent) => {
+    const job = jobs.find((j) => j.id === event.active.id)
+    const status = event.over?.id as PrintJobStatus | undefined
+    if (job && status && PRINT_JOB_STATUSES.includes(status)) moveJob(job, status)
+  }
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!number.trim()) return
+    setAdding(true)
+    try {
+      const res = await fetch("/api/admin/production", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ number: number.trim() }),
+      })
+      const data = await res.json()
+      if (!res.ok) {
+        toast.error(data.error || t("addFailed"))
+        return
+      }
+      toast.success(t("jobsAdded", { count: data.created }))
+      setNumber("")
+      fetchBoard()
+    } finally {
+      setAdding(false)
+    }
+  }
+
+  const confirmDelete = async () => {
+    if (!deleteJob) return
+    const res = await fetch(`/api/admin/production/${deleteJob.id}`, { method: "DELETE" })
+    if (!res.ok) {
+      const err = await res.json().catch(() => ({ error: "An error occurred" }))
+      toast.error(err.error || t("deleteFailed"))
+      setDeleteJob(null)
+      return
+    }
+    setJobs((prev) => prev.filter((job) => job.id !== deleteJob.id))
+    setDeleteJob(null)
+    setOpenJob(null)
+    toast.success(t("deletedSuccess"))
+  }
+
+  /** Swap a queued job with its neighbour in the printer's queue */
+  const shiftJob = async (queue: PrintJobRow[], index: number, offset: -1 | 1) => {
+    const reordered = [...queue]
+    ;[reordered[index], reordered[index + offset]] = [reordered[index + offset], reordered[index]]
+    const positions = new Map(reordered.map((job, i) => [job.id, i]))
+    setJobs((prev) => prev.map((job) => (positions.has(job.id) ? { ...job, position: positions.get(job.id)! } : job)))
+    await fetch("/api/admin/production", {
+      method: "PATCH",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ items: reordered.map((job, i) => ({ id: job.id, position: i })) }),
+    })
+  }
+
+  const windowStart = new Date(now)
+  windowStart.setMinutes(0, 0, 0)
+  const windowMs = SCHEDULE_HOURS * 60 * 60 * 1000
+  const lanes = printers.filter((p) => p.active || jobs.some((job) => job.printerId === p.id))
+  const unassignedQueued = jobs.filter((job) => !job.printerId && job.status === "queued")
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col lg:flex-row lg:items-center justify-between gap-4">
+        <div>
+          <h1 className="text-2xl lg:text-3xl font-bold text-white">{t("title")}</h1>
+          <p className="text-sm lg:text-base text-gray-400 mt-1">{t("subtitle")}</p>
+        </div>
+        {canEdit && (
+          <form onSubmit={handleAdd} className="flex gap-2">
+            <input
+              type="text"
+              value={number}
+              onChange={(e) => setNumber(e.target.value)}
+              placeholder={t("addPlaceholder")}
+              className="w-full sm:w-64 bg-white/5 border border-white/10 rounded-xl px-4 py-2.5 text-base sm:text-sm text-white placeholder-gray-600 focus:outline-none focus:border-emerald-500/50"
+            />
+            <button
+              type="submit"
+              disabled={adding || !number.trim()}
+              className="flex items-center justify-center gap-2 px-4 py-2.5 rounded-xl bg-gradient-to-r from-emerald-500 to-cyan-500 text-sm text-white font-medium hover:shadow-lg hover:shadow-emerald-500/30 transition-all disabled:opacity-40 shrink-0"
+            >
+              {adding ? <Loader2 className="w-4 h-4 animate-spin" /> : <Plus className="w-4 h-4" />}
+              {t("addJobs")}
+            </button>
+          </form>
+        )}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <div className="flex rounded-xl border border-white/10 overflow-hidden">
+          <button
+            onClick={() => setView("board")}
+            className={`flex items-center gap-1.5 px-3 py-2 text-sm transition-colors ${view === "board" ? "bg-white/10 text-white" : "text-gray-400 hover:text-white"}`}
+          >
+            <LayoutGrid className="w-4 h-4" />
+            {t("viewBoard")}
+          </button>
+          <button
+            onClick={() => setView("schedule")}
+            className={`flex items-center gap-1.5 px-3 py-2 text-sm transition-colors ${view === "schedule" ? "bg-white/10 text-white" : "text-gray-400 hover:text-white"}`}
+          >
+            <CalendarDays className="w-4 h-4" />
+            {t("viewSchedule")}
+          </button>
+        </div>
+        {view === "board" && (
+          <select
+            value={printerFilter}
+            onChange={(e) => setPrinterFilter(e.target.value)}
+            className="bg-white/5 border border-white/10 rounded-xl px-3 py-2 text-sm text-white focus:outline-none focus:border-emerald-500/50"
+          >
+            <option value="">{t("allPrinters")}</option>
+            <option value="none">{t("unassigned")}</option>
+            {printers.map((printer) => (
+              <option key={printer.id} value={printer.id}>{printer.name}</option>
+            ))}
+          </select>
+        )}
+      </div>
+
+      {loading ? (
+        <div className="flex justify-center py-16">
+          <Loader2 className="w-6 h-6 text-gray-500 animate-spin" />
+        </div>
+      ) : view === "board" ? (
+        <DndContext sensors={sensors} onDragEnd={handleDragEnd}>
+          <div className="flex lg:grid lg:grid-cols-5 gap-3 overflow-x-auto pb-2">
+            {PRINT_JOB_STATUSES.map((status) => {
+              const column = visibleJobs.filter((job) => job.status === status)
+              return (
+                <BoardColumn key={status} status={status} count={column.length}>
+                  {column.length === 0 ? (
+                    <p className="text-xs text-gray-600 text-center py-6">{t("emptyColumn")}</p>
+                  ) : column.map((job) => (
+                    <JobCard
+                      key={job.id}
+                      job={job}
+                      printer={job.printerId ? printerById.get(job.printerId) : undefined}
+                      canEdit={canEdit}
+                      onOpen={setOpenJob}
+                      onMove={moveJob}
+                    />
+                  ))}
+                </BoardColumn>
+              )
+            })}
+          </div>
+        </DndContext>
+      ) : (
+        <div className="space-y-4">
+          {lanes.length === 0 && <p className="text-sm text-gray-500">{t("noPrinters")}</p>}
+          {lanes.map((printer) => {
+            const printerJobs = jobs.filter((job) => job.printerId === printer.id)
+            const slots = schedulePrinterJobs(printerJobs, now)
+            const queue = printerJobs.filter((job) => job.status === "queued").sort((a, b) => a.position - b.position)
+            const busyMinutes = slots.reduce((sum, slot) => sum + (slot.end.getTime() - Math.max(slot.start.getTime(), now.getTime())) / 60000, 0)
+            return (
+              <div key={printer.id} className="rounded-2xl border border-white/10 bg-white/[0.02] p-4 space-y-3">
+                <div className="flex items-center justify-between gap-2">
+                  <div className="min-w-0">
+                    <p className="text-sm font-medium text-white flex items-center gap-2">
+                      <PrinterIcon className="w-4 h-4 text-cyan-400" />
+                      {printer.name}
+                      {!printer.active && <span className="text-xs text-gray-500">({t("inactive")})</span>}
+                    </p>
+                    <p className="text-xs text-gray-500">{printer.buildX} × {printer.buildY} × {printer.buildZ} mm</p>
+                  </div>
+                  <span className="text-xs text-gray-400 shrink-0">
+                    {slots.length > 0 ? t("busyFor", { time: formatMinutes(Math.round(busyMinutes)) }) : t("idle")}
+                  </span>
+                </div>
+
+                {/* Timeline */}
+                <div className="relative h-10 rounded-lg bg-white/5 overflow-hidden">
+                  {Array.from({ length: SCHEDULE_HOURS / 24 - 1 }, (_, i) => (
+                    <div key={i} className="absolute top-0 bottom-0 border-l border-white/10" style={{ left: `${((i + 1) * 24 * 100) / SCHEDULE_HOURS}%` }} />
+                  ))}
+                  {slots.map((slot) => {
+                    const job = printerJobs.find((j) => j.id === slot.id)!
+                    const left = Math.max(0, (slot.start.getTime() - windowStart.getTime()) / windowMs) * 100
+                    const right = Math.min(1, (slot.end.getTime() - windowStart.getTime()) / windowMs) * 100
+                    if (right <= 0 || left >= 100) return null
+                    return (
+                      <button
+                        key={slot.id}
+                        onClick={() => setOpenJob(job)}
+                        title={`${job.name} — ${slot.start.toLocaleString(locale, { weekday: "short", hour: "2-digit", minute: "2-digit" })}`}
+                        className={`absolute top-1 bottom-1 rounded-md px-1.5 text-[11px] text-left truncate border ${
+                          job.status === "printing" ? "bg-blue-500/30 border-blue-500/50 text-blue-200" : "bg-slate-500/30 border-slate-500/40 text-slate-200"
+                        }`}
+                        style={{ left: `${left}%`, width: `${Math.max(0.5, right - left)}%` }}
+                      >
+                        {job.name}
+                      </button>
+                    )
+                  })}
+                </div>
+                <div className="flex justify-between text-[11px] text-gray-600">
+                  {Array.from({ length: SCHEDULE_HOURS / 24 }, (_, i) => (
+                    <span key={i}>{new Date(windowStart.getTime() + i * 24 * 60 * 60 * 1000).toLocaleDateString(locale, { weekday: "short", day: "numeric" })}</span>
+                  ))}
+                </div>
+
+                {/* Queue order */}
+                {queue.length > 0 && (
+                  <ol className="space-y-1">
+                    {queue.map((job, index) => {
+                      const slot = slots.find((s) => s.id === job.id)
+                      return (
+                        <li key={job.id} className="flex items-center gap-2 text-xs">
+                          <span className="w-5 text-gray-600 text-right">{index + 1}.</span>
+                          <button onClick={() => setOpenJob(job)} className="flex-1 min-w-0 text-left text-gray-300 hover:text-white truncate">
+                            {job.name} <span className="text-gray-500">×{job.quantity}</span>
+                          </button>
+                          {slot && (
+                            <span className="text-gray-500 shrink-0">
+                              {slot.start.toLocaleString(locale, { weekday: "short", hour: "2-digit", minute: "2-digit" })}
+                            </span>
+                          )}
+                          {canEdit && (
+                            <>
+                              <button onClick={() => shiftJob(queue, index, -1)} disabled={index === 0} className="p-1 rounded hover:bg-white/10 disabled:opacity-30" title={t("moveUp")}>
+                                <ChevronUp className="w-3.5 h-3.5 text-gray-400" />
+                              </button>
+                              <button onClick={() => shiftJob(queue, index, 1)} disabled={index === queue.length - 1} className="p-1 rounded hover:bg-white/10 disabled:opacity-30" title={t("moveDown")}>
+                                <ChevronDown className="w-3.5 h-3.5 text-gray-400" />
+                              </button>
+                            </>
+                          )}
+                        </li>
+                      )
+                    })}
+                  </ol>
+                )}
+              </div>
+            )
+          })}
+
+          {unassignedQueued.length > 0 && (
+            <div className="rounded-2xl border border-dashed border-white/10 p-4 space-y-2">
+              <p className="text-sm font-medium text-gray-300">{t("unassignedQueue", { count: unassignedQueued.length })}</p>
+              <div className="flex flex-wrap gap-2">
+                {unassignedQueued.map((job) => (
+                  <button
+                    key={job.id}
+                    onClick={() => setOpenJob(job)}
+                    className="px-2 py-1 rounded-lg bg-white/5 border border-white/10 text-xs text-gray-300 hover:text-white hover:border-white/20"
+                  >
+                    {job.name} ×{job.quantity}
+                  </button>
+                ))}
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+
+      {openJob && (
+        <PrintJobModal
+          job={openJob}
+          printers={printers}
+          canEdit={canEdit}
+          onSave={updateJob}
+          onDelete={setDeleteJob}
+          onClose={() => setOpenJob(null)}
+        />
+      )}
+
+      <ConfirmModal
+        open={!!deleteJob}
+        title={t("confirmDeleteTitle")}
+        message={t("confirmDeleteMessage", { name: deleteJob?.name ?? "" })}
+        onConfirm={confirmDelete}
+        onCancel={() => setDeleteJob(null)}
+      />
+    </div>
+  )
+}
@@ -4,13 +4,14 @@ import { useState, useEffect, useRef } from "react"
 import { useSearchParams } from "next/navigation"
 import { useTranslations } from "next-intl"
 import { toast } from "sonner"
-import { Plus, Edit2, Trash2, Package, FolderOpen, Star, Trophy, Eye, EyeOff, Link as LinkIcon, ExternalLink, Home, BadgeCheck, Download, Tag } from "lucide-react"
+import { Plus, Edit2, Trash2, Package, FolderOpen, Star, Trophy, Eye, EyeOff, Link as LinkIcon, ExternalLink, Home, BadgeCheck, Download, Upload, Tag } from "lucide-react"
 import { parseTiers } from "@/lib/bulkDiscount"
 import { SkeletonDataTable } from "@/app/components/admin/SkeletonDataTable"
 import Link from "next/link"
 import { SortableDataTable } from "@/app/components/admin/SortableDataTable"
 import { ProductForm } from "@/app/components/admin/ProductForm"
 import { ConfirmModal } from "@/app/components/admin/ConfirmModal"
+import { ProductImportModal } from "@/app/components/admin/ProductImportModal"
 import { BulkActionBar } from "@/app/components/admin/BulkActionBar"
 import { COLOR_CLASSES } from "@/app/components/admin/TypeForm"
 import { useAdminPermissions } from "@/app/components/admin/AdminPermissionsContext"
@@ -38,6 +39,7 @@ interface Product {
   onSale: boolean
   currency: string
   priceType: string
+  taxClass?: string
   category: string
   tags: string[]
   brandId: string | null
@@ -106,6 +108,7 @@ export default function ProductsPage() {
   const [deleteItem, setDeleteItem] = useState<{ id: string, name: string } | null>(null)
   const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set())
   const [bulkDeleteConfirm, setBulkDeleteConfirm] = useState(false)
+  const [showImport, setShowImport] = useState(false)
   const tb = useTranslations("admin.bulk")
 
   // Compute which products appear on homepage (top 8 published, sorted by featured then order)
@@ -210,6 +213,7 @@ export default function ProductsPage() {
     onSale: boolean
     currency: string
     priceType: string
+    taxClass: string
     category: string
     tags: string[]
     brandId: string
@@ -698,6 +702,15 @@ export default function ProductsPage() {
               {t("exportCSV")}
             </button>
           )}
+          {can("products", "edit") && (
+            <button
+              onClick={() => setShowImport(true)}
+              className="flex items-center gap-2 px-4 py-2.5 rounded-xl border border-white/10 text-gray-400 text-sm font-medium hover:text-white hover:bg-white/5 transition-all"
+            >
+              <Upload className="w-4 h-4" />
+              {t("importCSV")}
+            </button>
+          )}
           {can("products", "create") && (
             <button
               onClick={() => {
@@ -1070,6 +1083,17 @@ export default function ProductsPage() {
         onCancel={() => setBulkDeleteConfirm(false)}
       />
 
+      {showImport && (
+        <ProductImportModal
+          onImported={(count) => {
+            setShowImport(false)
+            toast.success(t("importSuccess", { count }))
+            fetchProducts()
+          }}
+          onCancel={() => setShowImport(false)}
+        />
+      )}
+
       <BulkActionBar
         selectedCount={selectedIds.size}
         selectedLabel={tb("selected", { count: selectedIds.size })}
@@ -4,12 +4,15 @@ import { useState, useEffect, useCallback, useRef } from "react"
 import { useSearchParams } from "next/navigation"
 import { useTranslations } from "next-intl"
 import { toast } from "sonner"
-import { Trash2, MessageSquare, Download, Eye, Search, ChevronLeft, ChevronRight, Clock, ArrowUpDown } from "lucide-react"
+import { Trash2, MessageSquare, Download, Eye, Search, ChevronLeft, ChevronRight, Clock, ArrowUpDown, AlertTriangle, UserCheck, Box } from "lucide-react"
 import { SkeletonDataTable } from "@/app/components/admin/SkeletonDataTable"
 import { DataTable } from "@/app/components/admin/DataTable"
 import { ConfirmModal } from "@/app/components/admin/ConfirmModal"
-import { QuoteDetailModal } from "@/app/components/admin/QuoteDetailModal"
+import { QuoteDetailModal, type QuoteOptions, type QuotePart, type QuoteStaffMember } from "@/app/components/admin/QuoteDetailModal"
 import { useAdminPermissions } from "@/app/components/admin/AdminPermissionsContext"
+import type { QuoteEstimate } from "@/lib/quotePricing"
+import { PRINT_FINISHES, type PrintConfigSnapshot } from "@/lib/printConfig"
+import { DEFAULT_QUOTE_SLA, isQuoteOverdue, type QuoteSla } from "@/lib/quoteSla"
 
 interface Product {
   id: string
@@ -29,7 +32,9 @@ interface QuoteMessage {
   senderType: string
   message: string
   quotedPrice: string | null
+  config: PrintConfigSnapshot | null
   createdAt: string
+  revisions?: { id: string; version: number; fileName: string; file: { name: string } }[]
 }
 
 interface QuoteRequest {
@@ -41,9 +46,17 @@ interface QuoteRequest {
   email: string
   phone: string | null
   message: string | null
-  fileName: string | null
-  fileUrl: string | null
-  fileSize: number | null
+  files: QuotePart[]
+  estimate: QuoteEstimate | null
+  materialId: string | null
+  colorId: string | null
+  layerHeight: number | null
+  infill: number | null
+  quantity: number
+  finish: string | null
+  deadline: string | null
+  material: { name: string } | null
+  color: { nameEn: string; nameBg: string; nameEs: string; hex: string } | null
   status: string
   quotedPrice: string | null
   adminNotes: string | null
@@ -52,6 +65,13 @@ interface QuoteRequest {
   quotedAt: string | null
   createdAt: string
   updatedAt: string
+  paidAt: string | null
+  paymentLinkSentAt: string | null
+  expiresAt: string | null
+  awaitingSince: string | null
+  firstResponseAt: string | null
+  assignedTo: QuoteStaffMember | null
+  order: { id: string; orderNumber: string; status: string; total: string | null; currency: string } | null
   messages?: QuoteMessage[]
 }
 
@@ -62,6 +82,21 @@ const STATUS_BADGES: Record<string, { labelKey: string; color: string }> = {
   rejected: { labelKey: "statusRejected", color: "bg-red-500/20 text-red-400" },
   counter_offer: { labelKey: "counterOffer", color: "bg-purple-500/20 text-purple-400" },
   user_declined: { labelKey: "userDeclined", color: "bg-gray-500/20 text-gray-400" },
+  paid: { labelKey: "statusPaid", color: "bg-cyan-500/20 text-cyan-400" },
+  in_production: { labelKey: "statusInProduction", color: "bg-indigo-500/20 text-indigo-400" },
+  expired: { labelKey: "statusExpired", color: "bg-orange-500/20 text-orange-400" },
+}
+
+/** Rendered preview of the first part's latest model, when there is one */
+function QuoteThumbnail({ quote, className }: { quote: QuoteRequest; className: string }) {
+  const thumbnailUrl = quote.files.find((part) => part.revisions[0]?.thumbnailUrl)?.revisions[0].thumbnailUrl
+  return thumbnailUrl ? (
+    <img src={thumbnailUrl} alt={quote.files[0]?.name ?? quote.quoteNumber} className={`${className} rounded-lg object-contain bg-black/20 border border-white/10 shrink-0`} />
+  ) : (
+    <div className={`${className} rounded-lg bg-white/5 flex items-center justify-center shrink-0`}>
+      <Box className="w-4 h-4 text-gray-500" />
+    </div>
+  )
 }
 
 export default function QuotesPage() {
@@ -76,6 +111,16 @@ export default function QuotesPage() {
   const [deleteItem, setDeleteItem] = useState<{ id: string; name: string } | null>(null)
   const [waitingFilter, setWaitingFilter] = useState<string | null>(null)
   const [sortBy, setSortBy] = useState<string>("newest")
+  const [options, setOptions] = useState<QuoteOptions>({ materials: [], colors: [] })
+  const [materialFilter, setMaterialFilter] = useState("")
+  const [colorFilter, setColorFilter] = useState("")
+  const [finishFilter, setFinishFilter] = useState("")
+  const [assignedFilter, setAssignedFilter] = useState(searchParams.get("assigned") || "")
+  const [overdueOnly, setOverdueOnly] = useState(false)
+  const [overdueCount, setOverdueCount] = useState(0)
+  const [firstResponseHours, setFirstResponseHours] = useState<number | null>(null)
+  const [sla, setSla] = useState<QuoteSla>(DEFAULT_QUOTE_SLA)
+  const [staff, setStaff] = useState<QuoteStaffMember[]>([])
 
   // Server-side pagination state
   const [page, setPage] = useState(1)
@@ -104,29 +149,48 @@ export default function QuotesPage() {
       if (selectedStatus) params.set("status", selectedStatus)
       if (debouncedSearch) params.set("search", debouncedSearch)
       if (sortBy !== "newest") params.set("sort", sortBy)
+      if (materialFilter) params.set("material", materialFilter)
+      if (colorFilter) params.set("color", colorFilter)
+      if (finishFilter) params.set("finish", finishFilter)
+      if (assignedFilter) params.set("assigned", assignedFilter)
+      if (overdueOnly) params.set("overdue", "1")
       params.set("page", String(page))
       params.set("limit", "15")
       const res = await fetch(`/api/admin/quotes?${params.toString()}`)
       const data = await res.json()
       setQuotes(data.quotes || [])
+      // Keep an open quote in sync after files are sent from the modal
+      setViewingQuote((prev) => (prev && data.quotes?.find((q: QuoteRequest) => q.id === prev.id)) || prev)
       setTotal(data.total || 0)
       setTotalPages(data.totalPages || 1)
       setPendingCount(data.pendingCount || 0)
+      setOverdueCount(data.overdueCount || 0)
+      setFirstResponseHours(data.firstResponseHours ?? null)
+      if (data.sla) setSla(data.sla)
+      if (data.staff) setStaff(data.staff)
     } catch {
       toast.error(t("updateFailed"))
     } finally {
       setLoading(false)
     }
-  }, [selectedStatus, debouncedSearch, page, sortBy])
+  }, [selectedStatus, debouncedSearch, page, sortBy, materialFilter, colorFilter, finishFilter, assignedFilter, overdueOnly])
 
   useEffect(() => {
     fetchQuotes()
   }, [fetchQuotes])
 
-  // Reset page when status filter changes
+  // Materials and colors for the print option filters and the quote modal
+  useEffect(() => {
+    fetch("/api/quotes/options")
+      .then((res) => (res.ok ? res.json() : null))
+      .then((data) => { if (data) setOptions(data) })
+      .catch(() => {})
+  }, [])
+
+  // Reset page when a filter changes
   useEffect(() => {
     setPage(1)
-  }, [selectedStatus])
+  }, [selectedStatus, materialFilter, colorFilter, finishFilter, assignedFilter, overdueOnly])
 
   // Deep link: open view modal when ?edit=<id> is present
   useEffect(() => {
@@ -182,7 +246,7 @@ export default function QuotesPage() {
 
   const getWaitingBadge = (item: QuoteRequest) => {
     if (item.status !== "pending" && item.status !== "counter_offer") return null
-    const diffMs = Date.now() - new Date(item.updatedAt).getTime()
+    const diffMs = Date.now() - new Date(item.awaitingSince ?? item.updatedAt).getTime()
     const diffHours = Math.floor(diffMs / 3600000)
     const diffDays = diffMs / 86400000
     if (diffDays < 1) {
@@ -210,7 +274,7 @@ export default function QuotesPage() {
   const filteredQuotes = quotes.filter((q) => {
     if (!waitingFilter) return true
     if (q.status !== "pending" && q.status !== "counter_offer") return false
-    const diffDays = (Date.now() - new Date(q.updatedAt).getTime()) / 86400000
+    const diffDays = (Date.now() - new Date(q.awaitingSince ?? q.updatedAt).getTime()) / 86400000
     if (waitingFilter === "fresh") return diffDays < 1
     if (waitingFilter === "medium") return diffDays >= 1 && diffDays < 3
     if (waitingFilter === "urgent") return diffDays >= 3
@@ -239,6 +303,12 @@ export default function QuotesPage() {
         </button>
       ),
     },
+    {
+      key: "preview",
+      header: "",
+      className: "w-[56px] hidden sm:table-cell",
+      render: (item: QuoteRequest) => <QuoteThumbnail quote={item} className="w-10 h-10" />,
+    },
     {
       key: "customer",
       header: t("customer"),
@@ -247,6 +317,11 @@ export default function QuotesPage() {
         <div>
           <p className="font-medium text-white text-sm truncate max-w-[150px]">{item.name}</p>
           <p className="text-xs text-gray-500 truncate max-w-[150px]">{item.email}</p>
+          {item.assignedTo && (
+            <p className="flex items-center gap-1 text-[10px] text-gray-400 truncate max-w-[150px]">
+              <UserCheck className="w-3 h-3 shrink-0" />{item.assignedTo.name || item.assignedTo.email}
+            </p>
+          )}
         </div>
       ),
     },
@@ -318,6 +393,25 @@ export default function QuotesPage() {
                 {item.viewedAt ? t("seen") : t("unseen")}
               </span>
             )}
+            {isQuoteOverdue(item, sla) && (
+              <span className="inline-flex items-center gap-1 px-2 py-0.5 rounded-full text-[10px] font-medium bg-red-500/20 text-red-400 w-fit">
+                <AlertTriangle className="w-3 h-3" />{t("overdue")}
+              </span>
+            )}
+            {item.status === "quoted" && item.expiresAt && (
+              <span className="px-2 py-0.5 rounded-full text-[10px] font-medium bg-white/5 text-gray-400 w-fit">
+                {t("expiresIn", { days: Math.max(0, Math.ceil((new Date(item.expiresAt).getTime() - Date.now()) / 86400000)) })}
+              </span>
+            )}
+            {item.order ? (
+              <span className="px-2 py-0.5 rounded-full text-[10px] font-medium font-mono bg-cyan-500/20 text-cyan-400 w-fit">
+                {item.order.orderNumber}
+              </span>
+            ) : item.status === "accepted" && (
+              <span className="px-2 py-0.5 rounded-full text-[10px] font-medium bg-amber-500/20 text-amber-400 w-fit">
+                {item.paymentLinkSentAt ? t("paymentLinkSentShort") : t("awaitingPayment")}
+              </span>
+            )}
           </div>
         )
       },
@@ -411,8 +505,11 @@ export default function QuotesPage() {
     { key: "quoted", label: t("quoted") },
     { key: "counter_offer", label: t("counterOffer") },
     { key: "accepted", label: t("accepted") },
+    { key: "paid", label: t("statusPaid") },
+    { key: "in_production", label: t("statusInProduction") },
     { key: "user_declined", label: t("userDeclined") },
     { key: "rejected", label: t("rejected") },
+    { key: "expired", label: t("statusExpired") },
   ]
 
   return (
@@ -422,6 +519,12 @@ export default function QuotesPage() {
           <h1 className="text-2xl lg:text-3xl font-bold text-white">{t("title")}</h1>
           <p className="text-gray-400 mt-1 text-sm lg:text-base">{t("subtitle")}</p>
         </div>
+        {firstResponseHours !== null && (
+          <div className="flex items-center gap-2 px-3 py-2 rounded-xl bg-white/5 border border-white/10 text-xs text-gray-400 w-fit">
+            <Clock className="w-4 h-4" />
+            {t("avgFirstResponse", { hours: firstResponseHours.toFixed(1) })}
+          </div>
+        )}
       </div>
 
       {/* Search + Status Filter */}
@@ -460,6 +563,47 @@ export default function QuotesPage() {
           ))}
         </div>
 
+        {/* Print Option Filters */}
+        <div className="flex items-center gap-2 flex-wrap">
+          <select value={materialFilter} onChange={(e) => setMaterialFilter(e.target.value)} className="px-3 py-1.5 bg-white/5 border border-white/10 rounded-lg text-xs text-white focus:outline-none focus:border-emerald-500/50 transition-colors">
+            <option value="">{t("allMaterials")}</option>
+            {options.materials.map((m) => (
+              <option key={m.id} value={m.id}>{m.name}</option>
+            ))}
+          </select>
+          <select value={colorFilter} onChange={(e) => setColorFilter(e.target.value)} className="px-3 py-1.5 bg-white/5 border border-white/10 rounded-lg text-xs text-white focus:outline-none focus:border-emerald-500/50 transition-colors">
+            <option value="">{t("allColors")}</option>
+            {options.colors.map((c) => (
+              <option key={c.id} value={c.id}>{c.nameEn}</option>
+            ))}
+          </select>
+          <select value={finishFilter} onChange={(e) => setFinishFilter(e.target.value)} className="px-3 py-1.5 bg-white/5 border border-white/10 rounded-lg text-xs text-white focus:outline-none focus:border-emerald-500/50 transition-colors">
+            <option value="">{t("allFinishes")}</option>
+            {PRINT_FINISHES.map((f) => (
+              <option key={f} value={f}>{t(`finish_${f}`)}</option>
+            ))}
+          </select>
+          <select value={assignedFilter} onChange={(e) => setAssignedFilter(e.target.value)} className="px-3 py-1.5 bg-white/5 border border-white/10 rounded-lg text-xs text-white focus:outline-none focus:border-emerald-500/50 transition-colors">
+            <option value="">{t("allAssignees")}</option>
+            <option value="me">{t("assignedToMe")}</option>
+            <option value="none">{t("unassigned")}</option>
+          </select>
+          <button
+            onClick={() => setOverdueOnly(!overdueOnly)}
+            className={`inline-flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-xs font-medium transition-all ${
+              overdueOnly
+                ? "bg-red-500/10 text-red-400 border border-red-500/20"
+                : "text-gray-500 hover:text-gray-300 hover:bg-white/5 border border-transparent"
+            }`}
+          >
+            <AlertTriangle className="w-3.5 h-3.5" />
+            {t("overdueFilter", { hours: sla.responseHours })}
+            {overdueCount > 0 && (
+              <span className="px-1.5 py-0.5 rounded-full text-[10px] font-bold bg-red-500/20 text-red-400">{overdueCount}</span>
+            )}
+          </button>
+        </div>
+
         {/* Urgency Filter + Sort */}
         {showUrgencyFilter && (
           <div className="flex items-center gap-2 flex-wrap">
@@ -518,9 +662,12 @@ export default function QuotesPage() {
             return (
               <>
                 <div className="flex items-center justify-between gap-2">
-                  <div className="min-w-0">
-                    <p className="font-medium text-white truncate">{item.name}</p>
-                    <p className="text-xs text-gray-500 truncate">{item.email}</p>
+                  <div className="flex items-center gap-3 min-w-0">
+                    <QuoteThumbnail quote={item} className="w-10 h-10" />
+                    <div className="min-w-0">
+                      <p className="font-medium text-white truncate">{item.name}</p>
+                      <p className="text-xs text-gray-500 truncate">{item.email}</p>
+                    </div>
                   </div>
                   <button
                     onClick={(e) => {
@@ -552,6 +699,11 @@ export default function QuotesPage() {
                     </span>
                   )}
                   {getWaitingBadge(item)}
+                  {isQuoteOverdue(item, sla) && (
+                    <span className="inline-flex items-center gap-1 px-2 py-0.5 rounded-full text-[10px] font-medium bg-red-500/20 text-red-400">
+                      <AlertTriangle className="w-3 h-3" />{t("overdue")}
+                    </span>
+                  )}
                   {msgCount > 0 && (
                     <span className="inline-flex items-center gap-1 text-xs text-gray-400">
                       <MessageSquare className="w-3 h-3" />
@@ -574,16 +726,18 @@ export default function QuotesPage() {
                     )}
                   </div>
                 )}
-                {item.fileUrl && (
+                {item.files.length > 0 && (
                   <a
-                    href={item.fileUrl}
+                    href={item.files.length === 1 ? item.files[0].revisions[0]?.fileUrl : `/api/admin/quotes/${item.id}/files`}
                     target="_blank"
                     rel="noopener noreferrer"
                     className="inline-flex items-center gap-1.5 text-cyan-400 hover:text-cyan-300 text-xs"
                     onClick={(e) => e.stopPropagation()}
                   >
                     <Download className="w-3.5 h-3.5 shrink-0" />
-                    <span className="truncate">{item.fileName || "File"}</span>
+                    <span className="truncate">
+                      {item.files.length === 1 ? item.files[0].revisions[0]?.fileName : t("filesCount", { count: item.files.length })}
+                    </span>
                   </a>
                 )}
                 <div className="flex items-center justify-between gap-2">
@@ -657,6 +811,9 @@ export default function QuotesPage() {
         <QuoteDetailModal
           quote={viewingQuote}
           onClose={() => setViewingQuote(null)}
+          options={options}
+          staff={staff}
+          sla={sla}
           onSaved={() => fetchQuotes()}
           canDelete={can("quotes", "delete")}
           onDelete={handleDelete}
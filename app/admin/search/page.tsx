@@ -0,0 +1,319 @@
+"use client"
+
+import { useState, useEffect, useCallback } from "react"
+import { useTranslations } from "next-intl"
+import { toast } from "sonner"
+import { Plus, Edit2, Trash2, Search, SearchX, MousePointerClick, ArrowRight, CalendarDays } from "lucide-react"
+import { SkeletonDataTable } from "@/app/components/admin/SkeletonDataTable"
+import { DataTable } from "@/app/components/admin/DataTable"
+import { SearchSynonymForm, type SearchSynonymFormData } from "@/app/components/admin/SearchSynonymForm"
+import { ConfirmModal } from "@/app/components/admin/ConfirmModal"
+import { useAdminPermissions } from "@/app/components/admin/AdminPermissionsContext"
+
+interface ReportRow {
+  term: string
+  searches: number
+  clicks: number
+  avgResults: number
+  lastSearchedAt: string
+}
+
+interface SearchReport {
+  days: number
+  totals: { searches: number; zeroResults: number; clicks: number }
+  topQueries: ReportRow[]
+  zeroResultQueries: ReportRow[]
+}
+
+interface SearchSynonym {
+  id: string
+  term: string
+  synonyms: string[]
+  redirectUrl: string | null
+}
+
+const PERIODS = [7, 30, 90]
+
+const percent = (part: number, whole: number) => (whole > 0 ? `${Math.round((part / whole) * 100)}%` : "—")
+
+export default function SearchInsightsPage() {
+  const t = useTranslations("admin.searchInsights")
+  const { can } = useAdminPermissions()
+  const [days, setDays] = useState(30)
+  const [report, setReport] = useState<SearchReport | null>(null)
+  const [synonyms, setSynonyms] = useState<SearchSynonym[]>([])
+  const [loading, setLoading] = useState(true)
+  const [formData, setFormData] = useState<SearchSynonymFormData | null>(null)
+  const [deleteItem, setDeleteItem] = useState<{ id: string; name: string } | null>(null)
+
+  const fetchReport = useCallback(async () => {
+    setLoading(true)
+    try {
+      const res = await fetch(`/api/admin/search?days=${days}`)
+      if (!res.ok) throw new Error()
+      setReport(await res.json())
+    } catch {
+      toast.error(t("fetchFailed"))
+    } finally {
+      setLoading(false)
+    }
+  }, [days, t])
+
+  const fetchSynonyms = useCallback(async () => {
+    const res = await fetch("/api/admin/search/synonyms")
+    const data = await res.json().catch(() => [])
+    setSynonyms(Array.isArray(data) ? data : [])
+  }, [])
+
+  useEffect(() => { fetchReport() }, [fetchReport])
+  useEffect(() => { fetchSynonyms() }, [fetchSynonyms])
+
+  const openRule = (rule?: SearchSynonym, term = "") => {
+    setFormData(rule
+      ? { id: rule.id, term: rule.term, synonyms: rule.synonyms.join(", "), redirectUrl: rule.redirectUrl ?? "" }
+      : { term, synonyms: "", redirectUrl: "" })
+  }
+
+  const handleSubmit = async (data: SearchSynonymFormData) => {
+    const res = await fetch("/api/admin/search/synonyms", {
+      method: data.id ? "PUT" : "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        id: data.id,
+        term: data.term,
+        synonyms: data.synonyms.split(",").map((s) => s.trim()).filter(Boolean),
+        redirectUrl: data.redirectUrl,
+      }),
+    })
+    if (!res.ok) {
+      const err = await res.json().catch(() => ({}))
+      toast.error(err.error || t("saveFailed"))
+      return
+    }
+    setFormData(null)
+    toast.success(t("savedSuccess"))
+    fetchSynonyms()
+  }
+
+  const confirmDelete = async () => {
+    if (!deleteItem) return
+    const res = await fetch(`/api/admin/search/synonyms?id=${deleteItem.id}`, { method: "DELETE" })
+    setDeleteItem(null)
+    if (!res.ok) {
+      const err = await res.json().catch(() => ({}))
+      toast.error(err.error || t("deleteFailed"))
+      return
+    }
+    toast.success(t("deletedSuccess"))
+    fetchSynonyms()
+  }
+
+  const ruleFor = (term: string) => synonyms.find((s) => s.term === term)
+
+  const queryColumns = (zero: boolean) => [
+    {
+      key: "term",
+      header: t("query"),
+      render: (item: ReportRow) => <span className="font-medium text-white text-sm">{item.term}</span>,
+    },
+    {
+      key: "searches",
+      header: t("searches"),
+      className: "whitespace-nowrap w-[100px]",
+      render: (item: ReportRow) => <span className="text-gray-300">{item.searches}</span>,
+    },
+    zero
+      ? {
+        key: "lastSearchedAt",
+        header: t("lastSearched"),
+        className: "whitespace-nowrap w-[140px] hidden sm:table-cell",
+        render: (item: ReportRow) => <span className="text-gray-400">{new Date(item.lastSearchedAt).toLocaleDateString()}</span>,
+      }
+      : {
+        key: "clicks",
+        header: t("ctr"),
+        className: "whitespace-nowrap w-[100px] hidden sm:table-cell",
+        render: (item: ReportRow) => <span className="text-gray-400">{percent(item.clicks, item.searches)}</span>,
+      },
+    {
+      key: "actions",
+      header: "",
+      className: "w-[60px]",
+      render: (item: ReportRow) => {
+        const rule = ruleFor(item.term)
+        return can("products", "edit") && (
+          <button
+            onClick={(e) => { e.stopPropagation(); openRule(rule, item.term) }}
+            className="p-2 rounded-lg hover:bg-white/10 transition-colors"
+            title={rule ? t("editRule") : t("addRule")}
+          >
+            {rule ? <Edit2 className="w-4 h-4 text-gray-400" /> : <Plus className="w-4 h-4 text-emerald-400" />}
+          </button>
+        )
+      },
+    },
+  ]
+
+  const synonymColumns = [
+    {
+      key: "term",
+      header: t("term"),
+      render: (item: SearchSynonym) => <span className="font-medium text-white text-sm">{item.term}</span>,
+    },
+    {
+      key: "synonyms",
+      header: t("synonyms"),
+      render: (item: SearchSynonym) => (
+        <div className="flex flex-wrap gap-1">
+          {item.synonyms.map((s) => (
+            <span key={s} className="px-2 py-0.5 rounded-full text-xs bg-white/10 text-gray-300">{s}</span>
+          ))}
+        </div>
+      ),
+    },
+    {
+      key: "redirectUrl",
+      header: t("redirectUrl"),
+      className: "hidden md:table-cell",
+      render: (item: SearchSynonym) => item.redirectUrl
+        ? <span className="flex items-center gap-1 text-xs font-mono text-emerald-400"><ArrowRight className="w-3 h-3" />{item.redirectUrl}</span>
+        : <span className="text-gray-600">—</span>,
+    },
+    {
+      key: "actions",
+      header: "",
+      className: "w-[100px]",
+      render: (item: SearchSynonym) => can("products", "edit") && (
+        <div className="flex items-center gap-2">
+          <button
+            onClick={(e) => { e.stopPropagation(); openRule(item) }}
+            className="p-2 rounded-lg hover:bg-white/10 transition-colors"
+            title={t("edit")}
+          >
+            <Edit2 className="w-4 h-4 text-gray-400" />
+          </button>
+          <button
+            onClick={(e) => { e.stopPropagation(); setDeleteItem({ id: item.id, name: item.term }) }}
+            className="p-2 rounded-lg hover:bg-red-500/20 transition-colors"
+            title={t("delete")}
+          >
+            <Trash2 className="w-4 h-4 text-red-400" />
+          </button>
+        </div>
+      ),
+    },
+  ]
+
+  const stats = report ? [
+    { label: t("totalSearches"), value: report.totals.searches.toLocaleString(), icon: Search, color: "text-emerald-400" },
+    { label: t("zeroResultRate"), value: percent(report.totals.zeroResults, report.totals.searches), icon: SearchX, color: "text-amber-400" },
+    { label: t("clickThroughRate"), value: percent(report.totals.clicks, report.totals.searches), icon: MousePointerClick, color: "text-cyan-400" },
+  ] : []
+
+  const withIds = (rows: ReportRow[]) => rows.map((row) => ({ ...row, id: row.term }))
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+        <div>
+          <h1 className="text-2xl lg:text-3xl font-bold text-white">{t("title")}</h1>
+          <p className="text-sm lg:text-base text-gray-400 mt-1">{t("subtitle")}</p>
+        </div>
+        <div className="relative">
+          <CalendarDays className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-gray-400 pointer-events-none" />
+          <select
+            value={days}
+            onChange={(e) => setDays(parseInt(e.target.value))}
+            className="w-full sm:w-auto pl-10 pr-8 py-2.5 bg-white/5 border border-white/10 rounded-xl text-sm text-white appearance-none focus:outline-none focus:border-emerald-500/50 cursor-pointer"
+          >
+            {PERIODS.map((p) => (
+              <option key={p} value={p} className="bg-[#0d0d1a]">{t("lastDays", { days: p })}</option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      {loading && !report ? (
+        <SkeletonDataTable columns={3} />
+      ) : report && (
+        <>
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+            {stats.map((stat) => (
+              <div key={stat.label} className="glass rounded-2xl p-4 sm:p-5 flex items-center gap-4">
+                <stat.icon className={`w-8 h-8 shrink-0 ${stat.color}`} />
+                <div>
+                  <p className="text-2xl font-bold text-white">{stat.value}</p>
+                  <p className="text-xs text-gray-400">{stat.label}</p>
+                </div>
+              </div>
+            ))}
+          </div>
+
+          <div className="grid grid-cols-1 xl:grid-cols-2 gap-6">
+            <div className="space-y-3">
+              <h2 className="text-lg font-semibold text-white">{t("topQueries")}</h2>
+              <DataTable
+                data={withIds(report.topQueries)}
+                columns={queryColumns(false)}
+                searchable={false}
+                pageSize={25}
+                emptyMessage={t("noSearches")}
+              />
+            </div>
+            <div className="space-y-3">
+              <h2 className="text-lg font-semibold text-white">{t("zeroResultQueries")}</h2>
+              <DataTable
+                data={withIds(report.zeroResultQueries)}
+                columns={queryColumns(true)}
+                searchable={false}
+                pageSize={25}
+                emptyMessage={t("noZeroResults")}
+              />
+            </div>
+          </div>
+        </>
+      )}
+
+      <div className="space-y-3">
+        <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+          <div>
+            <h2 className="text-lg font-semibold text-white">{t("rules")}</h2>
+            <p className="text-sm text-gray-400">{t("rulesHint")}</p>
+          </div>
+          {can("products", "edit") && (
+            <button
+              onClick={() => openRule()}
+              className="flex items-center justify-center gap-2 px-6 py-3 rounded-xl bg-gradient-to-r from-emerald-500 to-cyan-500 text-sm sm:text-base text-white font-medium hover:shadow-lg hover:shadow-emerald-500/30 transition-all"
+            >
+              <Plus className="w-5 h-5" />
+              {t("addRule")}
+            </button>
+          )}
+        </div>
+        <DataTable
+          data={synonyms}
+          columns={synonymColumns}
+          searchPlaceholder={t("searchPlaceholder")}
+          emptyMessage={t("noRules")}
+          onRowClick={can("products", "edit") ? (item: SearchSynonym) => openRule(item) : undefined}
+        />
+      </div>
+
+      {formData && (
+        <SearchSynonymForm
+          initialData={formData}
+          onSubmit={handleSubmit}
+          onCancel={() => setFormData(null)}
+        />
+      )}
+
+      <ConfirmModal
+        open={!!deleteItem}
+        title={t("confirmDeleteTitle")}
+        message={t("confirmDeleteMessage", { name: deleteItem?.name ?? "" })}
+        onConfirm={confirmDelete}
+        onCancel={() => setDeleteItem(null)}
+      />
+    </div>
+  )
+}
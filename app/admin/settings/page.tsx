@@ -3,8 +3,12 @@
 import { useState, useEffect, useRef } from "react"
 import { useTranslations } from "next-intl"
 import { toast } from "sonner"
-import { Loader2, Truck, Sparkles, Search, X, Check, Gift, Tag } from "lucide-react"
+import { Loader2, Truck, Sparkles, Search, X, Check, Gift, Tag, Receipt, FileText, Hash, Calculator, Timer, Boxes, Download } from "lucide-react"
 import { BulkTier, parseTiers } from "@/lib/bulkDiscount"
+import { NUMBER_KINDS, parseNumberFormats, formatDocumentNumber, type NumberKind, type NumberFormat } from "@/lib/numberFormat"
+import { parseQuotePricing, type QuotePricing } from "@/lib/quotePricing"
+import { parseQuoteSla, type QuoteSla } from "@/lib/quoteSla"
+import { parseDownloadLimits, type DownloadLimits } from "@/lib/downloadLimits"
 
 interface Settings {
   freeShippingEnabled: boolean
@@ -26,6 +30,18 @@ interface Settings {
   welcomePopupLink:       string
   bulkDiscountEnabled:    boolean
   bulkDiscountTiers:      string
+  pricesIncludeVat:       boolean
+  ossEnabled:             boolean
+  invoiceSellerName:      string
+  invoiceSellerAddress:   string
+  invoiceSellerCompanyId: string
+  invoiceSellerVatNumber: string
+  invoiceSellerEmail:     string
+  numberFormats:          string
+  quotePricing:           string
+  quoteSla:               string
+  filamentAutoSoldOut:    boolean
+  downloadLimits:         string
 }
 
 type ProductOption = { id: string; nameEn: string; nameBg: string; image: string | null; status?: string }
@@ -52,11 +68,27 @@ export default function SettingsPage() {
     welcomePopupLink:       "",
     bulkDiscountEnabled:    false,
     bulkDiscountTiers:      "[]",
+    pricesIncludeVat:       true,
+    ossEnabled:             true,
+    invoiceSellerName:      "",
+    invoiceSellerAddress:   "",
+    invoiceSellerCompanyId: "",
+    invoiceSellerVatNumber: "",
+    invoiceSellerEmail:     "",
+    numberFormats:          "{}",
+    quotePricing:           "{}",
+    quoteSla:               "{}",
+    filamentAutoSoldOut:    false,
+    downloadLimits:         "{}",
   })
   const [thresholdInput, setThresholdInput] = useState("")
   const [loading, setLoading] = useState(true)
   const [saving, setSaving] = useState(false)
   const [bulkTiers, setBulkTiers] = useState<BulkTier[]>([])
+  const [numberFormats, setNumberFormats] = useState<Record<NumberKind, NumberFormat>>(parseNumberFormats("{}"))
+  const [quotePricing, setQuotePricing] = useState<QuotePricing>(parseQuotePricing("{}"))
+  const [quoteSla, setQuoteSla] = useState<QuoteSla>(parseQuoteSla("{}"))
+  const [downloadLimits, setDownloadLimits] = useState<DownloadLimits>(parseDownloadLimits("{}"))
 
   // Upsell global product picker state
   const [selectedGlobalUpsell, setSelectedGlobalUpsell] = useState<ProductOption[]>([])
@@ -98,8 +130,24 @@ export default function SettingsPage() {
           welcomePopupLink:       data.welcomePopupLink       ?? "",
           bulkDiscountEnabled:    Boolean(data.bulkDiscountEnabled),
           bulkDiscountTiers:      data.bulkDiscountTiers       ?? "[]",
+          pricesIncludeVat:       data.pricesIncludeVat        ?? true,
+          ossEnabled:             data.ossEnabled              ?? true,
+          invoiceSellerName:      data.invoiceSellerName       ?? "",
+          invoiceSellerAddress:   data.invoiceSellerAddress    ?? "",
+          invoiceSellerCompanyId: data.invoiceSellerCompanyId  ?? "",
+          invoiceSellerVatNumber: data.invoiceSellerVatNumber  ?? "",
+          invoiceSellerEmail:     data.invoiceSellerEmail      ?? "",
+          numberFormats:          data.numberFormats           ?? "{}",
+          quotePricing:           data.quotePricing            ?? "{}",
+          quoteSla:               data.quoteSla                ?? "{}",
+          filamentAutoSoldOut:    data.filamentAutoSoldOut     ?? false,
+          downloadLimits:         data.downloadLimits          ?? "{}",
         })
         setBulkTiers(parseTiers(data.bulkDiscountTiers ?? "[]"))
+        setNumberFormats(parseNumberFormats(data.numberFormats))
+        setQuotePricing(parseQuotePricing(data.quotePricing))
+        setQuoteSla(parseQuoteSla(data.quoteSla))
+        setDownloadLimits(parseDownloadLimits(data.downloadLimits))
         setThresholdInput(data.freeShippingThreshold?.toString() ?? "")
         // Load display objects for saved globalUpsellProductIds
         if (data.globalUpsellProductIds?.length > 0) {
@@ -239,6 +287,18 @@ export default function SettingsPage() {
           welcomePopupLink:       settings.welcomePopupLink,
           bulkDiscountEnabled:    settings.bulkDiscountEnabled,
           bulkDiscountTiers:      JSON.stringify(bulkTiers),
+          pricesIncludeVat:       settings.pricesIncludeVat,
+          ossEnabled:             settings.ossEnabled,
+          invoiceSellerName:      settings.invoiceSellerName,
+          invoiceSellerAddress:   settings.invoiceSellerAddress,
+          invoiceSellerCompanyId: settings.invoiceSellerCompanyId,
+          invoiceSellerVatNumber: settings.invoiceSellerVatNumber,
+          invoiceSellerEmail:     settings.invoiceSellerEmail,
+          numberFormats:          JSON.stringify(numberFormats),
+          quotePricing:           JSON.stringify(quotePricing),
+          quoteSla:               JSON.stringify(quoteSla),
+          filamentAutoSoldOut:    settings.filamentAutoSoldOut,
+          downloadLimits:         JSON.stringify(downloadLimits),
         }),
       })
       if (!res.ok) throw new Error()
@@ -695,6 +755,306 @@ export default function SettingsPage() {
         )}
       </div>
 
+      {/* VAT Card */}
+      <div className="glass rounded-2xl p-5 sm:p-6 space-y-4">
+        <div className="flex items-center gap-3">
+          <div className="w-10 h-10 rounded-xl bg-amber-500/20 flex items-center justify-center shrink-0">
+            <Receipt className="w-5 h-5 text-amber-400" />
+          </div>
+          <div>
+            <h2 className="text-white font-semibold">{t("vatSection")}</h2>
+            <p className="text-slate-400 text-sm">{t("vatSectionDesc")}</p>
+          </div>
+        </div>
+
+        <label className="flex items-center justify-between gap-4 cursor-pointer p-3 rounded-xl bg-white/5 hover:bg-white/[0.08] transition-colors">
+          <div>
+            <span className="text-sm text-slate-300">{t("pricesIncludeVat")}</span>
+            <p className="text-xs text-slate-500 mt-0.5">{t("pricesIncludeVatHint")}</p>
+          </div>
+          <input
+            type="checkbox"
+            checked={settings.pricesIncludeVat}
+            onChange={e => setSettings(s => ({ ...s, pricesIncludeVat: e.target.checked }))}
+            className="w-4 h-4 rounded accent-emerald-500 shrink-0"
+          />
+        </label>
+
+        <label className="flex items-center justify-between gap-4 cursor-pointer p-3 rounded-xl bg-white/5 hover:bg-white/[0.08] transition-colors">
+          <div>
+            <span className="text-sm text-slate-300">{t("ossEnabled")}</span>
+            <p className="text-xs text-slate-500 mt-0.5">{t("ossEnabledHint")}</p>
+          </div>
+          <input
+            type="checkbox"
+            checked={settings.ossEnabled}
+            onChange={e => setSettings(s => ({ ...s, ossEnabled: e.target.checked }))}
+            className="w-4 h-4 rounded accent-emerald-500 shrink-0"
+          />
+        </label>
+        <p className="text-xs text-slate-500">{t("vatReverseChargeHint")}</p>
+      </div>
+
+      {/* Invoicing Card */}
+      <div className="glass rounded-2xl p-5 sm:p-6 space-y-4">
+        <div className="flex items-center gap-3">
+          <div className="w-10 h-10 rounded-xl bg-cyan-500/20 flex items-center justify-center shrink-0">
+            <FileText className="w-5 h-5 text-cyan-400" />
+          </div>
+          <div>
+            <h2 className="text-white font-semibold">{t("invoicingSection")}</h2>
+            <p className="text-slate-400 text-sm">{t("invoicingSectionDesc")}</p>
+          </div>
+        </div>
+
+        <div className="grid gap-4 sm:grid-cols-2">
+          <div className="space-y-2">
+            <label className="text-sm text-slate-400">{t("invoiceSellerName")}</label>
+            <input
+              type="text"
+              value={settings.invoiceSellerName}
+              onChange={e => setSettings(s => ({ ...s, invoiceSellerName: e.target.value }))}
+              className="w-full px-4 py-2.5 rounded-xl bg-white/5 border border-white/10 text-white text-base sm:text-sm placeholder-slate-500 focus:outline-none focus:border-emerald-500/50 transition-colors"
+            />
+          </div>
+          <div className="space-y-2">
+            <label className="text-sm text-slate-400">{t("invoiceSellerEmail")}</label>
+            <input
+              type="email"
+              value={settings.invoiceSellerEmail}
+              onChange={e => setSettings(s => ({ ...s, invoiceSellerEmail: e.target.value }))}
+              className="w-full px-4 py-2.5 rounded-xl bg-white/5 border border-white/10 text-white text-base sm:text-sm placeholder-slate-500 focus:outline-none focus:border-emerald-500/50 transition-colors"
+            />
+          </div>
+          <div className="space-y-2">
+            <label className="text-sm text-slate-400">{t("invoiceSellerCompanyId")}</label>
+            <input
+              type="text"
+              value={settings.invoiceSellerCompanyId}
+              onChange={e => setSettings(s => ({ ...s, invoiceSellerCompanyId: e.target.value }))}
+              className="w-full px-4 py-2.5 rounded-xl bg-white/5 border border-white/10 text-white text-base sm:text-sm placeholder-slate-500 focus:outline-none focus:border-emerald-500/50 transition-colors"
+            />
+          </div>
+          <div className="space-y-2">
+            <label className="text-sm text-slate-400">{t("invoiceSellerVatNumber")}</label>
+            <input
+              type="text"
+              value={settings.invoiceSellerVatNumber}
+              onChange={e => setSettings(s => ({ ...s, invoiceSellerVatNumber: e.target.value }))}
+              className="w-full px-4 py-2.5 rounded-xl bg-white/5 border border-white/10 text-white text-base sm:text-sm placeholder-slate-500 focus:outline-none focus:border-emerald-500/50 transition-colors"
+            />
+          </div>
+        </div>
+        <div className="space-y-2">
+          <label className="text-sm text-slate-400">{t("invoiceSellerAddress")}</label>
+          <textarea
+            rows={3}
+            value={settings.invoiceSellerAddress}
+            onChange={e => setSettings(s => ({ ...s, invoiceSellerAddress: e.target.value }))}
+            className="w-full px-4 py-2.5 rounded-xl bg-white/5 border border-white/10 text-white text-base sm:text-sm placeholder-slate-500 focus:outline-none focus:border-emerald-500/50 transition-colors resize-none"
+          />
+        </div>
+        <p className="text-xs text-slate-500">{t("invoicingHint")}</p>
+      </div>
+
+      {/* Document Numbers Card */}
+      <div className="glass rounded-2xl p-5 sm:p-6 space-y-4">
+        <div className="flex items-center gap-3">
+          <div className="w-10 h-10 rounded-xl bg-purple-500/20 flex items-center justify-center shrink-0">
+            <Hash className="w-5 h-5 text-purple-400" />
+          </div>
+          <div>
+            <h2 className="text-white font-semibold">{t("numberingSection")}</h2>
+            <p className="text-slate-400 text-sm">{t("numberingSectionDesc")}</p>
+          </div>
+        </div>
+
+        <div className="space-y-3">
+          {NUMBER_KINDS.map(kind => {
+            const format = numberFormats[kind]
+            const update = (patch: Partial<NumberFormat>) => setNumberFormats(f => ({ ...f, [kind]: { ...f[kind], ...patch } }))
+            return (
+              <div key={kind} className="p-3 rounded-xl bg-white/5 space-y-2">
+                <div className="flex items-center justify-between gap-2">
+                  <span className="text-sm text-slate-300">{t(`numberKind_${kind}`)}</span>
+                  <span className="font-mono text-xs text-emerald-400">{formatDocumentNumber(format, new Date().getFullYear(), 42)}</span>
+                </div>
+                <div className="flex items-center gap-2 flex-wrap">
+                  <input
+                    type="text"
+                    value={format.prefix}
+                    onChange={e => update({ prefix: e.target.value.toUpperCase().replace(/[^A-Z0-9]/g, "").slice(0, 10) })}
+                    placeholder={t("numberPrefix")}
+                    className="w-24 px-2 py-1.5 rounded-lg bg-white/5 border border-white/10 text-white text-sm font-mono focus:outline-none focus:border-emerald-500/50"
+                  />
+                  <select
+                    value={format.separator}
+                    onChange={e => update({ separator: e.target.value })}
+                    title={t("numberSeparator")}
+                    className="px-2 py-1.5 rounded-lg bg-white/5 border border-white/10 text-white text-sm font-mono focus:outline-none focus:border-emerald-500/50"
+                  >
+                    <option value="-">-</option>
+                    <option value="/">/</option>
+                    <option value=".">.</option>
+                    <option value="">{t("numberNoSeparator")}</option>
+                  </select>
+                  <label className="flex items-center gap-1.5 text-xs text-slate-400 cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={format.includeYear}
+                      onChange={e => update({ includeYear: e.target.checked })}
+                      className="w-4 h-4 rounded accent-emerald-500"
+                    />
+                    {t("numberIncludeYear")}
+                  </label>
+                  <label className="flex items-center gap-1.5 text-xs text-slate-400">
+                    {t("numberPadding")}
+                    <input
+                      type="number"
+                      min={1}
+                      max={10}
+                      value={format.padding}
+                      onChange={e => update({ padding: Math.max(1, Math.min(10, parseInt(e.target.value) || 1)) })}
+                      className="w-14 px-2 py-1.5 rounded-lg bg-white/5 border border-white/10 text-white text-sm text-center focus:outline-none focus:border-emerald-500/50"
+                    />
+                  </label>
+                </div>
+              </div>
+            )
+          })}
+        </div>
+        <p className="text-xs text-slate-500">{t("numberingHint")}</p>
+      </div>
+
+      {/* Quote Pricing Card */}
+      <div className="glass rounded-2xl p-5 sm:p-6 space-y-4">
+        <div className="flex items-center gap-3">
+          <div className="w-10 h-10 rounded-xl bg-emerald-500/20 flex items-center justify-center shrink-0">
+            <Calculator className="w-5 h-5 text-emerald-400" />
+          </div>
+          <div>
+            <h2 className="text-white font-semibold">{t("quotePricingSection")}</h2>
+            <p className="text-slate-400 text-sm">{t("quotePricingSectionDesc")}</p>
+          </div>
+        </div>
+
+        <label className="flex items-center justify-between gap-4 cursor-pointer p-3 rounded-xl bg-white/5 hover:bg-white/[0.08] transition-colors">
+          <div>
+            <span className="text-sm text-slate-300">{t("quoteShowEstimate")}</span>
+            <p className="text-xs text-slate-500 mt-0.5">{t("quoteShowEstimateHint")}</p>
+          </div>
+          <input
+            type="checkbox"
+            checked={quotePricing.showEstimate}
+            onChange={e => setQuotePricing(p => ({ ...p, showEstimate: e.target.checked }))}
+            className="w-4 h-4 rounded accent-emerald-500 shrink-0"
+          />
+        </label>
+
+        <div className="grid gap-4 sm:grid-cols-2">
+          {(["setupFee", "minimumPrice", "hourlyRate", "printSpeed", "infill"] as const).map(field => (
+            <div key={field} className="space-y-2">
+              <label className="text-sm text-slate-400">{t(`quotePricing_${field}`)}</label>
+              <input
+                type="number"
+                min={0}
+                step="any"
+                value={quotePricing[field]}
+                onChange={e => setQuotePricing(p => ({ ...p, [field]: Math.max(0, parseFloat(e.target.value) || 0) }))}
+                className="w-full px-4 py-2.5 rounded-xl bg-white/5 border border-white/10 text-white text-base sm:text-sm placeholder-slate-500 focus:outline-none focus:border-emerald-500/50 transition-colors"
+              />
+            </div>
+          ))}
+        </div>
+        <p className="text-xs text-slate-500">{t("quotePricingHint")}</p>
+      </div>
+
+      {/* Quote Follow-up Card */}
+      <div className="glass rounded-2xl p-5 sm:p-6 space-y-4">
+        <div className="flex items-center gap-3">
+          <div className="w-10 h-10 rounded-xl bg-amber-500/20 flex items-center justify-center shrink-0">
+            <Timer className="w-5 h-5 text-amber-400" />
+          </div>
+          <div>
+            <h2 className="text-white font-semibold">{t("quoteSlaSection")}</h2>
+            <p className="text-slate-400 text-sm">{t("quoteSlaSectionDesc")}</p>
+          </div>
+        </div>
+
+        <div className="grid gap-4 sm:grid-cols-3">
+          {(["validityDays", "reminderDays", "responseHours"] as const).map(field => (
+            <div key={field} className="space-y-2">
+              <label className="text-sm text-slate-400">{t(`quoteSla_${field}`)}</label>
+              <input
+                type="number"
+                min={field === "responseHours" ? 1 : 0}
+                step={1}
+                value={quoteSla[field]}
+                onChange={e => setQuoteSla(p => ({ ...p, [field]: Math.max(0, parseInt(e.target.value) || 0) }))}
+                className="w-full px-4 py-2.5 rounded-xl bg-white/5 border border-white/10 text-white text-base sm:text-sm placeholder-slate-500 focus:outline-none focus:border-emerald-500/50 transition-colors"
+              />
+            </div>
+          ))}
+        </div>
+        <p className="text-xs text-slate-500">{t("quoteSlaHint")}</p>
+      </div>
+
+      {/* Digital Downloads Card */}
+      <div className="glass rounded-2xl p-5 sm:p-6 space-y-4">
+        <div className="flex items-center gap-3">
+          <div className="w-10 h-10 rounded-xl bg-cyan-500/20 flex items-center justify-center shrink-0">
+            <Download className="w-5 h-5 text-cyan-400" />
+          </div>
+          <div>
+            <h2 className="text-white font-semibold">{t("downloadsSection")}</h2>
+            <p className="text-slate-400 text-sm">{t("downloadsSectionDesc")}</p>
+          </div>
+        </div>
+
+        <div className="grid gap-4 sm:grid-cols-3">
+          {(["maxDownloads", "linkDays", "maxReissues"] as const).map(field => (
+            <div key={field} className="space-y-2">
+              <label className="text-sm text-slate-400">{t(`downloadLimits_${field}`)}</label>
+              <input
+                type="number"
+                min={field === "maxReissues" ? 0 : 1}
+                step={1}
+                value={downloadLimits[field]}
+                onChange={e => setDownloadLimits(p => ({ ...p, [field]: Math.max(0, parseInt(e.target.value) || 0) }))}
+                className="w-full px-4 py-2.5 rounded-xl bg-white/5 border border-white/10 text-white text-base sm:text-sm placeholder-slate-500 focus:outline-none focus:border-emerald-500/50 transition-colors"
+              />
+            </div>
+          ))}
+        </div>
+        <p className="text-xs text-slate-500">{t("downloadLimitsHint")}</p>
+      </div>
+
+      {/* Filament Inventory Card */}
+      <div className="glass rounded-2xl p-5 sm:p-6 space-y-4">
+        <div className="flex items-center gap-3">
+          <div className="w-10 h-10 rounded-xl bg-orange-500/20 flex items-center justify-center shrink-0">
+            <Boxes className="w-5 h-5 text-orange-400" />
+          </div>
+          <div>
+            <h2 className="text-white font-semibold">{t("filamentSection")}</h2>
+            <p className="text-slate-400 text-sm">{t("filamentSectionDesc")}</p>
+          </div>
+        </div>
+
+        <label className="flex items-center justify-between gap-4 cursor-pointer p-3 rounded-xl bg-white/5 hover:bg-white/[0.08] transition-colors">
+          <div>
+            <span className="text-sm text-slate-300">{t("filamentAutoSoldOut")}</span>
+            <p className="text-xs text-slate-500 mt-0.5">{t("filamentAutoSoldOutHint")}</p>
+          </div>
+          <input
+            type="checkbox"
+            checked={settings.filamentAutoSoldOut}
+            onChange={e => setSettings(s => ({ ...s, filamentAutoSoldOut: e.target.checked }))}
+            className="w-4 h-4 rounded accent-emerald-500 shrink-0"
+          />
+        </label>
+      </div>
+
       {/* Save button */}
       <button
         onClick={handleSave}
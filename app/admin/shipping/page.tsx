@@ -0,0 +1,253 @@
+"use client"
+
+import { useState, useEffect, useCallback } from "react"
+import { useTranslations } from "next-intl"
+import { toast } from "sonner"
+import { Plus, Edit2, Trash2, Truck } from "lucide-react"
+import { SkeletonDataTable } from "@/app/components/admin/SkeletonDataTable"
+import { SortableDataTable } from "@/app/components/admin/SortableDataTable"
+import { ShippingZoneForm, type ShippingZoneFormData } from "@/app/components/admin/ShippingZoneForm"
+import { ConfirmModal } from "@/app/components/admin/ConfirmModal"
+import { useAdminPermissions } from "@/app/components/admin/AdminPermissionsContext"
+
+interface ShippingMethod {
+  id: string
+  nameBg: string
+  nameEn: string
+  nameEs: string
+  baseRate: string
+  perKgRate: string
+  freeShippingThreshold: string | null
+  minOrderTotal: string | null
+  maxWeightGrams: number | null
+  estimatedDays: string | null
+  active: boolean
+}
+
+interface ShippingZone {
+  id: string
+  name: string
+  countries: string[]
+  active: boolean
+  order: number
+  methods: ShippingMethod[]
+}
+
+const toFormData = (zone: ShippingZone): ShippingZoneFormData => ({
+  id: zone.id,
+  name: zone.name,
+  countries: zone.countries,
+  active: zone.active,
+  order: zone.order,
+  methods: zone.methods.map(m => ({
+    id: m.id,
+    nameBg: m.nameBg,
+    nameEn: m.nameEn,
+    nameEs: m.nameEs,
+    baseRate: m.baseRate?.toString() ?? "",
+    perKgRate: m.perKgRate?.toString() ?? "",
+    freeShippingThreshold: m.freeShippingThreshold?.toString() ?? "",
+    minOrderTotal: m.minOrderTotal?.toString() ?? "",
+    maxWeightGrams: m.maxWeightGrams?.toString() ?? "",
+    estimatedDays: m.estimatedDays ?? "",
+    active: m.active,
+  })),
+})
+
+export default function ShippingPage() {
+  const t = useTranslations("admin.shipping")
+  const { can } = useAdminPermissions()
+  const [zones, setZones] = useState<ShippingZone[]>([])
+  const [loading, setLoading] = useState(true)
+  const [showForm, setShowForm] = useState(false)
+  const [editingZone, setEditingZone] = useState<ShippingZone | null>(null)
+  const [deleteItem, setDeleteItem] = useState<{ id: string; name: string } | null>(null)
+
+  const fetchZones = useCallback(async () => {
+    setLoading(true)
+    try {
+      const res = await fetch("/api/admin/shipping")
+      const data = await res.json()
+      setZones(Array.isArray(data) ? data : [])
+    } finally {
+      setLoading(false)
+    }
+  }, [])
+
+  useEffect(() => { fetchZones() }, [fetchZones])
+
+  const handleSubmit = async (data: ShippingZoneFormData) => {
+    const method = data.id ? "PUT" : "POST"
+    const res = await fetch("/api/admin/shipping", {
+      method,
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(data),
+    })
+    if (!res.ok) {
+      const err = await res.json()
+      toast.error(err.error || t("saveFailed"))
+      return
+    }
+    setShowForm(false)
+    setEditingZone(null)
+    toast.success(t("savedSuccess"))
+    fetchZones()
+  }
+
+  const confirmDelete = async () => {
+    if (!deleteItem) return
+    const res = await fetch(`/api/admin/shipping?id=${deleteItem.id}`, { method: "DELETE" })
+    if (!res.ok) {
+      const err = await res.json().catch(() => ({ error: "An error occurred" }))
+      toast.error(err.error || t("deleteFailed"))
+      setDeleteItem(null)
+      return
+    }
+    setDeleteItem(null)
+    toast.success(t("deletedSuccess"))
+    fetchZones()
+  }
+
+  const handleReorder = async (items: ShippingZone[]) => {
+    setZones(items)
+    await fetch("/api/admin/shipping", {
+      method: "PATCH",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ items: items.map((item, i) => ({ id: item.id, order: i })) }),
+    })
+  }
+
+  const countriesLabel = (zone: ShippingZone) =>
+    zone.countries.length > 0 ? zone.countries.join(", ") : t("restOfWorld")
+
+  const methodsLabel = (zone: ShippingZone) =>
+    zone.methods.map(m => `${m.nameEn} €${parseFloat(m.baseRate).toFixed(2)}`).join(" · ")
+
+  const columns = [
+    {
+      key: "name",
+      header: t("zoneName"),
+      render: (item: ShippingZone) => (
+        <div>
+          <p className="font-medium text-white text-sm">
+            {item.name}
+            {!item.active && <span className="ml-2 text-xs text-gray-500">({t("inactive")})</span>}
+          </p>
+          <p className="text-xs text-gray-500 font-mono">{countriesLabel(item)}</p>
+        </div>
+      ),
+    },
+    {
+      key: "methods",
+      header: t("methods"),
+      className: "hidden sm:table-cell",
+      render: (item: ShippingZone) => (
+        <span className="flex items-center gap-1.5 text-sm text-gray-400">
+          <Truck className="w-3.5 h-3.5 shrink-0" />
+          {item.methods.length > 0 ? methodsLabel(item) : t("noMethods")}
+        </span>
+      ),
+    },
+    {
+      key: "actions",
+      header: "",
+      render: (item: ShippingZone) => (
+        <div className="flex items-center gap-2">
+          {can("settings", "edit") && (
+            <button
+              onClick={(e) => { e.stopPropagation(); setEditingZone(item); setShowForm(true) }}
+              className="p-2 rounded-lg hover:bg-white/10 transition-colors"
+              title={t("edit")}
+            >
+              <Edit2 className="w-4 h-4 text-gray-400" />
+            </button>
+          )}
+          {can("settings", "edit") && (
+            <button
+              onClick={(e) => { e.stopPropagation(); setDeleteItem({ id: item.id, name: item.name }) }}
+              className="p-2 rounded-lg hover:bg-red-500/20 transition-colors"
+              title={t("delete")}
+            >
+              <Trash2 className="w-4 h-4 text-red-400" />
+            </button>
+          )}
+        </div>
+      ),
+    },
+  ]
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+        <div>
+          <h1 className="text-2xl lg:text-3xl font-bold text-white">{t("title")}</h1>
+          <p className="text-sm lg:text-base text-gray-400 mt-1">{t("subtitle")}</p>
+        </div>
+        {can("settings", "edit") && (
+          <button
+            onClick={() => { setEditingZone(null); setShowForm(true) }}
+            className="flex items-center justify-center gap-2 px-6 py-3 rounded-xl bg-gradient-to-r from-emerald-500 to-cyan-500 text-sm sm:text-base text-white font-medium hover:shadow-lg hover:shadow-emerald-500/30 transition-all"
+          >
+            <Plus className="w-5 h-5" />
+            {t("addZone")}
+          </button>
+        )}
+      </div>
+
+      {loading ? (
+        <SkeletonDataTable columns={2} />
+      ) : (
+        <SortableDataTable
+          data={zones}
+          columns={columns}
+          searchPlaceholder={t("searchPlaceholder")}
+          emptyMessage={
+            <div className="flex flex-col items-center gap-2">
+              <p className="text-gray-400">{t("noZones")}</p>
+              <p className="text-xs text-gray-600">{t("noZonesHint")}</p>
+            </div>
+          }
+          onReorder={handleReorder}
+          onRowClick={(item) => { if (can("settings", "edit")) { setEditingZone(item); setShowForm(true) } }}
+          renderMobileCard={(item: ShippingZone) => (
+            <>
+              <div className="min-w-0">
+                <p className="font-medium text-white text-sm">{item.name}</p>
+                <p className="text-xs text-gray-500 font-mono truncate">{countriesLabel(item)}</p>
+                <p className="text-xs text-gray-400 mt-1">{item.methods.length > 0 ? methodsLabel(item) : t("noMethods")}</p>
+              </div>
+              <div className="flex items-center justify-end gap-2">
+                {can("settings", "edit") && (
+                  <button onClick={() => { setEditingZone(item); setShowForm(true) }} className="p-2 rounded-lg hover:bg-white/10 transition-colors">
+                    <Edit2 className="w-4 h-4 text-gray-400" />
+                  </button>
+                )}
+                {can("settings", "edit") && (
+                  <button onClick={() => setDeleteItem({ id: item.id, name: item.name })} className="p-2 rounded-lg hover:bg-red-500/20 transition-colors">
+                    <Trash2 className="w-4 h-4 text-red-400" />
+                  </button>
+                )}
+              </div>
+            </>
+          )}
+        />
+      )}
+
+      {showForm && (
+        <ShippingZoneForm
+          initialData={editingZone ? toFormData(editingZone) : undefined}
+          onSubmit={handleSubmit}
+          onCancel={() => { setShowForm(false); setEditingZone(null) }}
+        />
+      )}
+
+      <ConfirmModal
+        open={!!deleteItem}
+        title={t("confirmDeleteTitle")}
+        message={t("confirmDeleteMessage", { name: deleteItem?.name ?? "" })}
+        onConfirm={confirmDelete}
+        onCancel={() => setDeleteItem(null)}
+      />
+    </div>
+  )
+}
@@ -0,0 +1,250 @@
+"use client"
+
+import { useState, useEffect, useCallback } from "react"
+import { useTranslations } from "next-intl"
+import { toast } from "sonner"
+import { RotateCcw, Filter, ChevronLeft, ChevronRight, Loader2 } from "lucide-react"
+import { SkeletonDataTable } from "@/app/components/admin/SkeletonDataTable"
+import { DataTable } from "@/app/components/admin/DataTable"
+import { useAdminPermissions } from "@/app/components/admin/AdminPermissionsContext"
+
+type EventStatus = "pending" | "processing" | "processed" | "ignored" | "failed"
+
+interface StripeEventEntry {
+  id: string
+  type: string
+  status: EventStatus
+  error: string | null
+  attempts: number
+  livemode: boolean
+  createdAt: string
+  processedAt: string | null
+}
+
+interface StripeEventsResponse {
+  events: StripeEventEntry[]
+  types: string[]
+  total: number
+  page: number
+  totalPages: number
+}
+
+const STATUSES: EventStatus[] = ["pending", "processing", "processed", "ignored", "failed"]
+
+const statusColors: Record<EventStatus, string> = {
+  pending: "bg-amber-500/20 text-amber-400",
+  processing: "bg-cyan-500/20 text-cyan-400",
+  processed: "bg-emerald-500/20 text-emerald-400",
+  ignored: "bg-gray-500/20 text-gray-400",
+  failed: "bg-red-500/20 text-red-400",
+}
+
+export default function StripeEventsPage() {
+  const t = useTranslations("admin.stripeEvents")
+  const { can } = useAdminPermissions()
+  const [data, setData] = useState<StripeEventsResponse | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [page, setPage] = useState(1)
+  const [statusFilter, setStatusFilter] = useState("")
+  const [typeFilter, setTypeFilter] = useState("")
+  const [reprocessingId, setReprocessingId] = useState<string | null>(null)
+
+  const fetchEvents = useCallback(async () => {
+    setLoading(true)
+    try {
+      const params = new URLSearchParams()
+      params.set("page", page.toString())
+      params.set("limit", "50")
+      if (statusFilter) params.set("status", statusFilter)
+      if (typeFilter) params.set("type", typeFilter)
+      const res = await fetch(`/api/admin/stripe-events?${params}`)
+      if (!res.ok) throw new Error()
+      setData(await res.json())
+    } catch {
+      toast.error(t("fetchFailed"))
+    } finally {
+      setLoading(false)
+    }
+  }, [page, statusFilter, typeFilter, t])
+
+  useEffect(() => { fetchEvents() }, [fetchEvents])
+
+  const handleReprocess = async (event: StripeEventEntry) => {
+    setReprocessingId(event.id)
+    try {
+      const res = await fetch(`/api/admin/stripe-events/${event.id}/reprocess`, { method: "POST" })
+      const result = await res.json().catch(() => ({}))
+      if (!res.ok) {
+        toast.error(result.error || t("reprocessFailed"))
+        return
+      }
+      if (result.status === "failed") {
+        toast.error(t("reprocessStillFailing", { error: result.error ?? "" }))
+      } else {
+        toast.success(t("reprocessSuccess"))
+      }
+      fetchEvents()
+    } finally {
+      setReprocessingId(null)
+    }
+  }
+
+  const statusBadge = (status: EventStatus) => (
+    <span className={`px-2.5 py-1 rounded-full text-xs font-medium ${statusColors[status]}`}>
+      {t(`status_${status}`)}
+    </span>
+  )
+
+  const reprocessButton = (item: StripeEventEntry) => can("orders", "edit") && item.status !== "processing" && (
+    <button
+      onClick={(e) => { e.stopPropagation(); handleReprocess(item) }}
+      disabled={reprocessingId === item.id}
+      className="p-2 rounded-lg hover:bg-white/10 transition-colors disabled:opacity-50"
+      title={t("reprocess")}
+    >
+      {reprocessingId === item.id
+        ? <Loader2 className="w-4 h-4 text-gray-400 animate-spin" />
+        : <RotateCcw className="w-4 h-4 text-gray-400" />}
+    </button>
+  )
+
+  const columns = [
+    {
+      key: "type",
+      header: t("type"),
+      render: (item: StripeEventEntry) => (
+        <div>
+          <p className="font-medium text-white text-sm">
+            {item.type}
+            {!item.livemode && <span className="ml-2 text-xs text-gray-500">({t("testMode")})</span>}
+          </p>
+          <p className="text-xs text-gray-500 font-mono">{item.id}</p>
+        </div>
+      ),
+    },
+    {
+      key: "status",
+      header: t("status"),
+      className: "whitespace-nowrap w-[120px]",
+      render: (item: StripeEventEntry) => statusBadge(item.status),
+    },
+    {
+      key: "error",
+      header: t("error"),
+      className: "hidden md:table-cell max-w-[300px]",
+      render: (item: StripeEventEntry) => item.error
+        ? <p className="text-xs text-red-400 truncate max-w-xs" title={item.error}>{item.error}</p>
+        : <span className="text-gray-600">—</span>,
+    },
+    {
+      key: "attempts",
+      header: t("attempts"),
+      className: "whitespace-nowrap w-[90px] hidden sm:table-cell",
+      render: (item: StripeEventEntry) => <span className="text-gray-400">{item.attempts}</span>,
+    },
+    {
+      key: "createdAt",
+      header: t("date"),
+      className: "whitespace-nowrap w-[160px] hidden lg:table-cell",
+      render: (item: StripeEventEntry) => (
+        <span className="text-gray-400">{new Date(item.createdAt).toLocaleString()}</span>
+      ),
+    },
+    {
+      key: "actions",
+      header: "",
+      className: "w-[60px]",
+      render: (item: StripeEventEntry) => reprocessButton(item),
+    },
+  ]
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+        <div>
+          <h1 className="text-2xl lg:text-3xl font-bold text-white">{t("title")}</h1>
+          <p className="text-sm lg:text-base text-gray-400 mt-1">{t("subtitle")}</p>
+        </div>
+        <div className="flex gap-3">
+          <div className="relative flex-1 min-w-0 lg:flex-none">
+            <Filter className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-gray-400 pointer-events-none" />
+            <select
+              value={statusFilter}
+              onChange={(e) => { setStatusFilter(e.target.value); setPage(1) }}
+              className="w-full lg:w-auto pl-10 pr-8 py-2.5 bg-white/5 border border-white/10 rounded-xl text-sm text-white appearance-none focus:outline-none focus:border-emerald-500/50 cursor-pointer"
+            >
+              <option value="">{t("allStatuses")}</option>
+              {STATUSES.map((s) => (
+                <option key={s} value={s}>{t(`status_${s}`)}</option>
+              ))}
+            </select>
+          </div>
+          <div className="relative flex-1 min-w-0 lg:flex-none">
+            <Filter className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-gray-400 pointer-events-none" />
+            <select
+              value={typeFilter}
+              onChange={(e) => { setTypeFilter(e.target.value); setPage(1) }}
+              className="w-full lg:w-auto pl-10 pr-8 py-2.5 bg-white/5 border border-white/10 rounded-xl text-sm text-white appearance-none focus:outline-none focus:border-emerald-500/50 cursor-pointer"
+            >
+              <option value="">{t("allTypes")}</option>
+              {(data?.types ?? []).map((type) => (
+                <option key={type} value={type}>{type}</option>
+              ))}
+            </select>
+          </div>
+        </div>
+      </div>
+
+      {loading && !data ? (
+        <SkeletonDataTable columns={5} />
+      ) : (
+        <>
+          <DataTable
+            data={data?.events ?? []}
+            columns={columns}
+            searchPlaceholder={t("searchPlaceholder")}
+            pageSize={50}
+            emptyMessage={t("noEvents")}
+            renderMobileCard={(item: StripeEventEntry) => (
+              <>
+                <div className="min-w-0">
+                  <p className="font-medium text-white text-sm truncate">{item.type}</p>
+                  <p className="text-xs text-gray-500">{new Date(item.createdAt).toLocaleString()} · {t("attemptsCount", { count: item.attempts })}</p>
+                  {item.error && <p className="text-xs text-red-400 mt-1 truncate">{item.error}</p>}
+                </div>
+                <div className="flex items-center justify-end gap-2">
+                  {statusBadge(item.status)}
+                  {reprocessButton(item)}
+                </div>
+              </>
+            )}
+          />
+
+          {data && data.totalPages > 1 && (
+            <div className="flex flex-col sm:flex-row items-center justify-between gap-2">
+              <span className="text-sm text-gray-400">
+                {t("pageInfo", { page: data.page, total: data.totalPages })}
+              </span>
+              <div className="flex items-center gap-2">
+                <button
+                  onClick={() => setPage((p) => Math.max(1, p - 1))}
+                  disabled={page === 1}
+                  className="p-2 rounded-lg bg-white/5 text-gray-400 hover:text-white hover:bg-white/10 transition-colors disabled:opacity-30 disabled:cursor-not-allowed"
+                >
+                  <ChevronLeft className="w-4 h-4" />
+                </button>
+                <button
+                  onClick={() => setPage((p) => Math.min(data.totalPages, p + 1))}
+                  disabled={page === data.totalPages}
+                  className="p-2 rounded-lg bg-white/5 text-gray-400 hover:text-white hover:bg-white/10 transition-colors disabled:opacity-30 disabled:cursor-not-allowed"
+                >
+                  <ChevronRight className="w-4 h-4" />
+                </button>
+              </div>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  )
+}
@@ -52,8 +52,7 @@ interface UserDetails {
     quoteNumber: string
     status: string
     message: string | null
-    fileName: string | null
-    fileUrl: string | null
+    files: { id: string; revisions: { version: number; fileName: string; fileUrl: string; thumbnailUrl: string | null }[] }[]
     quotedPrice: string | null
     adminNotes: string | null
     userResponse: string | null
@@ -888,13 +887,20 @@ export default function UsersPage() {
                               <p className="text-xs text-gray-300 whitespace-pre-wrap">{quote.userResponse}</p>
                             </div>
                           )}
-                          {quote.fileUrl && (
+                          {quote.files.length > 0 && (
                             <div>
                               <p className="text-[10px] text-gray-500">{t("quoteFile")}</p>
-                              <a href={quote.fileUrl} target="_blank" rel="noopener noreferrer" className="inline-flex items-center gap-1 text-xs text-cyan-400 hover:text-cyan-300 transition-colors">
-                                <Download className="w-3 h-3" />
-                                {quote.fileName || "Download"}
-                              </a>
+                              {quote.files.map((file) => file.revisions[0] && (
+                                <a key={file.id} href={file.revisions[0].fileUrl} target="_blank" rel="noopener noreferrer" className="flex items-center gap-1 text-xs text-cyan-400 hover:text-cyan-300 transition-colors">
+                                  {file.revisions[0].thumbnailUrl ? (
+                                    <img src={file.revisions[0].thumbnailUrl} alt="" className="w-6 h-6 rounded object-contain bg-black/20 shrink-0" />
+                                  ) : (
+                                    <Download className="w-3 h-3" />
+                                  )}
+                                  {file.revisions[0].fileName}
+                                  {file.revisions[0].version > 1 && <span className="text-gray-500">v{file.revisions[0].version}</span>}
+                                </a>
+                              ))}
                             </div>
                           )}
                           {/* Conversation History */}
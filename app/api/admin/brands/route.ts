@@ -2,6 +2,8 @@ import { NextRequest, NextResponse } from "next/server"
 import prisma from "@/lib/prisma"
 import { requirePermissionApi } from "@/lib/admin"
 import { logAuditAction, getChangeDetails } from "@/lib/auditLog"
+import { indexProductsWhere } from "@/lib/productSearch"
+import { invalidateCatalog } from "@/lib/productCatalog"
 import { deleteBlobsBatch } from "@/lib/blob"
 
 export async function GET() {
@@ -114,6 +116,12 @@ export async function PUT(request: NextRequest) {
     const details = getChangeDetails(oldBrand as Record<string, unknown>, brand as Record<string, unknown>, brandFields)
     logAuditAction({ userId: session.user.id, action: "edit", resource: "brands", recordId: brand.id, recordTitle: brand.nameEn, details }).catch(() => {})
 
+    // Brand names are part of each product's search text
+    await indexProductsWhere({ brandId: brand.id }).catch((err) => {
+      console.error("Failed to reindex brand products:", err instanceof Error ? err.message : "Unknown")
+    })
+    invalidateCatalog()
+
     // Cleanup old image if changed
     if (oldBrand.image && oldBrand.image !== brand.image) {
       deleteBlobsBatch([oldBrand.image]).catch(() => {})
@@ -145,6 +153,7 @@ export async function DELETE(request: NextRequest) {
     })
 
     await prisma.brand.delete({ where: { id } })
+    invalidateCatalog()
 
     if (brand?.image) {
       deleteBlobsBatch([brand.image]).catch(() => {})
@@ -1,6 +1,6 @@
 import { NextRequest, NextResponse } from "next/server"
 import { requirePermissionApi } from "@/lib/admin"
-import { processTemplates, processReminderNotifications } from "@/lib/cronNotifications"
+import { processTemplates, processReminderNotifications, processQuoteFollowUps } from "@/lib/cronNotifications"
 
 /**
  * Manually trigger the notification cron job.
@@ -23,10 +23,12 @@ export async function POST(request: NextRequest) {
 
     const result = await processTemplates(overrideDate, templateId)
     const reminderResult = await processReminderNotifications()
+    const quoteResult = await processQuoteFollowUps()
 
     return NextResponse.json({
       ...result,
       reminders: { sent: reminderResult.sent, errors: reminderResult.errors },
+      quotes: quoteResult,
       simulatedDate: overrideDate ? overrideDate.toISOString() : null,
     })
   } catch (error) {
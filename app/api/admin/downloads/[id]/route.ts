@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from "next/server"
+import prisma from "@/lib/prisma"
+import { requirePermissionApi } from "@/lib/admin"
+import { downloadStatus } from "@/lib/downloadLimits"
+
+const LOG_LIMIT = 200
+
+/** One purchase with its download log, newest first */
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { error } = await requirePermissionApi("orders", "view")
+    if (error) return error
+
+    const { id } = await params
+    const purchase = await prisma.digitalPurchase.findUnique({
+      where: { id },
+      include: {
+        downloads: { orderBy: { createdAt: "desc" }, take: LOG_LIMIT },
+        _count: { select: { downloads: true } },
+      },
+    })
+    if (!purchase) {
+      return NextResponse.json({ error: "Purchase not found" }, { status: 404 })
+    }
+
+    const product = await prisma.product.findUnique({ where: { id: purchase.productId }, select: { nameEn: true } })
+    const { _count, ...rest } = purchase
+
+    return NextResponse.json({
+      ...rest,
+      productName: product?.nameEn ?? null,
+      status: downloadStatus(purchase),
+      totalDownloads: _count.downloads,
+    })
+  } catch (error) {
+    console.error("Error fetching digital purchase:", error instanceof Error ? error.message : "Unknown")
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+  }
+}
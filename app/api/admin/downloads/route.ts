@@ -0,0 +1,150 @@
+import { NextRequest, NextResponse } from "next/server"
+import prisma from "@/lib/prisma"
+import { requirePermissionApi } from "@/lib/admin"
+import { logAuditAction, getChangeDetails } from "@/lib/auditLog"
+import { downloadStatus, downloadExpiryFrom } from "@/lib/downloadLimits"
+import { getDownloadLimits, freshDownloadLink } from "@/lib/downloads"
+
+export async function GET(request: NextRequest) {
+  try {
+    const { error } = await requirePermissionApi("orders", "view")
+    if (error) return error
+
+    const searchParams = request.nextUrl.searchParams
+    const search = searchParams.get("search")?.trim()
+    const page = parseInt(searchParams.get("page") || "1")
+    const limit = parseInt(searchParams.get("limit") || "50")
+
+    const where: Record<string, unknown> = {}
+    if (search) {
+      const products = await prisma.product.findMany({
+        where: { OR: [{ nameEn: { contains: search, mode: "insensitive" } }, { sku: { contains: search, mode: "insensitive" } }] },
+        select: { id: true },
+      })
+      where.OR = [
+        { email: { contains: search, mode: "insensitive" } },
+        { productId: { in: products.map((p) => p.id) } },
+      ]
+    }
+
+    const [purchases, total] = await Promise.all([
+      prisma.digitalPurchase.findMany({
+        where,
+        select: {
+          id: true,
+          productId: true,
+          email: true,
+          userId: true,
+          downloadCount: true,
+          maxDownloads: true,
+          reissueCount: true,
+          expiresAt: true,
+          revokedAt: true,
+          createdAt: true,
+          _count: { select: { downloads: true } },
+        },
+        orderBy: { createdAt: "desc" },
+        skip: (page - 1) * limit,
+        take: limit,
+      }),
+      prisma.digitalPurchase.count({ where }),
+    ])
+
+    const products = await prisma.product.findMany({
+      where: { id: { in: [...new Set(purchases.map((p) => p.productId))] } },
+      select: { id: true, nameEn: true },
+    })
+    const names = new Map(products.map((p) => [p.id, p.nameEn]))
+
+    return NextResponse.json({
+      purchases: purchases.map(({ _count, ...p }) => ({
+        ...p,
+        productName: names.get(p.productId) ?? null,
+        status: downloadStatus(p),
+        totalDownloads: _count.downloads,
+      })),
+      total,
+      page,
+      limit,
+      totalPages: Math.ceil(total / limit),
+    })
+  } catch (error) {
+    console.error("Error fetching digital purchases:", error instanceof Error ? error.message : "Unknown")
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+  }
+}
+
+/**
+ * Adjust a purchase's link — extend it, raise or lower its download limit, reset the counters
+ * or issue a new link outright. Refunded purchases stay revoked.
+ */
+export async function PUT(request: NextRequest) {
+  try {
+    const { session, error } = await requirePermissionApi("orders", "edit")
+    if (error) return error
+
+    const data = await request.json()
+
+    if (!data.id) {
+      return NextResponse.json({ error: "Purchase ID required" }, { status: 400 })
+    }
+
+    const oldPurchase = await prisma.digitalPurchase.findUnique({ where: { id: data.id } })
+    if (!oldPurchase) {
+      return NextResponse.json({ error: "Purchase not found" }, { status: 404 })
+    }
+    if (oldPurchase.revokedAt) {
+      return NextResponse.json({ error: "This purchase was refunded and its downloads are revoked" }, { status: 400 })
+    }
+
+    // A new link under the current limits; staff re-issues do not use up the customer's allowance
+    const update: { downloadToken?: string; expiresAt?: Date; maxDownloads?: number; downloadCount?: number; reissueCount?: number } =
+      data.reissue ? freshDownloadLink(await getDownloadLimits()) : {}
+
+    if (data.extendDays !== undefined && data.extendDays !== "") {
+      const days = Math.round(Number(data.extendDays))
+      if (!Number.isFinite(days) || days < 1 || days > 365) {
+        return NextResponse.json({ error: "Extension must be between 1 and 365 days" }, { status: 400 })
+      }
+      // An expired link is extended from today, a live one from its current end
+      const end = update.expiresAt ?? oldPurchase.expiresAt
+      update.expiresAt = downloadExpiryFrom(end > new Date() ? end : new Date(), days)
+    }
+    if (data.maxDownloads !== undefined && data.maxDownloads !== "") {
+      const maxDownloads = Math.round(Number(data.maxDownloads))
+      if (!Number.isFinite(maxDownloads) || maxDownloads < 1 || maxDownloads > 1000) {
+        return NextResponse.json({ error: "Download limit must be between 1 and 1000" }, { status: 400 })
+      }
+      update.maxDownloads = maxDownloads
+    }
+    if (data.resetCount) update.downloadCount = 0
+    if (data.resetReissues) update.reissueCount = 0
+
+    if (Object.keys(update).length === 0) {
+      return NextResponse.json({ error: "Nothing to change" }, { status: 400 })
+    }
+
+    const purchase = await prisma.digitalPurchase.update({ where: { id: data.id }, data: update })
+
+    const product = await prisma.product.findUnique({ where: { id: purchase.productId }, select: { nameEn: true } })
+    const fields = ["expiresAt", "maxDownloads", "downloadCount", "reissueCount"]
+    const details = getChangeDetails(
+      { ...oldPurchase, reissued: false } as Record<string, unknown>,
+      { ...purchase, reissued: !!data.reissue } as Record<string, unknown>,
+      [...fields, "reissued"]
+    )
+    logAuditAction({
+      userId: session.user.id,
+      action: "edit",
+      resource: "downloads",
+      recordId: purchase.id,
+      recordTitle: `${product?.nameEn ?? purchase.productId} — ${purchase.email}`,
+      details,
+    }).catch(() => {})
+
+    return NextResponse.json({ ...purchase, status: downloadStatus(purchase) })
+  } catch (error) {
+    console.error("Error updating digital purchase:", error instanceof Error ? error.message : "Unknown")
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+  }
+}
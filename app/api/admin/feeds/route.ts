@@ -0,0 +1,72 @@
+import { NextRequest, NextResponse } from "next/server"
+import prisma from "@/lib/prisma"
+import { requirePermissionApi } from "@/lib/admin"
+import { getFeedItems, parseFeedSettings, invalidateFeeds } from "@/lib/productFeeds"
+import { locales, defaultLocale, type Locale } from "@/i18n/config"
+
+/** Feed settings, the category tree to pick from and a preview for one locale: item counts and every item the feeds leave out */
+export async function GET(request: NextRequest) {
+  try {
+    const { error } = await requirePermissionApi("products", "view")
+    if (error) return error
+
+    const localeParam = request.nextUrl.searchParams.get("locale") as Locale | null
+    const locale = localeParam && locales.includes(localeParam) ? localeParam : defaultLocale
+
+    const [settings, categories, items] = await Promise.all([
+      prisma.siteSettings.findUnique({ where: { id: "singleton" }, select: { productFeeds: true } }),
+      prisma.productCategory.findMany({
+        select: { id: true, slug: true, parentId: true, nameBg: true, nameEn: true, nameEs: true },
+        orderBy: [{ order: "asc" }, { nameBg: "asc" }],
+      }),
+      getFeedItems(locale),
+    ])
+    const invalid = items.filter((item) => item.issues.length > 0)
+
+    return NextResponse.json({
+      settings: parseFeedSettings(settings?.productFeeds),
+      categories,
+      locale,
+      totals: {
+        items: items.length,
+        valid: items.length - invalid.length,
+        products: new Set(items.map((item) => item.productId)).size,
+      },
+      issues: invalid.map((item) => ({
+        id: item.id,
+        productId: item.productId,
+        title: item.title,
+        issues: item.issues,
+      })),
+    })
+  } catch (error) {
+    console.error("Feed preview error:", error instanceof Error ? error.message : "Unknown")
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+  }
+}
+
+export async function PUT(request: NextRequest) {
+  try {
+    const { error } = await requirePermissionApi("products", "edit")
+    if (error) return error
+
+    const body = await request.json()
+    const slugs: string[] = Array.isArray(body.categories) ? body.categories.filter((c: unknown) => typeof c === "string") : []
+    const known = await prisma.productCategory.findMany({ where: { slug: { in: slugs } }, select: { slug: true } })
+    const feedSettings = { categories: known.map((c) => c.slug) }
+
+    const existing = await prisma.siteSettings.findUnique({ where: { id: "singleton" }, select: { id: true } })
+    const productFeeds = JSON.stringify(feedSettings)
+    if (existing) {
+      await prisma.siteSettings.update({ where: { id: "singleton" }, data: { productFeeds } })
+    } else {
+      await prisma.siteSettings.create({ data: { id: "singleton", productFeeds } })
+    }
+    invalidateFeeds()
+
+    return NextResponse.json({ settings: feedSettings })
+  } catch (error) {
+    console.error("Feed settings error:", error instanceof Error ? error.message : "Unknown")
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+  }
+}
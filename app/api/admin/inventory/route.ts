@@ -0,0 +1,198 @@
+import { NextRequest, NextResponse } from "next/server"
+import prisma from "@/lib/prisma"
+import { requirePermissionApi } from "@/lib/admin"
+import { logAuditAction, getChangeDetails } from "@/lib/auditLog"
+import { checkStockLevels, syncColorAvailability } from "@/lib/filament"
+import { stockLevel } from "@/lib/filamentStock"
+
+const COLOR_SELECT = { id: true, nameEn: true, nameBg: true, nameEs: true, hex: true }
+
+/** Low-stock threshold in whole grams — returns an error message or the parsed value */
+function parseThreshold(value: unknown): { lowStockGrams: number } | { error: string } {
+  const lowStockGrams = Math.round(Number(value ?? 500))
+  if (!Number.isFinite(lowStockGrams) || lowStockGrams < 0 || lowStockGrams > 1000000) {
+    return { error: "Low-stock threshold must be between 0 and 1,000,000 g" }
+  }
+  return { lowStockGrams }
+}
+
+/**
+ * Every material+color with its spools, totals and recent consumption, plus the catalog
+ * color variants that can no longer (or soon won't) be printed
+ */
+export async function GET() {
+  try {
+    const { error } = await requirePermissionApi("products", "view")
+    if (error) return error
+
+    const [rows, usages, materials, colors, settings] = await Promise.all([
+      prisma.filamentStock.findMany({
+        include: {
+          material: { select: { id: true, name: true } },
+          color: { select: COLOR_SELECT },
+          spools: { orderBy: { createdAt: "asc" } },
+        },
+      }),
+      prisma.filamentUsage.findMany({
+        orderBy: { createdAt: "desc" },
+        take: 50,
+        include: {
+          stock: { select: { material: { select: { name: true } }, color: { select: COLOR_SELECT } } },
+          order: { select: { id: true, orderNumber: true } },
+        },
+      }),
+      prisma.printMaterial.findMany({ orderBy: [{ order: "asc" }, { name: "asc" }], select: { id: true, name: true } }),
+      prisma.color.findMany({ orderBy: [{ order: "asc" }, { nameEn: "asc" }], select: COLOR_SELECT }),
+      prisma.siteSettings.findUnique({ where: { id: "singleton" }, select: { filamentAutoSoldOut: true } }),
+    ])
+
+    const stocks = rows
+      .map((stock) => {
+        const remainingGrams = Math.round(stock.spools.reduce((sum, spool) => sum + Math.max(spool.remainingGrams, 0), 0))
+        const value = stock.spools.reduce(
+          (sum, spool) => sum + (spool.costPerKg ? (Math.max(spool.remainingGrams, 0) / 1000) * Number(spool.costPerKg) : 0),
+          0
+        )
+        return { ...stock, remainingGrams, value: Math.round(value * 100) / 100, level: stockLevel(remainingGrams, stock.lowStockGrams) }
+      })
+      .sort((a, b) => a.material.name.localeCompare(b.material.name) || a.color.nameEn.localeCompare(b.color.nameEn))
+
+    // A color is only at risk when none of its materials has enough left
+    const colorLevels = new Map<string, "low" | "out">()
+    for (const colorId of new Set(stocks.map((stock) => stock.colorId))) {
+      const levels = stocks.filter((stock) => stock.colorId === colorId).map((stock) => stock.level)
+      if (levels.every((level) => level === "out")) colorLevels.set(colorId, "out")
+      else if (levels.every((level) => level !== "ok")) colorLevels.set(colorId, "low")
+    }
+    const variants = colorLevels.size > 0
+      ? await prisma.productVariant.findMany({
+          where: { colorId: { in: [...colorLevels.keys()] } },
+          select: {
+            id: true,
+            colorId: true,
+            product: { select: { id: true, nameEn: true, nameBg: true, nameEs: true, published: true } },
+            packageVariants: {
+              select: { status: true, stock: true, filamentSoldOut: true, package: { select: { weight: { select: { label: true } } } } },
+            },
+          },
+        })
+      : []
+    const affected = variants.map((variant) => ({ ...variant, level: colorLevels.get(variant.colorId)! }))
+
+    return NextResponse.json({ stocks, usages, affected, materials, colors, autoSoldOut: settings?.filamentAutoSoldOut ?? false })
+  } catch (error) {
+    console.error("Error fetching inventory:", error instanceof Error ? error.message : "Unknown")
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const { session, error } = await requirePermissionApi("products", "edit")
+    if (error) return error
+
+    const data = await request.json()
+
+    if (!data.materialId || !data.colorId) {
+      return NextResponse.json({ error: "Material and color are required" }, { status: 400 })
+    }
+    const threshold = parseThreshold(data.lowStockGrams)
+    if ("error" in threshold) {
+      return NextResponse.json({ error: threshold.error }, { status: 400 })
+    }
+
+    const [material, color, existing] = await Promise.all([
+      prisma.printMaterial.findUnique({ where: { id: data.materialId }, select: { name: true } }),
+      prisma.color.findUnique({ where: { id: data.colorId }, select: { nameEn: true } }),
+      prisma.filamentStock.findUnique({ where: { materialId_colorId: { materialId: data.materialId, colorId: data.colorId } } }),
+    ])
+    if (!material) return NextResponse.json({ error: "Unknown material" }, { status: 400 })
+    if (!color) return NextResponse.json({ error: "Unknown color" }, { status: 400 })
+    if (existing) {
+      return NextResponse.json({ error: `${material.name} ${color.nameEn} is already stocked` }, { status: 400 })
+    }
+
+    const stock = await prisma.filamentStock.create({
+      data: { materialId: data.materialId, colorId: data.colorId, ...threshold },
+    })
+
+    logAuditAction({ userId: session.user.id, action: "create", resource: "inventory", recordId: stock.id, recordTitle: `${material.name} ${color.nameEn}` }).catch(() => {})
+
+    // A new stock has no spools yet, which can make its color run out
+    await syncColorAvailability([stock.colorId])
+
+    return NextResponse.json(stock, { status: 201 })
+  } catch (error) {
+    console.error("Error creating filament stock:", error instanceof Error ? error.message : "Unknown")
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+  }
+}
+
+export async function PUT(request: NextRequest) {
+  try {
+    const { session, error } = await requirePermissionApi("products", "edit")
+    if (error) return error
+
+    const data = await request.json()
+
+    if (!data.id) {
+      return NextResponse.json({ error: "Stock ID required" }, { status: 400 })
+    }
+
+    const oldStock = await prisma.filamentStock.findUnique({
+      where: { id: data.id },
+      include: { material: { select: { name: true } }, color: { select: { nameEn: true } } },
+    })
+    if (!oldStock) {
+      return NextResponse.json({ error: "Stock not found" }, { status: 404 })
+    }
+    const threshold = parseThreshold(data.lowStockGrams ?? oldStock.lowStockGrams)
+    if ("error" in threshold) {
+      return NextResponse.json({ error: threshold.error }, { status: 400 })
+    }
+
+    const stock = await prisma.filamentStock.update({ where: { id: data.id }, data: threshold })
+
+    const details = getChangeDetails(oldStock as Record<string, unknown>, stock as Record<string, unknown>, ["lowStockGrams"])
+    logAuditAction({ userId: session.user.id, action: "edit", resource: "inventory", recordId: stock.id, recordTitle: `${oldStock.material.name} ${oldStock.color.nameEn}`, details }).catch(() => {})
+
+    await checkStockLevels([stock.id])
+
+    return NextResponse.json(stock)
+  } catch (error) {
+    console.error("Error updating filament stock:", error instanceof Error ? error.message : "Unknown")
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+  }
+}
+
+/** Removes the stock with its spools and history; the color is no longer tracked for that material */
+export async function DELETE(request: NextRequest) {
+  try {
+    const { session, error } = await requirePermissionApi("products", "edit")
+    if (error) return error
+
+    const id = request.nextUrl.searchParams.get("id")
+    if (!id) {
+      return NextResponse.json({ error: "Stock ID required" }, { status: 400 })
+    }
+
+    const stock = await prisma.filamentStock.findUnique({
+      where: { id },
+      include: { material: { select: { name: true } }, color: { select: { nameEn: true } } },
+    })
+    if (!stock) {
+      return NextResponse.json({ error: "Stock not found" }, { status: 404 })
+    }
+
+    await prisma.filamentStock.delete({ where: { id } })
+
+    logAuditAction({ userId: session.user.id, action: "delete", resource: "inventory", recordId: id, recordTitle: `${stock.material.name} ${stock.color.nameEn}` }).catch(() => {})
+
+    await syncColorAvailability([stock.colorId])
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error("Error deleting filament stock:", error instanceof Error ? error.message : "Unknown")
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+  }
+}
@@ -0,0 +1,141 @@
+import { NextRequest, NextResponse } from "next/server"
+import prisma from "@/lib/prisma"
+import { requirePermissionApi } from "@/lib/admin"
+import { logAuditAction, getChangeDetails } from "@/lib/auditLog"
+import { checkStockLevels } from "@/lib/filament"
+
+/** Grams and cost per kg of a spool — returns an error message or the parsed values */
+function parseSpool(data: { grams?: unknown; costPerKg?: unknown }) {
+  const grams = parseFloat(String(data.grams))
+  if (!Number.isFinite(grams) || grams < 0 || grams > 100000) return { error: "Weight must be between 0 and 100,000 g" }
+  const hasCost = data.costPerKg !== undefined && data.costPerKg !== null && data.costPerKg !== ""
+  const costPerKg = hasCost ? parseFloat(String(data.costPerKg)) : null
+  if (costPerKg !== null && (!Number.isFinite(costPerKg) || costPerKg < 0)) return { error: "Cost per kg must be zero or more" }
+  return { grams: Math.round(grams * 10) / 10, costPerKg }
+}
+
+async function spoolTitle(stockId: string): Promise<string> {
+  const stock = await prisma.filamentStock.findUnique({
+    where: { id: stockId },
+    select: { material: { select: { name: true } }, color: { select: { nameEn: true } } },
+  })
+  return stock ? `${stock.material.name} ${stock.color.nameEn}` : stockId
+}
+
+/** A new spool starts full — `grams` is its net filament weight */
+export async function POST(request: NextRequest) {
+  try {
+    const { session, error } = await requirePermissionApi("products", "edit")
+    if (error) return error
+
+    const data = await request.json()
+
+    const stock = data.stockId ? await prisma.filamentStock.findUnique({ where: { id: data.stockId }, select: { id: true } }) : null
+    if (!stock) {
+      return NextResponse.json({ error: "Stock not found" }, { status: 404 })
+    }
+    const parsed = parseSpool(data)
+    if ("error" in parsed) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 })
+    }
+    if (parsed.grams <= 0) {
+      return NextResponse.json({ error: "Weight must be more than 0 g" }, { status: 400 })
+    }
+
+    const spool = await prisma.filamentSpool.create({
+      data: {
+        stockId: stock.id,
+        initialGrams: parsed.grams,
+        remainingGrams: parsed.grams,
+        costPerKg: parsed.costPerKg,
+        supplier: data.supplier?.trim() || null,
+        notes: data.notes?.trim() || null,
+      },
+    })
+
+    logAuditAction({ userId: session.user.id, action: "create", resource: "inventory", recordId: spool.id, recordTitle: await spoolTitle(stock.id), details: JSON.stringify({ grams: parsed.grams, supplier: spool.supplier }) }).catch(() => {})
+
+    await checkStockLevels([stock.id])
+
+    return NextResponse.json(spool, { status: 201 })
+  } catch (error) {
+    console.error("Error creating spool:", error instanceof Error ? error.message : "Unknown")
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+  }
+}
+
+/** Correct a spool after weighing it — `grams` sets what is left on it */
+export async function PUT(request: NextRequest) {
+  try {
+    const { session, error } = await requirePermissionApi("products", "edit")
+    if (error) return error
+
+    const data = await request.json()
+
+    if (!data.id) {
+      return NextResponse.json({ error: "Spool ID required" }, { status: 400 })
+    }
+
+    const oldSpool = await prisma.filamentSpool.findUnique({ where: { id: data.id } })
+    if (!oldSpool) {
+      return NextResponse.json({ error: "Spool not found" }, { status: 404 })
+    }
+    const parsed = parseSpool({
+      grams: data.grams ?? oldSpool.remainingGrams,
+      costPerKg: data.costPerKg !== undefined ? data.costPerKg : oldSpool.costPerKg,
+    })
+    if ("error" in parsed) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 })
+    }
+
+    const spool = await prisma.filamentSpool.update({
+      where: { id: data.id },
+      data: {
+        remainingGrams: parsed.grams,
+        initialGrams: Math.max(oldSpool.initialGrams, parsed.grams),
+        costPerKg: parsed.costPerKg,
+        supplier: data.supplier !== undefined ? data.supplier?.trim() || null : oldSpool.supplier,
+        notes: data.notes !== undefined ? data.notes?.trim() || null : oldSpool.notes,
+      },
+    })
+
+    const fields = ["remainingGrams", "costPerKg", "supplier", "notes"]
+    const details = getChangeDetails(oldSpool as Record<string, unknown>, spool as Record<string, unknown>, fields)
+    logAuditAction({ userId: session.user.id, action: "edit", resource: "inventory", recordId: spool.id, recordTitle: await spoolTitle(spool.stockId), details }).catch(() => {})
+
+    await checkStockLevels([spool.stockId])
+
+    return NextResponse.json(spool)
+  } catch (error) {
+    console.error("Error updating spool:", error instanceof Error ? error.message : "Unknown")
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+  }
+}
+
+export async function DELETE(request: NextRequest) {
+  try {
+    const { session, error } = await requirePermissionApi("products", "edit")
+    if (error) return error
+
+    const id = request.nextUrl.searchParams.get("id")
+    if (!id) {
+      return NextResponse.json({ error: "Spool ID required" }, { status: 400 })
+    }
+
+    const spool = await prisma.filamentSpool.findUnique({ where: { id } })
+    if (!spool) {
+      return NextResponse.json({ error: "Spool not found" }, { status: 404 })
+    }
+
+    await prisma.filamentSpool.delete({ where: { id } })
+
+    logAuditAction({ userId: session.user.id, action: "delete", resource: "inventory", recordId: id, recordTitle: await spoolTitle(spool.stockId) }).catch(() => {})
+
+    await checkStockLevels([spool.stockId])
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error("Error deleting spool:", error instanceof Error ? error.message : "Unknown")
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+  }
+}
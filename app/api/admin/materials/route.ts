@@ -0,0 +1,168 @@
+import { NextRequest, NextResponse } from "next/server"
+import prisma from "@/lib/prisma"
+import { requirePermissionApi } from "@/lib/admin"
+import { logAuditAction, getChangeDetails } from "@/lib/auditLog"
+
+/** Density and price must be positive numbers — returns an error message or the parsed values */
+function parseNumbers(data: { density?: unknown; pricePerGram?: unknown }) {
+  const density = parseFloat(String(data.density))
+  const pricePerGram = parseFloat(String(data.pricePerGram))
+  if (!Number.isFinite(density) || density <= 0) return { error: "Density must be a positive number" }
+  if (!Number.isFinite(pricePerGram) || pricePerGram < 0) return { error: "Price per gram must be zero or more" }
+  return { density, pricePerGram }
+}
+
+export async function GET() {
+  try {
+    const { error } = await requirePermissionApi("quotes", "view")
+    if (error) return error
+
+    const materials = await prisma.printMaterial.findMany({
+      orderBy: [{ order: "asc" }, { name: "asc" }],
+    })
+
+    return NextResponse.json(materials)
+  } catch (error) {
+    console.error("Error fetching materials:", error instanceof Error ? error.message : "Unknown")
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const { session, error } = await requirePermissionApi("quotes", "edit")
+    if (error) return error
+
+    const data = await request.json()
+
+    if (!data.name?.trim()) {
+      return NextResponse.json({ error: "Name is required" }, { status: 400 })
+    }
+    const numbers = parseNumbers(data)
+    if ("error" in numbers) {
+      return NextResponse.json({ error: numbers.error }, { status: 400 })
+    }
+
+    const existing = await prisma.printMaterial.findUnique({ where: { name: data.name.trim() } })
+    if (existing) {
+      return NextResponse.json({ error: `A material named "${data.name}" already exists` }, { status: 400 })
+    }
+
+    const material = await prisma.printMaterial.create({
+      data: {
+        name: data.name.trim(),
+        density: numbers.density,
+        pricePerGram: numbers.pricePerGram,
+        active: data.active ?? true,
+        order: data.order ?? 0,
+      },
+    })
+
+    logAuditAction({ userId: session.user.id, action: "create", resource: "materials", recordId: material.id, recordTitle: material.name }).catch(() => {})
+
+    return NextResponse.json(material, { status: 201 })
+  } catch (error) {
+    console.error("Error creating material:", error instanceof Error ? error.message : "Unknown")
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+  }
+}
+
+export async function PUT(request: NextRequest) {
+  try {
+    const { session, error } = await requirePermissionApi("quotes", "edit")
+    if (error) return error
+
+    const data = await request.json()
+
+    if (!data.id) {
+      return NextResponse.json({ error: "Material ID required" }, { status: 400 })
+    }
+
+    const oldMaterial = await prisma.printMaterial.findUnique({ where: { id: data.id } })
+    if (!oldMaterial) {
+      return NextResponse.json({ error: "Material not found" }, { status: 404 })
+    }
+
+    if (data.name && data.name.trim() !== oldMaterial.name) {
+      const existing = await prisma.printMaterial.findUnique({ where: { name: data.name.trim() } })
+      if (existing) {
+        return NextResponse.json({ error: `A material named "${data.name}" already exists` }, { status: 400 })
+      }
+    }
+
+    const numbers = parseNumbers({
+      density: data.density ?? oldMaterial.density,
+      pricePerGram: data.pricePerGram ?? oldMaterial.pricePerGram,
+    })
+    if ("error" in numbers) {
+      return NextResponse.json({ error: numbers.error }, { status: 400 })
+    }
+
+    const material = await prisma.printMaterial.update({
+      where: { id: data.id },
+      data: {
+        name: data.name?.trim() ?? oldMaterial.name,
+        density: numbers.density,
+        pricePerGram: numbers.pricePerGram,
+        active: data.active ?? oldMaterial.active,
+        order: data.order ?? oldMaterial.order,
+      },
+    })
+
+    const fields = ["name", "density", "pricePerGram", "active", "order"]
+    const details = getChangeDetails(oldMaterial as Record<string, unknown>, material as Record<string, unknown>, fields)
+    logAuditAction({ userId: session.user.id, action: "edit", resource: "materials", recordId: material.id, recordTitle: material.name, details }).catch(() => {})
+
+    return NextResponse.json(material)
+  } catch (error) {
+    console.error("Error updating material:", error instanceof Error ? error.message : "Unknown")
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+  }
+}
+
+export async function PATCH(request: NextRequest) {
+  try {
+    const { error } = await requirePermissionApi("quotes", "edit")
+    if (error) return error
+
+    const { items } = await request.json()
+    if (!Array.isArray(items)) {
+      return NextResponse.json({ error: "Items array required" }, { status: 400 })
+    }
+
+    for (const item of items) {
+      await prisma.printMaterial.update({ where: { id: item.id }, data: { order: item.order } })
+    }
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error("Error reordering materials:", error instanceof Error ? error.message : "Unknown")
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+  }
+}
+
+export async function DELETE(request: NextRequest) {
+  try {
+    const { session, error } = await requirePermissionApi("quotes", "edit")
+    if (error) return error
+
+    const id = request.nextUrl.searchParams.get("id")
+    if (!id) {
+      return NextResponse.json({ error: "Material ID required" }, { status: 400 })
+    }
+
+    const material = await prisma.printMaterial.findUnique({ where: { id } })
+    if (!material) {
+      return NextResponse.json({ error: "Material not found" }, { status: 404 })
+    }
+
+    await prisma.printMaterial.delete({ where: { id } })
+
+    logAuditAction({ userId: session.user.id, action: "delete", resource: "materials", recordId: id, recordTitle: material.name }).catch(() => {})
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error("Error deleting material:", error instanceof Error ? error.message : "Unknown")
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+  }
+}
@@ -10,11 +10,12 @@ async function getUrlsBySource(source: string): Promise<Set<string>> {
 
   if (source === "products") {
     const products = await prisma.product.findMany({
-      select: { image: true, gallery: true, fileUrl: true },
+      select: { image: true, gallery: true, fileUrl: true, fileThumbnail: true },
     })
     for (const p of products) {
       if (p.image) urls.add(p.image)
       if (p.fileUrl) urls.add(p.fileUrl)
+      if (p.fileThumbnail) urls.add(p.fileThumbnail)
       for (const g of p.gallery || []) {
         if (g) urls.add(g)
       }
@@ -34,6 +35,11 @@ async function getUrlsBySource(source: string): Promise<Set<string>> {
     for (const c of categories) {
       if (c.image) urls.add(c.image)
     }
+  } else if (source === "quotes") {
+    const revisions = await prisma.quoteFileRevision.findMany({ where: { thumbnailUrl: { not: null } }, select: { thumbnailUrl: true } })
+    for (const r of revisions) {
+      if (r.thumbnailUrl) urls.add(r.thumbnailUrl)
+    }
   }
 
   return urls
@@ -41,13 +47,14 @@ async function getUrlsBySource(source: string): Promise<Set<string>> {
 
 // Collect ALL used URLs across all models
 async function getAllUsedUrls(): Promise<Set<string>> {
-  const [productUrls, bannerUrls, contentUrls, categoryUrls] = await Promise.all([
+  const [productUrls, bannerUrls, contentUrls, categoryUrls, quoteUrls] = await Promise.all([
     getUrlsBySource("products"),
     getUrlsBySource("banners"),
     getUrlsBySource("content"),
     getUrlsBySource("categories"),
+    getUrlsBySource("quotes"),
   ])
-  return new Set([...productUrls, ...bannerUrls, ...contentUrls, ...categoryUrls])
+  return new Set([...productUrls, ...bannerUrls, ...contentUrls, ...categoryUrls, ...quoteUrls])
 }
 
 export async function GET(request: NextRequest) {
@@ -299,12 +306,13 @@ export async function PATCH(request: NextRequest) {
 async function checkMediaUsage(url: string): Promise<{ type: string; id: string; name: string }[]> {
   const usedBy: { type: string; id: string; name: string }[] = []
 
-  // Check Product.image and Product.fileUrl
+  // Check Product.image, Product.fileUrl and Product.fileThumbnail
   const products = await prisma.product.findMany({
     where: {
       OR: [
         { image: url },
         { fileUrl: url },
+        { fileThumbnail: url },
       ],
     },
     select: { id: true, nameEn: true },
@@ -351,5 +359,14 @@ async function checkMediaUsage(url: string): Promise<{ type: string; id: string;
     usedBy.push({ type: "categories", id: c.id, name: c.nameEn })
   }
 
+  // Check QuoteFileRevision.thumbnailUrl
+  const revisions = await prisma.quoteFileRevision.findMany({
+    where: { thumbnailUrl: url },
+    select: { file: { select: { quote: { select: { id: true, quoteNumber: true } } } } },
+  })
+  for (const r of revisions) {
+    usedBy.push({ type: "quotes", id: r.file.quote.id, name: r.file.quote.quoteNumber })
+  }
+
   return usedBy
 }
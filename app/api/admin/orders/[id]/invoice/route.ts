@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from "next/server"
+import prisma from "@/lib/prisma"
+import { requirePermissionApi } from "@/lib/admin"
+import { logAuditAction } from "@/lib/auditLog"
+import { issueInvoice, issueCreditNotes } from "@/lib/invoices"
+
+/**
+ * Issue the invoice (and any missing credit notes) for an order by hand —
+ * for orders paid before invoicing existed or when automatic issuing failed.
+ */
+export async function POST(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { session, error } = await requirePermissionApi("orders", "edit")
+    if (error) return error
+
+    const { id } = await params
+    const existing = await prisma.order.findUnique({ where: { id }, select: { id: true, total: true, stripeSession: true } })
+    if (!existing) {
+      return NextResponse.json({ error: "Order not found" }, { status: 404 })
+    }
+    if (!existing.stripeSession || existing.total === null) {
+      return NextResponse.json({ error: "Only orders paid through Stripe can be invoiced" }, { status: 400 })
+    }
+
+    const invoice = await issueInvoice(id)
+    await issueCreditNotes(id)
+
+    const order = await prisma.order.findUnique({
+      where: { id },
+      include: {
+        user: { select: { id: true, name: true, email: true, image: true } },
+        items: { orderBy: { createdAt: "asc" } },
+        refunds: { orderBy: { createdAt: "asc" }, include: { items: true } },
+        invoices: { where: { number: { not: null } }, orderBy: { issuedAt: "asc" } },
+      },
+    })
+
+    logAuditAction({
+      userId: session.user.id,
+      action: "edit",
+      resource: "orders",
+      recordId: id,
+      recordTitle: order?.orderNumber,
+      details: JSON.stringify({ invoice: { from: null, to: invoice?.number ?? null } }),
+    }).catch(() => {})
+
+    return NextResponse.json(order)
+  } catch (error) {
+    console.error("Error issuing invoice:", error instanceof Error ? error.message : "Unknown")
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+  }
+}
@@ -0,0 +1,69 @@
+import { NextRequest, NextResponse } from "next/server"
+import prisma from "@/lib/prisma"
+import { requirePermissionApi } from "@/lib/admin"
+import { logAuditAction } from "@/lib/auditLog"
+import { getStripe } from "@/lib/stripe"
+import { createOrderRefund, REFUND_REASONS, type RefundLineRequest, type RefundReason } from "@/lib/refunds"
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { session, error } = await requirePermissionApi("orders", "edit")
+    if (error) return error
+
+    const { id } = await params
+    const data = await request.json()
+
+    if (!Array.isArray(data.lines) && !data.includeShipping) {
+      return NextResponse.json({ error: "Select lines or shipping to refund" }, { status: 400 })
+    }
+    if (data.reason && !REFUND_REASONS.includes(data.reason)) {
+      return NextResponse.json({ error: "Invalid refund reason" }, { status: 400 })
+    }
+
+    const lines: RefundLineRequest[] = Array.isArray(data.lines)
+      ? data.lines.map((l: { orderItemId?: unknown; quantity?: unknown }) => ({
+          orderItemId: String(l.orderItemId ?? ""),
+          quantity: Number(l.quantity) || 0,
+        }))
+      : []
+
+    const result = await createOrderRefund(getStripe(), {
+      orderId: id,
+      lines,
+      includeShipping: Boolean(data.includeShipping),
+      reason: (data.reason as RefundReason) || null,
+      createdById: session.user.id,
+    })
+    if (result.error !== undefined) {
+      return NextResponse.json({ error: result.error }, { status: 400 })
+    }
+
+    const order = await prisma.order.findUnique({
+      where: { id },
+      include: {
+        user: { select: { id: true, name: true, email: true, image: true } },
+        items: { orderBy: { createdAt: "asc" } },
+        refunds: { orderBy: { createdAt: "asc" }, include: { items: true } },
+        invoices: { where: { number: { not: null } }, orderBy: { issuedAt: "asc" } },
+      },
+    })
+
+    const refund = await prisma.refund.findUnique({ where: { id: result.refundId }, select: { amount: true } })
+    logAuditAction({
+      userId: session.user.id,
+      action: "edit",
+      resource: "orders",
+      recordId: id,
+      recordTitle: order?.orderNumber,
+      details: JSON.stringify({ refund: { from: null, to: refund?.amount.toString() } }),
+    }).catch(() => {})
+
+    return NextResponse.json(order)
+  } catch (error) {
+    console.error("Error refunding order:", error instanceof Error ? error.message : "Unknown")
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+  }
+}
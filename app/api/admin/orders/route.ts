@@ -1,8 +1,9 @@
 import { NextRequest, NextResponse } from "next/server"
 import prisma from "@/lib/prisma"
 import { requirePermissionApi } from "@/lib/admin"
-import { generateOrderNumber } from "@/lib/generateCode"
+import { withNextNumber } from "@/lib/numbering"
 import { logAuditAction, getChangeDetails } from "@/lib/auditLog"
+import { consumeFilamentForOrder } from "@/lib/filament"
 
 export async function GET(request: NextRequest) {
   try {
@@ -18,6 +19,9 @@ export async function GET(request: NextRequest) {
         user: {
           select: { id: true, name: true, email: true, image: true },
         },
+        items: { orderBy: { createdAt: "asc" } },
+        refunds: { orderBy: { createdAt: "asc" }, include: { items: true } },
+        invoices: { where: { number: { not: null } }, orderBy: { issuedAt: "asc" } },
       },
       orderBy: { createdAt: "desc" },
     })
@@ -44,9 +48,9 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: "Invalid status" }, { status: 400 })
     }
 
-    const order = await prisma.order.create({
+    const order = await withNextNumber("order", (orderNumber) => prisma.order.create({
       data: {
-        orderNumber: generateOrderNumber(),
+        orderNumber,
         customerName: data.customerName,
         customerEmail: data.customerEmail,
         phone: data.phone || null,
@@ -55,7 +59,7 @@ export async function POST(request: NextRequest) {
         notes: data.notes || null,
         userId: data.userId || null,
       },
-    })
+    }))
 
     logAuditAction({ userId: session.user.id, action: "create", resource: "orders", recordId: order.id, recordTitle: order.orderNumber }).catch(() => {})
 
@@ -103,6 +107,11 @@ export async function PUT(request: NextRequest) {
       },
     })
 
+    if (order.status === "COMPLETED" && oldOrder.status !== "COMPLETED") {
+      await consumeFilamentForOrder(order.id)
+        .catch((err) => console.error("Failed to consume filament:", err instanceof Error ? err.message : "Unknown"))
+    }
+
     const orderFields = ["customerName", "customerEmail", "phone", "description", "status", "notes"]
     const details = getChangeDetails(oldOrder as Record<string, unknown>, order as Record<string, unknown>, orderFields)
     logAuditAction({ userId: session.user.id, action: "edit", resource: "orders", recordId: order.id, recordTitle: order.orderNumber, details }).catch(() => {})
@@ -0,0 +1,185 @@
+import { NextRequest, NextResponse } from "next/server"
+import prisma from "@/lib/prisma"
+import { requirePermissionApi } from "@/lib/admin"
+import { logAuditAction, getChangeDetails } from "@/lib/auditLog"
+
+/** Build volume in whole millimetres, and supported materials that exist — returns an error message or the parsed values */
+async function parseSpec(data: { buildX?: unknown; buildY?: unknown; buildZ?: unknown; materialIds?: unknown }) {
+  const [buildX, buildY, buildZ] = [data.buildX, data.buildY, data.buildZ].map((value) => Math.round(Number(value)))
+  if (![buildX, buildY, buildZ].every((size) => Number.isFinite(size) && size > 0 && size <= 5000)) {
+    return { error: "Build volume must be between 1 and 5000 mm on every axis" }
+  }
+  const requested = Array.isArray(data.materialIds) ? [...new Set(data.materialIds.map(String))] : []
+  const materials = requested.length > 0
+    ? await prisma.printMaterial.findMany({ where: { id: { in: requested } }, select: { id: true } })
+    : []
+  if (materials.length !== requested.length) return { error: "Unknown material" }
+  return { buildX, buildY, buildZ, materialIds: requested }
+}
+
+/** Printers with the materials they can be set up for — production staff may not see the quotes section */
+export async function GET() {
+  try {
+    const { error } = await requirePermissionApi("orders", "view")
+    if (error) return error
+
+    const [printers, materials] = await Promise.all([
+      prisma.printer.findMany({
+        orderBy: [{ order: "asc" }, { name: "asc" }],
+      }),
+      prisma.printMaterial.findMany({
+        orderBy: [{ order: "asc" }, { name: "asc" }],
+        select: { id: true, name: true },
+      }),
+    ])
+
+    return NextResponse.json({ printers, materials })
+  } catch (error) {
+    console.error("Error fetching printers:", error instanceof Error ? error.message : "Unknown")
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const { session, error } = await requirePermissionApi("orders", "edit")
+    if (error) return error
+
+    const data = await request.json()
+
+    if (!data.name?.trim()) {
+      return NextResponse.json({ error: "Name is required" }, { status: 400 })
+    }
+    const spec = await parseSpec(data)
+    if ("error" in spec) {
+      return NextResponse.json({ error: spec.error }, { status: 400 })
+    }
+
+    const existing = await prisma.printer.findUnique({ where: { name: data.name.trim() } })
+    if (existing) {
+      return NextResponse.json({ error: `A printer named "${data.name}" already exists` }, { status: 400 })
+    }
+
+    const printer = await prisma.printer.create({
+      data: {
+        name: data.name.trim(),
+        model: data.model?.trim() || null,
+        ...spec,
+        active: data.active ?? true,
+        notes: data.notes?.trim() || null,
+        order: data.order ?? 0,
+      },
+    })
+
+    logAuditAction({ userId: session.user.id, action: "create", resource: "printers", recordId: printer.id, recordTitle: printer.name }).catch(() => {})
+
+    return NextResponse.json(printer, { status: 201 })
+  } catch (error) {
+    console.error("Error creating printer:", error instanceof Error ? error.message : "Unknown")
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+  }
+}
+
+export async function PUT(request: NextRequest) {
+  try {
+    const { session, error } = await requirePermissionApi("orders", "edit")
+    if (error) return error
+
+    const data = await request.json()
+
+    if (!data.id) {
+      return NextResponse.json({ error: "Printer ID required" }, { status: 400 })
+    }
+
+    const oldPrinter = await prisma.printer.findUnique({ where: { id: data.id } })
+    if (!oldPrinter) {
+      return NextResponse.json({ error: "Printer not found" }, { status: 404 })
+    }
+
+    if (data.name && data.name.trim() !== oldPrinter.name) {
+      const existing = await prisma.printer.findUnique({ where: { name: data.name.trim() } })
+      if (existing) {
+        return NextResponse.json({ error: `A printer named "${data.name}" already exists` }, { status: 400 })
+      }
+    }
+
+    const spec = await parseSpec({
+      buildX: data.buildX ?? oldPrinter.buildX,
+      buildY: data.buildY ?? oldPrinter.buildY,
+      buildZ: data.buildZ ?? oldPrinter.buildZ,
+      materialIds: data.materialIds ?? oldPrinter.materialIds,
+    })
+    if ("error" in spec) {
+      return NextResponse.json({ error: spec.error }, { status: 400 })
+    }
+
+    const printer = await prisma.printer.update({
+      where: { id: data.id },
+      data: {
+        name: data.name?.trim() ?? oldPrinter.name,
+        model: data.model !== undefined ? data.model?.trim() || null : oldPrinter.model,
+        ...spec,
+        active: data.active ?? oldPrinter.active,
+        notes: data.notes !== undefined ? data.notes?.trim() || null : oldPrinter.notes,
+        order: data.order ?? oldPrinter.order,
+      },
+    })
+
+    const fields = ["name", "model", "buildX", "buildY", "buildZ", "materialIds", "active", "notes", "order"]
+    const details = getChangeDetails(oldPrinter as Record<string, unknown>, printer as Record<string, unknown>, fields)
+    logAuditAction({ userId: session.user.id, action: "edit", resource: "printers", recordId: printer.id, recordTitle: printer.name, details }).catch(() => {})
+
+    return NextResponse.json(printer)
+  } catch (error) {
+    console.error("Error updating printer:", error instanceof Error ? error.message : "Unknown")
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+  }
+}
+
+export async function PATCH(request: NextRequest) {
+  try {
+    const { error } = await requirePermissionApi("orders", "edit")
+    if (error) return error
+
+    const { items } = await request.json()
+    if (!Array.isArray(items)) {
+      return NextResponse.json({ error: "Items array required" }, { status: 400 })
+    }
+
+    for (const item of items) {
+      await prisma.printer.update({ where: { id: item.id }, data: { order: item.order } })
+    }
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error("Error reordering printers:", error instanceof Error ? error.message : "Unknown")
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+  }
+}
+
+/** Jobs on a deleted printer go back to the unassigned queue */
+export async function DELETE(request: NextRequest) {
+  try {
+    const { session, error } = await requirePermissionApi("orders", "edit")
+    if (error) return error
+
+    const id = request.nextUrl.searchParams.get("id")
+    if (!id) {
+      return NextResponse.json({ error: "Printer ID required" }, { status: 400 })
+    }
+
+    const printer = await prisma.printer.findUnique({ where: { id } })
+    if (!printer) {
+      return NextResponse.json({ error: "Printer not found" }, { status: 404 })
+    }
+
+    await prisma.printer.delete({ where: { id } })
+
+    logAuditAction({ userId: session.user.id, action: "delete", resource: "printers", recordId: id, recordTitle: printer.name }).catch(() => {})
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error("Error deleting printer:", error instanceof Error ? error.message : "Unknown")
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+  }
+}
@@ -0,0 +1,120 @@
+import { NextRequest, NextResponse } from "next/server"
+import prisma from "@/lib/prisma"
+import { requirePermissionApi } from "@/lib/admin"
+import { logAuditAction, getChangeDetails } from "@/lib/auditLog"
+import { PRINT_JOB_SELECT, syncProductionStatus } from "@/lib/printJobs"
+import { isPrintJobStatus, printerFitIssue } from "@/lib/production"
+
+const FIT_ERRORS = {
+  material: "This printer is not set up for the job's material",
+  size: "The part does not fit this printer's build volume",
+}
+
+/**
+ * Move a job on the board — status, printer, planned start, estimate or notes. The first move
+ * off the queue stamps the start, packing stamps the finish, and the parent order follows.
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { session, error } = await requirePermissionApi("orders", "edit")
+    if (error) return error
+
+    const { id } = await params
+    const data = await request.json()
+
+    const oldJob = await prisma.printJob.findUnique({ where: { id } })
+    if (!oldJob) {
+      return NextResponse.json({ error: "Job not found" }, { status: 404 })
+    }
+
+    if (data.status !== undefined && !isPrintJobStatus(data.status)) {
+      return NextResponse.json({ error: "Invalid status" }, { status: 400 })
+    }
+    const status = data.status ?? oldJob.status
+
+    const printerId = data.printerId !== undefined ? (data.printerId || null) : oldJob.printerId
+    if (printerId && printerId !== oldJob.printerId) {
+      const printer = await prisma.printer.findUnique({ where: { id: printerId } })
+      if (!printer) {
+        return NextResponse.json({ error: "Printer not found" }, { status: 404 })
+      }
+      const issue = printerFitIssue(printer, oldJob)
+      if (issue) {
+        return NextResponse.json({ error: FIT_ERRORS[issue] }, { status: 400 })
+      }
+    }
+
+    let scheduledAt = oldJob.scheduledAt
+    if (data.scheduledAt !== undefined) {
+      scheduledAt = data.scheduledAt ? new Date(data.scheduledAt) : null
+      if (scheduledAt && isNaN(scheduledAt.getTime())) {
+        return NextResponse.json({ error: "Invalid start time" }, { status: 400 })
+      }
+    }
+
+    let estimatedMinutes = oldJob.estimatedMinutes
+    if (data.estimatedMinutes !== undefined) {
+      estimatedMinutes = data.estimatedMinutes === null || data.estimatedMinutes === "" ? null : Math.round(Number(data.estimatedMinutes))
+      if (estimatedMinutes !== null && !(estimatedMinutes > 0 && estimatedMinutes <= 60 * 24 * 30)) {
+        return NextResponse.json({ error: "Estimated time must be between 1 minute and 30 days" }, { status: 400 })
+      }
+    }
+
+    const job = await prisma.printJob.update({
+      where: { id },
+      data: {
+        status,
+        printerId,
+        scheduledAt,
+        estimatedMinutes,
+        notes: data.notes !== undefined ? (typeof data.notes === "string" && data.notes.trim() ? data.notes.trim().slice(0, 1000) : null) : oldJob.notes,
+        position: typeof data.position === "number" ? data.position : oldJob.position,
+        startedAt: status === "queued" ? null : (oldJob.startedAt ?? new Date()),
+        packedAt: status === "packed" ? (oldJob.packedAt ?? new Date()) : null,
+      },
+      select: PRINT_JOB_SELECT,
+    })
+
+    if (status !== oldJob.status) {
+      await syncProductionStatus({ orderId: oldJob.orderId, quoteId: oldJob.quoteId })
+    }
+
+    const fields = ["status", "printerId", "scheduledAt", "estimatedMinutes", "notes"]
+    const details = getChangeDetails(oldJob as Record<string, unknown>, job as Record<string, unknown>, fields)
+    logAuditAction({ userId: session.user.id, action: "edit", resource: "production", recordId: job.id, recordTitle: job.name, details }).catch(() => {})
+
+    return NextResponse.json(job)
+  } catch (error) {
+    console.error("Error updating print job:", error instanceof Error ? error.message : "Unknown")
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { session, error } = await requirePermissionApi("orders", "edit")
+    if (error) return error
+
+    const { id } = await params
+    const job = await prisma.printJob.findUnique({ where: { id } })
+    if (!job) {
+      return NextResponse.json({ error: "Job not found" }, { status: 404 })
+    }
+
+    await prisma.printJob.delete({ where: { id } })
+    await syncProductionStatus({ orderId: job.orderId, quoteId: job.quoteId })
+
+    logAuditAction({ userId: session.user.id, action: "delete", resource: "production", recordId: id, recordTitle: job.name }).catch(() => {})
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error("Error deleting print job:", error instanceof Error ? error.message : "Unknown")
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+  }
+}
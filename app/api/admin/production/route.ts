@@ -0,0 +1,125 @@
+import { NextRequest, NextResponse } from "next/server"
+import prisma from "@/lib/prisma"
+import { requirePermissionApi } from "@/lib/admin"
+import { logAuditAction } from "@/lib/auditLog"
+import { createOrderPrintJobs, createQuotePrintJobs, PRINT_JOB_SELECT } from "@/lib/printJobs"
+import { PAID_QUOTE_STATUSES } from "@/lib/quotePayment"
+
+/** Packed jobs stay on the board this long */
+const PACKED_VISIBLE_DAYS = 7
+
+/** Open jobs of live orders, the printers they can go to and the materials for the fit check */
+export async function GET() {
+  try {
+    const { error } = await requirePermissionApi("orders", "view")
+    if (error) return error
+
+    const packedSince = new Date(Date.now() - PACKED_VISIBLE_DAYS * 24 * 60 * 60 * 1000)
+    const [jobs, printers, materials] = await Promise.all([
+      prisma.printJob.findMany({
+        where: {
+          OR: [{ orderId: null }, { order: { status: { not: "CANCELLED" } } }],
+          AND: [{ OR: [{ status: { not: "packed" } }, { packedAt: { gte: packedSince } }] }],
+        },
+        orderBy: [{ position: "asc" }, { createdAt: "asc" }],
+        select: PRINT_JOB_SELECT,
+      }),
+      prisma.printer.findMany({
+        orderBy: [{ order: "asc" }, { name: "asc" }],
+        select: { id: true, name: true, model: true, buildX: true, buildY: true, buildZ: true, materialIds: true, active: true },
+      }),
+      prisma.printMaterial.findMany({
+        orderBy: [{ order: "asc" }, { name: "asc" }],
+        select: { id: true, name: true },
+      }),
+    ])
+
+    return NextResponse.json({ jobs, printers, materials })
+  } catch (error) {
+    console.error("Error fetching production board:", error instanceof Error ? error.message : "Unknown")
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+  }
+}
+
+/**
+ * Queue the jobs of an order or quote by its number — for orders placed before the board
+ * existed or entered by hand. An order paid through a quote is printed from the quote's parts.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { session, error } = await requirePermissionApi("orders", "edit")
+    if (error) return error
+
+    const { number: raw } = await request.json()
+    const number = typeof raw === "string" ? raw.trim() : ""
+    if (!number) {
+      return NextResponse.json({ error: "Order or quote number required" }, { status: 400 })
+    }
+
+    const order = await prisma.order.findUnique({
+      where: { orderNumber: number },
+      select: { id: true, orderNumber: true, status: true, quote: { select: { id: true } } },
+    })
+    const quote = order
+      ? null
+      : await prisma.quoteRequest.findUnique({ where: { quoteNumber: number }, select: { id: true, quoteNumber: true, status: true } })
+
+    let created: number
+    let recordId: string
+    if (order) {
+      if (order.status === "CANCELLED") {
+        return NextResponse.json({ error: "This order is cancelled" }, { status: 400 })
+      }
+      created = order.quote ? await createQuotePrintJobs(order.quote.id) : await createOrderPrintJobs(order.id)
+      recordId = order.id
+    } else if (quote) {
+      if (!["accepted", ...PAID_QUOTE_STATUSES].includes(quote.status)) {
+        return NextResponse.json({ error: "Only accepted or paid quotes can go to production" }, { status: 400 })
+      }
+      created = await createQuotePrintJobs(quote.id)
+      recordId = quote.id
+    } else {
+      return NextResponse.json({ error: "No order or quote with this number" }, { status: 404 })
+    }
+
+    if (created === 0) {
+      return NextResponse.json({ error: "Nothing new to print — the jobs already exist or there are no physical items" }, { status: 400 })
+    }
+
+    logAuditAction({
+      userId: session.user.id,
+      action: "create",
+      resource: "production",
+      recordId,
+      recordTitle: number,
+      details: JSON.stringify({ jobs: { from: null, to: created } }),
+    }).catch(() => {})
+
+    return NextResponse.json({ created }, { status: 201 })
+  } catch (error) {
+    console.error("Error queueing print jobs:", error instanceof Error ? error.message : "Unknown")
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+  }
+}
+
+/** Save the order of jobs within a column or printer queue */
+export async function PATCH(request: NextRequest) {
+  try {
+    const { error } = await requirePermissionApi("orders", "edit")
+    if (error) return error
+
+    const { items } = await request.json()
+    if (!Array.isArray(items)) {
+      return NextResponse.json({ error: "Items array required" }, { status: 400 })
+    }
+
+    for (const item of items) {
+      await prisma.printJob.update({ where: { id: item.id }, data: { position: item.position } })
+    }
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error("Error reordering print jobs:", error instanceof Error ? error.message : "Unknown")
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+  }
+}
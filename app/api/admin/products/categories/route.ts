@@ -2,6 +2,8 @@ import { NextRequest, NextResponse } from "next/server"
 import prisma from "@/lib/prisma"
 import { requirePermissionApi } from "@/lib/admin"
 import { logAuditAction } from "@/lib/auditLog"
+import { indexProductsWhere } from "@/lib/productSearch"
+import { invalidateCatalog } from "@/lib/productCatalog"
 
 async function wouldCreateCircle(startId: string, targetId: string): Promise<boolean> {
   if (startId === targetId) return true
@@ -152,6 +154,12 @@ export async function PUT(request: NextRequest) {
       }
     }
 
+    // Category names are part of each product's search text
+    await indexProductsWhere({ category: category.slug }).catch((err) => {
+      console.error("Failed to reindex category products:", err instanceof Error ? err.message : "Unknown")
+    })
+    invalidateCatalog()
+
     return NextResponse.json(category)
   } catch (error) {
     console.error("Error updating category:", error instanceof Error ? error.message : "Unknown")
@@ -189,6 +197,7 @@ export async function DELETE(request: NextRequest) {
     await prisma.productCategory.delete({
       where: { id },
     })
+    invalidateCatalog()
 
     return NextResponse.json({ success: true })
   } catch (error) {
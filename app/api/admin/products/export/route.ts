@@ -1,5 +1,6 @@
 import { requirePermissionApi } from "@/lib/admin"
 import prisma from "@/lib/prisma"
+import { PRODUCT_SHEET_HEADERS } from "@/lib/productImport"
 
 function escapeCell(value: unknown): string {
   const str = value === null || value === undefined ? "" : String(value)
@@ -16,40 +17,55 @@ export async function GET() {
 
     const products = await prisma.product.findMany({
       orderBy: [{ order: "asc" }, { createdAt: "desc" }],
-      include: { brand: true },
+      include: {
+        brand: true,
+        variants: { include: { color: true }, orderBy: { order: "asc" } },
+        packages: { include: { weight: true, packageVariants: true }, orderBy: { order: "asc" } },
+      },
     })
 
-    const headers = [
-      "SKU", "Name (EN)", "Name (BG)", "Name (ES)",
-      "Category", "Brand", "Type", "Status",
-      "Price", "Sale Price", "On Sale", "Price Type", "Currency",
-      "Featured", "Best Seller", "Published",
-      "Tags", "Created At", "Slug",
-    ]
+    // Each product row is followed by its packages, color variants and SIZE×COLOR cells, in the import's layout
+    const sheetRow = (cells: Partial<Record<string, unknown>>) => PRODUCT_SHEET_HEADERS.map(h => cells[h] ?? "")
 
-    const rows = products.map(p => [
-      p.sku ?? "",
-      p.nameEn,
-      p.nameBg,
-      p.nameEs,
-      p.category,
-      p.brand?.nameEn ?? "",
-      p.fileType ?? "physical",
-      p.status,
-      p.price?.toString() ?? "",
-      p.salePrice?.toString() ?? "",
-      p.onSale ? "yes" : "no",
-      p.priceType,
-      p.currency,
-      p.featured ? "yes" : "no",
-      p.bestSeller ? "yes" : "no",
-      p.published ? "yes" : "no",
-      p.tags.join("|"),
-      p.createdAt.toISOString(),
-      p.slug,
-    ].map(escapeCell).join(","))
+    const rows = products.flatMap(p => [
+      [
+        p.sku ?? "",
+        p.nameEn,
+        p.nameBg,
+        p.nameEs,
+        p.category,
+        p.brand?.nameEn ?? "",
+        p.fileType ?? "physical",
+        p.status,
+        p.price?.toString() ?? "",
+        p.salePrice?.toString() ?? "",
+        p.onSale ? "yes" : "no",
+        p.priceType,
+        p.currency,
+        p.featured ? "yes" : "no",
+        p.bestSeller ? "yes" : "no",
+        p.published ? "yes" : "no",
+        p.tags.join("|"),
+        p.createdAt.toISOString(),
+        p.slug,
+        p.image ?? "",
+        p.gallery.join("|"),
+        "", "", "", "",
+      ],
+      ...p.packages.map(pkg => sheetRow({
+        SKU: p.sku, Slug: p.slug, Size: pkg.weight.label, Status: pkg.status,
+        Price: pkg.price.toString(), "Sale Price": pkg.salePrice?.toString(), "Package SKU": pkg.sku,
+      })),
+      ...p.variants.map(v => sheetRow({ SKU: p.sku, Slug: p.slug, Color: v.color.nameEn, Status: v.status, Image: v.image })),
+      ...p.packages.flatMap(pkg => pkg.packageVariants.map(pv => {
+        const variant = p.variants.find(v => v.id === pv.variantId)
+        return sheetRow({
+          SKU: p.sku, Slug: p.slug, Size: pkg.weight.label, Color: variant?.color.nameEn, Status: pv.status, Stock: pv.stock,
+        })
+      })),
+    ].map(row => row.map(escapeCell).join(",")))
 
-    const csv = "\uFEFF" + [headers.map(escapeCell).join(","), ...rows].join("\n")
+    const csv = "\uFEFF" + [PRODUCT_SHEET_HEADERS.map(escapeCell).join(","), ...rows].join("\n")
     const date = new Date().toISOString().slice(0, 10)
 
     return new Response(csv, {
@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from "next/server"
+import { requirePermissionApi } from "@/lib/admin"
+import { hasPermissionForUser } from "@/lib/permissions"
+import { readSpreadsheet } from "@/lib/spreadsheet"
+import { planProductImport, applyProductImport } from "@/lib/productImport"
+
+const MAX_FILE_SIZE = 5 * 1024 * 1024
+
+/**
+ * Import products from a CSV or XLSX sheet in the export's layout. `dryRun=1` only returns the
+ * per-row plan; without it the same plan is written in one transaction, and a sheet with any
+ * error row is refused as a whole.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { session, error } = await requirePermissionApi("products", "edit")
+    if (error) return error
+
+    const formData = await request.formData()
+    const file = formData.get("file") as File | null
+    const dryRun = formData.get("dryRun") === "1"
+
+    if (!file) {
+      return NextResponse.json({ error: "No file provided" }, { status: 400 })
+    }
+    if (!/\.(csv|xlsx)$/i.test(file.name)) {
+      return NextResponse.json({ error: "Only .csv and .xlsx files can be imported" }, { status: 400 })
+    }
+    if (file.size > MAX_FILE_SIZE) {
+      return NextResponse.json({ error: "File too large. Maximum size is 5MB." }, { status: 400 })
+    }
+
+    let sheet: string[][]
+    try {
+      sheet = readSpreadsheet(Buffer.from(await file.arrayBuffer()))
+    } catch (err) {
+      return NextResponse.json({ error: err instanceof Error ? err.message : "Could not read the file" }, { status: 400 })
+    }
+
+    const imported = await planProductImport(sheet)
+    if ("error" in imported) {
+      return NextResponse.json({ error: imported.error }, { status: 400 })
+    }
+    const { plan } = imported
+
+    const createsProducts = plan.rows.some((r) => r.kind === "product" && r.action === "create")
+    if (createsProducts && !(await hasPermissionForUser(session.user.id, session.user.role, "products", "create"))) {
+      return NextResponse.json(
+        { error: "You don't have permission to create products.", plan },
+        { status: 403 }
+      )
+    }
+
+    if (dryRun) return NextResponse.json({ plan, applied: false })
+
+    if (plan.summary.error > 0) {
+      return NextResponse.json({ error: "Fix the rows with errors before importing", plan }, { status: 422 })
+    }
+
+    const ids = await applyProductImport(imported, session.user.id)
+
+    return NextResponse.json({ plan, applied: true, products: ids.length })
+  } catch (error) {
+    console.error("Error importing products:", error instanceof Error ? error.message : "Unknown")
+    return NextResponse.json({ error: "Import failed" }, { status: 500 })
+  }
+}
@@ -2,12 +2,33 @@ import { NextRequest, NextResponse } from "next/server"
 import prisma from "@/lib/prisma"
 import { requirePermissionApi } from "@/lib/admin"
 import { deleteBlobsBatch } from "@/lib/blob"
+import { deleteModelThumbnails, syncProductThumbnail } from "@/lib/modelThumbnail"
 import { logAuditAction, getChangeDetails } from "@/lib/auditLog"
 import { notifyWishlistPriceDrop, notifyStockAvailable } from "@/lib/wishlistNotifications"
 import { buildProductUrlFromDb } from "@/lib/productUrl"
+import { statusForStock, syncStockStatuses, notifyRestock } from "@/lib/stock"
+import { isTaxClass } from "@/lib/vat"
+import { indexProducts } from "@/lib/productSearch"
+import { invalidateCatalog } from "@/lib/productCatalog"
 
 const PRODUCT_STATUSES = ["in_stock", "out_of_stock", "coming_soon", "pre_order", "sold_out"]
 
+/** Empty input means the SIZE×COLOR cell is not stock-tracked */
+function parseStock(raw: unknown): number | null {
+  if (raw === null || raw === undefined || raw === "") return null
+  const n = Math.floor(Number(raw))
+  return Number.isFinite(n) ? Math.max(n, 0) : null
+}
+
+/**
+ * Stock to store for a SIZE×COLOR cell. The admin's edit is applied as a delta to the current
+ * stock so sales and restocks committed while the form was open are not overwritten.
+ */
+function resolveStock(sent: number | null, loaded: number | null, current: number | null | undefined): number | null {
+  if (sent === null || loaded === null || current === null || current === undefined) return sent
+  return Math.max(current + sent - loaded, 0)
+}
+
 function sanitizeBulkTiers(raw: unknown): string {
   try {
     const tiers = JSON.parse(String(raw ?? ""))
@@ -54,7 +75,7 @@ export async function GET(request: NextRequest) {
           variants: { include: { color: true }, orderBy: { order: "asc" } },
           packages: {
             orderBy: { order: "asc" },
-            include: { weight: true, packageVariants: { select: { variantId: true, status: true } } },
+            include: { weight: true, packageVariants: { select: { variantId: true, status: true, stock: true } } },
           },
           brand: true,
         },
@@ -99,7 +120,7 @@ export async function GET(request: NextRequest) {
         variants: { include: { color: true }, orderBy: { order: "asc" } },
         packages: {
           orderBy: { order: "asc" },
-          include: { weight: true, packageVariants: { select: { variantId: true, status: true } } },
+          include: { weight: true, packageVariants: { select: { variantId: true, status: true, stock: true } } },
         },
         brand: true,
       },
@@ -164,6 +185,7 @@ export async function POST(request: NextRequest) {
         onSale: data.onSale || false,
         currency: data.currency || "EUR",
         priceType: data.priceType || "fixed",
+        taxClass: isTaxClass(data.taxClass) ? data.taxClass : "standard",
         category: data.category,
         tags: data.tags || [],
         image: data.image || null,
@@ -232,14 +254,24 @@ export async function POST(request: NextRequest) {
           for (const pv of pkg.packageVariants) {
             const variantId = variantIndexToId.get(pv.variantIndex)
             if (!variantId) continue
+            const stock = parseStock(pv.stock)
+            const status = PRODUCT_STATUSES.includes(pv.status) ? pv.status : "in_stock"
             await prisma.productPackageVariant.create({
-              data: { packageId: created.id, variantId, status: PRODUCT_STATUSES.includes(pv.status) ? pv.status : "in_stock" },
+              data: { packageId: created.id, variantId, stock, status: statusForStock(status, stock) },
             })
           }
         }
       }
     }
 
+    // Render a preview of a digital product's model file
+    await syncProductThumbnail(product, null, session.user.id)
+
+    await indexProducts([product.id]).catch((err) => {
+      console.error("Failed to index product for search:", err instanceof Error ? err.message : "Unknown")
+    })
+    invalidateCatalog()
+
     // Re-fetch with variants and packages
     const productWithVariants = await prisma.product.findUnique({
       where: { id: product.id },
@@ -247,7 +279,7 @@ export async function POST(request: NextRequest) {
         variants: { include: { color: true }, orderBy: { order: "asc" } },
         packages: {
           orderBy: { order: "asc" },
-          include: { weight: true, packageVariants: { select: { variantId: true, status: true } } },
+          include: { weight: true, packageVariants: { select: { variantId: true, status: true, stock: true } } },
         },
         brand: true,
       },
@@ -330,6 +362,7 @@ export async function PUT(request: NextRequest) {
         onSale: data.onSale || false,
         currency: data.currency || "EUR",
         priceType: data.priceType || "fixed",
+        taxClass: isTaxClass(data.taxClass) ? data.taxClass : "standard",
         category: data.category,
         tags: data.tags || [],
         image: data.image || null,
@@ -353,6 +386,15 @@ export async function PUT(request: NextRequest) {
     // Set brandId via raw SQL — Prisma 7 + Neon HTTP adapter rejects connect/disconnect (triggers transactions)
     await prisma.$executeRaw`UPDATE "Product" SET "brandId" = ${data.brandId || null} WHERE id = ${data.id}`
 
+    // Snapshot SIZE×COLOR stock before variants/packages are recreated — keyed by weight and color
+    const oldPackageVariants = await prisma.productPackageVariant.findMany({
+      where: { package: { productId: data.id } },
+      select: { stock: true, filamentSoldOut: true, package: { select: { weightId: true } }, variant: { select: { colorId: true } } },
+    })
+    const oldStockMap = new Map(oldPackageVariants.map(pv => [`${pv.package.weightId}:${pv.variant.colorId}`, pv.stock]))
+    // Cells sold out because their filament ran out stay flagged so a refill puts them back on sale
+    const filamentSoldOutCells = new Set(oldPackageVariants.filter(pv => pv.filamentSoldOut).map(pv => `${pv.package.weightId}:${pv.variant.colorId}`))
+
     // Sync color variants: delete old, create new — Map by original index for packageVariant lookup
     const variantIndexToId = new Map<number, string>()
     if (Array.isArray(data.variants)) {
@@ -438,14 +480,36 @@ export async function PUT(request: NextRequest) {
           for (const pv of pkg.packageVariants) {
             const variantId = variantIndexToId.get(pv.variantIndex)
             if (!variantId) continue
+            const cellKey = `${pkg.weightId}:${data.variants[pv.variantIndex]?.colorId}`
+            const stock = resolveStock(parseStock(pv.stock), parseStock(pv.loadedStock), oldStockMap.get(cellKey))
+            const status = statusForStock(PRODUCT_STATUSES.includes(pv.status) ? pv.status : "in_stock", stock)
+            const filamentSoldOut = status === "sold_out" && stock === null && filamentSoldOutCells.has(cellKey)
             await prisma.productPackageVariant.create({
-              data: { packageId: created.id, variantId, status: PRODUCT_STATUSES.includes(pv.status) ? pv.status : "in_stock" },
+              data: { packageId: created.id, variantId, stock, status, filamentSoldOut },
             })
           }
         }
       }
     }
 
+    // Restocked cells (0 → positive) notify wishlist users; stock-driven statuses roll up to packages and product
+    const newPackageVariants = await prisma.productPackageVariant.findMany({
+      where: { package: { productId: data.id } },
+      select: { stock: true, package: { select: { weightId: true } }, variant: { select: { colorId: true } } },
+    })
+    const restockedColors = new Set<string>()
+    for (const pv of newPackageVariants) {
+      const oldStock = oldStockMap.get(`${pv.package.weightId}:${pv.variant.colorId}`)
+      if (oldStock === 0 && pv.stock !== null && pv.stock > 0) restockedColors.add(pv.variant.colorId)
+    }
+    for (const colorId of restockedColors) {
+      notifyRestock(product.id, colorId)
+        .catch((err) => console.error("Failed to send restock notifications:", err instanceof Error ? err.message : "Unknown"))
+    }
+    if (newPackageVariants.some(pv => pv.stock !== null)) {
+      await syncStockStatuses(product.id)
+    }
+
     // Cleanup old gallery images that are no longer used
     const newGallerySet = new Set(data.gallery || [])
     const oldGalleryUrls = (oldProduct.gallery as string[] || [])
@@ -456,7 +520,7 @@ export async function PUT(request: NextRequest) {
       })
     }
 
-    const productFields = ["slug", "sku", "nameBg", "nameEn", "nameEs", "descBg", "descEn", "descEs", "price", "salePrice", "onSale", "currency", "priceType", "category", "tags", "brandId", "image", "gallery", "relatedProductIds", "upsellProductIds", "fileUrl", "fileType", "featured", "bestSeller", "published", "status", "order"]
+    const productFields = ["slug", "sku", "nameBg", "nameEn", "nameEs", "descBg", "descEn", "descEs", "price", "salePrice", "onSale", "currency", "priceType", "taxClass", "category", "tags", "brandId", "image", "gallery", "relatedProductIds", "upsellProductIds", "fileUrl", "fileType", "featured", "bestSeller", "published", "status", "order"]
     const details = getChangeDetails(oldProduct as Record<string, unknown>, product as Record<string, unknown>, productFields)
     logAuditAction({ userId: session.user.id, action: "edit", resource: "products", recordId: product.id, recordTitle: product.nameEn, details }).catch(() => {})
 
@@ -470,6 +534,13 @@ export async function PUT(request: NextRequest) {
     const wentOnSale = !oldProduct.onSale && product.onSale
     const salePriceDropped = product.onSale && newSalePriceNum !== null && oldSalePriceNum !== null && newSalePriceNum < oldSalePriceNum
 
+    await syncProductThumbnail(product, oldProduct.fileUrl, session.user.id)
+
+    await indexProducts([product.id]).catch((err) => {
+      console.error("Failed to index product for search:", err instanceof Error ? err.message : "Unknown")
+    })
+    invalidateCatalog()
+
     // Re-fetch with variants and packages
     const productWithVariants = await prisma.product.findUnique({
       where: { id: product.id },
@@ -477,7 +548,7 @@ export async function PUT(request: NextRequest) {
         variants: { include: { color: true }, orderBy: { order: "asc" } },
         packages: {
           orderBy: { order: "asc" },
-          include: { weight: true, packageVariants: { select: { variantId: true, status: true } } },
+          include: { weight: true, packageVariants: { select: { variantId: true, status: true, stock: true } } },
         },
         brand: true,
       },
@@ -558,7 +629,7 @@ export async function PATCH(request: NextRequest) {
 
       const products = await prisma.product.findMany({
         where: { id: { in: ids } },
-        select: { id: true, image: true, gallery: true, fileUrl: true, variants: { select: { image: true } } },
+        select: { id: true, image: true, gallery: true, fileUrl: true, fileThumbnail: true, variants: { select: { image: true } } },
       })
 
       for (const product of products) {
@@ -570,6 +641,9 @@ export async function PATCH(request: NextRequest) {
       deleteBlobsBatch(urlsToDelete).catch((err) => {
         console.error("Failed to delete product file blobs:", err instanceof Error ? err.message : "Unknown")
       })
+      deleteModelThumbnails(products.map((p) => p.fileThumbnail)).catch((err) => {
+        console.error("Failed to delete product thumbnails:", err instanceof Error ? err.message : "Unknown")
+      })
 
       // Clean up stale relatedProductIds references in other products
       for (const deletedId of ids) {
@@ -746,13 +820,14 @@ export async function DELETE(request: NextRequest) {
     // Fetch the product to get all associated file URLs before deletion
     const product = await prisma.product.findUnique({
       where: { id },
-      select: { image: true, gallery: true, fileUrl: true, variants: { select: { image: true } } }
+      select: { image: true, gallery: true, fileUrl: true, fileThumbnail: true, variants: { select: { image: true } } }
     })
 
     // Delete the database record (variants cascade-deleted automatically)
     await prisma.product.delete({
       where: { id },
     })
+    invalidateCatalog()
 
     // Delete all associated blob files (non-blocking) — includes variant images
     if (product) {
@@ -766,6 +841,9 @@ export async function DELETE(request: NextRequest) {
       deleteBlobsBatch(urlsToDelete).catch(err => {
         console.error("Failed to delete product file blobs:", err instanceof Error ? err.message : "Unknown")
       })
+      deleteModelThumbnails([product.fileThumbnail]).catch(err => {
+        console.error("Failed to delete product thumbnail:", err instanceof Error ? err.message : "Unknown")
+      })
     }
 
     // Clean up stale relatedProductIds references in other products
@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from "next/server"
+import { getLocale } from "next-intl/server"
+import prisma from "@/lib/prisma"
+import { requirePermissionApi } from "@/lib/admin"
+import { matchProducts } from "@/lib/productSearch"
+import type { Locale } from "@/i18n/config"
+
+/** Ranked product matches for the admin command palette, drafts included */
+export async function GET(request: NextRequest) {
+  try {
+    const { error } = await requirePermissionApi("products", "view")
+    if (error) return error
+
+    const searchParams = request.nextUrl.searchParams
+    const q = searchParams.get("q")?.trim()
+    const limit = Math.min(parseInt(searchParams.get("limit") || "5") || 5, 20)
+    if (!q || q.length < 2) return NextResponse.json([])
+
+    const ids = (await matchProducts(q, (await getLocale()) as Locale, { publishedOnly: false })).slice(0, limit)
+    const products = await prisma.product.findMany({
+      where: { id: { in: ids } },
+      select: { id: true, slug: true, sku: true, nameEn: true, nameBg: true, nameEs: true, published: true },
+    })
+    const byId = new Map(products.map((p) => [p.id, p]))
+
+    return NextResponse.json(ids.flatMap((id) => byId.get(id) ?? []))
+  } catch (error) {
+    console.error("Error searching products:", error instanceof Error ? error.message : "Unknown")
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+  }
+}
@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from "next/server"
+import prisma from "@/lib/prisma"
+import { requirePermissionApi } from "@/lib/admin"
+import { logAuditAction } from "@/lib/auditLog"
+import { getQuoteStaff } from "@/lib/quoteConfig"
+
+/** Assign a quote to a staff member, or unassign it with `assignedToId: null` */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { session, error } = await requirePermissionApi("quotes", "edit")
+    if (error) return error
+
+    const { id } = await params
+    const { assignedToId: raw } = await request.json()
+    const assignedToId = typeof raw === "string" && raw ? raw : null
+
+    const quote = await prisma.quoteRequest.findUnique({
+      where: { id },
+      select: { id: true, quoteNumber: true, assignedToId: true },
+    })
+    if (!quote) {
+      return NextResponse.json({ error: "Quote not found" }, { status: 404 })
+    }
+    const staff = assignedToId ? (await getQuoteStaff()).find((user) => user.id === assignedToId) : null
+    if (assignedToId && !staff) {
+      return NextResponse.json({ error: "This user cannot be assigned quotes" }, { status: 400 })
+    }
+
+    await prisma.quoteRequest.update({ where: { id }, data: { assignedToId } })
+
+    logAuditAction({
+      userId: session.user.id,
+      action: "edit",
+      resource: "quotes",
+      recordId: quote.id,
+      recordTitle: quote.quoteNumber,
+      details: JSON.stringify({ assignedToId: { from: quote.assignedToId, to: assignedToId } }),
+    }).catch(() => {})
+
+    return NextResponse.json({ assignedTo: staff ?? null })
+  } catch (error) {
+    console.error("Error assigning quote:", error instanceof Error ? error.message : "Unknown")
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+  }
+}
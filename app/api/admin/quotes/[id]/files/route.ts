@@ -0,0 +1,73 @@
+import { NextRequest, NextResponse } from "next/server"
+import { zipSync } from "three/examples/jsm/libs/fflate.module.js"
+import prisma from "@/lib/prisma"
+import { requirePermissionApi } from "@/lib/admin"
+import { readBlob } from "@/lib/blob"
+
+const safeName = (name: string) => name.replace(/[\\/:*?"<>|]+/g, "_").replace(/^\.+/, "_")
+
+/**
+ * All model files of a quote as one ZIP — the latest revision of each part,
+ * or with `?all=1` every revision in a folder per part.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { error } = await requirePermissionApi("quotes", "view")
+    if (error) return error
+
+    const { id } = await params
+    const allRevisions = request.nextUrl.searchParams.get("all") === "1"
+
+    const quote = await prisma.quoteRequest.findUnique({
+      where: { id },
+      select: {
+        quoteNumber: true,
+        files: {
+          orderBy: [{ order: "asc" }, { createdAt: "asc" }],
+          select: {
+            name: true,
+            revisions: {
+              orderBy: { version: "desc" },
+              ...(allRevisions ? {} : { take: 1 }),
+              select: { version: true, fileName: true, fileUrl: true },
+            },
+          },
+        },
+      },
+    })
+    if (!quote) {
+      return NextResponse.json({ error: "Quote not found" }, { status: 404 })
+    }
+    if (quote.files.length === 0) {
+      return NextResponse.json({ error: "This quote has no files" }, { status: 404 })
+    }
+
+    const entries: Record<string, Uint8Array> = {}
+    for (const [index, file] of quote.files.entries()) {
+      // Numbered so parts with the same name don't overwrite each other
+      const part = `${String(index + 1).padStart(2, "0")}-${safeName(file.name)}`
+      for (const revision of file.revisions) {
+        const path = allRevisions
+          ? `${part}/v${revision.version}-${safeName(revision.fileName)}`
+          : `${part}${revision.fileName.slice(revision.fileName.lastIndexOf("."))}`
+        entries[path] = new Uint8Array(await readBlob(revision.fileUrl))
+      }
+    }
+
+    const zip = zipSync(entries, { level: 6 })
+    const fileName = `${safeName(quote.quoteNumber || id)}${allRevisions ? "-all-revisions" : ""}.zip`
+
+    return new Response(Buffer.from(zip), {
+      headers: {
+        "Content-Type": "application/zip",
+        "Content-Disposition": `attachment; filename="${fileName}"`,
+      },
+    })
+  } catch (error) {
+    console.error("Error zipping quote files:", error instanceof Error ? error.message : "Unknown")
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+  }
+}
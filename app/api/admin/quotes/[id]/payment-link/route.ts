@@ -0,0 +1,81 @@
+import { NextRequest, NextResponse } from "next/server"
+import prisma from "@/lib/prisma"
+import { requirePermissionApi } from "@/lib/admin"
+import { logAuditAction } from "@/lib/auditLog"
+import { quotePaymentError } from "@/lib/quotePayment"
+
+/**
+ * Send the customer a link to pay an accepted quote. The link opens the quote in
+ * /my-orders with the payment form, where the address and shipping method are chosen.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { session, error } = await requirePermissionApi("quotes", "edit")
+    if (error) return error
+
+    const { id } = await params
+    const quote = await prisma.quoteRequest.findUnique({
+      where: { id },
+      select: { id: true, quoteNumber: true, email: true, userId: true, status: true, quotedPrice: true, orderId: true },
+    })
+    if (!quote) {
+      return NextResponse.json({ error: "Quote not found" }, { status: 404 })
+    }
+    const paymentError = quotePaymentError(quote)
+    if (paymentError) {
+      return NextResponse.json({ error: paymentError }, { status: 400 })
+    }
+
+    const link = `/my-orders?quoteId=${quote.id}&pay=1`
+    const baseUrl = process.env.NEXT_PUBLIC_BASE_URL || "https://www.digital4d.eu"
+    const price = `€${Number(quote.quotedPrice).toFixed(2)}`
+
+    // Customers without an account get the link from the admin directly
+    const user = quote.userId
+      ? { id: quote.userId }
+      : await prisma.user.findFirst({ where: { email: quote.email }, select: { id: true } })
+    if (user) {
+      await prisma.notification.create({
+        data: {
+          userId: user.id,
+          type: "admin_message",
+          title: `Quote ${quote.quoteNumber} is ready for payment`,
+          message: `Pay ${price} online to start production.`,
+          link,
+          quoteId: quote.id,
+          createdById: session.user.id,
+        },
+      })
+    }
+
+    await prisma.quoteMessage.create({
+      data: {
+        quoteId: quote.id,
+        senderType: "admin",
+        message: JSON.stringify({ key: "payment_link", price: Number(quote.quotedPrice).toFixed(2) }),
+      },
+    })
+    const updated = await prisma.quoteRequest.update({
+      where: { id: quote.id },
+      data: { paymentLinkSentAt: new Date() },
+      select: { paymentLinkSentAt: true },
+    })
+
+    logAuditAction({
+      userId: session.user.id,
+      action: "edit",
+      resource: "quotes",
+      recordId: quote.id,
+      recordTitle: quote.quoteNumber,
+      details: JSON.stringify({ paymentLink: { from: null, to: link } }),
+    }).catch(() => {})
+
+    return NextResponse.json({ url: `${baseUrl}${link}`, notified: !!user, paymentLinkSentAt: updated.paymentLinkSentAt })
+  } catch (error) {
+    console.error("Error sending quote payment link:", error instanceof Error ? error.message : "Unknown")
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+  }
+}
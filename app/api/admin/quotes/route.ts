@@ -1,8 +1,29 @@
 import { NextRequest, NextResponse } from "next/server"
+import { Prisma } from "@prisma/client"
 import prisma from "@/lib/prisma"
 import { requirePermissionApi } from "@/lib/admin"
-import { deleteBlobSafe } from "@/lib/blob"
+import { deleteBlobsBatch } from "@/lib/blob"
+import { deleteModelThumbnails } from "@/lib/modelThumbnail"
 import { logAuditAction, getChangeDetails } from "@/lib/auditLog"
+import { parsePrintConfig, parseQuotePart, partPrintConfig, printConfigData, printConfigOf, PRINT_FINISHES, type PartConfig } from "@/lib/printConfig"
+import { checkPrintConfigRefs, getQuoteSla, getQuoteStaff, printConfigSnapshot } from "@/lib/quoteConfig"
+import { refreshQuoteEstimate } from "@/lib/quoteEstimate"
+import { PAID_QUOTE_STATUSES } from "@/lib/quotePayment"
+import { createQuotePrintJobs } from "@/lib/printJobs"
+import { AWAITING_STAFF_STATUSES, quoteExpiryFrom } from "@/lib/quoteSla"
+
+const HOUR_MS = 60 * 60 * 1000
+
+/** Quotes waiting on staff since before `cutoff` — the legacy fallback is the last update */
+function waitingSinceBefore(cutoff: Date) {
+  return {
+    status: { in: AWAITING_STAFF_STATUSES },
+    OR: [
+      { awaitingSince: { lt: cutoff } },
+      { awaitingSince: null, updatedAt: { lt: cutoff } },
+    ],
+  }
+}
 
 export async function GET(request: NextRequest) {
   try {
@@ -15,12 +36,22 @@ export async function GET(request: NextRequest) {
     const page = parseInt(searchParams.get("page") || "1")
     const limit = parseInt(searchParams.get("limit") || "15")
     const sort = searchParams.get("sort")
+    const materialId = searchParams.get("material")
+    const colorId = searchParams.get("color")
+    const finish = searchParams.get("finish")
+    const assigned = searchParams.get("assigned")
+    const overdue = searchParams.get("overdue") === "1"
 
     const where: Record<string, unknown> = {}
 
     if (status) {
       where.status = status
     }
+    if (materialId) where.materialId = materialId
+    if (colorId) where.colorId = colorId
+    if (finish && (PRINT_FINISHES as readonly string[]).includes(finish)) where.finish = finish
+    if (assigned === "me") where.assignedToId = session.user.id
+    else if (assigned === "none") where.assignedToId = null
 
     if (search) {
       const searchConditions = [
@@ -36,7 +67,14 @@ export async function GET(request: NextRequest) {
       }
     }
 
-    const [quotes, total, pendingCount] = await Promise.all([
+    const sla = await getQuoteSla()
+    const overdueWhere = waitingSinceBefore(new Date(Date.now() - sla.responseHours * HOUR_MS))
+    if (overdue) {
+      where.AND = [...((where.AND as unknown[]) ?? []), overdueWhere]
+    }
+
+    const since30Days = new Date(Date.now() - 30 * 24 * HOUR_MS)
+    const [quotes, total, pendingCount, overdueCount, responded, staff] = await Promise.all([
       prisma.quoteRequest.findMany({
         where,
         orderBy: sort === "oldest" ? { createdAt: "asc" as const } : { createdAt: "desc" as const },
@@ -50,9 +88,29 @@ export async function GET(request: NextRequest) {
           email: true,
           phone: true,
           message: true,
-          fileName: true,
-          fileUrl: true,
-          fileSize: true,
+          estimate: true,
+          materialId: true,
+          colorId: true,
+          layerHeight: true,
+          infill: true,
+          quantity: true,
+          finish: true,
+          deadline: true,
+          material: { select: { name: true } },
+          color: { select: { nameEn: true, nameBg: true, nameEs: true, hex: true } },
+          files: {
+            orderBy: [{ order: "asc" }, { createdAt: "asc" }],
+            select: {
+              id: true,
+              name: true,
+              quantity: true,
+              config: true,
+              revisions: {
+                orderBy: { version: "desc" },
+                select: { id: true, version: true, fileName: true, fileUrl: true, thumbnailUrl: true, fileSize: true, geometry: true, senderType: true, createdAt: true },
+              },
+            },
+          },
           status: true,
           quotedPrice: true,
           adminNotes: true,
@@ -61,6 +119,14 @@ export async function GET(request: NextRequest) {
           quotedAt: true,
           createdAt: true,
           updatedAt: true,
+          paidAt: true,
+          paymentLinkSentAt: true,
+          expiresAt: true,
+          awaitingSince: true,
+          firstResponseAt: true,
+          assignedToId: true,
+          assignedTo: { select: { id: true, name: true, email: true } },
+          order: { select: { id: true, orderNumber: true, status: true, total: true, currency: true } },
           product: {
             select: {
               id: true,
@@ -82,16 +148,27 @@ export async function GET(request: NextRequest) {
               senderType: true,
               message: true,
               quotedPrice: true,
+              config: true,
               createdAt: true,
+              revisions: { select: { id: true, version: true, fileName: true, file: { select: { name: true } } } },
             },
           },
         },
       }),
       prisma.quoteRequest.count({ where }),
       prisma.quoteRequest.count({ where: { status: "pending" } }),
+      prisma.quoteRequest.count({ where: overdueWhere }),
+      prisma.quoteRequest.findMany({
+        where: { createdAt: { gte: since30Days }, firstResponseAt: { not: null } },
+        select: { createdAt: true, firstResponseAt: true },
+      }),
+      getQuoteStaff(),
     ])
 
-    void session
+    // Average time to first response over the last 30 days, in hours
+    const firstResponseHours = responded.length > 0
+      ? responded.reduce((sum, q) => sum + (q.firstResponseAt!.getTime() - q.createdAt.getTime()), 0) / responded.length / HOUR_MS
+      : null
 
     return NextResponse.json({
       quotes,
@@ -100,6 +177,10 @@ export async function GET(request: NextRequest) {
       limit,
       totalPages: Math.ceil(total / limit),
       pendingCount,
+      overdueCount,
+      firstResponseHours,
+      sla,
+      staff,
     })
   } catch (error) {
     console.error("Error fetching quotes:", error instanceof Error ? error.message : "Unknown")
@@ -136,28 +217,70 @@ export async function PUT(request: NextRequest) {
       }
     }
 
-    const QUOTE_STATUSES = ["pending", "quoted", "accepted", "user_declined", "rejected"]
+    const QUOTE_STATUSES = ["pending", "quoted", "accepted", "user_declined", "rejected", "expired", ...PAID_QUOTE_STATUSES]
     if (data.status && !QUOTE_STATUSES.includes(data.status)) {
       return NextResponse.json({ error: "Invalid status" }, { status: 400 })
     }
 
+    // Print options are optional in the body — older clients only send status/price/notes
+    let config = printConfigOf(oldQuote)
+    if (data.printConfig) {
+      const parsed = parsePrintConfig(data.printConfig)
+      if ("error" in parsed) {
+        return NextResponse.json({ error: parsed.error }, { status: 400 })
+      }
+      const refError = await checkPrintConfigRefs(parsed.config, { activeOnly: false })
+      if (refError) {
+        return NextResponse.json({ error: refError }, { status: 400 })
+      }
+      config = parsed.config
+    }
+
+    // Per-part quantity and options, keyed by file ID
+    const partUpdates: { id: string; quantity: number; config: PartConfig }[] = []
+    if (Array.isArray(data.parts)) {
+      const fileIds = new Set(
+        (await prisma.quoteFile.findMany({ where: { quoteId: data.id }, select: { id: true } })).map((file) => file.id)
+      )
+      for (const raw of data.parts) {
+        if (!raw || !fileIds.has(raw.id)) {
+          return NextResponse.json({ error: "Unknown part" }, { status: 400 })
+        }
+        const part = parseQuotePart(raw)
+        if ("error" in part) {
+          return NextResponse.json({ error: part.error }, { status: 400 })
+        }
+        const refError = await checkPrintConfigRefs(partPrintConfig(config, part.config), { activeOnly: false })
+        if (refError) {
+          return NextResponse.json({ error: refError }, { status: 400 })
+        }
+        partUpdates.push({ id: raw.id, ...part })
+      }
+    }
+
     // Build update data
-    const updateData: {
-      status?: string
-      quotedPrice?: number | null
-      adminNotes?: string | null
-      quotedAt?: Date | null
-      viewedAt?: null
-    } = {
+    const updateData: Prisma.QuoteRequestUncheckedUpdateInput = {
       status: data.status,
       quotedPrice: hasPrice ? parseFloat(data.quotedPrice) : null,
       adminNotes: data.adminNotes || null,
     }
 
-    // Set quotedAt when status changes to "quoted" and reset viewedAt
+    if (data.printConfig) {
+      Object.assign(updateData, printConfigData(config))
+    }
+
+    // Set quotedAt when status changes to "quoted" and reset viewedAt; the price is valid from now
+    const now = new Date()
     if (data.status === "quoted") {
-      updateData.quotedAt = new Date()
+      updateData.quotedAt = now
       updateData.viewedAt = null
+      updateData.expiresAt = quoteExpiryFrom(now, await getQuoteSla())
+      updateData.expiryReminderSentAt = null
+    }
+
+    // The first answer the customer gets counts towards the response time
+    if (!oldQuote.firstResponseAt && (data.status === "quoted" || data.status === "rejected")) {
+      updateData.firstResponseAt = now
     }
 
     const quote = await prisma.quoteRequest.update({
@@ -165,6 +288,25 @@ export async function PUT(request: NextRequest) {
       data: updateData,
     })
 
+    for (const part of partUpdates) {
+      await prisma.quoteFile.update({
+        where: { id: part.id },
+        data: { quantity: part.quantity, config: Object.keys(part.config).length > 0 ? part.config : Prisma.DbNull },
+      })
+    }
+
+    // Re-price the measured parts with the new material, infill, layer height and quantities
+    if (data.printConfig || partUpdates.length > 0) {
+      await refreshQuoteEstimate(quote.id)
+    }
+
+    // Work accepted on the customer's behalf goes on the production board too
+    if (data.status !== oldQuote.status && ["accepted", ...PAID_QUOTE_STATUSES].includes(data.status)) {
+      await createQuotePrintJobs(quote.id).catch((jobError) => {
+        console.error("Failed to queue print jobs:", jobError instanceof Error ? jobError.message : "Unknown")
+      })
+    }
+
     // Create a message in the history when admin sends a quote
     if (data.status === "quoted" && (data.quotedPrice || data.adminNotes)) {
       // Fetch coupon details if attached
@@ -197,6 +339,7 @@ export async function PUT(request: NextRequest) {
           senderType: "admin",
           message: fullMessage,
           quotedPrice: data.quotedPrice ? parseFloat(data.quotedPrice) : null,
+          config: await printConfigSnapshot(config),
         },
       })
     }
@@ -231,7 +374,7 @@ export async function PUT(request: NextRequest) {
       }
     }
 
-    const quoteFields = ["status", "quotedPrice", "adminNotes"]
+    const quoteFields = ["status", "quotedPrice", "adminNotes", "materialId", "colorId", "layerHeight", "infill", "quantity", "finish", "deadline"]
     const details = getChangeDetails(oldQuote as Record<string, unknown>, quote as Record<string, unknown>, quoteFields)
     logAuditAction({ userId: session.user.id, action: "edit", resource: "quotes", recordId: quote.id, recordTitle: quote.quoteNumber, details }).catch(() => {})
 
@@ -257,10 +400,10 @@ export async function DELETE(request: NextRequest) {
       return NextResponse.json({ error: "Quote ID required" }, { status: 400 })
     }
 
-    // Fetch the quote to get the fileUrl before deletion
+    // Collect every file revision (and the pre-parts single file) before deletion
     const quote = await prisma.quoteRequest.findUnique({
       where: { id },
-      select: { fileUrl: true }
+      select: { fileUrl: true, files: { select: { revisions: { select: { fileUrl: true, thumbnailUrl: true } } } } },
     })
 
     // Delete the database record
@@ -268,10 +411,14 @@ export async function DELETE(request: NextRequest) {
       where: { id },
     })
 
-    // Delete the associated blob file (non-blocking)
-    if (quote?.fileUrl) {
-      deleteBlobSafe(quote.fileUrl).catch(err => {
-        console.error("Failed to delete quote file blob:", err instanceof Error ? err.message : "Unknown")
+    // Delete the associated blob files (non-blocking)
+    if (quote) {
+      const urls = [quote.fileUrl, ...quote.files.flatMap((file) => file.revisions.map((revision) => revision.fileUrl))]
+      deleteBlobsBatch(urls).catch(err => {
+        console.error("Failed to delete quote file blobs:", err instanceof Error ? err.message : "Unknown")
+      })
+      deleteModelThumbnails(quote.files.flatMap((file) => file.revisions.map((revision) => revision.thumbnailUrl))).catch(err => {
+        console.error("Failed to delete quote thumbnails:", err instanceof Error ? err.message : "Unknown")
       })
     }
 
@@ -0,0 +1,22 @@
+import { NextRequest, NextResponse } from "next/server"
+import { requirePermissionApi } from "@/lib/admin"
+import { getSearchReport } from "@/lib/searchAnalytics"
+
+const PERIODS = [7, 30, 90]
+
+/** Search analytics for the last `days` (7, 30 or 90) */
+export async function GET(request: NextRequest) {
+  try {
+    const { error } = await requirePermissionApi("products", "view")
+    if (error) return error
+
+    const requested = parseInt(request.nextUrl.searchParams.get("days") || "30")
+    const days = PERIODS.includes(requested) ? requested : 30
+    const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000)
+
+    return NextResponse.json({ days, ...(await getSearchReport(since)) })
+  } catch (error) {
+    console.error("Error fetching search report:", error instanceof Error ? error.message : "Unknown")
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+  }
+}
@@ -0,0 +1,130 @@
+import { NextRequest, NextResponse } from "next/server"
+import prisma from "@/lib/prisma"
+import { requirePermissionApi } from "@/lib/admin"
+import { logAuditAction, getChangeDetails } from "@/lib/auditLog"
+import { normalizeQuery, isSiteRedirect } from "@/lib/search"
+
+const MAX_SYNONYMS = 20
+
+/** Normalized rule fields from a request body, or an error message */
+function parseRule(data: { term?: unknown; synonyms?: unknown; redirectUrl?: unknown }) {
+  const term = typeof data.term === "string" ? normalizeQuery(data.term) : ""
+  if (!term) return { error: "Term is required" }
+
+  const synonyms = [...new Set(
+    (Array.isArray(data.synonyms) ? data.synonyms : [])
+      .map((s) => (typeof s === "string" ? normalizeQuery(s) : ""))
+      .filter((s) => s && s !== term)
+  )]
+  if (synonyms.length > MAX_SYNONYMS) return { error: `At most ${MAX_SYNONYMS} synonyms per term` }
+
+  const redirectUrl = typeof data.redirectUrl === "string" && data.redirectUrl.trim() ? data.redirectUrl.trim() : null
+  if (redirectUrl && !isSiteRedirect(redirectUrl)) return { error: "Redirect must be a path on this site, starting with /" }
+  if (synonyms.length === 0 && !redirectUrl) return { error: "Add at least one synonym or a redirect" }
+
+  return { rule: { term, synonyms, redirectUrl } }
+}
+
+export async function GET() {
+  try {
+    const { error } = await requirePermissionApi("products", "view")
+    if (error) return error
+
+    const synonyms = await prisma.searchSynonym.findMany({ orderBy: { term: "asc" } })
+    return NextResponse.json(synonyms)
+  } catch (error) {
+    console.error("Error fetching search synonyms:", error instanceof Error ? error.message : "Unknown")
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const { session, error } = await requirePermissionApi("products", "edit")
+    if (error) return error
+
+    const parsed = parseRule(await request.json())
+    if (!parsed.rule) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 })
+    }
+
+    const existing = await prisma.searchSynonym.findUnique({ where: { term: parsed.rule.term } })
+    if (existing) {
+      return NextResponse.json({ error: `A rule for "${parsed.rule.term}" already exists` }, { status: 400 })
+    }
+
+    const synonym = await prisma.searchSynonym.create({ data: parsed.rule })
+
+    logAuditAction({ userId: session.user.id, action: "create", resource: "search", recordId: synonym.id, recordTitle: synonym.term }).catch(() => {})
+
+    return NextResponse.json(synonym, { status: 201 })
+  } catch (error) {
+    console.error("Error creating search synonym:", error instanceof Error ? error.message : "Unknown")
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+  }
+}
+
+export async function PUT(request: NextRequest) {
+  try {
+    const { session, error } = await requirePermissionApi("products", "edit")
+    if (error) return error
+
+    const data = await request.json()
+    if (!data.id) {
+      return NextResponse.json({ error: "Rule ID required" }, { status: 400 })
+    }
+
+    const oldSynonym = await prisma.searchSynonym.findUnique({ where: { id: data.id } })
+    if (!oldSynonym) {
+      return NextResponse.json({ error: "Rule not found" }, { status: 404 })
+    }
+
+    const parsed = parseRule(data)
+    if (!parsed.rule) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 })
+    }
+
+    if (parsed.rule.term !== oldSynonym.term) {
+      const existing = await prisma.searchSynonym.findUnique({ where: { term: parsed.rule.term } })
+      if (existing) {
+        return NextResponse.json({ error: `A rule for "${parsed.rule.term}" already exists` }, { status: 400 })
+      }
+    }
+
+    const synonym = await prisma.searchSynonym.update({ where: { id: data.id }, data: parsed.rule })
+
+    const details = getChangeDetails(oldSynonym as Record<string, unknown>, synonym as Record<string, unknown>, ["term", "synonyms", "redirectUrl"])
+    logAuditAction({ userId: session.user.id, action: "edit", resource: "search", recordId: synonym.id, recordTitle: synonym.term, details }).catch(() => {})
+
+    return NextResponse.json(synonym)
+  } catch (error) {
+    console.error("Error updating search synonym:", error instanceof Error ? error.message : "Unknown")
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+  }
+}
+
+export async function DELETE(request: NextRequest) {
+  try {
+    const { session, error } = await requirePermissionApi("products", "edit")
+    if (error) return error
+
+    const id = request.nextUrl.searchParams.get("id")
+    if (!id) {
+      return NextResponse.json({ error: "Rule ID required" }, { status: 400 })
+    }
+
+    const synonym = await prisma.searchSynonym.findUnique({ where: { id } })
+    if (!synonym) {
+      return NextResponse.json({ error: "Rule not found" }, { status: 404 })
+    }
+
+    await prisma.searchSynonym.delete({ where: { id } })
+
+    logAuditAction({ userId: session.user.id, action: "delete", resource: "search", recordId: id, recordTitle: synonym.term }).catch(() => {})
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error("Error deleting search synonym:", error instanceof Error ? error.message : "Unknown")
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+  }
+}
@@ -1,6 +1,12 @@
 import { NextRequest, NextResponse } from "next/server"
 import prisma from "@/lib/prisma"
 import { requirePermissionApi } from "@/lib/admin"
+import { parseNumberFormats } from "@/lib/numberFormat"
+import { parseQuotePricing } from "@/lib/quotePricing"
+import { parseQuoteSla } from "@/lib/quoteSla"
+import { parseDownloadLimits } from "@/lib/downloadLimits"
+import { syncAllColorAvailability } from "@/lib/filament"
+import { invalidateFeeds } from "@/lib/productFeeds"
 
 export async function GET() {
   try {
@@ -27,6 +33,18 @@ export async function GET() {
       welcomePopupLink:       s?.welcomePopupLink       ?? "",
       bulkDiscountEnabled:    s?.bulkDiscountEnabled    ?? false,
       bulkDiscountTiers:      s?.bulkDiscountTiers      ?? "[]",
+      pricesIncludeVat:       s?.pricesIncludeVat       ?? true,
+      ossEnabled:             s?.ossEnabled             ?? true,
+      invoiceSellerName:      s?.invoiceSellerName      ?? "",
+      invoiceSellerAddress:   s?.invoiceSellerAddress   ?? "",
+      invoiceSellerCompanyId: s?.invoiceSellerCompanyId ?? "",
+      invoiceSellerVatNumber: s?.invoiceSellerVatNumber ?? "",
+      invoiceSellerEmail:     s?.invoiceSellerEmail     ?? "",
+      numberFormats:          JSON.stringify(parseNumberFormats(s?.numberFormats)),
+      quotePricing:           JSON.stringify(parseQuotePricing(s?.quotePricing)),
+      quoteSla:               JSON.stringify(parseQuoteSla(s?.quoteSla)),
+      filamentAutoSoldOut:    s?.filamentAutoSoldOut    ?? false,
+      downloadLimits:         JSON.stringify(parseDownloadLimits(s?.downloadLimits)),
     })
   } catch (error) {
     const msg = error instanceof Error ? error.message : String(error)
@@ -47,6 +65,9 @@ export async function PUT(request: NextRequest) {
       welcomePopupMessageBg, welcomePopupMessageEn, welcomePopupMessageEs,
       welcomePopupImage, welcomePopupCouponCode, welcomePopupDelay, welcomePopupLink,
       bulkDiscountEnabled, bulkDiscountTiers,
+      pricesIncludeVat, ossEnabled,
+      invoiceSellerName, invoiceSellerAddress, invoiceSellerCompanyId, invoiceSellerVatNumber, invoiceSellerEmail,
+      numberFormats, quotePricing, quoteSla, filamentAutoSoldOut, downloadLimits,
     } = body
     const data = {
       freeShippingEnabled: Boolean(freeShippingEnabled),
@@ -87,6 +108,18 @@ export async function PUT(request: NextRequest) {
           )
         } catch { return "[]" }
       })(),
+      pricesIncludeVat: pricesIncludeVat !== false,
+      ossEnabled: ossEnabled !== false,
+      invoiceSellerName:      String(invoiceSellerName      ?? "").trim(),
+      invoiceSellerAddress:   String(invoiceSellerAddress   ?? "").trim(),
+      invoiceSellerCompanyId: String(invoiceSellerCompanyId ?? "").trim(),
+      invoiceSellerVatNumber: String(invoiceSellerVatNumber ?? "").toUpperCase().replace(/\s/g, ""),
+      invoiceSellerEmail:     String(invoiceSellerEmail     ?? "").trim(),
+      numberFormats:          JSON.stringify(parseNumberFormats(String(numberFormats ?? "{}"))),
+      quotePricing:           JSON.stringify(parseQuotePricing(String(quotePricing ?? "{}"))),
+      quoteSla:               JSON.stringify(parseQuoteSla(String(quoteSla ?? "{}"))),
+      filamentAutoSoldOut:    Boolean(filamentAutoSoldOut),
+      downloadLimits:         JSON.stringify(parseDownloadLimits(String(downloadLimits ?? "{}"))),
     }
 
     const existing = await prisma.siteSettings.findUnique({ where: { id: "singleton" } })
@@ -94,6 +127,13 @@ export async function PUT(request: NextRequest) {
       ? await prisma.siteSettings.update({ where: { id: "singleton" }, data })
       : await prisma.siteSettings.create({ data: { id: "singleton", ...data } })
 
+    // Switching auto sold-out applies to (or releases) colors that have already run out
+    if (s.filamentAutoSoldOut !== (existing?.filamentAutoSoldOut ?? false)) {
+      await syncAllColorAvailability()
+    }
+    // Feed prices include VAT the way the catalog's settings say
+    if (s.pricesIncludeVat !== (existing?.pricesIncludeVat ?? true)) invalidateFeeds()
+
     return NextResponse.json({
       freeShippingEnabled: s.freeShippingEnabled,
       freeShippingThreshold: s.freeShippingThreshold ?? null,
@@ -114,6 +154,18 @@ export async function PUT(request: NextRequest) {
       welcomePopupLink:       s.welcomePopupLink,
       bulkDiscountEnabled:    s.bulkDiscountEnabled,
       bulkDiscountTiers:      s.bulkDiscountTiers,
+      pricesIncludeVat:       s.pricesIncludeVat,
+      ossEnabled:             s.ossEnabled,
+      invoiceSellerName:      s.invoiceSellerName,
+      invoiceSellerAddress:   s.invoiceSellerAddress,
+      invoiceSellerCompanyId: s.invoiceSellerCompanyId,
+      invoiceSellerVatNumber: s.invoiceSellerVatNumber,
+      invoiceSellerEmail:     s.invoiceSellerEmail,
+      numberFormats:          s.numberFormats,
+      quotePricing:           s.quotePricing,
+      quoteSla:               s.quoteSla,
+      filamentAutoSoldOut:    s.filamentAutoSoldOut,
+      downloadLimits:         s.downloadLimits,
     })
   } catch (error) {
     const msg = error instanceof Error ? error.message : String(error)
@@ -0,0 +1,232 @@
+import { NextRequest, NextResponse } from "next/server"
+import prisma from "@/lib/prisma"
+import { requirePermissionApi } from "@/lib/admin"
+import { logAuditAction, getChangeDetails } from "@/lib/auditLog"
+import { isShippingCountry } from "@/lib/countries"
+
+interface MethodInput {
+  id?: string
+  nameBg?: string
+  nameEn?: string
+  nameEs?: string
+  baseRate?: string | number
+  perKgRate?: string | number
+  freeShippingThreshold?: string | number | null
+  minOrderTotal?: string | number | null
+  maxWeightGrams?: string | number | null
+  estimatedDays?: string | null
+  active?: boolean
+}
+
+function parseAmount(raw: unknown): number | null {
+  if (raw === null || raw === undefined || raw === "") return null
+  const n = parseFloat(String(raw))
+  return isNaN(n) || n < 0 ? null : Math.round(n * 100) / 100
+}
+
+function parseGrams(raw: unknown): number | null {
+  if (raw === null || raw === undefined || raw === "") return null
+  const n = parseInt(String(raw))
+  return isNaN(n) || n <= 0 ? null : n
+}
+
+function parseCountries(raw: unknown): string[] {
+  if (!Array.isArray(raw)) return []
+  return [...new Set(raw.map((c) => String(c).toUpperCase()).filter(isShippingCountry))]
+}
+
+function methodData(m: MethodInput, order: number) {
+  return {
+    nameBg: m.nameBg?.trim() || m.nameEn?.trim() || "",
+    nameEn: m.nameEn?.trim() || "",
+    nameEs: m.nameEs?.trim() || m.nameEn?.trim() || "",
+    baseRate: parseAmount(m.baseRate) ?? 0,
+    perKgRate: parseAmount(m.perKgRate) ?? 0,
+    freeShippingThreshold: parseAmount(m.freeShippingThreshold),
+    minOrderTotal: parseAmount(m.minOrderTotal),
+    maxWeightGrams: parseGrams(m.maxWeightGrams),
+    estimatedDays: m.estimatedDays?.trim() || null,
+    active: m.active ?? true,
+    order,
+  }
+}
+
+function validateMethods(methods: unknown): string | null {
+  if (!Array.isArray(methods)) return null
+  for (const m of methods as MethodInput[]) {
+    if (!m.nameEn?.trim()) return "Every shipping method needs an English name"
+    if (parseAmount(m.baseRate) === null) return `Shipping method "${m.nameEn}" needs a valid base rate`
+  }
+  return null
+}
+
+export async function GET() {
+  try {
+    const { error } = await requirePermissionApi("settings", "view")
+    if (error) return error
+
+    const zones = await prisma.shippingZone.findMany({
+      orderBy: [{ order: "asc" }, { name: "asc" }],
+      include: { methods: { orderBy: { order: "asc" } } },
+    })
+
+    return NextResponse.json(zones)
+  } catch (error) {
+    console.error("Error fetching shipping zones:", error instanceof Error ? error.message : "Unknown")
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const { session, error } = await requirePermissionApi("settings", "edit")
+    if (error) return error
+
+    const data = await request.json()
+
+    if (!data.name?.trim()) {
+      return NextResponse.json({ error: "Zone name is required" }, { status: 400 })
+    }
+    const methodError = validateMethods(data.methods)
+    if (methodError) {
+      return NextResponse.json({ error: methodError }, { status: 400 })
+    }
+
+    const zone = await prisma.shippingZone.create({
+      data: {
+        name: data.name.trim(),
+        countries: parseCountries(data.countries),
+        active: data.active ?? true,
+        order: data.order ?? 0,
+      },
+    })
+
+    if (Array.isArray(data.methods)) {
+      for (const [idx, m] of (data.methods as MethodInput[]).entries()) {
+        await prisma.shippingMethod.create({ data: { zoneId: zone.id, ...methodData(m, idx) } })
+      }
+    }
+
+    const created = await prisma.shippingZone.findUnique({
+      where: { id: zone.id },
+      include: { methods: { orderBy: { order: "asc" } } },
+    })
+
+    logAuditAction({ userId: session.user.id, action: "create", resource: "shipping", recordId: zone.id, recordTitle: zone.name }).catch(() => {})
+
+    return NextResponse.json(created, { status: 201 })
+  } catch (error) {
+    console.error("Error creating shipping zone:", error instanceof Error ? error.message : "Unknown")
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+  }
+}
+
+export async function PUT(request: NextRequest) {
+  try {
+    const { session, error } = await requirePermissionApi("settings", "edit")
+    if (error) return error
+
+    const data = await request.json()
+
+    if (!data.id) {
+      return NextResponse.json({ error: "Zone ID required" }, { status: 400 })
+    }
+
+    const oldZone = await prisma.shippingZone.findUnique({ where: { id: data.id }, include: { methods: true } })
+    if (!oldZone) {
+      return NextResponse.json({ error: "Shipping zone not found" }, { status: 404 })
+    }
+    const methodError = validateMethods(data.methods)
+    if (methodError) {
+      return NextResponse.json({ error: methodError }, { status: 400 })
+    }
+
+    const zone = await prisma.shippingZone.update({
+      where: { id: data.id },
+      data: {
+        name: data.name?.trim() || oldZone.name,
+        countries: data.countries !== undefined ? parseCountries(data.countries) : oldZone.countries,
+        active: data.active ?? oldZone.active,
+        order: data.order ?? oldZone.order,
+      },
+    })
+
+    // Update methods in place — ids are referenced by open checkout sessions
+    if (Array.isArray(data.methods)) {
+      const methods = data.methods as MethodInput[]
+      const keepIds = new Set(methods.map((m) => m.id).filter(Boolean))
+      const removed = oldZone.methods.filter((m) => !keepIds.has(m.id)).map((m) => m.id)
+      if (removed.length > 0) {
+        await prisma.shippingMethod.deleteMany({ where: { id: { in: removed } } })
+      }
+      for (const [idx, m] of methods.entries()) {
+        if (m.id && oldZone.methods.some((old) => old.id === m.id)) {
+          await prisma.shippingMethod.update({ where: { id: m.id }, data: methodData(m, idx) })
+        } else {
+          await prisma.shippingMethod.create({ data: { zoneId: zone.id, ...methodData(m, idx) } })
+        }
+      }
+    }
+
+    const updated = await prisma.shippingZone.findUnique({
+      where: { id: zone.id },
+      include: { methods: { orderBy: { order: "asc" } } },
+    })
+
+    const fields = ["name", "countries", "active", "order"]
+    const details = getChangeDetails(oldZone as Record<string, unknown>, zone as Record<string, unknown>, fields)
+    logAuditAction({ userId: session.user.id, action: "edit", resource: "shipping", recordId: zone.id, recordTitle: zone.name, details }).catch(() => {})
+
+    return NextResponse.json(updated)
+  } catch (error) {
+    console.error("Error updating shipping zone:", error instanceof Error ? error.message : "Unknown")
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+  }
+}
+
+export async function PATCH(request: NextRequest) {
+  try {
+    const { error } = await requirePermissionApi("settings", "edit")
+    if (error) return error
+
+    const { items } = await request.json()
+    if (!Array.isArray(items)) {
+      return NextResponse.json({ error: "Items array required" }, { status: 400 })
+    }
+
+    for (const item of items) {
+      await prisma.shippingZone.update({ where: { id: item.id }, data: { order: item.order } })
+    }
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error("Error reordering shipping zones:", error instanceof Error ? error.message : "Unknown")
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+  }
+}
+
+export async function DELETE(request: NextRequest) {
+  try {
+    const { session, error } = await requirePermissionApi("settings", "edit")
+    if (error) return error
+
+    const id = request.nextUrl.searchParams.get("id")
+    if (!id) {
+      return NextResponse.json({ error: "Zone ID required" }, { status: 400 })
+    }
+
+    const zone = await prisma.shippingZone.findUnique({ where: { id } })
+    if (!zone) {
+      return NextResponse.json({ error: "Shipping zone not found" }, { status: 404 })
+    }
+
+    await prisma.shippingZone.delete({ where: { id } })
+
+    logAuditAction({ userId: session.user.id, action: "delete", resource: "shipping", recordId: id, recordTitle: zone.name }).catch(() => {})
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error("Error deleting shipping zone:", error instanceof Error ? error.message : "Unknown")
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+  }
+}
@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from "next/server"
+import prisma from "@/lib/prisma"
+import { requirePermissionApi } from "@/lib/admin"
+import { logAuditAction } from "@/lib/auditLog"
+import { processStripeEvent } from "@/lib/stripeEvents"
+
+/** Run a stored Stripe event through its handler again — handlers skip work already done */
+export async function POST(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { session, error } = await requirePermissionApi("orders", "edit")
+    if (error) return error
+
+    const { id } = await params
+    const event = await prisma.stripeEvent.findUnique({ where: { id }, select: { id: true, type: true } })
+    if (!event) {
+      return NextResponse.json({ error: "Event not found" }, { status: 404 })
+    }
+
+    const result = await processStripeEvent(id, { force: true })
+    if (!result) {
+      return NextResponse.json({ error: "Event is already being processed" }, { status: 409 })
+    }
+
+    logAuditAction({
+      userId: session.user.id,
+      action: "edit",
+      resource: "orders",
+      recordId: id,
+      recordTitle: `Stripe event ${event.type}`,
+      details: JSON.stringify({ reprocess: { from: null, to: result.status } }),
+    }).catch(() => {})
+
+    return NextResponse.json(result)
+  } catch (error) {
+    console.error("Error reprocessing Stripe event:", error instanceof Error ? error.message : "Unknown")
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Internal server error" },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from "next/server"
+import prisma from "@/lib/prisma"
+import { requirePermissionApi } from "@/lib/admin"
+
+export async function GET(request: NextRequest) {
+  try {
+    const { error } = await requirePermissionApi("orders", "view")
+    if (error) return error
+
+    const searchParams = request.nextUrl.searchParams
+    const status = searchParams.get("status")
+    const type = searchParams.get("type")
+    const search = searchParams.get("search")
+    const page = parseInt(searchParams.get("page") || "1")
+    const limit = parseInt(searchParams.get("limit") || "50")
+
+    const where: Record<string, unknown> = {}
+
+    if (status) where.status = status
+    if (type) where.type = type
+    if (search) where.id = { contains: search }
+
+    // The payload is only needed when an admin opens a single event
+    const [events, total, types] = await Promise.all([
+      prisma.stripeEvent.findMany({
+        where,
+        select: {
+          id: true,
+          type: true,
+          status: true,
+          error: true,
+          attempts: true,
+          livemode: true,
+          createdAt: true,
+          processedAt: true,
+          updatedAt: true,
+        },
+        orderBy: { createdAt: "desc" },
+        skip: (page - 1) * limit,
+        take: limit,
+      }),
+      prisma.stripeEvent.count({ where }),
+      prisma.stripeEvent.findMany({ select: { type: true }, distinct: ["type"], orderBy: { type: "asc" } }),
+    ])
+
+    return NextResponse.json({
+      events,
+      types: types.map((t) => t.type),
+      total,
+      page,
+      limit,
+      totalPages: Math.ceil(total / limit),
+    })
+  } catch (error) {
+    console.error("Error fetching Stripe events:", error instanceof Error ? error.message : "Unknown")
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Internal server error" },
+      { status: 500 }
+    )
+  }
+}
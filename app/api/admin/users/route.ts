@@ -57,8 +57,13 @@ export async function GET(request: NextRequest) {
           quoteNumber: true,
           status: true,
           message: true,
-          fileName: true,
-          fileUrl: true,
+          files: {
+            orderBy: [{ order: "asc" }, { createdAt: "asc" }],
+            select: {
+              id: true,
+              revisions: { orderBy: { version: "desc" }, take: 1, select: { version: true, fileName: true, fileUrl: true, thumbnailUrl: true } },
+            },
+          },
           quotedPrice: true,
           adminNotes: true,
           userResponse: true,
@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from "next/server"
+import { auth } from "@/auth"
+import { rateLimit, getClientIp } from "@/lib/rateLimit"
+import { priceCart } from "@/lib/pricing"
+import { countryFromHeaders } from "@/lib/vat"
+
+/**
+ * Itemised price quote for the cart drawer — unit, sale and bulk prices, the coupon split
+ * per line, shipping, VAT and totals, from the same engine /api/checkout/cart charges with.
+ * Coupons are referenced by the id /api/cart/coupon/validate returned, so this endpoint
+ * cannot be used to guess codes.
+ */
+export async function POST(request: NextRequest) {
+  const { success } = await rateLimit(`cart-quote:${getClientIp(request)}`, { limit: 60, windowMs: 60 * 1000 })
+  if (!success) {
+    return NextResponse.json({ error: "Too many requests" }, { status: 429 })
+  }
+
+  try {
+    const { items, couponId, country, vatNumber, shippingMethodId } = await request.json()
+
+    if (!Array.isArray(items)) {
+      return NextResponse.json({ error: "Invalid cart" }, { status: 400 })
+    }
+
+    const session = await auth()
+    const priced = await priceCart({
+      items,
+      couponId: typeof couponId === "string" ? couponId : null,
+      email: session?.user?.email,
+      vatNumber: typeof vatNumber === "string" ? vatNumber : null,
+      country: typeof country === "string" ? country : null,
+      fallbackCountry: countryFromHeaders(request.headers),
+      shippingMethodId: typeof shippingMethodId === "string" ? shippingMethodId : null,
+    })
+    if (priced.error !== undefined) {
+      return NextResponse.json({ error: priced.error }, { status: priced.status })
+    }
+
+    return NextResponse.json(priced.quote)
+  } catch (error) {
+    console.error("Cart quote error:", error instanceof Error ? error.message : "Unknown")
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+  }
+}
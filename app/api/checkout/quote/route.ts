@@ -0,0 +1,105 @@
+import { NextRequest, NextResponse } from "next/server"
+import { getStripe } from "@/lib/stripe"
+import { auth } from "@/auth"
+import { getLocale } from "next-intl/server"
+import prisma from "@/lib/prisma"
+import { priceQuotePayment, quotePaymentError } from "@/lib/quotePayment"
+import { parseShippingAddress, addressToMetadata } from "@/lib/shipping"
+import { countryFromHeaders, taxContextToMetadata } from "@/lib/vat"
+
+/** Stripe Checkout for an accepted quote — the agreed price plus shipping, taxed like a cart */
+export async function POST(request: NextRequest) {
+  const session = await auth()
+  if (!session?.user?.id || !session.user.email) {
+    return NextResponse.json({ error: "Please log in to checkout" }, { status: 401 })
+  }
+
+  try {
+    const { quoteId, shippingAddress: rawAddress, shippingMethodId, vatNumber } = await request.json()
+
+    if (!quoteId || typeof quoteId !== "string") {
+      return NextResponse.json({ error: "Quote ID required" }, { status: 400 })
+    }
+
+    // userId preferred; email fallback for legacy quotes without userId
+    const quote = await prisma.quoteRequest.findFirst({
+      where: { id: quoteId, OR: [{ userId: session.user.id }, { email: session.user.email }] },
+      select: { id: true, quoteNumber: true, status: true, quotedPrice: true, orderId: true, estimate: true },
+    })
+    if (!quote) {
+      return NextResponse.json({ error: "Quote not found" }, { status: 404 })
+    }
+    const paymentError = quotePaymentError(quote)
+    if (paymentError) {
+      return NextResponse.json({ error: paymentError }, { status: 400 })
+    }
+
+    const parsedAddress = parseShippingAddress(rawAddress)
+    if (parsedAddress.error !== undefined) {
+      return NextResponse.json({ error: parsedAddress.error }, { status: 400 })
+    }
+    const shippingAddress = parsedAddress.address
+
+    const payment = await priceQuotePayment(quote, {
+      country: shippingAddress.country,
+      vatNumber: typeof vatNumber === "string" ? vatNumber : null,
+      fallbackCountry: countryFromHeaders(request.headers),
+      shippingMethodId: typeof shippingMethodId === "string" ? shippingMethodId : null,
+    })
+    if (payment.tax.vatNumberError) {
+      return NextResponse.json({ error: payment.tax.vatNumberError }, { status: 400 })
+    }
+    const shippingOption = payment.shipping.selected
+    if (!shippingOption) {
+      return NextResponse.json({ error: "Selected shipping method is not available for this address" }, { status: 400 })
+    }
+
+    // Get base URL — validate origin against whitelist to prevent open redirects
+    const ALLOWED_ORIGINS = ["https://www.digital4d.eu", "https://digital4d.eu", "http://localhost:3000"]
+    const origin = request.headers.get("origin") || ""
+    const baseUrl = process.env.NEXT_PUBLIC_BASE_URL
+      || (ALLOWED_ORIGINS.includes(origin) ? origin : "https://www.digital4d.eu")
+
+    const stripeCurrency = payment.currency.toLowerCase()
+    const stripeSession = await getStripe().checkout.sessions.create({
+      payment_method_types: ["card"],
+      line_items: [{
+        price_data: {
+          currency: stripeCurrency,
+          product_data: { name: `Custom print ${quote.quoteNumber}` },
+          unit_amount: Math.round(payment.price * 100),
+        },
+        quantity: 1,
+      }],
+      mode: "payment",
+      shipping_options: [{
+        shipping_rate_data: {
+          type: "fixed_amount" as const,
+          fixed_amount: { amount: Math.round(payment.shippingFee * 100), currency: stripeCurrency },
+          display_name: shippingOption.nameEn,
+        },
+      }],
+      success_url: `${baseUrl}/checkout/success?session_id={CHECKOUT_SESSION_ID}`,
+      cancel_url: `${baseUrl}/my-orders?quoteId=${quote.id}`,
+      customer_email: session.user.email,
+      metadata: {
+        type: "quote",
+        quoteId: quote.id,
+        userId: session.user.id,
+        locale: await getLocale(),
+        vatRate: String(payment.vatRate),
+        shippingMethodId: shippingOption.id,
+        ...addressToMetadata(shippingAddress),
+        ...taxContextToMetadata(payment.tax),
+      },
+    })
+
+    return NextResponse.json({ sessionId: stripeSession.id, url: stripeSession.url })
+  } catch (error) {
+    console.error("Quote checkout error:", error instanceof Error ? error.message : "Unknown")
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Internal server error" },
+      { status: 500 }
+    )
+  }
+}
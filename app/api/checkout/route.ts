@@ -1,15 +1,22 @@
 import { NextRequest, NextResponse } from "next/server"
-import Stripe from "stripe"
-import prisma from "@/lib/prisma"
+import { getStripe } from "@/lib/stripe"
 import { auth } from "@/auth"
-import { isProductEligibleForCoupon } from "@/lib/couponHelpers"
-
-function getStripe() {
-  const key = process.env.STRIPE_SECRET_KEY
-  if (!key) {
-    throw new Error("STRIPE_SECRET_KEY is not configured")
-  }
-  return new Stripe(key)
+import { getLocale } from "next-intl/server"
+import { priceCart, toStripeLineItems, createStripeDiscount, type CouponError } from "@/lib/pricing"
+import { reserveStock, attachReservationsToSession, releaseReservations, RESERVATION_MINUTES } from "@/lib/stock"
+import { countryFromHeaders, taxContextToMetadata } from "@/lib/vat"
+
+const COUPON_ERRORS: Record<CouponError, string> = {
+  NOT_FOUND: "Invalid coupon code",
+  INACTIVE: "Coupon is no longer active",
+  NOT_STARTED: "Coupon is not yet valid",
+  EXPIRED: "Coupon has expired",
+  MAX_USES: "Coupon has reached its usage limit",
+  USER_LIMIT: "You have already used this coupon",
+  WRONG_PRODUCT: "Coupon is not valid for this product",
+  ON_SALE: "Coupon cannot be used on sale products",
+  MIN_PURCHASE: "Minimum purchase amount not met",
+  CURRENCY_MISMATCH: "Coupon currency does not match product currency",
 }
 
 export async function POST(request: NextRequest) {
@@ -19,194 +26,37 @@ export async function POST(request: NextRequest) {
   }
 
   try {
-    const { productId, couponCode, quantity: rawQuantity, packageId, variantId } = await request.json()
-    const quantity = Math.max(1, Math.min(99, Math.floor(Number(rawQuantity) || 1)))
+    const { productId, couponCode, quantity, packageId, variantId, vatNumber } = await request.json()
 
     if (!productId) {
       return NextResponse.json({ error: "Product ID required" }, { status: 400 })
     }
 
-    // Fetch the product (include category + brandId for coupon eligibility)
-    const product = await prisma.product.findUnique({
-      where: { id: productId }
+    // Digital downloads have no delivery address — the VAT destination is the business VAT
+    // number's country or the visitor's location
+    const priced = await priceCart({
+      items: [{ productId, packageId, variantId, quantity }],
+      couponCode: typeof couponCode === "string" ? couponCode : null,
+      email: authSession.user.email,
+      vatNumber: typeof vatNumber === "string" ? vatNumber : null,
+      fallbackCountry: countryFromHeaders(request.headers),
     })
-
-    if (!product) {
-      return NextResponse.json({ error: "Product not found" }, { status: 404 })
-    }
-
-    if (!product.published) {
-      return NextResponse.json({ error: "Product is not available" }, { status: 400 })
-    }
-
-    if (!["in_stock", "pre_order"].includes(product.status)) {
-      return NextResponse.json({ error: "Product is not available for purchase" }, { status: 400 })
-    }
-
-    if (product.fileType === "service" || product.priceType !== "fixed") {
-      return NextResponse.json({ error: "Product cannot be purchased directly" }, { status: 400 })
-    }
-
-    // Determine base price — package overrides product price if provided
-    let priceAmount: number
-    if (packageId) {
-      const pkg = await prisma.productPackage.findFirst({
-        where: { id: packageId, productId: product.id },
-      })
-      if (!pkg) return NextResponse.json({ error: "Invalid package" }, { status: 400 })
-      if (!["in_stock", "pre_order"].includes(pkg.status))
-        return NextResponse.json({ error: "Package not available" }, { status: 400 })
-      // Validate SIZE × COLOR combination if variantId provided
-      if (variantId) {
-        const packageVariant = await prisma.productPackageVariant.findUnique({
-          where: { packageId_variantId: { packageId, variantId } },
-        })
-        if (packageVariant && !["in_stock", "pre_order"].includes(packageVariant.status)) {
-          return NextResponse.json({ error: "This size and color combination is not available" }, { status: 400 })
-        }
-      }
-      priceAmount = parseFloat((pkg.salePrice ?? pkg.price).toString())
-    } else if (product.onSale && product.salePrice) {
-      priceAmount = parseFloat(product.salePrice.toString())
-    } else if (product.price) {
-      priceAmount = parseFloat(product.price.toString())
-    } else {
-      return NextResponse.json({ error: "Product has no price" }, { status: 400 })
+    if (priced.error !== undefined) {
+      return NextResponse.json({ error: priced.error }, { status: priced.status })
     }
+    const { quote } = priced
+    const line = quote.lines[0]
 
-    // Capture original price BEFORE bulk discount for coupon metadata
-    let originalPrice = priceAmount
-
-    // Apply bulk discount server-side (effective price → bulk discount → coupon)
-    // Product-level tiers override global tiers when non-empty
-    if (quantity > 1) {
-      const { getActiveTier: getBulkTier, applyBulkDiscount: applyBulk, parseTiers: parseBulkTiers } = await import("@/lib/bulkDiscount")
-      const productTiers = parseBulkTiers((product as { bulkDiscountTiers?: string }).bulkDiscountTiers || "")
-      const productTierExpiry = (product as { bulkDiscountExpiresAt?: Date | null }).bulkDiscountExpiresAt
-      const productTiersActive = productTiers.length > 0 &&
-        (!productTierExpiry || new Date(productTierExpiry) > new Date())
-      if (productTiersActive) {
-        const tier = getBulkTier(quantity, productTiers)
-        if (tier) {
-          priceAmount = applyBulk(priceAmount, tier)
-          priceAmount = Math.max(priceAmount, 0.50)
-        }
-      } else {
-        const bulkSettings = await prisma.siteSettings.findUnique({ where: { id: "singleton" } })
-        if (bulkSettings?.bulkDiscountEnabled) {
-          const tiers = parseBulkTiers(bulkSettings.bulkDiscountTiers)
-          const tier = getBulkTier(quantity, tiers)
-          if (tier) {
-            priceAmount = applyBulk(priceAmount, tier)
-            priceAmount = Math.max(priceAmount, 0.50)
-          }
-        }
-      }
+    // Physical products need a delivery address and shipping method — collected by the cart checkout
+    if (quote.shipping.required) {
+      return NextResponse.json({ error: "Please check out physical products through the cart" }, { status: 400 })
     }
-
-    // Handle coupon if provided
-    let couponId: string | null = null
-    let discountAmount = 0
-
-    if (couponCode) {
-      const coupon = await prisma.coupon.findFirst({
-        where: { code: { equals: couponCode.toUpperCase().trim(), mode: "insensitive" } },
-      })
-
-      if (!coupon) {
-        return NextResponse.json({ error: "Invalid coupon code" }, { status: 400 })
-      }
-
-      // Re-validate coupon server-side
-      if (!coupon.active) {
-        return NextResponse.json({ error: "Coupon is no longer active" }, { status: 400 })
-      }
-
-      const now = new Date()
-      if (coupon.startsAt && now < coupon.startsAt) {
-        return NextResponse.json({ error: "Coupon is not yet valid" }, { status: 400 })
-      }
-      if (coupon.expiresAt && now > coupon.expiresAt) {
-        return NextResponse.json({ error: "Coupon has expired" }, { status: 400 })
-      }
-      if (coupon.maxUses !== null && coupon.usedCount >= coupon.maxUses) {
-        return NextResponse.json({ error: "Coupon has reached its usage limit" }, { status: 400 })
-      }
-
-      // Per-user limit
-      const userEmail = authSession.user.email
-      if (userEmail && coupon.perUserLimit > 0) {
-        const userUsages = await prisma.couponUsage.count({
-          where: { couponId: coupon.id, email: userEmail },
-        })
-        if (userUsages >= coupon.perUserLimit) {
-          return NextResponse.json({ error: "You have already used this coupon" }, { status: 400 })
-        }
-      }
-
-      // Product restriction — fast exit for pure productIds restriction
-      if (
-        coupon.productIds.length > 0 &&
-        !(coupon.categoryIds?.length ?? 0) &&
-        !(coupon.brandIds?.length ?? 0) &&
-        !coupon.productIds.includes(productId)
-      ) {
-        return NextResponse.json({ error: "Coupon is not valid for this product" }, { status: 400 })
-      }
-
-      // Category/brand eligibility check
-      if ((coupon.categoryIds?.length ?? 0) > 0 || (coupon.brandIds?.length ?? 0) > 0) {
-        let allCategories: { id: string; slug: string; parentId: string | null }[] = []
-        if ((coupon.categoryIds?.length ?? 0) > 0) {
-          allCategories = await prisma.productCategory.findMany({ select: { id: true, slug: true, parentId: true } })
-        }
-        if (!isProductEligibleForCoupon(
-          productId, product.category, product.brandId,
-          coupon.productIds, coupon.categoryIds ?? [], coupon.brandIds ?? [],
-          allCategories
-        )) {
-          return NextResponse.json({ error: "Coupon is not valid for this product" }, { status: 400 })
-        }
-      }
-
-      // Sale check
-      if (product.onSale && product.salePrice && !coupon.allowOnSale) {
-        return NextResponse.json({ error: "Coupon cannot be used on sale products" }, { status: 400 })
-      }
-
-      // Min purchase check
-      if (coupon.minPurchase && priceAmount < parseFloat(coupon.minPurchase.toString())) {
-        return NextResponse.json({ error: "Minimum purchase amount not met" }, { status: 400 })
-      }
-
-      // Calculate discount
-      if (coupon.type === "percentage") {
-        discountAmount = priceAmount * (parseFloat(coupon.value.toString()) / 100)
-      } else {
-        // Fixed amount
-        if (coupon.currency && coupon.currency !== product.currency) {
-          return NextResponse.json({ error: "Coupon currency does not match product currency" }, { status: 400 })
-        }
-        discountAmount = parseFloat(coupon.value.toString())
-      }
-
-      // Cap discount
-      discountAmount = Math.min(discountAmount, priceAmount - 0.50)
-      discountAmount = Math.max(discountAmount, 0)
-
-      originalPrice = priceAmount
-      priceAmount = Math.max(priceAmount - discountAmount, 0.50)
-      couponId = coupon.id
+    if (quote.tax.vatNumberError) {
+      return NextResponse.json({ error: quote.tax.vatNumberError }, { status: 400 })
     }
-
-    // Convert to cents for Stripe
-    const priceInCents = Math.round(priceAmount * 100)
-
-    // Map currency codes
-    const currencyMap: Record<string, string> = {
-      EUR: "eur",
+    if (quote.couponError) {
+      return NextResponse.json({ error: COUPON_ERRORS[quote.couponError] }, { status: 400 })
     }
-    const currency = currencyMap[product.currency] || "eur"
 
     // Get base URL — validate origin against whitelist to prevent open redirects
     const ALLOWED_ORIGINS = ["https://www.digital4d.eu", "https://digital4d.eu", "http://localhost:3000"]
@@ -214,46 +64,60 @@ export async function POST(request: NextRequest) {
     const baseUrl = process.env.NEXT_PUBLIC_BASE_URL
       || (ALLOWED_ORIGINS.includes(origin) ? origin : "https://www.digital4d.eu")
 
-    // Build product description with discount info
-    let description = product.descEn || undefined
-    if (couponCode && discountAmount > 0) {
-      description = `${description ? description + " | " : ""}Coupon: ${couponCode.toUpperCase()} (-${discountAmount.toFixed(2)} ${product.currency})`
+    // Hold stock-tracked SIZE×COLOR units until the session is paid or expires
+    const expiresAt = new Date(Date.now() + RESERVATION_MINUTES * 60 * 1000)
+    const reservation = await reserveStock(
+      [{ productId: line.productId, packageId: line.packageId, variantId: line.variantId, quantity: line.quantity, name: line.nameEn }],
+      expiresAt
+    )
+    if (reservation.error !== undefined) {
+      return NextResponse.json({ error: reservation.error }, { status: 409 })
     }
 
     // Create Stripe checkout session
     const stripe = getStripe()
-    const session = await stripe.checkout.sessions.create({
-      payment_method_types: ["card"],
-      line_items: [
-        {
-          price_data: {
-            currency,
-            product_data: {
-              name: product.nameEn,
-              description,
-              images: product.image ? [product.image] : undefined,
-            },
-            unit_amount: priceInCents,
-          },
-          quantity,
+    let stripeCouponId: string | null = null
+    let session
+    try {
+      stripeCouponId = await createStripeDiscount(stripe, quote)
+      session = await stripe.checkout.sessions.create({
+        payment_method_types: ["card"],
+        line_items: toStripeLineItems(quote, stripeCouponId !== null),
+        mode: "payment",
+        ...(stripeCouponId ? { discounts: [{ coupon: stripeCouponId }] } : {}),
+        success_url: `${baseUrl}/checkout/success?session_id={CHECKOUT_SESSION_ID}`,
+        cancel_url: `${baseUrl}/checkout/cancel?product=${line.productSlug}`,
+        expires_at: Math.floor(expiresAt.getTime() / 1000),
+        customer_email: authSession.user.email || undefined,
+        metadata: {
+          productId: line.productId,
+          productSlug: line.productSlug,
+          fileType: line.fileType,
+          nameEn: line.nameEn,
+          price: quote.total.toFixed(2),
+          packageId: line.packageId || "",
+          variantId: line.variantId || "",
+          userId: authSession.user.id,
+          locale: await getLocale(),
+          ...taxContextToMetadata(quote.tax),
+          ...(quote.coupon ? {
+            couponId: quote.coupon.id,
+            couponCode: quote.coupon.code,
+            originalPrice: quote.subtotal.toFixed(2),
+            discountAmount: quote.discount.toFixed(2),
+          } : {}),
         },
-      ],
-      mode: "payment",
-      success_url: `${baseUrl}/checkout/success?session_id={CHECKOUT_SESSION_ID}`,
-      cancel_url: `${baseUrl}/checkout/cancel?product=${product.slug}`,
-      customer_email: authSession.user.email || undefined,
-      metadata: {
-        productId: product.id,
-        productSlug: product.slug,
-        fileType: product.fileType || "digital",
-        nameEn: product.nameEn,
-        price: priceAmount.toFixed(2),
-        packageId: packageId || "",
-        variantId: variantId || "",
-        userId: authSession.user.id,
-        ...(couponId ? { couponId, couponCode: couponCode.toUpperCase(), originalPrice: originalPrice.toFixed(2), discountAmount: discountAmount.toFixed(2) } : {}),
-      },
-    })
+      })
+    } catch (sessionError) {
+      // Clean up the single-use Stripe coupon and stock hold if session creation failed
+      if (stripeCouponId) {
+        try { await stripe.coupons.del(stripeCouponId) } catch { /* ignore cleanup errors */ }
+      }
+      await releaseReservations({ ids: reservation.reservationIds }).catch(() => {})
+      throw sessionError
+    }
+
+    await attachReservationsToSession(reservation.reservationIds, session.id)
 
     return NextResponse.json({ sessionId: session.id, url: session.url })
   } catch (error) {
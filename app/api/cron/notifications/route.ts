@@ -1,5 +1,5 @@
 import { NextRequest, NextResponse } from "next/server"
-import { processTemplates, processReminderNotifications } from "@/lib/cronNotifications"
+import { processTemplates, processReminderNotifications, processQuoteFollowUps } from "@/lib/cronNotifications"
 
 /**
  * Vercel Cron endpoint — runs daily at 8 AM UTC.
@@ -34,7 +34,14 @@ export async function GET(request: NextRequest) {
       reminderResult.errors.length > 0 ? `Errors: ${reminderResult.errors.join("; ")}` : ""
     )
 
-    return NextResponse.json({ ...result, reminders: reminderResult }, { status: 200 })
+    // Expire stale quotes and remind customers before theirs expire
+    const quoteResult = await processQuoteFollowUps()
+    console.log(
+      `[Cron Quotes] Expired: ${quoteResult.expired}, Reminded: ${quoteResult.reminded}`,
+      quoteResult.errors.length > 0 ? `Errors: ${quoteResult.errors.join("; ")}` : ""
+    )
+
+    return NextResponse.json({ ...result, reminders: reminderResult, quotes: quoteResult }, { status: 200 })
   } catch (error) {
     console.error("[Cron Notifications] Fatal error:", error instanceof Error ? error.message : "Unknown")
     return NextResponse.json(
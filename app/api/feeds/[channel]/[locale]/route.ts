@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from "next/server"
+import { rateLimit, getClientIp } from "@/lib/rateLimit"
+import { getFeedItems, googleFeedXml, metaFeedCsv, FEED_CHANNELS, type FeedChannel } from "@/lib/productFeeds"
+import { locales, type Locale } from "@/i18n/config"
+
+/**
+ * Product feeds for shopping channels: `/api/feeds/google/<locale>` is a Merchant Center RSS
+ * feed and `/api/feeds/meta/<locale>` a Meta catalog CSV. Both are public so the channels can
+ * fetch them on a schedule.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ channel: string; locale: string }> }
+) {
+  try {
+    // Rate limit: 30 feed downloads per IP per minute
+    const ip = getClientIp(request)
+    const { success } = await rateLimit(`feed:${ip}`, { limit: 30, windowMs: 60_000 })
+    if (!success) {
+      return NextResponse.json({ error: "Too many requests" }, { status: 429 })
+    }
+
+    const { channel, locale } = await params
+    const name = locale.replace(/\.(xml|csv)$/, "") as Locale
+    if (!FEED_CHANNELS.includes(channel as FeedChannel) || !locales.includes(name)) {
+      return NextResponse.json({ error: "Feed not found" }, { status: 404 })
+    }
+
+    const items = await getFeedItems(name)
+    const headers = { "Cache-Control": "public, s-maxage=900, stale-while-revalidate=3600" }
+
+    if (channel === "google") {
+      return new Response(googleFeedXml(items, name), {
+        headers: { ...headers, "Content-Type": "application/xml; charset=utf-8" },
+      })
+    }
+    return new Response(metaFeedCsv(items), {
+      headers: { ...headers, "Content-Type": "text/csv; charset=utf-8" },
+    })
+  } catch (error) {
+    console.error("Product feed error:", error instanceof Error ? error.message : "Unknown")
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+  }
+}
@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from "next/server"
+import { auth } from "@/auth"
+import prisma from "@/lib/prisma"
+import { canAccessAdmin, hasPermissionForUser } from "@/lib/permissions"
+import { ensureInvoicePdf } from "@/lib/invoices"
+
+/**
+ * Download an invoice or credit note PDF.
+ * Open to the customer who placed the order and to staff who can view orders.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await auth()
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { id } = await params
+    const invoice = await prisma.invoice.findUnique({
+      where: { id },
+      select: { id: true, number: true, pdfUrl: true, order: { select: { userId: true } } },
+    })
+    if (!invoice?.number) {
+      return NextResponse.json({ error: "Invoice not found" }, { status: 404 })
+    }
+
+    const isOwner = !!invoice.order?.userId && invoice.order.userId === session.user.id
+    const isStaff = canAccessAdmin(session.user.role) &&
+      await hasPermissionForUser(session.user.id, session.user.role, "orders", "view")
+    if (!isOwner && !isStaff) {
+      return NextResponse.json({ error: "Invoice not found" }, { status: 404 })
+    }
+
+    // Rendered on first download if issuing stopped before the upload
+    const pdfUrl = invoice.pdfUrl ?? await ensureInvoicePdf(invoice.id)
+    if (!pdfUrl) {
+      return NextResponse.json({ error: "Invoice not found" }, { status: 404 })
+    }
+
+    return NextResponse.redirect(new URL(pdfUrl, request.url))
+  } catch (error) {
+    console.error("Error downloading invoice:", error instanceof Error ? error.message : "Unknown")
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+  }
+}
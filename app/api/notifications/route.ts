@@ -77,7 +77,7 @@ export async function GET(request: NextRequest) {
     // Build unified notifications list
     const unified: Array<{
       id: string
-      type: "quote_offer" | "admin_message" | "coupon" | "wishlist_price_drop" | "wishlist_coupon" | "stock_available" | "auto_birthday" | "auto_christmas" | "auto_new_year" | "auto_easter" | "auto_custom" | "coupon_reminder"
+      type: "quote_offer" | "admin_message" | "coupon" | "wishlist_price_drop" | "wishlist_coupon" | "stock_available" | "auto_birthday" | "auto_christmas" | "auto_new_year" | "auto_easter" | "auto_custom" | "coupon_reminder" | "quote_reminder" | "low_stock"
       title: string
       message: string
       link: string | null
@@ -167,7 +167,7 @@ export async function GET(request: NextRequest) {
 
       unified.push({
         id: n.id,
-        type: n.type as "quote_offer" | "admin_message" | "coupon" | "wishlist_price_drop" | "wishlist_coupon" | "auto_birthday" | "auto_christmas" | "auto_new_year" | "auto_easter" | "auto_custom" | "coupon_reminder",
+        type: n.type as "quote_offer" | "admin_message" | "coupon" | "wishlist_price_drop" | "wishlist_coupon" | "auto_birthday" | "auto_christmas" | "auto_new_year" | "auto_easter" | "auto_custom" | "coupon_reminder" | "quote_reminder" | "low_stock",
         title: n.title,
         message: n.message,
         link: n.link,
@@ -0,0 +1,75 @@
+import { NextRequest, NextResponse } from "next/server"
+import prisma from "@/lib/prisma"
+import { rateLimit, getClientIp } from "@/lib/rateLimit"
+import { normalizeAccessCode } from "@/lib/orders"
+
+/**
+ * Order status for guests — the order number and the access code shown after checkout must
+ * both match (numbers are sequential, so the number alone proves nothing).
+ * Mismatches get the same 404 so the endpoint cannot confirm which part was wrong.
+ */
+export async function POST(request: NextRequest) {
+  const { success } = await rateLimit(`order-lookup:${getClientIp(request)}`, { limit: 10, windowMs: 10 * 60 * 1000 })
+  if (!success) {
+    return NextResponse.json({ error: "Too many requests" }, { status: 429 })
+  }
+
+  try {
+    const { orderNumber: rawOrderNumber, accessCode: rawAccessCode } = await request.json()
+    const orderNumber = typeof rawOrderNumber === "string" ? rawOrderNumber.trim().toUpperCase() : ""
+    const accessCode = normalizeAccessCode(rawAccessCode)
+    if (!orderNumber || !accessCode) {
+      return NextResponse.json({ error: "Order number and access code are required" }, { status: 400 })
+    }
+
+    const order = await prisma.order.findFirst({
+      where: { orderNumber, accessCode },
+      select: {
+        orderNumber: true,
+        status: true,
+        subtotal: true,
+        discountAmount: true,
+        total: true,
+        currency: true,
+        shippingMethodName: true,
+        shippingFee: true,
+        vatAmount: true,
+        reverseCharge: true,
+        refundedAmount: true,
+        createdAt: true,
+        items: {
+          orderBy: { createdAt: "asc" },
+          select: {
+            id: true,
+            nameBg: true,
+            nameEn: true,
+            nameEs: true,
+            packageLabel: true,
+            colorNameBg: true,
+            colorNameEn: true,
+            colorNameEs: true,
+            colorHex: true,
+            fileType: true,
+            quantity: true,
+            unitPrice: true,
+            lineTotal: true,
+            refundedQuantity: true,
+          },
+        },
+        refunds: {
+          where: { status: { not: "failed" } },
+          orderBy: { createdAt: "asc" },
+          select: { id: true, amount: true, status: true, createdAt: true },
+        },
+      },
+    })
+    if (!order) {
+      return NextResponse.json({ error: "Order not found" }, { status: 404 })
+    }
+
+    return NextResponse.json(order)
+  } catch (error) {
+    console.error("Order lookup error:", error instanceof Error ? error.message : "Unknown")
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+  }
+}
@@ -132,6 +132,7 @@ export async function GET(request: NextRequest) {
             ["in_stock", "pre_order"].includes(v.status)
           )?.image ||
           p.image ||
+          p.fileThumbnail ||
           null,
         price: (p.price ?? 0).toString(),
         salePrice: p.salePrice?.toString() ?? null,
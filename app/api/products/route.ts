@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from "next/server"
+import { getLocale } from "next-intl/server"
+import { rateLimit, getClientIp } from "@/lib/rateLimit"
+import { parseCatalogQuery, CATALOG_PAGE_SIZE, CATALOG_MAX_PAGE_SIZE } from "@/lib/catalog"
+import { getCatalogPage } from "@/lib/productCatalog"
+import { locales, type Locale } from "@/i18n/config"
+
+/**
+ * Product catalog: published products filtered by category subtree, brand, colors, weights,
+ * price, availability and badges, sorted, one page per `cursor`, with facet counts. Clients
+ * pass `locale`, so a response depends only on its URL and shared caches may keep it briefly.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    // Rate limit: 120 catalog requests per IP per minute
+    const ip = getClientIp(request)
+    const { success } = await rateLimit(`catalog:${ip}`, { limit: 120, windowMs: 60_000 })
+    if (!success) {
+      return NextResponse.json({ error: "Too many requests" }, { status: 429 })
+    }
+
+    const searchParams = request.nextUrl.searchParams
+    const query = parseCatalogQuery(searchParams)
+    const limitParam = parseInt(searchParams.get("limit") ?? "")
+    const limit = Number.isNaN(limitParam) ? CATALOG_PAGE_SIZE : Math.min(Math.max(limitParam, 0), CATALOG_MAX_PAGE_SIZE)
+    const localeParam = searchParams.get("locale") as Locale | null
+    const locale = localeParam && locales.includes(localeParam) ? localeParam : (await getLocale()) as Locale
+
+    const page = await getCatalogPage(query, locale, limit)
+
+    return NextResponse.json(page, {
+      headers: { "Cache-Control": "public, s-maxage=60, stale-while-revalidate=300" },
+    })
+  } catch (error) {
+    console.error("Catalog error:", error instanceof Error ? error.message : "Unknown")
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+  }
+}
@@ -1,6 +1,24 @@
 import { NextRequest, NextResponse } from "next/server"
 import prisma from "@/lib/prisma"
 import { auth } from "@/auth"
+import { validateLength, MAX_MESSAGE } from "@/lib/validation"
+import { rateLimit } from "@/lib/rateLimit"
+import { MAX_QUOTE_FILES } from "@/lib/printConfig"
+import { addQuoteRevision, createQuotePart, readModelUpload, type ModelUpload } from "@/lib/quoteFiles"
+import { refreshQuoteEstimate } from "@/lib/quoteEstimate"
+
+const messageSelect = {
+  id: true,
+  senderType: true,
+  message: true,
+  quotedPrice: true,
+  config: true,
+  createdAt: true,
+  revisions: { select: { id: true, version: true, fileName: true, file: { select: { name: true } } } },
+} as const
+
+// Customers can send new files until the quote is settled
+const OPEN_STATUSES = ["pending", "quoted"]
 
 export async function GET(
   request: NextRequest,
@@ -35,13 +53,7 @@ export async function GET(
     const messages = await prisma.quoteMessage.findMany({
       where: { quoteId: id },
       orderBy: { createdAt: "asc" },
-      select: {
-        id: true,
-        senderType: true,
-        message: true,
-        quotedPrice: true,
-        createdAt: true,
-      },
+      select: messageSelect,
     })
 
     return NextResponse.json(messages)
@@ -52,4 +64,121 @@ export async function GET(
       { status: 500 }
     )
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Post new model files to the quote thread — either side can send a corrected
+ * version of an existing part or add a new one. `targets` lists, per file, the
+ * part it revises ("" for a new part).
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await auth()
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { success } = await rateLimit(`quote-files:${session.user.id}`, { limit: 20, windowMs: 60 * 60 * 1000 })
+    if (!success) {
+      return NextResponse.json({ error: "Too many requests. Please try again later." }, { status: 429 })
+    }
+
+    const { id } = await params
+
+    const quote = await prisma.quoteRequest.findUnique({
+      where: { id },
+      select: { email: true, userId: true, status: true, firstResponseAt: true, files: { select: { id: true } } },
+    })
+
+    if (!quote) {
+      return NextResponse.json({ error: "Quote not found" }, { status: 404 })
+    }
+
+    const isStaff = session.user.role === "ADMIN" || session.user.role === "EDITOR"
+    const isOwner = (quote.userId && quote.userId === session.user.id) || quote.email === session.user.email
+
+    if (!isStaff && !isOwner) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+    if (!isStaff && !OPEN_STATUSES.includes(quote.status)) {
+      return NextResponse.json({ error: "This quote is closed" }, { status: 400 })
+    }
+
+    const formData = await request.formData()
+    const text = (formData.get("message") as string | null)?.trim() || null
+    const files = formData.getAll("files").filter((value): value is File => value instanceof File && value.size > 0)
+
+    const lengthError = validateLength(text, "Message", MAX_MESSAGE)
+    if (lengthError) {
+      return NextResponse.json({ error: lengthError }, { status: 400 })
+    }
+    if (files.length === 0) {
+      return NextResponse.json({ error: "At least one file is required" }, { status: 400 })
+    }
+
+    let targets: unknown[] = []
+    try {
+      const raw = JSON.parse(String(formData.get("targets") || "[]"))
+      if (Array.isArray(raw)) targets = raw
+    } catch {
+      return NextResponse.json({ error: "Invalid targets" }, { status: 400 })
+    }
+
+    const partIds = new Set(quote.files.map((file) => file.id))
+    const newParts = files.filter((_, index) => !targets[index]).length
+    if (quote.files.length + newParts > MAX_QUOTE_FILES) {
+      return NextResponse.json({ error: `At most ${MAX_QUOTE_FILES} files per quote` }, { status: 400 })
+    }
+
+    // Validate every file before anything is stored
+    const uploads: { upload: ModelUpload; fileId: string | null }[] = []
+    for (const [index, file] of files.entries()) {
+      const target = targets[index]
+      if (target && (typeof target !== "string" || !partIds.has(target))) {
+        return NextResponse.json({ error: "Unknown part" }, { status: 400 })
+      }
+      const upload = await readModelUpload(file)
+      if ("error" in upload) {
+        return NextResponse.json({ error: upload.error }, { status: 400 })
+      }
+      uploads.push({ upload, fileId: (target as string) || null })
+    }
+
+    const senderType = isStaff ? "admin" : "user"
+    const message = await prisma.quoteMessage.create({
+      data: {
+        quoteId: id,
+        senderType,
+        message: JSON.stringify({ key: "files", text }),
+      },
+    })
+
+    let order = quote.files.length
+    for (const { upload, fileId } of uploads) {
+      if (fileId) {
+        await addQuoteRevision(fileId, upload, { senderType, messageId: message.id })
+      } else {
+        await createQuotePart(id, upload, { quantity: 1, config: {}, order: order++, senderType, messageId: message.id })
+      }
+    }
+
+    await refreshQuoteEstimate(id)
+
+    // Files from staff answer the customer as much as a price does
+    if (isStaff && !quote.firstResponseAt) {
+      await prisma.quoteRequest.update({ where: { id }, data: { firstResponseAt: new Date() } })
+    }
+
+    const created = await prisma.quoteMessage.findUnique({ where: { id: message.id }, select: messageSelect })
+    return NextResponse.json(created, { status: 201 })
+  } catch (error) {
+    console.error("Error uploading quote files:", error instanceof Error ? error.message : "Unknown")
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Internal server error" },
+      { status: 500 }
+    )
+  }
+}
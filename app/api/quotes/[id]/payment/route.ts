@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from "next/server"
+import prisma from "@/lib/prisma"
+import { auth } from "@/auth"
+import { priceQuotePayment, quotePaymentError } from "@/lib/quotePayment"
+import { countryFromHeaders } from "@/lib/vat"
+
+/**
+ * Shipping options, VAT and total for paying an accepted quote — the same figures
+ * /api/checkout/quote charges with.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await auth()
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { id } = await params
+    const { country, vatNumber, shippingMethodId } = await request.json()
+
+    // userId preferred; email fallback for legacy quotes without userId
+    const quote = await prisma.quoteRequest.findFirst({
+      where: { id, OR: [{ userId: session.user.id }, { email: session.user.email }] },
+      select: { status: true, quotedPrice: true, orderId: true, estimate: true },
+    })
+    if (!quote) {
+      return NextResponse.json({ error: "Quote not found" }, { status: 404 })
+    }
+    const paymentError = quotePaymentError(quote)
+    if (paymentError) {
+      return NextResponse.json({ error: paymentError }, { status: 400 })
+    }
+
+    const payment = await priceQuotePayment(quote, {
+      country: typeof country === "string" ? country : null,
+      vatNumber: typeof vatNumber === "string" ? vatNumber : null,
+      fallbackCountry: countryFromHeaders(request.headers),
+      shippingMethodId: typeof shippingMethodId === "string" ? shippingMethodId : null,
+    })
+
+    return NextResponse.json(payment)
+  } catch (error) {
+    console.error("Quote payment quote error:", error instanceof Error ? error.message : "Unknown")
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+  }
+}
@@ -0,0 +1,27 @@
+import { NextResponse } from "next/server"
+import prisma from "@/lib/prisma"
+
+/** Materials and colors a customer can pick in the quote form */
+export async function GET() {
+  try {
+    const [materials, colors] = await Promise.all([
+      prisma.printMaterial.findMany({
+        where: { active: true },
+        orderBy: [{ order: "asc" }, { name: "asc" }],
+        select: { id: true, name: true },
+      }),
+      prisma.color.findMany({
+        orderBy: [{ order: "asc" }, { nameEn: "asc" }],
+        select: { id: true, nameBg: true, nameEn: true, nameEs: true, hex: true, hex2: true },
+      }),
+    ])
+
+    return NextResponse.json({ materials, colors })
+  } catch (error) {
+    console.error("Error fetching quote options:", error instanceof Error ? error.message : "Unknown")
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Internal server error" },
+      { status: 500 }
+    )
+  }
+}
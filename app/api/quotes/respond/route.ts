@@ -2,6 +2,9 @@ import { NextRequest, NextResponse } from "next/server"
 import prisma from "@/lib/prisma"
 import { auth } from "@/auth"
 import { validateLength, MAX_MESSAGE } from "@/lib/validation"
+import { parsePrintConfig, printConfigOf, type PrintConfig } from "@/lib/printConfig"
+import { checkPrintConfigRefs, printConfigSnapshot } from "@/lib/quoteConfig"
+import { createQuotePrintJobs } from "@/lib/printJobs"
 
 export async function POST(request: NextRequest) {
   try {
@@ -11,7 +14,7 @@ export async function POST(request: NextRequest) {
     }
 
     const data = await request.json()
-    const { quoteId, action, message } = data
+    const { quoteId, action, message, config: proposedConfig } = data
 
     if (!quoteId || !action) {
       return NextResponse.json({ error: "Quote ID and action required" }, { status: 400 })
@@ -39,9 +42,15 @@ export async function POST(request: NextRequest) {
     if (!quote) {
       return NextResponse.json({ error: "Quote not found or cannot be responded to" }, { status: 404 })
     }
+    // The daily job marks it expired; until then the price is already off the table
+    if (quote.expiresAt && quote.expiresAt <= new Date()) {
+      return NextResponse.json({ error: "This quote has expired" }, { status: 400 })
+    }
 
     let newStatus: string
     let userResponse: string | null = null
+    // Print options the customer is asking for — their changes on top of the quoted ones
+    let counterConfig: PrintConfig | null = null
 
     switch (action) {
       case "accept":
@@ -57,6 +66,17 @@ export async function POST(request: NextRequest) {
         }
         newStatus = "pending" // Goes back to pending so admin sees it in queue
         userResponse = message
+        if (proposedConfig && typeof proposedConfig === "object") {
+          const parsed = parsePrintConfig({ ...printConfigOf(quote), ...proposedConfig })
+          if ("error" in parsed) {
+            return NextResponse.json({ error: parsed.error }, { status: 400 })
+          }
+          const refError = await checkPrintConfigRefs(parsed.config, { activeOnly: true })
+          if (refError) {
+            return NextResponse.json({ error: refError }, { status: 400 })
+          }
+          counterConfig = parsed.config
+        }
         break
       default:
         return NextResponse.json({ error: "Invalid action" }, { status: 400 })
@@ -67,6 +87,8 @@ export async function POST(request: NextRequest) {
       data: {
         status: newStatus,
         userResponse,
+        // A counter-offer puts the quote back in the staff's queue
+        ...(action === "counter_offer" ? { awaitingSince: new Date() } : {}),
       },
     })
 
@@ -104,6 +126,11 @@ export async function POST(request: NextRequest) {
           quotedPrice: quote.quotedPrice ? Number(quote.quotedPrice) : null,
         },
       })
+
+      // Accepted work goes on the production board
+      await createQuotePrintJobs(quoteId).catch((jobError) => {
+        console.error("Failed to queue print jobs:", jobError instanceof Error ? jobError.message : "Unknown")
+      })
     } else if (action === "decline") {
       await prisma.quoteMessage.create({
         data: {
@@ -124,6 +151,7 @@ export async function POST(request: NextRequest) {
             key: "counter_offer",
             text: message,
           }),
+          config: await printConfigSnapshot(counterConfig ?? printConfigOf(quote)),
         },
       })
     }
@@ -1,43 +1,16 @@
 import { NextRequest, NextResponse } from "next/server"
 import prisma from "@/lib/prisma"
-import { generateQuoteNumber } from "@/lib/generateCode"
-import { uploadBlob } from "@/lib/blob"
+import { withNextNumber } from "@/lib/numbering"
+import { getQuotePricing, refreshQuoteEstimate } from "@/lib/quoteEstimate"
+import { createQuotePart, readModelUpload, type ModelUpload } from "@/lib/quoteFiles"
+import { checkPrintConfigRefs } from "@/lib/quoteConfig"
+import { MAX_QUOTE_FILES, parsePrintConfig, parseQuotePart, partPrintConfig, printConfigData, type PartConfig } from "@/lib/printConfig"
+import type { MeshAnalysis } from "@/lib/meshAnalysis"
+import { isModelUnit } from "@/lib/modelFormats"
 import { validateLength, firstError, MAX_NAME, MAX_EMAIL, MAX_PHONE, MAX_MESSAGE } from "@/lib/validation"
 import { rateLimit, getClientIp } from "@/lib/rateLimit"
 import { auth } from "@/auth"
 
-/**
- * Magic-bytes validator for 3D model files.
- * Prevents malicious files from being uploaded with an innocent extension.
- * - 3MF: ZIP signature (PK\x03\x04)
- * - STL binary: 80-byte header + uint32 triangle count → ≥84 bytes
- * - STL ASCII: starts with "solid"
- * - OBJ: plain ASCII text — verifies first bytes are printable
- */
-function validate3DMagicBytes(buf: Buffer, ext: string): boolean {
-  if (buf.length === 0) return false
-  if (ext === ".3mf") {
-    // ZIP: 50 4B 03 04
-    return buf.length >= 4 && buf[0] === 0x50 && buf[1] === 0x4B && buf[2] === 0x03 && buf[3] === 0x04
-  }
-  if (ext === ".stl") {
-    if (buf.length < 5) return false
-    // ASCII STL starts with "solid"
-    if (buf.slice(0, 5).toString("ascii").toLowerCase() === "solid") return true
-    // Binary STL: at least 84 bytes (80-byte header + 4-byte triangle count)
-    return buf.length >= 84
-  }
-  if (ext === ".obj") {
-    // OBJ is plain ASCII — first 100 bytes must be printable chars / whitespace
-    const sample = buf.slice(0, Math.min(100, buf.length))
-    for (const byte of sample) {
-      if (byte > 127 || (byte < 32 && byte !== 0x09 && byte !== 0x0A && byte !== 0x0D)) return false
-    }
-    return true
-  }
-  return false
-}
-
 export async function POST(request: NextRequest) {
   try {
     // Rate limit: 5 quote submissions per IP per hour
@@ -60,7 +33,10 @@ export async function POST(request: NextRequest) {
     const phone = formData.get("phone") as string | null
     const message = formData.get("message") as string | null
     const productId = formData.get("productId") as string | null
-    const file = formData.get("file") as File | null
+    // Each file is a part; "parts" carries their quantity per set, own options and the unit picked
+    // in the preview, in the same order
+    const files = [...formData.getAll("files"), formData.get("file")]
+      .filter((value): value is File => value instanceof File && value.size > 0)
 
     // Validation
     if (!name || !email) {
@@ -90,70 +66,95 @@ export async function POST(request: NextRequest) {
       )
     }
 
-    let fileUrl: string | null = null
-    let fileName: string | null = null
-    let fileSize: number | null = null
-
-    // Handle file upload
-    if (file && file.size > 0) {
-      // Validate file size (max 50MB)
-      const maxSize = 50 * 1024 * 1024
-      if (file.size > maxSize) {
-        return NextResponse.json(
-          { error: "File too large. Maximum size is 50MB." },
-          { status: 400 }
-        )
-      }
+    // Print options
+    const parsedConfig = parsePrintConfig({
+      materialId: formData.get("materialId"),
+      colorId: formData.get("colorId"),
+      layerHeight: formData.get("layerHeight"),
+      infill: formData.get("infill"),
+      quantity: formData.get("quantity"),
+      finish: formData.get("finish"),
+      deadline: formData.get("deadline"),
+    })
+    if ("error" in parsedConfig) {
+      return NextResponse.json({ error: parsedConfig.error }, { status: 400 })
+    }
+    const config = parsedConfig.config
+    if (config.deadline && config.deadline < new Date().toISOString().slice(0, 10)) {
+      return NextResponse.json({ error: "Deadline cannot be in the past" }, { status: 400 })
+    }
+    const refError = await checkPrintConfigRefs(config, { activeOnly: true })
+    if (refError) {
+      return NextResponse.json({ error: refError }, { status: 400 })
+    }
 
-      // Validate file extension
-      const allowedExtensions = [".stl", ".obj", ".3mf"]
-      const fileExtension = file.name.toLowerCase().slice(file.name.lastIndexOf("."))
-      if (!allowedExtensions.includes(fileExtension)) {
-        return NextResponse.json(
-          { error: "Invalid file type. Allowed: STL, OBJ, 3MF" },
-          { status: 400 }
-        )
-      }
+    if (files.length > MAX_QUOTE_FILES) {
+      return NextResponse.json({ error: `At most ${MAX_QUOTE_FILES} files per quote` }, { status: 400 })
+    }
 
-      // Read buffer once for magic bytes validation + upload
-      const fileBuffer = Buffer.from(await file.arrayBuffer())
+    let partsInput: unknown[] = []
+    try {
+      const raw = JSON.parse(String(formData.get("parts") || "[]"))
+      if (Array.isArray(raw)) partsInput = raw
+    } catch {
+      return NextResponse.json({ error: "Invalid parts" }, { status: 400 })
+    }
 
-      // Validate magic bytes to prevent extension spoofing
-      if (!validate3DMagicBytes(fileBuffer, fileExtension)) {
-        return NextResponse.json(
-          { error: "File content does not match the declared format." },
-          { status: 400 }
-        )
+    // Validate every file and part before anything is stored
+    const parts: { upload: ModelUpload; quantity: number; config: PartConfig }[] = []
+    for (const [index, file] of files.entries()) {
+      const upload = await readModelUpload(file)
+      if ("error" in upload) {
+        return NextResponse.json({ error: upload.error }, { status: 400 })
       }
-
-      // Upload buffer with automatic fallback to local storage
-      const timestamp = Date.now()
-      const sanitizedName = file.name.replace(/[^a-zA-Z0-9.-]/g, "_")
-      const filename = `${timestamp}-${sanitizedName}`
-
-      fileUrl = await uploadBlob(fileBuffer, filename, { folder: "quotes" })
-      fileName = file.name
-      fileSize = file.size
+      const input = partsInput[index]
+      const raw = input && typeof input === "object" ? (input as Record<string, unknown>) : {}
+      const part = parseQuotePart(raw)
+      if ("error" in part) {
+        return NextResponse.json({ error: `${file.name}: ${part.error}` }, { status: 400 })
+      }
+      if (raw.unit != null && !isModelUnit(raw.unit)) {
+        return NextResponse.json({ error: `${file.name}: invalid unit` }, { status: 400 })
+      }
+      const partRefError = await checkPrintConfigRefs(partPrintConfig(config, part.config), { activeOnly: true })
+      if (partRefError) {
+        return NextResponse.json({ error: `${file.name}: ${partRefError}` }, { status: 400 })
+      }
+      parts.push({ upload: { ...upload, unit: isModelUnit(raw.unit) ? raw.unit : null }, ...part })
     }
 
     // Create quote request
-    const quote = await prisma.quoteRequest.create({
+    const quote = await withNextNumber("quote", (quoteNumber) => prisma.quoteRequest.create({
       data: {
-        quoteNumber: generateQuoteNumber(),
+        quoteNumber,
         productId: productId || null,
         name,
         email,
         phone: phone || null,
         message: message || null,
-        fileName,
-        fileUrl,
-        fileSize,
         status: "pending",
+        awaitingSince: new Date(),
         userId: sessionUserId,
+        ...printConfigData(config),
       },
-    })
+    }))
 
-    return NextResponse.json({ success: true, quoteId: quote.id }, { status: 201 })
+    // Upload and measure each part, then price them together with the admin's rules
+    const measured: { name: string; geometry: MeshAnalysis | null }[] = []
+    for (const [order, part] of parts.entries()) {
+      const { file, revision } = await createQuotePart(quote.id, part.upload, { ...part, order, senderType: "user" })
+      measured.push({ name: file.name, geometry: revision.geometry as MeshAnalysis | null })
+    }
+    const analysis = parts.length > 0 ? await refreshQuoteEstimate(quote.id) : null
+
+    // The estimate is always stored for admins; customers only see it when enabled
+    const estimate = analysis && (await getQuotePricing()).showEstimate ? analysis : null
+    return NextResponse.json({
+      success: true,
+      quoteId: quote.id,
+      parts: measured,
+      estimate: estimate && { price: estimate.price, grams: estimate.grams, hours: estimate.hours, material: estimate.material },
+    }, { status: 201 })
   } catch (error) {
     console.error("Quote creation error:", error instanceof Error ? error.message : "Unknown")
     return NextResponse.json(
@@ -0,0 +1,26 @@
+import { NextRequest, NextResponse } from "next/server"
+import { rateLimit, getClientIp } from "@/lib/rateLimit"
+import { SEARCH_CLICK_TYPES, type SearchClickType } from "@/lib/search"
+import { recordSearchClick } from "@/lib/searchAnalytics"
+
+/** The result a visitor opened from a search; sent as a beacon, so nobody reads the answer */
+export async function POST(request: NextRequest) {
+  try {
+    const ip = getClientIp(request)
+    const { success } = await rateLimit(`search-click:${ip}`, { limit: 30, windowMs: 60_000 })
+    if (!success) {
+      return NextResponse.json({ error: "Too many requests" }, { status: 429 })
+    }
+
+    const { searchId, type, id } = await request.json()
+    if (typeof searchId !== "string" || typeof id !== "string" || !SEARCH_CLICK_TYPES.includes(type)) {
+      return NextResponse.json({ error: "Invalid click" }, { status: 400 })
+    }
+
+    await recordSearchClick(searchId, type as SearchClickType, id)
+    return new NextResponse(null, { status: 204 })
+  } catch (error) {
+    console.error("Search click error:", error instanceof Error ? error.message : "Unknown")
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+  }
+}
@@ -1,8 +1,19 @@
 import { NextRequest, NextResponse } from "next/server"
+import { getLocale } from "next-intl/server"
 import prisma from "@/lib/prisma"
 import { rateLimit, getClientIp } from "@/lib/rateLimit"
 import { buildProductUrl } from "@/lib/productUrl"
+import { parseSearchFilters, normalizeQuery, synonymMap, findRedirect } from "@/lib/search"
+import { matchProducts, filterWithFacets, highlightProducts } from "@/lib/productSearch"
+import { getSynonymRules, logSearch } from "@/lib/searchAnalytics"
+import type { Locale } from "@/i18n/config"
 
+/**
+ * Site search. Products are ranked by full-text relevance in the visitor's language, with close
+ * misspellings as a fallback; `facets=1` adds facet counts and applies the facet filters.
+ * Admin synonym rules widen the match, and a query that is a rule's term also returns its
+ * `redirect`. First pages are logged for search analytics; `searchId` lets clients report clicks.
+ */
 export async function GET(request: NextRequest) {
   try {
     // Rate limit: 20 searches per IP per minute
@@ -15,6 +26,8 @@ export async function GET(request: NextRequest) {
     const searchParams = request.nextUrl.searchParams
     const q = searchParams.get("q")?.trim()
     const limit = Math.min(parseInt(searchParams.get("limit") || "5"), 20)
+    const page = Math.max(1, parseInt(searchParams.get("page") || "1") || 1)
+    const withFacets = searchParams.get("facets") === "1"
 
     if (!q || q.length < 2) {
       return NextResponse.json(
@@ -26,35 +39,50 @@ export async function GET(request: NextRequest) {
     const searchCondition = (fields: string[]) =>
       fields.map((field) => ({ [field]: { contains: q, mode: "insensitive" as const } }))
 
+    const locale = (await getLocale()) as Locale
+    const rules = await getSynonymRules()
+    const synonyms = synonymMap(rules)
+    const searchProducts = async () => {
+      let ids = await matchProducts(q, locale, { synonyms })
+      const facets = withFacets ? await filterWithFacets(ids, parseSearchFilters(searchParams)) : null
+      if (facets) ids = facets.ids
+      const pageIds = ids.slice((page - 1) * limit, page * limit)
+      const [rows, highlights] = await Promise.all([
+        prisma.product.findMany({
+          where: { id: { in: pageIds } },
+          select: {
+            id: true,
+            slug: true,
+            nameBg: true,
+            nameEn: true,
+            nameEs: true,
+            image: true,
+            fileThumbnail: true,
+            price: true,
+            salePrice: true,
+            onSale: true,
+            currency: true,
+            priceType: true,
+            category: true,
+            fileType: true,
+            brand: { select: { slug: true, nameEn: true, nameBg: true, nameEs: true } },
+          },
+        }),
+        highlightProducts(pageIds, q, locale, synonyms),
+      ])
+      const byId = new Map(rows.map((row) => [row.id, row]))
+      return {
+        rows: pageIds.flatMap((id) => {
+          const row = byId.get(id)
+          return row ? [{ ...row, highlight: highlights.get(id) ?? null }] : []
+        }),
+        total: ids.length,
+        facets: facets?.facets ?? null,
+      }
+    }
+
     const [productsResult, contentResult, menuResult] = await Promise.allSettled([
-      prisma.product.findMany({
-        where: {
-          published: true,
-          OR: [
-            ...searchCondition(["nameEn", "nameBg", "nameEs", "sku"]),
-            { brand: { nameEn: { contains: q, mode: "insensitive" as const } } },
-            { brand: { nameBg: { contains: q, mode: "insensitive" as const } } },
-          ],
-        },
-        select: {
-          id: true,
-          slug: true,
-          nameBg: true,
-          nameEn: true,
-          nameEs: true,
-          image: true,
-          price: true,
-          salePrice: true,
-          onSale: true,
-          currency: true,
-          priceType: true,
-          category: true,
-          fileType: true,
-          brand: { select: { slug: true, nameEn: true, nameBg: true, nameEs: true } },
-        },
-        orderBy: [{ featured: "desc" }, { order: "asc" }],
-        take: limit,
-      }),
+      searchProducts(),
       prisma.content.findMany({
         where: {
           published: true,
@@ -91,7 +119,12 @@ export async function GET(request: NextRequest) {
       }),
     ])
 
-    const rawProducts = productsResult.status === "fulfilled" ? productsResult.value : []
+    if (productsResult.status === "rejected") {
+      console.error("Product search error:", productsResult.reason instanceof Error ? productsResult.reason.message : "Unknown")
+    }
+    const { rows: rawProducts, total, facets } = productsResult.status === "fulfilled"
+      ? productsResult.value
+      : { rows: [], total: 0, facets: null }
     const rawContent = contentResult.status === "fulfilled" ? contentResult.value : []
     const menu = menuResult.status === "fulfilled" ? menuResult.value : []
 
@@ -104,8 +137,9 @@ export async function GET(request: NextRequest) {
       categoryParentMap.set(cat.slug, cat.parent?.slug || null)
     }
 
-    const products = rawProducts.map(({ brand, ...rest }) => ({
+    const products = rawProducts.map(({ brand, fileThumbnail, ...rest }) => ({
       ...rest,
+      image: rest.image || fileThumbnail,
       brandName: brand?.nameEn || brand?.nameBg || null,
       productUrl: buildProductUrl(
         rest.slug,
@@ -121,9 +155,21 @@ export async function GET(request: NextRequest) {
       menuItemSlug: menuItem?.slug || null,
     }))
 
+    const searchId = page === 1
+      ? await logSearch({
+        term: normalizeQuery(q),
+        locale,
+        resultCount: total + content.length + menu.length,
+        sessionKey: searchParams.get("sid")?.slice(0, 64) || null,
+      }).catch((err) => {
+        console.error("Failed to log search:", err instanceof Error ? err.message : "Unknown")
+        return null
+      })
+      : null
+
     // Serialize Decimal fields (price, salePrice)
     return NextResponse.json(
-      JSON.parse(JSON.stringify({ products, content, menu }))
+      JSON.parse(JSON.stringify({ products, content, menu, total, facets, page, searchId, redirect: findRedirect(rules, q) }))
     )
   } catch (error) {
     console.error("Search error:", error instanceof Error ? error.message : "Unknown")
@@ -0,0 +1,164 @@
+import { NextRequest, NextResponse } from "next/server"
+import { auth } from "@/auth"
+import prisma from "@/lib/prisma"
+import { parseShippingAddress } from "@/lib/shipping"
+import { validateLength, MAX_NAME } from "@/lib/validation"
+
+const MAX_ADDRESSES = 10
+
+const addressSelect = {
+  id: true,
+  label: true,
+  fullName: true,
+  phone: true,
+  line1: true,
+  line2: true,
+  city: true,
+  postalCode: true,
+  country: true,
+  isDefault: true,
+}
+
+async function clearDefault(userId: string, exceptId: string) {
+  await prisma.address.updateMany({
+    where: { userId, isDefault: true, id: { not: exceptId } },
+    data: { isDefault: false },
+  })
+}
+
+export async function GET() {
+  const session = await auth()
+  if (!session?.user?.id) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+  }
+
+  const addresses = await prisma.address.findMany({
+    where: { userId: session.user.id },
+    orderBy: [{ isDefault: "desc" }, { createdAt: "asc" }],
+    select: addressSelect,
+  })
+
+  return NextResponse.json(addresses)
+}
+
+export async function POST(request: NextRequest) {
+  const session = await auth()
+  if (!session?.user?.id) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+  }
+
+  try {
+    const body = await request.json()
+    const parsed = parseShippingAddress(body)
+    if (parsed.error !== undefined) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 })
+    }
+    const labelError = validateLength(body.label, "Label", MAX_NAME)
+    if (labelError) {
+      return NextResponse.json({ error: labelError }, { status: 400 })
+    }
+
+    const count = await prisma.address.count({ where: { userId: session.user.id } })
+    if (count >= MAX_ADDRESSES) {
+      return NextResponse.json({ error: `You can save up to ${MAX_ADDRESSES} addresses` }, { status: 400 })
+    }
+
+    // The first saved address becomes the default
+    const isDefault = count === 0 || Boolean(body.isDefault)
+    const address = await prisma.address.create({
+      data: {
+        userId: session.user.id,
+        label: typeof body.label === "string" ? body.label.trim() || null : null,
+        ...parsed.address,
+        isDefault,
+      },
+      select: addressSelect,
+    })
+    if (isDefault) await clearDefault(session.user.id, address.id)
+
+    return NextResponse.json(address, { status: 201 })
+  } catch (error) {
+    console.error("Error creating address:", error instanceof Error ? error.message : "Unknown")
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+  }
+}
+
+export async function PUT(request: NextRequest) {
+  const session = await auth()
+  if (!session?.user?.id) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+  }
+
+  try {
+    const body = await request.json()
+    if (!body.id) {
+      return NextResponse.json({ error: "Address ID required" }, { status: 400 })
+    }
+
+    const existing = await prisma.address.findFirst({ where: { id: body.id, userId: session.user.id } })
+    if (!existing) {
+      return NextResponse.json({ error: "Address not found" }, { status: 404 })
+    }
+
+    const parsed = parseShippingAddress(body)
+    if (parsed.error !== undefined) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 })
+    }
+    const labelError = validateLength(body.label, "Label", MAX_NAME)
+    if (labelError) {
+      return NextResponse.json({ error: labelError }, { status: 400 })
+    }
+
+    const isDefault = existing.isDefault || Boolean(body.isDefault)
+    const address = await prisma.address.update({
+      where: { id: existing.id },
+      data: {
+        label: typeof body.label === "string" ? body.label.trim() || null : null,
+        ...parsed.address,
+        isDefault,
+      },
+      select: addressSelect,
+    })
+    if (isDefault) await clearDefault(session.user.id, address.id)
+
+    return NextResponse.json(address)
+  } catch (error) {
+    console.error("Error updating address:", error instanceof Error ? error.message : "Unknown")
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+  }
+}
+
+export async function DELETE(request: NextRequest) {
+  const session = await auth()
+  if (!session?.user?.id) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+  }
+
+  try {
+    const id = request.nextUrl.searchParams.get("id")
+    if (!id) {
+      return NextResponse.json({ error: "Address ID required" }, { status: 400 })
+    }
+
+    const existing = await prisma.address.findFirst({ where: { id, userId: session.user.id } })
+    if (!existing) {
+      return NextResponse.json({ error: "Address not found" }, { status: 404 })
+    }
+
+    await prisma.address.delete({ where: { id } })
+
+    // Promote the oldest remaining address when the default is removed
+    if (existing.isDefault) {
+      const next = await prisma.address.findFirst({
+        where: { userId: session.user.id },
+        orderBy: { createdAt: "asc" },
+      })
+      if (next) await prisma.address.update({ where: { id: next.id }, data: { isDefault: true } })
+    }
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error("Error deleting address:", error instanceof Error ? error.message : "Unknown")
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+  }
+}
@@ -0,0 +1,87 @@
+import { NextRequest, NextResponse } from "next/server"
+import { auth } from "@/auth"
+import prisma from "@/lib/prisma"
+import { rateLimit } from "@/lib/rateLimit"
+import { getCustomerPurchases, getDownloadLimits, reissueDownload } from "@/lib/downloads"
+import { downloadStatus, canReissue } from "@/lib/downloadLimits"
+
+/** The customer's download library — the link is only handed out while it works */
+export async function GET() {
+  const session = await auth()
+  if (!session?.user?.id) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+  }
+
+  try {
+    const [purchases, limits] = await Promise.all([
+      getCustomerPurchases({ id: session.user.id, email: session.user.email ?? null }),
+      getDownloadLimits(),
+    ])
+
+    return NextResponse.json(purchases.map((p) => {
+      const status = downloadStatus(p)
+      return {
+        id: p.id,
+        product: p.product,
+        createdAt: p.createdAt,
+        expiresAt: p.expiresAt,
+        status,
+        locked: p.locked,
+        downloadsLeft: Math.max(0, p.maxDownloads - p.downloadCount),
+        maxDownloads: p.maxDownloads,
+        reissuesLeft: Math.max(0, limits.maxReissues - p.reissueCount),
+        canReissue: !p.locked && canReissue(p, limits),
+        downloadUrl: !p.locked && status === "active" ? `/products/download/${p.downloadToken}` : null,
+      }
+    }))
+  } catch (error) {
+    console.error("Error fetching downloads:", error instanceof Error ? error.message : "Unknown")
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+  }
+}
+
+/** Swap a purchase's link for a fresh one within the re-issue limit */
+export async function POST(request: NextRequest) {
+  const session = await auth()
+  if (!session?.user?.id) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+  }
+
+  const { success } = await rateLimit(`reissue-download:${session.user.id}`, { limit: 10, windowMs: 10 * 60 * 1000 })
+  if (!success) {
+    return NextResponse.json({ error: "Too many requests" }, { status: 429 })
+  }
+
+  try {
+    const { id } = await request.json()
+    if (!id || typeof id !== "string") {
+      return NextResponse.json({ error: "Purchase ID required" }, { status: 400 })
+    }
+
+    const purchase = await prisma.digitalPurchase.findFirst({
+      where: { id, userId: session.user.id },
+      select: { id: true, reissueCount: true, revokedAt: true },
+    })
+    if (!purchase) {
+      return NextResponse.json({ error: "Purchase not found" }, { status: 404 })
+    }
+
+    const limits = await getDownloadLimits()
+    if (purchase.revokedAt) {
+      return NextResponse.json({ error: "This purchase was refunded" }, { status: 410 })
+    }
+    if (!canReissue(purchase, limits)) {
+      return NextResponse.json({ error: "No new links left for this purchase. Please contact us." }, { status: 403 })
+    }
+
+    const token = await reissueDownload(purchase, limits)
+    if (!token) {
+      return NextResponse.json({ error: "The purchase changed in the meantime. Please try again." }, { status: 409 })
+    }
+
+    return NextResponse.json({ downloadUrl: `/products/download/${token}` })
+  } catch (error) {
+    console.error("Error re-issuing download:", error instanceof Error ? error.message : "Unknown")
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+  }
+}
@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from "next/server"
+import { auth } from "@/auth"
+import prisma from "@/lib/prisma"
+import { rateLimit } from "@/lib/rateLimit"
+import { attachGuestOrders, normalizeAccessCode } from "@/lib/orders"
+
+/**
+ * Attach past guest orders placed with the account's email.
+ * Registration does not verify the email, so the customer proves the orders are theirs
+ * with the number and access code of one of them (both shown after payment) — sequential
+ * numbers alone are guessable.
+ */
+export async function POST(request: NextRequest) {
+  const session = await auth()
+  if (!session?.user?.id || !session.user.email) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+  }
+
+  const { success } = await rateLimit(`attach-orders:${session.user.id}`, { limit: 5, windowMs: 10 * 60 * 1000 })
+  if (!success) {
+    return NextResponse.json({ error: "Too many requests" }, { status: 429 })
+  }
+
+  try {
+    const { orderNumber: rawOrderNumber, accessCode: rawAccessCode } = await request.json()
+    const orderNumber = typeof rawOrderNumber === "string" ? rawOrderNumber.trim().toUpperCase() : ""
+    const accessCode = normalizeAccessCode(rawAccessCode)
+    if (!orderNumber || !accessCode) {
+      return NextResponse.json({ error: "Order number and access code are required" }, { status: 400 })
+    }
+
+    const proof = await prisma.order.findFirst({
+      where: {
+        orderNumber,
+        accessCode,
+        userId: null,
+        stripeSession: { not: null },
+        customerEmail: { equals: session.user.email, mode: "insensitive" },
+      },
+      select: { id: true },
+    })
+    if (!proof) {
+      return NextResponse.json({ error: "No guest order with this number and access code was placed with your email" }, { status: 404 })
+    }
+
+    const attached = await attachGuestOrders(session.user.id, session.user.email)
+    return NextResponse.json({ attached })
+  } catch (error) {
+    console.error("Attach guest orders error:", error instanceof Error ? error.message : "Unknown")
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+  }
+}
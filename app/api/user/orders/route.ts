@@ -13,9 +13,51 @@ export async function GET() {
     orderBy: { createdAt: "desc" },
     select: {
       id: true,
+      orderNumber: true,
       description: true,
       status: true,
+      subtotal: true,
+      discountAmount: true,
+      total: true,
+      currency: true,
+      shippingMethodName: true,
+      shippingFee: true,
+      vatAmount: true,
+      reverseCharge: true,
+      refundedAmount: true,
       createdAt: true,
+      items: {
+        orderBy: { createdAt: "asc" },
+        select: {
+          id: true,
+          productId: true,
+          nameBg: true,
+          nameEn: true,
+          nameEs: true,
+          packageLabel: true,
+          colorNameBg: true,
+          colorNameEn: true,
+          colorNameEs: true,
+          colorHex: true,
+          fileType: true,
+          quantity: true,
+          unitPrice: true,
+          bulkDiscount: true,
+          couponDiscount: true,
+          lineTotal: true,
+          refundedQuantity: true,
+        },
+      },
+      refunds: {
+        where: { status: { not: "failed" } },
+        orderBy: { createdAt: "asc" },
+        select: { id: true, amount: true, status: true, createdAt: true },
+      },
+      invoices: {
+        where: { number: { not: null } },
+        orderBy: { issuedAt: "asc" },
+        select: { id: true, type: true, number: true },
+      },
     },
   })
 
@@ -9,11 +9,14 @@ import { sanitizeHtml } from "@/lib/sanitize"
 import prisma from "@/lib/prisma"
 import { auth } from "@/auth"
 import { ArrowLeft, BadgeCheck } from "lucide-react"
-import { isCategoryMatch } from "@/lib/couponHelpers"
+import { catalogQueryFromRecord } from "@/lib/catalog"
+import { getCatalogPage } from "@/lib/productCatalog"
+import type { Locale } from "@/i18n/config"
 import type { Metadata } from "next"
 
 interface PageProps {
     params: Promise<{ slug: string }>
+    searchParams: Promise<Record<string, string | string[] | undefined>>
 }
 
 export async function generateMetadata({ params }: PageProps): Promise<Metadata> {
@@ -42,7 +45,7 @@ export async function generateMetadata({ params }: PageProps): Promise<Metadata>
 
 const SLUG_PATTERN = /^[a-z0-9]+(?:-[a-z0-9]+)*$/
 
-export default async function BrandDetailPage({ params }: PageProps) {
+export default async function BrandDetailPage({ params, searchParams }: PageProps) {
     const { slug } = await params
     if (!SLUG_PATTERN.test(slug)) notFound()
 
@@ -71,72 +74,17 @@ export default async function BrandDetailPage({ params }: PageProps) {
     const brandName = getLocalizedName(brand)
     const brandDesc = getLocalizedDesc(brand)
 
-    // Fetch products for this brand
-    const products = await prisma.product.findMany({
-        where: { brandId: brand.id, published: true },
-        orderBy: [{ featured: "desc" }, { order: "asc" }, { createdAt: "desc" }],
-        include: {
-            brand: true,
-            variants: { include: { color: true }, orderBy: { order: "asc" } },
-            packages: { include: { weight: { select: { label: true } }, packageVariants: { select: { variantId: true, status: true } } }, orderBy: { order: "asc" } },
-        },
-    })
-
-    // Fetch categories for ProductCatalog
-    const categories = await prisma.productCategory.findMany({
-        include: { children: true, parent: true },
-        orderBy: [{ order: "asc" }],
-    })
-
-    // Fetch coupons for product badges
-    const now = new Date()
-    const promotedCouponsRaw = await prisma.coupon.findMany({
-        where: {
-            showOnProduct: true,
-            active: true,
-            AND: [
-                { OR: [{ startsAt: null }, { startsAt: { lte: now } }] },
-                { OR: [{ expiresAt: null }, { expiresAt: { gt: now } }] },
-            ],
-        },
-        select: { code: true, type: true, value: true, currency: true, productIds: true, categoryIds: true, brandIds: true, allowOnSale: true, expiresAt: true },
-    })
-
-    const flatCategories = categories.map(c => ({ id: c.id, slug: c.slug, parentId: c.parentId }))
-    const couponMap: Record<string, { code: string; type: string; value: string; currency: string | null; expiresAt: string | null }> = {}
-
-    const toCouponBadge = (c: typeof promotedCouponsRaw[0]) => ({
-        code: c.code, type: c.type, value: c.value.toString(), currency: c.currency, expiresAt: c.expiresAt?.toISOString() ?? null
-    })
-
-    for (const product of products) {
-        const isOnSale = product.onSale && product.salePrice
-        // 1. Product match
-        const direct = promotedCouponsRaw.find(c =>
-            c.productIds.length > 0 && c.productIds.includes(product.id) && !(isOnSale && !c.allowOnSale)
-        )
-        if (direct) { couponMap[product.id] = toCouponBadge(direct); continue }
-        // 2. Category match
-        const byCategory = promotedCouponsRaw.find(c =>
-            c.productIds.length === 0 && (c.categoryIds?.length ?? 0) > 0 &&
-            !(isOnSale && !c.allowOnSale) &&
-            isCategoryMatch(product.category, c.categoryIds ?? [], flatCategories)
-        )
-        if (byCategory) { couponMap[product.id] = toCouponBadge(byCategory); continue }
-        // 3. Brand match
-        const byBrand = promotedCouponsRaw.find(c =>
-            c.productIds.length === 0 && (c.categoryIds?.length ?? 0) === 0 &&
-            (c.brandIds?.length ?? 0) > 0 && product.brandId &&
-            (c.brandIds ?? []).includes(product.brandId) && !(isOnSale && !c.allowOnSale)
-        )
-        if (byBrand) { couponMap[product.id] = toCouponBadge(byBrand); continue }
-        // 4. Global
-        const global = promotedCouponsRaw.find(c =>
-            c.productIds.length === 0 && (c.categoryIds?.length ?? 0) === 0 &&
-            (c.brandIds?.length ?? 0) === 0 && !(isOnSale && !c.allowOnSale)
-        )
-        if (global) { couponMap[product.id] = toCouponBadge(global) }
-    }
+    // The brand's products, as the URL's filters narrow them
+    const query = { ...catalogQueryFromRecord(await searchParams), brand: slug, cursor: null }
+    const [page, productCount, categories] = await Promise.all([
+        getCatalogPage(query, locale as Locale),
+        prisma.product.count({ where: { brandId: brand.id, published: true } }),
+        // Fetch categories for ProductCatalog
+        prisma.productCategory.findMany({
+            include: { children: true, parent: true },
+            orderBy: [{ order: "asc" }],
+        }),
+    ])
 
     // Wishlist
     let wishlistedProductIds: string[] = []
@@ -208,13 +156,14 @@ export default async function BrandDetailPage({ params }: PageProps) {
             </section>
 
             {/* Products */}
-            {products.length > 0 ? (
+            {productCount > 0 ? (
                 <ProductCatalog
-                    products={JSON.parse(JSON.stringify(products))}
+                    key={slug}
+                    initialPage={JSON.parse(JSON.stringify(page))}
                     categories={JSON.parse(JSON.stringify(categories))}
                     locale={locale}
                     wishlistedProductIds={wishlistedProductIds}
-                    couponMap={couponMap}
+                    brandSlug={slug}
                 />
             ) : (
                 <section className="relative py-8 px-4">
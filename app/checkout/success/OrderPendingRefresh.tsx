@@ -0,0 +1,46 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { useRouter } from "next/navigation"
+import { useTranslations } from "next-intl"
+import { Loader2 } from "lucide-react"
+
+const POLL_INTERVAL_MS = 3000
+const MAX_POLLS = 40
+
+/**
+ * Shown while the webhook has not created the order yet — re-renders the page until the
+ * order number and access code can be shown, then gives up after about two minutes.
+ */
+export function OrderPendingRefresh() {
+    const t = useTranslations("checkout.success")
+    const router = useRouter()
+    const [gaveUp, setGaveUp] = useState(false)
+
+    useEffect(() => {
+        let polls = 0
+        const timer = setInterval(() => {
+            polls++
+            if (polls > MAX_POLLS) {
+                clearInterval(timer)
+                setGaveUp(true)
+                return
+            }
+            router.refresh()
+        }, POLL_INTERVAL_MS)
+        return () => clearInterval(timer)
+    }, [router])
+
+    return (
+        <div className="glass rounded-xl border border-white/10 p-4 mb-8">
+            {gaveUp ? (
+                <p className="text-slate-400 text-sm">{t("confirmingSlow")}</p>
+            ) : (
+                <p className="inline-flex items-center gap-2 text-slate-400 text-sm">
+                    <Loader2 className="w-4 h-4 animate-spin" />
+                    {t("confirming")}
+                </p>
+            )}
+        </div>
+    )
+}
@@ -2,8 +2,10 @@ import { getTranslations } from "next-intl/server"
 import Link from "next/link"
 import { Header } from "../../components/Header"
 import prisma from "@/lib/prisma"
+import { formatAccessCode } from "@/lib/orders"
 import { BackgroundOrbs } from "@/app/components/BackgroundOrbs"
-import { CheckCircle, Download, ArrowLeft, Package } from "lucide-react"
+import { OrderPendingRefresh } from "./OrderPendingRefresh"
+import { CheckCircle, Download, ArrowLeft, Package, Search } from "lucide-react"
 
 interface PageProps {
     searchParams: Promise<{ session_id?: string }>
@@ -21,6 +23,8 @@ export default async function CheckoutSuccessPage({ searchParams }: PageProps) {
 
     let digitalItems: DigitalItem[] = []
     let hasPhysicalOrder = false
+    let orderNumber: string | null = null
+    let accessCode: string | null = null
 
     if (sessionId) {
         // Fetch all digital purchases for this session (supports both single-item and cart)
@@ -39,12 +43,19 @@ export default async function CheckoutSuccessPage({ searchParams }: PageProps) {
             })
         }
 
-        // Check for physical orders created from this session
-        const physicalOrders = await prisma.order.findMany({
-            where: { notes: { contains: sessionId } },
-            select: { id: true },
+        // Check whether the order created from this session has anything to ship
+        const physicalItems = await prisma.orderItem.count({
+            where: { order: { stripeSession: sessionId }, fileType: { not: "digital" } },
         })
-        hasPhysicalOrder = physicalOrders.length > 0
+        hasPhysicalOrder = physicalItems > 0
+
+        // Guests have no order history — the number and access code let them look the order up later
+        const order = await prisma.order.findUnique({
+            where: { stripeSession: sessionId },
+            select: { orderNumber: true, accessCode: true },
+        })
+        orderNumber = order?.orderNumber ?? null
+        accessCode = order?.accessCode ?? null
     }
 
     return (
@@ -71,6 +82,31 @@ export default async function CheckoutSuccessPage({ searchParams }: PageProps) {
                             {t("checkout.success.message")}
                         </p>
 
+                        {/* Order number */}
+                        {orderNumber && (
+                            <div className="glass rounded-xl border border-white/10 p-4 mb-8">
+                                <p className="text-slate-400 text-sm">{t("checkout.success.orderNumber")}</p>
+                                <p className="text-emerald-400 font-mono text-lg mb-2">{orderNumber}</p>
+                                {accessCode && (
+                                    <>
+                                        <p className="text-slate-400 text-sm">{t("checkout.success.accessCode")}</p>
+                                        <p className="text-emerald-400 font-mono text-lg">{formatAccessCode(accessCode)}</p>
+                                        <p className="text-slate-500 text-xs mb-2">{t("checkout.success.accessCodeHint")}</p>
+                                    </>
+                                )}
+                                <Link
+                                    href={accessCode ? `/order-lookup?order=${encodeURIComponent(orderNumber)}&code=${accessCode}` : "/order-lookup"}
+                                    className="inline-flex items-center gap-1.5 text-sm text-slate-400 hover:text-emerald-400 transition-colors"
+                                >
+                                    <Search className="w-4 h-4" />
+                                    {t("checkout.success.trackOrder")}
+                                </Link>
+                            </div>
+                        )}
+
+                        {/* The webhook may not have created the order yet — keep checking so the access code is shown */}
+                        {sessionId && !orderNumber && <OrderPendingRefresh />}
+
                         {/* Digital download links */}
                         {digitalItems.length > 0 && (
                             <div className="space-y-3 mb-8">
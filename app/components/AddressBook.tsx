@@ -0,0 +1,184 @@
+"use client"
+
+import { useEffect, useCallback, useState } from "react"
+import { useTranslations, useLocale } from "next-intl"
+import { MapPin, Plus, Trash2, Star, Loader2 } from "lucide-react"
+import { SHIPPING_COUNTRIES, getCountryName } from "@/lib/countries"
+import { EMPTY_ADDRESS, isAddressComplete, type CheckoutAddress } from "./CartShippingStep"
+
+interface SavedAddress extends CheckoutAddress {
+  id: string
+  label: string | null
+  isDefault: boolean
+}
+
+const inputClass = "w-full px-3 py-2 rounded-xl bg-white/5 border border-white/10 text-white text-base sm:text-sm placeholder:text-slate-500 focus:outline-none focus:border-emerald-500/50"
+
+/** Saved delivery addresses on the profile page, reused by the cart shipping step */
+export function AddressBook() {
+  const t = useTranslations("profile")
+  const tc = useTranslations("cart")
+  const locale = useLocale()
+  const [addresses, setAddresses] = useState<SavedAddress[]>([])
+  const [loading, setLoading] = useState(true)
+  const [adding, setAdding] = useState(false)
+  const [draft, setDraft] = useState<CheckoutAddress & { label: string }>({ ...EMPTY_ADDRESS, label: "" })
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState("")
+
+  const fetchAddresses = useCallback(async () => {
+    try {
+      const res = await fetch("/api/user/addresses")
+      const data = res.ok ? await res.json() : []
+      setAddresses(Array.isArray(data) ? data : [])
+    } finally {
+      setLoading(false)
+    }
+  }, [])
+
+  useEffect(() => { fetchAddresses() }, [fetchAddresses])
+
+  const setField = (field: keyof typeof draft, value: string) => {
+    setDraft(prev => ({ ...prev, [field]: value }))
+  }
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!isAddressComplete(draft)) {
+      setError(tc("addressIncomplete"))
+      return
+    }
+    setSaving(true)
+    setError("")
+    const res = await fetch("/api/user/addresses", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(draft),
+    })
+    setSaving(false)
+    if (!res.ok) {
+      const err = await res.json().catch(() => ({}))
+      setError(err.error || t("addressSaveFailed"))
+      return
+    }
+    setAdding(false)
+    setDraft({ ...EMPTY_ADDRESS, label: "" })
+    fetchAddresses()
+  }
+
+  const handleMakeDefault = async (address: SavedAddress) => {
+    const res = await fetch("/api/user/addresses", {
+      method: "PUT",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ ...address, isDefault: true }),
+    })
+    if (res.ok) fetchAddresses()
+  }
+
+  const handleDelete = async (id: string) => {
+    const res = await fetch(`/api/user/addresses?id=${id}`, { method: "DELETE" })
+    if (res.ok) fetchAddresses()
+  }
+
+  return (
+    <div className="glass rounded-2xl border border-white/10 p-6">
+      <div className="flex items-center justify-between mb-6">
+        <h3 className="text-lg font-semibold flex items-center gap-2">
+          <MapPin className="w-5 h-5 text-emerald-400" />
+          {t("addressBook")}
+        </h3>
+        {!adding && (
+          <button
+            onClick={() => { setAdding(true); setError("") }}
+            className="flex items-center gap-2 px-4 py-2 rounded-lg bg-white/5 hover:bg-white/10 border border-white/10 text-sm transition-colors"
+          >
+            <Plus className="w-4 h-4" />
+            {t("addAddress")}
+          </button>
+        )}
+      </div>
+
+      {loading ? (
+        <div className="flex justify-center py-4">
+          <Loader2 className="w-5 h-5 animate-spin text-slate-400" />
+        </div>
+      ) : addresses.length === 0 && !adding ? (
+        <p className="text-sm text-slate-500 italic">{t("addressBookEmpty")}</p>
+      ) : (
+        <div className="space-y-3">
+          {addresses.map(a => (
+            <div key={a.id} className="flex items-start justify-between gap-3 p-4 rounded-xl border border-white/10">
+              <div className="text-sm text-slate-300 leading-relaxed min-w-0">
+                <p className="text-white font-medium">
+                  {a.label || a.fullName}
+                  {a.isDefault && (
+                    <span className="ml-2 px-2 py-0.5 rounded-full bg-emerald-500/20 text-emerald-400 text-xs font-medium">{t("defaultAddress")}</span>
+                  )}
+                </p>
+                {a.label && <p>{a.fullName}</p>}
+                <p>{a.line1}{a.line2 ? `, ${a.line2}` : ""}</p>
+                <p>{a.postalCode} {a.city}, {getCountryName(a.country, locale)}</p>
+                <p className="text-slate-500">{a.phone}</p>
+              </div>
+              <div className="flex items-center gap-1 shrink-0">
+                {!a.isDefault && (
+                  <button
+                    onClick={() => handleMakeDefault(a)}
+                    className="p-2 rounded-lg hover:bg-white/10 transition-colors"
+                    title={t("makeDefault")}
+                  >
+                    <Star className="w-4 h-4 text-slate-400" />
+                  </button>
+                )}
+                <button
+                  onClick={() => handleDelete(a.id)}
+                  className="p-2 rounded-lg hover:bg-red-500/20 transition-colors"
+                  title={t("deleteAddress")}
+                >
+                  <Trash2 className="w-4 h-4 text-red-400" />
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {adding && (
+        <form onSubmit={handleAdd} className="mt-4 space-y-2">
+          <input type="text" value={draft.label} onChange={e => setField("label", e.target.value)} placeholder={t("addressLabel")} className={inputClass} />
+          <input type="text" value={draft.fullName} onChange={e => setField("fullName", e.target.value)} placeholder={tc("fullName")} autoComplete="name" className={inputClass} />
+          <input type="tel" value={draft.phone} onChange={e => setField("phone", e.target.value)} placeholder={tc("phone")} autoComplete="tel" className={inputClass} />
+          <input type="text" value={draft.line1} onChange={e => setField("line1", e.target.value)} placeholder={tc("addressLine1")} autoComplete="address-line1" className={inputClass} />
+          <input type="text" value={draft.line2} onChange={e => setField("line2", e.target.value)} placeholder={tc("addressLine2")} autoComplete="address-line2" className={inputClass} />
+          <div className="flex gap-2">
+            <input type="text" value={draft.postalCode} onChange={e => setField("postalCode", e.target.value)} placeholder={tc("postalCode")} autoComplete="postal-code" className={`${inputClass} w-32 shrink-0`} />
+            <input type="text" value={draft.city} onChange={e => setField("city", e.target.value)} placeholder={tc("city")} autoComplete="address-level2" className={inputClass} />
+          </div>
+          <select value={draft.country} onChange={e => setField("country", e.target.value)} className={`${inputClass} bg-slate-950`}>
+            <option value="">{tc("selectCountry")}</option>
+            {SHIPPING_COUNTRIES.map(code => (
+              <option key={code} value={code}>{getCountryName(code, locale)}</option>
+            ))}
+          </select>
+          {error && <p className="text-xs text-red-400">{error}</p>}
+          <div className="flex gap-3 pt-2">
+            <button
+              type="button"
+              onClick={() => { setAdding(false); setError("") }}
+              className="flex-1 py-2.5 rounded-xl border border-white/10 text-sm text-slate-400 hover:text-white hover:border-white/30 transition-colors"
+            >
+              {t("cancel")}
+            </button>
+            <button
+              type="submit"
+              disabled={saving}
+              className="flex-1 py-2.5 rounded-xl bg-gradient-to-r from-emerald-500 to-cyan-500 text-sm text-white font-medium hover:shadow-lg hover:shadow-emerald-500/30 transition-all disabled:opacity-40"
+            >
+              {saving ? t("saving") : t("save")}
+            </button>
+          </div>
+        </form>
+      )}
+    </div>
+  )
+}
@@ -4,11 +4,17 @@ import { useState, useEffect, useCallback, useRef } from "react"
 import Link from "next/link"
 import { useTranslations } from "next-intl"
 import { useSession } from "next-auth/react"
-import { X, ShoppingCart, Trash2, Minus, Plus, Loader2, CheckCircle2 } from "lucide-react"
+import { X, ShoppingCart, Trash2, Minus, Plus, Loader2, CheckCircle2, ArrowLeft, Mail } from "lucide-react"
 import { toast } from "sonner"
 import { getCart, addToCart, removeFromCart, updateQuantity, clearCart, clearCartOnServer, getEffectivePrice, cartItemKey, CART_KEY, fetchServerCart, mergeServerCartIntoLocal, syncCartToServer, syncCartItemToServer, deleteCartItemFromServer, type CartItem } from "@/lib/cart"
-import { parseTiers, getActiveTier, applyBulkDiscount, type BulkTier } from "@/lib/bulkDiscount"
+import type { PriceQuote } from "@/lib/pricing"
 import { UpsellCard, type UpsellProduct } from "./UpsellCard"
+import { isValidEmail } from "@/lib/validation"
+import { CartShippingStep, EMPTY_ADDRESS, isAddressComplete, type CheckoutAddress } from "./CartShippingStep"
+
+/** Cart lines as the pricing endpoints expect them */
+const toPricingItems = (items: CartItem[]) =>
+  items.map((i) => ({ productId: i.productId, packageId: i.packageId ?? null, variantId: i.variantId ?? null, quantity: i.quantity }))
 
 interface CartDrawerProps {
   open: boolean
@@ -26,35 +32,34 @@ export function CartDrawer({ open, onClose, locale }: CartDrawerProps) {
   const [upsellEnabled, setUpsellEnabled] = useState(true)
   const [upsellOpenOnAdd, setUpsellOpenOnAdd] = useState("upsell")
 
-  interface ShippingSettings {
-    freeShippingEnabled: boolean
-    freeShippingThreshold: number | null
-    freeShippingCurrency: string
-  }
-  const [shippingSettings, setShippingSettings] = useState<ShippingSettings | null>(null)
+  // Checkout step: physical carts pick a delivery address and shipping method before payment
+  const [checkoutStep, setCheckoutStep] = useState<"cart" | "shipping">("cart")
+  const [shippingAddress, setShippingAddress] = useState<CheckoutAddress>(EMPTY_ADDRESS)
+  const [addressId, setAddressId] = useState<string | null>(null)
+  const [saveAddress, setSaveAddress] = useState(true)
+  const [shippingMethodId, setShippingMethodId] = useState<string | null>(null)
+  // Guests check out with just an email — the order can be attached to an account later
+  const [guestEmail, setGuestEmail] = useState("")
+
+  // Server price quote — every amount in the drawer comes from the engine checkout charges with
+  const [quote, setQuote] = useState<PriceQuote | null>(null)
+  const [quotedCountry, setQuotedCountry] = useState<string | null>(null)
+  const [quoteError, setQuoteError] = useState<string | null>(null)
+  const [quoteLoading, setQuoteLoading] = useState(false)
+  const [showVatInput, setShowVatInput] = useState(false)
+  const [vatNumberInput, setVatNumberInput] = useState("")
+  const [vatNumber, setVatNumber] = useState("")
 
   useEffect(() => {
     fetch("/api/settings")
       .then(r => r.json())
       .then((data) => {
-        setShippingSettings({
-          freeShippingEnabled: data.freeShippingEnabled,
-          freeShippingThreshold: data.freeShippingThreshold,
-          freeShippingCurrency: data.freeShippingCurrency,
-        })
         setUpsellEnabled(data.upsellTabEnabled ?? true)
         setUpsellOpenOnAdd(data.upsellOpenOnAdd ?? "upsell")
-        if (data.bulkDiscountEnabled) {
-          setBulkEnabled(true)
-          setGlobalBulkTiers(parseTiers(data.bulkDiscountTiers ?? "[]"))
-        }
       })
-      .catch(() => {}) // Silently fail — bar simply won't show
+      .catch(() => {})
   }, [])
 
-  const [bulkEnabled, setBulkEnabled] = useState(false)
-  const [globalBulkTiers, setGlobalBulkTiers] = useState<BulkTier[]>([])
-
   const [couponInput, setCouponInput] = useState("")
   const [appliedCoupon, setAppliedCoupon] = useState<{
     couponId: string; code: string; type: string; value: string; discountAmount: number; currency: string; eligibleProductIds: string[]
@@ -83,50 +88,6 @@ export function CartDrawer({ open, onClose, locale }: CartDrawerProps) {
     setItems(getCart())
   }, [])
 
-  // Refresh prices for stale cart items (added with old code that baked bulk discount into price)
-  useEffect(() => {
-    const currentItems = getCart()
-    if (currentItems.length === 0) return
-
-    // Detect stale items: missing bulkDiscountTiers field (old format) OR salePrice === price (old bulk-discount fingerprint)
-    const stale = currentItems.filter(
-      (i) =>
-        i.bulkDiscountTiers === undefined ||
-        (i.onSale && i.salePrice != null && i.salePrice === i.price)
-    )
-    if (stale.length === 0) return
-
-    const ids = stale
-      .map((i) => (i.packageId ? `${i.productId}:${i.packageId}` : i.productId))
-      .join(",")
-
-    fetch(`/api/cart/prices?items=${encodeURIComponent(ids)}`)
-      .then((r) => r.json())
-      .then((fresh: Array<{ productId: string; packageId: string | null; price: string | null; salePrice: string | null; onSale: boolean; bulkDiscountTiers: string; bulkDiscountExpiresAt: string | null }>) => {
-        const cart = getCart()
-        let updated = false
-        for (const f of fresh) {
-          if (!f.price) continue
-          const idx = cart.findIndex(
-            (i) => i.productId === f.productId && (i.packageId ?? null) === f.packageId
-          )
-          if (idx < 0) continue
-          cart[idx].price = f.price
-          cart[idx].salePrice = f.salePrice
-          cart[idx].onSale = f.onSale
-          cart[idx].bulkDiscountTiers = f.bulkDiscountTiers
-          cart[idx].bulkDiscountExpiresAt = f.bulkDiscountExpiresAt ?? null
-          updated = true
-        }
-        if (updated) {
-          localStorage.setItem(CART_KEY, JSON.stringify(cart))
-          window.dispatchEvent(new Event("cart-updated"))
-        }
-      })
-      .catch(() => {})
-  // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [])
-
   // Hydration-safe: load cart only on client
   useEffect(() => {
     refresh()
@@ -149,50 +110,62 @@ export function CartDrawer({ open, onClose, locale }: CartDrawerProps) {
     }
   }, [open])
 
-  // Reset tab to cart when drawer closes
+  // Reset tab and checkout step when drawer closes
   useEffect(() => {
-    if (!open) setActiveTab("cart")
+    if (!open) {
+      setActiveTab("cart")
+      setCheckoutStep("cart")
+    }
   }, [open])
 
+  // Pre-apply a coupon handed over from the product page (after the cart has updated)
+  const autoApplyCoupon = useCallback((couponCode: string) => {
+    setCouponInput(couponCode)
+    setTimeout(() => {
+      const currentItems = getCart()
+      if (!currentItems.length) return
+      fetch("/api/cart/coupon/validate", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          code: couponCode.toUpperCase(),
+          items: toPricingItems(currentItems),
+        }),
+      })
+        .then(r => r.json())
+        .then(data => {
+          if (data.valid) {
+            setAppliedCoupon(data)
+            setCouponInput(data.code)
+            setCouponError("")
+          }
+        })
+        .catch(() => {})
+    }, 300)
+  }, [])
+
   // open-cart-upsell: switch to upsell tab + optionally pre-apply a coupon
   useEffect(() => {
     const handler = (e: Event) => {
       if (upsellOpenOnAdd === "upsell") setActiveTab("upsell")
       const couponCode = (e as CustomEvent).detail?.couponCode as string | undefined
-      if (couponCode) {
-        setCouponInput(couponCode)
-        setTimeout(() => {
-          const currentItems = getCart()
-          if (!currentItems.length) return
-          fetch("/api/cart/coupon/validate", {
-            method: "POST",
-            headers: { "Content-Type": "application/json" },
-            body: JSON.stringify({
-              code: couponCode.toUpperCase(),
-              items: currentItems.map(i => ({
-                productId: i.productId,
-                packageId: i.packageId ?? null,
-                onSale: !!i.onSale,
-                currency: i.currency,
-                quantity: i.quantity,
-              })),
-            }),
-          })
-            .then(r => r.json())
-            .then(data => {
-              if (data.valid) {
-                setAppliedCoupon(data)
-                setCouponInput(data.code)
-                setCouponError("")
-              }
-            })
-            .catch(() => {})
-        }, 300)
-      }
+      if (couponCode) autoApplyCoupon(couponCode)
     }
     window.addEventListener("open-cart-upsell", handler)
     return () => window.removeEventListener("open-cart-upsell", handler)
-  }, [upsellOpenOnAdd])
+  }, [upsellOpenOnAdd, autoApplyCoupon])
+
+  // open-cart-checkout: "Buy now" on a physical product jumps straight to the shipping step
+  useEffect(() => {
+    const handler = (e: Event) => {
+      setActiveTab("cart")
+      setCheckoutStep("shipping")
+      const couponCode = (e as CustomEvent).detail?.couponCode as string | undefined
+      if (couponCode) autoApplyCoupon(couponCode)
+    }
+    window.addEventListener("open-cart-checkout", handler)
+    return () => window.removeEventListener("open-cart-checkout", handler)
+  }, [autoApplyCoupon])
 
   // Cart sync: restore sessionStorage backup and merge server cart on login
   useEffect(() => {
@@ -327,13 +300,9 @@ export function CartDrawer({ open, onClose, locale }: CartDrawerProps) {
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({
           code: couponInput.trim().toUpperCase(),
-          items: currentItems.map(i => ({
-            productId: i.productId,
-            packageId: i.packageId ?? null,
-            onSale: !!i.onSale,
-            currency: i.currency,
-            quantity: i.quantity,
-          })),
+          items: toPricingItems(currentItems),
+          country: needsShipping ? shippingCountry || null : null,
+          vatNumber: vatNumber || null,
         }),
       })
       const data = await res.json()
@@ -355,12 +324,8 @@ export function CartDrawer({ open, onClose, locale }: CartDrawerProps) {
     }
   }
 
+  // An applied coupon stays — the next quote re-checks it and drops it if it no longer applies
   const handleRemove = (key: string) => {
-    if (appliedCoupon) {
-      setAppliedCoupon(null)
-      setCouponInput("")
-      toast.info(t("couponRemoved"))
-    }
     const item = items?.find((i) => cartItemKey(i.productId, i.packageId) === key)
     removeFromCart(key)
     window.dispatchEvent(new Event("cart-updated"))
@@ -370,11 +335,6 @@ export function CartDrawer({ open, onClose, locale }: CartDrawerProps) {
   }
 
   const handleQty = (key: string, delta: number) => {
-    if (appliedCoupon) {
-      setAppliedCoupon(null)
-      setCouponInput("")
-      toast.info(t("couponRemoved"))
-    }
     const item = items?.find((i) => cartItemKey(i.productId, i.packageId) === key)
     if (!item) return
     const newQty = item.quantity + delta
@@ -389,27 +349,57 @@ export function CartDrawer({ open, onClose, locale }: CartDrawerProps) {
     }
   }
 
+  const goToLogin = () => {
+    // Back up cart to sessionStorage — survives OAuth external redirects
+    try {
+      const cart = localStorage.getItem(CART_KEY)
+      if (cart && cart !== "[]") sessionStorage.setItem("d4d-cart-backup", cart)
+    } catch {}
+    const callbackUrl = encodeURIComponent(window.location.pathname + "?openCart=1")
+    window.location.href = `/login?callbackUrl=${callbackUrl}`
+  }
+
   const handleCheckout = async () => {
     if (!items || items.length === 0) return
     if (status === "loading") return  // Wait until session resolves
-    if (!session) {
-      // Back up cart to sessionStorage — survives OAuth external redirects
-      try {
-        const cart = localStorage.getItem(CART_KEY)
-        if (cart && cart !== "[]") sessionStorage.setItem("d4d-cart-backup", cart)
-      } catch {}
-      const callbackUrl = encodeURIComponent(window.location.pathname + "?openCart=1")
-      window.location.href = `/login?callbackUrl=${callbackUrl}`
+    // Guests always get the details step for their email; physical carts also need an address
+    if ((needsShipping || !session) && checkoutStep === "cart") {
+      setCheckoutStep("shipping")
+      return
+    }
+    if (!session && !isValidEmail(guestEmail.trim())) {
+      toast.error(t("guestEmailInvalid"))
       return
     }
+    if (needsShipping) {
+      if (!isAddressComplete(shippingAddress)) {
+        toast.error(t("addressIncomplete"))
+        return
+      }
+      if (!selectedShipping) {
+        toast.error(t("selectShippingMethod"))
+        return
+      }
+    }
     setLoading(true)
     try {
+      if (session && needsShipping && !addressId && saveAddress) {
+        // Save to the address book — checkout continues even if this fails
+        await fetch("/api/user/addresses", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify(shippingAddress),
+        }).catch(() => {})
+      }
       const res = await fetch("/api/checkout/cart", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({
-          items: items.map((i) => ({ productId: i.productId, packageId: i.packageId ?? null, quantity: i.quantity })),
+          items: toPricingItems(items),
           ...(appliedCoupon ? { couponCode: appliedCoupon.code } : {}),
+          ...(needsShipping ? { shippingAddress, shippingMethodId: selectedShipping?.id } : {}),
+          ...(vatNumber && !quote?.tax.vatNumberError ? { vatNumber } : {}),
+          ...(session ? {} : { email: guestEmail.trim() }),
         }),
       })
       const data = await res.json()
@@ -428,40 +418,81 @@ export function CartDrawer({ open, onClose, locale }: CartDrawerProps) {
     }
   }
 
-  // Compute the bulk-aware effective unit price for a cart item.
-  // Product-level tiers apply if set and not expired; global tiers only if bulkEnabled.
-  const getBulkUnitPrice = (item: CartItem): number => {
-    const base = getEffectivePrice(item)  // sale price if on sale, else regular price
-    if (item.quantity <= 1) return base
-    const productTiers = parseTiers(item.bulkDiscountTiers || "")
-    const productTiersActive = productTiers.length > 0 &&
-      (!item.bulkDiscountExpiresAt || new Date(item.bulkDiscountExpiresAt) > new Date())
-    const activeTiers = productTiersActive ? productTiers : (bulkEnabled ? globalBulkTiers : [])
-    if (activeTiers.length === 0) return base
-    const tier = getActiveTier(item.quantity, activeTiers)
-    return tier ? Math.max(applyBulkDiscount(base, tier), 0.01) : base
-  }
-
-  const subtotal = items
-    ? items.reduce((sum, item) => sum + getBulkUnitPrice(item) * item.quantity, 0)
-    : 0
+  const currency = quote?.currency || items?.[0]?.currency || "EUR"
+  const needsShipping = !!items?.some((i) => i.fileType !== "digital")
+  const shippingCountry = shippingAddress.country
+  const pricingItems = items && items.length > 0 ? JSON.stringify(toPricingItems(items)) : ""
+  const appliedCouponId = appliedCoupon?.couponId ?? null
+  // The fee is only charged once a method is picked in the shipping step
+  const quoteMethodId = checkoutStep === "shipping" ? shippingMethodId : null
 
-  const currency = items?.[0]?.currency || "EUR"
-
-  // Effective total after coupon discount (used for free shipping and total display)
-  const effectiveTotal = appliedCoupon
-    ? Math.max(subtotal - appliedCoupon.discountAmount, 0.50)
-    : subtotal
-
-  // Free shipping progress — based on post-discount total, only when enabled, threshold > 0, currencies match
-  const threshold = shippingSettings?.freeShippingThreshold ?? 0
-  const showFreeShipping =
-    !!shippingSettings?.freeShippingEnabled &&
-    threshold > 0 &&
-    shippingSettings.freeShippingCurrency === currency
-  const progress = showFreeShipping ? Math.min(effectiveTotal / threshold, 1) : 0
-  const amountLeft = showFreeShipping ? Math.max(threshold - effectiveTotal, 0) : 0
-  const qualifies = showFreeShipping && effectiveTotal >= threshold
+  // Price quote — same rules as /api/checkout/cart (delivery country, else VAT number / location)
+  useEffect(() => {
+    if (!pricingItems) {
+      setQuote(null)
+      setQuoteError(null)
+      return
+    }
+    let cancelled = false
+    const country = needsShipping ? shippingCountry || null : null
+    setQuoteLoading(true)
+    fetch("/api/cart/quote", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        items: JSON.parse(pricingItems),
+        couponId: appliedCouponId,
+        country,
+        vatNumber: vatNumber || null,
+        shippingMethodId: quoteMethodId,
+      }),
+    })
+      .then(async (r) => {
+        const data = await r.json()
+        if (cancelled) return
+        if (!r.ok) {
+          setQuoteError(data.error || t("checkoutFailed"))
+          return
+        }
+        const next = data as PriceQuote
+        setQuote(next)
+        setQuotedCountry(country)
+        setQuoteError(null)
+        if (appliedCouponId && !next.coupon) {
+          // No longer applies to this cart or destination
+          setAppliedCoupon(null)
+          setCouponInput("")
+          toast.info(t("couponRemoved"))
+        }
+        setShippingMethodId((prev) =>
+          next.shipping.options.some((o) => o.id === prev) ? prev : (next.shipping.options[0]?.id ?? null)
+        )
+      })
+      .catch(() => {}) // Silently fail — catalog prices are shown
+      .finally(() => { if (!cancelled) setQuoteLoading(false) })
+    return () => { cancelled = true }
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [pricingItems, appliedCouponId, needsShipping, shippingCountry, vatNumber, quoteMethodId])
+
+  const getQuoteLine = (item: CartItem) =>
+    quote?.lines.find((l) => l.productId === item.productId && l.packageId === (item.packageId ?? null)) ?? null
+
+  const subtotal = quote?.subtotal
+    ?? (items ? items.reduce((sum, item) => sum + getEffectivePrice(item) * item.quantity, 0) : 0)
+  const discount = quote?.discount ?? 0
+  const itemsTotal = quote?.itemsTotal ?? subtotal
+  const shippingOptions = quote?.shipping.options ?? null
+  const selectedShipping = shippingOptions?.find((o) => o.id === shippingMethodId) ?? null
+  const shippingFee = checkoutStep === "shipping" ? (quote?.shippingFee ?? 0) : 0
+  const zeroRated = !!quote && (quote.tax.reverseCharge || quote.tax.exportSale)
+
+  // Free shipping progress — based on post-discount total and the selected method's threshold
+  // (the lowest available threshold until a method is chosen)
+  const threshold = (selectedShipping ? selectedShipping.freeShippingThreshold : quote?.shipping.freeShippingThreshold) ?? 0
+  const showFreeShipping = needsShipping && threshold > 0
+  const progress = showFreeShipping ? Math.min(itemsTotal / threshold, 1) : 0
+  const amountLeft = showFreeShipping ? Math.max(threshold - itemsTotal, 0) : 0
+  const qualifies = showFreeShipping && itemsTotal >= threshold
 
   const totalCount = items ? items.reduce((sum, i) => sum + i.quantity, 0) : 0
 
@@ -508,7 +539,7 @@ export function CartDrawer({ open, onClose, locale }: CartDrawerProps) {
         </div>
 
         {/* Tab bar — shown only when upsell is enabled and cart has items */}
-        {upsellEnabled && items && items.length > 0 && (
+        {upsellEnabled && checkoutStep === "cart" && items && items.length > 0 && (
           <div className="flex border-b border-white/10 shrink-0">
             <button
               onClick={() => setActiveTab("cart")}
@@ -550,8 +581,52 @@ export function CartDrawer({ open, onClose, locale }: CartDrawerProps) {
           </div>
         )}
 
+        {/* Details step — guest email, then delivery address and method for physical carts */}
+        {activeTab === "cart" && checkoutStep === "shipping" && items && items.length > 0 && (
+          <div className="flex-1 overflow-y-auto overscroll-contain">
+            {!session && (
+              <div className={`px-5 pt-5 space-y-3 ${needsShipping ? "" : "pb-5"}`}>
+                <div className="flex items-center gap-2">
+                  <Mail className="w-4 h-4 text-emerald-400" />
+                  <h3 className="text-sm font-semibold text-white">{t("guestContact")}</h3>
+                </div>
+                <input
+                  type="email"
+                  value={guestEmail}
+                  onChange={e => setGuestEmail(e.target.value)}
+                  placeholder={t("guestEmail")}
+                  autoComplete="email"
+                  className="w-full px-3 py-2 rounded-xl bg-white/5 border border-white/10 text-white text-base sm:text-sm placeholder:text-slate-500 focus:outline-none focus:border-emerald-500/50 touch-manipulation"
+                />
+                <p className="text-xs text-slate-500">
+                  {t("guestEmailHint")}{" "}
+                  <button onClick={goToLogin} className="text-emerald-400 hover:text-emerald-300 underline underline-offset-2 touch-manipulation">
+                    {t("guestLogin")}
+                  </button>
+                </p>
+              </div>
+            )}
+            {needsShipping && (
+              <CartShippingStep
+                guest={!session}
+                locale={locale}
+                currency={currency}
+                address={shippingAddress}
+                addressId={addressId}
+                onAddressChange={(address, id) => { setShippingAddress(address); setAddressId(id) }}
+                saveAddress={saveAddress}
+                onSaveAddressChange={setSaveAddress}
+                options={shippingOptions}
+                optionsLoading={quoteLoading && quotedCountry !== shippingCountry}
+                selectedMethodId={shippingMethodId}
+                onSelectMethod={setShippingMethodId}
+              />
+            )}
+          </div>
+        )}
+
         {/* Items list — only on cart tab */}
-        {activeTab === "cart" && <div className="flex-1 overflow-y-auto overscroll-contain">
+        {activeTab === "cart" && checkoutStep === "cart" && <div className="flex-1 overflow-y-auto overscroll-contain">
           {items === null ? (
             // Loading skeleton
             <div className="p-5 space-y-4">
@@ -585,13 +660,14 @@ export function CartDrawer({ open, onClose, locale }: CartDrawerProps) {
             // Cart items
             <ul className="divide-y divide-white/5 px-5">
               {items.map((item) => {
-                const baseUnitPrice = getEffectivePrice(item)   // pre-bulk price
-                const effectivePrice = getBulkUnitPrice(item)   // bulk-adjusted price
+                const line = getQuoteLine(item)
+                const baseUnitPrice = line?.unitPrice ?? getEffectivePrice(item)   // pre-bulk price
+                const effectivePrice = line?.bulkUnitPrice ?? baseUnitPrice   // bulk-adjusted price
+                const listPrice = line?.listPrice ?? parseFloat(item.price)
                 const hasBulkDiscount = effectivePrice < baseUnitPrice
+                const hasSaleDiscount = (line?.onSale ?? !!item.onSale) && baseUnitPrice < listPrice
                 // Only show as "on sale" if there's an actual price reduction visible
-                const isOnSale = hasBulkDiscount ||
-                  (item.onSale && item.salePrice != null &&
-                    parseFloat(item.salePrice) < parseFloat(item.price))
+                const isOnSale = hasBulkDiscount || hasSaleDiscount
                 const itemKey = cartItemKey(item.productId, item.packageId)
                 return (
                   <li key={itemKey} className="py-4 flex gap-3">
@@ -659,10 +735,9 @@ export function CartDrawer({ open, onClose, locale }: CartDrawerProps) {
                               <span className="text-xs text-slate-500 line-through">
                                 {baseUnitPrice.toFixed(2)}
                               </span>
-                            ) : item.onSale && item.salePrice != null &&
-                              parseFloat(item.salePrice) < parseFloat(item.price) ? (
+                            ) : hasSaleDiscount ? (
                               <span className="text-xs text-slate-500 line-through">
-                                {parseFloat(item.price).toFixed(2)}
+                                {listPrice.toFixed(2)}
                               </span>
                             ) : null}
                           </div>
@@ -671,7 +746,7 @@ export function CartDrawer({ open, onClose, locale }: CartDrawerProps) {
                           )}
                         </div>
                         <span className="text-sm font-bold text-white shrink-0">
-                          {(effectivePrice * item.quantity).toFixed(2)} {item.currency}
+                          {(line?.lineSubtotal ?? effectivePrice * item.quantity).toFixed(2)} {item.currency}
                         </span>
                       </div>
 
@@ -721,9 +796,10 @@ export function CartDrawer({ open, onClose, locale }: CartDrawerProps) {
                 {subtotal.toFixed(2)} {currency}
               </span>
             </div>
+            {quoteError && <p className="text-xs text-red-400">{quoteError}</p>}
 
             {/* Coupon input / applied badge */}
-            {!appliedCoupon ? (
+            {checkoutStep === "shipping" ? null : !appliedCoupon ? (
               <div className="space-y-1.5">
                 <div className="flex gap-2">
                   <input
@@ -759,23 +835,88 @@ export function CartDrawer({ open, onClose, locale }: CartDrawerProps) {
               </div>
             )}
             {appliedCoupon && (
-              <>
-                <div className="flex items-center justify-between text-sm">
-                  <span className="text-emerald-400">
-                    {t("discount")}
-                    <span className="ml-1.5 text-xs text-emerald-500 font-mono">
-                      ({appliedCoupon.type === "percentage"
-                        ? `${appliedCoupon.value}%`
-                        : `${Number(appliedCoupon.value).toFixed(2)} ${appliedCoupon.currency}`})
-                    </span>
+              <div className="flex items-center justify-between text-sm">
+                <span className="text-emerald-400">
+                  {t("discount")}
+                  <span className="ml-1.5 text-xs text-emerald-500 font-mono">
+                    ({appliedCoupon.type === "percentage"
+                      ? `${appliedCoupon.value}%`
+                      : `${Number(appliedCoupon.value).toFixed(2)} ${appliedCoupon.currency}`})
                   </span>
-                  <span className="text-emerald-400 font-semibold">−{appliedCoupon.discountAmount.toFixed(2)} {appliedCoupon.currency}</span>
+                </span>
+                <span className="text-emerald-400 font-semibold">−{(quote ? discount : appliedCoupon.discountAmount).toFixed(2)} {currency}</span>
+              </div>
+            )}
+            {checkoutStep === "shipping" && selectedShipping && (
+              <div className="flex items-center justify-between text-sm">
+                <span className="text-slate-400">{t("shipping")}</span>
+                <span className={shippingFee === 0 ? "text-emerald-400 font-semibold" : "text-white font-semibold"}>
+                  {shippingFee === 0 ? t("free") : `${shippingFee.toFixed(2)} ${currency}`}
+                </span>
+              </div>
+            )}
+
+            {/* VAT — included amount, or why none is charged */}
+            {quote && (
+              <div className="flex items-center justify-between text-xs">
+                <span className="text-slate-500">
+                  {quote.tax.reverseCharge ? t("vatReverseCharge") : quote.tax.exportSale ? t("vatExport") : t("vatIncluded")}
+                </span>
+                {!zeroRated && <span className="text-slate-400">{quote.vatAmount.toFixed(2)} {currency}</span>}
+              </div>
+            )}
+
+            {/* Business purchase — VAT number for reverse charge */}
+            {checkoutStep === "cart" && (
+              !showVatInput && !vatNumber ? (
+                <button
+                  onClick={() => setShowVatInput(true)}
+                  className="text-xs text-slate-400 hover:text-white underline underline-offset-2 touch-manipulation"
+                >
+                  {t("businessPurchase")}
+                </button>
+              ) : vatNumber && !quote?.tax.vatNumberError ? (
+                <div className="flex items-center justify-between text-sm bg-white/5 border border-white/10 rounded-xl px-3 py-2">
+                  <span className="font-mono text-slate-300 text-xs">{t("vatNumberApplied", { vatNumber })}</span>
+                  <button
+                    onClick={() => { setVatNumber(""); setVatNumberInput(""); setShowVatInput(false) }}
+                    className="text-slate-400 hover:text-white touch-manipulation"
+                  >
+                    <X className="w-3.5 h-3.5" />
+                  </button>
                 </div>
-                <div className="flex items-center justify-between border-t border-white/10 pt-2">
-                  <span className="text-white font-semibold text-sm">{t("total")}</span>
-                  <span className="text-white font-bold text-base">{effectiveTotal.toFixed(2)} {currency}</span>
+              ) : (
+                <div className="space-y-1.5">
+                  <div className="flex gap-2">
+                    <input
+                      type="text"
+                      value={vatNumberInput}
+                      onChange={e => setVatNumberInput(e.target.value.toUpperCase())}
+                      onKeyDown={e => e.key === "Enter" && setVatNumber(vatNumberInput.trim())}
+                      placeholder={t("vatNumberPlaceholder")}
+                      className="flex-1 min-w-0 px-3 py-2 rounded-xl bg-white/5 border border-white/10 text-white text-base sm:text-sm font-mono placeholder:text-slate-500 focus:outline-none focus:border-emerald-500/50 touch-manipulation"
+                    />
+                    <button
+                      onClick={() => setVatNumber(vatNumberInput.trim())}
+                      disabled={!vatNumberInput.trim()}
+                      className="shrink-0 px-3 h-10 rounded-xl border border-white/10 text-white text-sm font-medium disabled:opacity-50 touch-manipulation whitespace-nowrap"
+                    >
+                      {t("applyVatNumber")}
+                    </button>
+                  </div>
+                  {vatNumber && quote?.tax.vatNumberError ? (
+                    <p className="text-xs text-red-400">{t("vatNumberInvalid")}</p>
+                  ) : (
+                    <p className="text-xs text-slate-500">{t("vatNumberHint")}</p>
+                  )}
                 </div>
-              </>
+              )
+            )}
+            {(discount > 0 || shippingFee > 0) && (
+              <div className="flex items-center justify-between border-t border-white/10 pt-2">
+                <span className="text-white font-semibold text-sm">{t("total")}</span>
+                <span className="text-white font-bold text-base">{(quote?.total ?? itemsTotal + shippingFee).toFixed(2)} {currency}</span>
+              </div>
             )}
 
             {/* Free shipping progress bar */}
@@ -810,14 +951,24 @@ export function CartDrawer({ open, onClose, locale }: CartDrawerProps) {
               {(loading || status === "loading") ? (
                 <Loader2 className="w-4 h-4 animate-spin" />
               ) : null}
-              {t("checkout")}
-            </button>
-            <button
-              onClick={onClose}
-              className="w-full py-2.5 rounded-xl text-sm text-slate-400 hover:text-white hover:bg-white/5 transition-colors touch-manipulation"
-            >
-              {t("continueShopping")}
+              {checkoutStep === "shipping" ? t("proceedToPayment") : t("checkout")}
             </button>
+            {checkoutStep === "shipping" ? (
+              <button
+                onClick={() => setCheckoutStep("cart")}
+                className="w-full py-2.5 rounded-xl text-sm text-slate-400 hover:text-white hover:bg-white/5 transition-colors touch-manipulation flex items-center justify-center gap-1.5"
+              >
+                <ArrowLeft className="w-3.5 h-3.5" />
+                {t("backToCart")}
+              </button>
+            ) : (
+              <button
+                onClick={onClose}
+                className="w-full py-2.5 rounded-xl text-sm text-slate-400 hover:text-white hover:bg-white/5 transition-colors touch-manipulation"
+              >
+                {t("continueShopping")}
+              </button>
+            )}
           </div>
         )}
 
@@ -0,0 +1,229 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { useTranslations } from "next-intl"
+import { MapPin, Truck, Loader2 } from "lucide-react"
+import { SHIPPING_COUNTRIES, getCountryName } from "@/lib/countries"
+
+export interface CheckoutAddress {
+  fullName: string
+  phone: string
+  line1: string
+  line2: string
+  city: string
+  postalCode: string
+  country: string
+}
+
+export interface CheckoutShippingOption {
+  id: string
+  nameBg: string
+  nameEn: string
+  nameEs: string
+  estimatedDays: string | null
+  fee: number
+  freeShippingThreshold: number | null
+}
+
+interface SavedAddress extends CheckoutAddress {
+  id: string
+  label: string | null
+  isDefault: boolean
+}
+
+export const EMPTY_ADDRESS: CheckoutAddress = {
+  fullName: "", phone: "", line1: "", line2: "", city: "", postalCode: "", country: "",
+}
+
+export function isAddressComplete(a: CheckoutAddress): boolean {
+  return !!(a.fullName.trim() && a.phone.trim() && a.line1.trim() && a.city.trim() && a.postalCode.trim() && a.country)
+}
+
+function toCheckoutAddress(a: SavedAddress): CheckoutAddress {
+  return {
+    fullName: a.fullName, phone: a.phone, line1: a.line1, line2: a.line2 ?? "",
+    city: a.city, postalCode: a.postalCode, country: a.country,
+  }
+}
+
+interface CartShippingStepProps {
+  guest?: boolean // no address book — nothing to load or save to
+  locale: string
+  currency: string
+  address: CheckoutAddress
+  addressId: string | null
+  onAddressChange: (address: CheckoutAddress, addressId: string | null) => void
+  saveAddress: boolean
+  onSaveAddressChange: (save: boolean) => void
+  options: CheckoutShippingOption[] | null
+  optionsLoading: boolean
+  selectedMethodId: string | null
+  onSelectMethod: (id: string) => void
+}
+
+const inputClass = "w-full px-3 py-2 rounded-xl bg-white/5 border border-white/10 text-white text-base sm:text-sm placeholder:text-slate-500 focus:outline-none focus:border-emerald-500/50 touch-manipulation"
+
+/** Delivery address + shipping method picker shown before payment for physical carts */
+export function CartShippingStep({
+  guest, locale, currency, address, addressId, onAddressChange, saveAddress, onSaveAddressChange,
+  options, optionsLoading, selectedMethodId, onSelectMethod,
+}: CartShippingStepProps) {
+  const t = useTranslations("cart")
+  const [savedAddresses, setSavedAddresses] = useState<SavedAddress[]>([])
+
+  // Load the address book once and preselect the default address
+  useEffect(() => {
+    if (guest) return
+    fetch("/api/user/addresses")
+      .then(r => (r.ok ? r.json() : []))
+      .then((data: SavedAddress[]) => {
+        if (!Array.isArray(data)) return
+        setSavedAddresses(data)
+        const preferred = data.find(a => a.isDefault) ?? data[0]
+        if (preferred && !addressId && !isAddressComplete(address)) {
+          onAddressChange(toCheckoutAddress(preferred), preferred.id)
+        }
+      })
+      .catch(() => {})
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [])
+
+  const setField = (field: keyof CheckoutAddress, value: string) => {
+    onAddressChange({ ...address, [field]: value }, null)
+  }
+
+  const getMethodName = (o: CheckoutShippingOption) =>
+    locale === "bg" ? o.nameBg || o.nameEn : locale === "es" ? o.nameEs || o.nameEn : o.nameEn
+
+  return (
+    <div className="p-5 space-y-5">
+      {/* Address */}
+      <div className="space-y-3">
+        <div className="flex items-center gap-2">
+          <MapPin className="w-4 h-4 text-emerald-400" />
+          <h3 className="text-sm font-semibold text-white">{t("shippingAddress")}</h3>
+        </div>
+
+        {savedAddresses.length > 0 && (
+          <div className="space-y-2">
+            {savedAddresses.map(a => (
+              <label
+                key={a.id}
+                className={`flex items-start gap-2.5 p-3 rounded-xl border cursor-pointer transition-colors ${
+                  addressId === a.id ? "border-emerald-500/40 bg-emerald-500/10" : "border-white/10 hover:border-white/20"
+                }`}
+              >
+                <input
+                  type="radio"
+                  name="saved-address"
+                  checked={addressId === a.id}
+                  onChange={() => onAddressChange(toCheckoutAddress(a), a.id)}
+                  className="mt-0.5 accent-emerald-500"
+                />
+                <span className="text-xs text-slate-300 leading-relaxed">
+                  {a.label && <span className="block text-white font-medium">{a.label}</span>}
+                  {a.fullName}, {a.line1}{a.line2 ? `, ${a.line2}` : ""}, {a.postalCode} {a.city}, {getCountryName(a.country, locale)}
+                </span>
+              </label>
+            ))}
+            <label
+              className={`flex items-center gap-2.5 p-3 rounded-xl border cursor-pointer transition-colors ${
+                addressId === null ? "border-emerald-500/40 bg-emerald-500/10" : "border-white/10 hover:border-white/20"
+              }`}
+            >
+              <input
+                type="radio"
+                name="saved-address"
+                checked={addressId === null}
+                onChange={() => onAddressChange(EMPTY_ADDRESS, null)}
+                className="accent-emerald-500"
+              />
+              <span className="text-xs text-slate-300">{t("newAddress")}</span>
+            </label>
+          </div>
+        )}
+
+        {addressId === null && (
+          <div className="space-y-2">
+            <input type="text" value={address.fullName} onChange={e => setField("fullName", e.target.value)} placeholder={t("fullName")} autoComplete="name" className={inputClass} />
+            <input type="tel" value={address.phone} onChange={e => setField("phone", e.target.value)} placeholder={t("phone")} autoComplete="tel" className={inputClass} />
+            <input type="text" value={address.line1} onChange={e => setField("line1", e.target.value)} placeholder={t("addressLine1")} autoComplete="address-line1" className={inputClass} />
+            <input type="text" value={address.line2} onChange={e => setField("line2", e.target.value)} placeholder={t("addressLine2")} autoComplete="address-line2" className={inputClass} />
+            <div className="flex gap-2">
+              <input type="text" value={address.postalCode} onChange={e => setField("postalCode", e.target.value)} placeholder={t("postalCode")} autoComplete="postal-code" className={`${inputClass} w-28 shrink-0`} />
+              <input type="text" value={address.city} onChange={e => setField("city", e.target.value)} placeholder={t("city")} autoComplete="address-level2" className={inputClass} />
+            </div>
+            <select
+              value={address.country}
+              onChange={e => setField("country", e.target.value)}
+              className={`${inputClass} bg-slate-950`}
+            >
+              <option value="">{t("selectCountry")}</option>
+              {SHIPPING_COUNTRIES.map(code => (
+                <option key={code} value={code}>{getCountryName(code, locale)}</option>
+              ))}
+            </select>
+            {!guest && (
+              <label className="flex items-center gap-2 text-xs text-slate-400">
+                <input
+                  type="checkbox"
+                  checked={saveAddress}
+                  onChange={e => onSaveAddressChange(e.target.checked)}
+                  className="accent-emerald-500"
+                />
+                {t("saveAddress")}
+              </label>
+            )}
+          </div>
+        )}
+      </div>
+
+      {/* Shipping method */}
+      <div className="space-y-3">
+        <div className="flex items-center gap-2">
+          <Truck className="w-4 h-4 text-emerald-400" />
+          <h3 className="text-sm font-semibold text-white">{t("shippingMethod")}</h3>
+        </div>
+        {!address.country ? (
+          <p className="text-xs text-slate-500">{t("selectCountryFirst")}</p>
+        ) : optionsLoading || options === null ? (
+          <div className="flex justify-center py-3">
+            <Loader2 className="w-4 h-4 animate-spin text-slate-400" />
+          </div>
+        ) : options.length === 0 ? (
+          <p className="text-xs text-red-400">{t("noShippingMethods")}</p>
+        ) : (
+          <div className="space-y-2">
+            {options.map(o => (
+              <label
+                key={o.id}
+                className={`flex items-center justify-between gap-2 p-3 rounded-xl border cursor-pointer transition-colors ${
+                  selectedMethodId === o.id ? "border-emerald-500/40 bg-emerald-500/10" : "border-white/10 hover:border-white/20"
+                }`}
+              >
+                <span className="flex items-center gap-2.5 min-w-0">
+                  <input
+                    type="radio"
+                    name="shipping-method"
+                    checked={selectedMethodId === o.id}
+                    onChange={() => onSelectMethod(o.id)}
+                    className="accent-emerald-500"
+                  />
+                  <span className="min-w-0">
+                    <span className="block text-sm text-white">{getMethodName(o)}</span>
+                    {o.estimatedDays && (
+                      <span className="block text-xs text-slate-500">{t("estimatedDays", { days: o.estimatedDays })}</span>
+                    )}
+                  </span>
+                </span>
+                <span className={`text-sm font-semibold shrink-0 ${o.fee === 0 ? "text-emerald-400" : "text-white"}`}>
+                  {o.fee === 0 ? t("free") : `${o.fee.toFixed(2)} ${currency}`}
+                </span>
+              </label>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
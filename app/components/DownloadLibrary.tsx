@@ -0,0 +1,156 @@
+"use client"
+
+import { useCallback, useEffect, useState } from "react"
+import Link from "next/link"
+import { useTranslations, useLocale } from "next-intl"
+import { Download, RefreshCw, Loader2, FileBox } from "lucide-react"
+
+interface LibraryItem {
+  id: string
+  product: { id: string; nameEn: string; nameBg: string; nameEs: string; image: string | null; fileThumbnail: string | null } | null
+  createdAt: string
+  expiresAt: string
+  status: "active" | "expired" | "used_up" | "revoked"
+  locked: boolean
+  downloadsLeft: number
+  maxDownloads: number
+  reissuesLeft: number
+  canReissue: boolean
+  downloadUrl: string | null
+}
+
+/** Every digital purchase on the profile page, with a way to get a fresh link once the old one lapses */
+export function DownloadLibrary() {
+  const t = useTranslations("profile")
+  const locale = useLocale()
+  const [items, setItems] = useState<LibraryItem[]>([])
+  const [loading, setLoading] = useState(true)
+  const [reissuing, setReissuing] = useState<string | null>(null)
+  const [error, setError] = useState("")
+
+  const fetchItems = useCallback(async () => {
+    try {
+      const res = await fetch("/api/user/downloads")
+      const data = res.ok ? await res.json() : []
+      setItems(Array.isArray(data) ? data : [])
+    } finally {
+      setLoading(false)
+    }
+  }, [])
+
+  useEffect(() => { fetchItems() }, [fetchItems])
+
+  const productName = (item: LibraryItem) => {
+    if (!item.product) return t("downloadUnknownProduct")
+    if (locale === "bg") return item.product.nameBg || item.product.nameEn
+    if (locale === "es") return item.product.nameEs || item.product.nameEn
+    return item.product.nameEn
+  }
+
+  const formatDate = (value: string) =>
+    new Date(value).toLocaleDateString(undefined, { year: "numeric", month: "short", day: "numeric" })
+
+  const handleReissue = async (id: string) => {
+    setReissuing(id)
+    setError("")
+    const res = await fetch("/api/user/downloads", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ id }),
+    })
+    setReissuing(null)
+    if (!res.ok) {
+      const err = await res.json().catch(() => ({}))
+      setError(err.error || t("downloadReissueFailed"))
+    }
+    fetchItems()
+  }
+
+  const statusLine = (item: LibraryItem) => {
+    if (item.locked) return t("downloadLocked")
+    switch (item.status) {
+      case "active":
+        return t("downloadActive", { left: item.downloadsLeft, max: item.maxDownloads, date: formatDate(item.expiresAt) })
+      case "expired":
+        return t("downloadExpired")
+      case "used_up":
+        return t("downloadUsedUp")
+      case "revoked":
+        return t("downloadRevoked")
+    }
+  }
+
+  return (
+    <div className="glass rounded-2xl border border-white/10 p-6">
+      <h3 className="text-lg font-semibold flex items-center gap-2 mb-6">
+        <Download className="w-5 h-5 text-emerald-400" />
+        {t("myDownloads")}
+      </h3>
+
+      {error && <p className="mb-4 text-sm text-red-400">{error}</p>}
+
+      {loading ? (
+        <div className="flex justify-center py-4">
+          <Loader2 className="w-5 h-5 animate-spin text-slate-400" />
+        </div>
+      ) : items.length === 0 ? (
+        <p className="text-sm text-slate-500 italic">{t("myDownloadsEmpty")}</p>
+      ) : (
+        <div className="space-y-3">
+          {items.map(item => {
+            const image = item.product?.image || item.product?.fileThumbnail
+            return (
+              <div key={item.id} className="flex flex-col sm:flex-row sm:items-center gap-3 p-4 rounded-xl border border-white/10">
+                <div className="flex items-center gap-3 min-w-0 flex-1">
+                  <div className="w-12 h-12 rounded-lg bg-white/5 overflow-hidden flex items-center justify-center shrink-0">
+                    {image ? (
+                      <img src={image} alt="" className="w-full h-full object-cover" />
+                    ) : (
+                      <FileBox className="w-5 h-5 text-slate-500" />
+                    )}
+                  </div>
+                  <div className="min-w-0 text-sm">
+                    <p className="text-white font-medium truncate">{productName(item)}</p>
+                    <p className="text-slate-500 text-xs">{t("downloadPurchased", { date: formatDate(item.createdAt) })}</p>
+                    <p className={`text-xs ${item.status === "active" && !item.locked ? "text-emerald-400" : "text-slate-400"}`}>
+                      {statusLine(item)}
+                      {item.locked && (
+                        <> <Link href="/my-orders" className="underline hover:text-white">{t("downloadAttachLink")}</Link></>
+                      )}
+                    </p>
+                  </div>
+                </div>
+                <div className="flex items-center gap-2 shrink-0">
+                  {item.downloadUrl && (
+                    <a
+                      href={item.downloadUrl}
+                      onClick={() => setTimeout(fetchItems, 2000)}
+                      className="flex items-center gap-2 px-4 py-2 rounded-lg bg-gradient-to-r from-emerald-500 to-cyan-500 text-sm text-white font-medium hover:shadow-lg hover:shadow-emerald-500/30 transition-all"
+                    >
+                      <Download className="w-4 h-4" />
+                      {t("downloadNow")}
+                    </a>
+                  )}
+                  {item.canReissue && item.status !== "active" && (
+                    <button
+                      onClick={() => handleReissue(item.id)}
+                      disabled={reissuing === item.id}
+                      title={t("downloadReissuesLeft", { count: item.reissuesLeft })}
+                      className="flex items-center gap-2 px-4 py-2 rounded-lg bg-white/5 hover:bg-white/10 border border-white/10 text-sm transition-colors disabled:opacity-40"
+                    >
+                      {reissuing === item.id ? <Loader2 className="w-4 h-4 animate-spin" /> : <RefreshCw className="w-4 h-4" />}
+                      {t("downloadReissue")}
+                    </button>
+                  )}
+                  {!item.locked && !item.canReissue && item.status !== "active" && item.status !== "revoked" && (
+                    <span className="text-xs text-slate-500">{t("downloadContactUs")}</span>
+                  )}
+                </div>
+              </div>
+            )
+          })}
+        </div>
+      )}
+    </div>
+  )
+}
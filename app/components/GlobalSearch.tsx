@@ -6,6 +6,9 @@ import { useRouter } from "next/navigation"
 import { useLocale, useTranslations } from "next-intl"
 import { Search, Package, FileText, Menu as MenuIcon, X, Clock, CornerDownLeft, ArrowRight } from "lucide-react"
 import type { Locale } from "@/i18n/config"
+import type { HighlightSegment, SearchClickType } from "@/lib/search"
+import { getSearchSessionKey, reportSearchClick } from "@/lib/searchTracking"
+import { HighlightedText } from "./HighlightedText"
 
 interface SearchProduct {
   id: string
@@ -22,6 +25,7 @@ interface SearchProduct {
   category: string
   fileType: string | null
   productUrl?: string
+  highlight: { name: HighlightSegment[]; snippet: HighlightSegment[] | null } | null
 }
 
 interface SearchContent {
@@ -48,10 +52,13 @@ interface SearchResponse {
   products: SearchProduct[]
   content: SearchContent[]
   menu: SearchMenuItem[]
+  searchId: string | null
+  redirect: string | null
 }
 
 interface FlatResult {
   id: string
+  kind: SearchClickType
   label: string
   sublabel: string
   href: string
@@ -62,6 +69,7 @@ interface FlatResult {
   salePrice?: number | null
   onSale?: boolean
   currency?: string
+  highlight?: HighlightSegment[]
 }
 
 const RECENT_SEARCHES_KEY = "d4d-recent-searches"
@@ -144,10 +152,25 @@ export function GlobalSearch() {
     if (!results) return []
     const flat: FlatResult[] = []
 
+    // An admin search rule sends this exact query to a page
+    if (results.redirect) {
+      flat.push({
+        id: results.redirect,
+        kind: "redirect",
+        label: t("goTo"),
+        sublabel: results.redirect,
+        href: results.redirect,
+        icon: ArrowRight,
+        section: t("suggested"),
+        image: null,
+      })
+    }
+
     if (results.products.length > 0) {
       for (const p of results.products) {
         flat.push({
           id: p.id,
+          kind: "product",
           label: getName(p),
           sublabel: p.category || p.priceType,
           href: p.productUrl || `/products/${p.slug}`,
@@ -158,6 +181,7 @@ export function GlobalSearch() {
           salePrice: p.salePrice,
           onSale: p.onSale,
           currency: p.currency,
+          highlight: p.highlight?.name,
         })
       }
     }
@@ -166,6 +190,7 @@ export function GlobalSearch() {
       for (const c of results.content) {
         flat.push({
           id: c.id,
+          kind: "content",
           label: getTitle(c),
           sublabel: c.type === "news" ? t("news") : t("services"),
           href: getContentUrl(c),
@@ -180,6 +205,7 @@ export function GlobalSearch() {
       for (const m of results.menu) {
         flat.push({
           id: m.id,
+          kind: "menu",
           label: getTitle(m),
           sublabel: "",
           href: `/${m.slug}`,
@@ -273,7 +299,7 @@ export function GlobalSearch() {
 
     setLoading(true)
     try {
-      const res = await fetch(`/api/search?q=${encodeURIComponent(q)}&limit=5`, {
+      const res = await fetch(`/api/search?q=${encodeURIComponent(q)}&limit=5&sid=${getSearchSessionKey()}`, {
         signal: controller.signal,
       })
       if (res.ok) {
@@ -322,6 +348,14 @@ export function GlobalSearch() {
     [router, query]
   )
 
+  const openResult = useCallback(
+    (item: FlatResult) => {
+      reportSearchClick(results?.searchId, item.kind, item.id)
+      navigateTo(item.href)
+    },
+    [results, navigateTo]
+  )
+
   // Keyboard navigation
   const handleKeyDown = (e: React.KeyboardEvent) => {
     switch (e.key) {
@@ -336,7 +370,7 @@ export function GlobalSearch() {
       case "Enter":
         e.preventDefault()
         if (flatResults[activeIndex]) {
-          navigateTo(flatResults[activeIndex].href)
+          openResult(flatResults[activeIndex])
         } else if (query.length >= 2) {
           navigateTo(`/search?q=${encodeURIComponent(query)}`)
         }
@@ -366,7 +400,7 @@ export function GlobalSearch() {
   const handleDesktopSubmit = (e: React.FormEvent) => {
     e.preventDefault()
     if (flatResults[activeIndex]) {
-      navigateTo(flatResults[activeIndex].href)
+      openResult(flatResults[activeIndex])
     } else if (query.length >= 2) {
       navigateTo(`/search?q=${encodeURIComponent(query)}`)
     }
@@ -437,7 +471,7 @@ export function GlobalSearch() {
                   <button
                     key={item.id}
                     ref={(el) => { resultRefs.current[item.flatIndex] = el }}
-                    onClick={() => navigateTo(item.href)}
+                    onClick={() => openResult(item)}
                     onMouseEnter={() => setActiveIndex(item.flatIndex)}
                     className={`flex items-center gap-3 px-4 py-2.5 w-full text-left transition-colors rounded-lg mx-2 ${
                       isActive ? "bg-white/5 text-white" : "text-gray-300 hover:bg-white/5"
@@ -453,7 +487,9 @@ export function GlobalSearch() {
                     ) : (
                       <Icon className={`w-4 h-4 shrink-0 ${isActive ? "text-emerald-400" : "text-gray-500"}`} />
                     )}
-                    <span className="text-sm font-medium truncate">{item.label}</span>
+                    <span className="text-sm font-medium truncate">
+                      <HighlightedText segments={item.highlight} fallback={item.label} />
+                    </span>
                     <span className="flex items-center gap-2 ml-auto shrink-0">
                       {item.onSale && item.salePrice != null ? (
                         <>
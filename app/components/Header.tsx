@@ -132,10 +132,12 @@ export function Header() {
         window.addEventListener("open-cart", openHandler)
         window.addEventListener("close-cart", closeHandler)
         window.addEventListener("open-cart-upsell", openUpsellHandler)
+        window.addEventListener("open-cart-checkout", openHandler)
         return () => {
             window.removeEventListener("open-cart", openHandler)
             window.removeEventListener("close-cart", closeHandler)
             window.removeEventListener("open-cart-upsell", openUpsellHandler)
+            window.removeEventListener("open-cart-checkout", openHandler)
         }
     }, [])
 
@@ -0,0 +1,19 @@
+import type { HighlightSegment } from "@/lib/search"
+
+interface HighlightedTextProps {
+  segments: HighlightSegment[] | null | undefined
+  fallback: string
+  markClassName?: string
+}
+
+/** Search match highlighting — segments render as text nodes, so indexed product copy is never parsed as HTML */
+export function HighlightedText({ segments, fallback, markClassName = "bg-emerald-500/25 text-emerald-300 rounded-sm px-0.5" }: HighlightedTextProps) {
+  if (!segments || segments.length === 0) return <>{fallback}</>
+  return (
+    <>
+      {segments.map((segment, i) =>
+        segment.match ? <mark key={i} className={markClassName}>{segment.text}</mark> : <span key={i}>{segment.text}</span>
+      )}
+    </>
+  )
+}
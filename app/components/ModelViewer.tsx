@@ -0,0 +1,238 @@
+"use client"
+
+import { useEffect, useMemo, useState } from "react"
+import { useTranslations } from "next-intl"
+import { Canvas } from "@react-three/fiber"
+import { OrbitControls } from "@react-three/drei"
+import * as THREE from "three"
+import { STLLoader } from "three/examples/jsm/loaders/STLLoader.js"
+import { OBJLoader } from "three/examples/jsm/loaders/OBJLoader.js"
+import { ThreeMFLoader } from "three/examples/jsm/loaders/3MFLoader.js"
+import { unzipSync, strFromU8 } from "three/examples/jsm/libs/fflate.module.js"
+import { Box, Grid3x3, RotateCcw } from "lucide-react"
+import { modelFormatOf, unitFrom3mf, DEFAULT_MODEL_UNIT, MODEL_UNITS, UNIT_TO_MM, type ModelUnit } from "@/lib/modelFormats"
+
+export type ModelSource = { file: File } | { url: string; fileName?: string | null }
+
+interface ModelViewerProps {
+    source: ModelSource
+    className?: string
+    unit?: ModelUnit | null // unit picked earlier for this file
+    onUnitChange?: (unit: ModelUnit) => void
+}
+
+interface LoadedModel {
+    object: THREE.Group
+    size: THREE.Vector3 // X × Y × Z in file units, Z up as in the slicer
+    fileUnit: ModelUnit | null // declared by the file (3MF only)
+}
+
+// Everything is scaled to this size so one camera setup fits any model
+const VIEW_SIZE = 2
+
+const material = () => new THREE.MeshStandardMaterial({ color: "#10b981", metalness: 0.1, roughness: 0.6 })
+
+function read3mfUnit(buffer: ArrayBuffer): ModelUnit | null {
+    try {
+        const files = unzipSync(new Uint8Array(buffer), { filter: (f) => f.name.toLowerCase().endsWith(".model") })
+        const xml = Object.values(files)[0]
+        const match = xml && strFromU8(xml.subarray(0, 4096)).match(/<model[^>]*\bunit="([a-z]+)"/)
+        return unitFrom3mf(match ? match[1] : "millimeter")
+    } catch {
+        return null
+    }
+}
+
+/** Parse a model into a group with our material, Z-up like slicers show it */
+function parseModel(buffer: ArrayBuffer, format: "stl" | "obj" | "3mf"): LoadedModel {
+    let object: THREE.Group
+    let fileUnit: ModelUnit | null = null
+    if (format === "stl") {
+        const geometry = new STLLoader().parse(buffer)
+        if (!geometry.getAttribute("normal")) geometry.computeVertexNormals()
+        object = new THREE.Group()
+        object.add(new THREE.Mesh(geometry, material()))
+    } else if (format === "obj") {
+        object = new OBJLoader().parse(new TextDecoder().decode(buffer))
+    } else {
+        object = new ThreeMFLoader().parse(buffer)
+        fileUnit = read3mfUnit(buffer)
+    }
+    object.traverse((child) => {
+        if (child instanceof THREE.Mesh) child.material = material()
+    })
+
+    const size = new THREE.Box3().setFromObject(object).getSize(new THREE.Vector3())
+    // OBJ is usually authored Y-up — report it as width × depth × height like the others
+    if (format === "obj") size.set(size.x, size.z, size.y)
+    else object.rotation.x = -Math.PI / 2
+    return { object, size, fileUnit }
+}
+
+function disposeModel(object: THREE.Object3D) {
+    object.traverse((child) => {
+        if (child instanceof THREE.Mesh) {
+            child.geometry.dispose()
+            ;(Array.isArray(child.material) ? child.material : [child.material]).forEach((m) => m.dispose())
+        }
+    })
+}
+
+/** The model centred on the origin and scaled to VIEW_SIZE, with its bounding box */
+function ModelScene({ model, wireframe, showBox }: { model: LoadedModel; wireframe: boolean; showBox: boolean }) {
+    const { root, box } = useMemo(() => {
+        const root = new THREE.Group()
+        root.add(model.object)
+        const bounds = new THREE.Box3().setFromObject(model.object)
+        const largest = Math.max(...bounds.getSize(new THREE.Vector3()).toArray()) || 1
+        root.scale.setScalar(VIEW_SIZE / largest)
+        root.position.copy(bounds.getCenter(new THREE.Vector3()).multiplyScalar(-VIEW_SIZE / largest))
+        root.updateMatrixWorld(true)
+        return { root, box: new THREE.Box3Helper(new THREE.Box3().setFromObject(model.object), "#06b6d4") }
+    }, [model])
+
+    useEffect(() => {
+        model.object.traverse((child) => {
+            if (child instanceof THREE.Mesh && child.material instanceof THREE.MeshStandardMaterial) {
+                child.material.wireframe = wireframe
+            }
+        })
+    }, [model, wireframe])
+
+    return (
+        <>
+            <primitive object={root} />
+            {showBox && <primitive object={box} />}
+        </>
+    )
+}
+
+export default function ModelViewer({ source, className, unit: pickedUnit, onUnitChange }: ModelViewerProps) {
+    const t = useTranslations("modelViewer")
+    const [model, setModel] = useState<LoadedModel | null>(null)
+    const [error, setError] = useState<string | null>(null)
+    const [wireframe, setWireframe] = useState(false)
+    const [showBox, setShowBox] = useState(true)
+    const [unit, setUnit] = useState<ModelUnit>("mm")
+    const [viewKey, setViewKey] = useState(0)
+
+    const sourceKey = "file" in source ? source.file : source.url
+    const fileName = "file" in source ? source.file.name : source.fileName || source.url
+
+    useEffect(() => {
+        let cancelled = false
+        let loaded: LoadedModel | null = null
+        const format = modelFormatOf(fileName)
+
+        const load = async () => {
+            setModel(null)
+            setError(null)
+            if (!format) {
+                setError(t("unsupported"))
+                return
+            }
+            try {
+                let buffer: ArrayBuffer
+                if ("file" in source) {
+                    buffer = await source.file.arrayBuffer()
+                } else {
+                    const res = await fetch(source.url)
+                    if (!res.ok) throw new Error(`HTTP ${res.status}`)
+                    buffer = await res.arrayBuffer()
+                }
+                if (cancelled) return
+                loaded = parseModel(buffer, format)
+                setUnit(pickedUnit ?? loaded.fileUnit ?? DEFAULT_MODEL_UNIT)
+                setModel(loaded)
+            } catch (err) {
+                console.error("Model preview error:", err instanceof Error ? err.message : "Unknown")
+                if (!cancelled) setError(t("loadFailed"))
+            }
+        }
+        load()
+
+        return () => {
+            cancelled = true
+            if (loaded) disposeModel(loaded.object)
+        }
+        // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, [sourceKey])
+
+    const defaultUnit = model ? model.fileUnit ?? DEFAULT_MODEL_UNIT : null
+    const dimensionsMm = model ? model.size.toArray().map((v) => v * UNIT_TO_MM[unit]) : null
+
+    return (
+        <div className={`relative rounded-xl bg-slate-950/60 border border-white/10 overflow-hidden ${className ?? "h-[280px] sm:h-[340px]"}`}>
+            {model ? (
+                <Canvas key={viewKey} camera={{ position: [2.4, 1.8, 2.8], fov: 45 }} style={{ background: "transparent" }}>
+                    <ambientLight intensity={0.6} />
+                    <directionalLight position={[5, 8, 5]} intensity={1.4} />
+                    <directionalLight position={[-5, -3, -5]} intensity={0.5} color="#06b6d4" />
+                    <ModelScene model={model} wireframe={wireframe} showBox={showBox} />
+                    <OrbitControls makeDefault enablePan={false} minDistance={1} maxDistance={12} />
+                </Canvas>
+            ) : (
+                <div className="flex items-center justify-center h-full px-4 text-center">
+                    {error ? (
+                        <p className="text-sm text-gray-400">{error}</p>
+                    ) : (
+                        <div className="w-8 h-8 border-2 border-emerald-500/30 border-t-emerald-500 rounded-full animate-spin" />
+                    )}
+                </div>
+            )}
+
+            {model && dimensionsMm && (
+                <>
+                    <div className="absolute top-2 right-2 flex items-center gap-1">
+                        <button
+                            type="button"
+                            onClick={() => setWireframe((w) => !w)}
+                            className={`p-2 rounded-lg transition-colors ${wireframe ? "bg-emerald-500/30 text-emerald-300" : "bg-black/40 text-gray-300 hover:bg-black/60"}`}
+                            title={t("wireframe")}
+                        >
+                            <Grid3x3 className="w-4 h-4" />
+                        </button>
+                        <button
+                            type="button"
+                            onClick={() => setShowBox((b) => !b)}
+                            className={`p-2 rounded-lg transition-colors ${showBox ? "bg-cyan-500/30 text-cyan-300" : "bg-black/40 text-gray-300 hover:bg-black/60"}`}
+                            title={t("boundingBox")}
+                        >
+                            <Box className="w-4 h-4" />
+                        </button>
+                        <button
+                            type="button"
+                            onClick={() => setViewKey((k) => k + 1)}
+                            className="p-2 rounded-lg bg-black/40 text-gray-300 hover:bg-black/60 transition-colors"
+                            title={t("resetView")}
+                        >
+                            <RotateCcw className="w-4 h-4" />
+                        </button>
+                    </div>
+                    <div className="absolute bottom-2 left-2 right-2 flex items-center justify-between gap-2 flex-wrap text-xs">
+                        <span className="px-2 py-1 rounded-lg bg-black/50 text-white font-mono">
+                            {dimensionsMm.map((v) => v.toFixed(1)).join(" × ")} mm
+                        </span>
+                        <label className="flex items-center gap-1.5 px-2 py-1 rounded-lg bg-black/50 text-gray-300">
+                            {t("fileUnit")}
+                            <select
+                                value={unit}
+                                onChange={(e) => {
+                                    setUnit(e.target.value as ModelUnit)
+                                    onUnitChange?.(e.target.value as ModelUnit)
+                                }}
+                                className="bg-transparent text-white focus:outline-none cursor-pointer"
+                            >
+                                {MODEL_UNITS.map((u) => (
+                                    <option key={u} value={u} className="bg-slate-900">
+                                        {u}{u === defaultUnit ? ` (${model.fileUnit ? t("fromFile") : t("default")})` : ""}
+                                    </option>
+                                ))}
+                            </select>
+                        </label>
+                    </div>
+                </>
+            )}
+        </div>
+    )
+}
@@ -0,0 +1,24 @@
+"use client"
+
+import dynamic from "next/dynamic"
+import type { ModelSource } from "./ModelViewer"
+import type { ModelUnit } from "@/lib/modelFormats"
+
+// three.js and the loaders only ship to pages that actually open a model
+const ModelViewer = dynamic(() => import("./ModelViewer"), {
+    ssr: false,
+    loading: () => (
+        <div className="w-full h-[280px] sm:h-[340px] flex items-center justify-center rounded-xl bg-slate-950/60 border border-white/10">
+            <div className="w-8 h-8 border-2 border-emerald-500/30 border-t-emerald-500 rounded-full animate-spin" />
+        </div>
+    ),
+})
+
+export function ModelViewerWrapper(props: {
+    source: ModelSource
+    className?: string
+    unit?: ModelUnit | null
+    onUnitChange?: (unit: ModelUnit) => void
+}) {
+    return <ModelViewer {...props} />
+}
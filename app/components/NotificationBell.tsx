@@ -4,11 +4,11 @@ import { useState, useEffect, useRef } from "react"
 import { createPortal } from "react-dom"
 import Link from "next/link"
 import { sanitizeHtml } from "@/lib/sanitize"
-import { Bell, X, MessageSquare, Ticket, Copy, Check, Heart, TrendingDown, Cake, Gift, ExternalLink, Percent, Clock, TreePine, PartyPopper, Egg, CalendarDays, Package } from "lucide-react"
+import { Bell, X, MessageSquare, Ticket, Copy, Check, Heart, TrendingDown, Cake, Gift, ExternalLink, Percent, Clock, TreePine, PartyPopper, Egg, CalendarDays, Package, Boxes } from "lucide-react"
 
 interface Notification {
   id: string
-  type: "quote_offer" | "admin_message" | "coupon" | "wishlist_price_drop" | "wishlist_coupon" | "stock_available" | "auto_birthday" | "auto_christmas" | "auto_new_year" | "auto_easter" | "auto_custom" | "coupon_reminder"
+  type: "quote_offer" | "admin_message" | "coupon" | "wishlist_price_drop" | "wishlist_coupon" | "stock_available" | "auto_birthday" | "auto_christmas" | "auto_new_year" | "auto_easter" | "auto_custom" | "coupon_reminder" | "quote_reminder" | "low_stock"
   title: string
   message: string
   link: string | null
@@ -295,6 +295,11 @@ export function NotificationBell({ translations: t, locale = "en" }: Notificatio
       if (notification.type === "coupon_reminder") return t.couponReminder
       if (notification.type === "auto_custom") return t.autoCustom
     }
+    // Quote expiry reminders and filament low-stock alerts — localized text stored as JSON
+    if (notification.type === "quote_reminder" || notification.type === "low_stock") {
+      const parsed = tryParseJson(notification.title)
+      if (parsed) return parsed[locale] || parsed.en || notification.title
+    }
     return notification.title
   }
 
@@ -368,6 +373,10 @@ export function NotificationBell({ translations: t, locale = "en" }: Notificatio
       if (parsed && parsed[locale]) return parsed[locale]
       if (parsed && parsed.en) return parsed.en
     }
+    if (notification.type === "quote_reminder" || notification.type === "low_stock") {
+      const parsed = tryParseJson(notification.message)
+      if (parsed) return parsed[locale] || parsed.en || notification.message
+    }
     return notification.message
   }
 
@@ -460,6 +469,20 @@ export function NotificationBell({ translations: t, locale = "en" }: Notificatio
         </div>
       )
     }
+    if (notification.type === "quote_reminder") {
+      return (
+        <div className="shrink-0 w-10 h-10 rounded-full bg-blue-500/20 flex items-center justify-center">
+          <Clock className="w-5 h-5 text-blue-400" />
+        </div>
+      )
+    }
+    if (notification.type === "low_stock") {
+      return (
+        <div className="shrink-0 w-10 h-10 rounded-full bg-orange-500/20 flex items-center justify-center">
+          <Boxes className="w-5 h-5 text-orange-400" />
+        </div>
+      )
+    }
     // quote_offer
     if (notification.productImage) {
       return (
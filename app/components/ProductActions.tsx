@@ -142,44 +142,65 @@ export function ProductActions({ product, initialCouponCode, promotedCoupons, se
         return `${coupon.value} ${coupon.currency || "EUR"}`
     }
 
+    const couponErrorMessages: Record<string, string> = {
+        NOT_FOUND: t("invalidCoupon"),
+        INACTIVE: t("invalidCoupon"),
+        EXPIRED: t("couponExpired"),
+        NOT_STARTED: t("invalidCoupon"),
+        MAX_USES: t("couponMaxUses"),
+        USER_LIMIT: t("couponMaxUses"),
+        WRONG_PRODUCT: t("couponWrongProduct"),
+        NOT_ON_SALE: t("couponNotOnSale"),
+        MIN_PURCHASE: t("couponMinPurchase"),
+        CURRENCY_MISMATCH: t("invalidCoupon"),
+    }
+
+    // Validate a coupon against the current selection (package, size/color, quantity) —
+    // the server prices it exactly as checkout will. `revalidate` re-checks an applied coupon quietly.
+    const validateCoupon = async (code: string, revalidate = false) => {
+        setCouponLoading(true)
+        if (!revalidate) setCouponError("")
+        try {
+            const res = await fetch("/api/coupons/validate", {
+                method: "POST",
+                headers: { "Content-Type": "application/json" },
+                body: JSON.stringify({
+                    code,
+                    productId: product.id,
+                    packageId: selectedPackage?.id ?? null,
+                    variantId: selectedVariantId ?? null,
+                    quantity,
+                }),
+            })
+            if (revalidate && res.status === 429) return  // keep the coupon — checkout re-checks it anyway
+            const data = await res.json()
+            if (data.valid) {
+                setAppliedCoupon({
+                    couponId: data.coupon.id,
+                    couponCode: data.coupon.code,
+                    original: data.discount.original,
+                    discountAmount: data.discount.discountAmount,
+                    final: data.discount.final,
+                    productCurrency: data.discount.productCurrency,
+                    type: data.coupon.type,
+                    value: data.coupon.value,
+                })
+                if (!revalidate) toast.success(t("couponApplied"))
+            } else {
+                setAppliedCoupon(null)
+                setCouponError(couponErrorMessages[data.error] || t("invalidCoupon"))
+            }
+        } catch {
+            if (!revalidate) setCouponError(t("invalidCoupon"))
+        } finally {
+            setCouponLoading(false)
+        }
+    }
+
     // Handle clicking a promoted coupon banner
     const handlePromotedCouponClick = (code: string) => {
         setCouponCode(code)
-        setCouponError("")
-        // Auto-apply after setting state
-        setTimeout(() => {
-            const applyPromoted = async () => {
-                setCouponLoading(true)
-                try {
-                    const res = await fetch("/api/coupons/validate", {
-                        method: "POST",
-                        headers: { "Content-Type": "application/json" },
-                        body: JSON.stringify({ code, productId: product.id }),
-                    })
-                    const data = await res.json()
-                    if (data.valid) {
-                        setAppliedCoupon({
-                            couponId: data.coupon.id,
-                            couponCode: data.coupon.code,
-                            original: data.discount.original,
-                            discountAmount: data.discount.discountAmount,
-                            final: data.discount.final,
-                            productCurrency: data.discount.productCurrency,
-                            type: data.coupon.type,
-                            value: data.coupon.value,
-                        })
-                        toast.success(t("couponApplied"))
-                    } else {
-                        setCouponError(t("invalidCoupon"))
-                    }
-                } catch {
-                    setCouponError(t("invalidCoupon"))
-                } finally {
-                    setCouponLoading(false)
-                }
-            }
-            applyPromoted()
-        }, 0)
+        validateCoupon(code)
     }
 
     // Promoted coupon banners (shown when admin enables showOnProduct)
@@ -235,55 +256,9 @@ export function ProductActions({ product, initialCouponCode, promotedCoupons, se
         </div>
     ) : null
 
-    const handleApplyCoupon = async () => {
+    const handleApplyCoupon = () => {
         if (!couponCode.trim()) return
-        setCouponLoading(true)
-        setCouponError("")
-
-        try {
-            const res = await fetch("/api/coupons/validate", {
-                method: "POST",
-                headers: { "Content-Type": "application/json" },
-                body: JSON.stringify({
-                    code: couponCode.trim(),
-                    productId: product.id,
-                }),
-            })
-
-            const data = await res.json()
-
-            if (data.valid) {
-                setAppliedCoupon({
-                    couponId: data.coupon.id,
-                    couponCode: data.coupon.code,
-                    original: data.discount.original,
-                    discountAmount: data.discount.discountAmount,
-                    final: data.discount.final,
-                    productCurrency: data.discount.productCurrency,
-                    type: data.coupon.type,
-                    value: data.coupon.value,
-                })
-                toast.success(t("couponApplied"))
-            } else {
-                const errorMessages: Record<string, string> = {
-                    NOT_FOUND: t("invalidCoupon"),
-                    INACTIVE: t("invalidCoupon"),
-                    EXPIRED: t("couponExpired"),
-                    NOT_STARTED: t("invalidCoupon"),
-                    MAX_USES: t("couponMaxUses"),
-                    USER_LIMIT: t("couponMaxUses"),
-                    WRONG_PRODUCT: t("couponWrongProduct"),
-                    NOT_ON_SALE: t("couponNotOnSale"),
-                    MIN_PURCHASE: t("couponMinPurchase"),
-                    CURRENCY_MISMATCH: t("invalidCoupon"),
-                }
-                setCouponError(errorMessages[data.error] || t("invalidCoupon"))
-            }
-        } catch {
-            setCouponError(t("invalidCoupon"))
-        } finally {
-            setCouponLoading(false)
-        }
+        validateCoupon(couponCode.trim())
     }
 
     const handleRemoveCoupon = () => {
@@ -298,43 +273,19 @@ export function ProductActions({ product, initialCouponCode, promotedCoupons, se
         if (initialCouponCode && !autoApplied.current && product.fileType === "digital") {
             autoApplied.current = true
             setCouponCode(initialCouponCode.toUpperCase())
-            // Auto-validate the coupon
-            const autoValidate = async () => {
-                setCouponLoading(true)
-                try {
-                    const res = await fetch("/api/coupons/validate", {
-                        method: "POST",
-                        headers: { "Content-Type": "application/json" },
-                        body: JSON.stringify({
-                            code: initialCouponCode.trim(),
-                            productId: product.id,
-                        }),
-                    })
-                    const data = await res.json()
-                    if (data.valid) {
-                        setAppliedCoupon({
-                            couponId: data.coupon.id,
-                            couponCode: data.coupon.code,
-                            original: data.discount.original,
-                            discountAmount: data.discount.discountAmount,
-                            final: data.discount.final,
-                            productCurrency: data.discount.productCurrency,
-                            type: data.coupon.type,
-                            value: data.coupon.value,
-                        })
-                        toast.success(t("couponApplied"))
-                    } else {
-                        setCouponError(t("invalidCoupon"))
-                    }
-                } catch {
-                    setCouponError(t("invalidCoupon"))
-                } finally {
-                    setCouponLoading(false)
-                }
-            }
-            autoValidate()
+            validateCoupon(initialCouponCode.trim())
         }
-    }, [initialCouponCode, product.id, product.fileType, t])
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, [initialCouponCode, product.id, product.fileType])
+
+    // Re-price an applied coupon when the selection changes (debounced — the endpoint is rate limited)
+    const appliedCouponCode = appliedCoupon?.couponCode
+    useEffect(() => {
+        if (!appliedCouponCode) return
+        const timer = setTimeout(() => validateCoupon(appliedCouponCode, true), 400)
+        return () => clearTimeout(timer)
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, [quantity, selectedPackage?.id, selectedVariantId])
 
     // Resolve bulk discount tiers: package > product > global
     useEffect(() => {
@@ -479,6 +430,14 @@ export function ProductActions({ product, initialCouponCode, promotedCoupons, se
             window.location.href = `/login?callbackUrl=${callbackUrl}`
             return
         }
+        // Physical products need a delivery address — continue in the cart's shipping step
+        if (product.fileType && product.fileType !== "digital") {
+            addSelectionToCart()
+            window.dispatchEvent(new CustomEvent("open-cart-checkout", {
+                detail: appliedCoupon ? { couponCode: appliedCoupon.couponCode } : {},
+            }))
+            return
+        }
         setLoading(true)
         try {
             const res = await fetch("/api/checkout", {
@@ -490,7 +449,6 @@ export function ProductActions({ product, initialCouponCode, promotedCoupons, se
                     ...(appliedCoupon ? { couponCode: appliedCoupon.couponCode } : {}),
                     packageId: selectedPackage?.id ?? null,
                     variantId: selectedVariantId ?? null,
-                    ...(bulkFinalPrice !== null ? { bulkDiscountedUnitPrice: bulkFinalPrice } : {}),
                 }),
             })
 
@@ -516,7 +474,7 @@ export function ProductActions({ product, initialCouponCode, promotedCoupons, se
     const packageOk = !packages?.length || (selectedPackage !== null && selectedPackage !== undefined
         && ["in_stock", "pre_order"].includes(selectedPackage.status))
 
-    const handleAddToCart = () => {
+    const addSelectionToCart = () => {
         // Use package price when a package is selected; fall back to product price
         const effectivePrice = selectedPackage ? selectedPackage.price : (product.price || "0")
         const effectiveSalePrice = selectedPackage ? (selectedPackage.salePrice || null) : (product.salePrice || null)
@@ -527,6 +485,7 @@ export function ProductActions({ product, initialCouponCode, promotedCoupons, se
             productId: product.id,
             packageId: selectedPackage?.id ?? null,
             packageLabel: selectedPackage?.weight?.label ?? null,
+            variantId: selectedVariantId ?? null,
             colorNameEn: selectedVariantColor?.nameEn ?? null,
             colorNameBg: selectedVariantColor?.nameBg ?? null,
             colorNameEs: selectedVariantColor?.nameEs ?? null,
@@ -559,6 +518,10 @@ export function ProductActions({ product, initialCouponCode, promotedCoupons, se
         if (session) {
             syncCartItemToServer({ ...cartItem, quantity, addedAt: Date.now() })
         }
+    }
+
+    const handleAddToCart = () => {
+        addSelectionToCart()
         if (suppressCartDrawer) {
             toast.success(tc("addedToCart"))
         } else {
@@ -1,8 +1,8 @@
 "use client"
 
-import { useState, useMemo, useEffect, useRef, useTransition } from "react"
+import { useState, useMemo, useEffect, useRef } from "react"
 import { useTranslations } from "next-intl"
-import { useSearchParams, useRouter } from "next/navigation"
+import { useSearchParams, useRouter, usePathname } from "next/navigation"
 import Link from "next/link"
 import { Search, Check, Package, ShoppingCart, MessageSquare, Tag, X, ChevronDown, Bell, SlidersHorizontal, Eye } from "lucide-react"
 import { WishlistButton } from "./WishlistButton"
@@ -10,6 +10,10 @@ import { QuickViewModal } from "./QuickViewModal"
 import { parseTiers } from "@/lib/bulkDiscount"
 import { ProductImageBadges } from "./ProductBadges"
 import { computeDiscountPercent, computeHasBulkDiscount, computeIsNew } from "@/lib/badgeHelpers"
+import {
+    parseCatalogQuery, catalogQueryToParams, EMPTY_CATALOG_QUERY, PRODUCT_AVAILABILITY,
+    type CatalogQuery, type CatalogSort, type CatalogFacets,
+} from "@/lib/catalog"
 
 interface ProductVariant {
     id: string
@@ -78,17 +82,32 @@ interface CouponBadge {
     expiresAt: string | null
 }
 
-type SortOption = "default" | "price-asc" | "price-desc" | "discount" | "name-az"
+const AVAILABILITY_LABELS: Record<string, string> = {
+    in_stock: "inStock",
+    pre_order: "preOrder",
+    coming_soon: "comingSoon",
+    out_of_stock: "outOfStock",
+    sold_out: "soldOut",
+}
 
-interface ProductCatalogProps {
+/** One page of `/api/products` as it arrives over the wire */
+interface CatalogPageData {
     products: Product[]
+    couponMap: Record<string, CouponBadge>
+    total: number
+    facets: CatalogFacets
+    nextCursor: string | null
+}
+
+interface ProductCatalogProps {
+    initialPage: CatalogPageData
     categories: ProductCategory[]
     locale: string
     wishlistedProductIds?: string[]
-    couponMap?: Record<string, CouponBadge>
     subcategories?: ProductCategory[]
     initialCategory?: string
     activeSubcategory?: string
+    brandSlug?: string // brand pages: every result is this brand's
 }
 
 const COLOR_CLASSES: Record<string, string> = {
@@ -143,18 +162,22 @@ function FilterSection({ title, isOpen, onToggle, children }: {
     )
 }
 
-export function ProductCatalog({ products, categories, locale, wishlistedProductIds = [], couponMap, subcategories, initialCategory, activeSubcategory }: ProductCatalogProps) {
+export function ProductCatalog({ initialPage, categories, locale, wishlistedProductIds = [], subcategories, initialCategory, activeSubcategory, brandSlug }: ProductCatalogProps) {
     const t = useTranslations("products")
     const searchParams = useSearchParams()
     const router = useRouter()
-    const [selectedCategory, setSelectedCategory] = useState<string | null>(initialCategory || null)
-    const [selectedBrand, setSelectedBrand] = useState<string | null>(null)
-    const [searchQuery, setSearchQuery] = useState("")
-    const [saleFilter, setSaleFilter] = useState(false)
-    const [featuredFilter, setFeaturedFilter] = useState(false)
-    const [bestSellerFilter, setBestSellerFilter] = useState(false)
-    const [selectedColors, setSelectedColors] = useState<string[]>([])
-    const [sortBy, setSortBy] = useState<SortOption>("default")
+    const pathname = usePathname()
+    // Filters start from the URL so a shared or reloaded link shows the same products the server rendered
+    const [initialQuery] = useState(() => parseCatalogQuery(new URLSearchParams(searchParams.toString())))
+    const [selectedCategory, setSelectedCategory] = useState<string | null>(initialQuery.category || initialCategory || null)
+    const [selectedBrand, setSelectedBrand] = useState<string | null>(initialQuery.brand)
+    const [searchQuery, setSearchQuery] = useState(initialQuery.q)
+    const [saleFilter, setSaleFilter] = useState(initialQuery.onSale)
+    const [featuredFilter, setFeaturedFilter] = useState(initialQuery.featured)
+    const [bestSellerFilter, setBestSellerFilter] = useState(initialQuery.bestSeller)
+    const [selectedColors, setSelectedColors] = useState<string[]>(initialQuery.colors)
+    const [selectedAvailability, setSelectedAvailability] = useState<string[]>(initialQuery.availability)
+    const [sortBy, setSortBy] = useState<CatalogSort>(initialQuery.sort)
     const [showCategoryDropdown, setShowCategoryDropdown] = useState(false)
     const [categoryDropdownSearch, setCategoryDropdownSearch] = useState("")
     const [categoryActiveIndex, setCategoryActiveIndex] = useState(-1)
@@ -165,16 +188,17 @@ export function ProductCatalog({ products, categories, locale, wishlistedProduct
     const scrollTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null)
     const [brandDropdownOpen, setBrandDropdownOpen] = useState(false)
     const brandDropdownRef = useRef<HTMLDivElement>(null)
-    const [selectedSizes, setSelectedSizes] = useState<string[]>([])
-    const [priceMin, setPriceMin] = useState<string>("")
-    const [priceMax, setPriceMax] = useState<string>("")
+    // Weight ids; shown by their labels
+    const [selectedSizes, setSelectedSizes] = useState<string[]>(initialQuery.weights)
+    const [priceMin, setPriceMin] = useState<string>(initialQuery.minPrice?.toString() ?? "")
+    const [priceMax, setPriceMax] = useState<string>(initialQuery.maxPrice?.toString() ?? "")
     const [sidebarOpen, setSidebarOpen] = useState(false)
     const [quickViewProduct, setQuickViewProduct] = useState<Product | null>(null)
     const [openSections, setOpenSections] = useState<Set<string>>(
-        new Set(["category", "subcategory", "color", "size", "price", "brand", "quickFilters"])
+        new Set(["category", "subcategory", "color", "size", "price", "availability", "brand", "quickFilters"])
     )
     // Multi-select subcategory filter (desktop instant, mobile staged)
-    const [selectedSubcategories, setSelectedSubcategories] = useState<string[]>([])
+    const [selectedSubcategories, setSelectedSubcategories] = useState<string[]>(initialQuery.subcategories)
     const toggleSubcategory = (slug: string) =>
         setSelectedSubcategories(prev => prev.includes(slug) ? prev.filter(s => s !== slug) : [...prev, slug])
 
@@ -182,6 +206,7 @@ export function ProductCatalog({ products, categories, locale, wishlistedProduct
     const [pendingSubcategories, setPendingSubcategories] = useState<string[]>([])
     const [pendingColors, setPendingColors] = useState<string[]>([])
     const [pendingSizes, setPendingSizes] = useState<string[]>([])
+    const [pendingAvailability, setPendingAvailability] = useState<string[]>([])
     const [pendingPriceMin, setPendingPriceMin] = useState<string>("")
     const [pendingPriceMax, setPendingPriceMax] = useState<string>("")
     const [pendingBrand, setPendingBrand] = useState<string | null>(null)
@@ -189,31 +214,36 @@ export function ProductCatalog({ products, categories, locale, wishlistedProduct
     const [pendingFeatured, setPendingFeatured] = useState(false)
     const [pendingBestSeller, setPendingBestSeller] = useState(false)
 
-    // Clear selected brand when locale changes to avoid stale localized-name mismatch
-    const prevLocale = useRef(locale)
-    useEffect(() => {
-        if (prevLocale.current !== locale) {
-            prevLocale.current = locale
-            setSelectedBrand(null)
-        }
-    }, [locale])
+    // Server-filtered results: the page rendered on the server, then whatever the filters fetch
+    const [page, setPage] = useState<CatalogPageData>(initialPage)
+    const [loading, setLoading] = useState(false)
+    const [loadingMore, setLoadingMore] = useState(false)
+    const [pendingCount, setPendingCount] = useState(initialPage.total)
+
+    // Query string we last wrote ourselves, so only outside navigation re-reads the filters
+    const writtenParamsRef = useRef(searchParams.toString())
 
     useEffect(() => {
-        if (searchParams.get("sale") === "true") {
-            setSaleFilter(true)
-        }
-        if (searchParams.get("featured") === "true") {
-            setFeaturedFilter(true)
-        }
-        if (searchParams.get("bestSeller") === "true") {
-            setBestSellerFilter(true)
-        }
-        const categoryParam = searchParams.get("category")
-        if (categoryParam) {
-            setSelectedCategory(categoryParam)
+        const params = searchParams.toString()
+        if (params !== writtenParamsRef.current) {
+            writtenParamsRef.current = params
+            const query = parseCatalogQuery(new URLSearchParams(params))
+            setSelectedCategory(query.category || initialCategory || null)
+            setSelectedBrand(query.brand)
+            setSearchQuery(query.q)
+            setSaleFilter(query.onSale)
+            setFeaturedFilter(query.featured)
+            setBestSellerFilter(query.bestSeller)
+            setSelectedColors(query.colors)
+            setSelectedSizes(query.weights)
+            setSelectedAvailability(query.availability)
+            setSelectedSubcategories(query.subcategories)
+            setPriceMin(query.minPrice?.toString() ?? "")
+            setPriceMax(query.maxPrice?.toString() ?? "")
+            setSortBy(query.sort)
         }
         // Auto-expand parent for current category (from URL param or initialCategory)
-        const activeCat = categoryParam || initialCategory
+        const activeCat = searchParams.get("category") || initialCategory
         if (activeCat) {
             const cat = categories.find(c => c.slug === activeCat)
             if (cat?.parentId) {
@@ -298,32 +328,102 @@ export function ProductCatalog({ products, categories, locale, wishlistedProduct
         [categories]
     )
 
-    const [isPending, startTransition] = useTransition()
-
-    const uniqueBrands = useMemo(() => {
-        const brandNames = products
-            .map(p => p.brand ? getLocalizedName(p.brand) : null)
-            .filter((b): b is string => !!b)
-        return [...new Set(brandNames)].sort()
-    }, [products, locale])
-
-    const uniqueColors = useMemo(() => {
-        const colorMap = new Map<string, { hex: string; hex2?: string | null }>()
-        const colorNames = new Map<string, string>()
-        for (const product of products) {
-            for (const variant of product.variants || []) {
-                if (!variant.colorId || colorMap.has(variant.colorId)) continue
-                const name = locale === "bg" ? variant.color.nameBg
-                    : locale === "es" ? variant.color.nameEs
-                    : variant.color.nameEn
-                colorMap.set(variant.colorId, { hex: variant.color.hex, hex2: variant.color.hex2 ?? null })
-                colorNames.set(variant.colorId, name)
+    const priceParam = (value: string) => (value !== "" && parseFloat(value) >= 0 ? parseFloat(value) : null)
+
+    const buildQuery = (filters: {
+        subcategories: string[]; brand: string | null; colors: string[]; sizes: string[]; availability: string[]
+        priceMin: string; priceMax: string; sale: boolean; featured: boolean; bestSeller: boolean
+    }): CatalogQuery => ({
+        ...EMPTY_CATALOG_QUERY,
+        q: searchQuery.trim(),
+        // A child category page lists that child; otherwise the selected (parent) category and its children
+        category: activeSubcategory || selectedCategory,
+        subcategories: filters.subcategories,
+        brand: brandSlug || filters.brand,
+        colors: filters.colors,
+        weights: filters.sizes,
+        availability: filters.availability,
+        minPrice: priceParam(filters.priceMin),
+        maxPrice: priceParam(filters.priceMax),
+        onSale: filters.sale,
+        featured: filters.featured,
+        bestSeller: filters.bestSeller,
+        sort: sortBy,
+    })
+
+    const query = buildQuery({
+        subcategories: selectedSubcategories, brand: selectedBrand, colors: selectedColors, sizes: selectedSizes,
+        availability: selectedAvailability, priceMin, priceMax, sale: saleFilter, featured: featuredFilter, bestSeller: bestSellerFilter,
+    })
+    const apiParams = catalogQueryToParams(query, new URLSearchParams({ locale })).toString()
+    // The page's own category or brand comes from the path, so the URL only carries what the visitor chose
+    const urlParams = catalogQueryToParams({
+        ...query,
+        category: initialCategory ? null : selectedCategory,
+        brand: brandSlug ? null : selectedBrand,
+    }).toString()
+
+    // Keep the address bar in step without a server round trip
+    useEffect(() => {
+        if (urlParams === writtenParamsRef.current) return
+        writtenParamsRef.current = urlParams
+        window.history.replaceState(null, "", urlParams ? `${pathname}?${urlParams}` : pathname)
+    }, [urlParams, pathname])
+
+    // Refetch when the filters change; typing and price entry are debounced
+    const fetchedParamsRef = useRef(apiParams)
+    useEffect(() => {
+        if (apiParams === fetchedParamsRef.current) return
+        const controller = new AbortController()
+        const timer = setTimeout(async () => {
+            setLoading(true)
+            try {
+                const res = await fetch(`/api/products?${apiParams}`, { signal: controller.signal })
+                if (!res.ok) throw new Error()
+                setPage(await res.json())
+                fetchedParamsRef.current = apiParams
+            } catch {
+                // Aborted by a newer request, or failed — keep showing the previous results
+            } finally {
+                if (!controller.signal.aborted) setLoading(false)
             }
+        }, 250)
+        return () => { clearTimeout(timer); controller.abort() }
+    }, [apiParams])
+
+    const loadMore = async () => {
+        if (!page.nextCursor || loadingMore) return
+        setLoadingMore(true)
+        try {
+            const res = await fetch(`/api/products?${apiParams}&cursor=${encodeURIComponent(page.nextCursor)}`)
+            if (!res.ok) throw new Error()
+            const next: CatalogPageData = await res.json()
+            setPage(prev => ({
+                ...prev,
+                products: [...prev.products, ...next.products.filter(p => !prev.products.some(existing => existing.id === p.id))],
+                couponMap: { ...prev.couponMap, ...next.couponMap },
+                nextCursor: next.nextCursor,
+            }))
+        } catch {
+            // Leave the button in place so the visitor can retry
+        } finally {
+            setLoadingMore(false)
         }
-        return Array.from(colorMap.entries())
-            .map(([id, { hex, hex2 }]) => ({ id, hex, hex2, name: colorNames.get(id) || "" }))
-            .sort((a, b) => a.name.localeCompare(b.name))
-    }, [products, locale])
+    }
+
+    const { products, facets, couponMap } = page
+
+    const uniqueBrands = useMemo(() => facets.brands
+        .map(b => ({ slug: b.value, name: getLocalizedName(b), count: b.count }))
+        .sort((a, b) => a.name.localeCompare(b.name)),
+    [facets.brands, locale])
+
+    const getBrandName = (slug: string) => uniqueBrands.find(b => b.slug === slug)?.name ?? slug
+
+    const uniqueColors = useMemo(() => facets.colors
+        .map(c => ({ id: c.value, hex: c.hex ?? "", hex2: c.hex2 ?? null, name: getLocalizedName(c) }))
+        .sort((a, b) => a.name.localeCompare(b.name)),
+    [facets.colors, locale])
 
     const toggleColor = (colorId: string) => {
         setSelectedColors(prev =>
@@ -331,8 +431,11 @@ export function ProductCatalog({ products, categories, locale, wishlistedProduct
         )
     }
 
-    const toggleSize = (label: string) =>
-        setSelectedSizes(prev => prev.includes(label) ? prev.filter(s => s !== label) : [...prev, label])
+    const toggleSize = (weightId: string) =>
+        setSelectedSizes(prev => prev.includes(weightId) ? prev.filter(s => s !== weightId) : [...prev, weightId])
+
+    const toggleAvailability = (status: string) =>
+        setSelectedAvailability(prev => prev.includes(status) ? prev.filter(s => s !== status) : [...prev, status])
 
     const toggleSection = (key: string) =>
         setOpenSections(prev => {
@@ -342,62 +445,21 @@ export function ProductCatalog({ products, categories, locale, wishlistedProduct
         })
 
     const uniqueSizes = useMemo(() => {
-        const labels = new Set<string>()
-        products.forEach(p => p.packages?.forEach(pkg => labels.add(pkg.weight.label)))
-        return [...labels].sort((a, b) => {
-            const parse = (s: string) => parseFloat(s.replace(",", ".")) * (s.toLowerCase().includes("kg") ? 1000 : 1)
-            return parse(a) - parse(b)
-        })
-    }, [products])
-
-    const filteredProducts = useMemo(() => {
-        return products.filter((product) => {
-            const matchesCategory = !selectedCategory || (() => {
-                // Multi-select subcategory checkboxes take priority (OR logic)
-                if (selectedSubcategories.length > 0) {
-                    return selectedSubcategories.includes(product.category)
-                }
-                if (product.category === selectedCategory) return true
-                // If selected is a parent category, also match its children using O(1) map
-                const selectedCat = categoryMap.get(selectedCategory)
-                if (selectedCat && !selectedCat.parentId) {
-                    return categories.some(c => c.parentId === selectedCat.id && c.slug === product.category)
-                }
-                return false
-            })()
-            const matchesSearch = !searchQuery ||
-                getLocalizedName(product).toLowerCase().includes(searchQuery.toLowerCase()) ||
-                product.slug.toLowerCase().includes(searchQuery.toLowerCase()) ||
-                (product.brand && getLocalizedName(product.brand).toLowerCase().includes(searchQuery.toLowerCase()))
-            const hasBulkTiers = computeHasBulkDiscount(product.bulkDiscountTiers, product.packages, product.bulkDiscountExpiresAt)
-            const matchesSale = !saleFilter || product.onSale || hasBulkTiers
-            const matchesFeatured = !featuredFilter || product.featured
-            const matchesBestSeller = !bestSellerFilter || product.bestSeller
-            const matchesBrand = !selectedBrand || (product.brand && getLocalizedName(product.brand) === selectedBrand)
-            const matchesColor = selectedColors.length === 0 ||
-                (product.variants || []).some(v => v.colorId && selectedColors.includes(v.colorId))
-            const matchesSize = selectedSizes.length === 0 ||
-                (product.packages?.some(pkg => selectedSizes.includes(pkg.weight.label)) ?? false)
-            const effectivePrice = product.onSale && product.salePrice
-                ? parseFloat(product.salePrice) : product.price ? parseFloat(product.price) : null
-            const minVal = priceMin !== "" ? parseFloat(priceMin) : null
-            const maxVal = priceMax !== "" ? parseFloat(priceMax) : null
-            const matchesPrice =
-                (minVal === null || (effectivePrice !== null && effectivePrice >= minVal)) &&
-                (maxVal === null || (effectivePrice !== null && effectivePrice <= maxVal))
-            return matchesCategory && matchesSearch && matchesSale && matchesFeatured && matchesBestSeller && matchesBrand && matchesColor && matchesSize && matchesPrice
-        })
-    }, [products, selectedCategory, selectedSubcategories, selectedBrand, searchQuery, saleFilter, featuredFilter, bestSellerFilter, selectedColors, selectedSizes, priceMin, priceMax, categoryMap, categories, locale])
-
-    const getEffectivePrice = (product: Product): number | null => {
-        if (product.onSale && product.salePrice) return parseFloat(product.salePrice)
-        if (product.price) return parseFloat(product.price)
-        return null
-    }
+        const parse = (s: string) => parseFloat(s.replace(",", ".")) * (s.toLowerCase().includes("kg") ? 1000 : 1)
+        return facets.weights
+            .map(w => ({ id: w.value, label: w.nameEn }))
+            .sort((a, b) => parse(a.label) - parse(b.label))
+    }, [facets.weights])
+
+    // Statuses in the catalog's usual order, with how many products each would show
+    const availabilityOptions = useMemo(() => PRODUCT_AVAILABILITY
+        .map(status => ({ status, count: facets.availability.find(a => a.value === status)?.count ?? 0 }))
+        .filter(option => option.count > 0 || selectedAvailability.includes(option.status)),
+    [facets.availability, selectedAvailability])
 
     const getDiscountPercent = (product: Product): number => {
         if (!product.onSale) return 0
-        // Use best discount across packages (for sort accuracy)
+        // Use best discount across packages (same as the server's discount sort)
         if (product.packages?.length) {
             let best = 0
             for (const pkg of product.packages) {
@@ -415,15 +477,10 @@ export function ProductCatalog({ products, categories, locale, wishlistedProduct
     // Card badge shows the best (max) discount across all packages — same as sort logic
     const getCardDiscountPercent = (product: Product): number => getDiscountPercent(product)
 
-    const { absoluteMin, absoluteMax } = useMemo(() => {
-        const prices = products.map(p => getEffectivePrice(p)).filter((v): v is number => v !== null)
-        return {
-            absoluteMin: prices.length ? Math.floor(Math.min(...prices)) : 0,
-            absoluteMax: prices.length ? Math.ceil(Math.max(...prices)) : 1000,
-        }
-    }, [products])
+    const absoluteMin = facets.price ? Math.floor(facets.price.min) : 0
+    const absoluteMax = facets.price ? Math.ceil(facets.price.max) : 1000
 
-    const activeFilterCount = selectedSubcategories.length + selectedColors.length + selectedSizes.length +
+    const activeFilterCount = selectedSubcategories.length + selectedColors.length + selectedSizes.length + selectedAvailability.length +
         (priceMin !== "" ? 1 : 0) + (priceMax !== "" ? 1 : 0) +
         // Don't count selectedCategory as a user filter when it's just the page's own category
         (selectedCategory && selectedCategory !== initialCategory ? 1 : 0) + (selectedBrand ? 1 : 0) +
@@ -436,12 +493,13 @@ export function ProductCatalog({ products, categories, locale, wishlistedProduct
         setSelectedBrand(null)
         setSelectedColors([])
         setSelectedSizes([])
+        setSelectedAvailability([])
         setPriceMin("")
         setPriceMax("")
         setSaleFilter(false)
         setFeaturedFilter(false)
         setBestSellerFilter(false)
-        startTransition(() => setSearchQuery(""))
+        setSearchQuery("")
     }
 
     // Open mobile sidebar and pre-populate pending state with current active filters
@@ -449,12 +507,14 @@ export function ProductCatalog({ products, categories, locale, wishlistedProduct
         setPendingSubcategories(selectedSubcategories)
         setPendingColors(selectedColors)
         setPendingSizes(selectedSizes)
+        setPendingAvailability(selectedAvailability)
         setPendingPriceMin(priceMin)
         setPendingPriceMax(priceMax)
         setPendingBrand(selectedBrand)
         setPendingSale(saleFilter)
         setPendingFeatured(featuredFilter)
         setPendingBestSeller(bestSellerFilter)
+        setPendingCount(page.total)
         setSidebarOpen(true)
     }
 
@@ -463,6 +523,7 @@ export function ProductCatalog({ products, categories, locale, wishlistedProduct
         setSelectedSubcategories(pendingSubcategories)
         setSelectedColors(pendingColors)
         setSelectedSizes(pendingSizes)
+        setSelectedAvailability(pendingAvailability)
         setPriceMin(pendingPriceMin)
         setPriceMax(pendingPriceMax)
         setSelectedBrand(pendingBrand)
@@ -472,90 +533,39 @@ export function ProductCatalog({ products, categories, locale, wishlistedProduct
         setSidebarOpen(false)
     }
 
-    // Live product count based on pending selections (shown in Apply button)
-    const pendingFilteredCount = useMemo(() => {
-        if (!sidebarOpen) return 0
-        return products.filter(product => {
-            const matchesCategory = !selectedCategory || (() => {
-                if (pendingSubcategories.length > 0) return pendingSubcategories.includes(product.category)
-                if (product.category === selectedCategory) return true
-                const selectedCat = categoryMap.get(selectedCategory)
-                if (selectedCat && !selectedCat.parentId) {
-                    return categories.some(c => c.parentId === selectedCat.id && c.slug === product.category)
-                }
-                return false
-            })()
-            const matchesSearch = !searchQuery ||
-                getLocalizedName(product).toLowerCase().includes(searchQuery.toLowerCase()) ||
-                product.slug.toLowerCase().includes(searchQuery.toLowerCase()) ||
-                (product.brand && getLocalizedName(product.brand).toLowerCase().includes(searchQuery.toLowerCase()))
-            const hasBulkTiers = computeHasBulkDiscount(product.bulkDiscountTiers, product.packages, product.bulkDiscountExpiresAt)
-            const matchesSale = !pendingSale || product.onSale || hasBulkTiers
-            const matchesFeatured = !pendingFeatured || product.featured
-            const matchesBestSeller = !pendingBestSeller || product.bestSeller
-            const matchesBrand = !pendingBrand || (product.brand && getLocalizedName(product.brand) === pendingBrand)
-            const matchesColor = pendingColors.length === 0 ||
-                (product.variants || []).some(v => v.colorId && pendingColors.includes(v.colorId))
-            const matchesSize = pendingSizes.length === 0 ||
-                (product.packages?.some(pkg => pendingSizes.includes(pkg.weight.label)) ?? false)
-            const effectivePrice = product.onSale && product.salePrice
-                ? parseFloat(product.salePrice) : product.price ? parseFloat(product.price) : null
-            const minVal = pendingPriceMin !== "" ? parseFloat(pendingPriceMin) : null
-            const maxVal = pendingPriceMax !== "" ? parseFloat(pendingPriceMax) : null
-            const matchesPrice =
-                (minVal === null || (effectivePrice !== null && effectivePrice >= minVal)) &&
-                (maxVal === null || (effectivePrice !== null && effectivePrice <= maxVal))
-            return matchesCategory && matchesSearch && matchesSale && matchesFeatured &&
-                matchesBestSeller && matchesBrand && matchesColor && matchesSize && matchesPrice
-        }).length
-    }, [sidebarOpen, products, selectedCategory, searchQuery, pendingSubcategories, pendingColors, pendingSizes,
-        pendingPriceMin, pendingPriceMax, pendingBrand, pendingSale, pendingFeatured, pendingBestSeller,
-        categoryMap, categories, locale])
-
-    const sortedProducts = useMemo(() => {
-        if (sortBy === "default") return filteredProducts
-        return [...filteredProducts].sort((a, b) => {
-            switch (sortBy) {
-                case "price-asc": {
-                    const pa = getEffectivePrice(a)
-                    const pb = getEffectivePrice(b)
-                    if (pa === null && pb === null) return 0
-                    if (pa === null) return 1
-                    if (pb === null) return -1
-                    return pa - pb
-                }
-                case "price-desc": {
-                    const pa = getEffectivePrice(a)
-                    const pb = getEffectivePrice(b)
-                    if (pa === null && pb === null) return 0
-                    if (pa === null) return 1
-                    if (pb === null) return -1
-                    return pb - pa
-                }
-                case "discount": {
-                    const available = (p: Product) => p.status === "in_stock" || p.status === "pre_order" ? 0 : 1
-                    const avDiff = available(a) - available(b)
-                    if (avDiff !== 0) return avDiff
-                    return getDiscountPercent(b) - getDiscountPercent(a)
-                }
-                case "name-az":
-                    return getLocalizedName(a).localeCompare(getLocalizedName(b), locale)
-                default:
-                    return 0
+    // Live product count based on pending selections (shown in Apply button) — asks the server for the total only
+    const pendingParams = sidebarOpen
+        ? catalogQueryToParams(buildQuery({
+            subcategories: pendingSubcategories, brand: pendingBrand, colors: pendingColors, sizes: pendingSizes,
+            availability: pendingAvailability, priceMin: pendingPriceMin, priceMax: pendingPriceMax,
+            sale: pendingSale, featured: pendingFeatured, bestSeller: pendingBestSeller,
+        }), new URLSearchParams({ locale, limit: "0" })).toString()
+        : null
+
+    useEffect(() => {
+        if (!pendingParams) return
+        const controller = new AbortController()
+        const timer = setTimeout(async () => {
+            try {
+                const res = await fetch(`/api/products?${pendingParams}`, { signal: controller.signal })
+                if (res.ok) setPendingCount((await res.json()).total)
+            } catch {
+                // Superseded by a newer selection
             }
-        })
-    }, [filteredProducts, sortBy, locale])
+        }, 250)
+        return () => { clearTimeout(timer); controller.abort() }
+    }, [pendingParams])
+
+    // Product count per category slug, with every filter but the category applied (sidebar and subcategory labels)
+    const countBySlug = useMemo(
+        () => Object.fromEntries(facets.categories.map(c => [c.value, c.count])) as Record<string, number>,
+        [facets.categories]
+    )
 
     // Expensive memo — rebuilds only when categories/products/expansion state changes (NOT on search keystrokes)
     const allCategoryNavItems = useMemo(() => {
         const items: Array<{ id: string; label: string; href: string; isChild: boolean; isActive: boolean; childCount?: number; productCount?: number }> = []
 
-        // Count products per category slug
-        const countBySlug: Record<string, number> = {}
-        for (const p of products) {
-            countBySlug[p.category] = (countBySlug[p.category] || 0) + 1
-        }
-
         // "All Categories"
         items.push({ id: "_all", label: t("allCategories"), href: "/products", isChild: false, isActive: !selectedCategory && !initialCategory })
 
@@ -592,7 +602,7 @@ export function ProductCatalog({ products, categories, locale, wishlistedProduct
         }
 
         return items
-    }, [categories, expandedCategories, selectedCategory, initialCategory, t, locale, products, subcategories])
+    }, [categories, expandedCategories, selectedCategory, initialCategory, t, locale, countBySlug, subcategories])
 
     // Cheap memo — just filters pre-built items on search keystrokes
     const categoryNavItems = useMemo(() => {
@@ -661,25 +671,6 @@ export function ProductCatalog({ products, categories, locale, wishlistedProduct
         return `${prefix}${price.toFixed(2)} ${product.currency}`
     }
 
-    // Product count per category slug (for subcategory checkbox labels)
-    const countBySlug = useMemo(() => {
-        const map: Record<string, number> = {}
-        for (const p of products) { map[p.category] = (map[p.category] || 0) + 1 }
-        return map
-    }, [products])
-
-    // Product count per brand name (for brand filter labels)
-    const countByBrand = useMemo(() => {
-        const map: Record<string, number> = {}
-        for (const p of products) {
-            if (p.brand) {
-                const name = getLocalizedName(p.brand)
-                map[name] = (map[name] || 0) + 1
-            }
-        }
-        return map
-    }, [products, locale])
-
     // Whether to show subcategory checkboxes: only on the parent page (not on a child page)
     const showSubcategoryCheckboxes = !!subcategories?.length && !activeSubcategory
 
@@ -830,13 +821,13 @@ export function ProductCatalog({ products, categories, locale, wishlistedProduct
             {uniqueSizes.length > 0 && (
                 <FilterSection title={t("size")} isOpen={openSections.has("size")} onToggle={() => toggleSection("size")}>
                     <div className="space-y-0.5">
-                        {uniqueSizes.map(label => (
-                            <label key={label} className="flex items-center gap-2.5 cursor-pointer py-2 group">
-                                <input type="checkbox" checked={selectedSizes.includes(label)}
-                                    onChange={() => toggleSize(label)}
+                        {uniqueSizes.map(({ id, label }) => (
+                            <label key={id} className="flex items-center gap-2.5 cursor-pointer py-2 group">
+                                <input type="checkbox" checked={selectedSizes.includes(id)}
+                                    onChange={() => toggleSize(id)}
                                     className="w-4 h-4 accent-emerald-500 cursor-pointer shrink-0" />
                                 <span className={`text-sm transition-colors ${
-                                    selectedSizes.includes(label)
+                                    selectedSizes.includes(id)
                                         ? "text-emerald-400 font-medium"
                                         : "text-gray-400 group-hover:text-white"}`}>
                                     {label}
@@ -853,18 +844,40 @@ export function ProductCatalog({ products, categories, locale, wishlistedProduct
                 </FilterSection>
             )}
 
+            {/* Availability */}
+            {availabilityOptions.length > 0 && (
+                <FilterSection title={t("availability")} isOpen={openSections.has("availability")} onToggle={() => toggleSection("availability")}>
+                    <div className="space-y-0.5">
+                        {availabilityOptions.map(({ status, count }) => (
+                            <label key={status} className="flex items-center gap-2.5 cursor-pointer py-2 group">
+                                <input type="checkbox" checked={selectedAvailability.includes(status)}
+                                    onChange={() => toggleAvailability(status)}
+                                    className="w-4 h-4 accent-emerald-500 cursor-pointer shrink-0" />
+                                <span className={`text-sm transition-colors flex-1 ${
+                                    selectedAvailability.includes(status)
+                                        ? "text-emerald-400 font-medium"
+                                        : "text-gray-400 group-hover:text-white"}`}>
+                                    {t(AVAILABILITY_LABELS[status])}
+                                </span>
+                                <span className="text-[10px] text-gray-600 shrink-0">({count})</span>
+                            </label>
+                        ))}
+                    </div>
+                </FilterSection>
+            )}
+
             {/* Price */}
             <FilterSection title={`${t("price")} (€)`} isOpen={openSections.has("price")} onToggle={() => toggleSection("price")}>
                 <div className="flex items-center gap-2">
                     <input type="number" min={0} step="0.01" placeholder={String(absoluteMin)}
                         value={priceMin}
-                        onChange={e => { const v = e.target.value; if (v === "" || parseFloat(v) >= 0) startTransition(() => setPriceMin(v)) }}
+                        onChange={e => { const v = e.target.value; if (v === "" || parseFloat(v) >= 0) setPriceMin(v) }}
                         onKeyDown={e => { if (e.key === "-") e.preventDefault() }}
                         className="w-full px-3 py-2 rounded-lg bg-white/5 border border-white/10 text-sm text-white placeholder-gray-600 focus:outline-none focus:border-emerald-500/50 transition-colors" />
                     <span className="text-gray-500 shrink-0 text-sm">–</span>
                     <input type="number" min={0} step="0.01" placeholder={String(absoluteMax)}
                         value={priceMax}
-                        onChange={e => { const v = e.target.value; if (v === "" || parseFloat(v) >= 0) startTransition(() => setPriceMax(v)) }}
+                        onChange={e => { const v = e.target.value; if (v === "" || parseFloat(v) >= 0) setPriceMax(v) }}
                         onKeyDown={e => { if (e.key === "-") e.preventDefault() }}
                         className="w-full px-3 py-2 rounded-lg bg-white/5 border border-white/10 text-sm text-white placeholder-gray-600 focus:outline-none focus:border-emerald-500/50 transition-colors" />
                 </div>
@@ -882,7 +895,7 @@ export function ProductCatalog({ products, categories, locale, wishlistedProduct
     )
 
     // Mobile-only sidebar: uses pending state so selections are staged until "Apply" is tapped
-    const pendingActiveFilterCount = pendingSubcategories.length + pendingColors.length + pendingSizes.length +
+    const pendingActiveFilterCount = pendingSubcategories.length + pendingColors.length + pendingSizes.length + pendingAvailability.length +
         (pendingPriceMin !== "" ? 1 : 0) + (pendingPriceMax !== "" ? 1 : 0) +
         (pendingBrand ? 1 : 0) +
         (pendingSale ? 1 : 0) + (pendingFeatured ? 1 : 0) + (pendingBestSeller ? 1 : 0)
@@ -894,6 +907,7 @@ export function ProductCatalog({ products, categories, locale, wishlistedProduct
                     setPendingSubcategories([])
                     setPendingColors([])
                     setPendingSizes([])
+                    setPendingAvailability([])
                     setPendingPriceMin("")
                     setPendingPriceMax("")
                     setPendingBrand(null)
@@ -1016,7 +1030,7 @@ export function ProductCatalog({ products, categories, locale, wishlistedProduct
             )}
 
             {/* Brand — pending, custom dropdown */}
-            {uniqueBrands.length > 0 && (
+            {!brandSlug && uniqueBrands.length > 0 && (
                 <FilterSection title={t("brand")} isOpen={openSections.has("brand")} onToggle={() => toggleSection("brand")}>
                     <div className="space-y-0.5">
                         <label className="flex items-center gap-2.5 cursor-pointer py-2 group">
@@ -1027,15 +1041,15 @@ export function ProductCatalog({ products, categories, locale, wishlistedProduct
                                 {t("allBrands")}
                             </span>
                         </label>
-                        {uniqueBrands.map(brand => (
-                            <label key={brand} className="flex items-center gap-2.5 cursor-pointer py-2 group">
-                                <input type="radio" name="pendingBrand" checked={pendingBrand === brand}
-                                    onChange={() => setPendingBrand(brand)}
+                        {uniqueBrands.map(({ slug, name, count }) => (
+                            <label key={slug} className="flex items-center gap-2.5 cursor-pointer py-2 group">
+                                <input type="radio" name="pendingBrand" checked={pendingBrand === slug}
+                                    onChange={() => setPendingBrand(slug)}
                                     className="w-4 h-4 accent-emerald-500 cursor-pointer shrink-0" />
-                                <span className={`text-sm transition-colors flex-1 ${pendingBrand === brand ? "text-emerald-400 font-medium" : "text-gray-400 group-hover:text-white"}`}>
-                                    {brand}
+                                <span className={`text-sm transition-colors flex-1 ${pendingBrand === slug ? "text-emerald-400 font-medium" : "text-gray-400 group-hover:text-white"}`}>
+                                    {name}
                                 </span>
-                                <span className="text-[10px] text-gray-600 shrink-0">({countByBrand[brand] || 0})</span>
+                                <span className="text-[10px] text-gray-600 shrink-0">({count})</span>
                             </label>
                         ))}
                     </div>
@@ -1100,13 +1114,13 @@ export function ProductCatalog({ products, categories, locale, wishlistedProduct
             {uniqueSizes.length > 0 && (
                 <FilterSection title={t("size")} isOpen={openSections.has("size")} onToggle={() => toggleSection("size")}>
                     <div className="space-y-0.5">
-                        {uniqueSizes.map(label => (
-                            <label key={label} className="flex items-center gap-2.5 cursor-pointer py-2 group">
-                                <input type="checkbox" checked={pendingSizes.includes(label)}
-                                    onChange={() => setPendingSizes(prev => prev.includes(label) ? prev.filter(s => s !== label) : [...prev, label])}
+                        {uniqueSizes.map(({ id, label }) => (
+                            <label key={id} className="flex items-center gap-2.5 cursor-pointer py-2 group">
+                                <input type="checkbox" checked={pendingSizes.includes(id)}
+                                    onChange={() => setPendingSizes(prev => prev.includes(id) ? prev.filter(s => s !== id) : [...prev, id])}
                                     className="w-4 h-4 accent-emerald-500 cursor-pointer shrink-0" />
                                 <span className={`text-sm transition-colors ${
-                                    pendingSizes.includes(label)
+                                    pendingSizes.includes(id)
                                         ? "text-emerald-400 font-medium"
                                         : "text-gray-400 group-hover:text-white"}`}>
                                     {label}
@@ -1123,6 +1137,28 @@ export function ProductCatalog({ products, categories, locale, wishlistedProduct
                 </FilterSection>
             )}
 
+            {/* Availability — pending */}
+            {availabilityOptions.length > 0 && (
+                <FilterSection title={t("availability")} isOpen={openSections.has("availability")} onToggle={() => toggleSection("availability")}>
+                    <div className="space-y-0.5">
+                        {availabilityOptions.map(({ status, count }) => (
+                            <label key={status} className="flex items-center gap-2.5 cursor-pointer py-2 group">
+                                <input type="checkbox" checked={pendingAvailability.includes(status)}
+                                    onChange={() => setPendingAvailability(prev => prev.includes(status) ? prev.filter(s => s !== status) : [...prev, status])}
+                                    className="w-4 h-4 accent-emerald-500 cursor-pointer shrink-0" />
+                                <span className={`text-sm transition-colors flex-1 ${
+                                    pendingAvailability.includes(status)
+                                        ? "text-emerald-400 font-medium"
+                                        : "text-gray-400 group-hover:text-white"}`}>
+                                    {t(AVAILABILITY_LABELS[status])}
+                                </span>
+                                <span className="text-[10px] text-gray-600 shrink-0">({count})</span>
+                            </label>
+                        ))}
+                    </div>
+                </FilterSection>
+            )}
+
             {/* Price — pending */}
             <FilterSection title={`${t("price")} (€)`} isOpen={openSections.has("price")} onToggle={() => toggleSection("price")}>
                 <div className="flex items-center gap-2">
@@ -1231,7 +1267,7 @@ export function ProductCatalog({ products, categories, locale, wishlistedProduct
                     </button>
                     <div className="flex-1" />
                     <div className="relative">
-                        <select value={sortBy} onChange={(e) => setSortBy(e.target.value as SortOption)}
+                        <select value={sortBy} onChange={(e) => setSortBy(e.target.value as CatalogSort)}
                             className="appearance-none pl-3 pr-8 py-2.5 bg-white/5 border border-white/10 rounded-xl text-white text-sm focus:outline-none transition-colors cursor-pointer">
                             <option value="default">{t("sortDefault")}</option>
                             <option value="price-asc">{t("sortPriceLow")}</option>
@@ -1248,10 +1284,10 @@ export function ProductCatalog({ products, categories, locale, wishlistedProduct
                     <div className="relative">
                         <Search className="absolute left-4 top-1/2 -translate-y-1/2 w-5 h-5 text-gray-500" />
                         <input type="text" placeholder={t("search")} value={searchQuery}
-                            onChange={(e) => { const val = e.target.value; startTransition(() => setSearchQuery(val)) }}
+                            onChange={(e) => setSearchQuery(e.target.value)}
                             className="w-full pl-12 pr-4 py-3 bg-white/5 border border-white/10 rounded-xl text-white text-base placeholder-gray-500 focus:outline-none focus:border-emerald-500/50 transition-colors" />
                     </div>
-                    {uniqueBrands.length > 0 && (
+                    {!brandSlug && uniqueBrands.length > 0 && (
                         <div className="relative" ref={brandDropdownRef}>
                             <button
                                 type="button"
@@ -1259,7 +1295,7 @@ export function ProductCatalog({ products, categories, locale, wishlistedProduct
                                 className="w-full flex items-center justify-between pl-4 pr-3 py-3 bg-white/5 border border-white/10 rounded-xl text-white text-base focus:outline-none transition-colors touch-manipulation"
                             >
                                 <span className={selectedBrand ? "text-white" : "text-gray-400"}>
-                                    {selectedBrand || t("allBrands")}
+                                    {selectedBrand ? getBrandName(selectedBrand) : t("allBrands")}
                                 </span>
                                 <ChevronDown className={`w-3.5 h-3.5 text-gray-400 transition-transform duration-200 ${brandDropdownOpen ? "rotate-180" : ""}`} />
                             </button>
@@ -1271,12 +1307,12 @@ export function ProductCatalog({ products, categories, locale, wishlistedProduct
                                         {!selectedBrand && <Check className="w-3.5 h-3.5 shrink-0" />}
                                         <span className={!selectedBrand ? "" : "pl-5"}>{t("allBrands")}</span>
                                     </button>
-                                    {uniqueBrands.map(brand => (
-                                        <button type="button" key={brand}
-                                            onClick={() => { setSelectedBrand(brand); setBrandDropdownOpen(false) }}
-                                            className={`w-full text-left px-4 py-2.5 text-sm flex items-center gap-2 transition-colors ${selectedBrand === brand ? "bg-emerald-500/20 text-emerald-400" : "text-gray-300 hover:bg-white/5"}`}>
-                                            {selectedBrand === brand && <Check className="w-3.5 h-3.5 shrink-0" />}
-                                            <span className={selectedBrand === brand ? "" : "pl-5"}>{brand}</span>
+                                    {uniqueBrands.map(({ slug, name }) => (
+                                        <button type="button" key={slug}
+                                            onClick={() => { setSelectedBrand(slug); setBrandDropdownOpen(false) }}
+                                            className={`w-full text-left px-4 py-2.5 text-sm flex items-center gap-2 transition-colors ${selectedBrand === slug ? "bg-emerald-500/20 text-emerald-400" : "text-gray-300 hover:bg-white/5"}`}>
+                                            {selectedBrand === slug && <Check className="w-3.5 h-3.5 shrink-0" />}
+                                            <span className={selectedBrand === slug ? "" : "pl-5"}>{name}</span>
                                         </button>
                                     ))}
                                 </div>
@@ -1314,7 +1350,7 @@ export function ProductCatalog({ products, categories, locale, wishlistedProduct
                         <div className="sticky bottom-0 p-4 bg-[#0d0d1a] border-t border-white/10">
                             <button onClick={applyMobileFilters}
                                 className="w-full py-3 rounded-xl bg-gradient-to-r from-emerald-500 to-cyan-500 text-white font-medium text-sm hover:shadow-lg hover:shadow-emerald-500/30 transition-all touch-manipulation">
-                                {t("applyFilters")} ({pendingFilteredCount})
+                                {t("applyFilters")} ({pendingCount})
                             </button>
                         </div>
                     </div>
@@ -1327,21 +1363,21 @@ export function ProductCatalog({ products, categories, locale, wishlistedProduct
                             <div className="relative flex-1">
                                 <Search className="absolute left-4 top-1/2 -translate-y-1/2 w-5 h-5 text-gray-500" />
                                 <input type="text" placeholder={t("search")} value={searchQuery}
-                                    onChange={(e) => { const val = e.target.value; startTransition(() => setSearchQuery(val)) }}
+                                    onChange={(e) => setSearchQuery(e.target.value)}
                                     className="w-full pl-12 pr-4 py-3 bg-white/5 border border-white/10 rounded-xl text-white text-sm placeholder-gray-500 focus:outline-none focus:border-emerald-500/50 transition-colors" />
                             </div>
-                            {uniqueBrands.length > 0 && (
+                            {!brandSlug && uniqueBrands.length > 0 && (
                                 <div className="relative">
                                     <select value={selectedBrand || ""} onChange={e => setSelectedBrand(e.target.value || null)}
                                         className="appearance-none pl-4 pr-9 py-2 bg-white/5 border border-white/10 rounded-xl text-white text-sm focus:outline-none transition-colors cursor-pointer">
                                         <option value="">{t("allBrands")}</option>
-                                        {uniqueBrands.map(brand => <option key={brand} value={brand}>{brand}</option>)}
+                                        {uniqueBrands.map(({ slug, name }) => <option key={slug} value={slug}>{name}</option>)}
                                     </select>
                                     <ChevronDown className="absolute right-3 top-1/2 -translate-y-1/2 w-3.5 h-3.5 text-gray-400 pointer-events-none" />
                                 </div>
                             )}
                             <div className="relative">
-                                <select value={sortBy} onChange={e => setSortBy(e.target.value as SortOption)}
+                                <select value={sortBy} onChange={e => setSortBy(e.target.value as CatalogSort)}
                                     className="appearance-none pl-4 pr-9 py-2 bg-white/5 border border-white/10 rounded-xl text-white text-sm focus:outline-none transition-colors cursor-pointer">
                                     <option value="default">{t("sortDefault")}</option>
                                     <option value="price-asc">{t("sortPriceLow")}</option>
@@ -1398,10 +1434,10 @@ export function ProductCatalog({ products, categories, locale, wishlistedProduct
                         </div>
 
                         {/* Product count */}
-                        <p className="text-xs text-gray-600 mb-4">{t("productCount", { count: sortedProducts.length })}</p>
+                        <p className="text-xs text-gray-600 mb-4">{t("productCount", { count: page.total })}</p>
 
                         {/* Products Grid */}
-                        {sortedProducts.length === 0 ? (
+                        {products.length === 0 ? (
                             <div className="text-center py-12 text-slate-400">
                                 <Package className="w-12 h-12 mx-auto mb-4 opacity-50" />
                                 <p>{t("noProducts")}</p>
@@ -1412,8 +1448,8 @@ export function ProductCatalog({ products, categories, locale, wishlistedProduct
                                 )}
                             </div>
                         ) : (
-                        <div className={`grid grid-cols-2 gap-3 sm:gap-4 xl:grid-cols-3 ${isPending ? "opacity-60 transition-opacity" : ""}`}>
-                        {sortedProducts.map((product, productIndex) => {
+                        <div className={`grid grid-cols-2 gap-3 sm:gap-4 xl:grid-cols-3 ${loading ? "opacity-60 transition-opacity" : ""}`}>
+                        {products.map((product, productIndex) => {
                             const name = getLocalizedName(product)
                             const desc = getLocalizedDesc(product)
                             const categoryColor = getCategoryColor(product.category)
@@ -1485,7 +1521,7 @@ export function ProductCatalog({ products, categories, locale, wishlistedProduct
                                             hasBulkDiscount={computeHasBulkDiscount(product.bulkDiscountTiers, product.packages, product.bulkDiscountExpiresAt)}
                                             status={product.status}
                                             showStatusOverlay
-                                            coupon={couponMap?.[product.id] ?? null}
+                                            coupon={couponMap[product.id] ?? null}
                                         />
 
                                         {/* Top-right: Sale + Wishlist */}
@@ -1617,6 +1653,20 @@ export function ProductCatalog({ products, categories, locale, wishlistedProduct
                         })}
                         </div>
                         )}
+
+                        {/* Next page */}
+                        {page.nextCursor && (
+                            <div className="flex justify-center mt-8">
+                                <button
+                                    type="button"
+                                    onClick={loadMore}
+                                    disabled={loadingMore}
+                                    className="px-6 py-2.5 rounded-xl bg-white/5 border border-white/10 text-sm text-white hover:bg-white/10 transition-colors disabled:opacity-50"
+                                >
+                                    {t("loadMore")} ({products.length}/{page.total})
+                                </button>
+                            </div>
+                        )}
                     </div>{/* end main content */}
                 </div>{/* end two-column flex */}
             </div>
@@ -1643,7 +1693,7 @@ export function ProductCatalog({ products, categories, locale, wishlistedProduct
                         return bestPkg?.weight.label
                     })()
                 }
-                promotedCoupon={couponMap?.[quickViewProduct.id] ?? null}
+                promotedCoupon={couponMap[quickViewProduct.id] ?? null}
                 onClose={() => setQuickViewProduct(null)}
             />
         )}
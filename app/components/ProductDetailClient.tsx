@@ -5,6 +5,8 @@ import { useRouter } from "next/navigation"
 import { useTranslations } from "next-intl"
 import { ProductImageGallery } from "./ProductImageGallery"
 import { ProductActions } from "./ProductActions"
+import { ModelViewerWrapper } from "./ModelViewerWrapper"
+import { Box } from "lucide-react"
 import { parseTiers } from "@/lib/bulkDiscount"
 import { computeHasBulkDiscount } from "@/lib/badgeHelpers"
 
@@ -72,12 +74,15 @@ interface ProductDetailClientProps {
     variants: Variant[]
     packages?: PackageData[]
     initialPackageSlug?: string
+    initialColorId?: string
     locale: string
     mainImage: string | null
     gallery: string[]
+    modelUrl?: string | null // STL of a digital product, previewed in 3D
     initialCouponCode?: string
     promotedCoupons?: PromotedCoupon[]
     isWishlisted?: boolean
+    vatNote?: string // e.g. "incl. 20% VAT" for the visitor's country
     children: React.ReactNode // Category badges, brand, name, wishlist, status badge
 }
 
@@ -87,12 +92,15 @@ export function ProductDetailClient({
     variants,
     packages = [],
     initialPackageSlug,
+    initialColorId,
     locale,
     mainImage,
     gallery,
+    modelUrl,
     initialCouponCode,
     promotedCoupons,
     isWishlisted,
+    vatNote,
     children,
 }: ProductDetailClientProps) {
     const t = useTranslations("products")
@@ -109,6 +117,7 @@ export function ProductDetailClient({
     }
 
     const [selectedPackageIndex, setSelectedPackageIndex] = useState(getDefaultPackageIndex)
+    const [show3d, setShow3d] = useState(false)
     const selectedPackage = selectedPackageIndex >= 0 && packages.length > 0 ? packages[selectedPackageIndex] : null
 
     // Compute available variant IDs for selected package (null = all variants shown)
@@ -120,6 +129,12 @@ export function ProductDetailClient({
     const getDefaultVariantIndex = () => {
         if (variants.length === 0) return -1
         const pkg = selectedPackageIndex >= 0 ? packages[selectedPackageIndex] : null
+        if (initialColorId) {
+            const idx = variants.findIndex(
+                v => v.colorId === initialColorId && (!pkg?.packageVariants?.length || pkg.packageVariants.some(pv => pv.variantId === v.id))
+            )
+            if (idx >= 0) return idx
+        }
         if (!pkg?.packageVariants?.length) {
             // No package filter — prefer first available (in_stock/pre_order) variant
             const first = variants.findIndex(v => ["in_stock", "pre_order"].includes(v.status))
@@ -231,21 +246,38 @@ export function ProductDetailClient({
     return (
         <div className="grid grid-cols-1 md:grid-cols-2 gap-6 md:gap-12">
             {/* Image + Color Variants */}
-            <ProductImageGallery
-                mainImage={mainImage}
-                productName={productName}
-                variants={variants}
-                locale={locale}
-                gallery={gallery}
-                productStatus={product.status}
-                onVariantChange={setSelectedVariantIndex}
-                selectedVariantIndex={selectedVariantIndex}
-                availableVariantIndices={availableVariantIndices}
-                packageVariantStatusMap={packageVariantStatusMap}
-                isNew={!!product.createdAt && (Date.now() - new Date(product.createdAt).getTime()) < 30 * 24 * 60 * 60 * 1000}
-                discountPercent={discountPercent}
-                hasBulkDiscount={hasBulkDiscount}
-            />
+            <div className="space-y-3">
+                <ProductImageGallery
+                    mainImage={mainImage}
+                    productName={productName}
+                    variants={variants}
+                    locale={locale}
+                    gallery={gallery}
+                    productStatus={product.status}
+                    onVariantChange={setSelectedVariantIndex}
+                    selectedVariantIndex={selectedVariantIndex}
+                    availableVariantIndices={availableVariantIndices}
+                    packageVariantStatusMap={packageVariantStatusMap}
+                    isNew={!!product.createdAt && (Date.now() - new Date(product.createdAt).getTime()) < 30 * 24 * 60 * 60 * 1000}
+                    discountPercent={discountPercent}
+                    hasBulkDiscount={hasBulkDiscount}
+                />
+
+                {/* 3D preview — the model only loads once the visitor asks for it */}
+                {modelUrl && (
+                    show3d ? (
+                        <ModelViewerWrapper source={{ url: modelUrl }} />
+                    ) : (
+                        <button
+                            onClick={() => setShow3d(true)}
+                            className="w-full flex items-center justify-center gap-2 px-4 py-3 rounded-xl bg-white/5 border border-white/10 text-sm text-slate-300 hover:bg-emerald-500/10 hover:border-emerald-500/30 hover:text-emerald-400 transition-all touch-manipulation"
+                        >
+                            <Box className="w-4 h-4" />
+                            {t("view3dModel")}
+                        </button>
+                    )
+                )}
+            </div>
 
             {/* Details */}
             <div className="space-y-3 md:space-y-6">
@@ -327,6 +359,7 @@ export function ProductDetailClient({
                             {displayPrice ? `${displayPrice.toFixed(2)} ${product.currency}` : "-"}
                         </span>
                     )}
+                    {vatNote && <p className="text-xs text-gray-500 mt-1">{vatNote}</p>}
                 </div>
 
                 {/* Action Buttons */}
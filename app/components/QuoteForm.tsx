@@ -2,8 +2,31 @@
 
 import { useState, useRef, useEffect } from "react"
 import { createPortal } from "react-dom"
-import { useTranslations } from "next-intl"
-import { X, Upload, File, Loader2, CheckCircle } from "lucide-react"
+import { useTranslations, useLocale } from "next-intl"
+import { X, Upload, File, Loader2, CheckCircle, AlertTriangle } from "lucide-react"
+import { ModelViewerWrapper } from "./ModelViewerWrapper"
+import { LAYER_HEIGHTS, PRINT_FINISHES, MAX_QUOTE_QUANTITY, MAX_QUOTE_FILES } from "@/lib/printConfig"
+import { MAX_MODEL_FILE_SIZE, modelFormatOf, type ModelUnit } from "@/lib/modelFormats"
+
+interface InstantEstimate {
+    price: number
+    grams: number
+    hours: number
+    material: string
+}
+
+interface QuoteOptions {
+    materials: { id: string; name: string }[]
+    colors: { id: string; nameBg: string; nameEn: string; nameEs: string; hex: string }[]
+}
+
+interface SelectedPart {
+    file: File
+    quantity: string
+    materialId: string
+    colorId: string
+    unit: ModelUnit | null // picked in the preview; the server reads files without a unit as mm
+}
 
 interface QuoteFormProps {
     productId?: string
@@ -15,6 +38,7 @@ interface QuoteFormProps {
 
 export function QuoteForm({ productId, productName, quantity, onClose, isOrderInquiry }: QuoteFormProps) {
     const t = useTranslations("quotes")
+    const locale = useLocale()
     const fileInputRef = useRef<HTMLInputElement>(null)
     const [loading, setLoading] = useState(false)
 
@@ -32,15 +56,37 @@ export function QuoteForm({ productId, productName, quantity, onClose, isOrderIn
         }
     }, [])
     const [success, setSuccess] = useState(false)
+    const [estimate, setEstimate] = useState<InstantEstimate | null>(null)
+    const [notWatertight, setNotWatertight] = useState<string[]>([])
     const [error, setError] = useState<string | null>(null)
     const [dragActive, setDragActive] = useState(false)
-    const [selectedFile, setSelectedFile] = useState<File | null>(null)
+    const [parts, setParts] = useState<SelectedPart[]>([])
+    const [previewIndex, setPreviewIndex] = useState(0)
     const [formData, setFormData] = useState({
         name: "",
         email: "",
         phone: "",
         message: "",
     })
+    const [options, setOptions] = useState<QuoteOptions>({ materials: [], colors: [] })
+    const [printConfig, setPrintConfig] = useState({
+        materialId: "",
+        colorId: "",
+        layerHeight: "",
+        infill: "",
+        quantity: String(quantity && quantity > 1 ? quantity : 1),
+        finish: "",
+        deadline: "",
+    })
+
+    // Materials and colors for the print options
+    useEffect(() => {
+        if (isOrderInquiry) return
+        fetch("/api/quotes/options")
+            .then(res => res.ok ? res.json() : null)
+            .then(data => { if (data) setOptions(data) })
+            .catch(() => {})
+    }, [isOrderInquiry])
 
     // Auto-fill form with user profile data if logged in
     useEffect(() => {
@@ -78,27 +124,41 @@ export function QuoteForm({ productId, productName, quantity, onClose, isOrderIn
         e.stopPropagation()
         setDragActive(false)
 
-        if (e.dataTransfer.files && e.dataTransfer.files[0]) {
-            handleFileSelect(e.dataTransfer.files[0])
+        if (e.dataTransfer.files?.length) {
+            handleFilesSelect(e.dataTransfer.files)
         }
     }
 
-    const handleFileSelect = (file: File) => {
-        const allowedExtensions = [".stl", ".obj", ".3mf"]
-        const fileExtension = file.name.toLowerCase().slice(file.name.lastIndexOf("."))
-
-        if (!allowedExtensions.includes(fileExtension)) {
-            setError(t("invalidFileType"))
-            return
+    const handleFilesSelect = (files: FileList) => {
+        const added: SelectedPart[] = []
+        for (const file of Array.from(files)) {
+            if (!modelFormatOf(file.name)) {
+                setError(t("invalidFileType"))
+                return
+            }
+            if (file.size > MAX_MODEL_FILE_SIZE) {
+                setError(t("fileTooLarge"))
+                return
+            }
+            added.push({ file, quantity: "1", materialId: "", colorId: "", unit: null })
         }
-
-        if (file.size > 50 * 1024 * 1024) {
-            setError(t("fileTooLarge"))
+        if (parts.length + added.length > MAX_QUOTE_FILES) {
+            setError(t("tooManyFiles", { max: MAX_QUOTE_FILES }))
             return
         }
 
         setError(null)
-        setSelectedFile(file)
+        setParts([...parts, ...added])
+        if (parts.length === 0) setPreviewIndex(0)
+    }
+
+    const updatePart = (index: number, changes: Partial<SelectedPart>) => {
+        setParts(parts.map((part, i) => (i === index ? { ...part, ...changes } : part)))
+    }
+
+    const removePart = (index: number) => {
+        setParts(parts.filter((_, i) => i !== index))
+        setPreviewIndex(0)
     }
 
     const handleSubmit = async (e: React.FormEvent) => {
@@ -113,19 +173,34 @@ export function QuoteForm({ productId, productName, quantity, onClose, isOrderIn
             if (formData.phone) submitData.append("phone", formData.phone)
             if (formData.message) submitData.append("message", formData.message)
             if (productId) submitData.append("productId", productId)
-            if (quantity && quantity > 1) submitData.append("quantity", String(quantity))
-            if (selectedFile) submitData.append("file", selectedFile)
+            if (isOrderInquiry) {
+                if (quantity && quantity > 1) submitData.append("quantity", String(quantity))
+            } else {
+                for (const [key, value] of Object.entries(printConfig)) {
+                    if (value) submitData.append(key, value)
+                }
+            }
+            for (const part of parts) submitData.append("files", part.file)
+            if (parts.length > 0) {
+                submitData.append("parts", JSON.stringify(parts.map(({ quantity, materialId, colorId, unit }) => ({ quantity, materialId, colorId, unit }))))
+            }
 
             const res = await fetch("/api/quotes", {
                 method: "POST",
                 body: submitData,
             })
 
+            const data = await res.json()
             if (!res.ok) {
-                const data = await res.json()
                 throw new Error(data.error || "Failed to submit")
             }
 
+            setEstimate(data.estimate ?? null)
+            setNotWatertight(
+                (data.parts ?? [])
+                    .filter((part: { geometry: { watertight: boolean } | null }) => part.geometry && !part.geometry.watertight)
+                    .map((part: { name: string }) => part.name)
+            )
             setSuccess(true)
         } catch (err) {
             setError(err instanceof Error ? err.message : t("error"))
@@ -167,6 +242,27 @@ export function QuoteForm({ productId, productName, quantity, onClose, isOrderIn
                         </div>
                         <h3 className="text-xl font-bold text-white mb-2">{t("success")}</h3>
                         <p className="text-gray-400 mb-6">{t("successMessage")}</p>
+                        {estimate && (
+                            <div className="mb-6 p-4 rounded-xl bg-emerald-500/10 border border-emerald-500/30 text-left">
+                                <div className="flex items-baseline justify-between gap-2">
+                                    <span className="text-sm text-gray-300">{t("instantEstimate")}</span>
+                                    <span className="text-2xl font-bold text-emerald-400">€{estimate.price.toFixed(2)}</span>
+                                </div>
+                                <p className="text-xs text-gray-400 mt-1">
+                                    {t("estimateDetails", { material: estimate.material, grams: Math.round(estimate.grams), hours: estimate.hours.toFixed(1) })}
+                                </p>
+                                <p className="text-xs text-gray-500 mt-2">{t("estimateDisclaimer")}</p>
+                            </div>
+                        )}
+                        {notWatertight.length > 0 && (
+                            <div className="mb-6 p-3 rounded-xl bg-amber-500/10 border border-amber-500/30 text-left flex gap-2 text-xs text-amber-300">
+                                <AlertTriangle className="w-4 h-4 shrink-0" />
+                                <span>
+                                    {t("notWatertight")}
+                                    {parts.length > 1 && <span className="block mt-1 text-amber-400/80">{notWatertight.join(", ")}</span>}
+                                </span>
+                            </div>
+                        )}
                         <button
                             onClick={onClose}
                             className="px-6 py-3 rounded-xl bg-gradient-to-r from-emerald-500 to-cyan-500 text-white font-medium hover:shadow-lg hover:shadow-emerald-500/30 transition-all"
@@ -264,40 +360,204 @@ export function QuoteForm({ productId, productName, quantity, onClose, isOrderIn
                                         ref={fileInputRef}
                                         type="file"
                                         accept=".stl,.obj,.3mf"
+                                        multiple
                                         className="hidden"
                                         onChange={(e) => {
-                                            if (e.target.files?.[0]) {
-                                                handleFileSelect(e.target.files[0])
+                                            if (e.target.files?.length) {
+                                                handleFilesSelect(e.target.files)
                                             }
+                                            e.target.value = ""
                                         }}
                                     />
-
-                                    {selectedFile ? (
-                                        <div className="flex items-center justify-center gap-3">
-                                            <File className="w-8 h-8 text-emerald-400" />
-                                            <div className="text-left">
-                                                <p className="text-white font-medium">{selectedFile.name}</p>
-                                                <p className="text-xs text-gray-500">{formatFileSize(selectedFile.size)}</p>
-                                            </div>
-                                            <button
-                                                type="button"
-                                                onClick={(e) => {
-                                                    e.stopPropagation()
-                                                    setSelectedFile(null)
-                                                }}
-                                                className="p-1 rounded-lg hover:bg-white/10"
+                                    <Upload className="w-10 h-10 mx-auto mb-3 text-gray-500" />
+                                    <p className="text-gray-400 mb-1">{t("uploadHelp")}</p>
+                                    <p className="text-xs text-gray-500">{t("supportedFormats")}</p>
+                                    <p className="text-xs text-gray-500">{t("maxFileSize")}</p>
+                                </div>
+                                {/* One row per part: quantity per set and optional own material/color */}
+                                {parts.length > 0 && (
+                                    <div className="mt-3 space-y-2">
+                                        {parts.map((part, index) => (
+                                            <div
+                                                key={`${part.file.name}-${index}`}
+                                                className={`p-3 rounded-xl border transition-colors ${
+                                                    previewIndex === index ? "border-emerald-500/40 bg-emerald-500/5" : "border-white/10 bg-white/5"
+                                                }`}
                                             >
-                                                <X className="w-4 h-4 text-gray-400" />
-                                            </button>
-                                        </div>
-                                    ) : (
-                                        <>
-                                            <Upload className="w-10 h-10 mx-auto mb-3 text-gray-500" />
-                                            <p className="text-gray-400 mb-1">{t("uploadHelp")}</p>
-                                            <p className="text-xs text-gray-500">{t("supportedFormats")}</p>
-                                            <p className="text-xs text-gray-500">{t("maxFileSize")}</p>
-                                        </>
-                                    )}
+                                                <div className="flex items-center gap-3">
+                                                    <button
+                                                        type="button"
+                                                        onClick={() => setPreviewIndex(index)}
+                                                        className="flex items-center gap-3 flex-1 min-w-0 text-left"
+                                                    >
+                                                        <File className="w-6 h-6 text-emerald-400 shrink-0" />
+                                                        <div className="min-w-0">
+                                                            <p className="text-white text-sm font-medium truncate">{part.file.name}</p>
+                                                            <p className="text-xs text-gray-500">{formatFileSize(part.file.size)}</p>
+                                                        </div>
+                                                    </button>
+                                                    <button
+                                                        type="button"
+                                                        onClick={() => removePart(index)}
+                                                        className="p-1 rounded-lg hover:bg-white/10"
+                                                    >
+                                                        <X className="w-4 h-4 text-gray-400" />
+                                                    </button>
+                                                </div>
+                                                <div className="grid grid-cols-3 gap-2 mt-2">
+                                                    <label className="block">
+                                                        <span className="block text-xs text-gray-500 mb-1">{t("partQuantity")}</span>
+                                                        <input
+                                                            type="number"
+                                                            min={1}
+                                                            max={MAX_QUOTE_QUANTITY}
+                                                            required
+                                                            value={part.quantity}
+                                                            onChange={(e) => updatePart(index, { quantity: e.target.value })}
+                                                            className="w-full px-3 py-2 bg-white/5 border border-white/10 rounded-lg text-white text-base sm:text-sm focus:outline-none focus:border-emerald-500/50 transition-colors"
+                                                        />
+                                                    </label>
+                                                    <label className="block">
+                                                        <span className="block text-xs text-gray-500 mb-1">{t("material")}</span>
+                                                        <select
+                                                            value={part.materialId}
+                                                            onChange={(e) => updatePart(index, { materialId: e.target.value })}
+                                                            className="w-full px-3 py-2 bg-white/5 border border-white/10 rounded-lg text-white text-base sm:text-sm focus:outline-none focus:border-emerald-500/50 transition-colors"
+                                                        >
+                                                            <option value="" className="bg-slate-900">{t("sameAsQuote")}</option>
+                                                            {options.materials.map((m) => (
+                                                                <option key={m.id} value={m.id} className="bg-slate-900">{m.name}</option>
+                                                            ))}
+                                                        </select>
+                                                    </label>
+                                                    <label className="block">
+                                                        <span className="block text-xs text-gray-500 mb-1">{t("color")}</span>
+                                                        <select
+                                                            value={part.colorId}
+                                                            onChange={(e) => updatePart(index, { colorId: e.target.value })}
+                                                            className="w-full px-3 py-2 bg-white/5 border border-white/10 rounded-lg text-white text-base sm:text-sm focus:outline-none focus:border-emerald-500/50 transition-colors"
+                                                        >
+                                                            <option value="" className="bg-slate-900">{t("sameAsQuote")}</option>
+                                                            {options.colors.map((c) => (
+                                                                <option key={c.id} value={c.id} className="bg-slate-900">
+                                                                    {locale === "bg" ? c.nameBg : locale === "es" ? c.nameEs : c.nameEn}
+                                                                </option>
+                                                            ))}
+                                                        </select>
+                                                    </label>
+                                                </div>
+                                            </div>
+                                        ))}
+                                    </div>
+                                )}
+                                {/* Preview before upload — also shows the size the print would come out at */}
+                                {parts[previewIndex] && (
+                                    <div className="mt-3">
+                                        <ModelViewerWrapper
+                                            source={{ file: parts[previewIndex].file }}
+                                            unit={parts[previewIndex].unit}
+                                            onUnitChange={(unit) => updatePart(previewIndex, { unit })}
+                                            className="h-[240px] sm:h-[280px]"
+                                        />
+                                    </div>
+                                )}
+                            </div>
+                        )}
+
+                        {/* Print options - quote requests only */}
+                        {!isOrderInquiry && (
+                            <div className="space-y-4">
+                                <h3 className="text-sm font-medium text-gray-300">{t("printOptions")}</h3>
+                                <div className="grid grid-cols-2 gap-4">
+                                    <div className="col-span-2 sm:col-span-1">
+                                        <label className="block text-sm font-medium text-gray-400 mb-2">{t("material")}</label>
+                                        <select
+                                            value={printConfig.materialId}
+                                            onChange={(e) => setPrintConfig({ ...printConfig, materialId: e.target.value })}
+                                            className="w-full px-4 py-3 bg-white/5 border border-white/10 rounded-xl text-white text-base sm:text-sm placeholder-gray-500 focus:outline-none focus:border-emerald-500/50 transition-colors"
+                                        >
+                                            <option value="" className="bg-slate-900">{t("letUsChoose")}</option>
+                                            {options.materials.map((m) => (
+                                                <option key={m.id} value={m.id} className="bg-slate-900">{m.name}</option>
+                                            ))}
+                                        </select>
+                                    </div>
+                                    <div className="col-span-2 sm:col-span-1">
+                                        <label className="block text-sm font-medium text-gray-400 mb-2">{t("color")}</label>
+                                        <select
+                                            value={printConfig.colorId}
+                                            onChange={(e) => setPrintConfig({ ...printConfig, colorId: e.target.value })}
+                                            className="w-full px-4 py-3 bg-white/5 border border-white/10 rounded-xl text-white text-base sm:text-sm placeholder-gray-500 focus:outline-none focus:border-emerald-500/50 transition-colors"
+                                        >
+                                            <option value="" className="bg-slate-900">{t("letUsChoose")}</option>
+                                            {options.colors.map((c) => (
+                                                <option key={c.id} value={c.id} className="bg-slate-900">
+                                                    {locale === "bg" ? c.nameBg : locale === "es" ? c.nameEs : c.nameEn}
+                                                </option>
+                                            ))}
+                                        </select>
+                                    </div>
+                                    <div>
+                                        <label className="block text-sm font-medium text-gray-400 mb-2">{t("layerHeight")}</label>
+                                        <select
+                                            value={printConfig.layerHeight}
+                                            onChange={(e) => setPrintConfig({ ...printConfig, layerHeight: e.target.value })}
+                                            className="w-full px-4 py-3 bg-white/5 border border-white/10 rounded-xl text-white text-base sm:text-sm placeholder-gray-500 focus:outline-none focus:border-emerald-500/50 transition-colors"
+                                        >
+                                            <option value="" className="bg-slate-900">{t("letUsChoose")}</option>
+                                            {LAYER_HEIGHTS.map((h) => (
+                                                <option key={h} value={h} className="bg-slate-900">{h} mm</option>
+                                            ))}
+                                        </select>
+                                    </div>
+                                    <div>
+                                        <label className="block text-sm font-medium text-gray-400 mb-2">{t("infill")}</label>
+                                        <input
+                                            type="number"
+                                            min={0}
+                                            max={100}
+                                            step={5}
+                                            value={printConfig.infill}
+                                            onChange={(e) => setPrintConfig({ ...printConfig, infill: e.target.value })}
+                                            placeholder="20"
+                                            className="w-full px-4 py-3 bg-white/5 border border-white/10 rounded-xl text-white text-base sm:text-sm placeholder-gray-500 focus:outline-none focus:border-emerald-500/50 transition-colors"
+                                        />
+                                    </div>
+                                    <div>
+                                        <label className="block text-sm font-medium text-gray-400 mb-2">{t("quantity")}</label>
+                                        <input
+                                            type="number"
+                                            min={1}
+                                            max={MAX_QUOTE_QUANTITY}
+                                            required
+                                            value={printConfig.quantity}
+                                            onChange={(e) => setPrintConfig({ ...printConfig, quantity: e.target.value })}
+                                            className="w-full px-4 py-3 bg-white/5 border border-white/10 rounded-xl text-white text-base sm:text-sm placeholder-gray-500 focus:outline-none focus:border-emerald-500/50 transition-colors"
+                                        />
+                                    </div>
+                                    <div>
+                                        <label className="block text-sm font-medium text-gray-400 mb-2">{t("finish")}</label>
+                                        <select
+                                            value={printConfig.finish}
+                                            onChange={(e) => setPrintConfig({ ...printConfig, finish: e.target.value })}
+                                            className="w-full px-4 py-3 bg-white/5 border border-white/10 rounded-xl text-white text-base sm:text-sm placeholder-gray-500 focus:outline-none focus:border-emerald-500/50 transition-colors"
+                                        >
+                                            <option value="" className="bg-slate-900">{t("letUsChoose")}</option>
+                                            {PRINT_FINISHES.map((f) => (
+                                                <option key={f} value={f} className="bg-slate-900">{t(`finish_${f}`)}</option>
+                                            ))}
+                                        </select>
+                                    </div>
+                                    <div className="col-span-2">
+                                        <label className="block text-sm font-medium text-gray-400 mb-2">{t("deadline")}</label>
+                                        <input
+                                            type="date"
+                                            min={new Date().toISOString().slice(0, 10)}
+                                            value={printConfig.deadline}
+                                            onChange={(e) => setPrintConfig({ ...printConfig, deadline: e.target.value })}
+                                            className="w-full px-4 py-3 bg-white/5 border border-white/10 rounded-xl text-white text-base sm:text-sm placeholder-gray-500 focus:outline-none focus:border-emerald-500/50 transition-colors"
+                                        />
+                                    </div>
                                 </div>
                             </div>
                         )}
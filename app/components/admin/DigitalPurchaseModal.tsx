@@ -0,0 +1,248 @@
+"use client"
+
+import { useState, useEffect, useCallback } from "react"
+import { X, Loader2, Copy } from "lucide-react"
+import { useTranslations } from "next-intl"
+import { toast } from "sonner"
+
+type DownloadStatus = "active" | "expired" | "used_up" | "revoked"
+
+interface DigitalPurchaseDetail {
+  id: string
+  productName: string | null
+  email: string
+  downloadToken: string
+  downloadCount: number
+  maxDownloads: number
+  reissueCount: number
+  expiresAt: string
+  revokedAt: string | null
+  createdAt: string
+  status: DownloadStatus
+  totalDownloads: number
+  downloads: { id: string; ip: string | null; userAgent: string | null; createdAt: string }[]
+}
+
+interface LimitsForm {
+  extendDays: string
+  maxDownloads: string
+  resetCount: boolean
+  resetReissues: boolean
+  reissue: boolean
+}
+
+interface DigitalPurchaseModalProps {
+  purchaseId: string
+  canEdit: boolean
+  onSaved: () => void
+  onClose: () => void
+}
+
+const EMPTY_FORM: LimitsForm = { extendDays: "", maxDownloads: "", resetCount: false, resetReissues: false, reissue: false }
+
+/** A purchase's link and download log, with staff tools to extend or reset its limits */
+export function DigitalPurchaseModal({ purchaseId, canEdit, onSaved, onClose }: DigitalPurchaseModalProps) {
+  const t = useTranslations("admin.downloads")
+  const [purchase, setPurchase] = useState<DigitalPurchaseDetail | null>(null)
+  const [formData, setFormData] = useState<LimitsForm>(EMPTY_FORM)
+  const [saving, setSaving] = useState(false)
+
+  useEffect(() => {
+    const handleKey = (e: KeyboardEvent) => { if (e.key === "Escape") onClose() }
+    window.addEventListener("keydown", handleKey)
+    return () => window.removeEventListener("keydown", handleKey)
+  }, [onClose])
+
+  const fetchPurchase = useCallback(async () => {
+    const res = await fetch(`/api/admin/downloads/${purchaseId}`)
+    if (!res.ok) {
+      toast.error(t("fetchFailed"))
+      onClose()
+      return
+    }
+    setPurchase(await res.json())
+  }, [purchaseId, onClose, t])
+
+  useEffect(() => { fetchPurchase() }, [fetchPurchase])
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setSaving(true)
+    try {
+      const res = await fetch("/api/admin/downloads", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ id: purchaseId, ...formData }),
+      })
+      if (!res.ok) {
+        const err = await res.json().catch(() => ({}))
+        toast.error(err.error || t("saveFailed"))
+        return
+      }
+      toast.success(formData.reissue ? t("reissued") : t("saved"))
+      setFormData(EMPTY_FORM)
+      fetchPurchase()
+      onSaved()
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const copyLink = () => {
+    if (!purchase) return
+    navigator.clipboard.writeText(`${window.location.origin}/products/download/${purchase.downloadToken}`)
+    toast.success(t("linkCopied"))
+  }
+
+  const inputClass = "w-full bg-white/5 border border-white/10 rounded-xl px-4 py-2.5 text-base sm:text-sm text-white placeholder-gray-600 focus:outline-none focus:border-emerald-500/50"
+  const checkboxClass = "w-5 h-5 rounded bg-white/5 border-white/10 text-emerald-500 focus:ring-emerald-500/50"
+  const hasChanges = formData.extendDays !== "" || formData.maxDownloads !== "" || formData.resetCount || formData.resetReissues || formData.reissue
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+      <div className="absolute inset-0 bg-black/60 backdrop-blur-sm" onClick={onClose} />
+      <div className="relative w-full max-w-2xl bg-[#0d0d1a] border border-white/10 shadow-2xl rounded-2xl flex flex-col max-h-[85svh]">
+        {/* Header */}
+        <div className="flex items-center justify-between p-4 sm:p-6 border-b border-white/10 shrink-0">
+          <div className="min-w-0">
+            <h2 className="text-lg font-semibold text-white truncate">{purchase?.productName ?? t("unknownProduct")}</h2>
+            <p className="text-xs text-gray-500 truncate">{purchase?.email}</p>
+          </div>
+          <button onClick={onClose} className="w-11 h-11 sm:w-10 sm:h-10 flex items-center justify-center rounded-xl hover:bg-white/10 transition-colors shrink-0">
+            <X className="w-5 h-5 text-gray-400" />
+          </button>
+        </div>
+
+        {!purchase ? (
+          <div className="flex justify-center py-12">
+            <Loader2 className="w-6 h-6 animate-spin text-gray-400" />
+          </div>
+        ) : (
+          <form onSubmit={handleSubmit} className="flex flex-col flex-1 overflow-y-auto overscroll-contain">
+            <div className="p-4 sm:p-6 space-y-6">
+              {/* Current link */}
+              <div className="grid grid-cols-2 sm:grid-cols-4 gap-3 text-sm">
+                <div>
+                  <p className="text-xs text-gray-500">{t("status")}</p>
+                  <p className="text-white">{t(`status_${purchase.status}`)}</p>
+                </div>
+                <div>
+                  <p className="text-xs text-gray-500">{t("downloads")}</p>
+                  <p className="text-white">{purchase.downloadCount} / {purchase.maxDownloads}</p>
+                </div>
+                <div>
+                  <p className="text-xs text-gray-500">{t("expires")}</p>
+                  <p className="text-white">{new Date(purchase.expiresAt).toLocaleString()}</p>
+                </div>
+                <div>
+                  <p className="text-xs text-gray-500">{t("reissues")}</p>
+                  <p className="text-white">{purchase.reissueCount}</p>
+                </div>
+              </div>
+              {purchase.status === "active" && (
+                <button
+                  type="button"
+                  onClick={copyLink}
+                  className="flex items-center gap-2 px-3 py-2 rounded-lg bg-white/5 hover:bg-white/10 border border-white/10 text-sm text-gray-300 transition-colors"
+                >
+                  <Copy className="w-4 h-4" />
+                  {t("copyLink")}
+                </button>
+              )}
+
+              {/* Limits */}
+              {canEdit && !purchase.revokedAt && (
+                <div className="space-y-4">
+                  <h3 className="text-sm font-semibold text-white">{t("adjustLimits")}</h3>
+                  <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                    <div>
+                      <label className="block text-sm font-medium text-gray-400 mb-1.5">{t("extendDays")}</label>
+                      <input
+                        type="number"
+                        value={formData.extendDays}
+                        onChange={e => setFormData(prev => ({ ...prev, extendDays: e.target.value }))}
+                        className={inputClass}
+                        placeholder="7"
+                        min={1}
+                        max={365}
+                      />
+                    </div>
+                    <div>
+                      <label className="block text-sm font-medium text-gray-400 mb-1.5">{t("maxDownloads")}</label>
+                      <input
+                        type="number"
+                        value={formData.maxDownloads}
+                        onChange={e => setFormData(prev => ({ ...prev, maxDownloads: e.target.value }))}
+                        className={inputClass}
+                        placeholder={String(purchase.maxDownloads)}
+                        min={1}
+                        max={1000}
+                      />
+                    </div>
+                  </div>
+                  {(["resetCount", "resetReissues", "reissue"] as const).map(field => (
+                    <div key={field} className="flex items-start gap-3">
+                      <input
+                        type="checkbox"
+                        id={field}
+                        checked={formData[field]}
+                        onChange={e => setFormData(prev => ({ ...prev, [field]: e.target.checked }))}
+                        className={checkboxClass}
+                      />
+                      <label htmlFor={field} className="text-sm text-gray-300">
+                        {t(field)}
+                        <span className="block text-xs text-gray-600">{t(`${field}Hint`)}</span>
+                      </label>
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              {/* Download log */}
+              <div>
+                <h3 className="text-sm font-semibold text-white mb-2">
+                  {t("downloadLog")} <span className="text-gray-500 font-normal">({purchase.totalDownloads})</span>
+                </h3>
+                {purchase.downloads.length === 0 ? (
+                  <p className="text-sm text-gray-500 italic">{t("noDownloads")}</p>
+                ) : (
+                  <div className="rounded-xl border border-white/10 divide-y divide-white/5">
+                    {purchase.downloads.map(d => (
+                      <div key={d.id} className="px-3 py-2 text-xs">
+                        <div className="flex items-center justify-between gap-3">
+                          <span className="text-gray-300">{new Date(d.createdAt).toLocaleString()}</span>
+                          <span className="font-mono text-gray-400">{d.ip ?? "—"}</span>
+                        </div>
+                        {d.userAgent && <p className="text-gray-600 truncate" title={d.userAgent}>{d.userAgent}</p>}
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+            </div>
+
+            {/* Footer */}
+            <div className="flex items-center gap-3 p-4 sm:p-6 border-t border-white/10 shrink-0">
+              <button
+                type="button"
+                onClick={onClose}
+                className="flex-1 py-2.5 rounded-xl border border-white/10 text-sm text-gray-400 hover:text-white hover:border-white/30 transition-colors"
+              >
+                {t("close")}
+              </button>
+              {canEdit && !purchase.revokedAt && (
+                <button
+                  type="submit"
+                  disabled={saving || !hasChanges}
+                  className="flex-1 py-2.5 rounded-xl bg-gradient-to-r from-emerald-500 to-cyan-500 text-sm text-white font-medium hover:shadow-lg hover:shadow-emerald-500/30 transition-all disabled:opacity-40 disabled:cursor-not-allowed"
+                >
+                  {saving ? t("saving") : t("save")}
+                </button>
+              )}
+            </div>
+          </form>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,156 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import { X } from "lucide-react"
+import { useTranslations } from "next-intl"
+
+interface FilamentSpoolFormData {
+  id?: string
+  stockId: string
+  grams: string
+  costPerKg: string
+  supplier: string
+  notes: string
+}
+
+interface FilamentSpoolFormProps {
+  initialData: FilamentSpoolFormData
+  stockLabel: string
+  onSubmit: (data: FilamentSpoolFormData) => Promise<void>
+  onCancel: () => void
+}
+
+/** New spools are entered by net weight; existing ones are corrected to what is left after weighing */
+export function FilamentSpoolForm({ initialData, stockLabel, onSubmit, onCancel }: FilamentSpoolFormProps) {
+  const t = useTranslations("admin.inventory")
+  const [saving, setSaving] = useState(false)
+  const [formData, setFormData] = useState<FilamentSpoolFormData>(initialData)
+  const [errors, setErrors] = useState<Record<string, string>>({})
+
+  useEffect(() => {
+    const handleKey = (e: KeyboardEvent) => { if (e.key === "Escape") onCancel() }
+    window.addEventListener("keydown", handleKey)
+    return () => window.removeEventListener("keydown", handleKey)
+  }, [onCancel])
+
+  const editing = !!initialData.id
+
+  const validate = () => {
+    const errs: Record<string, string> = {}
+    const grams = parseFloat(formData.grams)
+    if (!(editing ? grams >= 0 : grams > 0)) errs.grams = "Weight is required"
+    if (formData.costPerKg && !(parseFloat(formData.costPerKg) >= 0)) errs.costPerKg = "Cost must be zero or more"
+    setErrors(errs)
+    return Object.keys(errs).length === 0
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!validate()) return
+    setSaving(true)
+    try {
+      await onSubmit(formData)
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const inputClass = "w-full bg-white/5 border border-white/10 rounded-xl px-4 py-2.5 text-base sm:text-sm text-white placeholder-gray-600 focus:outline-none focus:border-emerald-500/50"
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+      <div className="absolute inset-0 bg-black/60 backdrop-blur-sm" onClick={onCancel} />
+      <div className="relative w-full max-w-md bg-[#0d0d1a] border border-white/10 shadow-2xl rounded-2xl flex flex-col max-h-[85svh]">
+        {/* Header */}
+        <div className="flex items-center justify-between p-4 sm:p-6 border-b border-white/10 shrink-0">
+          <div className="min-w-0">
+            <h2 className="text-lg font-semibold text-white">{editing ? t("editSpool") : t("addSpool")}</h2>
+            <p className="text-xs text-gray-500 truncate">{stockLabel}</p>
+          </div>
+          <button onClick={onCancel} className="w-11 h-11 sm:w-10 sm:h-10 flex items-center justify-center rounded-xl hover:bg-white/10 transition-colors shrink-0">
+            <X className="w-5 h-5 text-gray-400" />
+          </button>
+        </div>
+
+        {/* Body */}
+        <form onSubmit={handleSubmit} className="flex flex-col flex-1 overflow-y-auto overscroll-contain">
+          <div className="p-4 sm:p-6 space-y-4">
+            {/* Weight */}
+            <div>
+              <label className="block text-sm font-medium text-gray-400 mb-1.5">{editing ? t("remainingGrams") : t("spoolGrams")}</label>
+              <input
+                type="number"
+                value={formData.grams}
+                onChange={e => setFormData(prev => ({ ...prev, grams: e.target.value }))}
+                className={inputClass}
+                placeholder="1000"
+                min={0}
+                step="any"
+                autoFocus
+              />
+              {errors.grams && <p className="mt-1 text-xs text-red-400">{errors.grams}</p>}
+              <p className="mt-1 text-xs text-gray-600">{editing ? t("remainingGramsHint") : t("spoolGramsHint")}</p>
+            </div>
+
+            {/* Cost */}
+            <div>
+              <label className="block text-sm font-medium text-gray-400 mb-1.5">{t("costPerKg")}</label>
+              <input
+                type="number"
+                value={formData.costPerKg}
+                onChange={e => setFormData(prev => ({ ...prev, costPerKg: e.target.value }))}
+                className={inputClass}
+                placeholder="22.90"
+                min={0}
+                step="0.01"
+              />
+              {errors.costPerKg && <p className="mt-1 text-xs text-red-400">{errors.costPerKg}</p>}
+            </div>
+
+            {/* Supplier */}
+            <div>
+              <label className="block text-sm font-medium text-gray-400 mb-1.5">{t("supplier")}</label>
+              <input
+                type="text"
+                value={formData.supplier}
+                onChange={e => setFormData(prev => ({ ...prev, supplier: e.target.value }))}
+                className={inputClass}
+                placeholder={t("supplierPlaceholder")}
+              />
+            </div>
+
+            {/* Notes */}
+            <div>
+              <label className="block text-sm font-medium text-gray-400 mb-1.5">{t("notes")}</label>
+              <textarea
+                value={formData.notes}
+                onChange={e => setFormData(prev => ({ ...prev, notes: e.target.value }))}
+                rows={2}
+                className={`${inputClass} resize-none`}
+                placeholder={t("notesPlaceholder")}
+              />
+            </div>
+          </div>
+
+          {/* Footer */}
+          <div className="flex items-center gap-3 p-4 sm:p-6 border-t border-white/10 shrink-0">
+            <button
+              type="button"
+              onClick={onCancel}
+              className="flex-1 py-2.5 rounded-xl border border-white/10 text-sm text-gray-400 hover:text-white hover:border-white/30 transition-colors"
+            >
+              {t("cancel")}
+            </button>
+            <button
+              type="submit"
+              disabled={saving}
+              className="flex-1 py-2.5 rounded-xl bg-gradient-to-r from-emerald-500 to-cyan-500 text-sm text-white font-medium hover:shadow-lg hover:shadow-emerald-500/30 transition-all disabled:opacity-40 disabled:cursor-not-allowed"
+            >
+              {saving ? t("saving") : t("save")}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,150 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import { X } from "lucide-react"
+import { useLocale, useTranslations } from "next-intl"
+
+interface FilamentStockFormData {
+  id?: string
+  materialId: string
+  colorId: string
+  lowStockGrams: string
+}
+
+interface FilamentStockFormProps {
+  initialData?: FilamentStockFormData
+  materials: { id: string; name: string }[]
+  colors: { id: string; nameEn: string; nameBg: string; nameEs: string }[]
+  onSubmit: (data: FilamentStockFormData) => Promise<void>
+  onCancel: () => void
+}
+
+export function FilamentStockForm({ initialData, materials, colors, onSubmit, onCancel }: FilamentStockFormProps) {
+  const t = useTranslations("admin.inventory")
+  const locale = useLocale()
+  const [saving, setSaving] = useState(false)
+  const [formData, setFormData] = useState<FilamentStockFormData>({
+    materialId: materials[0]?.id ?? "",
+    colorId: colors[0]?.id ?? "",
+    lowStockGrams: "500",
+    ...initialData,
+  })
+  const [errors, setErrors] = useState<Record<string, string>>({})
+
+  useEffect(() => {
+    const handleKey = (e: KeyboardEvent) => { if (e.key === "Escape") onCancel() }
+    window.addEventListener("keydown", handleKey)
+    return () => window.removeEventListener("keydown", handleKey)
+  }, [onCancel])
+
+  const validate = () => {
+    const errs: Record<string, string> = {}
+    if (!formData.materialId || !formData.colorId) errs.pair = "Material and color are required"
+    if (!(parseInt(formData.lowStockGrams) >= 0)) errs.lowStockGrams = "Threshold must be zero or more"
+    setErrors(errs)
+    return Object.keys(errs).length === 0
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!validate()) return
+    setSaving(true)
+    try {
+      await onSubmit(formData)
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const colorName = (color: FilamentStockFormProps["colors"][number]) =>
+    locale === "bg" ? color.nameBg : locale === "es" ? color.nameEs : color.nameEn
+  const editing = !!initialData?.id
+  const inputClass = "w-full bg-white/5 border border-white/10 rounded-xl px-4 py-2.5 text-base sm:text-sm text-white placeholder-gray-600 focus:outline-none focus:border-emerald-500/50 disabled:opacity-60"
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+      <div className="absolute inset-0 bg-black/60 backdrop-blur-sm" onClick={onCancel} />
+      <div className="relative w-full max-w-md bg-[#0d0d1a] border border-white/10 shadow-2xl rounded-2xl flex flex-col max-h-[85svh]">
+        {/* Header */}
+        <div className="flex items-center justify-between p-4 sm:p-6 border-b border-white/10 shrink-0">
+          <h2 className="text-lg font-semibold text-white">
+            {editing ? t("editStock") : t("addStock")}
+          </h2>
+          <button onClick={onCancel} className="w-11 h-11 sm:w-10 sm:h-10 flex items-center justify-center rounded-xl hover:bg-white/10 transition-colors">
+            <X className="w-5 h-5 text-gray-400" />
+          </button>
+        </div>
+
+        {/* Body */}
+        <form onSubmit={handleSubmit} className="flex flex-col flex-1 overflow-y-auto overscroll-contain">
+          <div className="p-4 sm:p-6 space-y-4">
+            {/* Material */}
+            <div>
+              <label className="block text-sm font-medium text-gray-400 mb-1.5">{t("material")}</label>
+              <select
+                value={formData.materialId}
+                onChange={e => setFormData(prev => ({ ...prev, materialId: e.target.value }))}
+                disabled={editing}
+                className={inputClass}
+              >
+                {materials.map(material => (
+                  <option key={material.id} value={material.id}>{material.name}</option>
+                ))}
+              </select>
+            </div>
+
+            {/* Color */}
+            <div>
+              <label className="block text-sm font-medium text-gray-400 mb-1.5">{t("color")}</label>
+              <select
+                value={formData.colorId}
+                onChange={e => setFormData(prev => ({ ...prev, colorId: e.target.value }))}
+                disabled={editing}
+                className={inputClass}
+              >
+                {colors.map(color => (
+                  <option key={color.id} value={color.id}>{colorName(color)}</option>
+                ))}
+              </select>
+              {errors.pair && <p className="mt-1 text-xs text-red-400">{errors.pair}</p>}
+            </div>
+
+            {/* Threshold */}
+            <div>
+              <label className="block text-sm font-medium text-gray-400 mb-1.5">{t("lowStockGrams")}</label>
+              <input
+                type="number"
+                value={formData.lowStockGrams}
+                onChange={e => setFormData(prev => ({ ...prev, lowStockGrams: e.target.value }))}
+                className={inputClass}
+                placeholder="500"
+                min={0}
+                autoFocus={editing}
+              />
+              {errors.lowStockGrams && <p className="mt-1 text-xs text-red-400">{errors.lowStockGrams}</p>}
+              <p className="mt-1 text-xs text-gray-600">{t("lowStockGramsHint")}</p>
+            </div>
+          </div>
+
+          {/* Footer */}
+          <div className="flex items-center gap-3 p-4 sm:p-6 border-t border-white/10 shrink-0">
+            <button
+              type="button"
+              onClick={onCancel}
+              className="flex-1 py-2.5 rounded-xl border border-white/10 text-sm text-gray-400 hover:text-white hover:border-white/30 transition-colors"
+            >
+              {t("cancel")}
+            </button>
+            <button
+              type="submit"
+              disabled={saving}
+              className="flex-1 py-2.5 rounded-xl bg-gradient-to-r from-emerald-500 to-cyan-500 text-sm text-white font-medium hover:shadow-lg hover:shadow-emerald-500/30 transition-all disabled:opacity-40 disabled:cursor-not-allowed"
+            >
+              {saving ? t("saving") : t("save")}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  )
+}
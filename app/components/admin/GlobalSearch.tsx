@@ -26,7 +26,7 @@ import {
 // Lightweight types for search results
 interface SearchProduct {
   id: string; nameEn: string; nameBg: string; nameEs: string
-  sku: string | null; slug: string
+  sku: string | null; slug: string; published: boolean
 }
 interface SearchContent {
   id: string; titleEn: string; titleBg: string; titleEs: string
@@ -95,8 +95,9 @@ export function GlobalSearch() {
   const [activeIndex, setActiveIndex] = useState(0)
   const [loading, setLoading] = useState(false)
 
+  // Products are ranked server-side per query; everything else is filtered from a cached list
+  const [productMatches, setProductMatches] = useState<SearchProduct[]>([])
   const [dataCache, setDataCache] = useState<{
-    products: SearchProduct[] | null
     content: SearchContent[] | null
     orders: SearchOrder[] | null
     quotes: SearchQuote[] | null
@@ -105,7 +106,6 @@ export function GlobalSearch() {
     types: SearchType[] | null
     coupons: SearchCoupon[] | null
   }>({
-    products: null,
     content: null,
     orders: null,
     quotes: null,
@@ -143,11 +143,11 @@ export function GlobalSearch() {
 
   // Fetch data on open
   const fetchData = useCallback(async () => {
-    if (dataCache.products !== null && Date.now() - lastFetchRef.current < CACHE_TTL) return
+    if (lastFetchRef.current > 0 && Date.now() - lastFetchRef.current < CACHE_TTL) return
 
     setLoading(true)
     // Reset cache
-    setDataCache({ products: null, content: null, orders: null, quotes: null, users: null, menu: null, types: null, coupons: null })
+    setDataCache({ content: null, orders: null, quotes: null, users: null, menu: null, types: null, coupons: null })
 
     const fetchers: Promise<void>[] = []
 
@@ -172,7 +172,6 @@ export function GlobalSearch() {
       }
     }
 
-    fetchEndpoint<SearchProduct>("products", "/api/admin/products", "products")
     fetchEndpoint<SearchContent>("content", "/api/admin/content", "content")
     fetchEndpoint<SearchOrder>("orders", "/api/admin/orders", "orders")
     fetchEndpoint<SearchQuote>("quotes", "/api/admin/quotes", "quotes")
@@ -199,12 +198,29 @@ export function GlobalSearch() {
     await Promise.allSettled(fetchers)
     lastFetchRef.current = Date.now()
     setLoading(false)
-  }, [can, dataCache.products])
+  }, [can])
 
   useEffect(() => {
     if (open) fetchData()
   }, [open, fetchData])
 
+  // Ranked product search, debounced while typing — shorter queries show no products (see results)
+  useEffect(() => {
+    const q = query.trim()
+    if (!open || q.length < 2 || !can("products", "view")) return
+    const controller = new AbortController()
+    const timer = setTimeout(() => {
+      fetch(`/api/admin/products/search?q=${encodeURIComponent(q)}&limit=5`, { signal: controller.signal })
+        .then(r => r.json())
+        .then((data: SearchProduct[]) => setProductMatches(Array.isArray(data) ? data : []))
+        .catch(() => {})
+    }, 200)
+    return () => {
+      clearTimeout(timer)
+      controller.abort()
+    }
+  }, [open, query, can])
+
   // Filter results
   const results = useMemo((): SearchResult[] => {
     const q = query.toLowerCase().trim()
@@ -230,24 +246,14 @@ export function GlobalSearch() {
     // Data section (only when query >= 2 chars)
     if (q.length >= 2) {
       // Products
-      if (dataCache.products) {
-        dataCache.products
-          .filter(p =>
-            p.nameEn.toLowerCase().includes(q) ||
-            p.nameBg.toLowerCase().includes(q) ||
-            p.nameEs.toLowerCase().includes(q) ||
-            (p.sku && p.sku.toLowerCase().includes(q))
-          )
-          .slice(0, 5)
-          .forEach(p => items.push({
-            id: `product-${p.id}`,
-            label: p.nameEn,
-            sublabel: p.sku || undefined,
-            href: `/admin/products?edit=${p.id}`,
-            icon: Package,
-            section: t("products"),
-          }))
-      }
+      if (can("products", "view")) productMatches.forEach(p => items.push({
+        id: `product-${p.id}`,
+        label: p.nameEn,
+        sublabel: p.sku || (p.published ? undefined : t("draft")),
+        href: `/admin/products?edit=${p.id}`,
+        icon: Package,
+        section: t("products"),
+      }))
 
       // Content
       if (dataCache.content) {
@@ -382,7 +388,7 @@ export function GlobalSearch() {
     }
 
     return items
-  }, [query, dataCache, can, t, tNav])
+  }, [query, productMatches, dataCache, can, t, tNav])
 
   // Reset active index when query changes
   useEffect(() => {
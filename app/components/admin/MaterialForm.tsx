@@ -0,0 +1,168 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import { X } from "lucide-react"
+import { useTranslations } from "next-intl"
+
+interface MaterialFormData {
+  id?: string
+  name: string
+  density: string
+  pricePerGram: string
+  active: boolean
+  order: number
+}
+
+interface MaterialFormProps {
+  initialData?: MaterialFormData
+  onSubmit: (data: MaterialFormData) => Promise<void>
+  onCancel: () => void
+}
+
+export function MaterialForm({ initialData, onSubmit, onCancel }: MaterialFormProps) {
+  const t = useTranslations("admin.materials")
+  const [saving, setSaving] = useState(false)
+  const [formData, setFormData] = useState<MaterialFormData>({
+    name: "",
+    density: "",
+    pricePerGram: "",
+    active: true,
+    order: 0,
+    ...initialData,
+  })
+  const [errors, setErrors] = useState<Record<string, string>>({})
+
+  useEffect(() => {
+    const handleKey = (e: KeyboardEvent) => { if (e.key === "Escape") onCancel() }
+    window.addEventListener("keydown", handleKey)
+    return () => window.removeEventListener("keydown", handleKey)
+  }, [onCancel])
+
+  const validate = () => {
+    const errs: Record<string, string> = {}
+    if (!formData.name.trim()) errs.name = "Name is required"
+    if (!(parseFloat(formData.density) > 0)) errs.density = "Density must be a positive number"
+    if (!(parseFloat(formData.pricePerGram) >= 0)) errs.pricePerGram = "Price per gram is required"
+    setErrors(errs)
+    return Object.keys(errs).length === 0
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!validate()) return
+    setSaving(true)
+    try {
+      await onSubmit(formData)
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+      <div className="absolute inset-0 bg-black/60 backdrop-blur-sm" onClick={onCancel} />
+      <div className="relative w-full max-w-sm bg-[#0d0d1a] border border-white/10 shadow-2xl rounded-2xl flex flex-col max-h-[85svh]">
+        {/* Header */}
+        <div className="flex items-center justify-between p-4 sm:p-6 border-b border-white/10 shrink-0">
+          <h2 className="text-lg font-semibold text-white">
+            {initialData?.id ? t("editMaterial") : t("addMaterial")}
+          </h2>
+          <button onClick={onCancel} className="w-11 h-11 sm:w-10 sm:h-10 flex items-center justify-center rounded-xl hover:bg-white/10 transition-colors">
+            <X className="w-5 h-5 text-gray-400" />
+          </button>
+        </div>
+
+        {/* Body */}
+        <form onSubmit={handleSubmit} className="flex flex-col flex-1 overflow-y-auto overscroll-contain">
+          <div className="p-4 sm:p-6 space-y-4">
+            {/* Name */}
+            <div>
+              <label className="block text-sm font-medium text-gray-400 mb-1.5">{t("name")}</label>
+              <input
+                type="text"
+                value={formData.name}
+                onChange={e => setFormData(prev => ({ ...prev, name: e.target.value }))}
+                className="w-full bg-white/5 border border-white/10 rounded-xl px-4 py-2.5 text-base sm:text-sm text-white placeholder-gray-600 focus:outline-none focus:border-emerald-500/50"
+                placeholder={t("namePlaceholder")}
+                autoFocus
+              />
+              {errors.name && <p className="mt-1 text-xs text-red-400">{errors.name}</p>}
+            </div>
+
+            {/* Density */}
+            <div>
+              <label className="block text-sm font-medium text-gray-400 mb-1.5">{t("density")}</label>
+              <input
+                type="number"
+                value={formData.density}
+                onChange={e => setFormData(prev => ({ ...prev, density: e.target.value }))}
+                className="w-full bg-white/5 border border-white/10 rounded-xl px-4 py-2.5 text-base sm:text-sm text-white placeholder-gray-600 focus:outline-none focus:border-emerald-500/50"
+                placeholder="1.24"
+                min={0}
+                step="0.01"
+              />
+              {errors.density && <p className="mt-1 text-xs text-red-400">{errors.density}</p>}
+              <p className="mt-1 text-xs text-gray-600">{t("densityHint")}</p>
+            </div>
+
+            {/* Price per gram */}
+            <div>
+              <label className="block text-sm font-medium text-gray-400 mb-1.5">{t("pricePerGram")}</label>
+              <input
+                type="number"
+                value={formData.pricePerGram}
+                onChange={e => setFormData(prev => ({ ...prev, pricePerGram: e.target.value }))}
+                className="w-full bg-white/5 border border-white/10 rounded-xl px-4 py-2.5 text-base sm:text-sm text-white placeholder-gray-600 focus:outline-none focus:border-emerald-500/50"
+                placeholder="0.05"
+                min={0}
+                step="0.0001"
+              />
+              {errors.pricePerGram && <p className="mt-1 text-xs text-red-400">{errors.pricePerGram}</p>}
+            </div>
+
+            {/* Active */}
+            <label className="flex items-center gap-3 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={formData.active}
+                onChange={e => setFormData(prev => ({ ...prev, active: e.target.checked }))}
+                className="w-4 h-4 accent-emerald-500"
+              />
+              <span className="text-sm text-gray-300">{t("active")}</span>
+            </label>
+
+            {/* Order */}
+            <div>
+              <label className="block text-sm font-medium text-gray-400 mb-1.5">{t("order")}</label>
+              <input
+                type="number"
+                value={formData.order}
+                onChange={e => setFormData(prev => ({ ...prev, order: parseInt(e.target.value) || 0 }))}
+                className="w-full bg-white/5 border border-white/10 rounded-xl px-4 py-2.5 text-base sm:text-sm text-white focus:outline-none focus:border-emerald-500/50"
+                min={0}
+              />
+            </div>
+          </div>
+
+          {/* Footer */}
+          <div className="flex items-center gap-3 p-4 sm:p-6 border-t border-white/10 shrink-0">
+            <button
+              type="button"
+              onClick={onCancel}
+              className="flex-1 py-2.5 rounded-xl border border-white/10 text-sm text-gray-400 hover:text-white hover:border-white/30 transition-colors"
+            >
+              {t("cancel")}
+            </button>
+            <button
+              type="submit"
+              disabled={saving}
+              className="flex-1 py-2.5 rounded-xl bg-gradient-to-r from-emerald-500 to-cyan-500 text-sm text-white font-medium hover:shadow-lg hover:shadow-emerald-500/30 transition-all disabled:opacity-40 disabled:cursor-not-allowed"
+            >
+              {saving ? t("saving") : t("save")}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  )
+}
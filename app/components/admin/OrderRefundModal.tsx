@@ -0,0 +1,199 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import { X, Minus, Plus } from "lucide-react"
+import { useTranslations } from "next-intl"
+
+export interface RefundableOrder {
+  id: string
+  orderNumber: string
+  total: string | null
+  refundedAmount: string
+  shippingFee: string | null
+  items: Array<{
+    id: string
+    nameEn: string
+    packageLabel: string | null
+    colorNameEn: string | null
+    quantity: number
+    refundedQuantity: number
+    lineTotal: string
+  }>
+  refunds: Array<{ includesShipping: boolean; status: string }>
+}
+
+interface OrderRefundModalProps {
+  order: RefundableOrder
+  onSubmit: (data: { lines: Array<{ orderItemId: string; quantity: number }>; includeShipping: boolean; reason: string }) => Promise<void>
+  onCancel: () => void
+}
+
+const REASONS = ["requested_by_customer", "duplicate", "fraudulent"] as const
+
+export function OrderRefundModal({ order, onSubmit, onCancel }: OrderRefundModalProps) {
+  const t = useTranslations("admin.orders")
+  const [quantities, setQuantities] = useState<Record<string, number>>({})
+  const [includeShipping, setIncludeShipping] = useState(false)
+  const [reason, setReason] = useState<string>("requested_by_customer")
+  const [saving, setSaving] = useState(false)
+
+  useEffect(() => {
+    const handleKey = (e: KeyboardEvent) => { if (e.key === "Escape") onCancel() }
+    window.addEventListener("keydown", handleKey)
+    return () => window.removeEventListener("keydown", handleKey)
+  }, [onCancel])
+
+  const shippingFee = parseFloat(order.shippingFee ?? "0")
+  const shippingRefundable = shippingFee > 0 && !order.refunds.some(r => r.includesShipping && r.status !== "failed")
+  const refundable = parseFloat(order.total ?? "0") - parseFloat(order.refundedAmount)
+
+  const remaining = (item: RefundableOrder["items"][number]) => item.quantity - item.refundedQuantity
+
+  const setQuantity = (itemId: string, quantity: number) => {
+    setQuantities(prev => ({ ...prev, [itemId]: quantity }))
+  }
+
+  const selectAll = () => {
+    setQuantities(Object.fromEntries(order.items.map(i => [i.id, remaining(i)])))
+    setIncludeShipping(shippingRefundable)
+  }
+
+  // Estimate only — the server allocates the last unit's rounding remainder
+  const amount = order.items.reduce((sum, i) => sum + (parseFloat(i.lineTotal) / i.quantity) * (quantities[i.id] ?? 0), 0)
+    + (includeShipping ? shippingFee : 0)
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setSaving(true)
+    try {
+      await onSubmit({
+        lines: Object.entries(quantities).filter(([, q]) => q > 0).map(([orderItemId, quantity]) => ({ orderItemId, quantity })),
+        includeShipping,
+        reason,
+      })
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+      <div className="absolute inset-0 bg-black/60 backdrop-blur-sm" onClick={onCancel} />
+      <div className="relative w-full max-w-lg bg-[#0d0d1a] border border-white/10 shadow-2xl rounded-2xl flex flex-col max-h-[85svh]">
+        {/* Header */}
+        <div className="flex items-center justify-between p-4 sm:p-6 border-b border-white/10 shrink-0">
+          <div>
+            <h2 className="text-lg font-semibold text-white">{t("refundTitle")}</h2>
+            <p className="text-xs text-gray-500 font-mono">{order.orderNumber}</p>
+          </div>
+          <button onClick={onCancel} className="w-11 h-11 sm:w-10 sm:h-10 flex items-center justify-center rounded-xl hover:bg-white/10 transition-colors">
+            <X className="w-5 h-5 text-gray-400" />
+          </button>
+        </div>
+
+        {/* Body */}
+        <form onSubmit={handleSubmit} className="flex flex-col flex-1 overflow-y-auto overscroll-contain">
+          <div className="p-4 sm:p-6 space-y-4">
+            <div className="flex items-center justify-between">
+              <span className="text-sm text-gray-400">{t("refundable", { amount: `€${refundable.toFixed(2)}` })}</span>
+              <button type="button" onClick={selectAll} className="text-xs text-emerald-400 hover:text-emerald-300">
+                {t("refundEverything")}
+              </button>
+            </div>
+
+            <div className="rounded-xl border border-white/10 divide-y divide-white/5">
+              {order.items.map(item => {
+                const max = remaining(item)
+                const qty = quantities[item.id] ?? 0
+                return (
+                  <div key={item.id} className="flex items-center justify-between gap-3 px-4 py-2 text-sm">
+                    <div className="min-w-0">
+                      <p className="text-white truncate">{item.nameEn}</p>
+                      <p className="text-xs text-gray-500 truncate">
+                        {[item.packageLabel, item.colorNameEn].filter(Boolean).join(" · ")}
+                        {item.refundedQuantity > 0 && (
+                          <span className="text-red-400">{item.packageLabel || item.colorNameEn ? " · " : ""}{t("refundedQty", { count: item.refundedQuantity })}</span>
+                        )}
+                      </p>
+                    </div>
+                    {max > 0 ? (
+                      <div className="flex items-center gap-1 shrink-0">
+                        <button
+                          type="button"
+                          onClick={() => setQuantity(item.id, Math.max(qty - 1, 0))}
+                          disabled={qty === 0}
+                          className="p-1.5 rounded-lg hover:bg-white/10 disabled:opacity-30"
+                        >
+                          <Minus className="w-3.5 h-3.5 text-gray-400" />
+                        </button>
+                        <span className="w-12 text-center text-white tabular-nums">{qty}/{max}</span>
+                        <button
+                          type="button"
+                          onClick={() => setQuantity(item.id, Math.min(qty + 1, max))}
+                          disabled={qty >= max}
+                          className="p-1.5 rounded-lg hover:bg-white/10 disabled:opacity-30"
+                        >
+                          <Plus className="w-3.5 h-3.5 text-gray-400" />
+                        </button>
+                      </div>
+                    ) : (
+                      <span className="text-xs text-red-400 shrink-0">{t("fullyRefunded")}</span>
+                    )}
+                  </div>
+                )
+              })}
+            </div>
+
+            {shippingRefundable && (
+              <label className="flex items-center justify-between gap-2 text-sm text-gray-300">
+                <span className="flex items-center gap-2">
+                  <input
+                    type="checkbox"
+                    checked={includeShipping}
+                    onChange={e => setIncludeShipping(e.target.checked)}
+                    className="w-4 h-4 accent-emerald-500"
+                  />
+                  {t("refundShipping")}
+                </span>
+                <span className="text-gray-400">€{shippingFee.toFixed(2)}</span>
+              </label>
+            )}
+
+            <div>
+              <label className="block text-sm font-medium text-gray-400 mb-1.5">{t("refundReason")}</label>
+              <select
+                value={reason}
+                onChange={e => setReason(e.target.value)}
+                className="w-full px-4 py-2 bg-white/5 border border-white/10 rounded-xl text-base sm:text-sm text-white focus:outline-none focus:border-emerald-500/50"
+              >
+                {REASONS.map(r => (
+                  <option key={r} value={r}>{t(`refundReasons.${r}`)}</option>
+                ))}
+              </select>
+            </div>
+
+            <p className="text-xs text-gray-600">{t("refundHint")}</p>
+          </div>
+
+          {/* Footer */}
+          <div className="flex items-center gap-3 p-4 sm:p-6 border-t border-white/10 shrink-0">
+            <button
+              type="button"
+              onClick={onCancel}
+              className="flex-1 py-2.5 rounded-xl border border-white/10 text-sm text-gray-400 hover:text-white hover:border-white/30 transition-colors"
+            >
+              {t("cancel")}
+            </button>
+            <button
+              type="submit"
+              disabled={saving || amount <= 0}
+              className="flex-1 py-2.5 rounded-xl bg-gradient-to-r from-red-500 to-rose-500 text-sm text-white font-medium hover:shadow-lg hover:shadow-red-500/30 transition-all disabled:opacity-40 disabled:cursor-not-allowed"
+            >
+              {saving ? t("refunding") : t("refundAmount", { amount: `€${amount.toFixed(2)}` })}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,229 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import Link from "next/link"
+import { X, Trash2 } from "lucide-react"
+import { useLocale, useTranslations } from "next-intl"
+import { printerFitIssue, type PrintJobStatus } from "@/lib/production"
+
+export interface PrintJobRow {
+  id: string
+  name: string
+  quantity: number
+  status: PrintJobStatus
+  position: number
+  printerId: string | null
+  materialId: string | null
+  sizeX: number | null
+  sizeY: number | null
+  sizeZ: number | null
+  grams: number | null
+  estimatedMinutes: number | null
+  scheduledAt: string | null
+  startedAt: string | null
+  packedAt: string | null
+  notes: string | null
+  createdAt: string
+  material: { name: string } | null
+  color: { nameEn: string; nameBg: string; nameEs: string; hex: string } | null
+  order: { id: string; orderNumber: string; status: string; customerName: string } | null
+  quote: { id: string; quoteNumber: string; status: string; name: string; deadline: string | null } | null
+}
+
+export interface BoardPrinter {
+  id: string
+  name: string
+  model: string | null
+  buildX: number
+  buildY: number
+  buildZ: number
+  materialIds: string[]
+  active: boolean
+}
+
+export type PrintJobUpdate = Partial<Pick<PrintJobRow, "status" | "printerId" | "scheduledAt" | "estimatedMinutes" | "notes">>
+
+interface PrintJobModalProps {
+  job: PrintJobRow
+  printers: BoardPrinter[]
+  canEdit: boolean
+  onSave: (id: string, update: PrintJobUpdate) => Promise<boolean>
+  onDelete: (job: PrintJobRow) => void
+  onClose: () => void
+}
+
+/** "2026-10-18T09:30" for a datetime-local input, in the browser's time zone */
+function toLocalInput(iso: string | null): string {
+  if (!iso) return ""
+  const date = new Date(iso)
+  return new Date(date.getTime() - date.getTimezoneOffset() * 60000).toISOString().slice(0, 16)
+}
+
+export function PrintJobModal({ job, printers, canEdit, onSave, onDelete, onClose }: PrintJobModalProps) {
+  const t = useTranslations("admin.production")
+  const locale = useLocale()
+  const [saving, setSaving] = useState(false)
+  const [printerId, setPrinterId] = useState(job.printerId ?? "")
+  const [scheduledAt, setScheduledAt] = useState(toLocalInput(job.scheduledAt))
+  const [estimatedMinutes, setEstimatedMinutes] = useState(job.estimatedMinutes !== null ? String(job.estimatedMinutes) : "")
+  const [notes, setNotes] = useState(job.notes ?? "")
+
+  useEffect(() => {
+    const handleKey = (e: KeyboardEvent) => { if (e.key === "Escape") onClose() }
+    window.addEventListener("keydown", handleKey)
+    return () => window.removeEventListener("keydown", handleKey)
+  }, [onClose])
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setSaving(true)
+    const saved = await onSave(job.id, {
+      printerId: printerId || null,
+      scheduledAt: scheduledAt ? new Date(scheduledAt).toISOString() : null,
+      estimatedMinutes: estimatedMinutes ? parseInt(estimatedMinutes) : null,
+      notes: notes.trim() || null,
+    })
+    setSaving(false)
+    if (saved) onClose()
+  }
+
+  const colorName = job.color && (locale === "bg" ? job.color.nameBg : locale === "es" ? job.color.nameEs : job.color.nameEn)
+  const details = [
+    [t("quantity"), `×${job.quantity}`],
+    [t("material"), job.material?.name],
+    [t("color"), colorName],
+    [t("size"), job.sizeX !== null && job.sizeY !== null && job.sizeZ !== null
+      ? `${Math.round(job.sizeX)} × ${Math.round(job.sizeY)} × ${Math.round(job.sizeZ)} mm`
+      : null],
+    [t("weight"), job.grams !== null ? `${job.grams} g` : null],
+    [t("deadline"), job.quote?.deadline ? new Date(job.quote.deadline).toLocaleDateString(locale) : null],
+    [t("started"), job.startedAt ? new Date(job.startedAt).toLocaleString(locale) : null],
+    [t("packed"), job.packedAt ? new Date(job.packedAt).toLocaleString(locale) : null],
+  ].filter((row): row is [string, string] => !!row[1])
+
+  const inputClass = "w-full bg-white/5 border border-white/10 rounded-xl px-4 py-2.5 text-base sm:text-sm text-white placeholder-gray-600 focus:outline-none focus:border-emerald-500/50 disabled:opacity-60"
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+      <div className="absolute inset-0 bg-black/60 backdrop-blur-sm" onClick={onClose} />
+      <div className="relative w-full max-w-md bg-[#0d0d1a] border border-white/10 shadow-2xl rounded-2xl flex flex-col max-h-[85svh]">
+        {/* Header */}
+        <div className="flex items-center justify-between p-4 sm:p-6 border-b border-white/10 shrink-0">
+          <div className="min-w-0">
+            <h2 className="text-lg font-semibold text-white truncate">{job.name}</h2>
+            <p className="text-xs text-gray-500">
+              {job.order && (
+                <Link href={`/admin/orders?edit=${job.order.id}`} className="hover:text-emerald-400">
+                  {job.order.orderNumber}
+                </Link>
+              )}
+              {job.order && job.quote && " · "}
+              {job.quote && (
+                <Link href={`/admin/quotes?edit=${job.quote.id}`} className="hover:text-emerald-400">
+                  {job.quote.quoteNumber}
+                </Link>
+              )}
+              {` · ${job.order?.customerName ?? job.quote?.name ?? ""}`}
+            </p>
+          </div>
+          <button onClick={onClose} className="w-11 h-11 sm:w-10 sm:h-10 flex items-center justify-center rounded-xl hover:bg-white/10 transition-colors shrink-0">
+            <X className="w-5 h-5 text-gray-400" />
+          </button>
+        </div>
+
+        {/* Body */}
+        <form onSubmit={handleSubmit} className="flex flex-col flex-1 overflow-y-auto overscroll-contain">
+          <div className="p-4 sm:p-6 space-y-4">
+            <dl className="grid grid-cols-2 gap-x-4 gap-y-2 text-sm">
+              {details.map(([label, value]) => (
+                <div key={label}>
+                  <dt className="text-xs text-gray-500">{label}</dt>
+                  <dd className="text-gray-200">{value}</dd>
+                </div>
+              ))}
+            </dl>
+
+            {/* Printer */}
+            <div>
+              <label className="block text-sm font-medium text-gray-400 mb-1.5">{t("printer")}</label>
+              <select value={printerId} onChange={e => setPrinterId(e.target.value)} disabled={!canEdit} className={inputClass}>
+                <option value="">{t("unassigned")}</option>
+                {printers.map(printer => {
+                  const issue = printerFitIssue(printer, job)
+                  return (
+                    <option key={printer.id} value={printer.id} disabled={(!!issue || !printer.active) && printer.id !== job.printerId}>
+                      {printer.name}
+                      {issue === "material" ? ` — ${t("wrongMaterial")}` : issue === "size" ? ` — ${t("tooLarge")}` : !printer.active ? ` — ${t("inactive")}` : ""}
+                    </option>
+                  )
+                })}
+              </select>
+            </div>
+
+            {/* Planned start */}
+            <div>
+              <label className="block text-sm font-medium text-gray-400 mb-1.5">{t("scheduledAt")}</label>
+              <input type="datetime-local" value={scheduledAt} onChange={e => setScheduledAt(e.target.value)} disabled={!canEdit} className={inputClass} />
+              <p className="mt-1 text-xs text-gray-600">{t("scheduledAtHint")}</p>
+            </div>
+
+            {/* Estimate */}
+            <div>
+              <label className="block text-sm font-medium text-gray-400 mb-1.5">{t("estimatedMinutes")}</label>
+              <input
+                type="number"
+                value={estimatedMinutes}
+                onChange={e => setEstimatedMinutes(e.target.value)}
+                disabled={!canEdit}
+                className={inputClass}
+                placeholder="120"
+                min={1}
+              />
+            </div>
+
+            {/* Notes */}
+            <div>
+              <label className="block text-sm font-medium text-gray-400 mb-1.5">{t("notes")}</label>
+              <textarea
+                value={notes}
+                onChange={e => setNotes(e.target.value)}
+                disabled={!canEdit}
+                rows={3}
+                className={`${inputClass} resize-none`}
+                placeholder={t("notesPlaceholder")}
+              />
+            </div>
+          </div>
+
+          {/* Footer */}
+          {canEdit && (
+            <div className="flex items-center gap-3 p-4 sm:p-6 border-t border-white/10 shrink-0">
+              <button
+                type="button"
+                onClick={() => onDelete(job)}
+                className="p-2.5 rounded-xl border border-red-500/20 hover:bg-red-500/20 transition-colors"
+                title={t("delete")}
+              >
+                <Trash2 className="w-4 h-4 text-red-400" />
+              </button>
+              <button
+                type="button"
+                onClick={onClose}
+                className="flex-1 py-2.5 rounded-xl border border-white/10 text-sm text-gray-400 hover:text-white hover:border-white/30 transition-colors"
+              >
+                {t("cancel")}
+              </button>
+              <button
+                type="submit"
+                disabled={saving}
+                className="flex-1 py-2.5 rounded-xl bg-gradient-to-r from-emerald-500 to-cyan-500 text-sm text-white font-medium hover:shadow-lg hover:shadow-emerald-500/30 transition-all disabled:opacity-40 disabled:cursor-not-allowed"
+              >
+                {saving ? t("saving") : t("save")}
+              </button>
+            </div>
+          )}
+        </form>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,226 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import { X } from "lucide-react"
+import { useTranslations } from "next-intl"
+
+interface PrinterFormData {
+  id?: string
+  name: string
+  model: string
+  buildX: string
+  buildY: string
+  buildZ: string
+  materialIds: string[]
+  active: boolean
+  notes: string
+  order: number
+}
+
+interface PrinterFormProps {
+  initialData?: PrinterFormData
+  materials: { id: string; name: string }[]
+  onSubmit: (data: PrinterFormData) => Promise<void>
+  onCancel: () => void
+}
+
+export function PrinterForm({ initialData, materials, onSubmit, onCancel }: PrinterFormProps) {
+  const t = useTranslations("admin.printers")
+  const [saving, setSaving] = useState(false)
+  const [formData, setFormData] = useState<PrinterFormData>({
+    name: "",
+    model: "",
+    buildX: "",
+    buildY: "",
+    buildZ: "",
+    materialIds: [],
+    active: true,
+    notes: "",
+    order: 0,
+    ...initialData,
+  })
+  const [errors, setErrors] = useState<Record<string, string>>({})
+
+  useEffect(() => {
+    const handleKey = (e: KeyboardEvent) => { if (e.key === "Escape") onCancel() }
+    window.addEventListener("keydown", handleKey)
+    return () => window.removeEventListener("keydown", handleKey)
+  }, [onCancel])
+
+  const validate = () => {
+    const errs: Record<string, string> = {}
+    if (!formData.name.trim()) errs.name = "Name is required"
+    if (![formData.buildX, formData.buildY, formData.buildZ].every((size) => parseFloat(size) > 0)) {
+      errs.build = "Build volume is required on every axis"
+    }
+    setErrors(errs)
+    return Object.keys(errs).length === 0
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!validate()) return
+    setSaving(true)
+    try {
+      await onSubmit(formData)
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const toggleMaterial = (id: string) => {
+    setFormData(prev => ({
+      ...prev,
+      materialIds: prev.materialIds.includes(id) ? prev.materialIds.filter(m => m !== id) : [...prev.materialIds, id],
+    }))
+  }
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+      <div className="absolute inset-0 bg-black/60 backdrop-blur-sm" onClick={onCancel} />
+      <div className="relative w-full max-w-md bg-[#0d0d1a] border border-white/10 shadow-2xl rounded-2xl flex flex-col max-h-[85svh]">
+        {/* Header */}
+        <div className="flex items-center justify-between p-4 sm:p-6 border-b border-white/10 shrink-0">
+          <h2 className="text-lg font-semibold text-white">
+            {initialData?.id ? t("editPrinter") : t("addPrinter")}
+          </h2>
+          <button onClick={onCancel} className="w-11 h-11 sm:w-10 sm:h-10 flex items-center justify-center rounded-xl hover:bg-white/10 transition-colors">
+            <X className="w-5 h-5 text-gray-400" />
+          </button>
+        </div>
+
+        {/* Body */}
+        <form onSubmit={handleSubmit} className="flex flex-col flex-1 overflow-y-auto overscroll-contain">
+          <div className="p-4 sm:p-6 space-y-4">
+            {/* Name */}
+            <div>
+              <label className="block text-sm font-medium text-gray-400 mb-1.5">{t("name")}</label>
+              <input
+                type="text"
+                value={formData.name}
+                onChange={e => setFormData(prev => ({ ...prev, name: e.target.value }))}
+                className="w-full bg-white/5 border border-white/10 rounded-xl px-4 py-2.5 text-base sm:text-sm text-white placeholder-gray-600 focus:outline-none focus:border-emerald-500/50"
+                placeholder={t("namePlaceholder")}
+                autoFocus
+              />
+              {errors.name && <p className="mt-1 text-xs text-red-400">{errors.name}</p>}
+            </div>
+
+            {/* Model */}
+            <div>
+              <label className="block text-sm font-medium text-gray-400 mb-1.5">{t("model")}</label>
+              <input
+                type="text"
+                value={formData.model}
+                onChange={e => setFormData(prev => ({ ...prev, model: e.target.value }))}
+                className="w-full bg-white/5 border border-white/10 rounded-xl px-4 py-2.5 text-base sm:text-sm text-white placeholder-gray-600 focus:outline-none focus:border-emerald-500/50"
+                placeholder={t("modelPlaceholder")}
+              />
+            </div>
+
+            {/* Build volume */}
+            <div>
+              <label className="block text-sm font-medium text-gray-400 mb-1.5">{t("buildVolume")}</label>
+              <div className="grid grid-cols-3 gap-2">
+                {(["buildX", "buildY", "buildZ"] as const).map((axis, i) => (
+                  <div key={axis} className="relative">
+                    <input
+                      type="number"
+                      value={formData[axis]}
+                      onChange={e => setFormData(prev => ({ ...prev, [axis]: e.target.value }))}
+                      className="w-full bg-white/5 border border-white/10 rounded-xl pl-8 pr-3 py-2.5 text-base sm:text-sm text-white placeholder-gray-600 focus:outline-none focus:border-emerald-500/50"
+                      placeholder="256"
+                      min={1}
+                    />
+                    <span className="absolute left-3 top-1/2 -translate-y-1/2 text-xs text-gray-500">{"XYZ"[i]}</span>
+                  </div>
+                ))}
+              </div>
+              {errors.build && <p className="mt-1 text-xs text-red-400">{errors.build}</p>}
+              <p className="mt-1 text-xs text-gray-600">{t("buildVolumeHint")}</p>
+            </div>
+
+            {/* Materials */}
+            <div>
+              <label className="block text-sm font-medium text-gray-400 mb-1.5">{t("materials")}</label>
+              {materials.length === 0 ? (
+                <p className="text-xs text-gray-600">{t("noMaterials")}</p>
+              ) : (
+                <div className="flex flex-wrap gap-2">
+                  {materials.map(material => (
+                    <button
+                      key={material.id}
+                      type="button"
+                      onClick={() => toggleMaterial(material.id)}
+                      className={`px-3 py-1.5 rounded-lg text-xs border transition-colors ${
+                        formData.materialIds.includes(material.id)
+                          ? "bg-emerald-500/20 border-emerald-500/40 text-emerald-300"
+                          : "bg-white/5 border-white/10 text-gray-400 hover:text-white"
+                      }`}
+                    >
+                      {material.name}
+                    </button>
+                  ))}
+                </div>
+              )}
+              <p className="mt-1 text-xs text-gray-600">{t("materialsHint")}</p>
+            </div>
+
+            {/* Notes */}
+            <div>
+              <label className="block text-sm font-medium text-gray-400 mb-1.5">{t("notes")}</label>
+              <textarea
+                value={formData.notes}
+                onChange={e => setFormData(prev => ({ ...prev, notes: e.target.value }))}
+                rows={2}
+                className="w-full bg-white/5 border border-white/10 rounded-xl px-4 py-2.5 text-base sm:text-sm text-white placeholder-gray-600 focus:outline-none focus:border-emerald-500/50 resize-none"
+                placeholder={t("notesPlaceholder")}
+              />
+            </div>
+
+            {/* Active */}
+            <label className="flex items-center gap-3 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={formData.active}
+                onChange={e => setFormData(prev => ({ ...prev, active: e.target.checked }))}
+                className="w-4 h-4 accent-emerald-500"
+              />
+              <span className="text-sm text-gray-300">{t("active")}</span>
+            </label>
+
+            {/* Order */}
+            <div>
+              <label className="block text-sm font-medium text-gray-400 mb-1.5">{t("order")}</label>
+              <input
+                type="number"
+                value={formData.order}
+                onChange={e => setFormData(prev => ({ ...prev, order: parseInt(e.target.value) || 0 }))}
+                className="w-full bg-white/5 border border-white/10 rounded-xl px-4 py-2.5 text-base sm:text-sm text-white focus:outline-none focus:border-emerald-500/50"
+                min={0}
+              />
+            </div>
+          </div>
+
+          {/* Footer */}
+          <div className="flex items-center gap-3 p-4 sm:p-6 border-t border-white/10 shrink-0">
+            <button
+              type="button"
+              onClick={onCancel}
+              className="flex-1 py-2.5 rounded-xl border border-white/10 text-sm text-gray-400 hover:text-white hover:border-white/30 transition-colors"
+            >
+              {t("cancel")}
+            </button>
+            <button
+              type="submit"
+              disabled={saving}
+              className="flex-1 py-2.5 rounded-xl bg-gradient-to-r from-emerald-500 to-cyan-500 text-sm text-white font-medium hover:shadow-lg hover:shadow-emerald-500/30 transition-all disabled:opacity-40 disabled:cursor-not-allowed"
+            >
+              {saving ? t("saving") : t("save")}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  )
+}
@@ -33,6 +33,8 @@ interface ProductVariantData {
 interface PackageVariantEntry {
   variantIndex: number
   status: string
+  stock: string // empty = not stock-tracked
+  loadedStock: string // stock when the form opened — the server applies the edit as a delta
 }
 
 interface ProductPackageData {
@@ -63,6 +65,7 @@ interface ProductFormData {
   onSale: boolean
   currency: string
   priceType: string
+  taxClass: string
   category: string
   tags: string[]
   brandId: string
@@ -108,6 +111,7 @@ interface ProductFormProps {
     onSale?: boolean
     currency?: string
     priceType?: string
+    taxClass?: string
     category?: string
     tags?: string[]
     image?: string | null
@@ -139,7 +143,7 @@ interface ProductFormProps {
       status?: string
       order: number
       bulkDiscountTiers?: string | null
-      packageVariants?: Array<{ variantId: string; status: string }>
+      packageVariants?: Array<{ variantId: string; status: string; stock?: number | null }>
     }>
     bulkDiscountTiers?: string | null
     bulkDiscountExpiresAt?: string | Date | null
@@ -192,6 +196,13 @@ const PRICE_TYPES = [
   { value: "quote", labelKey: "priceTypeQuote" },
 ]
 
+// Mirrors TAX_CLASSES in lib/vat.ts
+const TAX_CLASSES = [
+  { value: "standard", labelKey: "taxClassStandard" },
+  { value: "reduced", labelKey: "taxClassReduced" },
+  { value: "zero", labelKey: "taxClassZero" },
+]
+
 const CURRENCIES = ["EUR"]
 
 export function ProductForm({
@@ -270,6 +281,7 @@ export function ProductForm({
     onSale: initialData?.onSale ?? false,
     currency: initialData?.currency ?? "EUR",
     priceType: initialData?.priceType ?? "fixed",
+    taxClass: initialData?.taxClass ?? "standard",
     category: initialData?.category ?? (categories[0]?.slug || ""),
     tags: initialData?.tags ?? [],
     brandId: initialData?.brandId || "",
@@ -304,6 +316,8 @@ export function ProductForm({
       packageVariants: p.packageVariants?.map(pv => ({
         variantIndex: initialData.variants?.findIndex(v => v.id === pv.variantId) ?? -1,
         status: pv.status,
+        stock: pv.stock?.toString() ?? "",
+        loadedStock: pv.stock?.toString() ?? "",
       })).filter(pv => pv.variantIndex >= 0) || [],
     })) || [],
     bulkDiscountTiers: initialData?.bulkDiscountTiers || "",
@@ -699,7 +713,7 @@ export function ProductForm({
           ...pkg,
           packageVariants: existing
             ? pkg.packageVariants.filter(pv => pv.variantIndex !== variantIdx)
-            : [...pkg.packageVariants, { variantIndex: variantIdx, status: "in_stock" }],
+            : [...pkg.packageVariants, { variantIndex: variantIdx, status: "in_stock", stock: "", loadedStock: "" }],
         }
       }),
     }))
@@ -720,6 +734,21 @@ export function ProductForm({
     }))
   }
 
+  const updatePackageVariantStock = (pkgIdx: number, variantIdx: number, stock: string) => {
+    setFormData(prev => ({
+      ...prev,
+      packages: prev.packages.map((pkg, i) => {
+        if (i !== pkgIdx) return pkg
+        return {
+          ...pkg,
+          packageVariants: pkg.packageVariants.map(pv =>
+            pv.variantIndex === variantIdx ? { ...pv, stock } : pv
+          ),
+        }
+      }),
+    }))
+  }
+
   const addPackage = () => {
     setFormData(prev => ({
       ...prev,
@@ -1073,6 +1102,23 @@ export function ProductForm({
                 </div>
               </div>
             </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-400 mb-2">
+                {t("taxClass")}
+              </label>
+              <select
+                value={formData.taxClass}
+                onChange={(e) => updateField("taxClass", e.target.value)}
+                className="w-full sm:w-1/3 px-4 py-2 bg-white/5 border border-white/10 rounded-xl text-base sm:text-sm text-white focus:outline-none focus:border-emerald-500/50 transition-colors"
+              >
+                {TAX_CLASSES.map((taxClass) => (
+                  <option key={taxClass.value} value={taxClass.value}>
+                    {t(taxClass.labelKey)}
+                  </option>
+                ))}
+              </select>
+              <p className="text-xs text-gray-500 mt-1">{t("taxClassHint")}</p>
+            </div>
             <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
               <div>
                 <label className="block text-sm font-medium text-gray-400 mb-2">
@@ -1342,17 +1388,29 @@ export function ProductForm({
                                   style={{ backgroundColor: colors.find(c => c.id === v.colorId)?.hex || "#888" }}
                                 />
                                 {checked && (
-                                  <select
-                                    value={pv!.status}
-                                    onChange={e => updatePackageVariantStatus(index, vIdx, e.target.value)}
-                                    className="text-xs bg-[#0d0d1a] border border-white/10 rounded px-1.5 py-1 text-gray-200 focus:outline-none focus:border-emerald-500/50"
-                                  >
-                                    <option value="in_stock">{t("inStock")}</option>
-                                    <option value="out_of_stock">{t("outOfStock")}</option>
-                                    <option value="pre_order">{t("preOrder")}</option>
-                                    <option value="coming_soon">{t("comingSoon")}</option>
-                                    <option value="sold_out">{t("soldOut")}</option>
-                                  </select>
+                                  <>
+                                    <select
+                                      value={pv!.status}
+                                      onChange={e => updatePackageVariantStatus(index, vIdx, e.target.value)}
+                                      className="text-xs bg-[#0d0d1a] border border-white/10 rounded px-1.5 py-1 text-gray-200 focus:outline-none focus:border-emerald-500/50"
+                                    >
+                                      <option value="in_stock">{t("inStock")}</option>
+                                      <option value="out_of_stock">{t("outOfStock")}</option>
+                                      <option value="pre_order">{t("preOrder")}</option>
+                                      <option value="coming_soon">{t("comingSoon")}</option>
+                                      <option value="sold_out">{t("soldOut")}</option>
+                                    </select>
+                                    <input
+                                      type="number"
+                                      min="0"
+                                      step="1"
+                                      value={pv!.stock}
+                                      onChange={e => updatePackageVariantStock(index, vIdx, e.target.value)}
+                                      placeholder={t("stockPlaceholder")}
+                                      title={t("stockHint")}
+                                      className="w-16 text-xs bg-[#0d0d1a] border border-white/10 rounded px-1.5 py-1 text-gray-200 focus:outline-none focus:border-emerald-500/50"
+                                    />
+                                  </>
                                 )}
                               </div>
                             )
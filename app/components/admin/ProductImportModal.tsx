@@ -0,0 +1,205 @@
+"use client"
+
+import { useState, useEffect, useRef } from "react"
+import { X, Upload, FileSpreadsheet, AlertTriangle } from "lucide-react"
+import { useTranslations } from "next-intl"
+import type { ImportPlan, ImportAction } from "@/lib/productImport"
+
+interface ProductImportModalProps {
+  onImported: (count: number) => void
+  onCancel: () => void
+}
+
+const ACTION_BADGES: Record<ImportAction, string> = {
+  create: "bg-emerald-500/20 text-emerald-400",
+  update: "bg-cyan-500/20 text-cyan-400",
+  skip: "bg-white/10 text-gray-400",
+  error: "bg-red-500/20 text-red-400",
+}
+
+const formatValue = (value: unknown) => {
+  if (value === null || value === undefined || value === "") return "—"
+  if (Array.isArray(value)) return value.length > 0 ? value.join(" | ") : "—"
+  if (typeof value === "boolean") return value ? "yes" : "no"
+  return String(value)
+}
+
+export function ProductImportModal({ onImported, onCancel }: ProductImportModalProps) {
+  const t = useTranslations("admin.products")
+  const inputRef = useRef<HTMLInputElement>(null)
+  const [file, setFile] = useState<File | null>(null)
+  const [plan, setPlan] = useState<ImportPlan | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [hideSkipped, setHideSkipped] = useState(true)
+
+  useEffect(() => {
+    const handleKey = (e: KeyboardEvent) => { if (e.key === "Escape" && !loading) onCancel() }
+    window.addEventListener("keydown", handleKey)
+    return () => window.removeEventListener("keydown", handleKey)
+  }, [onCancel, loading])
+
+  const submit = async (selected: File, dryRun: boolean) => {
+    setLoading(true)
+    setError(null)
+    try {
+      const body = new FormData()
+      body.append("file", selected)
+      if (dryRun) body.append("dryRun", "1")
+      const res = await fetch("/api/admin/products/import", { method: "POST", body })
+      const data = await res.json().catch(() => ({ error: t("importFailed") }))
+      if (data.plan) setPlan(data.plan)
+      if (!res.ok) {
+        setError(data.error || t("importFailed"))
+        return
+      }
+      if (!dryRun) onImported(data.products ?? 0)
+    } catch {
+      setError(t("importFailed"))
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleFile = (selected: File | undefined) => {
+    if (!selected) return
+    setFile(selected)
+    setPlan(null)
+    submit(selected, true)
+  }
+
+  const changed = plan ? plan.summary.create + plan.summary.update : 0
+  const rows = plan?.rows.filter(r => !hideSkipped || r.action !== "skip") ?? []
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+      <div className="absolute inset-0 bg-black/60 backdrop-blur-sm" onClick={() => !loading && onCancel()} />
+      <div className="relative w-full max-w-4xl bg-[#0d0d1a] border border-white/10 shadow-2xl rounded-2xl flex flex-col max-h-[85svh]">
+        {/* Header */}
+        <div className="flex items-center justify-between p-4 sm:p-6 border-b border-white/10 shrink-0">
+          <div>
+            <h2 className="text-lg font-semibold text-white">{t("importTitle")}</h2>
+            <p className="text-xs text-gray-500">{t("importHint")}</p>
+          </div>
+          <button onClick={onCancel} disabled={loading} className="w-11 h-11 sm:w-10 sm:h-10 flex items-center justify-center rounded-xl hover:bg-white/10 transition-colors">
+            <X className="w-5 h-5 text-gray-400" />
+          </button>
+        </div>
+
+        {/* Body */}
+        <div className="flex-1 overflow-y-auto overscroll-contain p-4 sm:p-6 space-y-4">
+          <input
+            ref={inputRef}
+            type="file"
+            accept=".csv,.xlsx"
+            className="hidden"
+            onChange={(e) => {
+              handleFile(e.target.files?.[0])
+              e.target.value = ""
+            }}
+          />
+          <button
+            type="button"
+            onClick={() => inputRef.current?.click()}
+            disabled={loading}
+            className="w-full flex items-center justify-center gap-2 px-4 py-6 rounded-xl border border-dashed border-white/20 text-sm text-gray-400 hover:text-white hover:border-emerald-500/50 transition-all disabled:opacity-50"
+          >
+            {file ? <FileSpreadsheet className="w-5 h-5" /> : <Upload className="w-5 h-5" />}
+            {file ? file.name : t("importChooseFile")}
+          </button>
+
+          {loading && <p className="text-sm text-gray-400">{plan ? t("importApplying") : t("importAnalyzing")}</p>}
+
+          {error && (
+            <div className="flex items-start gap-2 p-3 rounded-xl bg-red-500/10 border border-red-500/20 text-sm text-red-400">
+              <AlertTriangle className="w-4 h-4 mt-0.5 shrink-0" />
+              {error}
+            </div>
+          )}
+
+          {plan && (
+            <>
+              <div className="flex flex-wrap items-center gap-2">
+                {(Object.keys(ACTION_BADGES) as ImportAction[]).map(action => (
+                  <span key={action} className={`px-2.5 py-1 rounded-full text-xs font-medium ${ACTION_BADGES[action]}`}>
+                    {t(`importAction_${action}`)}: {plan.summary[action]}
+                  </span>
+                ))}
+                <label className="ml-auto flex items-center gap-2 text-xs text-gray-400">
+                  <input
+                    type="checkbox"
+                    checked={hideSkipped}
+                    onChange={(e) => setHideSkipped(e.target.checked)}
+                    className="w-4 h-4 rounded border-white/20 bg-white/5 text-emerald-500 focus:ring-emerald-500/50"
+                  />
+                  {t("importHideSkipped")}
+                </label>
+              </div>
+
+              {plan.ignoredColumns.length > 0 && (
+                <p className="text-xs text-amber-400">{t("importIgnoredColumns", { columns: plan.ignoredColumns.join(", ") })}</p>
+              )}
+
+              {rows.length === 0 ? (
+                <p className="text-sm text-gray-500 text-center py-6">{t("importNoChanges")}</p>
+              ) : (
+                <div className="rounded-xl border border-white/10 divide-y divide-white/5 text-sm">
+                  {rows.map(row => (
+                    <div key={row.row} className="flex items-start gap-3 px-4 py-2">
+                      <span className="w-10 shrink-0 text-xs text-gray-500 tabular-nums pt-0.5">#{row.row}</span>
+                      <div className="flex-1 min-w-0">
+                        <p className="text-white truncate">
+                          <span className="font-mono text-xs text-gray-400">{row.product}</span>
+                          {row.label && <span className="ml-2">{row.label}</span>}
+                          <span className="ml-2 text-xs text-gray-500">{t(`importKind_${row.kind}`)}</span>
+                        </p>
+                        {Object.entries(row.changes).map(([field, change]) => (
+                          <p key={field} className="text-xs text-gray-400 truncate">
+                            <span className="text-gray-500">{field}:</span>{" "}
+                            {row.action === "update" && <><span className="line-through">{formatValue(change.from)}</span> → </>}
+                            <span className="text-gray-200">{formatValue(change.to)}</span>
+                          </p>
+                        ))}
+                        {row.errors.map(message => (
+                          <p key={message} className="text-xs text-red-400">{message}</p>
+                        ))}
+                      </div>
+                      <span className={`shrink-0 px-2 py-0.5 rounded-full text-xs font-medium ${ACTION_BADGES[row.action]}`}>
+                        {t(`importAction_${row.action}`)}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </>
+          )}
+        </div>
+
+        {/* Footer */}
+        <div className="flex items-center justify-between gap-3 p-4 sm:p-6 border-t border-white/10 shrink-0">
+          <p className="text-xs text-gray-500">
+            {plan && plan.summary.error > 0 ? t("importFixErrors") : ""}
+          </p>
+          <div className="flex items-center gap-3">
+            <button
+              type="button"
+              onClick={onCancel}
+              disabled={loading}
+              className="px-4 py-2.5 rounded-xl border border-white/10 text-gray-400 text-sm font-medium hover:text-white hover:bg-white/5 transition-all"
+            >
+              {t("cancel")}
+            </button>
+            <button
+              type="button"
+              onClick={() => file && submit(file, false)}
+              disabled={loading || !file || !plan || plan.summary.error > 0 || changed === 0}
+              className="px-4 py-2.5 rounded-xl bg-gradient-to-r from-emerald-500 to-cyan-500 text-white text-sm font-medium hover:shadow-lg hover:shadow-emerald-500/30 transition-all disabled:opacity-50 disabled:hover:shadow-none"
+            >
+              {t("importApply", { count: changed })}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -1,13 +1,19 @@
 "use client"
 
 import { useState, useEffect, useRef, useCallback } from "react"
-import { useTranslations } from "next-intl"
+import { useTranslations, useLocale } from "next-intl"
 import { toast } from "sonner"
 import {
   X, Save, Loader2, Download, ExternalLink,
   FileText, MessageSquare, Ticket, Search,
-  Copy, Clock,
+  Copy, Clock, Calculator, Box, History, Paperclip, Upload, CreditCard, Link2, UserCheck, Hourglass,
 } from "lucide-react"
+import { ModelViewerWrapper } from "@/app/components/ModelViewerWrapper"
+import { modelFormatOf } from "@/lib/modelFormats"
+import type { MeshAnalysis } from "@/lib/meshAnalysis"
+import type { QuoteEstimate } from "@/lib/quotePricing"
+import { isQuoteOverdue, quoteResponseDue, type QuoteSla } from "@/lib/quoteSla"
+import { LAYER_HEIGHTS, PRINT_FINISHES, MAX_QUOTE_FILES, printConfigOf, printConfigParts, type PartConfig, type PrintConfigSnapshot } from "@/lib/printConfig"
 
 interface Product {
   id: string
@@ -27,7 +33,30 @@ interface QuoteMessage {
   senderType: string
   message: string
   quotedPrice: string | null
+  config: PrintConfigSnapshot | null
   createdAt: string
+  revisions?: { id: string; version: number; fileName: string; file: { name: string } }[]
+}
+
+interface QuoteFileRevision {
+  id: string
+  version: number
+  fileName: string
+  fileUrl: string
+  thumbnailUrl: string | null
+  fileSize: number
+  geometry: MeshAnalysis | null
+  senderType: string
+  createdAt: string
+}
+
+/** A model file of the quote; revisions are newest first */
+export interface QuotePart {
+  id: string
+  name: string
+  quantity: number
+  config: PartConfig | null
+  revisions: QuoteFileRevision[]
 }
 
 interface QuoteRequest {
@@ -39,9 +68,17 @@ interface QuoteRequest {
   email: string
   phone: string | null
   message: string | null
-  fileName: string | null
-  fileUrl: string | null
-  fileSize: number | null
+  files: QuotePart[]
+  estimate: QuoteEstimate | null
+  materialId: string | null
+  colorId: string | null
+  layerHeight: number | null
+  infill: number | null
+  quantity: number
+  finish: string | null
+  deadline: string | null
+  material: { name: string } | null
+  color: { nameEn: string; nameBg: string; nameEs: string; hex: string } | null
   status: string
   quotedPrice: string | null
   adminNotes: string | null
@@ -50,6 +87,13 @@ interface QuoteRequest {
   quotedAt: string | null
   createdAt: string
   updatedAt: string
+  paidAt: string | null
+  paymentLinkSentAt: string | null
+  expiresAt: string | null
+  awaitingSince: string | null
+  firstResponseAt: string | null
+  assignedTo: QuoteStaffMember | null
+  order: { id: string; orderNumber: string; status: string; total: string | null; currency: string } | null
   messages?: QuoteMessage[]
 }
 
@@ -61,8 +105,22 @@ interface CouponOption {
   currency: string | null
 }
 
+export interface QuoteStaffMember {
+  id: string
+  name: string | null
+  email: string
+}
+
+export interface QuoteOptions {
+  materials: { id: string; name: string }[]
+  colors: { id: string; nameBg: string; nameEn: string; nameEs: string; hex: string }[]
+}
+
 interface QuoteDetailModalProps {
   quote: QuoteRequest
+  options: QuoteOptions
+  staff: QuoteStaffMember[]
+  sla: QuoteSla
   onClose: () => void
   onSaved: () => void
   canDelete: boolean
@@ -76,6 +134,9 @@ const STATUS_BADGES: Record<string, { labelKey: string; color: string }> = {
   rejected: { labelKey: "statusRejected", color: "bg-red-500/20 text-red-400" },
   counter_offer: { labelKey: "counterOffer", color: "bg-purple-500/20 text-purple-400" },
   user_declined: { labelKey: "userDeclined", color: "bg-gray-500/20 text-gray-400" },
+  paid: { labelKey: "statusPaid", color: "bg-cyan-500/20 text-cyan-400" },
+  in_production: { labelKey: "statusInProduction", color: "bg-indigo-500/20 text-indigo-400" },
+  expired: { labelKey: "statusExpired", color: "bg-orange-500/20 text-orange-400" },
 }
 
 type TabKey = "details" | "conversation"
@@ -98,6 +159,15 @@ function localizeMessage(raw: string, t: ReturnType<typeof useTranslations<"admi
     } else if (data.key === "counter_offer") {
       lines.push(t("msgCounterOffer"))
       if (data.text) lines.push(data.text)
+    } else if (data.key === "files") {
+      lines.push(t("msgFiles"))
+      if (data.text) lines.push(data.text)
+    } else if (data.key === "payment_link") {
+      lines.push(t("msgPaymentLink", { price: data.price }))
+    } else if (data.key === "paid") {
+      lines.push(t("msgPaid", { orderNumber: data.orderNumber }))
+    } else if (data.key === "expired") {
+      lines.push(t("msgExpired"))
     } else {
       throw new Error("unknown key")
     }
@@ -108,15 +178,63 @@ function localizeMessage(raw: string, t: ReturnType<typeof useTranslations<"admi
   }
 }
 
-export function QuoteDetailModal({ quote, onClose, onSaved, canDelete, onDelete }: QuoteDetailModalProps) {
+/** Form state for the print options — empty strings mean "not specified" */
+function printConfigForm(config: PrintConfigSnapshot | ReturnType<typeof printConfigOf>) {
+  return {
+    materialId: config.materialId ?? "",
+    colorId: config.colorId ?? "",
+    layerHeight: config.layerHeight?.toString() ?? "",
+    infill: config.infill?.toString() ?? "",
+    quantity: String(config.quantity),
+    finish: config.finish ?? "",
+    deadline: config.deadline ?? "",
+  }
+}
+
+/** Form state for a part — empty strings follow the quote's options */
+function partForm(part: QuotePart) {
+  return {
+    quantity: String(part.quantity),
+    materialId: part.config?.materialId ?? "",
+    colorId: part.config?.colorId ?? "",
+  }
+}
+
+export function QuoteDetailModal({ quote, options, staff, sla, onClose, onSaved, canDelete, onDelete }: QuoteDetailModalProps) {
   const t = useTranslations("admin.quotes")
+  const locale = useLocale()
   const [activeTab, setActiveTab] = useState<TabKey>("details")
   const [editForm, setEditForm] = useState({
     status: quote.status,
-    quotedPrice: quote.quotedPrice || "",
+    // Unpriced quotes start from the instant estimate
+    quotedPrice: quote.quotedPrice || (quote.estimate ? quote.estimate.price.toFixed(2) : ""),
     adminNotes: quote.adminNotes || "",
   })
+  const [printConfig, setPrintConfig] = useState(() => printConfigForm(printConfigOf(quote)))
   const [saving, setSaving] = useState(false)
+  // Only parts the admin touched are sent — keyed by file ID
+  const [partForms, setPartForms] = useState<Record<string, ReturnType<typeof partForm>>>({})
+  const [previewRevisionId, setPreviewRevisionId] = useState<string | null>(null)
+  const [historyPartId, setHistoryPartId] = useState<string | null>(null)
+  const [uploads, setUploads] = useState<{ file: File; target: string }[]>([])
+  const [uploadMessage, setUploadMessage] = useState("")
+  const [uploading, setUploading] = useState(false)
+  const uploadInputRef = useRef<HTMLInputElement>(null)
+  const [paymentLink, setPaymentLink] = useState<string | null>(null)
+  const [sendingPaymentLink, setSendingPaymentLink] = useState(false)
+  const [assigneeId, setAssigneeId] = useState(quote.assignedTo?.id ?? "")
+  const [assigning, setAssigning] = useState(false)
+
+  const configLabels = {
+    finish: (f: string) => t(`finish_${f}`),
+    infill: t.raw("infillValue") as string,
+    deadline: t.raw("deadlineValue") as string,
+  }
+  const currentConfig: PrintConfigSnapshot = { ...printConfigOf(quote), materialName: quote.material?.name ?? null, color: quote.color }
+  // Inactive materials still show on quotes that use them
+  const materialOptions = quote.materialId && quote.material && !options.materials.some((m) => m.id === quote.materialId)
+    ? [...options.materials, { id: quote.materialId, name: quote.material.name }]
+    : options.materials
 
   // Coupon picker state
   const [selectedCoupon, setSelectedCoupon] = useState<CouponOption | null>(null)
@@ -198,9 +316,14 @@ export function QuoteDetailModal({ quote, onClose, onSaved, canDelete, onDelete
     return t("daysAgo", { days: String(diffDays) })
   }
 
+  const formatHours = (ms: number) => {
+    const hours = ms / 3600000
+    return hours < 48 ? `${Math.max(1, Math.round(hours))}h` : `${Math.round(hours / 24)}d`
+  }
+
   const getWaitingBadge = () => {
     if (quote.status !== "pending" && quote.status !== "counter_offer") return null
-    const diffMs = Date.now() - new Date(quote.updatedAt).getTime()
+    const diffMs = Date.now() - new Date(quote.awaitingSince ?? quote.updatedAt).getTime()
     const diffDays = diffMs / 86400000
     const diffHours = Math.floor(diffMs / 3600000)
 
@@ -218,6 +341,9 @@ export function QuoteDetailModal({ quote, onClose, onSaved, canDelete, onDelete
         <Clock className="w-3 h-3" />
         {t("waiting")}
         {timeBadge}
+        {isQuoteOverdue(quote, sla) && (
+          <span className="px-2 py-0.5 rounded-full text-[10px] font-medium bg-red-500/20 text-red-400">{t("overdue")}</span>
+        )}
       </span>
     )
   }
@@ -235,6 +361,13 @@ export function QuoteDetailModal({ quote, onClose, onSaved, canDelete, onDelete
       body: JSON.stringify({
         id: quote.id,
         ...editForm,
+        printConfig,
+        // Layer height, infill and finish overrides set through the API are kept
+        parts: Object.entries(partForms).map(([id, form]) => ({
+          ...quote.files.find((file) => file.id === id)?.config,
+          id,
+          ...form,
+        })),
         couponId: selectedCoupon?.id || null,
       }),
     })
@@ -254,6 +387,73 @@ export function QuoteDetailModal({ quote, onClose, onSaved, canDelete, onDelete
     window.dispatchEvent(new Event("quoteUpdated"))
   }
 
+  const updatePartForm = (part: QuotePart, changes: Partial<ReturnType<typeof partForm>>) => {
+    setPartForms({ ...partForms, [part.id]: { ...(partForms[part.id] ?? partForm(part)), ...changes } })
+  }
+
+  const partOptionLabel = (part: QuotePart) => {
+    const material = part.config?.materialId && materialOptions.find((m) => m.id === part.config!.materialId)?.name
+    const color = part.config?.colorId && options.colors.find((c) => c.id === part.config!.colorId)?.nameEn
+    return [`×${part.quantity}`, material, color].filter(Boolean).join(" · ")
+  }
+
+  const handleUpload = async () => {
+    setUploading(true)
+    const body = new FormData()
+    if (uploadMessage.trim()) body.append("message", uploadMessage.trim())
+    for (const upload of uploads) body.append("files", upload.file)
+    body.append("targets", JSON.stringify(uploads.map((upload) => upload.target)))
+
+    const res = await fetch(`/api/quotes/${quote.id}/messages`, { method: "POST", body })
+    setUploading(false)
+    if (!res.ok) {
+      const error = await res.json().catch(() => ({}))
+      toast.error(error.error || t("uploadFailed"))
+      return
+    }
+
+    setUploads([])
+    setUploadMessage("")
+    toast.success(t("filesSent"))
+    onSaved()
+  }
+
+  const handleAssign = async (id: string) => {
+    const previous = assigneeId
+    setAssigneeId(id)
+    setAssigning(true)
+    const res = await fetch(`/api/admin/quotes/${quote.id}/assign`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ assignedToId: id || null }),
+    })
+    setAssigning(false)
+    if (!res.ok) {
+      const error = await res.json().catch(() => ({}))
+      toast.error(error.error || t("assignFailed"))
+      setAssigneeId(previous)
+      return
+    }
+
+    toast.success(id ? t("assignedSuccess") : t("unassignedSuccess"))
+    onSaved()
+  }
+
+  const handleSendPaymentLink = async () => {
+    setSendingPaymentLink(true)
+    const res = await fetch(`/api/admin/quotes/${quote.id}/payment-link`, { method: "POST" })
+    setSendingPaymentLink(false)
+    const data = await res.json().catch(() => ({}))
+    if (!res.ok) {
+      toast.error(data.error || t("paymentLinkFailed"))
+      return
+    }
+
+    setPaymentLink(data.url)
+    toast.success(data.notified ? t("paymentLinkSent") : t("paymentLinkNoAccount"))
+    onSaved()
+  }
+
   const messageCount = quote.messages?.length || 0
   const badge = STATUS_BADGES[quote.status] || STATUS_BADGES.pending
 
@@ -440,6 +640,120 @@ export function QuoteDetailModal({ quote, onClose, onSaved, canDelete, onDelete
                 )}
               </div>
 
+              {/* Follow-up — assignee, response time and validity */}
+              <div className="p-4 rounded-xl bg-white/5 border border-white/10 space-y-3">
+                <div className="flex items-center gap-2">
+                  <UserCheck className="w-4 h-4 text-gray-400 shrink-0" />
+                  <select
+                    value={assigneeId}
+                    onChange={(e) => handleAssign(e.target.value)}
+                    disabled={assigning}
+                    className="flex-1 px-3 py-1.5 bg-white/5 border border-white/10 rounded-lg text-base sm:text-sm text-white focus:outline-none focus:border-emerald-500/50 transition-colors disabled:opacity-50"
+                  >
+                    <option value="">{t("unassigned")}</option>
+                    {staff.map((member) => (
+                      <option key={member.id} value={member.id}>{member.name || member.email}</option>
+                    ))}
+                  </select>
+                  {assigning && <Loader2 className="w-4 h-4 animate-spin text-gray-400" />}
+                </div>
+                <div className="flex items-center gap-2 text-xs text-gray-400">
+                  <Clock className="w-3.5 h-3.5 shrink-0" />
+                  {quote.firstResponseAt ? (
+                    <span>{t("firstResponseAfter", {
+                      time: formatHours(new Date(quote.firstResponseAt).getTime() - new Date(quote.createdAt).getTime()),
+                    })}</span>
+                  ) : (() => {
+                    const due = quoteResponseDue(quote, sla)
+                    if (!due) return <span>{t("noResponseYet")}</span>
+                    return (
+                      <span className={due <= new Date() ? "text-red-400" : "text-amber-400"}>
+                        {t("responseDue", {
+                          date: due.toLocaleDateString("en-US", { month: "short", day: "numeric", hour: "2-digit", minute: "2-digit" }),
+                        })}
+                      </span>
+                    )
+                  })()}
+                </div>
+                {quote.expiresAt && (quote.status === "quoted" || quote.status === "expired") && (
+                  <div className={`flex items-center gap-2 text-xs ${quote.status === "expired" ? "text-orange-400" : "text-gray-400"}`}>
+                    <Hourglass className="w-3.5 h-3.5 shrink-0" />
+                    {t(quote.status === "expired" ? "expiredOn" : "validUntil", {
+                      date: new Date(quote.expiresAt).toLocaleDateString("en-US", { month: "short", day: "numeric", year: "numeric" }),
+                    })}
+                  </div>
+                )}
+              </div>
+
+              {/* Payment — accepted quotes are paid through Stripe from /my-orders */}
+              {(quote.order || quote.status === "accepted") && (
+                <div className="p-4 rounded-xl bg-cyan-500/5 border border-cyan-500/20 space-y-2">
+                  <h3 className="flex items-center gap-2 text-sm font-medium text-gray-300">
+                    <CreditCard className="w-4 h-4 text-cyan-400" />
+                    {t("payment")}
+                  </h3>
+                  {quote.order ? (
+                    <p className="text-sm text-white">
+                      {t("paidOn", {
+                        date: new Date(quote.paidAt ?? quote.updatedAt).toLocaleDateString("en-US", {
+                          month: "short", day: "numeric", hour: "2-digit", minute: "2-digit",
+                        }),
+                      })}
+                      {" · "}
+                      <a href={`/admin/orders?edit=${quote.order.id}`} className="font-mono text-cyan-400 hover:text-cyan-300 hover:underline">
+                        {quote.order.orderNumber}
+                      </a>
+                      {quote.order.total && (
+                        <span className="text-gray-400"> · {parseFloat(quote.order.total).toFixed(2)} {quote.order.currency}</span>
+                      )}
+                    </p>
+                  ) : (
+                    <>
+                      <p className="text-xs text-amber-400">
+                        {quote.paymentLinkSentAt
+                          ? t("paymentLinkSentOn", {
+                              date: new Date(quote.paymentLinkSentAt).toLocaleDateString("en-US", {
+                                month: "short", day: "numeric", hour: "2-digit", minute: "2-digit",
+                              }),
+                            })
+                          : t("awaitingPayment")}
+                      </p>
+                      <button
+                        onClick={handleSendPaymentLink}
+                        disabled={sendingPaymentLink || !quote.quotedPrice}
+                        className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg bg-cyan-500/20 text-cyan-400 text-xs font-medium hover:bg-cyan-500/30 disabled:opacity-50 transition-colors"
+                      >
+                        {sendingPaymentLink ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <Link2 className="w-3.5 h-3.5" />}
+                        {quote.paymentLinkSentAt ? t("resendPaymentLink") : t("sendPaymentLink")}
+                      </button>
+                      {paymentLink && (
+                        <button
+                          onClick={() => copyToClipboard(paymentLink)}
+                          className="flex items-center gap-1.5 w-full text-left text-xs text-gray-400 hover:text-white transition-colors"
+                          title={t("clickToCopy")}
+                        >
+                          <Copy className="w-3 h-3 shrink-0" />
+                          <span className="truncate font-mono">{paymentLink}</span>
+                        </button>
+                      )}
+                    </>
+                  )}
+                </div>
+              )}
+
+              {/* Print Options */}
+              <div className="p-4 rounded-xl bg-white/5 border border-white/10 space-y-2">
+                <h3 className="text-sm font-medium text-gray-300">{t("printOptions")}</h3>
+                <div className="flex flex-wrap gap-1.5">
+                  {printConfigParts(currentConfig, locale, configLabels).map((part) => (
+                    <span key={part} className="px-2 py-1 rounded-lg bg-white/5 text-xs text-white">{part}</span>
+                  ))}
+                  {quote.color && (
+                    <span className="w-6 h-6 rounded-lg border border-white/20" style={{ backgroundColor: quote.color.hex }} />
+                  )}
+                </div>
+              </div>
+
               {/* Original Message */}
               {quote.message && (
                 <div>
@@ -452,26 +766,157 @@ export function QuoteDetailModal({ quote, onClose, onSaved, canDelete, onDelete
                 </div>
               )}
 
-              {/* File */}
-              {quote.fileUrl && (
+              {/* Files */}
+              {quote.files.length > 0 && (
                 <div>
-                  <label className="block text-sm font-medium text-gray-400 mb-2">
-                    {t("file")}
-                  </label>
-                  <a
-                    href={quote.fileUrl}
-                    target="_blank"
-                    rel="noopener noreferrer"
-                    className="flex items-center gap-3 p-4 rounded-xl bg-cyan-500/10 border border-cyan-500/30 hover:bg-cyan-500/20 transition-colors"
-                  >
-                    <Download className="w-5 h-5 text-cyan-400" />
+                  <div className="flex items-center justify-between gap-2 mb-2">
+                    <label className="block text-sm font-medium text-gray-400">
+                      {t("files")} ({quote.files.length})
+                    </label>
+                    <div className="flex items-center gap-3 text-xs">
+                      <a href={`/api/admin/quotes/${quote.id}/files`} className="inline-flex items-center gap-1 text-cyan-400 hover:text-cyan-300">
+                        <Download className="w-3.5 h-3.5" />
+                        {t("downloadZip")}
+                      </a>
+                      <a href={`/api/admin/quotes/${quote.id}/files?all=1`} className="text-gray-400 hover:text-white">
+                        {t("downloadAllRevisions")}
+                      </a>
+                    </div>
+                  </div>
+                  <div className="space-y-3">
+                    {quote.files.map((part) => {
+                      const latest = part.revisions[0]
+                      if (!latest) return null
+                      const geometry = latest.geometry
+                      return (
+                        <div key={part.id} className="p-4 rounded-xl bg-white/5 border border-white/10 space-y-2">
+                          <div className="flex items-start justify-between gap-3">
+                            <div className="flex items-center gap-3 min-w-0">
+                              {latest.thumbnailUrl && (
+                                <img
+                                  src={latest.thumbnailUrl}
+                                  alt={part.name}
+                                  className="w-12 h-12 rounded-lg object-contain bg-black/20 border border-white/10 shrink-0"
+                                />
+                              )}
+                              <div className="min-w-0">
+                                <p className="text-white font-medium truncate">
+                                  {part.name}
+                                  <span className="ml-2 text-xs text-gray-500 font-normal">v{latest.version}</span>
+                                </p>
+                                <p className="text-xs text-gray-500 truncate">
+                                  {partOptionLabel(part)} · {latest.fileName} · {formatFileSize(latest.fileSize)}
+                                </p>
+                              </div>
+                            </div>
+                            <div className="flex items-center gap-1 shrink-0">
+                              {modelFormatOf(latest.fileName) && (
+                                <button
+                                  type="button"
+                                  onClick={() => setPreviewRevisionId(previewRevisionId === latest.id ? null : latest.id)}
+                                  className="p-1.5 rounded-lg hover:bg-white/10 transition-colors"
+                                  title={t("view3d")}
+                                >
+                                  <Box className="w-4 h-4 text-cyan-400" />
+                                </button>
+                              )}
+                              {part.revisions.length > 1 && (
+                                <button
+                                  type="button"
+                                  onClick={() => setHistoryPartId(historyPartId === part.id ? null : part.id)}
+                                  className="p-1.5 rounded-lg hover:bg-white/10 transition-colors"
+                                  title={t("revisionHistory")}
+                                >
+                                  <History className="w-4 h-4 text-gray-400" />
+                                </button>
+                              )}
+                              <a
+                                href={latest.fileUrl}
+                                target="_blank"
+                                rel="noopener noreferrer"
+                                className="p-1.5 rounded-lg hover:bg-white/10 transition-colors"
+                                title={t("downloadFile")}
+                              >
+                                <Download className="w-4 h-4 text-cyan-400" />
+                              </a>
+                            </div>
+                          </div>
+                          {geometry && (
+                            <div className="flex flex-wrap items-center gap-x-3 gap-y-1 text-xs text-gray-400">
+                              <span className="font-mono text-white">{geometry.size.map((v) => v.toFixed(1)).join(" × ")} mm</span>
+                              <span>{(geometry.volume / 1000).toFixed(2)} cm³</span>
+                              <span>{(geometry.surfaceArea / 100).toFixed(2)} cm²</span>
+                              <span>{geometry.triangles.toLocaleString()} {t("triangles").toLowerCase()}</span>
+                              <span className={`px-2 py-0.5 rounded-full font-medium ${geometry.watertight ? "bg-emerald-500/20 text-emerald-400" : "bg-amber-500/20 text-amber-400"}`}>
+                                {geometry.watertight ? t("watertight") : t("notWatertight")}
+                              </span>
+                            </div>
+                          )}
+                          {geometry?.unitSource === "customer" && (
+                            <p className="text-xs text-amber-400/80">{t("unitChosen", { unit: geometry.unit })}</p>
+                          )}
+                          {historyPartId === part.id && (
+                            <ul className="pt-2 border-t border-white/10 space-y-1 text-xs">
+                              {part.revisions.map((revision) => (
+                                <li key={revision.id} className="flex items-center justify-between gap-2">
+                                  <span className="text-gray-400 truncate">
+                                    v{revision.version} · {revision.fileName} · {revision.senderType === "admin" ? t("you") : t("customerLabel")} · {formatTimeAgo(revision.createdAt)}
+                                  </span>
+                                  <a href={revision.fileUrl} target="_blank" rel="noopener noreferrer" className="text-cyan-400 hover:text-cyan-300 shrink-0">
+                                    {t("downloadFile")}
+                                  </a>
+                                </li>
+                              ))}
+                            </ul>
+                          )}
+                          {previewRevisionId === latest.id && (
+                            <ModelViewerWrapper source={{ url: latest.fileUrl, fileName: latest.fileName }} />
+                          )}
+                        </div>
+                      )
+                    })}
+                  </div>
+                </div>
+              )}
+
+              {quote.estimate && (
+                <div className="p-4 rounded-xl bg-emerald-500/10 border border-emerald-500/30 space-y-2 text-sm">
+                  <div className="flex items-center justify-between gap-2">
+                    <h3 className="flex items-center gap-2 text-sm font-medium text-emerald-400">
+                      <Calculator className="w-4 h-4" />
+                      {t("instantEstimate")}
+                    </h3>
+                    <span className="text-emerald-400 font-bold">€{quote.estimate.price.toFixed(2)}</span>
+                  </div>
+                  <p className="text-xs text-gray-400">
+                    {quote.estimate.material} · {quote.estimate.grams} g · {quote.estimate.hours} h
+                  </p>
+                  <div className="grid grid-cols-3 gap-2 text-xs">
                     <div>
-                      <p className="text-cyan-400 font-medium">{quote.fileName || t("downloadFile")}</p>
-                      {quote.fileSize && (
-                        <p className="text-xs text-cyan-400/60">{formatFileSize(quote.fileSize)}</p>
-                      )}
+                      <p className="text-gray-500">{t("materialCost")}</p>
+                      <p className="text-white">€{quote.estimate.materialCost.toFixed(2)}</p>
+                    </div>
+                    <div>
+                      <p className="text-gray-500">{t("machineCost")}</p>
+                      <p className="text-white">€{quote.estimate.machineCost.toFixed(2)}</p>
                     </div>
-                  </a>
+                    <div>
+                      <p className="text-gray-500">{t("setupFee")}</p>
+                      <p className="text-white">€{quote.estimate.setupFee.toFixed(2)}</p>
+                    </div>
+                  </div>
+                  {quote.estimate.parts && quote.estimate.parts.length > 1 && (
+                    <ul className="pt-2 border-t border-emerald-500/20 space-y-1 text-xs">
+                      {quote.estimate.parts.map((part, i) => (
+                        <li key={i} className="flex items-center justify-between gap-2">
+                          <span className="text-gray-400 truncate">
+                            {part.name} ×{part.quantity} · {part.material} · {part.grams} g · {part.hours} h
+                          </span>
+                          <span className="text-white shrink-0">€{part.cost.toFixed(2)}</span>
+                        </li>
+                      ))}
+                    </ul>
+                  )}
                 </div>
               )}
             </div>
@@ -522,11 +967,35 @@ export function QuoteDetailModal({ quote, onClose, onSaved, canDelete, onDelete
                           {localizedLines.map((line, i) => (
                             <p key={i} className="text-sm text-white">{line}</p>
                           ))}
+                          {msg.revisions && msg.revisions.length > 0 && (
+                            <ul className="mt-1 space-y-0.5">
+                              {msg.revisions.map((revision) => (
+                                <li key={revision.id} className="flex items-center gap-1.5 text-xs text-cyan-300">
+                                  <Paperclip className="w-3 h-3 shrink-0" />
+                                  <span className="truncate">{revision.file.name} v{revision.version} · {revision.fileName}</span>
+                                </li>
+                              ))}
+                            </ul>
+                          )}
                           {msg.quotedPrice && (
                             <p className="text-sm font-semibold text-emerald-400 mt-1">
                               €{parseFloat(msg.quotedPrice).toFixed(2)}
                             </p>
                           )}
+                          {msg.config && (
+                            <p className="text-xs text-gray-400 mt-1">
+                              {printConfigParts(msg.config, locale, configLabels).join(" · ")}
+                            </p>
+                          )}
+                          {msg.config && msg.senderType === "user" && (
+                            <button
+                              type="button"
+                              onClick={() => { setPrintConfig(printConfigForm(msg.config!)); toast.success(t("optionsApplied")) }}
+                              className="mt-1 text-xs text-cyan-400 hover:text-cyan-300"
+                            >
+                              {t("applyOptions")}
+                            </button>
+                          )}
                         </div>
                       </div>
                     )
@@ -540,6 +1009,79 @@ export function QuoteDetailModal({ quote, onClose, onSaved, canDelete, onDelete
                 </div>
               )}
 
+              {/* ── Send Files ── */}
+              <div className="p-4 rounded-xl bg-white/5 border border-white/10 space-y-3">
+                <div className="flex items-center justify-between gap-2">
+                  <h3 className="text-sm font-medium text-gray-300">{t("sendFiles")}</h3>
+                  <button
+                    type="button"
+                    onClick={() => uploadInputRef.current?.click()}
+                    className="inline-flex items-center gap-1.5 text-xs text-cyan-400 hover:text-cyan-300"
+                  >
+                    <Upload className="w-3.5 h-3.5" />
+                    {t("chooseFiles")}
+                  </button>
+                  <input
+                    ref={uploadInputRef}
+                    type="file"
+                    accept=".stl,.obj,.3mf"
+                    multiple
+                    className="hidden"
+                    onChange={(e) => {
+                      const files = Array.from(e.target.files ?? [])
+                      // A file named like an existing part is most likely its new revision
+                      setUploads([...uploads, ...files.map((file) => ({
+                        file,
+                        target: quote.files.find((part) => part.name === file.name.replace(/\.[^.]+$/, ""))?.id ?? "",
+                      }))])
+                      e.target.value = ""
+                    }}
+                  />
+                </div>
+                {uploads.length > 0 && (
+                  <>
+                    {uploads.map((upload, index) => (
+                      <div key={`${upload.file.name}-${index}`} className="flex items-center gap-2">
+                        <span className="flex-1 min-w-0 text-sm text-white truncate">{upload.file.name}</span>
+                        <select
+                          value={upload.target}
+                          onChange={(e) => setUploads(uploads.map((u, i) => (i === index ? { ...u, target: e.target.value } : u)))}
+                          className="w-40 px-2 py-1.5 bg-white/5 border border-white/10 rounded-lg text-xs text-white focus:outline-none focus:border-emerald-500/50"
+                        >
+                          <option value="" disabled={quote.files.length >= MAX_QUOTE_FILES}>{t("newPart")}</option>
+                          {quote.files.map((part) => (
+                            <option key={part.id} value={part.id}>{t("revisionOf", { name: part.name })}</option>
+                          ))}
+                        </select>
+                        <button
+                          type="button"
+                          onClick={() => setUploads(uploads.filter((_, i) => i !== index))}
+                          className="p-1 rounded-lg hover:bg-white/10"
+                        >
+                          <X className="w-4 h-4 text-gray-400" />
+                        </button>
+                      </div>
+                    ))}
+                    <textarea
+                      value={uploadMessage}
+                      onChange={(e) => setUploadMessage(e.target.value)}
+                      placeholder={t("filesMessagePlaceholder")}
+                      rows={2}
+                      className="w-full px-4 py-2 bg-white/5 border border-white/10 rounded-xl text-white text-base sm:text-sm placeholder-gray-500 focus:outline-none focus:border-emerald-500/50 transition-colors resize-none"
+                    />
+                    <button
+                      type="button"
+                      onClick={handleUpload}
+                      disabled={uploading}
+                      className="w-full flex items-center justify-center gap-2 px-4 py-2 rounded-xl bg-cyan-500/20 border border-cyan-500/30 text-cyan-300 text-sm font-medium hover:bg-cyan-500/30 transition-colors disabled:opacity-50"
+                    >
+                      {uploading ? <Loader2 className="w-4 h-4 animate-spin" /> : <Upload className="w-4 h-4" />}
+                      {t("sendFilesButton")}
+                    </button>
+                  </>
+                )}
+              </div>
+
               {/* ── Reply Form ── */}
               <div className="border-t border-white/10 pt-4 space-y-4">
                 {/* Status */}
@@ -555,10 +1097,143 @@ export function QuoteDetailModal({ quote, onClose, onSaved, canDelete, onDelete
                     <option value="pending">{t("statusPending")}</option>
                     <option value="quoted">{t("statusQuoted")}</option>
                     <option value="accepted">{t("statusAccepted")}</option>
+                    <option value="paid">{t("statusPaid")}</option>
+                    <option value="in_production">{t("statusInProduction")}</option>
                     <option value="rejected">{t("statusRejected")}</option>
+                    <option value="expired">{t("statusExpired")}</option>
                   </select>
                 </div>
 
+                {/* Print Options */}
+                <div>
+                  <label className="block text-sm font-medium text-gray-400 mb-2">
+                    {t("printOptions")}
+                  </label>
+                  <div className="grid grid-cols-2 gap-3">
+                    <select
+                      value={printConfig.materialId}
+                      onChange={(e) => setPrintConfig({ ...printConfig, materialId: e.target.value })}
+                      title={t("material")}
+                      className="w-full px-4 py-2 bg-white/5 border border-white/10 rounded-xl text-base sm:text-sm text-white focus:outline-none focus:border-emerald-500/50 transition-colors"
+                    >
+                      <option value="">{t("material")}: {t("notSpecified")}</option>
+                      {materialOptions.map((m) => (
+                        <option key={m.id} value={m.id}>{m.name}</option>
+                      ))}
+                    </select>
+                    <select
+                      value={printConfig.colorId}
+                      onChange={(e) => setPrintConfig({ ...printConfig, colorId: e.target.value })}
+                      title={t("color")}
+                      className="w-full px-4 py-2 bg-white/5 border border-white/10 rounded-xl text-base sm:text-sm text-white focus:outline-none focus:border-emerald-500/50 transition-colors"
+                    >
+                      <option value="">{t("color")}: {t("notSpecified")}</option>
+                      {options.colors.map((c) => (
+                        <option key={c.id} value={c.id}>{c.nameEn}</option>
+                      ))}
+                    </select>
+                    <select
+                      value={printConfig.layerHeight}
+                      onChange={(e) => setPrintConfig({ ...printConfig, layerHeight: e.target.value })}
+                      title={t("layerHeight")}
+                      className="w-full px-4 py-2 bg-white/5 border border-white/10 rounded-xl text-base sm:text-sm text-white focus:outline-none focus:border-emerald-500/50 transition-colors"
+                    >
+                      <option value="">{t("layerHeight")}: {t("notSpecified")}</option>
+                      {LAYER_HEIGHTS.map((h) => (
+                        <option key={h} value={h}>{h} mm</option>
+                      ))}
+                    </select>
+                    <select
+                      value={printConfig.finish}
+                      onChange={(e) => setPrintConfig({ ...printConfig, finish: e.target.value })}
+                      title={t("finish")}
+                      className="w-full px-4 py-2 bg-white/5 border border-white/10 rounded-xl text-base sm:text-sm text-white focus:outline-none focus:border-emerald-500/50 transition-colors"
+                    >
+                      <option value="">{t("finish")}: {t("notSpecified")}</option>
+                      {PRINT_FINISHES.map((f) => (
+                        <option key={f} value={f}>{t(`finish_${f}`)}</option>
+                      ))}
+                    </select>
+                    <label className="flex items-center gap-2 text-xs text-gray-400">
+                      {t("infill")}
+                      <input
+                        type="number"
+                        min={0}
+                        max={100}
+                        value={printConfig.infill}
+                        onChange={(e) => setPrintConfig({ ...printConfig, infill: e.target.value })}
+                        placeholder="%"
+                        className="w-full px-4 py-2 bg-white/5 border border-white/10 rounded-xl text-base sm:text-sm text-white focus:outline-none focus:border-emerald-500/50 transition-colors"
+                      />
+                    </label>
+                    <label className="flex items-center gap-2 text-xs text-gray-400">
+                      {t("quantity")}
+                      <input
+                        type="number"
+                        min={1}
+                        value={printConfig.quantity}
+                        onChange={(e) => setPrintConfig({ ...printConfig, quantity: e.target.value })}
+                        className="w-full px-4 py-2 bg-white/5 border border-white/10 rounded-xl text-base sm:text-sm text-white focus:outline-none focus:border-emerald-500/50 transition-colors"
+                      />
+                    </label>
+                    <label className="col-span-2 flex items-center gap-2 text-xs text-gray-400">
+                      {t("deadline")}
+                      <input
+                        type="date"
+                        value={printConfig.deadline}
+                        onChange={(e) => setPrintConfig({ ...printConfig, deadline: e.target.value })}
+                        className="w-full px-4 py-2 bg-white/5 border border-white/10 rounded-xl text-base sm:text-sm text-white focus:outline-none focus:border-emerald-500/50 transition-colors"
+                      />
+                    </label>
+                  </div>
+                  {quote.files.length > 1 && (
+                    <div className="mt-3 space-y-2">
+                      <p className="text-xs text-gray-500">{t("partsHint")}</p>
+                      {quote.files.map((part) => {
+                        const form = partForms[part.id] ?? partForm(part)
+                        return (
+                          <div key={part.id} className="grid grid-cols-[1fr_4.5rem_7rem_7rem] items-center gap-2">
+                            <span className="text-sm text-white truncate">{part.name}</span>
+                            <input
+                              type="number"
+                              min={1}
+                              value={form.quantity}
+                              onChange={(e) => updatePartForm(part, { quantity: e.target.value })}
+                              title={t("partQuantity")}
+                              className="w-full px-2 py-1.5 bg-white/5 border border-white/10 rounded-lg text-base sm:text-sm text-white focus:outline-none focus:border-emerald-500/50"
+                            />
+                            <select
+                              value={form.materialId}
+                              onChange={(e) => updatePartForm(part, { materialId: e.target.value })}
+                              title={t("material")}
+                              className="w-full px-2 py-1.5 bg-white/5 border border-white/10 rounded-lg text-xs text-white focus:outline-none focus:border-emerald-500/50"
+                            >
+                              <option value="">{t("sameAsQuote")}</option>
+                              {materialOptions.map((m) => (
+                                <option key={m.id} value={m.id}>{m.name}</option>
+                              ))}
+                            </select>
+                            <select
+                              value={form.colorId}
+                              onChange={(e) => updatePartForm(part, { colorId: e.target.value })}
+                              title={t("color")}
+                              className="w-full px-2 py-1.5 bg-white/5 border border-white/10 rounded-lg text-xs text-white focus:outline-none focus:border-emerald-500/50"
+                            >
+                              <option value="">{t("sameAsQuote")}</option>
+                              {options.colors.map((c) => (
+                                <option key={c.id} value={c.id}>{c.nameEn}</option>
+                              ))}
+                            </select>
+                          </div>
+                        )
+                      })}
+                    </div>
+                  )}
+                  {quote.files.some((part) => part.revisions[0]?.geometry) && (
+                    <p className="mt-1 text-xs text-gray-500">{t("estimateUpdatesOnSave")}</p>
+                  )}
+                </div>
+
                 {/* Quoted Price */}
                 <div>
                   <label className="block text-sm font-medium text-gray-400 mb-2">
@@ -578,6 +1253,9 @@ export function QuoteDetailModal({ quote, onClose, onSaved, canDelete, onDelete
                     placeholder="0.00"
                     className="w-full px-4 py-2 bg-white/5 border border-white/10 rounded-xl text-base sm:text-sm text-white placeholder-gray-500 focus:outline-none focus:border-emerald-500/50 transition-colors"
                   />
+                  {!quote.quotedPrice && quote.estimate && (
+                    <p className="mt-1 text-xs text-gray-500">{t("prefilledFromEstimate")}</p>
+                  )}
                 </div>
 
                 {/* Admin Notes */}
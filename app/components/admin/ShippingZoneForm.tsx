@@ -0,0 +1,267 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import { X, Plus, Trash2 } from "lucide-react"
+import { useTranslations, useLocale } from "next-intl"
+import { SHIPPING_COUNTRIES, getCountryName } from "@/lib/countries"
+
+export interface ShippingMethodFormData {
+  id?: string
+  nameBg: string
+  nameEn: string
+  nameEs: string
+  baseRate: string
+  perKgRate: string
+  freeShippingThreshold: string
+  minOrderTotal: string
+  maxWeightGrams: string
+  estimatedDays: string
+  active: boolean
+}
+
+export interface ShippingZoneFormData {
+  id?: string
+  name: string
+  countries: string[]
+  active: boolean
+  order: number
+  methods: ShippingMethodFormData[]
+}
+
+interface ShippingZoneFormProps {
+  initialData?: ShippingZoneFormData
+  onSubmit: (data: ShippingZoneFormData) => Promise<void>
+  onCancel: () => void
+}
+
+const emptyMethod: ShippingMethodFormData = {
+  nameBg: "", nameEn: "", nameEs: "",
+  baseRate: "", perKgRate: "", freeShippingThreshold: "", minOrderTotal: "", maxWeightGrams: "",
+  estimatedDays: "", active: true,
+}
+
+const inputClass = "w-full bg-white/5 border border-white/10 rounded-xl px-3 py-2 text-base sm:text-sm text-white placeholder-gray-600 focus:outline-none focus:border-emerald-500/50"
+
+export function ShippingZoneForm({ initialData, onSubmit, onCancel }: ShippingZoneFormProps) {
+  const t = useTranslations("admin.shipping")
+  const locale = useLocale()
+  const [saving, setSaving] = useState(false)
+  const [formData, setFormData] = useState<ShippingZoneFormData>({
+    name: "",
+    countries: [],
+    active: true,
+    order: 0,
+    methods: [{ ...emptyMethod }],
+    ...initialData,
+  })
+  const [errors, setErrors] = useState<Record<string, string>>({})
+
+  useEffect(() => {
+    const handleKey = (e: KeyboardEvent) => { if (e.key === "Escape") onCancel() }
+    window.addEventListener("keydown", handleKey)
+    return () => window.removeEventListener("keydown", handleKey)
+  }, [onCancel])
+
+  const toggleCountry = (code: string) => {
+    setFormData(prev => ({
+      ...prev,
+      countries: prev.countries.includes(code)
+        ? prev.countries.filter(c => c !== code)
+        : [...prev.countries, code],
+    }))
+  }
+
+  const updateMethod = (index: number, field: keyof ShippingMethodFormData, value: string | boolean) => {
+    setFormData(prev => ({
+      ...prev,
+      methods: prev.methods.map((m, i) => (i === index ? { ...m, [field]: value } : m)),
+    }))
+  }
+
+  const validate = () => {
+    const errs: Record<string, string> = {}
+    if (!formData.name.trim()) errs.name = t("nameRequired")
+    formData.methods.forEach((m, i) => {
+      if (!m.nameEn.trim()) errs[`method${i}`] = t("methodNameRequired")
+      else if (m.baseRate === "" || isNaN(parseFloat(m.baseRate))) errs[`method${i}`] = t("baseRateRequired")
+    })
+    setErrors(errs)
+    return Object.keys(errs).length === 0
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!validate()) return
+    setSaving(true)
+    try {
+      await onSubmit(formData)
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+      <div className="absolute inset-0 bg-black/60 backdrop-blur-sm" onClick={onCancel} />
+      <div className="relative w-full max-w-2xl bg-[#0d0d1a] border border-white/10 shadow-2xl rounded-2xl flex flex-col max-h-[85svh]">
+        {/* Header */}
+        <div className="flex items-center justify-between p-4 sm:p-6 border-b border-white/10 shrink-0">
+          <h2 className="text-lg font-semibold text-white">
+            {initialData?.id ? t("editZone") : t("addZone")}
+          </h2>
+          <button onClick={onCancel} className="w-11 h-11 sm:w-10 sm:h-10 flex items-center justify-center rounded-xl hover:bg-white/10 transition-colors">
+            <X className="w-5 h-5 text-gray-400" />
+          </button>
+        </div>
+
+        {/* Body */}
+        <form onSubmit={handleSubmit} className="flex flex-col flex-1 overflow-y-auto overscroll-contain">
+          <div className="p-4 sm:p-6 space-y-5">
+            {/* Name + active */}
+            <div className="flex flex-col sm:flex-row gap-4">
+              <div className="flex-1">
+                <label className="block text-sm font-medium text-gray-400 mb-1.5">{t("zoneName")}</label>
+                <input
+                  type="text"
+                  value={formData.name}
+                  onChange={e => setFormData(prev => ({ ...prev, name: e.target.value }))}
+                  className={inputClass}
+                  placeholder={t("zoneNamePlaceholder")}
+                  autoFocus
+                />
+                {errors.name && <p className="mt-1 text-xs text-red-400">{errors.name}</p>}
+              </div>
+              <label className="flex items-center gap-2 text-sm text-gray-300 sm:pt-7">
+                <input
+                  type="checkbox"
+                  checked={formData.active}
+                  onChange={e => setFormData(prev => ({ ...prev, active: e.target.checked }))}
+                  className="w-4 h-4 accent-emerald-500"
+                />
+                {t("active")}
+              </label>
+            </div>
+
+            {/* Countries */}
+            <div>
+              <label className="block text-sm font-medium text-gray-400 mb-1.5">{t("countries")}</label>
+              <p className="text-xs text-gray-600 mb-2">{t("countriesHint")}</p>
+              <div className="flex flex-wrap gap-1.5">
+                {SHIPPING_COUNTRIES.map(code => {
+                  const selected = formData.countries.includes(code)
+                  return (
+                    <button
+                      key={code}
+                      type="button"
+                      onClick={() => toggleCountry(code)}
+                      title={getCountryName(code, locale)}
+                      className={`px-2 py-1 rounded-lg text-xs font-mono border transition-colors ${
+                        selected
+                          ? "bg-emerald-500/20 border-emerald-500/40 text-emerald-300"
+                          : "bg-white/5 border-white/10 text-gray-400 hover:text-white"
+                      }`}
+                    >
+                      {code}
+                    </button>
+                  )
+                })}
+              </div>
+            </div>
+
+            {/* Methods */}
+            <div className="space-y-3">
+              <div className="flex items-center justify-between">
+                <label className="text-sm font-medium text-gray-400">{t("methods")}</label>
+                <button
+                  type="button"
+                  onClick={() => setFormData(prev => ({ ...prev, methods: [...prev.methods, { ...emptyMethod }] }))}
+                  className="flex items-center gap-1 text-xs text-emerald-400 hover:text-emerald-300"
+                >
+                  <Plus className="w-3.5 h-3.5" />
+                  {t("addMethod")}
+                </button>
+              </div>
+              {formData.methods.length === 0 && (
+                <p className="text-xs text-gray-600">{t("noMethods")}</p>
+              )}
+              {formData.methods.map((m, i) => (
+                <div key={m.id ?? `new-${i}`} className="p-3 rounded-xl border border-white/10 bg-white/[0.02] space-y-3">
+                  <div className="flex items-center justify-between gap-2">
+                    <label className="flex items-center gap-2 text-xs text-gray-300">
+                      <input
+                        type="checkbox"
+                        checked={m.active}
+                        onChange={e => updateMethod(i, "active", e.target.checked)}
+                        className="w-4 h-4 accent-emerald-500"
+                      />
+                      {t("active")}
+                    </label>
+                    <button
+                      type="button"
+                      onClick={() => setFormData(prev => ({ ...prev, methods: prev.methods.filter((_, idx) => idx !== i) }))}
+                      className="p-1.5 rounded-lg hover:bg-red-500/20 transition-colors"
+                      title={t("removeMethod")}
+                    >
+                      <Trash2 className="w-3.5 h-3.5 text-red-400" />
+                    </button>
+                  </div>
+                  <div className="grid grid-cols-1 sm:grid-cols-3 gap-2">
+                    <input type="text" value={m.nameEn} onChange={e => updateMethod(i, "nameEn", e.target.value)} className={inputClass} placeholder={t("nameEn")} />
+                    <input type="text" value={m.nameBg} onChange={e => updateMethod(i, "nameBg", e.target.value)} className={inputClass} placeholder={t("nameBg")} />
+                    <input type="text" value={m.nameEs} onChange={e => updateMethod(i, "nameEs", e.target.value)} className={inputClass} placeholder={t("nameEs")} />
+                  </div>
+                  <div className="grid grid-cols-2 sm:grid-cols-3 gap-2">
+                    <div>
+                      <label className="block text-xs text-gray-500 mb-1">{t("baseRate")}</label>
+                      <input type="number" min={0} step="0.01" value={m.baseRate} onChange={e => updateMethod(i, "baseRate", e.target.value)} className={inputClass} placeholder="5.00" />
+                    </div>
+                    <div>
+                      <label className="block text-xs text-gray-500 mb-1">{t("perKgRate")}</label>
+                      <input type="number" min={0} step="0.01" value={m.perKgRate} onChange={e => updateMethod(i, "perKgRate", e.target.value)} className={inputClass} placeholder="0.00" />
+                    </div>
+                    <div>
+                      <label className="block text-xs text-gray-500 mb-1">{t("freeShippingThreshold")}</label>
+                      <input type="number" min={0} step="0.01" value={m.freeShippingThreshold} onChange={e => updateMethod(i, "freeShippingThreshold", e.target.value)} className={inputClass} placeholder={t("useGlobal")} />
+                    </div>
+                    <div>
+                      <label className="block text-xs text-gray-500 mb-1">{t("minOrderTotal")}</label>
+                      <input type="number" min={0} step="0.01" value={m.minOrderTotal} onChange={e => updateMethod(i, "minOrderTotal", e.target.value)} className={inputClass} />
+                    </div>
+                    <div>
+                      <label className="block text-xs text-gray-500 mb-1">{t("maxWeightGrams")}</label>
+                      <input type="number" min={1} value={m.maxWeightGrams} onChange={e => updateMethod(i, "maxWeightGrams", e.target.value)} className={inputClass} />
+                    </div>
+                    <div>
+                      <label className="block text-xs text-gray-500 mb-1">{t("estimatedDays")}</label>
+                      <input type="text" value={m.estimatedDays} onChange={e => updateMethod(i, "estimatedDays", e.target.value)} className={inputClass} placeholder="2-3" />
+                    </div>
+                  </div>
+                  {errors[`method${i}`] && <p className="text-xs text-red-400">{errors[`method${i}`]}</p>}
+                </div>
+              ))}
+              <p className="text-xs text-gray-600">{t("rateHint")}</p>
+            </div>
+          </div>
+
+          {/* Footer */}
+          <div className="flex items-center gap-3 p-4 sm:p-6 border-t border-white/10 shrink-0">
+            <button
+              type="button"
+              onClick={onCancel}
+              className="flex-1 py-2.5 rounded-xl border border-white/10 text-sm text-gray-400 hover:text-white hover:border-white/30 transition-colors"
+            >
+              {t("cancel")}
+            </button>
+            <button
+              type="submit"
+              disabled={saving}
+              className="flex-1 py-2.5 rounded-xl bg-gradient-to-r from-emerald-500 to-cyan-500 text-sm text-white font-medium hover:shadow-lg hover:shadow-emerald-500/30 transition-all disabled:opacity-40 disabled:cursor-not-allowed"
+            >
+              {saving ? t("saving") : t("save")}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  )
+}
@@ -25,6 +25,15 @@ import {
   BadgeCheck,
   Palette,
   Weight,
+  Truck,
+  Webhook,
+  Layers,
+  Factory,
+  Printer,
+  Boxes,
+  Download,
+  ScanSearch,
+  Rss,
   X,
 } from "lucide-react"
 import type { PermissionMap } from "@/lib/permissions"
@@ -51,9 +60,18 @@ const allNavItems = [
   { href: "/admin/brands", icon: BadgeCheck, labelKey: "brands" },
   { href: "/admin/colors", icon: Palette, labelKey: "colors" },
   { href: "/admin/weights", icon: Weight, labelKey: "weights" },
+  { href: "/admin/inventory", icon: Boxes, labelKey: "inventory" },
+  { href: "/admin/search", icon: ScanSearch, labelKey: "searchInsights" },
+  { href: "/admin/feeds", icon: Rss, labelKey: "feeds" },
   { href: "/admin/quotes", icon: MessageSquare, labelKey: "quotes", showBadge: true },
+  { href: "/admin/materials", icon: Layers, labelKey: "materials" },
   { href: "/admin/orders", icon: ShoppingCart, labelKey: "orders" },
+  { href: "/admin/production", icon: Factory, labelKey: "production" },
+  { href: "/admin/printers", icon: Printer, labelKey: "printers" },
+  { href: "/admin/downloads", icon: Download, labelKey: "downloads" },
   { href: "/admin/coupons", icon: Ticket, labelKey: "coupons" },
+  { href: "/admin/stripe-events", icon: Webhook, labelKey: "stripeEvents" },
+  { href: "/admin/shipping", icon: Truck, labelKey: "shipping" },
   { href: "/admin/notifications", icon: BellRing, labelKey: "notifications" },
   { href: "/admin/users", icon: Users, labelKey: "users" },
   { href: "/admin/roles", icon: Shield, labelKey: "roles" },
@@ -1,18 +1,69 @@
 "use client"
 
 import { useState, useEffect, useCallback, useRef } from "react"
-import { useSearchParams } from "next/navigation"
+import { useSearchParams, useRouter } from "next/navigation"
+import { useLocale } from "next-intl"
 import Link from "next/link"
-import { Package, ArrowLeft, MessageSquare, ChevronDown, Ticket, Copy, Check } from "lucide-react"
+import { Package, ArrowLeft, MessageSquare, ChevronDown, Ticket, Copy, Check, FileText, Link2, Loader2, Box, Paperclip, Upload, X, Download, CreditCard } from "lucide-react"
+import { ModelViewerWrapper } from "@/app/components/ModelViewerWrapper"
+import { modelFormatOf } from "@/lib/modelFormats"
+import { MAX_QUOTE_QUANTITY, MAX_QUOTE_FILES, printConfigOf, printConfigParts, type PrintConfigSnapshot } from "@/lib/printConfig"
+import { QuotePaymentForm } from "./QuotePaymentForm"
 import { Header } from "@/app/components/Header"
 import { BackgroundOrbs } from "@/app/components/BackgroundOrbs"
+import { toast } from "sonner"
+
+interface OrderItemData {
+  id: string
+  productId: string | null
+  nameBg: string
+  nameEn: string
+  nameEs: string
+  packageLabel: string | null
+  colorNameBg: string | null
+  colorNameEn: string | null
+  colorNameEs: string | null
+  colorHex: string | null
+  fileType: string
+  quantity: number
+  unitPrice: string
+  bulkDiscount: string
+  couponDiscount: string
+  lineTotal: string
+  refundedQuantity: number
+}
+
+interface OrderRefundData {
+  id: string
+  amount: string
+  status: "pending" | "succeeded"
+  createdAt: string
+}
+
+interface OrderInvoiceData {
+  id: string
+  type: "invoice" | "credit_note"
+  number: string
+}
 
 interface OrderData {
   id: string
   orderNumber: string
   description: string
   status: "PENDING" | "IN_PROGRESS" | "COMPLETED" | "CANCELLED"
+  subtotal: string | null
+  discountAmount: string | null
+  total: string | null
+  currency: string
+  shippingMethodName: string | null
+  shippingFee: string | null
+  vatAmount: string | null
+  reverseCharge: boolean
+  refundedAmount: string
   createdAt: string
+  items: OrderItemData[]
+  refunds: OrderRefundData[]
+  invoices: OrderInvoiceData[]
 }
 
 interface QuoteMessage {
@@ -20,7 +71,16 @@ interface QuoteMessage {
   senderType: string
   message: string
   quotedPrice: string | null
+  config: PrintConfigSnapshot | null
   createdAt: string
+  revisions?: { id: string; version: number; fileName: string; file: { name: string } }[]
+}
+
+interface QuoteFileData {
+  id: string
+  name: string
+  quantity: number
+  revisions: { id: string; version: number; fileName: string; fileUrl: string; thumbnailUrl: string | null; senderType: string; createdAt: string }[]
 }
 
 interface QuoteData {
@@ -33,6 +93,19 @@ interface QuoteData {
   userResponse: string | null
   viewedAt: string | null
   createdAt: string
+  paidAt: string | null
+  expiresAt: string | null
+  order: { orderNumber: string } | null
+  files: QuoteFileData[]
+  materialId: string | null
+  colorId: string | null
+  layerHeight: number | null
+  infill: number | null
+  quantity: number
+  finish: string | null
+  deadline: string | null
+  material: { name: string } | null
+  color: { nameEn: string; nameBg: string; nameEs: string; hex: string } | null
   product: {
     nameEn: string
     nameBg: string
@@ -54,6 +127,7 @@ interface QuoteData {
 interface MyOrdersClientProps {
   orders: OrderData[]
   quotes: QuoteData[]
+  guestOrderCount: number
   translations: {
     myOrdersTitle: string
     myOrdersSubtitle: string
@@ -100,9 +174,62 @@ interface MyOrdersClientProps {
     msgCounterOffer: string
     msgPrice: string
     msgCoupon: string
+    orderSubtotal: string
+    orderDiscount: string
+    orderShipping: string
+    orderVat: string
+    orderReverseCharge: string
+    orderTotal: string
+    orderRefund: string
+    orderRefundPending: string
+    orderRefundedQty: string
+    orderDigital: string
+    orderInvoice: string
+    orderCreditNote: string
+    attachGuestTitle: string
+    attachGuestDesc: string
+    attachGuestPlaceholder: string
+    attachGuestCodePlaceholder: string
+    attachGuestButton: string
+    attachGuestSuccess: string
+    attachGuestFailed: string
+    view3dModel: string
+    hide3dModel: string
+    quantity: string
+    deadline: string
+    infillValue: string
+    deadlineValue: string
+    finish_sanding: string
+    finish_primer: string
+    finish_painting: string
+    finish_vapor_smoothing: string
+    quoteFiles: string
+    revisionHistory: string
+    sendFiles: string
+    chooseFiles: string
+    newPart: string
+    revisionOf: string
+    filesMessagePlaceholder: string
+    sendFilesButton: string
+    filesSent: string
+    uploadFailed: string
+    msgFiles: string
+    quotePaid: string
+    quoteInProduction: string
+    payNow: string
+    paymentDue: string
+    paidWithOrder: string
+    msgPaymentLink: string
+    msgPaid: string
+    quoteExpired: string
+    validUntil: string
+    msgExpired: string
   }
 }
 
+// Customers can send new files until the quote is settled
+const OPEN_QUOTE_STATUSES = ["pending", "quoted"]
+
 // Localize structured quote messages (stored as JSON)
 function localizeMessage(raw: string, t: MyOrdersClientProps["translations"]): string[] {
   try {
@@ -122,6 +249,15 @@ function localizeMessage(raw: string, t: MyOrdersClientProps["translations"]): s
     } else if (data.key === "counter_offer") {
       lines.push(t.msgCounterOffer)
       if (data.text) lines.push(data.text)
+    } else if (data.key === "files") {
+      lines.push(t.msgFiles)
+      if (data.text) lines.push(data.text)
+    } else if (data.key === "payment_link") {
+      lines.push(t.msgPaymentLink.replace("{price}", data.price))
+    } else if (data.key === "paid") {
+      lines.push(t.msgPaid.replace("{orderNumber}", data.orderNumber))
+    } else if (data.key === "expired") {
+      lines.push(t.msgExpired)
     } else {
       throw new Error("unknown key")
     }
@@ -132,6 +268,15 @@ function localizeMessage(raw: string, t: MyOrdersClientProps["translations"]): s
   }
 }
 
+// Print option chips for a quote or a counter-offer message
+function configParts(config: PrintConfigSnapshot, locale: string, t: MyOrdersClientProps["translations"]): string[] {
+  return printConfigParts(config, locale, {
+    finish: (finish) => (finish === "none" ? "" : t[`finish_${finish}`]),
+    infill: t.infillValue,
+    deadline: t.deadlineValue,
+  })
+}
+
 const statusColors = {
   PENDING: "bg-amber-500/20 text-amber-400",
   IN_PROGRESS: "bg-cyan-500/20 text-cyan-400",
@@ -146,18 +291,36 @@ const quoteStatusColors: Record<string, string> = {
   rejected: "bg-red-500/20 text-red-400",
   counter_offer: "bg-purple-500/20 text-purple-400",
   user_declined: "bg-gray-500/20 text-gray-400",
+  paid: "bg-cyan-500/20 text-cyan-400",
+  in_production: "bg-indigo-500/20 text-indigo-400",
+  expired: "bg-orange-500/20 text-orange-400",
 }
 
-export function MyOrdersClient({ orders, quotes: initialQuotes, translations: t }: MyOrdersClientProps) {
+export function MyOrdersClient({ orders, quotes: initialQuotes, guestOrderCount, translations: t }: MyOrdersClientProps) {
   const searchParams = useSearchParams()
+  const router = useRouter()
+  const locale = useLocale()
   const [quotes, setQuotes] = useState(initialQuotes)
   const [respondingToQuote, setRespondingToQuote] = useState<string | null>(null)
   const [counterOfferMessage, setCounterOfferMessage] = useState("")
+  const [counterQuantity, setCounterQuantity] = useState("")
+  const [counterDeadline, setCounterDeadline] = useState("")
   const [isSubmitting, setIsSubmitting] = useState(false)
+  const [payingQuoteId, setPayingQuoteId] = useState<string | null>(null)
   const [expandedHistory, setExpandedHistory] = useState<string | null>(null)
+  const [previewRevisionId, setPreviewRevisionId] = useState<string | null>(null)
+  const [historyFileId, setHistoryFileId] = useState<string | null>(null)
+  const [uploadQuoteId, setUploadQuoteId] = useState<string | null>(null)
+  const [uploads, setUploads] = useState<{ file: File; target: string }[]>([])
+  const [uploadMessage, setUploadMessage] = useState("")
+  const [isUploading, setIsUploading] = useState(false)
+  const uploadInputRef = useRef<HTMLInputElement>(null)
   const [showAllQuotes, setShowAllQuotes] = useState(false)
   const [showAllOrders, setShowAllOrders] = useState(false)
   const [copiedCoupon, setCopiedCoupon] = useState<string | null>(null)
+  const [attachOrderNumber, setAttachOrderNumber] = useState("")
+  const [attachAccessCode, setAttachAccessCode] = useState("")
+  const [isAttaching, setIsAttaching] = useState(false)
   const quoteRefs = useRef<Record<string, HTMLDivElement | null>>({})
   const messagesEndRefs = useRef<Record<string, HTMLDivElement | null>>({})
 
@@ -167,6 +330,8 @@ export function MyOrdersClient({ orders, quotes: initialQuotes, translations: t
     if (quoteId) {
       setShowAllQuotes(true)
       setExpandedHistory(quoteId)
+      // Payment links open the payment form right away
+      if (searchParams.get("pay") === "1") setPayingQuoteId(quoteId)
       setTimeout(() => {
         const el = quoteRefs.current[quoteId]
         if (el) {
@@ -213,19 +378,36 @@ export function MyOrdersClient({ orders, quotes: initialQuotes, translations: t
     return () => clearTimeout(timer)
   }, []) // eslint-disable-line react-hooks/exhaustive-deps
 
-  const handleQuoteResponse = async (quoteId: string, action: "accept" | "decline" | "counter_offer", message?: string) => {
+  const closeCounterOffer = () => {
+    setRespondingToQuote(null)
+    setCounterOfferMessage("")
+    setCounterQuantity("")
+    setCounterDeadline("")
+  }
+
+  const openCounterOffer = (quote: QuoteData) => {
+    setRespondingToQuote(quote.id)
+    setCounterQuantity(String(quote.quantity))
+    setCounterDeadline(printConfigOf(quote).deadline ?? "")
+  }
+
+  const handleQuoteResponse = async (
+    quoteId: string,
+    action: "accept" | "decline" | "counter_offer",
+    message?: string,
+    config?: { quantity: string; deadline: string }
+  ) => {
     setIsSubmitting(true)
     try {
       const res = await fetch("/api/quotes/respond", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ quoteId, action, message }),
+        body: JSON.stringify({ quoteId, action, message, config }),
       })
       if (res.ok) {
         const updatedQuote = await res.json()
         setQuotes(prev => prev.map(q => q.id === quoteId ? { ...q, status: updatedQuote.status, userResponse: updatedQuote.userResponse } : q))
-        setRespondingToQuote(null)
-        setCounterOfferMessage("")
+        closeCounterOffer()
       }
     } catch (error) {
       console.error("Error responding to quote:", error)
@@ -234,6 +416,69 @@ export function MyOrdersClient({ orders, quotes: initialQuotes, translations: t
     }
   }
 
+  // Server data changes after router.refresh() (new files, guest orders attached)
+  useEffect(() => {
+    setQuotes(initialQuotes)
+  }, [initialQuotes])
+
+  const openUpload = (quote: QuoteData) => {
+    setUploadQuoteId(quote.id)
+    setUploads([])
+    setUploadMessage("")
+    uploadInputRef.current?.click()
+  }
+
+  const handleSendFiles = async (quoteId: string) => {
+    setIsUploading(true)
+    try {
+      const body = new FormData()
+      if (uploadMessage.trim()) body.append("message", uploadMessage.trim())
+      for (const upload of uploads) body.append("files", upload.file)
+      body.append("targets", JSON.stringify(uploads.map((upload) => upload.target)))
+
+      const res = await fetch(`/api/quotes/${quoteId}/messages`, { method: "POST", body })
+      if (!res.ok) {
+        const data = await res.json().catch(() => ({}))
+        toast.error(data.error || t.uploadFailed)
+        return
+      }
+      setUploadQuoteId(null)
+      setUploads([])
+      setUploadMessage("")
+      toast.success(t.filesSent)
+      router.refresh()
+    } catch {
+      toast.error(t.uploadFailed)
+    } finally {
+      setIsUploading(false)
+    }
+  }
+
+  const handleAttachGuestOrders = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setIsAttaching(true)
+    try {
+      const res = await fetch("/api/user/orders/attach", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ orderNumber: attachOrderNumber, accessCode: attachAccessCode }),
+      })
+      if (res.ok) {
+        const { attached } = await res.json()
+        toast.success(t.attachGuestSuccess.replace("{count}", String(attached)))
+        setAttachOrderNumber("")
+        setAttachAccessCode("")
+        router.refresh()
+      } else {
+        toast.error(t.attachGuestFailed)
+      }
+    } catch {
+      toast.error(t.attachGuestFailed)
+    } finally {
+      setIsAttaching(false)
+    }
+  }
+
   const getStatusLabel = (status: OrderData["status"]) => {
     switch (status) {
       case "PENDING": return t.statusPending
@@ -252,10 +497,25 @@ export function MyOrdersClient({ orders, quotes: initialQuotes, translations: t
       case "rejected": return t.quoteRejected
       case "counter_offer": return t.quoteCounterOffer
       case "user_declined": return t.quoteUserDeclined
+      case "paid": return t.quotePaid
+      case "in_production": return t.quoteInProduction
+      case "expired": return t.quoteExpired
       default: return status
     }
   }
 
+  const getItemName = (item: OrderItemData) => {
+    if (locale === "bg") return item.nameBg || item.nameEn
+    if (locale === "es") return item.nameEs || item.nameEn
+    return item.nameEn
+  }
+
+  const getItemColorName = (item: OrderItemData) => {
+    if (locale === "bg") return item.colorNameBg || item.colorNameEn
+    if (locale === "es") return item.colorNameEs || item.colorNameEn
+    return item.colorNameEn
+  }
+
   const formatDate = (dateString: string) => {
     return new Date(dateString).toLocaleDateString(undefined, {
       year: "numeric",
@@ -271,6 +531,25 @@ export function MyOrdersClient({ orders, quotes: initialQuotes, translations: t
 
       <Header />
 
+      {/* Shared picker for sending files to a quote */}
+      <input
+        ref={uploadInputRef}
+        type="file"
+        accept=".stl,.obj,.3mf"
+        multiple
+        className="hidden"
+        onChange={(e) => {
+          const quote = quotes.find((q) => q.id === uploadQuoteId)
+          const files = Array.from(e.target.files ?? [])
+          // A file named like an existing part is most likely its new revision
+          setUploads(files.map((file) => ({
+            file,
+            target: quote?.files.find((part) => part.name === file.name.replace(/\.[^.]+$/, ""))?.id ?? "",
+          })))
+          e.target.value = ""
+        }}
+      />
+
       <div className="relative pt-16 sm:pt-20 md:pt-24 pb-16">
         <div className="mx-auto max-w-4xl px-4">
           {/* Back link */}
@@ -288,6 +567,44 @@ export function MyOrdersClient({ orders, quotes: initialQuotes, translations: t
           </div>
 
         <div className="space-y-8">
+          {/* Guest orders placed with this email before the account existed */}
+          {guestOrderCount > 0 && (
+            <form onSubmit={handleAttachGuestOrders} className="glass rounded-2xl border border-emerald-500/20 p-4 sm:p-6">
+              <h3 className="text-lg font-semibold flex items-center gap-2 mb-2">
+                <Link2 className="w-5 h-5 text-emerald-400" />
+                {t.attachGuestTitle.replace("{count}", String(guestOrderCount))}
+              </h3>
+              <p className="text-sm text-slate-400 mb-4">{t.attachGuestDesc}</p>
+              <div className="flex flex-col sm:flex-row gap-2">
+                <input
+                  type="text"
+                  value={attachOrderNumber}
+                  onChange={e => setAttachOrderNumber(e.target.value)}
+                  placeholder={t.attachGuestPlaceholder}
+                  required
+                  className="flex-1 px-4 py-2.5 rounded-xl bg-white/5 border border-white/10 text-white font-mono placeholder:text-slate-500 focus:outline-none focus:border-emerald-500/50"
+                />
+                <input
+                  type="text"
+                  value={attachAccessCode}
+                  onChange={e => setAttachAccessCode(e.target.value)}
+                  placeholder={t.attachGuestCodePlaceholder}
+                  autoComplete="off"
+                  required
+                  className="sm:w-40 px-4 py-2.5 rounded-xl bg-white/5 border border-white/10 text-white font-mono uppercase placeholder:text-slate-500 focus:outline-none focus:border-emerald-500/50"
+                />
+                <button
+                  type="submit"
+                  disabled={isAttaching}
+                  className="px-5 py-2.5 rounded-xl bg-gradient-to-r from-emerald-500 to-cyan-500 text-white text-sm font-medium hover:shadow-lg hover:shadow-emerald-500/30 transition-all disabled:opacity-50 flex items-center justify-center gap-2"
+                >
+                  {isAttaching && <Loader2 className="w-4 h-4 animate-spin" />}
+                  {t.attachGuestButton}
+                </button>
+              </div>
+            </form>
+          )}
+
           {/* Quote Requests */}
           <div className="glass rounded-2xl border border-white/10 p-4 sm:p-6">
             <h3 className="text-lg font-semibold flex items-center gap-2 mb-6">
@@ -338,6 +655,13 @@ export function MyOrdersClient({ orders, quotes: initialQuotes, translations: t
                             )}
                           </Link>
                         )}
+                        {!quote.product && quote.files[0]?.revisions[0]?.thumbnailUrl && (
+                          <img
+                            src={quote.files[0].revisions[0].thumbnailUrl}
+                            alt={quote.files[0].name}
+                            className="w-12 h-12 md:w-14 md:h-14 rounded-lg object-contain bg-black/20 border border-white/10 shrink-0"
+                          />
+                        )}
                         <div className="flex-1 min-w-0">
                           <div className="flex items-start justify-between gap-2">
                             <div className="flex-1 min-w-0">
@@ -366,6 +690,16 @@ export function MyOrdersClient({ orders, quotes: initialQuotes, translations: t
                                   {t.quotedPrice}: €{parseFloat(quote.quotedPrice).toFixed(2)}
                                 </p>
                               )}
+                              {!quote.product && (
+                                <p className="flex items-center gap-1.5 text-xs text-slate-400 mt-1">
+                                  {quote.color && (
+                                    <span className="w-2.5 h-2.5 rounded-full border border-white/20 shrink-0" style={{ backgroundColor: quote.color.hex }} />
+                                  )}
+                                  <span className="truncate">
+                                    {configParts({ ...printConfigOf(quote), materialName: quote.material?.name ?? null, color: quote.color }, locale, t).join(" · ")}
+                                  </span>
+                                </p>
+                              )}
                             </div>
                             <span
                               className={`shrink-0 px-3 py-1 rounded-full text-xs font-medium ${
@@ -437,7 +771,12 @@ export function MyOrdersClient({ orders, quotes: initialQuotes, translations: t
                       {/* Response buttons for quoted status */}
                       {quote.status === "quoted" && (
                         <div className="mt-4 p-3 rounded-lg bg-blue-500/10 border border-blue-500/20">
-                          <p className="text-xs text-blue-400 font-medium mb-3">{t.respondToOffer}</p>
+                          <p className="text-xs text-blue-400 font-medium mb-3">
+                            {t.respondToOffer}
+                            {quote.expiresAt && (
+                              <span className="text-slate-400 font-normal"> · {t.validUntil.replace("{date}", formatDate(quote.expiresAt))}</span>
+                            )}
+                          </p>
                           {respondingToQuote === quote.id ? (
                             <div className="space-y-3">
                               <textarea
@@ -447,16 +786,46 @@ export function MyOrdersClient({ orders, quotes: initialQuotes, translations: t
                                 rows={3}
                                 className="w-full px-3 py-2 bg-white/5 border border-white/10 rounded-lg text-white text-base sm:text-sm placeholder-slate-500 focus:outline-none focus:border-blue-500/50"
                               />
+                              {!quote.product && (
+                                <div className="grid grid-cols-2 gap-2">
+                                  <label className="block">
+                                    <span className="block text-xs text-slate-400 mb-1">{t.quantity}</span>
+                                    <input
+                                      type="number"
+                                      min={1}
+                                      max={MAX_QUOTE_QUANTITY}
+                                      value={counterQuantity}
+                                      onChange={(e) => setCounterQuantity(e.target.value)}
+                                      className="w-full px-3 py-2 bg-white/5 border border-white/10 rounded-lg text-white text-base sm:text-sm focus:outline-none focus:border-blue-500/50"
+                                    />
+                                  </label>
+                                  <label className="block">
+                                    <span className="block text-xs text-slate-400 mb-1">{t.deadline}</span>
+                                    <input
+                                      type="date"
+                                      min={new Date().toISOString().slice(0, 10)}
+                                      value={counterDeadline}
+                                      onChange={(e) => setCounterDeadline(e.target.value)}
+                                      className="w-full px-3 py-2 bg-white/5 border border-white/10 rounded-lg text-white text-base sm:text-sm focus:outline-none focus:border-blue-500/50 [color-scheme:dark]"
+                                    />
+                                  </label>
+                                </div>
+                              )}
                               <div className="flex gap-2">
                                 <button
-                                  onClick={() => handleQuoteResponse(quote.id, "counter_offer", counterOfferMessage)}
-                                  disabled={isSubmitting || !counterOfferMessage.trim()}
+                                  onClick={() => handleQuoteResponse(
+                                    quote.id,
+                                    "counter_offer",
+                                    counterOfferMessage,
+                                    quote.product ? undefined : { quantity: counterQuantity, deadline: counterDeadline }
+                                  )}
+                                  disabled={isSubmitting || !counterOfferMessage.trim() || (!quote.product && !counterQuantity)}
                                   className="flex-1 px-3 py-2.5 sm:py-2 rounded-lg bg-purple-500 text-white text-sm font-medium hover:bg-purple-600 disabled:opacity-50 transition-colors"
                                 >
                                   {t.sendCounterOffer}
                                 </button>
                                 <button
-                                  onClick={() => { setRespondingToQuote(null); setCounterOfferMessage(""); }}
+                                  onClick={closeCounterOffer}
                                   className="px-3 py-2.5 sm:py-2 rounded-lg bg-white/10 text-slate-300 text-sm hover:bg-white/20 transition-colors"
                                 >
                                   {t.cancel}
@@ -473,7 +842,7 @@ export function MyOrdersClient({ orders, quotes: initialQuotes, translations: t
                                 {t.acceptOffer}
                               </button>
                               <button
-                                onClick={() => setRespondingToQuote(quote.id)}
+                                onClick={() => openCounterOffer(quote)}
                                 disabled={isSubmitting}
                                 className="w-full sm:w-auto px-4 py-2.5 sm:py-2 rounded-lg bg-purple-500 text-white text-sm font-medium hover:bg-purple-600 disabled:opacity-50 transition-colors"
                               >
@@ -491,6 +860,39 @@ export function MyOrdersClient({ orders, quotes: initialQuotes, translations: t
                         </div>
                       )}
 
+                      {/* Pay for an accepted quote */}
+                      {quote.status === "accepted" && !quote.order && quote.quotedPrice && (
+                        <div className="mt-4 p-3 rounded-lg bg-emerald-500/10 border border-emerald-500/20">
+                          {payingQuoteId === quote.id ? (
+                            <>
+                              <p className="text-xs text-emerald-400 font-medium">{t.paymentDue}</p>
+                              <QuotePaymentForm quoteId={quote.id} onCancel={() => setPayingQuoteId(null)} />
+                            </>
+                          ) : (
+                            <div className="flex flex-col sm:flex-row sm:items-center gap-2">
+                              <p className="flex-1 text-xs text-emerald-400 font-medium">{t.paymentDue}</p>
+                              <button
+                                onClick={() => setPayingQuoteId(quote.id)}
+                                className="w-full sm:w-auto flex items-center justify-center gap-2 px-4 py-2.5 sm:py-2 rounded-lg bg-emerald-500 text-white text-sm font-medium hover:bg-emerald-600 transition-colors"
+                              >
+                                <CreditCard className="w-4 h-4" />
+                                {t.payNow}
+                              </button>
+                            </div>
+                          )}
+                        </div>
+                      )}
+
+                      {/* Paid — the order shows up in the order history */}
+                      {quote.order && (
+                        <div className="mt-3 p-3 rounded-lg bg-cyan-500/10 border border-cyan-500/20">
+                          <p className="text-xs text-cyan-400 font-medium">
+                            {t.paidWithOrder.replace("{orderNumber}", quote.order.orderNumber)}
+                            {quote.paidAt && ` · ${formatDate(quote.paidAt)}`}
+                          </p>
+                        </div>
+                      )}
+
                       {/* Show user's counter offer */}
                       {quote.status === "pending" && quote.userResponse && (
                         <div className="mt-3 p-3 rounded-lg bg-purple-500/10 border border-purple-500/20">
@@ -507,6 +909,132 @@ export function MyOrdersClient({ orders, quotes: initialQuotes, translations: t
                         </div>
                       )}
 
+                      {/* Uploaded models — one per part, newest revision first */}
+                      {quote.files.length > 0 && (
+                        <div className="mt-3 space-y-2">
+                          <p className="text-xs text-slate-400 font-medium">{t.quoteFiles} ({quote.files.length})</p>
+                          {quote.files.map((file) => {
+                            const latest = file.revisions[0]
+                            if (!latest) return null
+                            return (
+                              <div key={file.id} className="rounded-lg bg-white/5 border border-white/10 px-3 py-2">
+                                <div className="flex items-center gap-2 text-xs">
+                                  {latest.thumbnailUrl && (
+                                    <img src={latest.thumbnailUrl} alt="" className="w-8 h-8 rounded object-contain bg-black/20 shrink-0" />
+                                  )}
+                                  <span className="text-white truncate">{file.name}</span>
+                                  <span className="text-slate-500 shrink-0">×{file.quantity} · v{latest.version}</span>
+                                  <div className="ml-auto flex items-center gap-2 shrink-0">
+                                    {modelFormatOf(latest.fileName) && (
+                                      <button
+                                        onClick={() => setPreviewRevisionId(previewRevisionId === latest.id ? null : latest.id)}
+                                        className="flex items-center gap-1 text-cyan-400 hover:text-cyan-300 transition-colors"
+                                      >
+                                        <Box className="w-3.5 h-3.5" />
+                                        {previewRevisionId === latest.id ? t.hide3dModel : t.view3dModel}
+                                      </button>
+                                    )}
+                                    {file.revisions.length > 1 && (
+                                      <button
+                                        onClick={() => setHistoryFileId(historyFileId === file.id ? null : file.id)}
+                                        className="text-slate-400 hover:text-white transition-colors"
+                                      >
+                                        {t.revisionHistory}
+                                      </button>
+                                    )}
+                                  </div>
+                                </div>
+                                {historyFileId === file.id && (
+                                  <ul className="mt-2 space-y-1 text-[11px]">
+                                    {file.revisions.map((revision) => (
+                                      <li key={revision.id}>
+                                        <a
+                                          href={revision.fileUrl}
+                                          target="_blank"
+                                          rel="noopener noreferrer"
+                                          className="flex items-center gap-1.5 text-slate-400 hover:text-cyan-300 transition-colors"
+                                        >
+                                          <Download className="w-3 h-3 shrink-0" />
+                                          <span className="truncate">v{revision.version} · {revision.fileName} · {revision.senderType === "user" ? t.you : t.admin} · {formatDate(revision.createdAt)}</span>
+                                        </a>
+                                      </li>
+                                    ))}
+                                  </ul>
+                                )}
+                                {previewRevisionId === latest.id && (
+                                  <div className="mt-2">
+                                    <ModelViewerWrapper source={{ url: latest.fileUrl, fileName: latest.fileName }} />
+                                  </div>
+                                )}
+                              </div>
+                            )
+                          })}
+                        </div>
+                      )}
+
+                      {/* Send corrected or additional files */}
+                      {!quote.product && OPEN_QUOTE_STATUSES.includes(quote.status) && (
+                        <div className="mt-3">
+                          {uploadQuoteId === quote.id && uploads.length > 0 ? (
+                            <div className="p-3 rounded-lg bg-cyan-500/10 border border-cyan-500/20 space-y-2">
+                              <p className="text-xs text-cyan-400 font-medium">{t.sendFiles}</p>
+                              {uploads.map((upload, index) => (
+                                <div key={`${upload.file.name}-${index}`} className="flex items-center gap-2">
+                                  <span className="flex-1 min-w-0 text-xs text-white truncate">{upload.file.name}</span>
+                                  <select
+                                    value={upload.target}
+                                    onChange={(e) => setUploads(uploads.map((u, i) => (i === index ? { ...u, target: e.target.value } : u)))}
+                                    className="max-w-[50%] px-2 py-1.5 bg-white/5 border border-white/10 rounded-lg text-base sm:text-xs text-white focus:outline-none focus:border-cyan-500/50"
+                                  >
+                                    <option value="" className="bg-slate-900" disabled={quote.files.length >= MAX_QUOTE_FILES}>{t.newPart}</option>
+                                    {quote.files.map((file) => (
+                                      <option key={file.id} value={file.id} className="bg-slate-900">{t.revisionOf.replace("{name}", file.name)}</option>
+                                    ))}
+                                  </select>
+                                  <button
+                                    onClick={() => setUploads(uploads.filter((_, i) => i !== index))}
+                                    className="p-1 rounded hover:bg-white/10 transition-colors"
+                                  >
+                                    <X className="w-3.5 h-3.5 text-slate-400" />
+                                  </button>
+                                </div>
+                              ))}
+                              <textarea
+                                value={uploadMessage}
+                                onChange={(e) => setUploadMessage(e.target.value)}
+                                placeholder={t.filesMessagePlaceholder}
+                                rows={2}
+                                className="w-full px-3 py-2 bg-white/5 border border-white/10 rounded-lg text-white text-base sm:text-sm placeholder-slate-500 focus:outline-none focus:border-cyan-500/50"
+                              />
+                              <div className="flex gap-2">
+                                <button
+                                  onClick={() => handleSendFiles(quote.id)}
+                                  disabled={isUploading}
+                                  className="flex-1 flex items-center justify-center gap-2 px-3 py-2.5 sm:py-2 rounded-lg bg-cyan-500 text-white text-sm font-medium hover:bg-cyan-600 disabled:opacity-50 transition-colors"
+                                >
+                                  {isUploading && <Loader2 className="w-4 h-4 animate-spin" />}
+                                  {t.sendFilesButton}
+                                </button>
+                                <button
+                                  onClick={() => { setUploadQuoteId(null); setUploads([]) }}
+                                  className="px-3 py-2.5 sm:py-2 rounded-lg bg-white/10 text-slate-300 text-sm hover:bg-white/20 transition-colors"
+                                >
+                                  {t.cancel}
+                                </button>
+                              </div>
+                            </div>
+                          ) : (
+                            <button
+                              onClick={() => openUpload(quote)}
+                              className="flex items-center gap-1.5 text-xs text-cyan-400 hover:text-cyan-300 transition-colors"
+                            >
+                              <Upload className="w-3.5 h-3.5" />
+                              {t.chooseFiles}
+                            </button>
+                          )}
+                        </div>
+                      )}
+
                       {/* Message History - Expandable */}
                       {quote.messages && quote.messages.length > 0 && (
                         <div className="mt-3 pt-3 border-t border-white/10">
@@ -555,6 +1083,17 @@ export function MyOrdersClient({ orders, quotes: initialQuotes, translations: t
                                         <p key={i}>{line}</p>
                                       ))}
                                     </div>
+                                    {msg.revisions?.map((revision) => (
+                                      <p key={revision.id} className="mt-0.5 flex items-center gap-1 text-[11px] text-cyan-300">
+                                        <Paperclip className="w-3 h-3 shrink-0" />
+                                        <span className="truncate">{revision.file.name} v{revision.version}</span>
+                                      </p>
+                                    ))}
+                                    {msg.config && (
+                                      <p className="mt-0.5 text-[11px] text-slate-400 leading-snug">
+                                        {configParts(msg.config, locale, t).join(" · ")}
+                                      </p>
+                                    )}
                                   </div>
                                 </div>
                               ))}
@@ -610,7 +1149,9 @@ export function MyOrdersClient({ orders, quotes: initialQuotes, translations: t
                       <div className="flex items-start justify-between gap-4 mb-2">
                         <div className="flex items-start gap-2 flex-1 min-w-0">
                           <span className="text-xs text-emerald-400 font-mono shrink-0 mt-0.5">{order.orderNumber}</span>
-                          <p className="text-white line-clamp-2">{order.description}</p>
+                          {order.items.length === 0 && (
+                            <p className="text-white line-clamp-2">{order.description}</p>
+                          )}
                         </div>
                         <span
                           className={`shrink-0 px-3 py-1 rounded-full text-xs font-medium ${statusColors[order.status]}`}
@@ -618,6 +1159,100 @@ export function MyOrdersClient({ orders, quotes: initialQuotes, translations: t
                           {getStatusLabel(order.status)}
                         </span>
                       </div>
+                      {order.items.length > 0 && (
+                        <div className="mb-3 space-y-2">
+                          {order.items.map((item) => {
+                            const colorName = getItemColorName(item)
+                            return (
+                              <div key={item.id} className="flex items-center justify-between gap-3 text-sm">
+                                <div className="flex items-center gap-2 min-w-0">
+                                  {item.colorHex && (
+                                    <span
+                                      className="w-3 h-3 rounded-full border border-white/20 shrink-0"
+                                      style={{ backgroundColor: item.colorHex }}
+                                    />
+                                  )}
+                                  <p className="text-white truncate">
+                                    {getItemName(item)}
+                                    {(item.packageLabel || colorName) && (
+                                      <span className="text-slate-400"> · {[item.packageLabel, colorName].filter(Boolean).join(", ")}</span>
+                                    )}
+                                    {item.fileType === "digital" && (
+                                      <span className="text-slate-500"> · {t.orderDigital}</span>
+                                    )}
+                                    {item.refundedQuantity > 0 && (
+                                      <span className="text-red-400"> · {t.orderRefundedQty.replace("{count}", String(item.refundedQuantity))}</span>
+                                    )}
+                                  </p>
+                                </div>
+                                <span className="shrink-0 text-slate-300">
+                                  {item.quantity} × €{parseFloat(item.unitPrice).toFixed(2)}
+                                  <span className="ml-2 font-medium text-white">€{parseFloat(item.lineTotal).toFixed(2)}</span>
+                                </span>
+                              </div>
+                            )
+                          })}
+                          {order.total && (
+                            <div className="pt-2 mt-2 border-t border-white/5 space-y-1 text-sm">
+                              {order.discountAmount && parseFloat(order.discountAmount) > 0 && (
+                                <>
+                                  <div className="flex justify-between text-slate-400">
+                                    <span>{t.orderSubtotal}</span>
+                                    <span>€{parseFloat(order.subtotal ?? order.total).toFixed(2)}</span>
+                                  </div>
+                                  <div className="flex justify-between text-emerald-400">
+                                    <span>{t.orderDiscount}</span>
+                                    <span>-€{parseFloat(order.discountAmount).toFixed(2)}</span>
+                                  </div>
+                                </>
+                              )}
+                              {order.shippingFee !== null && (
+                                <div className="flex justify-between text-slate-400">
+                                  <span>{t.orderShipping}{order.shippingMethodName ? ` (${order.shippingMethodName})` : ""}</span>
+                                  <span>€{parseFloat(order.shippingFee).toFixed(2)}</span>
+                                </div>
+                              )}
+                              <div className="flex justify-between font-semibold text-white">
+                                <span>{t.orderTotal}</span>
+                                <span>€{parseFloat(order.total).toFixed(2)}</span>
+                              </div>
+                              {order.reverseCharge ? (
+                                <p className="text-xs text-slate-500">{t.orderReverseCharge}</p>
+                              ) : order.vatAmount && parseFloat(order.vatAmount) > 0 && (
+                                <div className="flex justify-between text-xs text-slate-500">
+                                  <span>{t.orderVat}</span>
+                                  <span>€{parseFloat(order.vatAmount).toFixed(2)}</span>
+                                </div>
+                              )}
+                              {order.refunds.map((refund) => (
+                                <div key={refund.id} className="flex justify-between text-red-400">
+                                  <span>
+                                    {t.orderRefund} · {formatDate(refund.createdAt)}
+                                    {refund.status === "pending" && <span className="text-slate-500"> ({t.orderRefundPending})</span>}
+                                  </span>
+                                  <span>-€{parseFloat(refund.amount).toFixed(2)}</span>
+                                </div>
+                              ))}
+                              {order.invoices.length > 0 && (
+                                <div className="flex flex-wrap gap-x-4 gap-y-1 pt-1">
+                                  {order.invoices.map((invoice) => (
+                                    <a
+                                      key={invoice.id}
+                                      href={`/api/invoices/${invoice.id}`}
+                                      target="_blank"
+                                      rel="noopener noreferrer"
+                                      className="inline-flex items-center gap-1 text-xs text-emerald-400 hover:text-emerald-300"
+                                    >
+                                      <FileText className="w-3.5 h-3.5" />
+                                      {invoice.type === "credit_note" ? t.orderCreditNote : t.orderInvoice} {invoice.number}
+                                    </a>
+                                  ))}
+                                </div>
+                              )}
+                            </div>
+                          )}
+                        </div>
+                      )}
                       <p className="text-xs text-slate-500">
                         {formatDate(order.createdAt)}
                       </p>
@@ -0,0 +1,179 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { useLocale, useTranslations } from "next-intl"
+import { CreditCard, Loader2 } from "lucide-react"
+import { toast } from "sonner"
+import { CartShippingStep, EMPTY_ADDRESS, isAddressComplete, type CheckoutAddress } from "@/app/components/CartShippingStep"
+import type { QuotePaymentQuote } from "@/lib/quotePayment"
+
+interface QuotePaymentFormProps {
+  quoteId: string
+  onCancel: () => void
+}
+
+/** Delivery address, shipping method and totals for paying an accepted quote through Stripe */
+export function QuotePaymentForm({ quoteId, onCancel }: QuotePaymentFormProps) {
+  const t = useTranslations("profile")
+  const tCart = useTranslations("cart")
+  const locale = useLocale()
+  const [address, setAddress] = useState<CheckoutAddress>(EMPTY_ADDRESS)
+  const [addressId, setAddressId] = useState<string | null>(null)
+  const [saveAddress, setSaveAddress] = useState(true)
+  const [vatNumber, setVatNumber] = useState("")
+  const [shippingMethodId, setShippingMethodId] = useState<string | null>(null)
+  const [payment, setPayment] = useState<QuotePaymentQuote | null>(null)
+  const [paymentLoading, setPaymentLoading] = useState(false)
+  const [submitting, setSubmitting] = useState(false)
+
+  // Totals for the destination — same rules as /api/checkout/quote
+  useEffect(() => {
+    let cancelled = false
+    setPaymentLoading(true)
+    fetch(`/api/quotes/${quoteId}/payment`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ country: address.country || null, vatNumber: vatNumber || null, shippingMethodId }),
+    })
+      .then(async (r) => {
+        const data = await r.json()
+        if (cancelled) return
+        if (!r.ok) {
+          toast.error(data.error || t("paymentFailed"))
+          return
+        }
+        const next = data as QuotePaymentQuote
+        setPayment(next)
+        setShippingMethodId((prev) =>
+          next.shipping.options.some((o) => o.id === prev) ? prev : (next.shipping.options[0]?.id ?? null)
+        )
+      })
+      .catch(() => {})
+      .finally(() => { if (!cancelled) setPaymentLoading(false) })
+    return () => { cancelled = true }
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [quoteId, address.country, vatNumber, shippingMethodId])
+
+  const handlePay = async () => {
+    if (!isAddressComplete(address)) {
+      toast.error(tCart("addressIncomplete"))
+      return
+    }
+    if (!payment?.shipping.selected) {
+      toast.error(tCart("selectShippingMethod"))
+      return
+    }
+    setSubmitting(true)
+    try {
+      if (!addressId && saveAddress) {
+        // Save to the address book — payment continues even if this fails
+        await fetch("/api/user/addresses", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify(address),
+        }).catch(() => {})
+      }
+      const res = await fetch("/api/checkout/quote", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          quoteId,
+          shippingAddress: address,
+          shippingMethodId: payment.shipping.selected.id,
+          ...(vatNumber && !payment.tax.vatNumberError ? { vatNumber } : {}),
+        }),
+      })
+      const data = await res.json()
+      if (!res.ok) {
+        toast.error(data.error || t("paymentFailed"))
+        return
+      }
+      window.location.href = data.url
+    } catch {
+      toast.error(t("paymentFailed"))
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  const currency = payment?.currency ?? "EUR"
+
+  return (
+    <div className="mt-3 rounded-lg bg-emerald-500/5 border border-emerald-500/20">
+      <CartShippingStep
+        locale={locale}
+        currency={currency}
+        address={address}
+        addressId={addressId}
+        onAddressChange={(next, id) => {
+          setAddress(next)
+          setAddressId(id)
+        }}
+        saveAddress={saveAddress}
+        onSaveAddressChange={setSaveAddress}
+        options={payment?.shipping.options ?? null}
+        optionsLoading={paymentLoading}
+        selectedMethodId={shippingMethodId}
+        onSelectMethod={setShippingMethodId}
+      />
+
+      <div className="px-5 pb-5 space-y-3">
+        <div>
+          <input
+            type="text"
+            value={vatNumber}
+            onChange={(e) => setVatNumber(e.target.value.toUpperCase())}
+            placeholder={tCart("vatNumberPlaceholder")}
+            className="w-full px-3 py-2 rounded-xl bg-white/5 border border-white/10 text-white text-base sm:text-sm placeholder:text-slate-500 focus:outline-none focus:border-emerald-500/50"
+          />
+          {payment?.tax.vatNumberError && vatNumber ? (
+            <p className="text-xs text-red-400 mt-1">{tCart("vatNumberInvalid")}</p>
+          ) : (
+            <p className="text-[11px] text-slate-500 mt-1">{tCart("vatNumberHint")}</p>
+          )}
+        </div>
+
+        {payment && (
+          <div className="space-y-1 text-sm">
+            <div className="flex justify-between text-slate-400">
+              <span>{t("quotedPrice")}</span>
+              <span>{payment.price.toFixed(2)} {currency}</span>
+            </div>
+            {payment.shipping.selected && (
+              <div className="flex justify-between text-slate-400">
+                <span>{t("orderShipping")}</span>
+                <span>{payment.shippingFee.toFixed(2)} {currency}</span>
+              </div>
+            )}
+            <div className="flex justify-between text-white font-semibold">
+              <span>{t("orderTotal")}</span>
+              <span>{payment.total.toFixed(2)} {currency}</span>
+            </div>
+            {payment.tax.reverseCharge ? (
+              <p className="text-[11px] text-slate-500">{t("orderReverseCharge")}</p>
+            ) : payment.vatAmount > 0 && (
+              <p className="text-[11px] text-slate-500 text-right">{t("orderVat")} {payment.vatAmount.toFixed(2)} {currency}</p>
+            )}
+          </div>
+        )}
+
+        <div className="flex gap-2">
+          <button
+            onClick={handlePay}
+            disabled={submitting || paymentLoading || !payment?.shipping.selected}
+            className="flex-1 flex items-center justify-center gap-2 px-3 py-2.5 sm:py-2 rounded-lg bg-emerald-500 text-white text-sm font-medium hover:bg-emerald-600 disabled:opacity-50 transition-colors"
+          >
+            {submitting ? <Loader2 className="w-4 h-4 animate-spin" /> : <CreditCard className="w-4 h-4" />}
+            {t("payNow")}
+          </button>
+          <button
+            onClick={onCancel}
+            className="px-3 py-2.5 sm:py-2 rounded-lg bg-white/10 text-slate-300 text-sm hover:bg-white/20 transition-colors"
+          >
+            {t("cancel")}
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
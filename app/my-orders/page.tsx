@@ -4,6 +4,7 @@ import { getTranslations } from "next-intl/server"
 import { auth } from "@/auth"
 import prisma from "@/lib/prisma"
 import { buildProductUrl } from "@/lib/productUrl"
+import { countGuestOrders } from "@/lib/orders"
 import { MyOrdersClient } from "./MyOrdersClient"
 import type { Metadata } from "next"
 
@@ -38,10 +39,53 @@ export default async function MyOrdersPage() {
       orderNumber: true,
       description: true,
       status: true,
+      subtotal: true,
+      discountAmount: true,
+      total: true,
+      currency: true,
+      shippingMethodName: true,
+      shippingFee: true,
+      vatAmount: true,
+      reverseCharge: true,
+      refundedAmount: true,
       createdAt: true,
+      items: {
+        orderBy: { createdAt: "asc" },
+        select: {
+          id: true,
+          productId: true,
+          nameBg: true,
+          nameEn: true,
+          nameEs: true,
+          packageLabel: true,
+          colorNameBg: true,
+          colorNameEn: true,
+          colorNameEs: true,
+          colorHex: true,
+          fileType: true,
+          quantity: true,
+          unitPrice: true,
+          bulkDiscount: true,
+          couponDiscount: true,
+          lineTotal: true,
+          refundedQuantity: true,
+        },
+      },
+      refunds: {
+        where: { status: { not: "failed" } },
+        orderBy: { createdAt: "asc" },
+        select: { id: true, amount: true, status: true, createdAt: true },
+      },
+      invoices: {
+        where: { number: { not: null } },
+        orderBy: { issuedAt: "asc" },
+        select: { id: true, type: true, number: true },
+      },
     },
   })
 
+  const guestOrderCount = await countGuestOrders(user.email)
+
   const quotes = await prisma.quoteRequest.findMany({
     where: {
       // userId preferred; email fallback for legacy quotes created before userId was added
@@ -61,6 +105,30 @@ export default async function MyOrdersPage() {
       userResponse: true,
       viewedAt: true,
       createdAt: true,
+      paidAt: true,
+      expiresAt: true,
+      order: { select: { orderNumber: true } },
+      files: {
+        orderBy: [{ order: "asc" }, { createdAt: "asc" }],
+        select: {
+          id: true,
+          name: true,
+          quantity: true,
+          revisions: {
+            orderBy: { version: "desc" },
+            select: { id: true, version: true, fileName: true, fileUrl: true, thumbnailUrl: true, senderType: true, createdAt: true },
+          },
+        },
+      },
+      materialId: true,
+      colorId: true,
+      layerHeight: true,
+      infill: true,
+      quantity: true,
+      finish: true,
+      deadline: true,
+      material: { select: { name: true } },
+      color: { select: { nameEn: true, nameBg: true, nameEs: true, hex: true } },
       product: {
         select: {
           nameEn: true,
@@ -80,7 +148,9 @@ export default async function MyOrdersPage() {
           senderType: true,
           message: true,
           quotedPrice: true,
+          config: true,
           createdAt: true,
+          revisions: { select: { id: true, version: true, fileName: true, file: { select: { name: true } } } },
         },
       },
     },
@@ -189,6 +259,56 @@ export default async function MyOrdersPage() {
     msgCounterOffer: t("msgCounterOffer"),
     msgPrice: t.raw("msgPrice"),
     msgCoupon: t.raw("msgCoupon"),
+    orderSubtotal: t("orderSubtotal"),
+    orderDiscount: t("orderDiscount"),
+    orderShipping: t("orderShipping"),
+    orderVat: t("orderVat"),
+    orderReverseCharge: t("orderReverseCharge"),
+    orderTotal: t("orderTotal"),
+    orderRefund: t("orderRefund"),
+    orderRefundPending: t("orderRefundPending"),
+    orderRefundedQty: t.raw("orderRefundedQty"),
+    orderDigital: t("orderDigital"),
+    orderInvoice: t("orderInvoice"),
+    orderCreditNote: t("orderCreditNote"),
+    attachGuestTitle: t.raw("attachGuestTitle"),
+    attachGuestDesc: t("attachGuestDesc"),
+    attachGuestPlaceholder: t("attachGuestPlaceholder"),
+    attachGuestCodePlaceholder: t("attachGuestCodePlaceholder"),
+    attachGuestButton: t("attachGuestButton"),
+    attachGuestSuccess: t.raw("attachGuestSuccess"),
+    attachGuestFailed: t("attachGuestFailed"),
+    view3dModel: t("view3dModel"),
+    hide3dModel: t("hide3dModel"),
+    quantity: t("quantity"),
+    deadline: t("deadline"),
+    infillValue: t.raw("infillValue"),
+    deadlineValue: t.raw("deadlineValue"),
+    finish_sanding: t("finish_sanding"),
+    finish_primer: t("finish_primer"),
+    finish_painting: t("finish_painting"),
+    finish_vapor_smoothing: t("finish_vapor_smoothing"),
+    quoteFiles: t("quoteFiles"),
+    revisionHistory: t("revisionHistory"),
+    sendFiles: t("sendFiles"),
+    chooseFiles: t("chooseFiles"),
+    newPart: t("newPart"),
+    revisionOf: t.raw("revisionOf"),
+    filesMessagePlaceholder: t("filesMessagePlaceholder"),
+    sendFilesButton: t("sendFilesButton"),
+    filesSent: t("filesSent"),
+    uploadFailed: t("uploadFailed"),
+    msgFiles: t("msgFiles"),
+    quotePaid: t("quotePaid"),
+    quoteInProduction: t("quoteInProduction"),
+    payNow: t("payNow"),
+    paymentDue: t("paymentDue"),
+    paidWithOrder: t.raw("paidWithOrder"),
+    msgPaymentLink: t.raw("msgPaymentLink"),
+    msgPaid: t.raw("msgPaid"),
+    quoteExpired: t("quoteExpired"),
+    validUntil: t.raw("validUntil"),
+    msgExpired: t("msgExpired"),
   }
 
   return (
@@ -196,6 +316,7 @@ export default async function MyOrdersPage() {
       <MyOrdersClient
         orders={JSON.parse(JSON.stringify(orders))}
         quotes={JSON.parse(JSON.stringify(quotesWithCoupons))}
+        guestOrderCount={guestOrderCount}
         translations={translations}
       />
     </Suspense>
@@ -0,0 +1,299 @@
+"use client"
+
+import { useState } from "react"
+import { useLocale } from "next-intl"
+import Link from "next/link"
+import { Package, ArrowLeft, Search, Loader2 } from "lucide-react"
+import { Header } from "@/app/components/Header"
+import { BackgroundOrbs } from "@/app/components/BackgroundOrbs"
+
+interface LookupItem {
+  id: string
+  nameBg: string
+  nameEn: string
+  nameEs: string
+  packageLabel: string | null
+  colorNameBg: string | null
+  colorNameEn: string | null
+  colorNameEs: string | null
+  colorHex: string | null
+  fileType: string
+  quantity: number
+  unitPrice: string
+  lineTotal: string
+  refundedQuantity: number
+}
+
+interface LookupOrder {
+  orderNumber: string
+  status: "PENDING" | "IN_PROGRESS" | "COMPLETED" | "CANCELLED"
+  subtotal: string | null
+  discountAmount: string | null
+  total: string | null
+  currency: string
+  shippingMethodName: string | null
+  shippingFee: string | null
+  vatAmount: string | null
+  reverseCharge: boolean
+  createdAt: string
+  items: LookupItem[]
+  refunds: { id: string; amount: string; status: "pending" | "succeeded"; createdAt: string }[]
+}
+
+interface OrderLookupClientProps {
+  initialOrderNumber: string
+  initialAccessCode: string
+  translations: {
+    title: string
+    subtitle: string
+    orderNumber: string
+    accessCode: string
+    submit: string
+    notFound: string
+    tooManyRequests: string
+    error: string
+    placedOn: string
+    statusPending: string
+    statusInProgress: string
+    statusCompleted: string
+    statusCancelled: string
+    orderSubtotal: string
+    orderDiscount: string
+    orderShipping: string
+    orderVat: string
+    orderReverseCharge: string
+    orderTotal: string
+    orderRefund: string
+    orderRefundPending: string
+    orderRefundedQty: string
+    orderDigital: string
+  }
+}
+
+const statusColors = {
+  PENDING: "bg-amber-500/20 text-amber-400",
+  IN_PROGRESS: "bg-cyan-500/20 text-cyan-400",
+  COMPLETED: "bg-emerald-500/20 text-emerald-400",
+  CANCELLED: "bg-red-500/20 text-red-400",
+}
+
+const inputClass = "w-full px-4 py-3 rounded-xl bg-white/5 border border-white/10 text-white placeholder:text-slate-500 focus:outline-none focus:border-emerald-500/50"
+
+export function OrderLookupClient({ initialOrderNumber, initialAccessCode, translations: t }: OrderLookupClientProps) {
+  const locale = useLocale()
+  const [orderNumber, setOrderNumber] = useState(initialOrderNumber)
+  const [accessCode, setAccessCode] = useState(initialAccessCode)
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [order, setOrder] = useState<LookupOrder | null>(null)
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setLoading(true)
+    setError(null)
+    setOrder(null)
+    try {
+      const res = await fetch("/api/orders/lookup", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ orderNumber, accessCode }),
+      })
+      if (res.ok) {
+        setOrder(await res.json())
+      } else {
+        setError(res.status === 429 ? t.tooManyRequests : res.status === 404 || res.status === 400 ? t.notFound : t.error)
+      }
+    } catch {
+      setError(t.error)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const getStatusLabel = (status: LookupOrder["status"]) => {
+    switch (status) {
+      case "PENDING": return t.statusPending
+      case "IN_PROGRESS": return t.statusInProgress
+      case "COMPLETED": return t.statusCompleted
+      case "CANCELLED": return t.statusCancelled
+    }
+  }
+
+  const getItemName = (item: LookupItem) => {
+    if (locale === "bg") return item.nameBg || item.nameEn
+    if (locale === "es") return item.nameEs || item.nameEn
+    return item.nameEn
+  }
+
+  const getItemColorName = (item: LookupItem) => {
+    if (locale === "bg") return item.colorNameBg || item.colorNameEn
+    if (locale === "es") return item.colorNameEs || item.colorNameEn
+    return item.colorNameEn
+  }
+
+  const formatDate = (dateString: string) => {
+    return new Date(dateString).toLocaleDateString(undefined, {
+      year: "numeric",
+      month: "long",
+      day: "numeric",
+    })
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-950 via-slate-900 to-emerald-950 text-white overflow-clip">
+      <BackgroundOrbs />
+
+      <Header />
+
+      <div className="relative pt-16 sm:pt-20 md:pt-24 pb-16">
+        <div className="mx-auto max-w-2xl px-4">
+          {/* Back link */}
+          <Link
+            href="/"
+            className="inline-flex items-center justify-center w-10 h-10 sm:w-9 sm:h-9 rounded-xl bg-white/5 text-slate-400 hover:bg-emerald-500/20 hover:text-emerald-400 transition-all mb-3 sm:mb-8"
+          >
+            <ArrowLeft className="w-5 h-5" />
+          </Link>
+
+          {/* Page Header */}
+          <div className="text-center mb-12">
+            <h1 className="text-2xl sm:text-3xl md:text-4xl font-bold bg-gradient-to-r from-white via-slate-200 to-slate-400 bg-clip-text text-transparent mb-3">{t.title}</h1>
+            <p className="text-slate-400">{t.subtitle}</p>
+          </div>
+
+          <div className="space-y-8">
+            <form onSubmit={handleSubmit} className="glass rounded-2xl border border-white/10 p-4 sm:p-6 space-y-3">
+              <input
+                type="text"
+                value={orderNumber}
+                onChange={e => setOrderNumber(e.target.value)}
+                placeholder={t.orderNumber}
+                required
+                className={`${inputClass} font-mono`}
+              />
+              <input
+                type="text"
+                value={accessCode}
+                onChange={e => setAccessCode(e.target.value)}
+                placeholder={t.accessCode}
+                autoComplete="off"
+                required
+                className={`${inputClass} font-mono uppercase`}
+              />
+              {error && <p className="text-sm text-red-400">{error}</p>}
+              <button
+                type="submit"
+                disabled={loading}
+                className="w-full py-3 rounded-xl bg-gradient-to-r from-emerald-500 to-cyan-500 text-white font-medium hover:shadow-lg hover:shadow-emerald-500/30 transition-all disabled:opacity-50 flex items-center justify-center gap-2"
+              >
+                {loading ? <Loader2 className="w-4 h-4 animate-spin" /> : <Search className="w-4 h-4" />}
+                {t.submit}
+              </button>
+            </form>
+
+            {order && (
+              <div className="glass rounded-2xl border border-white/10 p-4 sm:p-6">
+                <div className="flex items-start justify-between gap-4 mb-4">
+                  <div className="flex items-center gap-2 min-w-0">
+                    <Package className="w-5 h-5 text-emerald-400 shrink-0" />
+                    <span className="text-emerald-400 font-mono">{order.orderNumber}</span>
+                  </div>
+                  <span className={`shrink-0 px-3 py-1 rounded-full text-xs font-medium ${statusColors[order.status]}`}>
+                    {getStatusLabel(order.status)}
+                  </span>
+                </div>
+
+                <div className="space-y-2">
+                  {order.items.map((item) => {
+                    const colorName = getItemColorName(item)
+                    return (
+                      <div key={item.id} className="flex items-center justify-between gap-3 text-sm">
+                        <div className="flex items-center gap-2 min-w-0">
+                          {item.colorHex && (
+                            <span
+                              className="w-3 h-3 rounded-full border border-white/20 shrink-0"
+                              style={{ backgroundColor: item.colorHex }}
+                            />
+                          )}
+                          <p className="text-white truncate">
+                            {getItemName(item)}
+                            {(item.packageLabel || colorName) && (
+                              <span className="text-slate-400"> · {[item.packageLabel, colorName].filter(Boolean).join(", ")}</span>
+                            )}
+                            {item.fileType === "digital" && (
+                              <span className="text-slate-500"> · {t.orderDigital}</span>
+                            )}
+                            {item.refundedQuantity > 0 && (
+                              <span className="text-red-400"> · {t.orderRefundedQty.replace("{count}", String(item.refundedQuantity))}</span>
+                            )}
+                          </p>
+                        </div>
+                        <span className="shrink-0 text-slate-300">
+                          {item.quantity} × €{parseFloat(item.unitPrice).toFixed(2)}
+                          <span className="ml-2 font-medium text-white">€{parseFloat(item.lineTotal).toFixed(2)}</span>
+                        </span>
+                      </div>
+                    )
+                  })}
+
+                  {order.total && (
+                    <div className="pt-2 mt-2 border-t border-white/5 space-y-1 text-sm">
+                      {order.discountAmount && parseFloat(order.discountAmount) > 0 && (
+                        <>
+                          <div className="flex justify-between text-slate-400">
+                            <span>{t.orderSubtotal}</span>
+                            <span>€{parseFloat(order.subtotal ?? order.total).toFixed(2)}</span>
+                          </div>
+                          <div className="flex justify-between text-emerald-400">
+                            <span>{t.orderDiscount}</span>
+                            <span>-€{parseFloat(order.discountAmount).toFixed(2)}</span>
+                          </div>
+                        </>
+                      )}
+                      {order.shippingFee !== null && (
+                        <div className="flex justify-between text-slate-400">
+                          <span>{t.orderShipping}{order.shippingMethodName ? ` (${order.shippingMethodName})` : ""}</span>
+                          <span>€{parseFloat(order.shippingFee).toFixed(2)}</span>
+                        </div>
+                      )}
+                      <div className="flex justify-between font-semibold text-white">
+                        <span>{t.orderTotal}</span>
+                        <span>€{parseFloat(order.total).toFixed(2)}</span>
+                      </div>
+                      {order.reverseCharge ? (
+                        <p className="text-xs text-slate-500">{t.orderReverseCharge}</p>
+                      ) : order.vatAmount && parseFloat(order.vatAmount) > 0 && (
+                        <div className="flex justify-between text-xs text-slate-500">
+                          <span>{t.orderVat}</span>
+                          <span>€{parseFloat(order.vatAmount).toFixed(2)}</span>
+                        </div>
+                      )}
+                      {order.refunds.map((refund) => (
+                        <div key={refund.id} className="flex justify-between text-red-400">
+                          <span>
+                            {t.orderRefund} · {formatDate(refund.createdAt)}
+                            {refund.status === "pending" && <span className="text-slate-500"> ({t.orderRefundPending})</span>}
+                          </span>
+                          <span>-€{parseFloat(refund.amount).toFixed(2)}</span>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </div>
+
+                <p className="text-xs text-slate-500 mt-3">{t.placedOn} {formatDate(order.createdAt)}</p>
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+
+      {/* Footer */}
+      <footer className="glass border-t border-white/10 py-8 mt-12">
+        <div className="mx-auto max-w-6xl px-4 text-center text-slate-400">
+          <p>&copy; 2024 digital4d. All rights reserved.</p>
+        </div>
+      </footer>
+    </div>
+  )
+}
@@ -0,0 +1,52 @@
+import { getTranslations } from "next-intl/server"
+import { OrderLookupClient } from "./OrderLookupClient"
+import type { Metadata } from "next"
+
+export const metadata: Metadata = {
+  title: "Order Status",
+  robots: { index: false, follow: false },
+}
+
+interface PageProps {
+  searchParams: Promise<{ order?: string; code?: string }>
+}
+
+export default async function OrderLookupPage({ searchParams }: PageProps) {
+  const { order, code } = await searchParams
+  const t = await getTranslations("orderLookup")
+  const p = await getTranslations("profile")
+
+  const translations = {
+    title: t("title"),
+    subtitle: t("subtitle"),
+    orderNumber: t("orderNumber"),
+    accessCode: t("accessCode"),
+    submit: t("submit"),
+    notFound: t("notFound"),
+    tooManyRequests: t("tooManyRequests"),
+    error: t("error"),
+    placedOn: t("placedOn"),
+    statusPending: p("statusPending"),
+    statusInProgress: p("statusInProgress"),
+    statusCompleted: p("statusCompleted"),
+    statusCancelled: p("statusCancelled"),
+    orderSubtotal: p("orderSubtotal"),
+    orderDiscount: p("orderDiscount"),
+    orderShipping: p("orderShipping"),
+    orderVat: p("orderVat"),
+    orderReverseCharge: p("orderReverseCharge"),
+    orderTotal: p("orderTotal"),
+    orderRefund: p("orderRefund"),
+    orderRefundPending: p("orderRefundPending"),
+    orderRefundedQty: p.raw("orderRefundedQty"),
+    orderDigital: p("orderDigital"),
+  }
+
+  return (
+    <OrderLookupClient
+      initialOrderNumber={typeof order === "string" ? order : ""}
+      initialAccessCode={typeof code === "string" ? code : ""}
+      translations={translations}
+    />
+  )
+}
@@ -164,7 +164,7 @@ export default async function Home() {
             category: product.category,
             categoryColor: category?.color || "emerald",
             categoryName,
-            image: product.variants.find(v => ["in_stock", "pre_order"].includes(v.status))?.image || product.image,
+            image: product.variants.find(v => ["in_stock", "pre_order"].includes(v.status))?.image || product.image || product.fileThumbnail,
             status: product.status,
             featured: product.featured,
             isNew: product.createdAt >= newCutoff,
@@ -242,7 +242,7 @@ export default async function Home() {
             priceType: p.priceType,
             fileType: p.fileType,
             status: p.status,
-            image: p.image,
+            image: p.image || p.fileThumbnail,
             gallery: p.gallery,
             featured: p.featured,
             bestSeller: p.bestSeller,
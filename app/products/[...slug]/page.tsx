@@ -15,6 +15,8 @@ import { ProductPanelBadges } from "@/app/components/ProductBadges"
 import { computeHasBulkDiscount } from "@/lib/badgeHelpers"
 import { RelatedProductsCarousel, type RelatedCard } from "@/app/components/RelatedProductsCarousel"
 import { sanitizeHtml } from "@/lib/sanitize"
+import { modelFormatOf } from "@/lib/modelFormats"
+import { getTaxContext, getVatRate, countryFromHeaders } from "@/lib/vat"
 import type { Product } from "@prisma/client"
 import type { Metadata } from "next"
 
@@ -92,6 +94,7 @@ export default async function ProductDetailPage({ params, searchParams }: PagePr
     const nonce = (await headers()).get("x-nonce") || ""
     const couponCode = typeof resolvedSearchParams.coupon === "string" ? resolvedSearchParams.coupon : undefined
     const sizeParam = typeof resolvedSearchParams.weight === "string" ? resolvedSearchParams.weight : undefined
+    const colorParam = typeof resolvedSearchParams.color === "string" ? resolvedSearchParams.color : undefined
     const t = await getTranslations()
     const locale = await getLocale()
 
@@ -131,6 +134,7 @@ export default async function ProductDetailPage({ params, searchParams }: PagePr
         const params = new URLSearchParams()
         if (couponCode) params.set("coupon", couponCode)
         if (sizeParam) params.set("weight", sizeParam)
+        if (colorParam) params.set("color", colorParam)
         const queryString = params.toString() ? `?${params.toString()}` : ""
         redirect(canonicalPath + queryString)
     }
@@ -187,6 +191,17 @@ export default async function ProductDetailPage({ params, searchParams }: PagePr
         isWishlisted = !!wishlistItem
     }
 
+    // VAT note for the visitor's country — checkout applies the delivery country's rate
+    const taxContext = await getTaxContext({ country: countryFromHeaders(await headers()) })
+    const vatRate = getVatRate(taxContext, product.taxClass)
+    const vatNote = product.taxClass === "zero"
+        ? t("products.vatExempt")
+        : taxContext.exportSale
+            ? t("products.vatFreeExport")
+            : taxContext.pricesIncludeVat
+                ? t("products.inclVat", { rate: vatRate })
+                : t("products.plusVat", { rate: vatRate })
+
     // Fetch related products: manual selection or auto fallback (same category)
     let relatedProducts
     if (product.relatedProductIds && product.relatedProductIds.length > 0) {
@@ -227,10 +242,10 @@ export default async function ProductDetailPage({ params, searchParams }: PagePr
         })
     }
 
-    // Compute display images for related products (first available variant image, or main product image)
+    // Compute display images for related products (first available variant image, main product image, or the model preview)
     const relatedForDisplay = relatedProducts.map(p => ({
         ...p,
-        image: p.variants.find(v => ["in_stock", "pre_order"].includes(v.status))?.image || p.image,
+        image: p.variants.find(v => ["in_stock", "pre_order"].includes(v.status))?.image || p.image || p.fileThumbnail,
     }))
 
     // Build URLs for related products (handle cross-category products)
@@ -361,7 +376,7 @@ export default async function ProductDetailPage({ params, searchParams }: PagePr
         "@type": "Product",
         name: productName,
         description: productDesc ? stripHtml(productDesc).slice(0, 200) : productName,
-        image: product.image || undefined,
+        image: product.image || product.fileThumbnail || undefined,
         sku: product.sku,
         brand: { "@type": "Brand", name: product.brand?.nameEn || "digital4d" },
         category: categoryName,
@@ -434,7 +449,7 @@ export default async function ProductDetailPage({ params, searchParams }: PagePr
         descEn: product.descEn,
         descBg: product.descBg,
         descEs: product.descEs,
-        image: product.variants.find(v => ["in_stock", "pre_order"].includes(v.status))?.image || product.image,
+        image: product.variants.find(v => ["in_stock", "pre_order"].includes(v.status))?.image || product.image || product.fileThumbnail,
         price: lowestPkg ? lowestPkg.price.toString() : (product.price?.toString() || "0"),
         salePrice: lowestPkg ? (lowestPkg.salePrice?.toString() || null) : (product.salePrice?.toString() || null),
         onSale: lowestPkg ? !!lowestPkg.salePrice : product.onSale,
@@ -528,12 +543,15 @@ export default async function ProductDetailPage({ params, searchParams }: PagePr
                         variants={JSON.parse(JSON.stringify(product.variants))}
                         packages={JSON.parse(JSON.stringify(product.packages))}
                         initialPackageSlug={sizeParam}
+                        initialColorId={colorParam}
                         locale={locale}
-                        mainImage={product.image}
+                        mainImage={product.image || product.fileThumbnail}
                         gallery={product.gallery || []}
+                        modelUrl={product.fileType === "digital" && modelFormatOf(product.fileUrl) === "stl" ? product.fileUrl : null}
                         initialCouponCode={couponCode}
                         promotedCoupons={promotedCoupons}
                         isWishlisted={isWishlisted}
+                        vatNote={vatNote}
                     >
                         {/* Category Badge with breadcrumb */}
                         <div className="flex items-center gap-1.5 flex-wrap">
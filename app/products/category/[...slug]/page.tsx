@@ -10,13 +10,16 @@ import { sanitizeHtml } from "@/lib/sanitize"
 import prisma from "@/lib/prisma"
 import { auth } from "@/auth"
 import { ArrowLeft } from "lucide-react"
-import { isCategoryMatch } from "@/lib/couponHelpers"
+import { catalogQueryFromRecord } from "@/lib/catalog"
+import { getCatalogPage } from "@/lib/productCatalog"
+import type { Locale } from "@/i18n/config"
 import type { Metadata } from "next"
 
 const SLUG_PATTERN = /^[a-z0-9]+(?:-[a-z0-9]+)*$/
 
 interface PageProps {
     params: Promise<{ slug: string[] }>
+    searchParams: Promise<Record<string, string | string[] | undefined>>
 }
 
 const COLOR_CLASSES: Record<string, string> = {
@@ -72,7 +75,7 @@ export async function generateMetadata({ params }: PageProps): Promise<Metadata>
     }
 }
 
-export default async function CategoryPage({ params }: PageProps) {
+export default async function CategoryPage({ params, searchParams }: PageProps) {
     const { slug: slugSegments } = await params
     const categorySlug = slugSegments[slugSegments.length - 1]
     if (!SLUG_PATTERN.test(categorySlug)) notFound()
@@ -111,77 +114,19 @@ export default async function CategoryPage({ params }: PageProps) {
     const parentName = category.parent ? getLocalizedName(category.parent) : null
     const isParent = !category.parentId && category.children.length > 0
 
-    // Compute categorySlugs here (depends on category)
-    const categorySlugs = isParent
-        ? [categorySlug, ...category.children.map(c => c.slug)]
-        : [categorySlug]
+    // The category's products and its subcategories' products, as the URL's filters narrow them
+    const query = { ...catalogQueryFromRecord(await searchParams), category: categorySlug, cursor: null }
 
     // Parallel data fetching (independent queries)
-    const now = new Date()
-    const [products, allCategories, promotedCouponsRaw, session] = await Promise.all([
-        prisma.product.findMany({
-            where: { category: { in: categorySlugs }, published: true },
-            orderBy: [{ featured: "desc" }, { order: "asc" }, { createdAt: "desc" }],
-            include: {
-                brand: true,
-                variants: { include: { color: true }, orderBy: { order: "asc" } },
-                packages: { include: { weight: { select: { label: true } }, packageVariants: { select: { variantId: true, status: true } } }, orderBy: { order: "asc" } },
-            },
-        }),
+    const [page, allCategories, session] = await Promise.all([
+        getCatalogPage(query, locale as Locale),
         prisma.productCategory.findMany({
             include: { children: true, parent: true },
             orderBy: [{ order: "asc" }],
         }),
-        prisma.coupon.findMany({
-            where: {
-                showOnProduct: true,
-                active: true,
-                AND: [
-                    { OR: [{ startsAt: null }, { startsAt: { lte: now } }] },
-                    { OR: [{ expiresAt: null }, { expiresAt: { gt: now } }] },
-                ],
-            },
-            select: { code: true, type: true, value: true, currency: true, productIds: true, categoryIds: true, brandIds: true, allowOnSale: true, expiresAt: true },
-        }),
         auth(),
     ])
 
-    const couponMap: Record<string, { code: string; type: string; value: string; currency: string | null; expiresAt: string | null }> = {}
-    const flatCategories = allCategories.map(c => ({ id: c.id, slug: c.slug, parentId: c.parentId }))
-
-    const toCouponBadge = (c: typeof promotedCouponsRaw[0]) => ({
-        code: c.code, type: c.type, value: c.value.toString(), currency: c.currency, expiresAt: c.expiresAt?.toISOString() ?? null
-    })
-
-    for (const product of products) {
-        const isOnSale = product.onSale && product.salePrice
-        // 1. Product match
-        const direct = promotedCouponsRaw.find(c =>
-            c.productIds.length > 0 && c.productIds.includes(product.id) && !(isOnSale && !c.allowOnSale)
-        )
-        if (direct) { couponMap[product.id] = toCouponBadge(direct); continue }
-        // 2. Category match
-        const byCategory = promotedCouponsRaw.find(c =>
-            c.productIds.length === 0 && (c.categoryIds?.length ?? 0) > 0 &&
-            !(isOnSale && !c.allowOnSale) &&
-            isCategoryMatch(product.category, c.categoryIds ?? [], flatCategories)
-        )
-        if (byCategory) { couponMap[product.id] = toCouponBadge(byCategory); continue }
-        // 3. Brand match
-        const byBrand = promotedCouponsRaw.find(c =>
-            c.productIds.length === 0 && (c.categoryIds?.length ?? 0) === 0 &&
-            (c.brandIds?.length ?? 0) > 0 && product.brand?.id &&
-            (c.brandIds ?? []).includes(product.brand.id) && !(isOnSale && !c.allowOnSale)
-        )
-        if (byBrand) { couponMap[product.id] = toCouponBadge(byBrand); continue }
-        // 4. Global
-        const global = promotedCouponsRaw.find(c =>
-            c.productIds.length === 0 && (c.categoryIds?.length ?? 0) === 0 &&
-            (c.brandIds?.length ?? 0) === 0 && !(isOnSale && !c.allowOnSale)
-        )
-        if (global) { couponMap[product.id] = toCouponBadge(global) }
-    }
-
     // Wishlist depends on session
     let wishlistedProductIds: string[] = []
     if (session?.user?.id) {
@@ -259,11 +204,11 @@ export default async function CategoryPage({ params }: PageProps) {
 
             {/* Products Grid */}
             <ProductCatalog
-                products={JSON.parse(JSON.stringify(products))}
+                key={categorySlug}
+                initialPage={JSON.parse(JSON.stringify(page))}
                 categories={JSON.parse(JSON.stringify(allCategories))}
                 locale={locale}
                 wishlistedProductIds={wishlistedProductIds}
-                couponMap={couponMap}
                 subcategories={
                     isParent
                         ? JSON.parse(JSON.stringify(category.children))
@@ -64,6 +64,11 @@ export async function GET(
       return NextResponse.json({ error: "Invalid download token" }, { status: 404 })
     }
 
+    // Refunded or disputed purchases lose their download link
+    if (purchase.revokedAt) {
+      return NextResponse.json({ error: "Download link has been revoked" }, { status: 410 })
+    }
+
     // Check if expired
     if (new Date() > purchase.expiresAt) {
       return NextResponse.json({ error: "Download link has expired" }, { status: 410 })
@@ -83,10 +88,21 @@ export async function GET(
       return NextResponse.json({ error: "Product file not found" }, { status: 404 })
     }
 
-    // Increment download count
-    await prisma.digitalPurchase.update({
-      where: { id: purchase.id },
-      data: { downloadCount: purchase.downloadCount + 1 }
+    // Count the download only while the limit still allows it, so parallel requests cannot overrun it
+    const counted = await prisma.digitalPurchase.updateMany({
+      where: { id: purchase.id, revokedAt: null, downloadCount: { lt: purchase.maxDownloads } },
+      data: { downloadCount: { increment: 1 } }
+    })
+    if (counted.count === 0) {
+      return NextResponse.json({ error: "Maximum downloads reached" }, { status: 410 })
+    }
+
+    await prisma.digitalDownload.create({
+      data: {
+        purchaseId: purchase.id,
+        ip: ip === "unknown" ? null : ip,
+        userAgent: request.headers.get("user-agent")?.slice(0, 500) || null,
+      }
     })
 
     const filename = getFilename(product.fileUrl)
@@ -4,9 +4,11 @@ import { Header } from "../components/Header"
 import prisma from "@/lib/prisma"
 import { auth } from "@/auth"
 import { ProductCatalog } from "../components/ProductCatalog"
-import { isCategoryMatch } from "@/lib/couponHelpers"
+import { catalogQueryFromRecord } from "@/lib/catalog"
+import { getCatalogPage } from "@/lib/productCatalog"
 import { BackgroundOrbs } from "@/app/components/BackgroundOrbs"
 import { ArrowLeft } from "lucide-react"
+import type { Locale } from "@/i18n/config"
 import type { Metadata } from "next"
 
 export async function generateMetadata(): Promise<Metadata> {
@@ -27,83 +29,21 @@ export async function generateMetadata(): Promise<Metadata> {
     }
 }
 
-export default async function ProductsPage() {
+export default async function ProductsPage({ searchParams }: { searchParams: Promise<Record<string, string | string[] | undefined>> }) {
     const t = await getTranslations()
     const locale = await getLocale()
+    const query = { ...catalogQueryFromRecord(await searchParams), cursor: null }
 
     // Parallel data fetching (all independent queries)
-    const now = new Date()
-    const [products, categories, promotedCouponsRaw, session] = await Promise.all([
-        prisma.product.findMany({
-            where: { published: true },
-            orderBy: [{ featured: "desc" }, { order: "asc" }, { createdAt: "desc" }],
-            include: {
-                brand: true,
-                variants: { include: { color: true }, orderBy: { order: "asc" } },
-                packages: { include: { weight: { select: { label: true } }, packageVariants: { select: { variantId: true, status: true } } }, orderBy: { order: "asc" } },
-            },
-        }),
+    const [page, categories, session] = await Promise.all([
+        getCatalogPage(query, locale as Locale),
         prisma.productCategory.findMany({
             include: { children: true, parent: true },
             orderBy: [{ order: "asc" }],
         }),
-        prisma.coupon.findMany({
-            where: {
-                showOnProduct: true,
-                active: true,
-                AND: [
-                    { OR: [{ startsAt: null }, { startsAt: { lte: now } }] },
-                    { OR: [{ expiresAt: null }, { expiresAt: { gt: now } }] },
-                ],
-            },
-            select: { code: true, type: true, value: true, currency: true, productIds: true, categoryIds: true, brandIds: true, allowOnSale: true, expiresAt: true },
-        }),
         auth(),
     ])
 
-    // Build coupon map: productId → best coupon badge info
-    const allCategories = await prisma.productCategory.findMany({ select: { id: true, slug: true, parentId: true } })
-    const couponMap: Record<string, { code: string; type: string; value: string; currency: string | null; expiresAt: string | null }> = {}
-
-    const toCouponBadge = (c: typeof promotedCouponsRaw[0]) => ({
-        code: c.code, type: c.type, value: c.value.toString(), currency: c.currency, expiresAt: c.expiresAt?.toISOString() ?? null
-    })
-
-    for (const product of products) {
-        const isOnSale = product.onSale && product.salePrice
-        // 1. Product match
-        const direct = promotedCouponsRaw.find(c =>
-            c.productIds.length > 0 && c.productIds.includes(product.id) && !(isOnSale && !c.allowOnSale)
-        )
-        if (direct) { couponMap[product.id] = toCouponBadge(direct); continue }
-        // 2. Category match
-        const byCategory = promotedCouponsRaw.find(c =>
-            c.productIds.length === 0 && (c.categoryIds?.length ?? 0) > 0 &&
-            !(isOnSale && !c.allowOnSale) &&
-            isCategoryMatch(product.category, c.categoryIds ?? [], allCategories)
-        )
-        if (byCategory) { couponMap[product.id] = toCouponBadge(byCategory); continue }
-        // 3. Brand match
-        const byBrand = promotedCouponsRaw.find(c =>
-            c.productIds.length === 0 && (c.categoryIds?.length ?? 0) === 0 &&
-            (c.brandIds?.length ?? 0) > 0 && product.brand?.id &&
-            (c.brandIds ?? []).includes(product.brand.id) && !(isOnSale && !c.allowOnSale)
-        )
-        if (byBrand) { couponMap[product.id] = toCouponBadge(byBrand); continue }
-        // 4. Global
-        const global = promotedCouponsRaw.find(c =>
-            c.productIds.length === 0 && (c.categoryIds?.length ?? 0) === 0 &&
-            (c.brandIds?.length ?? 0) === 0 && !(isOnSale && !c.allowOnSale)
-        )
-        if (global) { couponMap[product.id] = toCouponBadge(global) }
-    }
-
-    // Compute display image: first available (in_stock/pre_order) variant image, or main product image
-    const productsForDisplay = products.map(p => ({
-        ...p,
-        image: p.variants.find(v => ["in_stock", "pre_order"].includes(v.status))?.image || p.image,
-    }))
-
     // Wishlist depends on session
     let wishlistedProductIds: string[] = []
     if (session?.user?.id) {
@@ -136,13 +76,12 @@ export default async function ProductsPage() {
                 </div>
             </section>
 
-            {/* Products Grid with Client-Side Filtering */}
+            {/* Products Grid — filtered, sorted and paged on the server */}
             <ProductCatalog
-                products={JSON.parse(JSON.stringify(productsForDisplay))}
+                initialPage={JSON.parse(JSON.stringify(page))}
                 categories={JSON.parse(JSON.stringify(categories))}
                 locale={locale}
                 wishlistedProductIds={wishlistedProductIds}
-                couponMap={couponMap}
             />
 
             {/* Footer */}
@@ -5,6 +5,8 @@ import Image from "next/image"
 import Link from "next/link"
 import { User, Mail, Phone, MapPin, Calendar, Edit2, ArrowLeft, Globe, Building, Cake, Lock, ChevronRight } from "lucide-react"
 import { ProfileEditForm } from "@/app/components/ProfileEditForm"
+import { AddressBook } from "@/app/components/AddressBook"
+import { DownloadLibrary } from "@/app/components/DownloadLibrary"
 import { Header } from "@/app/components/Header"
 import { BackgroundOrbs } from "@/app/components/BackgroundOrbs"
 
@@ -240,6 +242,16 @@ export function ProfileClient({ user, translations: t, activeDealsCount }: Profi
             </div>
           </div>
         </div>
+          {/* Saved delivery addresses */}
+          <div className="mt-6 md:mt-8">
+            <AddressBook />
+          </div>
+
+          {/* Digital purchases */}
+          <div className="mt-6 md:mt-8">
+            <DownloadLibrary />
+          </div>
+
         {/* Secret Deals teaser */}
           <Link
             href="/profile/secret-deals"
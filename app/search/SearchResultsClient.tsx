@@ -4,9 +4,14 @@ import { useState, useEffect, useRef, useCallback, useMemo } from "react"
 import { useRouter } from "next/navigation"
 import Link from "next/link"
 import { Header } from "../components/Header"
-import { Search, Package, FileText, Menu as MenuIcon, ArrowLeft } from "lucide-react"
+import { Search, Package, FileText, Menu as MenuIcon, ArrowLeft, ArrowRight, SlidersHorizontal, X } from "lucide-react"
 import { BackgroundOrbs } from "@/app/components/BackgroundOrbs"
+import { HighlightedText } from "@/app/components/HighlightedText"
 import { COLOR_CLASSES } from "@/lib/colors"
+import { searchFiltersToParams, EMPTY_SEARCH_FILTERS, type SearchFilters, type SearchFacets, type FacetCount, type HighlightSegment } from "@/lib/search"
+import { getSearchSessionKey, reportSearchClick } from "@/lib/searchTracking"
+
+const PAGE_SIZE = 20
 
 interface SearchProduct {
     id: string
@@ -23,6 +28,7 @@ interface SearchProduct {
     category: string
     fileType: string | null
     productUrl?: string
+    highlight: { name: HighlightSegment[]; snippet: HighlightSegment[] | null } | null
 }
 
 interface SearchContent {
@@ -49,6 +55,11 @@ interface SearchResponse {
     products: SearchProduct[]
     content: SearchContent[]
     menu: SearchMenuItem[]
+    total: number
+    facets: SearchFacets | null
+    page: number
+    searchId: string | null
+    redirect: string | null
 }
 
 interface ProductCategory {
@@ -61,6 +72,7 @@ interface ProductCategory {
 
 interface SearchResultsClientProps {
     initialQuery: string
+    initialFilters: SearchFilters
     locale: string
     categories: ProductCategory[]
     translations: {
@@ -77,17 +89,39 @@ interface SearchResultsClientProps {
         viewAll: string
         onSale: string
         from: string
+        filters: string
+        clearFilters: string
+        category: string
+        brand: string
+        color: string
+        size: string
+        price: string
+        min: string
+        max: string
+        onSaleOnly: string
+        loadMore: string
+        goTo: string
     }
 }
 
-export function SearchResultsClient({ initialQuery, locale, categories, translations: t }: SearchResultsClientProps) {
+/** Search API URL for one page of results with facet counts */
+function searchUrl(q: string, filters: SearchFilters, page: number) {
+    const params = searchFiltersToParams(filters, new URLSearchParams({ q, limit: String(PAGE_SIZE), page: String(page), facets: "1", sid: getSearchSessionKey() }))
+    return `/api/search?${params}`
+}
+
+export function SearchResultsClient({ initialQuery, initialFilters, locale, categories, translations: t }: SearchResultsClientProps) {
     const router = useRouter()
     const [query, setQuery] = useState(initialQuery)
+    const [filters, setFilters] = useState<SearchFilters>(initialFilters)
+    const [priceInput, setPriceInput] = useState({ min: initialFilters.minPrice?.toString() ?? "", max: initialFilters.maxPrice?.toString() ?? "" })
     const [results, setResults] = useState<SearchResponse | null>(null)
     const [loading, setLoading] = useState(false)
+    const [loadingMore, setLoadingMore] = useState(false)
     const inputRef = useRef<HTMLInputElement>(null)
     const debounceRef = useRef<ReturnType<typeof setTimeout> | null>(null)
     const abortRef = useRef<AbortController | null>(null)
+    const initialSearchRef = useRef(initialQuery.length >= 2)
 
     const getCategoryColor = useCallback((categorySlug: string) => {
         const category = categories.find((c) => c.slug === categorySlug)
@@ -126,18 +160,24 @@ export function SearchResultsClient({ initialQuery, locale, categories, translat
         return `/news/${item.slug}`
     }, [])
 
-    const search = useCallback(async (q: string) => {
+    const search = useCallback(async (q: string, f: SearchFilters, followRedirect = false) => {
         abortRef.current?.abort()
         const controller = new AbortController()
         abortRef.current = controller
 
         setLoading(true)
         try {
-            const res = await fetch(`/api/search?q=${encodeURIComponent(q)}&limit=20`, {
+            const res = await fetch(searchUrl(q, f, 1), {
                 signal: controller.signal,
             })
             if (res.ok) {
-                const data = await res.json()
+                const data: SearchResponse = await res.json()
+                // A submitted query that an admin rule maps to a page goes straight there
+                if (followRedirect && data.redirect) {
+                    reportSearchClick(data.searchId, "redirect", data.redirect)
+                    router.replace(data.redirect)
+                    return
+                }
                 setResults(data)
             }
         } catch (e) {
@@ -147,14 +187,34 @@ export function SearchResultsClient({ initialQuery, locale, categories, translat
         } finally {
             if (!controller.signal.aborted) setLoading(false)
         }
-    }, [])
+    }, [router])
+
+    const loadMore = async () => {
+        if (!results) return
+        setLoadingMore(true)
+        try {
+            const res = await fetch(searchUrl(query, filters, results.page + 1))
+            if (res.ok) {
+                const data: SearchResponse = await res.json()
+                setResults((prev) => prev && { ...prev, products: [...prev.products, ...data.products], page: data.page })
+            }
+        } finally {
+            setLoadingMore(false)
+        }
+    }
 
     useEffect(() => {
         if (debounceRef.current) clearTimeout(debounceRef.current)
+        // The mount search below covers the initial query; repeating it would cancel a redirect
+        if (initialSearchRef.current) {
+            initialSearchRef.current = false
+            return
+        }
         if (query.length >= 2) {
             debounceRef.current = setTimeout(() => {
-                search(query)
-                router.replace(`/search?q=${encodeURIComponent(query)}`, { scroll: false })
+                search(query, filters)
+                const params = searchFiltersToParams(filters, new URLSearchParams({ q: query }))
+                router.replace(`/search?${params}`, { scroll: false })
             }, 300)
         } else {
             setResults(null)
@@ -163,19 +223,119 @@ export function SearchResultsClient({ initialQuery, locale, categories, translat
         return () => {
             if (debounceRef.current) clearTimeout(debounceRef.current)
         }
-    }, [query, search, router])
+    }, [query, filters, search, router])
 
     // Auto-search on mount if initialQuery present
     useEffect(() => {
-        if (initialQuery.length >= 2) search(initialQuery)
+        if (initialQuery.length >= 2) search(initialQuery, initialFilters, true)
     // eslint-disable-next-line react-hooks/exhaustive-deps
     }, [])
 
     const totalResults = useMemo(() => {
         if (!results) return 0
-        return results.products.length + results.content.length + results.menu.length
+        return results.total + results.content.length + results.menu.length
     }, [results])
 
+    const hasFilters = useMemo(() => searchFiltersToParams(filters).toString() !== "", [filters])
+
+    const toggleList = (list: string[], value: string) =>
+        list.includes(value) ? list.filter((v) => v !== value) : [...list, value]
+
+    const applyPrice = () => {
+        const parse = (value: string) => (value.trim() === "" || !Number.isFinite(Number(value)) ? null : Math.max(0, Number(value)))
+        const minPrice = parse(priceInput.min)
+        const maxPrice = parse(priceInput.max)
+        if (minPrice !== filters.minPrice || maxPrice !== filters.maxPrice) {
+            setFilters((prev) => ({ ...prev, minPrice, maxPrice }))
+        }
+    }
+
+    const clearFilters = () => {
+        setFilters(EMPTY_SEARCH_FILTERS)
+        setPriceInput({ min: "", max: "" })
+    }
+
+    const renderFacetOption = (option: FacetCount, active: boolean, onClick: () => void) => (
+        <button
+            key={option.value}
+            type="button"
+            onClick={onClick}
+            className={`flex items-center justify-between gap-2 w-full px-3 py-1.5 rounded-lg text-sm text-left transition-colors ${active ? "bg-emerald-500/15 text-emerald-400" : "text-slate-300 hover:bg-white/5"}`}
+        >
+            <span className="flex items-center gap-2 min-w-0">
+                {option.hex && <span className="w-3.5 h-3.5 rounded-full border border-white/20 shrink-0" style={{ backgroundColor: option.hex }} />}
+                <span className="truncate">{getName(option)}</span>
+            </span>
+            <span className="text-xs text-slate-500 shrink-0">{option.count}</span>
+        </button>
+    )
+
+    const renderFacetGroup = (title: string, options: FacetCount[], isActive: (value: string) => boolean, onToggle: (value: string) => void) => (
+        options.length > 0 && (
+            <div>
+                <h3 className="px-3 mb-1.5 text-xs font-semibold text-slate-500 uppercase tracking-wider">{title}</h3>
+                <div className="space-y-0.5">
+                    {options.map((option) => renderFacetOption(option, isActive(option.value), () => onToggle(option.value)))}
+                </div>
+            </div>
+        )
+    )
+
+    const renderFacets = (facets: SearchFacets) => (
+        <aside className="lg:w-60 shrink-0 space-y-5">
+            <div className="flex items-center justify-between px-3">
+                <span className="flex items-center gap-2 text-sm font-semibold text-white">
+                    <SlidersHorizontal className="w-4 h-4 text-emerald-400" />
+                    {t.filters}
+                </span>
+                {hasFilters && (
+                    <button type="button" onClick={clearFilters} className="flex items-center gap-1 text-xs text-slate-400 hover:text-white transition-colors">
+                        <X className="w-3 h-3" />
+                        {t.clearFilters}
+                    </button>
+                )}
+            </div>
+            {renderFacetGroup(t.category, facets.categories, (v) => filters.category === v, (v) => setFilters((prev) => ({ ...prev, category: prev.category === v ? null : v })))}
+            {renderFacetGroup(t.brand, facets.brands, (v) => filters.brand === v, (v) => setFilters((prev) => ({ ...prev, brand: prev.brand === v ? null : v })))}
+            {renderFacetGroup(t.color, facets.colors, (v) => filters.colors.includes(v), (v) => setFilters((prev) => ({ ...prev, colors: toggleList(prev.colors, v) })))}
+            {renderFacetGroup(t.size, facets.weights, (v) => filters.weights.includes(v), (v) => setFilters((prev) => ({ ...prev, weights: toggleList(prev.weights, v) })))}
+            {(facets.price || filters.minPrice !== null || filters.maxPrice !== null) && (
+                <div>
+                    <h3 className="px-3 mb-1.5 text-xs font-semibold text-slate-500 uppercase tracking-wider">{t.price}</h3>
+                    <div className="flex items-center gap-2 px-3">
+                        {(["min", "max"] as const).map((bound) => (
+                            <input
+                                key={bound}
+                                type="number"
+                                min={0}
+                                value={priceInput[bound]}
+                                onChange={(e) => setPriceInput((prev) => ({ ...prev, [bound]: e.target.value }))}
+                                onBlur={applyPrice}
+                                onKeyDown={(e) => { if (e.key === "Enter") applyPrice() }}
+                                placeholder={facets.price ? `${t[bound]} ${Math.floor(facets.price[bound])}` : t[bound]}
+                                className="w-full min-w-0 px-3 py-1.5 rounded-lg bg-white/5 border border-white/10 text-sm text-white placeholder-gray-500 focus:outline-none focus:border-emerald-500/50"
+                            />
+                        ))}
+                    </div>
+                </div>
+            )}
+            {(facets.onSale > 0 || filters.onSale) && (
+                <label className="flex items-center justify-between gap-2 px-3 text-sm text-slate-300 cursor-pointer">
+                    <span className="flex items-center gap-2">
+                        <input
+                            type="checkbox"
+                            checked={filters.onSale}
+                            onChange={(e) => setFilters((prev) => ({ ...prev, onSale: e.target.checked }))}
+                            className="w-4 h-4 rounded bg-white/5 border-white/10 text-emerald-500 focus:ring-emerald-500/50"
+                        />
+                        {t.onSaleOnly}
+                    </span>
+                    <span className="text-xs text-slate-500">{facets.onSale}</span>
+                </label>
+            )}
+        </aside>
+    )
+
     const newsContent = useMemo(() => results?.content.filter(c => c.type === "news") || [], [results])
     const servicesContent = useMemo(() => results?.content.filter(c => c.type === "service") || [], [results])
 
@@ -231,6 +391,18 @@ export function SearchResultsClient({ initialQuery, locale, categories, translat
                             {totalResults} {t.resultCount}
                         </p>
                     )}
+
+                    {/* Admin search rule for this query */}
+                    {results?.redirect && query.length >= 2 && (
+                        <Link
+                            href={results.redirect}
+                            onClick={() => reportSearchClick(results.searchId, "redirect", results.redirect!)}
+                            className="inline-flex items-center gap-2 mt-4 px-4 py-2 rounded-xl bg-emerald-500/10 border border-emerald-500/30 text-sm text-emerald-400 hover:bg-emerald-500/20 transition-colors"
+                        >
+                            {t.goTo} <span className="font-mono">{results.redirect}</span>
+                            <ArrowRight className="w-4 h-4" />
+                        </Link>
+                    )}
                 </div>
             </section>
 
@@ -244,7 +416,7 @@ export function SearchResultsClient({ initialQuery, locale, categories, translat
                             <Search className="w-16 h-16 text-gray-600 mx-auto mb-4" />
                             <p className="text-slate-400 text-lg">{t.placeholder}</p>
                         </div>
-                    ) : totalResults === 0 ? (
+                    ) : totalResults === 0 && !hasFilters ? (
                         <div className="text-center py-20">
                             <Search className="w-16 h-16 text-gray-600 mx-auto mb-4" />
                             <p className="text-white text-xl font-semibold mb-2">{t.noResults}</p>
@@ -253,69 +425,95 @@ export function SearchResultsClient({ initialQuery, locale, categories, translat
                     ) : (
                         <>
                             {/* Products */}
-                            {results!.products.length > 0 && (
+                            {(results!.total > 0 || hasFilters) && (
                                 <div>
                                     <div className="flex items-center gap-3 mb-6">
                                         <Package className="w-5 h-5 text-emerald-400" />
                                         <h2 className="text-xl sm:text-2xl font-bold text-white">{t.products}</h2>
-                                        <span className="text-sm text-slate-500">({results!.products.length})</span>
+                                        <span className="text-sm text-slate-500">({results!.total})</span>
                                     </div>
-                                    <div className="grid gap-4 sm:gap-6 grid-cols-1 sm:grid-cols-2 md:grid-cols-3 lg:grid-cols-4">
-                                        {results!.products.map((p) => {
-                                            const categoryColor = getCategoryColor(p.category)
-                                            const categoryName = getCategoryName(p.category)
-                                            const discountPercent = p.onSale && p.price && p.salePrice
-                                                ? Math.round((1 - parseFloat(String(p.salePrice)) / parseFloat(String(p.price))) * 100)
-                                                : 0
-                                            return (
-                                            <Link
-                                                key={p.id}
-                                                href={p.productUrl || `/products/${p.slug}`}
-                                                className="group glass rounded-2xl overflow-hidden border border-white/10 hover:border-emerald-500/30 transition-all hover:shadow-lg hover:shadow-emerald-500/10"
-                                            >
-                                                {p.image ? (
-                                                    <div className="relative h-40 overflow-hidden">
-                                                        <img src={p.image} alt={getName(p)} className="w-full h-full object-cover group-hover:scale-105 transition-transform duration-500" />
-                                                        <div className="absolute inset-0 bg-gradient-to-t from-slate-900/80 to-transparent" />
-                                                        {p.onSale && (
-                                                            <div className="absolute top-3 left-3 flex items-center gap-1.5">
-                                                                <span className="px-2 py-1 rounded-full text-xs font-bold bg-red-500 text-white">{t.onSale}</span>
-                                                                {discountPercent > 0 && (
-                                                                    <span className="px-2 py-1 rounded-full text-xs font-bold bg-red-500 text-white">-{discountPercent}%</span>
+                                    <div className="flex flex-col lg:flex-row gap-6">
+                                        {results!.facets && renderFacets(results!.facets)}
+                                        <div className="flex-1 min-w-0 space-y-6">
+                                            {results!.products.length === 0 && (
+                                                <p className="text-slate-400 py-12 text-center">{t.noResults}</p>
+                                            )}
+                                            <div className="grid gap-4 sm:gap-6 grid-cols-1 sm:grid-cols-2 xl:grid-cols-3">
+                                                {results!.products.map((p) => {
+                                                    const categoryColor = getCategoryColor(p.category)
+                                                    const categoryName = getCategoryName(p.category)
+                                                    const discountPercent = p.onSale && p.price && p.salePrice
+                                                        ? Math.round((1 - parseFloat(String(p.salePrice)) / parseFloat(String(p.price))) * 100)
+                                                        : 0
+                                                    return (
+                                                    <Link
+                                                        key={p.id}
+                                                        href={p.productUrl || `/products/${p.slug}`}
+                                                onClick={() => reportSearchClick(results!.searchId, "product", p.id)}
+                                                        className="group glass rounded-2xl overflow-hidden border border-white/10 hover:border-emerald-500/30 transition-all hover:shadow-lg hover:shadow-emerald-500/10"
+                                                    >
+                                                        {p.image ? (
+                                                            <div className="relative h-40 overflow-hidden">
+                                                                <img src={p.image} alt={getName(p)} className="w-full h-full object-cover group-hover:scale-105 transition-transform duration-500" />
+                                                                <div className="absolute inset-0 bg-gradient-to-t from-slate-900/80 to-transparent" />
+                                                                {p.onSale && (
+                                                                    <div className="absolute top-3 left-3 flex items-center gap-1.5">
+                                                                        <span className="px-2 py-1 rounded-full text-xs font-bold bg-red-500 text-white">{t.onSale}</span>
+                                                                        {discountPercent > 0 && (
+                                                                            <span className="px-2 py-1 rounded-full text-xs font-bold bg-red-500 text-white">-{discountPercent}%</span>
+                                                                        )}
+                                                                    </div>
                                                                 )}
                                                             </div>
+                                                        ) : (
+                                                            <div className="h-40 bg-white/5 flex items-center justify-center">
+                                                                <Package className="w-12 h-12 text-gray-600" />
+                                                            </div>
                                                         )}
-                                                    </div>
-                                                ) : (
-                                                    <div className="h-40 bg-white/5 flex items-center justify-center">
-                                                        <Package className="w-12 h-12 text-gray-600" />
-                                                    </div>
-                                                )}
-                                                <div className="p-4">
-                                                    {p.category && (
-                                                        <span className={`inline-block px-3 py-1 rounded-full text-xs font-medium mb-3 ${COLOR_CLASSES[categoryColor] || "bg-gray-500/20 text-gray-400"}`}>
-                                                            {categoryName}
-                                                        </span>
-                                                    )}
-                                                    <h3 className="text-sm font-bold text-white group-hover:text-emerald-400 transition-colors truncate">
-                                                        {getName(p)}
-                                                    </h3>
-                                                    <div className="mt-2 flex items-center gap-2">
-                                                        {p.onSale && p.salePrice != null ? (
-                                                            <>
-                                                                <span className="text-sm font-bold text-emerald-400">{parseFloat(String(p.salePrice)).toFixed(2)} {p.currency}</span>
-                                                                {p.price != null && <span className="text-xs text-gray-500 line-through">{parseFloat(String(p.price)).toFixed(2)} {p.currency}</span>}
-                                                            </>
-                                                        ) : p.price != null ? (
-                                                            <span className="text-sm font-bold text-white">
-                                                                {p.priceType === "from" ? `${t.from} ` : ""}{parseFloat(String(p.price)).toFixed(2)} {p.currency}
-                                                            </span>
-                                                        ) : null}
-                                                    </div>
+                                                        <div className="p-4">
+                                                            {p.category && (
+                                                                <span className={`inline-block px-3 py-1 rounded-full text-xs font-medium mb-3 ${COLOR_CLASSES[categoryColor] || "bg-gray-500/20 text-gray-400"}`}>
+                                                                    {categoryName}
+                                                                </span>
+                                                            )}
+                                                            <h3 className="text-sm font-bold text-white group-hover:text-emerald-400 transition-colors truncate">
+                                                                <HighlightedText segments={p.highlight?.name} fallback={getName(p)} />
+                                                            </h3>
+                                                            {p.highlight?.snippet && (
+                                                                <p className="mt-1 text-xs text-slate-400 line-clamp-2">
+                                                                    <HighlightedText segments={p.highlight.snippet} fallback="" />
+                                                                </p>
+                                                            )}
+                                                            <div className="mt-2 flex items-center gap-2">
+                                                                {p.onSale && p.salePrice != null ? (
+                                                                    <>
+                                                                        <span className="text-sm font-bold text-emerald-400">{parseFloat(String(p.salePrice)).toFixed(2)} {p.currency}</span>
+                                                                        {p.price != null && <span className="text-xs text-gray-500 line-through">{parseFloat(String(p.price)).toFixed(2)} {p.currency}</span>}
+                                                                    </>
+                                                                ) : p.price != null ? (
+                                                                    <span className="text-sm font-bold text-white">
+                                                                        {p.priceType === "from" ? `${t.from} ` : ""}{parseFloat(String(p.price)).toFixed(2)} {p.currency}
+                                                                    </span>
+                                                                ) : null}
+                                                            </div>
+                                                        </div>
+                                                    </Link>
+                                                    )
+                                                })}
+                                            </div>
+                                            {results!.products.length < results!.total && (
+                                                <div className="flex justify-center">
+                                                    <button
+                                                        type="button"
+                                                        onClick={loadMore}
+                                                        disabled={loadingMore}
+                                                        className="px-6 py-2.5 rounded-xl bg-white/5 border border-white/10 text-sm text-white hover:bg-white/10 transition-colors disabled:opacity-50"
+                                                    >
+                                                        {t.loadMore}
+                                                    </button>
                                                 </div>
-                                            </Link>
-                                            )
-                                        })}
+                                            )}
+                                        </div>
                                     </div>
                                 </div>
                             )}
@@ -333,6 +531,7 @@ export function SearchResultsClient({ initialQuery, locale, categories, translat
                                             <Link
                                                 key={c.id}
                                                 href={getContentUrl(c)}
+                                                onClick={() => reportSearchClick(results!.searchId, "content", c.id)}
                                                 className="group glass rounded-2xl overflow-hidden border border-white/10 hover:border-cyan-500/30 transition-all hover:shadow-lg hover:shadow-cyan-500/10"
                                             >
                                                 {c.image ? (
@@ -372,6 +571,7 @@ export function SearchResultsClient({ initialQuery, locale, categories, translat
                                             <Link
                                                 key={c.id}
                                                 href={getContentUrl(c)}
+                                                onClick={() => reportSearchClick(results!.searchId, "content", c.id)}
                                                 className="group glass rounded-2xl overflow-hidden border border-white/10 hover:border-purple-500/30 transition-all hover:shadow-lg hover:shadow-purple-500/10"
                                             >
                                                 {c.image ? (
@@ -411,6 +611,7 @@ export function SearchResultsClient({ initialQuery, locale, categories, translat
                                             <Link
                                                 key={m.id}
                                                 href={`/${m.slug}`}
+                                                onClick={() => reportSearchClick(results!.searchId, "menu", m.id)}
                                                 className="group glass rounded-2xl overflow-hidden border border-white/10 hover:border-amber-500/30 transition-all hover:shadow-lg hover:shadow-amber-500/10 p-6 flex items-center gap-4"
                                             >
                                                 <div className="w-12 h-12 rounded-xl bg-amber-500/10 flex items-center justify-center shrink-0">
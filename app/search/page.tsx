@@ -1,6 +1,7 @@
 import { getTranslations, getLocale } from "next-intl/server"
 import { SearchResultsClient } from "./SearchResultsClient"
 import prisma from "@/lib/prisma"
+import { parseSearchFilters } from "@/lib/search"
 import type { Metadata } from "next"
 
 export async function generateMetadata({ searchParams }: { searchParams: Promise<{ q?: string }> }): Promise<Metadata> {
@@ -12,12 +13,15 @@ export async function generateMetadata({ searchParams }: { searchParams: Promise
     }
 }
 
-export default async function SearchPage({ searchParams }: { searchParams: Promise<{ q?: string }> }) {
+export default async function SearchPage({ searchParams }: { searchParams: Promise<Record<string, string | undefined>> }) {
     const t = await getTranslations("search")
     const pt = await getTranslations("products")
     const locale = await getLocale()
     const params = await searchParams
     const initialQuery = params.q || ""
+    const initialFilters = parseSearchFilters(new URLSearchParams(
+        Object.entries(params).filter((entry): entry is [string, string] => typeof entry[1] === "string")
+    ))
 
     const categories = await prisma.productCategory.findMany({
         orderBy: [{ order: "asc" }],
@@ -37,11 +41,24 @@ export default async function SearchPage({ searchParams }: { searchParams: Promi
         viewAll: t("viewAll"),
         onSale: pt("onSale"),
         from: pt("from"),
+        filters: t("filters"),
+        clearFilters: t("clearFilters"),
+        category: t("category"),
+        brand: t("brand"),
+        color: t("color"),
+        size: t("size"),
+        price: t("price"),
+        min: t("min"),
+        max: t("max"),
+        onSaleOnly: t("onSaleOnly"),
+        loadMore: t("loadMore"),
+        goTo: t("goTo"),
     }
 
     return (
         <SearchResultsClient
             initialQuery={initialQuery}
+            initialFilters={initialFilters}
             locale={locale}
             translations={translations}
             categories={JSON.parse(JSON.stringify(categories))}
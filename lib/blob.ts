@@ -1,5 +1,5 @@
 import { put, del, list } from "@vercel/blob"
-import { writeFile, mkdir, unlink } from "fs/promises"
+import { writeFile, readFile, mkdir, unlink } from "fs/promises"
 import path from "path"
 
 // Check if we should use local storage
@@ -73,6 +73,18 @@ async function uploadToLocal(buffer: Buffer | File, relativePath: string): Promi
   return `/uploads/${relativePath}`
 }
 
+/**
+ * Read a stored file back — Vercel Blob URLs are fetched, local uploads read from disk
+ */
+export async function readBlob(url: string): Promise<Buffer> {
+  if (isLocalUploadUrl(url)) {
+    return readFile(path.join(process.cwd(), "public", url))
+  }
+  const res = await fetch(url)
+  if (!res.ok) throw new Error(`Failed to fetch ${url}: ${res.status}`)
+  return Buffer.from(await res.arrayBuffer())
+}
+
 /**
  * Safely delete a blob (ignores "not found" errors)
  */
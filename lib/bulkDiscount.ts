@@ -42,3 +42,19 @@ export function parseTiers(json: string): BulkTier[] {
     return []
   }
 }
+
+/**
+ * Tiers that apply to a purchase: package tiers, else product tiers, while the product's
+ * promotion has not expired — otherwise the site-wide tiers (already filtered by enabled).
+ */
+export function resolveBulkTiers(params: {
+  packageTiers?: string | null
+  productTiers?: string | null
+  expiresAt?: string | Date | null
+  globalTiers: BulkTier[]
+}): BulkTier[] {
+  const packageTiers = parseTiers(params.packageTiers || "")
+  const own = packageTiers.length > 0 ? packageTiers : parseTiers(params.productTiers || "")
+  const expired = !!params.expiresAt && new Date(params.expiresAt) <= new Date()
+  return own.length > 0 && !expired ? own : params.globalTiers
+}
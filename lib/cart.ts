@@ -4,6 +4,7 @@ export interface CartItem {
   productId: string
   packageId?: string | null    // differentiates packages of the same product
   packageLabel?: string | null // display label, e.g. "1kg"
+  variantId?: string | null    // selected color variant (SIZE×COLOR matrix)
   colorNameEn?: string | null
   colorNameBg?: string | null
   colorNameEs?: string | null
@@ -111,11 +112,11 @@ export function getCartCount(): number {
   return getCart().reduce((sum, item) => sum + item.quantity, 0)
 }
 
+/**
+ * Sale-aware catalog unit price, shown until the server quote (/api/cart/quote) arrives.
+ */
 export function getEffectivePrice(item: CartItem): number {
-  if (item.onSale && item.salePrice) {
-    return parseFloat(item.salePrice)
-  }
-  return parseFloat(item.price)
+  return item.onSale && item.salePrice ? parseFloat(item.salePrice) : parseFloat(item.price)
 }
 
 // ─── Server cart sync helpers (for logged-in users) ────────────────────────
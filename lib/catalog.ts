@@ -0,0 +1,101 @@
+import { parseSearchFilters, searchFiltersToParams, EMPTY_SEARCH_FILTERS, type SearchFilters, type SearchFacets, type FacetCount } from "@/lib/search"
+
+/** Catalog browsing: the search facet filters plus the catalog's own badges, availability and sort */
+export const CATALOG_SORTS = ["default", "price-asc", "price-desc", "discount", "name-az"] as const
+export type CatalogSort = typeof CATALOG_SORTS[number]
+
+export const PRODUCT_AVAILABILITY = ["in_stock", "pre_order", "coming_soon", "out_of_stock", "sold_out"] as const
+
+export const CATALOG_PAGE_SIZE = 24
+export const CATALOG_MAX_PAGE_SIZE = 60
+
+export interface CatalogFilters extends SearchFilters {
+  q: string
+  subcategories: string[] // category slugs; when set they replace `category`
+  availability: string[] // product statuses
+  featured: boolean
+  bestSeller: boolean
+}
+
+export interface CatalogQuery extends CatalogFilters {
+  sort: CatalogSort
+  cursor: string | null
+}
+
+export interface CatalogFacets extends SearchFacets {
+  availability: FacetCount[]
+  featured: number
+  bestSeller: number
+}
+
+export const EMPTY_CATALOG_QUERY: CatalogQuery = {
+  ...EMPTY_SEARCH_FILTERS,
+  q: "",
+  subcategories: [],
+  availability: [],
+  featured: false,
+  bestSeller: false,
+  sort: "default",
+  cursor: null,
+}
+
+const list = (value: string | null) => (value ? value.split(",").map((v) => v.trim()).filter(Boolean) : [])
+
+/**
+ * Catalog query from a query string: the search filters plus `q`, `sub`, `availability`,
+ * `featured=1`, `bestSeller=1`, `sort` and `cursor`. The older `sale=true`, `featured=true`
+ * and `bestSeller=true` links are still understood.
+ */
+export function parseCatalogQuery(params: URLSearchParams): CatalogQuery {
+  const filters = parseSearchFilters(params)
+  const flag = (name: string) => params.get(name) === "1" || params.get(name) === "true"
+  const sort = params.get("sort") as CatalogSort | null
+  return {
+    ...filters,
+    onSale: filters.onSale || params.get("sale") === "true",
+    q: (params.get("q") ?? "").trim().slice(0, 100),
+    subcategories: list(params.get("sub")),
+    availability: list(params.get("availability")).filter((s) => (PRODUCT_AVAILABILITY as readonly string[]).includes(s)),
+    featured: flag("featured"),
+    bestSeller: flag("bestSeller"),
+    sort: sort && CATALOG_SORTS.includes(sort) ? sort : "default",
+    cursor: params.get("cursor") || null,
+  }
+}
+
+/** `parseCatalogQuery` for a page's `searchParams` prop */
+export function catalogQueryFromRecord(params: Record<string, string | string[] | undefined>): CatalogQuery {
+  return parseCatalogQuery(new URLSearchParams(
+    Object.entries(params).filter((entry): entry is [string, string] => typeof entry[1] === "string")
+  ))
+}
+
+/** The inverse of `parseCatalogQuery`, leaving out what is not set */
+export function catalogQueryToParams(query: CatalogQuery, params = new URLSearchParams()): URLSearchParams {
+  if (query.q) params.set("q", query.q)
+  searchFiltersToParams(query, params)
+  if (query.subcategories.length > 0) params.set("sub", query.subcategories.join(","))
+  if (query.availability.length > 0) params.set("availability", query.availability.join(","))
+  if (query.featured) params.set("featured", "1")
+  if (query.bestSeller) params.set("bestSeller", "1")
+  if (query.sort !== "default") params.set("sort", query.sort)
+  if (query.cursor) params.set("cursor", query.cursor)
+  return params
+}
+
+/** Opaque position after the last product of a page: its offset, checked against its id */
+export function encodeCatalogCursor(offset: number, id: string): string {
+  return `${offset}.${id}`
+}
+
+/** Largest offset Postgres accepts as an int */
+const MAX_CURSOR_OFFSET = 2147483647
+
+/** Malformed or out-of-range cursors decode to null — the first page */
+export function decodeCatalogCursor(cursor: string | null): { offset: number; id: string } | null {
+  const match = cursor?.match(/^(\d+)\.([\w-]+)$/)
+  if (!match) return null
+  const offset = Number(match[1])
+  if (!Number.isSafeInteger(offset) || offset > MAX_CURSOR_OFFSET) return null
+  return { offset, id: match[2] }
+}
@@ -0,0 +1,20 @@
+// ISO 3166-1 alpha-2 codes offered for delivery addresses and shipping zones.
+// Display names come from Intl.DisplayNames so no per-locale tables are needed.
+
+export const SHIPPING_COUNTRIES = [
+  "BG", "AT", "BE", "HR", "CY", "CZ", "DK", "EE", "FI", "FR", "DE", "GR", "HU", "IE", "IT",
+  "LV", "LT", "LU", "MT", "NL", "PL", "PT", "RO", "SK", "SI", "ES", "SE",
+  "AL", "BA", "CH", "GB", "IS", "LI", "MD", "ME", "MK", "NO", "RS", "TR", "UA",
+] as const
+
+export function isShippingCountry(code: string | null | undefined): boolean {
+  return !!code && (SHIPPING_COUNTRIES as readonly string[]).includes(code)
+}
+
+export function getCountryName(code: string, locale: string): string {
+  try {
+    return new Intl.DisplayNames([locale], { type: "region" }).of(code) ?? code
+  } catch {
+    return code
+  }
+}
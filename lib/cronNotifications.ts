@@ -1,5 +1,7 @@
 import prisma from "@/lib/prisma"
 import { getOrthodoxEasterDate } from "@/lib/orthodoxEaster"
+import { getQuoteSla } from "@/lib/quoteConfig"
+import { quoteReminderFrom } from "@/lib/quoteSla"
 
 /** Coupon code prefixes by trigger type */
 const COUPON_PREFIXES: Record<string, string> = {
@@ -973,3 +975,95 @@ export async function processReminderNotifications(): Promise<{
 
   return result
 }
+
+/**
+ * Expire quoted prices past their validity and remind customers whose quote
+ * expires soon. Expired quotes get a message in their conversation.
+ */
+export async function processQuoteFollowUps(): Promise<{
+  expired: number
+  reminded: number
+  errors: string[]
+}> {
+  const result = { expired: 0, reminded: 0, errors: [] as string[] }
+  const now = new Date()
+
+  try {
+    const sla = await getQuoteSla()
+
+    const lapsed = await prisma.quoteRequest.findMany({
+      where: { status: "quoted", expiresAt: { lte: now } },
+      select: { id: true, quoteNumber: true },
+    })
+    for (const quote of lapsed) {
+      try {
+        // Re-check the status so a quote accepted meanwhile stays accepted
+        const { count } = await prisma.quoteRequest.updateMany({
+          where: { id: quote.id, status: "quoted" },
+          data: { status: "expired" },
+        })
+        if (count === 0) continue
+        await prisma.quoteMessage.create({
+          data: { quoteId: quote.id, senderType: "admin", message: JSON.stringify({ key: "expired" }) },
+        })
+        result.expired++
+      } catch (err) {
+        result.errors.push(`Expiry for quote ${quote.quoteNumber}: ${err}`)
+      }
+    }
+
+    if (sla.reminderDays > 0) {
+      const candidates = await prisma.quoteRequest.findMany({
+        where: { status: "quoted", expiresAt: { gt: now }, expiryReminderSentAt: null },
+        select: { id: true, quoteNumber: true, email: true, userId: true, expiresAt: true, quotedPrice: true },
+      })
+      for (const quote of candidates) {
+        try {
+          const remindAt = quoteReminderFrom(quote.expiresAt!, sla)
+          if (!remindAt || remindAt > now) continue
+
+          // userId preferred; email fallback for legacy quotes without userId
+          const user = quote.userId
+            ? { id: quote.userId }
+            : await prisma.user.findFirst({ where: { email: quote.email }, select: { id: true } })
+
+          if (user) {
+            const price = quote.quotedPrice ? ` (€${Number(quote.quotedPrice).toFixed(2)})` : ""
+            const date = quote.expiresAt!.toISOString().slice(0, 10)
+            await prisma.notification.create({
+              data: {
+                userId: user.id,
+                type: "quote_reminder",
+                title: JSON.stringify({
+                  bg: `⏰ Офертата ${quote.quoteNumber} изтича скоро`,
+                  en: `⏰ Quote ${quote.quoteNumber} expires soon`,
+                  es: `⏰ El presupuesto ${quote.quoteNumber} caduca pronto`,
+                }),
+                message: JSON.stringify({
+                  bg: `Цената${price} е валидна до ${date}. Приеми офертата или ни пиши, ако искаш промени.`,
+                  en: `The price${price} is valid until ${date}. Accept the quote or reply if you'd like changes.`,
+                  es: `El precio${price} es válido hasta el ${date}. Acepta el presupuesto o escríbenos si quieres cambios.`,
+                }),
+                link: `/my-orders?quoteId=${quote.id}`,
+                quoteId: quote.id,
+              },
+            })
+          }
+
+          // Marked even without an account so the quote isn't checked again
+          await prisma.quoteRequest.update({
+            where: { id: quote.id },
+            data: { expiryReminderSentAt: now },
+          })
+          if (user) result.reminded++
+        } catch (err) {
+          result.errors.push(`Reminder for quote ${quote.quoteNumber}: ${err}`)
+        }
+      }
+    }
+  } catch (err) {
+    result.errors.push(`Quote follow-up processing failed: ${err}`)
+  }
+
+  return result
+}
@@ -0,0 +1,57 @@
+export interface DownloadLimits {
+  maxDownloads: number // downloads allowed per link
+  linkDays: number // how long a link works after it is issued
+  maxReissues: number // fresh links a customer can request per purchase; 0 = only staff can
+}
+
+export const DEFAULT_DOWNLOAD_LIMITS: DownloadLimits = {
+  maxDownloads: 3,
+  linkDays: 7,
+  maxReissues: 3,
+}
+
+export type DownloadStatus = "active" | "expired" | "used_up" | "revoked"
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+const int = (value: unknown, fallback: number, min: number, max: number) =>
+  typeof value === "number" && Number.isFinite(value) ? Math.round(Math.max(min, Math.min(max, value))) : fallback
+
+/** Stored as JSON in SiteSettings.downloadLimits; missing or invalid fields use the defaults */
+export function parseDownloadLimits(json: string | null | undefined): DownloadLimits {
+  let raw: Record<string, unknown> = {}
+  try {
+    const parsed = JSON.parse(json || "{}")
+    if (parsed && typeof parsed === "object" && !Array.isArray(parsed)) raw = parsed
+  } catch { /* fall back to defaults */ }
+  const d = DEFAULT_DOWNLOAD_LIMITS
+  return {
+    maxDownloads: int(raw.maxDownloads, d.maxDownloads, 1, 100),
+    linkDays: int(raw.linkDays, d.linkDays, 1, 365),
+    maxReissues: int(raw.maxReissues, d.maxReissues, 0, 50),
+  }
+}
+
+/** When a link issued at `issuedAt` stops working */
+export function downloadExpiryFrom(issuedAt: Date, days: number): Date {
+  return new Date(issuedAt.getTime() + days * DAY_MS)
+}
+
+/** Whether a purchase's current link still works, and why not */
+export function downloadStatus(
+  purchase: { revokedAt: string | Date | null; expiresAt: string | Date; downloadCount: number; maxDownloads: number },
+  now = new Date()
+): DownloadStatus {
+  if (purchase.revokedAt) return "revoked"
+  if (purchase.downloadCount >= purchase.maxDownloads) return "used_up"
+  if (new Date(purchase.expiresAt) <= now) return "expired"
+  return "active"
+}
+
+/** Customers can swap a lapsed or used-up link for a fresh one until they run out of re-issues */
+export function canReissue(
+  purchase: { revokedAt: string | Date | null; reissueCount: number },
+  limits: DownloadLimits
+): boolean {
+  return !purchase.revokedAt && purchase.reissueCount < limits.maxReissues
+}
@@ -0,0 +1,66 @@
+import { randomBytes } from "crypto"
+import prisma from "@/lib/prisma"
+import { parseDownloadLimits, downloadExpiryFrom, type DownloadLimits } from "@/lib/downloadLimits"
+
+export async function getDownloadLimits(): Promise<DownloadLimits> {
+  const settings = await prisma.siteSettings.findUnique({ where: { id: "singleton" }, select: { downloadLimits: true } })
+  return parseDownloadLimits(settings?.downloadLimits)
+}
+
+export function newDownloadToken(): string {
+  return randomBytes(32).toString("hex")
+}
+
+/** A fresh link under the current limits — what a new purchase or a re-issue hands out */
+export function freshDownloadLink(limits: DownloadLimits) {
+  return {
+    downloadToken: newDownloadToken(),
+    downloadCount: 0,
+    maxDownloads: limits.maxDownloads,
+    expiresAt: downloadExpiryFrom(new Date(), limits.linkDays),
+  }
+}
+
+/**
+ * Replace a purchase's link with a fresh one; the old token stops working at once.
+ * Conditioned on the re-issue count read by the caller so two clicks cannot both count as one.
+ * Returns the new token, or null when the purchase changed in the meantime.
+ */
+export async function reissueDownload(
+  purchase: { id: string; reissueCount: number },
+  limits: DownloadLimits
+): Promise<string | null> {
+  const link = freshDownloadLink(limits)
+  const result = await prisma.digitalPurchase.updateMany({
+    where: { id: purchase.id, reissueCount: purchase.reissueCount, revokedAt: null },
+    data: { ...link, reissueCount: purchase.reissueCount + 1 },
+  })
+  return result.count === 1 ? link.downloadToken : null
+}
+
+/**
+ * Digital purchases of a customer — those linked to the account, plus guest purchases made with its
+ * email. Emails are not verified at sign-up, so the guest ones come back `locked` until the customer
+ * attaches their guest orders with an order number.
+ */
+export async function getCustomerPurchases(user: { id: string; email: string | null }) {
+  const purchases = await prisma.digitalPurchase.findMany({
+    where: {
+      OR: [
+        { userId: user.id },
+        ...(user.email ? [{ userId: null, email: { equals: user.email, mode: "insensitive" as const } }] : []),
+      ],
+    },
+    orderBy: { createdAt: "desc" },
+  })
+  const products = await prisma.product.findMany({
+    where: { id: { in: [...new Set(purchases.map((p) => p.productId))] } },
+    select: { id: true, nameEn: true, nameBg: true, nameEs: true, image: true, fileThumbnail: true },
+  })
+  const byId = new Map(products.map((p) => [p.id, p]))
+  return purchases.map((purchase) => ({
+    ...purchase,
+    locked: purchase.userId !== user.id,
+    product: byId.get(purchase.productId) ?? null,
+  }))
+}
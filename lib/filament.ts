@@ -0,0 +1,269 @@
+import { Prisma } from "@prisma/client"
+import prisma from "@/lib/prisma"
+import { drawFromSpools, stockLevel } from "@/lib/filamentStock"
+import { getStaffWithPermission } from "@/lib/permissions"
+import { partPrintConfig, printConfigOf, type PartConfig } from "@/lib/printConfig"
+import type { QuoteEstimate } from "@/lib/quotePricing"
+import { notifyRestock, syncStockStatuses } from "@/lib/stock"
+
+/** Filament a finished line used. The source key makes consumption safe to run twice. */
+interface FilamentNeed {
+  sourceKey: string
+  label: string
+  materialId: string | null
+  colorId: string | null
+  grams: number | null
+}
+
+function isUniqueViolation(error: unknown): boolean {
+  return error instanceof Prisma.PrismaClientKnownRequestError && error.code === "P2002"
+}
+
+/** Catalog products don't name a material — they are printed in the first active one */
+async function defaultMaterialId(): Promise<string | null> {
+  const material = await prisma.printMaterial.findFirst({
+    where: { active: true },
+    orderBy: [{ order: "asc" }, { name: "asc" }],
+    select: { id: true },
+  })
+  return material?.id ?? null
+}
+
+/** Each part of a quote with the weight of its estimate — legacy single-file quotes are one part */
+async function quoteNeeds(quoteId: string): Promise<FilamentNeed[]> {
+  const quote = await prisma.quoteRequest.findUnique({
+    where: { id: quoteId },
+    select: {
+      quoteNumber: true,
+      fileName: true,
+      estimate: true,
+      materialId: true,
+      colorId: true,
+      layerHeight: true,
+      infill: true,
+      quantity: true,
+      finish: true,
+      deadline: true,
+      files: { orderBy: [{ order: "asc" }, { createdAt: "asc" }], select: { name: true, config: true } },
+    },
+  })
+  if (!quote) return []
+
+  const estimate = quote.estimate as QuoteEstimate | null
+  const quoteConfig = printConfigOf(quote)
+  if (quote.files.length === 0) {
+    return [{
+      sourceKey: `quote:${quoteId}:0`,
+      label: `${quote.quoteNumber} · ${quote.fileName || quote.quoteNumber}`,
+      materialId: quoteConfig.materialId,
+      colorId: quoteConfig.colorId,
+      grams: estimate?.grams ?? null,
+    }]
+  }
+  return quote.files.map((file, i) => {
+    const config = partPrintConfig(quoteConfig, file.config as PartConfig | null)
+    const part = estimate?.parts?.length === quote.files.length ? estimate.parts[i] : null
+    return {
+      sourceKey: `quote:${quoteId}:${i}`,
+      label: `${quote.quoteNumber} · ${file.name}`,
+      materialId: config.materialId,
+      colorId: config.colorId,
+      grams: part?.grams ?? null,
+    }
+  })
+}
+
+/** Physical catalog lines, weighed by their size option */
+async function orderItemNeeds(orderId: string, orderNumber: string): Promise<FilamentNeed[]> {
+  const items = await prisma.orderItem.findMany({
+    where: { orderId, fileType: { not: "digital" } },
+    select: { id: true, nameEn: true, packageLabel: true, weightId: true, colorId: true, quantity: true },
+  })
+  const weightIds = [...new Set(items.map((item) => item.weightId).filter((id): id is string => !!id))]
+  const weights = weightIds.length > 0
+    ? await prisma.weight.findMany({ where: { id: { in: weightIds } }, select: { id: true, grams: true } })
+    : []
+  const gramsById = new Map(weights.map((weight) => [weight.id, weight.grams]))
+
+  return items.map((item) => {
+    const grams = item.weightId ? gramsById.get(item.weightId) : null
+    return {
+      sourceKey: `item:${item.id}`,
+      label: `${orderNumber} · ${item.packageLabel ? `${item.nameEn} (${item.packageLabel})` : item.nameEn}`,
+      materialId: null,
+      colorId: item.colorId,
+      grams: grams ? grams * item.quantity : null,
+    }
+  })
+}
+
+/**
+ * Take the filament of every need from its material+color spools. Needs without a weight,
+ * a color or a stocked material+color are skipped; a usage row is inserted before the
+ * spools are touched, so a repeated call does nothing.
+ */
+async function consume(needs: FilamentNeed[], orderId: string | null): Promise<void> {
+  const fallbackMaterialId = needs.some((need) => !need.materialId) ? await defaultMaterialId() : null
+  const touchedStocks = new Set<string>()
+
+  for (const need of needs) {
+    const materialId = need.materialId ?? fallbackMaterialId
+    if (!need.grams || need.grams <= 0 || !need.colorId || !materialId) continue
+    const stock = await prisma.filamentStock.findUnique({
+      where: { materialId_colorId: { materialId, colorId: need.colorId } },
+      select: { id: true, spools: { where: { remainingGrams: { gt: 0 } }, orderBy: { createdAt: "asc" }, select: { id: true, remainingGrams: true } } },
+    })
+    if (!stock) continue
+
+    let usageId: string
+    try {
+      const usage = await prisma.filamentUsage.create({
+        data: { stockId: stock.id, sourceKey: need.sourceKey, orderId, label: need.label, grams: need.grams },
+      })
+      usageId = usage.id
+    } catch (error) {
+      if (isUniqueViolation(error)) continue
+      throw error
+    }
+
+    const { draws, short } = drawFromSpools(stock.spools, need.grams)
+    for (const draw of draws) {
+      await prisma.filamentSpool.update({ where: { id: draw.id }, data: { remainingGrams: { decrement: draw.grams } } })
+    }
+    if (short > 0) {
+      await prisma.filamentUsage.update({ where: { id: usageId }, data: { shortGrams: short } })
+    }
+    touchedStocks.add(stock.id)
+  }
+
+  await checkStockLevels([...touchedStocks])
+}
+
+/** Record the filament of a completed order — quote orders by their parts, others by their lines */
+export async function consumeFilamentForOrder(orderId: string): Promise<void> {
+  const order = await prisma.order.findUnique({
+    where: { id: orderId },
+    select: { orderNumber: true, quote: { select: { id: true } } },
+  })
+  if (!order) return
+  const needs = order.quote ? await quoteNeeds(order.quote.id) : await orderItemNeeds(orderId, order.orderNumber)
+  await consume(needs, orderId)
+}
+
+/** Record the filament of a quote produced without an order (marked paid by hand) */
+export async function consumeFilamentForQuote(quoteId: string): Promise<void> {
+  await consume(await quoteNeeds(quoteId), null)
+}
+
+/**
+ * Alert stock editors once when a material+color drops to its threshold, and re-arm the
+ * alert after a refill. Color availability in the catalog follows afterwards.
+ */
+export async function checkStockLevels(stockIds: string[]): Promise<void> {
+  if (stockIds.length === 0) return
+  const stocks = await prisma.filamentStock.findMany({
+    where: { id: { in: stockIds } },
+    select: {
+      id: true,
+      colorId: true,
+      lowStockGrams: true,
+      lowStockNotifiedAt: true,
+      material: { select: { name: true } },
+      color: { select: { nameEn: true, nameBg: true, nameEs: true } },
+      spools: { select: { remainingGrams: true } },
+    },
+  })
+
+  let recipients: { id: string }[] | null = null
+  for (const stock of stocks) {
+    const remaining = Math.round(stock.spools.reduce((sum, spool) => sum + Math.max(spool.remainingGrams, 0), 0))
+    const level = stockLevel(remaining, stock.lowStockGrams)
+
+    if (level === "ok") {
+      if (stock.lowStockNotifiedAt) {
+        await prisma.filamentStock.update({ where: { id: stock.id }, data: { lowStockNotifiedAt: null } })
+      }
+      continue
+    }
+    if (stock.lowStockNotifiedAt) continue
+
+    recipients ??= await getStaffWithPermission("products", "edit")
+    const out = level === "out"
+    for (const user of recipients) {
+      await prisma.notification.create({
+        data: {
+          userId: user.id,
+          type: "low_stock",
+          title: JSON.stringify({
+            bg: out ? `🧵 ${stock.material.name} ${stock.color.nameBg} свърши` : `🧵 Малко ${stock.material.name} ${stock.color.nameBg}`,
+            en: out ? `🧵 ${stock.material.name} ${stock.color.nameEn} ran out` : `🧵 ${stock.material.name} ${stock.color.nameEn} is running low`,
+            es: out ? `🧵 ${stock.material.name} ${stock.color.nameEs} agotado` : `🧵 Queda poco ${stock.material.name} ${stock.color.nameEs}`,
+          }),
+          message: JSON.stringify({
+            bg: `Остават ${remaining} g (праг ${stock.lowStockGrams} g). Добави нова бобина в инвентара.`,
+            en: `${remaining} g left (threshold ${stock.lowStockGrams} g). Add a spool in the inventory.`,
+            es: `Quedan ${remaining} g (umbral ${stock.lowStockGrams} g). Añade una bobina en el inventario.`,
+          }),
+          link: "/admin/inventory",
+        },
+      })
+    }
+    await prisma.filamentStock.update({ where: { id: stock.id }, data: { lowStockNotifiedAt: new Date() } })
+  }
+
+  await syncColorAvailability([...new Set(stocks.map((stock) => stock.colorId))])
+}
+
+/** Colors whose every stocked material is empty — catalog items in them can't be printed */
+export async function getRunOutColorIds(colorIds?: string[]): Promise<Set<string>> {
+  const stocks = await prisma.filamentStock.findMany({
+    where: colorIds ? { colorId: { in: colorIds } } : {},
+    select: { colorId: true, spools: { select: { remainingGrams: true } } },
+  })
+  const inStock = new Map<string, boolean>()
+  for (const stock of stocks) {
+    const hasFilament = stock.spools.some((spool) => spool.remainingGrams > 0)
+    inStock.set(stock.colorId, (inStock.get(stock.colorId) ?? false) || hasFilament)
+  }
+  return new Set([...inStock].filter(([, available]) => !available).map(([colorId]) => colorId))
+}
+
+/**
+ * With auto sold-out on, made-to-order cells (no tracked stock) in a run-out color are marked
+ * sold out, and put back on sale with a wishlist notification once the color is refilled.
+ * Cells with tracked stock or an admin-chosen status are never touched.
+ */
+export async function syncColorAvailability(colorIds: string[]): Promise<void> {
+  if (colorIds.length === 0) return
+  const settings = await prisma.siteSettings.findUnique({ where: { id: "singleton" }, select: { filamentAutoSoldOut: true } })
+  const runOut = settings?.filamentAutoSoldOut ? await getRunOutColorIds(colorIds) : new Set<string>()
+
+  for (const colorId of colorIds) {
+    const soldOut = runOut.has(colorId)
+    const cells = await prisma.productPackageVariant.findMany({
+      where: soldOut
+        ? { variant: { colorId }, stock: null, status: "in_stock" }
+        : { variant: { colorId }, filamentSoldOut: true, status: "sold_out" },
+      select: { id: true, package: { select: { productId: true } } },
+    })
+    if (cells.length === 0) continue
+
+    await prisma.productPackageVariant.updateMany({
+      where: { id: { in: cells.map((cell) => cell.id) } },
+      data: soldOut ? { status: "sold_out", filamentSoldOut: true } : { status: "in_stock", filamentSoldOut: false },
+    })
+    for (const productId of new Set(cells.map((cell) => cell.package.productId))) {
+      await syncStockStatuses(productId)
+      if (!soldOut) notifyRestock(productId, colorId).catch(() => {})
+    }
+  }
+}
+
+/** Re-apply auto sold-out everywhere — after the setting is switched or a stock is removed */
+export async function syncAllColorAvailability(): Promise<void> {
+  const [stocks, flagged] = await Promise.all([
+    prisma.filamentStock.findMany({ distinct: ["colorId"], select: { colorId: true } }),
+    prisma.productPackageVariant.findMany({ where: { filamentSoldOut: true }, select: { variant: { select: { colorId: true } } } }),
+  ])
+  await syncColorAvailability([...new Set([...stocks.map((stock) => stock.colorId), ...flagged.map((cell) => cell.variant.colorId)])])
+}
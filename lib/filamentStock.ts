@@ -0,0 +1,27 @@
+/** How a material+color is stocked relative to its low-stock threshold */
+export type StockLevel = "ok" | "low" | "out"
+
+export function stockLevel(remainingGrams: number, lowStockGrams: number): StockLevel {
+  if (remainingGrams <= 0) return "out"
+  if (remainingGrams <= lowStockGrams) return "low"
+  return "ok"
+}
+
+type SpoolBalance = { id: string; remainingGrams: number }
+
+/**
+ * Take `grams` from spools oldest first, so opened spools are finished before new ones.
+ * `short` is what the spools could not cover — consumption is still recorded in full.
+ */
+export function drawFromSpools(spools: SpoolBalance[], grams: number): { draws: { id: string; grams: number }[]; short: number } {
+  const draws: { id: string; grams: number }[] = []
+  let left = grams
+  for (const spool of spools) {
+    if (left <= 0) break
+    const take = Math.min(Math.max(spool.remainingGrams, 0), left)
+    if (take <= 0) continue
+    draws.push({ id: spool.id, grams: take })
+    left -= take
+  }
+  return { draws, short: Math.round(Math.max(left, 0) * 10) / 10 }
+}
@@ -0,0 +1,257 @@
+import path from "path"
+import PDFDocument from "pdfkit"
+import type { VatBreakdownLine } from "@/lib/vat"
+
+/** Everything printed on an invoice or credit note — snapshotted in Invoice.data */
+export interface InvoiceData {
+  seller: { name: string; address: string; companyId: string; vatNumber: string; email: string }
+  buyer: { name: string; email: string; addressLines: string[]; vatNumber: string | null }
+  orderNumber: string
+  supplyDate: string // ISO — date of the taxable event (payment)
+  lines: Array<{ description: string; quantity: number; unitPrice: number; vatRate: number; total: number }>
+  breakdown: VatBreakdownLine[]
+  total: number
+  vatAmount: number
+  currency: string
+  reverseCharge: boolean
+  exportSale: boolean
+  originalInvoice?: { number: string; issuedAt: string } | null // credit notes only
+}
+
+export type InvoiceLabel =
+  | "invoice" | "creditNote" | "original" | "number" | "issueDate" | "supplyDate" | "order" | "relatesTo"
+  | "seller" | "buyer" | "companyId" | "vatNumber" | "description" | "quantity" | "unitPrice"
+  | "vatRate" | "amount" | "taxBase" | "vat" | "total" | "totalCredited" | "payment" | "reverseCharge" | "exportSale"
+  | "shipping" | "adjustment"
+
+// Bulgarian is always printed; the customer's language is added next to it
+const LABELS: Record<string, Record<InvoiceLabel, string>> = {
+  bg: {
+    invoice: "Фактура",
+    creditNote: "Кредитно известие",
+    original: "Оригинал",
+    number: "Номер",
+    issueDate: "Дата на издаване",
+    supplyDate: "Дата на данъчното събитие",
+    order: "Поръчка",
+    relatesTo: "Към фактура",
+    seller: "Доставчик",
+    buyer: "Получател",
+    companyId: "ЕИК",
+    vatNumber: "ДДС №",
+    description: "Описание",
+    quantity: "Кол.",
+    unitPrice: "Ед. цена",
+    vatRate: "ДДС %",
+    amount: "Стойност",
+    taxBase: "Данъчна основа",
+    vat: "ДДС",
+    total: "Сума за плащане",
+    totalCredited: "Сума за възстановяване",
+    payment: "Платено с карта (Stripe)",
+    reverseCharge: "Обратно начисляване — ДДС се начислява от получателя",
+    exportSale: "Доставка извън ЕС — 0% ДДС",
+    shipping: "Доставка",
+    adjustment: "Частично възстановяване",
+  },
+  en: {
+    invoice: "Invoice",
+    creditNote: "Credit note",
+    original: "Original",
+    number: "Number",
+    issueDate: "Date of issue",
+    supplyDate: "Date of supply",
+    order: "Order",
+    relatesTo: "Relates to invoice",
+    seller: "Supplier",
+    buyer: "Customer",
+    companyId: "Company ID",
+    vatNumber: "VAT no.",
+    description: "Description",
+    quantity: "Qty",
+    unitPrice: "Unit price",
+    vatRate: "VAT %",
+    amount: "Amount",
+    taxBase: "Taxable amount",
+    vat: "VAT",
+    total: "Total paid",
+    totalCredited: "Total credited",
+    payment: "Paid by card (Stripe)",
+    reverseCharge: "Reverse charge — VAT to be accounted for by the customer",
+    exportSale: "Supply outside the EU — 0% VAT",
+    shipping: "Shipping",
+    adjustment: "Partial refund",
+  },
+  es: {
+    invoice: "Factura",
+    creditNote: "Nota de crédito",
+    original: "Original",
+    number: "Número",
+    issueDate: "Fecha de emisión",
+    supplyDate: "Fecha de devengo",
+    order: "Pedido",
+    relatesTo: "Factura rectificada",
+    seller: "Proveedor",
+    buyer: "Cliente",
+    companyId: "N.º registro",
+    vatNumber: "NIF-IVA",
+    description: "Descripción",
+    quantity: "Cant.",
+    unitPrice: "Precio unit.",
+    vatRate: "IVA %",
+    amount: "Importe",
+    taxBase: "Base imponible",
+    vat: "IVA",
+    total: "Total pagado",
+    totalCredited: "Total abonado",
+    payment: "Pagado con tarjeta (Stripe)",
+    reverseCharge: "Inversión del sujeto pasivo — IVA a cargo del cliente",
+    exportSale: "Entrega fuera de la UE — IVA 0%",
+    shipping: "Envío",
+    adjustment: "Reembolso parcial",
+  },
+}
+
+// DejaVu covers Latin and Cyrillic — the PDF standard fonts have no Cyrillic glyphs
+const FONT_DIR = path.join(process.cwd(), "node_modules", "dejavu-fonts-ttf", "ttf")
+
+const PAGE_BOTTOM = 770
+
+/** Bulgarian label, followed by the customer's language when it differs — "Доставка / Shipping" */
+export function invoiceLabel(key: InvoiceLabel, locale: string): string {
+  const other = locale !== "bg" ? LABELS[locale] ?? LABELS.en : null
+  return other ? `${LABELS.bg[key]} / ${other[key]}` : LABELS.bg[key]
+}
+
+/** Render an invoice or credit note as an A4 PDF */
+export function renderInvoicePdf(params: {
+  type: string
+  number: string
+  issuedAt: Date
+  locale: string
+  data: InvoiceData
+}): Promise<Buffer> {
+  const { data } = params
+  const isCreditNote = params.type === "credit_note"
+  const label = (key: InvoiceLabel) => invoiceLabel(key, params.locale)
+  const money = (n: number) => `${n.toFixed(2)} ${data.currency}`
+  const date = (iso: string | Date) => new Date(iso).toLocaleDateString("bg-BG", { timeZone: "Europe/Sofia" })
+
+  const doc = new PDFDocument({ size: "A4", margin: 50, info: { Title: `${LABELS.bg[isCreditNote ? "creditNote" : "invoice"]} ${params.number}` } })
+  doc.registerFont("regular", path.join(FONT_DIR, "DejaVuSans.ttf"))
+  doc.registerFont("bold", path.join(FONT_DIR, "DejaVuSans-Bold.ttf"))
+
+  const chunks: Buffer[] = []
+  doc.on("data", (chunk: Buffer) => chunks.push(chunk))
+  const done = new Promise<Buffer>((resolve, reject) => {
+    doc.on("end", () => resolve(Buffer.concat(chunks)))
+    doc.on("error", reject)
+  })
+
+  // Title block
+  doc.font("bold").fontSize(18).text(label(isCreditNote ? "creditNote" : "invoice").toUpperCase(), 50, 50)
+  doc.font("regular").fontSize(9).fillColor("#555555").text(label("original"))
+  doc.moveDown(0.5)
+  doc.fillColor("#000000").fontSize(10)
+  doc.font("bold").text(`${label("number")}: ${params.number}`)
+  doc.font("regular")
+  doc.text(`${label("issueDate")}: ${date(params.issuedAt)}`)
+  doc.text(`${label("supplyDate")}: ${date(data.supplyDate)}`)
+  doc.text(`${label("order")}: ${data.orderNumber}`)
+  if (isCreditNote && data.originalInvoice) {
+    doc.text(`${label("relatesTo")}: ${data.originalInvoice.number} / ${date(data.originalInvoice.issuedAt)}`)
+  }
+
+  // Parties
+  const partiesTop = doc.y + 20
+  const column = (x: number, title: string, rows: string[]) => {
+    doc.font("bold").fontSize(10).text(title, x, partiesTop, { width: 230 })
+    doc.font("regular").fontSize(9)
+    for (const row of rows.filter(Boolean)) doc.text(row, x, doc.y, { width: 230 })
+    return doc.y
+  }
+  const sellerBottom = column(50, label("seller"), [
+    data.seller.name,
+    ...data.seller.address.split("\n"),
+    data.seller.companyId ? `${label("companyId")}: ${data.seller.companyId}` : "",
+    data.seller.vatNumber ? `${label("vatNumber")}: ${data.seller.vatNumber}` : "",
+    data.seller.email,
+  ])
+  const buyerBottom = column(315, label("buyer"), [
+    data.buyer.name,
+    ...data.buyer.addressLines,
+    data.buyer.vatNumber ? `${label("vatNumber")}: ${data.buyer.vatNumber}` : "",
+    data.buyer.email,
+  ])
+
+  // Lines table
+  const cols = [
+    { key: "description" as const, x: 50, width: 225, align: "left" as const },
+    { key: "quantity" as const, x: 280, width: 40, align: "right" as const },
+    { key: "unitPrice" as const, x: 325, width: 75, align: "right" as const },
+    { key: "vatRate" as const, x: 405, width: 55, align: "right" as const },
+    { key: "amount" as const, x: 465, width: 80, align: "right" as const },
+  ]
+  const tableHeader = (top: number) => {
+    doc.font("bold").fontSize(8)
+    for (const col of cols) doc.text(label(col.key), col.x, top, { width: col.width, align: col.align })
+    const bottom = doc.y + 4
+    doc.moveTo(50, bottom).lineTo(545, bottom).strokeColor("#999999").stroke()
+    return bottom + 6
+  }
+
+  let y = tableHeader(Math.max(sellerBottom, buyerBottom) + 25)
+  doc.font("regular").fontSize(9)
+  for (const line of data.lines) {
+    const height = doc.heightOfString(line.description, { width: cols[0].width })
+    if (y + height > PAGE_BOTTOM) {
+      doc.addPage()
+      y = tableHeader(50)
+      doc.font("regular").fontSize(9)
+    }
+    const cells = [
+      line.description,
+      String(line.quantity),
+      money(line.unitPrice),
+      `${line.vatRate}%`,
+      money(line.total),
+    ]
+    cols.forEach((col, i) => doc.text(cells[i], col.x, y, { width: col.width, align: col.align }))
+    y += height + 6
+  }
+  doc.moveTo(50, y).lineTo(545, y).strokeColor("#999999").stroke()
+
+  // Totals — taxable amount and VAT per rate, then the gross total
+  if (y + 40 + data.breakdown.length * 28 > PAGE_BOTTOM) {
+    doc.addPage()
+    y = 50
+  }
+  y += 10
+  const totalRow = (text: string, value: string, bold = false) => {
+    doc.font(bold ? "bold" : "regular").fontSize(bold ? 10 : 9)
+    doc.text(text, 280, y, { width: 180, align: "right" })
+    doc.text(value, 465, y, { width: 80, align: "right" })
+    y = doc.y + 4
+  }
+  for (const line of data.breakdown) {
+    totalRow(`${label("taxBase")} ${line.rate}%`, money(line.net))
+    totalRow(`${label("vat")} ${line.rate}%`, money(line.vat))
+  }
+  totalRow(label(isCreditNote ? "totalCredited" : "total"), money(data.total), true)
+
+  // Notes
+  y += 15
+  doc.font("regular").fontSize(8).fillColor("#555555")
+  const notes = [
+    data.reverseCharge ? label("reverseCharge") : "",
+    data.exportSale && !data.reverseCharge ? label("exportSale") : "",
+    isCreditNote ? "" : label("payment"),
+  ].filter(Boolean)
+  for (const note of notes) {
+    doc.text(note, 50, y, { width: 495 })
+    y = doc.y + 2
+  }
+
+  doc.end()
+  return done
+}
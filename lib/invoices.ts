@@ -0,0 +1,265 @@
+import { randomBytes } from "crypto"
+import { Prisma } from "@prisma/client"
+import prisma from "@/lib/prisma"
+import { uploadBlob } from "@/lib/blob"
+import { getCountryName } from "@/lib/countries"
+import { isEuCountry, summarizeVat, type VatBreakdownLine } from "@/lib/vat"
+import { documentYear, assignNumber } from "@/lib/numbering"
+import { renderInvoicePdf, invoiceLabel, type InvoiceData } from "@/lib/invoicePdf"
+import type { ShippingAddress } from "@/lib/shipping"
+
+export const INVOICE_TYPES = ["invoice", "credit_note"] as const
+export type InvoiceType = (typeof INVOICE_TYPES)[number]
+
+const round2 = (n: number) => Math.round(n * 100) / 100
+
+/** Render the PDF of a numbered invoice and store it in blob storage */
+export async function ensureInvoicePdf(invoiceId: string): Promise<string | null> {
+  const invoice = await prisma.invoice.findUnique({ where: { id: invoiceId } })
+  if (!invoice?.number) return null
+  if (invoice.pdfUrl) return invoice.pdfUrl
+
+  const pdf = await renderInvoicePdf({
+    type: invoice.type,
+    number: invoice.number,
+    issuedAt: invoice.issuedAt,
+    locale: invoice.locale,
+    data: invoice.data as unknown as InvoiceData,
+  })
+  // Random suffix — blob URLs are public, so they must not be guessable from the number
+  const pdfUrl = await uploadBlob(pdf, `${invoice.number}-${randomBytes(12).toString("hex")}.pdf`, {
+    folder: "invoices",
+    contentType: "application/pdf",
+  })
+  await prisma.invoice.update({ where: { id: invoice.id }, data: { pdfUrl } })
+  return pdfUrl
+}
+
+/**
+ * Create (or finish) the invoice row for a source document.
+ * The row is keyed by `sourceKey`, so concurrent or repeated calls end up with one invoice.
+ */
+async function issue(params: {
+  sourceKey: string
+  type: InvoiceType
+  orderId: string
+  refundId?: string | null
+  originalInvoiceId?: string | null
+  locale: string
+  data: InvoiceData
+}) {
+  let invoice = await prisma.invoice.findUnique({ where: { sourceKey: params.sourceKey } })
+  if (!invoice) {
+    const issuedAt = new Date()
+    invoice = await prisma.invoice
+      .create({
+        data: {
+          sourceKey: params.sourceKey,
+          type: params.type,
+          year: documentYear(issuedAt),
+          orderId: params.orderId,
+          refundId: params.refundId || null,
+          originalInvoiceId: params.originalInvoiceId || null,
+          locale: params.locale,
+          total: params.data.total,
+          vatAmount: params.data.vatAmount,
+          currency: params.data.currency,
+          data: JSON.parse(JSON.stringify(params.data)),
+          issuedAt,
+        },
+      })
+      // Lost a race with another delivery of the same event — use its row
+      .catch((error) => {
+        const taken = error instanceof Prisma.PrismaClientKnownRequestError && error.code === "P2002"
+        if (!taken) throw error
+        return prisma.invoice.findUnique({ where: { sourceKey: params.sourceKey } })
+      })
+    if (!invoice) throw new Error(`Could not create invoice for ${params.sourceKey}`)
+  }
+
+  // Only a row without a number is numbered, so a retried delivery never numbers the same invoice twice
+  if (!invoice.number) {
+    const number = await assignNumber("invoice", invoice.id, invoice.year)
+    if (number) invoice = { ...invoice, number }
+  }
+  if (invoice.number && !invoice.pdfUrl) {
+    await ensureInvoicePdf(invoice.id)
+  }
+  return prisma.invoice.findUnique({ where: { id: invoice.id } })
+}
+
+async function getSeller(): Promise<InvoiceData["seller"]> {
+  const settings = await prisma.siteSettings.findUnique({
+    where: { id: "singleton" },
+    select: {
+      invoiceSellerName: true,
+      invoiceSellerAddress: true,
+      invoiceSellerCompanyId: true,
+      invoiceSellerVatNumber: true,
+      invoiceSellerEmail: true,
+    },
+  })
+  return {
+    name: settings?.invoiceSellerName ?? "",
+    address: settings?.invoiceSellerAddress ?? "",
+    companyId: settings?.invoiceSellerCompanyId ?? "",
+    vatNumber: settings?.invoiceSellerVatNumber ?? "",
+    email: settings?.invoiceSellerEmail ?? "",
+  }
+}
+
+type OrderForInvoice = NonNullable<Awaited<ReturnType<typeof loadOrder>>>
+
+function loadOrder(orderId: string) {
+  return prisma.order.findUnique({
+    where: { id: orderId },
+    include: {
+      items: { orderBy: { createdAt: "asc" } },
+      refunds: { where: { status: "succeeded" }, orderBy: { createdAt: "asc" }, include: { items: true } },
+      invoices: true,
+    },
+  })
+}
+
+function buyerOf(order: OrderForInvoice): InvoiceData["buyer"] {
+  const address = order.shippingAddress as unknown as ShippingAddress | null
+  const country = address?.country || order.taxCountry
+  return {
+    name: address?.fullName || order.customerName,
+    email: order.customerEmail,
+    addressLines: [
+      address?.line1 ?? "",
+      address?.line2 ?? "",
+      address ? `${address.postalCode} ${address.city}` : "",
+      country ? getCountryName(country, "bg") : "",
+    ].filter(Boolean),
+    vatNumber: order.vatNumber,
+  }
+}
+
+/** Product name in Bulgarian, then in the invoice language, with the package and color */
+function describeItem(item: OrderForInvoice["items"][number], locale: string): string {
+  const localized = locale === "en" ? item.nameEn : locale === "es" ? item.nameEs : item.nameBg
+  const name = localized && localized !== item.nameBg ? `${item.nameBg} / ${localized}` : item.nameBg
+  const color = locale === "en" ? item.colorNameEn : locale === "es" ? item.colorNameEs : item.colorNameBg
+  const variant = [item.packageLabel, color || item.colorNameBg].filter(Boolean).join(", ")
+  return variant ? `${name} (${variant})` : name
+}
+
+function baseData(order: OrderForInvoice, seller: InvoiceData["seller"]) {
+  return {
+    seller,
+    buyer: buyerOf(order),
+    orderNumber: order.orderNumber,
+    supplyDate: order.createdAt.toISOString(),
+    currency: order.currency,
+    reverseCharge: order.reverseCharge,
+    exportSale: !!order.taxCountry && !isEuCountry(order.taxCountry),
+  }
+}
+
+function totalsOf(lines: InvoiceData["lines"]): { breakdown: VatBreakdownLine[]; total: number; vatAmount: number } {
+  const breakdown = summarizeVat(lines.map((l) => ({ gross: l.total, rate: l.vatRate })))
+  return {
+    breakdown,
+    total: round2(lines.reduce((sum, l) => sum + l.total, 0)),
+    vatAmount: round2(breakdown.reduce((sum, b) => sum + b.vat, 0)),
+  }
+}
+
+/**
+ * Issue the invoice for a paid order. Safe to call repeatedly — the existing invoice is
+ * returned (and finished if an earlier attempt stopped before numbering or rendering).
+ */
+export async function issueInvoice(orderId: string) {
+  const order = await loadOrder(orderId)
+  if (!order || order.total === null || !order.stripeSession) return null
+
+  const shippingFee = Number(order.shippingFee ?? 0)
+  const shippingVatRate = Number(order.shippingVatRate)
+  const lines: InvoiceData["lines"] = [
+    ...order.items.map((item) => ({
+      description: describeItem(item, order.locale),
+      quantity: item.quantity,
+      unitPrice: round2(Number(item.lineTotal) / item.quantity),
+      vatRate: Number(item.vatRate),
+      total: Number(item.lineTotal),
+    })),
+    ...(shippingFee > 0
+      ? [{
+          description: [invoiceLabel("shipping", order.locale), order.shippingMethodName].filter(Boolean).join(" — "),
+          quantity: 1,
+          unitPrice: shippingFee,
+          vatRate: shippingVatRate,
+          total: shippingFee,
+        }]
+      : []),
+  ]
+
+  return issue({
+    sourceKey: `order:${order.id}`,
+    type: "invoice",
+    orderId: order.id,
+    locale: order.locale,
+    data: { ...baseData(order, await getSeller()), lines, ...totalsOf(lines) },
+  })
+}
+
+/**
+ * Issue a credit note for every succeeded refund of an order that has none yet.
+ * Refunds of orders without an invoice are skipped — there is nothing to correct.
+ */
+export async function issueCreditNotes(orderId: string) {
+  const order = await loadOrder(orderId)
+  if (!order) return []
+  const original = order.invoices.find((i) => i.type === "invoice")
+  if (!original?.number) return []
+
+  const credited = new Set(order.invoices.map((i) => i.refundId).filter(Boolean))
+  const pending = order.refunds.filter((r) => !credited.has(r.id))
+  if (pending.length === 0) return []
+
+  const seller = await getSeller()
+  // Partial dashboard refunds carry no lines — they are credited at the order's main rate
+  const breakdown = (order.taxBreakdown as unknown as VatBreakdownLine[] | null) ?? []
+  const mainRate = [...breakdown].sort((a, b) => b.net + b.vat - (a.net + a.vat))[0]?.rate ?? 0
+
+  const issued = []
+  for (const refund of pending) {
+    const lines: InvoiceData["lines"] = refund.items.flatMap((ri) => {
+      const item = order.items.find((i) => i.id === ri.orderItemId)
+      if (!item) return []
+      return [{
+        description: describeItem(item, order.locale),
+        quantity: ri.quantity,
+        unitPrice: round2(Number(ri.amount) / ri.quantity),
+        vatRate: Number(item.vatRate),
+        total: Number(ri.amount),
+      }]
+    })
+    const remainder = round2(Number(refund.amount) - lines.reduce((sum, l) => sum + l.total, 0))
+    if (remainder > 0.005) {
+      const description = refund.includesShipping ? invoiceLabel("shipping", order.locale) : invoiceLabel("adjustment", order.locale)
+      const vatRate = refund.includesShipping ? Number(order.shippingVatRate) : mainRate
+      lines.push({ description, quantity: 1, unitPrice: remainder, vatRate, total: remainder })
+    }
+
+    const invoice = await issue({
+      sourceKey: `refund:${refund.id}`,
+      type: "credit_note",
+      orderId: order.id,
+      refundId: refund.id,
+      originalInvoiceId: original.id,
+      locale: order.locale,
+      data: {
+        ...baseData(order, seller),
+        supplyDate: refund.createdAt.toISOString(),
+        lines,
+        ...totalsOf(lines),
+        originalInvoice: { number: original.number, issuedAt: original.issuedAt.toISOString() },
+      },
+    })
+    if (invoice) issued.push(invoice)
+  }
+  return issued
+}
@@ -0,0 +1,257 @@
+import { unzipSync, strFromU8 } from "three/examples/jsm/libs/fflate.module.js"
+import { DEFAULT_MODEL_UNIT, MAX_MODEL_FILE_SIZE, unitFrom3mf, UNIT_TO_MM, type ModelFormat, type ModelUnit } from "@/lib/modelFormats"
+
+/** What the quote pricing needs to know about an uploaded model — all lengths in mm */
+export type MeshAnalysis = {
+  volume: number // mm³
+  surfaceArea: number // mm²
+  size: [number, number, number] // bounding box X × Y × Z
+  triangles: number
+  watertight: boolean
+  unit: ModelUnit // unit the file was read in
+  unitSource: "customer" | "file" | "default"
+}
+
+/** Most a 3MF may unpack to — XML is verbose, but anything beyond this is a zip bomb */
+const MAX_3MF_UNPACKED_SIZE = MAX_MODEL_FILE_SIZE * 4
+
+/**
+ * Most triangle corners a 3MF may expand to once components are instanced — as many
+ * triangles as a binary STL of the size limit holds (50 bytes each, 9 coordinates)
+ */
+const MAX_3MF_COORDINATES = Math.floor(MAX_MODEL_FILE_SIZE / 50) * 9
+
+/** Most component instances a 3MF may expand to, so empty nested components cannot fan out either */
+const MAX_3MF_INSTANCES = 100_000
+
+/** Flat list of triangle corners: x0,y0,z0, x1,y1,z1, x2,y2,z2 per triangle */
+type Triangles = Float64Array
+
+/** A parsed model, shared by the measurements and the preview renderer */
+export type ModelMesh = { triangles: Triangles; unit: ModelUnit | null }
+
+// ─── Parsers ─────────────────────────────────────────────
+
+function parseBinaryStl(buf: Buffer): Triangles {
+  const count = buf.readUInt32LE(80)
+  const out = new Float64Array(count * 9)
+  for (let i = 0; i < count; i++) {
+    const offset = 84 + i * 50 + 12 // skip the facet normal
+    for (let j = 0; j < 9; j++) out[i * 9 + j] = buf.readFloatLE(offset + j * 4)
+  }
+  return out
+}
+
+function parseAsciiStl(text: string): Triangles {
+  const coords: number[] = []
+  const vertex = /vertex\s+(\S+)\s+(\S+)\s+(\S+)/g
+  let m: RegExpExecArray | null
+  while ((m = vertex.exec(text))) coords.push(Number(m[1]), Number(m[2]), Number(m[3]))
+  return Float64Array.from(coords.slice(0, coords.length - (coords.length % 9)))
+}
+
+function parseStl(buf: Buffer): Triangles {
+  // Some exporters write "solid" into binary headers too, so trust the size check first
+  if (buf.length >= 84 && 84 + buf.readUInt32LE(80) * 50 === buf.length) return parseBinaryStl(buf)
+  return parseAsciiStl(buf.toString("utf8"))
+}
+
+/** OBJ is read Y-up and turned Z-up, so sizes line up with STL and 3MF */
+function parseObj(text: string): Triangles {
+  const vertices: number[][] = []
+  const coords: number[] = []
+  for (const line of text.split(/\r?\n/)) {
+    const parts = line.trim().split(/\s+/)
+    if (parts[0] === "v") {
+      vertices.push([Number(parts[1]), -Number(parts[3]), Number(parts[2])])
+    } else if (parts[0] === "f") {
+      const face = parts.slice(1).map((p) => {
+        const index = parseInt(p.split("/")[0], 10)
+        return vertices[index < 0 ? vertices.length + index : index - 1]
+      })
+      if (face.some((v) => !v)) continue
+      // Fan-triangulate quads and n-gons
+      for (let i = 1; i < face.length - 1; i++) coords.push(...face[0], ...face[i], ...face[i + 1])
+    }
+  }
+  return Float64Array.from(coords)
+}
+
+const attr = (tag: string, name: string) => tag.match(new RegExp(`\\b${name}="([^"]*)"`))?.[1]
+
+/** 3MF 3×4 transform ("m00 m01 m02 m10 … m32") as a point mapper */
+function parseTransform(value: string | undefined): ((p: number[]) => number[]) | null {
+  const m = value?.trim().split(/\s+/).map(Number)
+  if (!m || m.length !== 12 || m.some((n) => !Number.isFinite(n))) return null
+  return ([x, y, z]) => [
+    x * m[0] + y * m[3] + z * m[6] + m[9],
+    x * m[1] + y * m[4] + z * m[7] + m[10],
+    x * m[2] + y * m[5] + z * m[8] + m[11],
+  ]
+}
+
+interface ModelObject {
+  triangles: number[]
+  components: { path: string; objectId: string; transform: string | undefined }[]
+}
+
+/**
+ * 3MF: every `.model` part in the archive, with build items and components resolved
+ * (slicer projects keep meshes in separate files referenced via `p:path`).
+ */
+function parse3mf(buf: Buffer): { triangles: Triangles; unit: ModelUnit | null } {
+  // Entries are inflated into buffers of their declared size, so capping the declared total caps memory
+  let unpacked = 0
+  const files = unzipSync(new Uint8Array(buf), {
+    filter: (f) => {
+      if (!f.name.toLowerCase().endsWith(".model")) return false
+      unpacked += f.originalSize
+      if (unpacked > MAX_3MF_UNPACKED_SIZE) throw new Error("3MF unpacks to more than the size limit")
+      return true
+    },
+  })
+  const objects = new Map<string, ModelObject>()
+  let root: { path: string; xml: string } | null = null
+
+  for (const [name, data] of Object.entries(files)) {
+    const path = "/" + name.replace(/^\//, "")
+    const xml = strFromU8(data)
+    if (!root || path.toLowerCase() === "/3d/3dmodel.model") root = { path, xml }
+
+    for (const match of xml.matchAll(/<object\b([^>]*)>([\s\S]*?)<\/object>/g)) {
+      const id = attr(match[1], "id")
+      if (!id) continue
+      const body = match[2]
+      const vertices = [...body.matchAll(/<vertex\b([^>]*)\/?>/g)].map((v) =>
+        ["x", "y", "z"].map((axis) => Number(attr(v[1], axis)))
+      )
+      const triangles: number[] = []
+      for (const t of body.matchAll(/<triangle\b([^>]*)\/?>/g)) {
+        const corners = ["v1", "v2", "v3"].map((k) => vertices[Number(attr(t[1], k))])
+        if (corners.every(Boolean)) triangles.push(...corners.flat())
+      }
+      const components = [...body.matchAll(/<component\b([^>]*)\/?>/g)].map((c) => ({
+        path: attr(c[1], "p:path") ?? path,
+        objectId: attr(c[1], "objectid") ?? "",
+        transform: attr(c[1], "transform"),
+      }))
+      objects.set(`${path}#${id}`, { triangles, components })
+    }
+  }
+  if (!root) return { triangles: new Float64Array(), unit: null }
+
+  const out: number[] = []
+  let instances = 0
+  const emit = (key: string, transforms: ((p: number[]) => number[])[], depth: number) => {
+    const object = objects.get(key)
+    if (!object || depth > 16) return
+    if (++instances > MAX_3MF_INSTANCES) throw new Error("Model too complex")
+    for (let i = 0; i < object.triangles.length; i += 3) {
+      if (out.length >= MAX_3MF_COORDINATES) throw new Error("Model too complex")
+      let point = object.triangles.slice(i, i + 3)
+      for (const transform of transforms) point = transform(point)
+      out.push(...point)
+    }
+    for (const c of object.components) {
+      const transform = parseTransform(c.transform)
+      emit(`${c.path}#${c.objectId}`, transform ? [transform, ...transforms] : transforms, depth + 1)
+    }
+  }
+  const items = [...root.xml.matchAll(/<item\b([^>]*)\/?>/g)]
+  for (const item of items) {
+    const transform = parseTransform(attr(item[1], "transform"))
+    emit(`${attr(item[1], "p:path") ?? root.path}#${attr(item[1], "objectid")}`, transform ? [transform] : [], 0)
+  }
+
+  const unit = unitFrom3mf(root.xml.match(/<model\b[^>]*\bunit="([a-z]+)"/)?.[1] ?? "millimeter")
+  return { triangles: Float64Array.from(out), unit }
+}
+
+// ─── Measurements ────────────────────────────────────────
+
+/**
+ * Corners are welded by position (to 0.0001 units), then every edge must be shared by exactly
+ * two triangles. Holes leave single edges; non-manifold joins leave three or more.
+ */
+function isWatertight(t: Triangles): boolean {
+  const grid = t.map((n) => Math.round(n * 1e4))
+  const same = (a: number, b: number) =>
+    grid[a * 3] === grid[b * 3] && grid[a * 3 + 1] === grid[b * 3 + 1] && grid[a * 3 + 2] === grid[b * 3 + 2]
+
+  // Sorting the corners by position puts equal ones next to each other
+  const order = new Uint32Array(t.length / 3).map((_, i) => i)
+  order.sort((a, b) => grid[a * 3] - grid[b * 3] || grid[a * 3 + 1] - grid[b * 3 + 1] || grid[a * 3 + 2] - grid[b * 3 + 2])
+  const corners = new Uint32Array(order.length)
+  let stride = 0
+  for (let k = 0; k < order.length; k++) {
+    corners[order[k]] = k > 0 && same(order[k], order[k - 1]) ? corners[order[k - 1]] : stride++
+  }
+
+  const edges = new Map<number, number>()
+  for (let i = 0; i < corners.length; i += 3) {
+    for (let j = 0; j < 3; j++) {
+      const a = corners[i + j]
+      const b = corners[i + ((j + 1) % 3)]
+      if (a === b) continue // degenerate sliver
+      const key = Math.min(a, b) * stride + Math.max(a, b)
+      edges.set(key, (edges.get(key) ?? 0) + 1)
+    }
+  }
+  if (edges.size === 0) return false
+  for (const count of edges.values()) if (count !== 2) return false
+  return true
+}
+
+function measure(t: Triangles) {
+  let volume = 0
+  let area = 0
+  const min = [Infinity, Infinity, Infinity]
+  const max = [-Infinity, -Infinity, -Infinity]
+  for (let i = 0; i < t.length; i += 9) {
+    const [ax, ay, az, bx, by, bz, cx, cy, cz] = t.subarray(i, i + 9)
+    // Signed volume of the tetrahedron to the origin — sums to the enclosed volume
+    volume += (ax * (by * cz - bz * cy) - ay * (bx * cz - bz * cx) + az * (bx * cy - by * cx)) / 6
+    const ux = bx - ax, uy = by - ay, uz = bz - az
+    const vx = cx - ax, vy = cy - ay, vz = cz - az
+    area += Math.hypot(uy * vz - uz * vy, uz * vx - ux * vz, ux * vy - uy * vx) / 2
+    for (let j = 0; j < 9; j++) {
+      const axis = j % 3
+      if (t[i + j] < min[axis]) min[axis] = t[i + j]
+      if (t[i + j] > max[axis]) max[axis] = t[i + j]
+    }
+  }
+  const size = [0, 1, 2].map((axis) => (t.length ? max[axis] - min[axis] : 0)) as [number, number, number]
+  return { volume: Math.abs(volume), area, size }
+}
+
+const round = (n: number, digits: number) => Number(n.toFixed(digits))
+
+/** Triangles of a model in its own Z-up coordinates, with the unit when the file declares one */
+export function readTriangles(buf: Buffer, format: ModelFormat): ModelMesh {
+  let triangles: Triangles
+  let unit: ModelUnit | null = null
+  if (format === "stl") triangles = parseStl(buf)
+  else if (format === "obj") triangles = parseObj(buf.toString("utf8"))
+  else ({ triangles, unit } = parse3mf(buf))
+
+  if (triangles.length === 0 || triangles.some((n) => !Number.isFinite(n))) {
+    throw new Error("Model contains no readable triangles")
+  }
+  return { triangles, unit }
+}
+
+/** Measure a parsed model. The unit the customer picked in the preview wins over the one the file declares. */
+export function measureMesh({ triangles, unit: fileUnit }: ModelMesh, chosenUnit: ModelUnit | null = null): MeshAnalysis {
+  const raw = measure(triangles)
+  const unit = chosenUnit ?? fileUnit ?? DEFAULT_MODEL_UNIT
+  const scale = UNIT_TO_MM[unit]
+  return {
+    volume: round(raw.volume * scale ** 3, 2),
+    surfaceArea: round(raw.area * scale ** 2, 2),
+    size: raw.size.map((v) => round(v * scale, 2)) as [number, number, number],
+    triangles: triangles.length / 9,
+    watertight: isWatertight(triangles),
+    unit,
+    unitSource: chosenUnit ? "customer" : fileUnit ? "file" : "default",
+  }
+}
@@ -0,0 +1,35 @@
+export const MODEL_FORMATS = ["stl", "obj", "3mf"] as const
+export type ModelFormat = (typeof MODEL_FORMATS)[number]
+
+/** Upload limit per model file */
+export const MAX_MODEL_FILE_SIZE = 50 * 1024 * 1024
+
+export const MODEL_UNITS = ["mm", "cm", "m", "in"] as const
+export type ModelUnit = (typeof MODEL_UNITS)[number]
+
+export const UNIT_TO_MM: Record<ModelUnit, number> = { mm: 1, cm: 10, m: 1000, in: 25.4 }
+
+/** Format from a file name or URL — query strings and blob suffixes are ignored */
+export function modelFormatOf(name: string | null | undefined): ModelFormat | null {
+  if (!name) return null
+  const match = name.split("?")[0].toLowerCase().match(/\.(stl|obj|3mf)$/)
+  return match ? (match[1] as ModelFormat) : null
+}
+
+/** 3MF stores its unit in the model XML (`<model unit="millimeter">`) */
+export function unitFrom3mf(unit: string | null | undefined): ModelUnit | null {
+  switch (unit) {
+    case "millimeter": return "mm"
+    case "centimeter": return "cm"
+    case "meter": return "m"
+    case "inch": return "in"
+    default: return null
+  }
+}
+
+/** STL and OBJ carry no unit — like slicers, read them as millimetres unless the customer says otherwise */
+export const DEFAULT_MODEL_UNIT: ModelUnit = "mm"
+
+export function isModelUnit(value: unknown): value is ModelUnit {
+  return typeof value === "string" && (MODEL_UNITS as readonly string[]).includes(value)
+}
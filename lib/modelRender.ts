@@ -0,0 +1,119 @@
+/**
+ * Software rasterizer for model previews — draws a triangle soup into an RGBA buffer with a
+ * z-buffer and flat shading, so thumbnails can be made on a server without a GPU.
+ */
+
+export type RenderedImage = { data: Uint8ClampedArray; width: number; height: number }
+
+/** Camera turned to show the front-right corner from above, like a product shot */
+const AZIMUTH = (-35 * Math.PI) / 180
+const ELEVATION = (28 * Math.PI) / 180
+const PADDING = 0.08 // share of the image left empty on each side
+
+const BASE_COLOR = [16, 185, 129] // emerald-500
+const AMBIENT = 0.3
+const LIGHT = normalize([-0.45, 0.75, -0.5]) // from the upper left, toward the camera
+
+function normalize(v: number[]): number[] {
+  const length = Math.hypot(v[0], v[1], v[2]) || 1
+  return v.map((n) => n / length)
+}
+
+/**
+ * Project Z-up model corners (x,y,z per corner) into screen space:
+ * x to the right, y up and depth growing away from the camera
+ */
+function project(triangles: Float64Array): Float64Array {
+  const cosA = Math.cos(AZIMUTH), sinA = Math.sin(AZIMUTH)
+  const cosE = Math.cos(ELEVATION), sinE = Math.sin(ELEVATION)
+  const out = new Float64Array(triangles.length)
+  for (let i = 0; i < triangles.length; i += 3) {
+    const x = triangles[i], y = triangles[i + 1], z = triangles[i + 2]
+    const rx = x * cosA - y * sinA
+    const ry = x * sinA + y * cosA
+    out[i] = rx
+    out[i + 1] = z * cosE + ry * sinE
+    out[i + 2] = ry * cosE - z * sinE
+  }
+  return out
+}
+
+/** Draw the model centred in a square image with a transparent background */
+export function renderTriangles(triangles: Float64Array, size: number): RenderedImage {
+  const points = project(triangles)
+
+  const min = [Infinity, Infinity], max = [-Infinity, -Infinity]
+  for (let i = 0; i < points.length; i += 3) {
+    for (let axis = 0; axis < 2; axis++) {
+      min[axis] = Math.min(min[axis], points[i + axis])
+      max[axis] = Math.max(max[axis], points[i + axis])
+    }
+  }
+  const extent = Math.max(max[0] - min[0], max[1] - min[1]) || 1
+  const scale = (size * (1 - 2 * PADDING)) / extent
+  const offsetX = size / 2 - ((min[0] + max[0]) / 2) * scale
+  const offsetY = size / 2 + ((min[1] + max[1]) / 2) * scale
+
+  // Pixel coordinates with y growing downwards; depth stays in model units
+  for (let i = 0; i < points.length; i += 3) {
+    points[i] = points[i] * scale + offsetX
+    points[i + 1] = offsetY - points[i + 1] * scale
+  }
+
+  const depth = new Float32Array(size * size).fill(Infinity)
+  const data = new Uint8ClampedArray(size * size * 4)
+
+  for (let t = 0; t < points.length; t += 9) {
+    const x0 = points[t], y0 = points[t + 1], z0 = points[t + 2]
+    const x1 = points[t + 3], y1 = points[t + 4], z1 = points[t + 5]
+    const x2 = points[t + 6], y2 = points[t + 7], z2 = points[t + 8]
+
+    const area = (x1 - x0) * (y2 - y0) - (x2 - x0) * (y1 - y0)
+    if (area === 0) continue
+
+    // Shade from the face normal in screen-up coordinates, lit from whichever side faces the camera
+    const ax = triangles[t + 3] - triangles[t], ay = triangles[t + 4] - triangles[t + 1], az = triangles[t + 5] - triangles[t + 2]
+    const bx = triangles[t + 6] - triangles[t], by = triangles[t + 7] - triangles[t + 1], bz = triangles[t + 8] - triangles[t + 2]
+    const normal = viewNormal([ay * bz - az * by, az * bx - ax * bz, ax * by - ay * bx])
+    if (normal[2] > 0) for (let k = 0; k < 3; k++) normal[k] = -normal[k]
+    const diffuse = Math.max(0, normal[0] * LIGHT[0] + normal[1] * LIGHT[1] + normal[2] * LIGHT[2])
+    const light = AMBIENT + (1 - AMBIENT) * diffuse
+    const r = BASE_COLOR[0] * light, g = BASE_COLOR[1] * light, b = BASE_COLOR[2] * light
+
+    const left = Math.max(0, Math.floor(Math.min(x0, x1, x2)))
+    const right = Math.min(size - 1, Math.ceil(Math.max(x0, x1, x2)))
+    const top = Math.max(0, Math.floor(Math.min(y0, y1, y2)))
+    const bottom = Math.min(size - 1, Math.ceil(Math.max(y0, y1, y2)))
+
+    for (let py = top; py <= bottom; py++) {
+      const cy = py + 0.5
+      for (let px = left; px <= right; px++) {
+        const cx = px + 0.5
+        const w0 = ((x1 - cx) * (y2 - cy) - (x2 - cx) * (y1 - cy)) / area
+        const w1 = ((x2 - cx) * (y0 - cy) - (x0 - cx) * (y2 - cy)) / area
+        const w2 = 1 - w0 - w1
+        if (w0 < 0 || w1 < 0 || w2 < 0) continue
+
+        const z = w0 * z0 + w1 * z1 + w2 * z2
+        const index = py * size + px
+        if (z >= depth[index]) continue
+        depth[index] = z
+        data[index * 4] = r
+        data[index * 4 + 1] = g
+        data[index * 4 + 2] = b
+        data[index * 4 + 3] = 255
+      }
+    }
+  }
+
+  return { data, width: size, height: size }
+}
+
+/** Turn a model-space normal into the screen axes used by `project` */
+function viewNormal([x, y, z]: number[]): number[] {
+  const cosA = Math.cos(AZIMUTH), sinA = Math.sin(AZIMUTH)
+  const cosE = Math.cos(ELEVATION), sinE = Math.sin(ELEVATION)
+  const rx = x * cosA - y * sinA
+  const ry = x * sinA + y * cosA
+  return normalize([rx, z * cosE + ry * sinE, ry * cosE - z * sinE])
+}
@@ -0,0 +1,109 @@
+import sharp from "sharp"
+import prisma from "@/lib/prisma"
+import { uploadBlob, readBlob, deleteBlobsBatch } from "@/lib/blob"
+import { readTriangles, type ModelMesh } from "@/lib/meshAnalysis"
+import { modelFormatOf } from "@/lib/modelFormats"
+import { renderTriangles } from "@/lib/modelRender"
+
+const THUMBNAIL_SIZE = 512
+const SUPERSAMPLE = 2 // rendered larger and scaled down to smooth the edges
+const WEBP_QUALITY = 80
+
+type ThumbnailTarget = { folder: string; storedName: string; uploadedById?: string | null }
+
+/**
+ * Render a preview of an uploaded model and store it next to the file as `<storedName>.webp`,
+ * registered in the media library. Returns null when the model cannot be drawn.
+ */
+export async function createModelThumbnail(buffer: Buffer, fileName: string, target: ThumbnailTarget): Promise<string | null> {
+  const format = modelFormatOf(fileName)
+  if (!format) return null
+
+  let triangles: ModelMesh["triangles"]
+  try {
+    ({ triangles } = readTriangles(buffer, format))
+  } catch (error) {
+    console.warn("Thumbnail rendering failed:", error instanceof Error ? error.message : "Unknown")
+    return null
+  }
+  return renderModelThumbnail(triangles, fileName, target)
+}
+
+/** Same as `createModelThumbnail` for a model that is already parsed */
+export async function renderModelThumbnail(
+  triangles: ModelMesh["triangles"],
+  fileName: string,
+  { folder, storedName, uploadedById = null }: ThumbnailTarget
+): Promise<string | null> {
+  let url: string
+  let size: number
+  try {
+    const image = renderTriangles(triangles, THUMBNAIL_SIZE * SUPERSAMPLE)
+    const data = await sharp(Buffer.from(image.data.buffer), { raw: { width: image.width, height: image.height, channels: 4 } })
+      .resize(THUMBNAIL_SIZE, THUMBNAIL_SIZE)
+      .webp({ quality: WEBP_QUALITY })
+      .toBuffer()
+    url = await uploadBlob(data, `${storedName}.webp`, { folder, contentType: "image/webp" })
+    size = data.length
+  } catch (error) {
+    console.warn("Thumbnail rendering failed:", error instanceof Error ? error.message : "Unknown")
+    return null
+  }
+
+  // The preview is usable without a media library entry
+  try {
+    await prisma.mediaFile.create({
+      data: {
+        url,
+        filename: `${fileName}.webp`,
+        mimeType: "image/webp",
+        size,
+        width: THUMBNAIL_SIZE,
+        height: THUMBNAIL_SIZE,
+        uploadedById,
+      },
+    })
+  } catch (error) {
+    console.warn("Could not add thumbnail to the media library:", error instanceof Error ? error.message : "Unknown")
+  }
+  return url
+}
+
+/** Remove previews together with their media library entries */
+export async function deleteModelThumbnails(urls: (string | null | undefined)[]) {
+  const valid = urls.filter((url): url is string => !!url)
+  if (valid.length === 0) return
+  await prisma.mediaFile.deleteMany({ where: { url: { in: valid } } })
+  await deleteBlobsBatch(valid)
+}
+
+/**
+ * Keep a digital product's preview in step with its model file. A new preview is rendered when
+ * the file changes or has none yet; the old one is removed once it no longer applies.
+ */
+export async function syncProductThumbnail(
+  product: { id: string; fileUrl: string | null; fileType: string | null; fileThumbnail: string | null },
+  previousFileUrl: string | null,
+  uploadedById: string | null = null
+) {
+  const isModel = product.fileType === "digital" && !!product.fileUrl && !!modelFormatOf(product.fileUrl.split("?")[0])
+  const current = product.fileThumbnail && product.fileUrl === previousFileUrl ? product.fileThumbnail : null
+  if (isModel && current) return current
+
+  let fileThumbnail: string | null = null
+  if (isModel) {
+    try {
+      const fileName = decodeURIComponent(product.fileUrl!.split("?")[0].split("/").pop() || "model")
+      const storedName = `${Date.now()}-${fileName.replace(/[^a-zA-Z0-9.-]/g, "_")}`
+      fileThumbnail = await createModelThumbnail(await readBlob(product.fileUrl!), fileName, { folder: "products", storedName, uploadedById })
+    } catch (error) {
+      console.warn("Could not read product model:", error instanceof Error ? error.message : "Unknown")
+    }
+  }
+
+  if (fileThumbnail !== product.fileThumbnail) {
+    await prisma.product.update({ where: { id: product.id }, data: { fileThumbnail } })
+    await deleteModelThumbnails([product.fileThumbnail])
+  }
+  return fileThumbnail
+}
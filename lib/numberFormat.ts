@@ -0,0 +1,55 @@
+export const NUMBER_KINDS = ["order", "quote", "invoice", "refund"] as const
+export type NumberKind = (typeof NUMBER_KINDS)[number]
+
+export interface NumberFormat {
+  prefix: string
+  separator: string
+  includeYear: boolean
+  padding: number // minimum digits of the sequence part
+}
+
+export const DEFAULT_NUMBER_FORMATS: Record<NumberKind, NumberFormat> = {
+  order: { prefix: "ORD", separator: "-", includeYear: true, padding: 5 },
+  quote: { prefix: "QUO", separator: "-", includeYear: true, padding: 5 },
+  // 10 digits, year + 6-digit sequence — the form Bulgarian invoices require
+  invoice: { prefix: "", separator: "", includeYear: true, padding: 6 },
+  refund: { prefix: "REF", separator: "-", includeYear: true, padding: 5 },
+}
+
+const MAX_PADDING = 10
+
+/** Clean one admin-entered format — anything unusable falls back to the default for that kind */
+function normalizeFormat(raw: unknown, fallback: NumberFormat): NumberFormat {
+  if (!raw || typeof raw !== "object") return fallback
+  const f = raw as Record<string, unknown>
+  const padding = typeof f.padding === "number" ? Math.round(f.padding) : fallback.padding
+  return {
+    prefix: typeof f.prefix === "string" ? f.prefix.toUpperCase().replace(/[^A-Z0-9]/g, "").slice(0, 10) : fallback.prefix,
+    separator: typeof f.separator === "string" && ["", "-", "/", "."].includes(f.separator) ? f.separator : fallback.separator,
+    includeYear: typeof f.includeYear === "boolean" ? f.includeYear : fallback.includeYear,
+    padding: Math.max(1, Math.min(MAX_PADDING, padding)),
+  }
+}
+
+/** Stored as JSON in SiteSettings.numberFormats; missing kinds use their defaults */
+export function parseNumberFormats(json: string | null | undefined): Record<NumberKind, NumberFormat> {
+  let raw: Record<string, unknown> = {}
+  try {
+    const parsed = JSON.parse(json || "{}")
+    if (parsed && typeof parsed === "object" && !Array.isArray(parsed)) raw = parsed
+  } catch { /* fall back to defaults */ }
+  return Object.fromEntries(
+    NUMBER_KINDS.map((kind) => [kind, normalizeFormat(raw[kind], DEFAULT_NUMBER_FORMATS[kind])])
+  ) as Record<NumberKind, NumberFormat>
+}
+
+/** Everything before the sequence digits, e.g. "ORD-2026-" */
+export function numberStem(format: NumberFormat, year: number): string {
+  const parts = [format.prefix, format.includeYear ? String(year) : ""].filter(Boolean)
+  return parts.map((p) => p + format.separator).join("")
+}
+
+/** ORD-2026-00042, 2026000042, … */
+export function formatDocumentNumber(format: NumberFormat, year: number, sequence: number): string {
+  return `${numberStem(format, year)}${String(sequence).padStart(format.padding, "0")}`
+}
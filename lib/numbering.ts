@@ -0,0 +1,153 @@
+import { Prisma } from "@prisma/client"
+import prisma from "@/lib/prisma"
+import { parseNumberFormats, numberStem, formatDocumentNumber, type NumberKind, type NumberFormat } from "@/lib/numberFormat"
+
+/** Attempts before a create keeps hitting taken numbers and gives up */
+const MAX_ATTEMPTS = 5
+
+/** Document years follow the shop's time zone, so numbering restarts at midnight in Sofia */
+export function documentYear(date: Date = new Date()): number {
+  return Number(new Intl.DateTimeFormat("en", { year: "numeric", timeZone: "Europe/Sofia" }).format(date))
+}
+
+/** Where each kind's number is stored — table and column names for raw SQL */
+const NUMBER_COLUMNS: Record<NumberKind, { table: string; column: string }> = {
+  order: { table: "Order", column: "orderNumber" },
+  quote: { table: "QuoteRequest", column: "quoteNumber" },
+  invoice: { table: "Invoice", column: "number" },
+  refund: { table: "Refund", column: "number" },
+}
+
+function numberColumn(kind: NumberKind) {
+  const { table, column } = NUMBER_COLUMNS[kind]
+  return { table: Prisma.raw(`"${table}"`), column: Prisma.raw(`"${column}"`) }
+}
+
+/** SQL for a formatted number from a counter value — the padding is a minimum, longer values are kept whole */
+function formattedSql(stem: string, padding: number, value: Prisma.Sql) {
+  return Prisma.sql`${stem} || lpad(${value}::text, greatest(${padding}::int, length(${value}::text)), '0')`
+}
+
+/**
+ * Highest sequence value already issued for a stem — lets a new counter continue numbers
+ * from before it existed. Compared as numbers, so "…-10000" ranks above "…-9999".
+ */
+async function highestIssued(kind: NumberKind, stem: string): Promise<number> {
+  const { table, column } = numberColumn(kind)
+  const rows = await prisma.$queryRaw<{ last: bigint | null }[]>`
+    SELECT max(substring(${column} from ${stem.length + 1}::int)::bigint) AS last
+    FROM ${table}
+    WHERE starts_with(${column}, ${stem}) AND substring(${column} from ${stem.length + 1}::int) ~ '^[0-9]{1,15}$'
+  `
+  return Number(rows[0]?.last ?? 0)
+}
+
+/** Create the counter row for a kind and year, seeded from numbers already in use */
+async function ensureSequence(kind: NumberKind, year: number, format: NumberFormat): Promise<void> {
+  const existing = await prisma.numberSequence.findUnique({ where: { kind_year: { kind, year } }, select: { kind: true } })
+  if (existing) return
+  const seed = await highestIssued(kind, numberStem(format, year))
+  await prisma.numberSequence.createMany({
+    data: [{ kind, year, lastNumber: seed }],
+    skipDuplicates: true,
+  })
+}
+
+export async function getNumberFormats(): Promise<Record<NumberKind, NumberFormat>> {
+  const settings = await prisma.siteSettings.findUnique({ where: { id: "singleton" }, select: { numberFormats: true } })
+  return parseNumberFormats(settings?.numberFormats)
+}
+
+async function prepareSequence(kind: NumberKind, year: number) {
+  const format = (await getNumberFormats())[kind]
+  const sequenceYear = format.includeYear ? year : 0
+  await ensureSequence(kind, sequenceYear, format)
+  return { format, sequenceYear }
+}
+
+function isUniqueViolation(error: unknown): boolean {
+  if (!(error instanceof Prisma.PrismaClientKnownRequestError)) return false
+  // Raw queries report the Postgres code instead of P2002
+  return error.code === "P2002" || (error.code === "P2010" && error.message.includes("`23505`"))
+}
+
+/** Move a counter past its next value when that number is already used by another row */
+async function skipTakenNumber(kind: NumberKind, sequenceYear: number, format: NumberFormat): Promise<void> {
+  const { table, column } = numberColumn(kind)
+  const next = Prisma.sql`"lastNumber" + 1`
+  await prisma.$executeRaw`
+    UPDATE "NumberSequence" SET "lastNumber" = "lastNumber" + 1, "updatedAt" = now()
+    WHERE kind = ${kind} AND year = ${sequenceYear}
+      AND EXISTS (SELECT 1 FROM ${table} WHERE ${column} = ${formattedSql(numberStem(format, sequenceYear), format.padding, next)})
+  `
+}
+
+/**
+ * Number an existing row that has none yet. Claiming the row, taking the counter's next value
+ * and storing it happen in one statement, so a number is only counted once it is stored —
+ * nothing is used up when the row was numbered concurrently or the write fails. This keeps
+ * invoice and credit note numbers gap-free. Returns null when the row already had a number.
+ */
+export async function assignNumber(kind: NumberKind, id: string, year: number = documentYear()): Promise<string | null> {
+  const { format, sequenceYear } = await prepareSequence(kind, year)
+  const { table, column } = numberColumn(kind)
+  const stem = numberStem(format, sequenceYear)
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      const rows = await prisma.$queryRaw<{ number: string }[]>`
+        WITH target AS (
+          SELECT id FROM ${table} WHERE id = ${id} AND (${column} IS NULL OR ${column} = '') FOR UPDATE
+        ), sequence AS (
+          UPDATE "NumberSequence" SET "lastNumber" = "lastNumber" + 1, "updatedAt" = now()
+          WHERE kind = ${kind} AND year = ${sequenceYear} AND EXISTS (SELECT 1 FROM target)
+          RETURNING "lastNumber"
+        )
+        UPDATE ${table} SET ${column} = ${formattedSql(stem, format.padding, Prisma.sql`sequence."lastNumber"`)}
+        FROM sequence WHERE ${table}.id = ${id}
+        RETURNING ${table}.${column} AS number
+      `
+      return rows[0]?.number ?? null
+    } catch (error) {
+      if (attempt >= MAX_ATTEMPTS || !isUniqueViolation(error)) throw error
+      console.warn(`${kind} counter reached a number that is already taken — skipping it`)
+      await skipTakenNumber(kind, sequenceYear, format)
+    }
+  }
+}
+
+/**
+ * Run a write that creates a row with a freshly taken number, retrying with the next number
+ * when the unique index rejects it — e.g. a legacy or hand-entered number that the counter
+ * reaches after a format change. The increment is a single atomic UPDATE, so concurrent
+ * callers never get the same value (Neon HTTP has no interactive transactions). When the write
+ * fails for another reason the number is handed back, unless a later one was taken meanwhile.
+ * Formats without a year share one counter (stored under year 0).
+ */
+export async function withNextNumber<T>(
+  kind: NumberKind,
+  write: (number: string) => Promise<T>,
+  year: number = documentYear()
+): Promise<T> {
+  const { format, sequenceYear } = await prepareSequence(kind, year)
+  for (let attempt = 1; ; attempt++) {
+    const sequence = await prisma.numberSequence.update({
+      where: { kind_year: { kind, year: sequenceYear } },
+      data: { lastNumber: { increment: 1 } },
+    })
+    const number = formatDocumentNumber(format, sequenceYear, sequence.lastNumber)
+    try {
+      return await write(number)
+    } catch (error) {
+      if (!isUniqueViolation(error)) {
+        await prisma.numberSequence.updateMany({
+          where: { kind, year: sequenceYear, lastNumber: sequence.lastNumber },
+          data: { lastNumber: sequence.lastNumber - 1 },
+        })
+        throw error
+      }
+      if (attempt >= MAX_ATTEMPTS) throw error
+      console.warn(`${kind} number ${number} is already taken — retrying with the next one`)
+    }
+  }
+}
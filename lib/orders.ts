@@ -0,0 +1,342 @@
+import Stripe from "stripe"
+import { randomInt } from "crypto"
+import prisma from "@/lib/prisma"
+import { withNextNumber } from "@/lib/numbering"
+import type { ShippingAddress } from "@/lib/shipping"
+import { vatPortion, summarizeVat } from "@/lib/vat"
+import { locales, defaultLocale } from "@/i18n/config"
+
+// No 0/O or 1/I, so a code read off the screen is typed back correctly
+const ACCESS_CODE_ALPHABET = "ABCDEFGHJKLMNPQRSTUVWXYZ23456789"
+
+/**
+ * Random per-order secret shown after checkout. Order numbers are sequential and therefore
+ * guessable, so guests prove an order is theirs with this code instead.
+ */
+function generateAccessCode(): string {
+  return Array.from({ length: 8 }, () => ACCESS_CODE_ALPHABET[randomInt(ACCESS_CODE_ALPHABET.length)]).join("")
+}
+
+/** Typed-in code → stored form (case and dashes ignored) */
+export function normalizeAccessCode(raw: unknown): string {
+  return typeof raw === "string" ? raw.toUpperCase().replace(/[^A-Z0-9]/g, "") : ""
+}
+
+/** ABCD-EFGH */
+export function formatAccessCode(code: string): string {
+  return code.replace(/^(.{4})(.+)$/, "$1-$2")
+}
+
+/**
+ * A purchased line before name/color snapshots are resolved from the catalog.
+ * Amounts are in major currency units (EUR, not cents).
+ */
+export interface OrderLineDraft {
+  productId: string | null // null for lines that are not catalog products (paid quotes)
+  packageId?: string | null
+  variantId?: string | null
+  fileType: string
+  quantity: number
+  unitPrice: number      // sale-aware unit price before bulk/coupon discounts
+  bulkDiscount: number   // line total bulk discount
+  couponDiscount: number // line total coupon discount
+  lineTotal: number      // amount actually charged for the line
+  vatRate?: number       // VAT % included in lineTotal
+  nameEn?: string        // fallback name when the product no longer exists
+}
+
+/** Per-line metadata attached to Stripe `product_data.metadata` at checkout */
+export interface CheckoutLineMetadata {
+  productId: string
+  packageId?: string | null
+  variantId?: string | null
+  fileType: string
+  basePrice: number // sale-aware unit price before bulk discount
+  bulkPrice: number // unit price after bulk discount, before coupon
+  couponDiscount?: number // the line's share of the coupon as priced by lib/pricing
+  vatRate?: number  // VAT % included in the charged price
+}
+
+const round2 = (n: number) => Math.round(n * 100) / 100
+
+export function buildLineMetadata(line: CheckoutLineMetadata): Record<string, string> {
+  return {
+    productId: line.productId,
+    packageId: line.packageId || "",
+    variantId: line.variantId || "",
+    fileType: line.fileType,
+    basePrice: line.basePrice.toFixed(2),
+    bulkPrice: line.bulkPrice.toFixed(2),
+    couponDiscount: (line.couponDiscount ?? 0).toFixed(2),
+    vatRate: String(line.vatRate ?? 0),
+  }
+}
+
+/**
+ * Read purchased lines back from a completed Checkout Session.
+ * Uses Stripe line items when the session was created with line metadata; falls back to
+ * the legacy session metadata otherwise. The coupon is one session-wide discount that Stripe
+ * spreads over every line, so each line's share is taken from the metadata (the pricing
+ * engine's split over the eligible lines) rather than from Stripe's per-line amounts.
+ */
+export async function getCheckoutLines(stripe: Stripe, session: Stripe.Checkout.Session): Promise<OrderLineDraft[]> {
+  const lineItems = await stripe.checkout.sessions.listLineItems(session.id, {
+    limit: 100,
+    expand: ["data.price.product"],
+  })
+
+  const lines: OrderLineDraft[] = []
+  for (const li of lineItems.data) {
+    const product = li.price?.product
+    const meta = product && typeof product === "object" && !("deleted" in product && product.deleted)
+      ? (product as Stripe.Product).metadata
+      : null
+    if (!meta?.productId) continue
+
+    const quantity = li.quantity ?? 1
+    const basePrice = parseFloat(meta.basePrice || "0")
+    const bulkPrice = parseFloat(meta.bulkPrice || meta.basePrice || "0")
+    // Sessions from before the coupon split was stored use Stripe's own allocation
+    const couponDiscount = meta.couponDiscount !== undefined
+      ? parseFloat(meta.couponDiscount)
+      : round2(Math.max(bulkPrice * quantity - li.amount_total / 100, 0))
+    const lineTotal = round2(bulkPrice * quantity - couponDiscount)
+    lines.push({
+      productId: meta.productId,
+      packageId: meta.packageId || null,
+      variantId: meta.variantId || null,
+      fileType: meta.fileType || "physical",
+      quantity,
+      unitPrice: basePrice,
+      bulkDiscount: round2(Math.max((basePrice - bulkPrice) * quantity, 0)),
+      couponDiscount,
+      lineTotal,
+      vatRate: parseFloat(meta.vatRate || "0"),
+      nameEn: li.description ?? undefined,
+    })
+  }
+  if (lines.length > 0) return lines
+
+  return getLegacyCheckoutLines(session)
+}
+
+// Sessions created before line metadata existed only carry a JSON summary in session metadata
+function getLegacyCheckoutLines(session: Stripe.Checkout.Session): OrderLineDraft[] {
+  if (session.metadata?.type === "cart") {
+    try {
+      const items: Array<{ productId: string; fileType: string; quantity: number; nameEn: string; price: string }> =
+        JSON.parse(session.metadata.items)
+      return items.map((item) => {
+        const price = parseFloat(item.price || "0")
+        return {
+          productId: item.productId,
+          fileType: item.fileType || "physical",
+          quantity: item.quantity,
+          unitPrice: price,
+          bulkDiscount: 0,
+          couponDiscount: 0,
+          lineTotal: round2(price * item.quantity),
+          nameEn: item.nameEn,
+        }
+      })
+    } catch {
+      return []
+    }
+  }
+
+  const productId = session.metadata?.productId
+  if (!productId) return []
+  const total = session.amount_total ? session.amount_total / 100 : parseFloat(session.metadata?.price || "0")
+  return [{
+    productId,
+    packageId: session.metadata?.packageId || null,
+    variantId: session.metadata?.variantId || null,
+    fileType: session.metadata?.fileType || "digital",
+    quantity: 1,
+    unitPrice: total,
+    bulkDiscount: 0,
+    couponDiscount: 0,
+    lineTotal: total,
+    nameEn: session.metadata?.nameEn,
+  }]
+}
+
+/**
+ * Create one Order with an OrderItem per purchased line.
+ * Localized names, package label and color are snapshotted so the order stays
+ * readable after the catalog changes.
+ */
+export async function createOrderFromLines(params: {
+  lines: OrderLineDraft[]
+  email: string
+  customerName?: string | null
+  phone?: string | null
+  userId?: string | null
+  currency: string
+  stripeSession: string
+  couponCode?: string | null
+  paymentIntentId?: string | null
+  locale?: string | null
+  shipping?: {
+    methodId: string | null
+    methodName: string
+    fee: number
+    address: ShippingAddress
+  } | null
+  tax?: {
+    country: string
+    vatNumber: string | null
+    reverseCharge: boolean
+    shippingVatRate: number
+  } | null
+}) {
+  const { lines } = params
+
+  const productIds = [...new Set(lines.map((l) => l.productId).filter((id): id is string => !!id))]
+  const packageIds = lines.map((l) => l.packageId).filter((id): id is string => !!id)
+  const variantIds = lines.map((l) => l.variantId).filter((id): id is string => !!id)
+
+  const [products, packages, variants] = await Promise.all([
+    prisma.product.findMany({
+      where: { id: { in: productIds } },
+      select: { id: true, nameBg: true, nameEn: true, nameEs: true, sku: true },
+    }),
+    packageIds.length > 0
+      ? prisma.productPackage.findMany({
+          where: { id: { in: packageIds } },
+          select: { id: true, sku: true, weightId: true, weight: { select: { label: true } } },
+        })
+      : Promise.resolve([]),
+    variantIds.length > 0
+      ? prisma.productVariant.findMany({
+          where: { id: { in: variantIds } },
+          select: { id: true, colorId: true, color: { select: { nameBg: true, nameEn: true, nameEs: true, hex: true } } },
+        })
+      : Promise.resolve([]),
+  ])
+
+  const productMap = new Map(products.map((p) => [p.id, p]))
+  const packageMap = new Map(packages.map((p) => [p.id, p]))
+  const variantMap = new Map(variants.map((v) => [v.id, v]))
+
+  const items = lines.map((line) => {
+    const product = line.productId ? productMap.get(line.productId) : undefined
+    const pkg = line.packageId ? packageMap.get(line.packageId) : undefined
+    const variant = line.variantId ? variantMap.get(line.variantId) : undefined
+    const color = variant?.color
+    const fallbackName = line.nameEn || `Product ${line.productId}`
+    return {
+      productId: product ? line.productId : null,
+      packageId: line.packageId || null,
+      variantId: line.variantId || null,
+      // Stable stock key — package/variant rows are recreated when the product is saved
+      weightId: pkg?.weightId ?? null,
+      colorId: variant?.colorId ?? null,
+      nameBg: product?.nameBg || fallbackName,
+      nameEn: product?.nameEn || fallbackName,
+      nameEs: product?.nameEs || fallbackName,
+      packageLabel: pkg?.weight.label ?? null,
+      colorNameBg: color?.nameBg ?? null,
+      colorNameEn: color?.nameEn ?? null,
+      colorNameEs: color?.nameEs ?? null,
+      colorHex: color?.hex ?? null,
+      sku: pkg?.sku || product?.sku || null,
+      fileType: line.fileType,
+      quantity: line.quantity,
+      unitPrice: round2(line.unitPrice),
+      bulkDiscount: round2(line.bulkDiscount),
+      couponDiscount: round2(line.couponDiscount),
+      lineTotal: round2(line.lineTotal),
+      vatRate: line.vatRate ?? 0,
+      vatAmount: vatPortion(round2(line.lineTotal), line.vatRate ?? 0),
+    }
+  })
+
+  const subtotal = round2(items.reduce((sum, i) => sum + i.unitPrice * i.quantity, 0))
+  const itemsTotal = round2(items.reduce((sum, i) => sum + i.lineTotal, 0))
+  const shippingFee = params.shipping ? round2(params.shipping.fee) : 0
+  const allDigital = items.every((i) => i.fileType === "digital")
+  const shippingVatRate = params.tax?.shippingVatRate ?? 0
+  // Language of the invoice next to Bulgarian
+  const locale = params.locale && (locales as readonly string[]).includes(params.locale) ? params.locale : defaultLocale
+  const vatAmount = round2(items.reduce((sum, i) => sum + i.vatAmount, 0) + vatPortion(shippingFee, shippingVatRate))
+
+  // A number taken in the meantime (legacy or hand-entered) is skipped, not fatal to the order
+  return withNextNumber("order", (orderNumber) => prisma.order.create({
+    data: {
+      orderNumber,
+      accessCode: generateAccessCode(),
+      customerName: params.customerName || params.email,
+      customerEmail: params.email,
+      phone: params.phone || null,
+      userId: params.userId || null,
+      description: formatOrderDescription(items, params.currency),
+      notes: `Stripe session: ${params.stripeSession}`,
+      // Digital-only orders are fulfilled by the download link — nothing left to ship
+      status: allDigital ? "COMPLETED" : "PENDING",
+      subtotal,
+      discountAmount: round2(Math.max(subtotal - itemsTotal, 0)),
+      total: round2(itemsTotal + shippingFee),
+      currency: params.currency,
+      couponCode: params.couponCode || null,
+      stripeSession: params.stripeSession,
+      paymentIntentId: params.paymentIntentId || null,
+      locale,
+      ...(params.shipping ? {
+        shippingMethodId: params.shipping.methodId,
+        shippingMethodName: params.shipping.methodName,
+        shippingFee,
+        shippingAddress: { ...params.shipping.address },
+      } : {}),
+      ...(params.tax ? {
+        taxCountry: params.tax.country,
+        vatNumber: params.tax.vatNumber,
+        reverseCharge: params.tax.reverseCharge,
+        vatAmount,
+        shippingVatRate,
+        taxBreakdown: summarizeVat([
+          ...items.map((i) => ({ gross: i.lineTotal, rate: i.vatRate })),
+          ...(shippingFee > 0 ? [{ gross: shippingFee, rate: shippingVatRate }] : []),
+        ]).map((line) => ({ ...line })),
+      } : {}),
+      items: { create: items },
+    },
+    include: { items: true },
+  }))
+}
+
+/** One-line human summary kept in Order.description for search and legacy views */
+export function formatOrderDescription(
+  items: Array<{ nameEn: string; packageLabel?: string | null; colorNameEn?: string | null; quantity: number; lineTotal: number }>,
+  currency: string
+): string {
+  return items
+    .map((i) => {
+      const variant = [i.packageLabel, i.colorNameEn].filter(Boolean).join(", ")
+      return `${i.nameEn}${variant ? ` (${variant})` : ""} × ${i.quantity} — ${i.lineTotal.toFixed(2)} ${currency}`
+    })
+    .join("; ")
+}
+
+/** Guest checkouts placed with this email that no account owns yet */
+export function countGuestOrders(email: string): Promise<number> {
+  return prisma.order.count({
+    where: { userId: null, stripeSession: { not: null }, customerEmail: { equals: email, mode: "insensitive" } },
+  })
+}
+
+/**
+ * Link guest checkouts placed with this email to an account — the orders and the
+ * download links bought with them. Returns the number of orders attached.
+ */
+export async function attachGuestOrders(userId: string, email: string): Promise<number> {
+  const orders = await prisma.order.updateMany({
+    where: { userId: null, stripeSession: { not: null }, customerEmail: { equals: email, mode: "insensitive" } },
+    data: { userId },
+  })
+  await prisma.digitalPurchase.updateMany({
+    where: { userId: null, email: { equals: email, mode: "insensitive" } },
+    data: { userId },
+  })
+  return orders.count
+}
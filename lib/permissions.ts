@@ -35,7 +35,12 @@ export const RESOURCE_NAV_MAP: Record<string, Resource> = {
   "/admin/types": "types",
   "/admin/products": "products",
   "/admin/quotes": "quotes",
+  "/admin/materials": "quotes",
   "/admin/orders": "orders",
+  "/admin/production": "orders",
+  "/admin/printers": "orders",
+  "/admin/downloads": "orders",
+  "/admin/stripe-events": "orders",
   "/admin/users": "users",
   "/admin/roles": "roles",
   "/admin/media": "media",
@@ -43,6 +48,10 @@ export const RESOURCE_NAV_MAP: Record<string, Resource> = {
   "/admin/brands": "brands",
   "/admin/colors": "products",
   "/admin/weights": "products",
+  "/admin/inventory": "products",
+  "/admin/search": "products",
+  "/admin/feeds": "products",
+  "/admin/shipping": "settings",
   "/admin/notifications": "notifications",
   "/admin/notification-templates": "notifications",
   "/admin/audit-logs": "audit",
@@ -309,6 +318,22 @@ export async function hasPermissionForUser(
   return hasPermission(role, resource, action)
 }
 
+/**
+ * Staff users (ADMIN, EDITOR, AUTHOR) who hold a permission — recipients for internal alerts and assignment choices
+ */
+export async function getStaffWithPermission(
+  resource: Resource,
+  action: Action
+): Promise<{ id: string; name: string | null; email: string }[]> {
+  const users = await prisma.user.findMany({
+    where: { role: { in: ["ADMIN", "EDITOR", "AUTHOR"] } },
+    select: { id: true, name: true, email: true, role: true },
+    orderBy: [{ name: "asc" }, { email: "asc" }],
+  })
+  const allowed = await Promise.all(users.map((user) => hasPermissionForUser(user.id, user.role, resource, action)))
+  return users.filter((_, index) => allowed[index]).map(({ id, name, email }) => ({ id, name, email }))
+}
+
 /**
  * Get only the user-level overrides (not merged) — for the permissions editor UI
  */
@@ -0,0 +1,426 @@
+import type Stripe from "stripe"
+import prisma from "@/lib/prisma"
+import { parseTiers, getActiveTier, applyBulkDiscount, resolveBulkTiers, type BulkTier } from "@/lib/bulkDiscount"
+import { isProductEligibleForCoupon } from "@/lib/couponHelpers"
+import { buildLineMetadata } from "@/lib/orders"
+import { getShippingOptions, getShippingWeight, requiresShipping, type ShippingOption } from "@/lib/shipping"
+import { getTaxContext, getPriceFactor, getVatRate, parseVatNumber, vatPortion, type TaxContext } from "@/lib/vat"
+
+/** Smallest amount Stripe charges in EUR — no unit price or order total may drop below it */
+export const MIN_CHARGE = 0.5
+
+const PURCHASABLE = ["in_stock", "pre_order"]
+
+const round2 = (n: number) => Math.round(n * 100) / 100
+
+export interface PricingItemInput {
+  productId: string
+  packageId?: string | null
+  variantId?: string | null
+  quantity: number
+}
+
+export type CouponError =
+  | "NOT_FOUND" | "INACTIVE" | "NOT_STARTED" | "EXPIRED" | "MAX_USES" | "USER_LIMIT"
+  | "WRONG_PRODUCT" | "ON_SALE" | "MIN_PURCHASE" | "CURRENCY_MISMATCH"
+
+/** One cart line with every step of its price. Amounts are what this destination is charged. */
+export interface PricedLine {
+  productId: string
+  packageId: string | null
+  variantId: string | null
+  productSlug: string
+  nameEn: string
+  nameBg: string
+  nameEs: string
+  image: string | null
+  fileType: string
+  quantity: number
+  listPrice: number      // regular unit price
+  unitPrice: number      // sale-aware unit price before bulk discount
+  onSale: boolean
+  bulkTier: BulkTier | null
+  bulkUnitPrice: number  // unit price after bulk discount, before coupon
+  lineSubtotal: number   // bulkUnitPrice × quantity
+  couponDiscount: number // this line's share of the coupon
+  lineTotal: number      // amount charged for the line
+  vatRate: number
+  vatAmount: number
+}
+
+export interface PriceQuote {
+  currency: string
+  lines: PricedLine[]
+  coupon: {
+    id: string
+    code: string
+    type: string
+    value: number
+    currency: string | null
+    allowOnSale: boolean
+    discountAmount: number
+    eligibleProductIds: string[]
+  } | null
+  couponError: CouponError | null
+  minPurchase: number | null // set with the MIN_PURCHASE error
+  tax: TaxContext & { vatNumberError: string | null }
+  shipping: {
+    required: boolean
+    options: ShippingOption[] // fees converted for the VAT destination
+    freeShippingThreshold: number | null
+    selected: ShippingOption | null
+    vatRate: number
+  }
+  subtotal: number   // lines after bulk discounts
+  discount: number   // coupon
+  itemsTotal: number // subtotal − discount
+  shippingFee: number
+  vatAmount: number  // VAT contained in the total
+  total: number
+}
+
+type Coupon = NonNullable<Awaited<ReturnType<typeof prisma.coupon.findUnique>>>
+type Product = Awaited<ReturnType<typeof prisma.product.findMany>>[number]
+
+/** A line at catalog prices, before the VAT destination is known */
+interface DraftLine {
+  product: Product
+  packageId: string | null
+  variantId: string | null
+  quantity: number
+  listPrice: number
+  unitPrice: number
+  onSale: boolean
+  bulkTier: BulkTier | null
+  bulkUnitPrice: number
+}
+
+function loadCoupon(ref: { couponId?: string | null; couponCode?: string | null }): Promise<Coupon | null> {
+  if (ref.couponId) return prisma.coupon.findUnique({ where: { id: ref.couponId } })
+  if (ref.couponCode?.trim()) {
+    return prisma.coupon.findFirst({ where: { code: { equals: ref.couponCode.trim().toUpperCase(), mode: "insensitive" } } })
+  }
+  return Promise.resolve(null)
+}
+
+/** Validity of the coupon itself — dates, usage limits and currency */
+async function checkCoupon(coupon: Coupon, currency: string, email: string | null | undefined): Promise<CouponError | null> {
+  const now = new Date()
+  if (!coupon.active) return "INACTIVE"
+  if (coupon.startsAt && now < coupon.startsAt) return "NOT_STARTED"
+  if (coupon.expiresAt && now > coupon.expiresAt) return "EXPIRED"
+  if (coupon.maxUses !== null && coupon.usedCount >= coupon.maxUses) return "MAX_USES"
+  if (coupon.currency && coupon.currency !== currency) return "CURRENCY_MISMATCH"
+  if (email && coupon.perUserLimit > 0) {
+    const uses = await prisma.couponUsage.count({ where: { couponId: coupon.id, email: { equals: email, mode: "insensitive" } } })
+    if (uses >= coupon.perUserLimit) return "USER_LIMIT"
+  }
+  return null
+}
+
+/** Split an amount over lines in proportion to their weights, to the cent */
+function allocate(amount: number, weights: number[]): number[] {
+  const cents = Math.round(amount * 100)
+  const sum = weights.reduce((s, w) => s + w, 0)
+  let left = cents
+  return weights.map((w, i) => {
+    const share = i === weights.length - 1 ? left : Math.round((cents * w) / sum)
+    left -= share
+    return share / 100
+  })
+}
+
+/**
+ * Price a cart for a customer — the single source of truth for the cart drawer,
+ * coupon validation and both checkouts.
+ *
+ * Per line: package or product price → sale price → VAT destination factor → bulk tier
+ * (package, then product, then site-wide tiers). Then the coupon over its eligible lines,
+ * capped so the order keeps the Stripe minimum, then shipping on the discounted total.
+ * A coupon that does not apply is reported in `couponError` and left out of the totals.
+ */
+export async function priceCart(input: {
+  items: PricingItemInput[]
+  couponCode?: string | null
+  couponId?: string | null
+  email?: string | null       // per-customer coupon limits
+  vatNumber?: string | null
+  country?: string | null     // delivery country — used when the cart needs shipping
+  fallbackCountry?: string | null // visitor location for carts without a delivery address
+  shippingMethodId?: string | null
+}): Promise<{ quote: PriceQuote; error?: undefined; status?: undefined } | { error: string; status: number; quote?: undefined }> {
+  if (input.items.length === 0) return { error: "Cart is empty", status: 400 }
+  if (input.items.length > 50) return { error: "Too many items in cart", status: 400 }
+  if (input.items.some((i) => !i?.productId || typeof i.productId !== "string")) {
+    return { error: "Missing productId in cart item", status: 400 }
+  }
+
+  const productIds = [...new Set(input.items.map((i) => i.productId))]
+  const packageIds = input.items.map((i) => i.packageId).filter((id): id is string => !!id)
+  const variantIds = input.items.map((i) => i.variantId).filter((id): id is string => !!id)
+  const [products, packages, packageVariants, variants, settings] = await Promise.all([
+    prisma.product.findMany({ where: { id: { in: productIds } } }),
+    packageIds.length > 0 ? prisma.productPackage.findMany({ where: { id: { in: packageIds } } }) : Promise.resolve([]),
+    packageIds.length > 0
+      ? prisma.productPackageVariant.findMany({ where: { packageId: { in: packageIds } }, select: { packageId: true, variantId: true, status: true } })
+      : Promise.resolve([]),
+    variantIds.length > 0
+      ? prisma.productVariant.findMany({ where: { id: { in: variantIds } }, select: { id: true, productId: true } })
+      : Promise.resolve([]),
+    prisma.siteSettings.findUnique({ where: { id: "singleton" }, select: { bulkDiscountEnabled: true, bulkDiscountTiers: true } }),
+  ])
+  const globalTiers = settings?.bulkDiscountEnabled ? parseTiers(settings.bulkDiscountTiers) : []
+
+  // Catalog prices first — VAT depends on whether anything has to be shipped
+  const drafts: DraftLine[] = []
+  let currency: string | null = null
+  for (const item of input.items) {
+    const quantity = Math.max(1, Math.min(99, Math.floor(Number(item.quantity) || 1)))
+    const product = products.find((p) => p.id === item.productId)
+    if (!product) return { error: `Product not found: ${item.productId}`, status: 404 }
+    if (!product.published) return { error: `Product "${product.nameEn}" is not available`, status: 400 }
+    if (!PURCHASABLE.includes(product.status)) {
+      return { error: `Product "${product.nameEn}" is not available for purchase`, status: 400 }
+    }
+    if (product.fileType === "service" || product.priceType !== "fixed") {
+      return { error: `Product "${product.nameEn}" cannot be purchased directly`, status: 400 }
+    }
+
+    if (item.variantId && !variants.some((v) => v.id === item.variantId && v.productId === product.id)) {
+      return { error: `Color not found for product "${product.nameEn}"`, status: 404 }
+    }
+
+    let listPrice: number
+    let salePrice: number | null
+    let packageTiers: string | null = null
+    if (item.packageId) {
+      const pkg = packages.find((p) => p.id === item.packageId && p.productId === product.id)
+      if (!pkg) return { error: `Package not found for product "${product.nameEn}"`, status: 404 }
+      if (!PURCHASABLE.includes(pkg.status)) return { error: `Package for "${product.nameEn}" is not available`, status: 400 }
+      // SIZE × COLOR combination — once a package has a matrix, only its cells can be bought
+      const cells = packageVariants.filter((v) => v.packageId === pkg.id)
+      const cell = item.variantId ? cells.find((v) => v.variantId === item.variantId) : null
+      if (item.variantId && cells.length > 0 && !cell) {
+        return { error: `Selected size and color of "${product.nameEn}" is not available`, status: 400 }
+      }
+      if (cell && !PURCHASABLE.includes(cell.status)) {
+        return { error: `Selected size and color of "${product.nameEn}" is not available`, status: 400 }
+      }
+      listPrice = Number(pkg.price)
+      salePrice = pkg.salePrice !== null ? Number(pkg.salePrice) : null
+      packageTiers = pkg.bulkDiscountTiers
+    } else {
+      listPrice = Number(product.price ?? 0)
+      salePrice = product.onSale && product.salePrice ? Number(product.salePrice) : null
+    }
+    const unitPrice = salePrice ?? listPrice
+    if (!unitPrice || unitPrice < MIN_CHARGE) {
+      return { error: `Product "${product.nameEn}" has no valid price`, status: 400 }
+    }
+
+    const productCurrency = product.currency || "EUR"
+    if (currency === null) currency = productCurrency
+    else if (currency !== productCurrency) return { error: "All cart items must use the same currency", status: 400 }
+
+    const tiers = resolveBulkTiers({
+      packageTiers,
+      productTiers: product.bulkDiscountTiers,
+      expiresAt: product.bulkDiscountExpiresAt,
+      globalTiers,
+    })
+    const bulkTier = quantity > 1 ? getActiveTier(quantity, tiers) : null
+    drafts.push({
+      product,
+      packageId: item.packageId || null,
+      variantId: item.variantId || null,
+      quantity,
+      listPrice,
+      unitPrice,
+      onSale: salePrice !== null,
+      bulkTier,
+      bulkUnitPrice: bulkTier ? Math.max(applyBulkDiscount(unitPrice, bulkTier), MIN_CHARGE) : unitPrice,
+    })
+  }
+  if (!currency) return { error: "No valid items in cart", status: 400 }
+
+  // VAT destination: delivery country, else the business VAT number's country or the visitor's location
+  let vatNumberError: string | null = null
+  let vatNumber: { vatNumber: string; country: string } | null = null
+  if (input.vatNumber?.trim()) {
+    const parsed = parseVatNumber(input.vatNumber)
+    if (parsed.error !== undefined) vatNumberError = parsed.error
+    else vatNumber = parsed
+  }
+  const shippingRequired = requiresShipping(drafts.map((d) => ({ fileType: d.product.fileType || "physical" })))
+  const deliveryCountry = shippingRequired ? input.country || null : null
+  const taxContext = await getTaxContext({
+    country: deliveryCountry ?? (vatNumber ? null : input.fallbackCountry),
+    vatNumber,
+  })
+
+  const lines: PricedLine[] = drafts.map((d) => {
+    const factor = getPriceFactor(taxContext, d.product.taxClass)
+    const bulkUnitPrice = round2(d.bulkUnitPrice * factor)
+    const lineSubtotal = round2(bulkUnitPrice * d.quantity)
+    return {
+      productId: d.product.id,
+      packageId: d.packageId,
+      variantId: d.variantId,
+      productSlug: d.product.slug,
+      nameEn: d.product.nameEn,
+      nameBg: d.product.nameBg,
+      nameEs: d.product.nameEs,
+      image: d.product.image,
+      fileType: d.product.fileType || "physical",
+      quantity: d.quantity,
+      listPrice: round2(d.listPrice * factor),
+      unitPrice: round2(d.unitPrice * factor),
+      onSale: d.onSale,
+      bulkTier: d.bulkTier,
+      bulkUnitPrice,
+      lineSubtotal,
+      couponDiscount: 0,
+      lineTotal: lineSubtotal,
+      vatRate: getVatRate(taxContext, d.product.taxClass),
+      vatAmount: 0,
+    }
+  })
+  const subtotal = round2(lines.reduce((sum, l) => sum + l.lineSubtotal, 0))
+
+  // Coupon — restricted to its products/categories/brands and, unless allowed, to full-price lines
+  let coupon: PriceQuote["coupon"] = null
+  let couponError: CouponError | null = null
+  let minPurchase: number | null = null
+  const found = await loadCoupon(input)
+  if (!found && (input.couponCode?.trim() || input.couponId)) couponError = "NOT_FOUND"
+  if (found) {
+    couponError = await checkCoupon(found, currency, input.email)
+    if (!couponError) {
+      const restricted = found.productIds.length > 0 || found.categoryIds.length > 0 || found.brandIds.length > 0
+      const categories = found.categoryIds.length > 0
+        ? await prisma.productCategory.findMany({ select: { id: true, slug: true, parentId: true } })
+        : []
+      const targeted = restricted
+        ? lines.filter((l) => {
+            const product = drafts.find((d) => d.product.id === l.productId)?.product
+            return isProductEligibleForCoupon(
+              l.productId, product?.category ?? "", product?.brandId ?? null,
+              found.productIds, found.categoryIds, found.brandIds, categories
+            )
+          })
+        : lines
+      const eligible = found.allowOnSale ? targeted : targeted.filter((l) => !l.onSale)
+      const eligibleSubtotal = round2(eligible.reduce((sum, l) => sum + l.lineSubtotal, 0))
+      const value = Number(found.value)
+      const discountAmount = round2(Math.min(
+        found.type === "percentage" ? round2(eligibleSubtotal * (value / 100)) : value,
+        eligibleSubtotal - MIN_CHARGE
+      ))
+
+      if (targeted.length === 0) couponError = "WRONG_PRODUCT"
+      else if (eligible.length === 0) couponError = "ON_SALE"
+      else if (found.minPurchase && eligibleSubtotal < Number(found.minPurchase)) {
+        couponError = "MIN_PURCHASE"
+        minPurchase = Number(found.minPurchase)
+      } else if (discountAmount <= 0) couponError = "WRONG_PRODUCT"
+      else {
+        const shares = allocate(discountAmount, eligible.map((l) => l.lineSubtotal))
+        eligible.forEach((l, i) => {
+          l.couponDiscount = shares[i]
+          l.lineTotal = round2(l.lineSubtotal - shares[i])
+        })
+        coupon = {
+          id: found.id,
+          code: found.code,
+          type: found.type,
+          value,
+          currency: found.currency ?? currency,
+          allowOnSale: found.allowOnSale,
+          discountAmount,
+          eligibleProductIds: [...new Set(eligible.map((l) => l.productId))],
+        }
+      }
+    }
+  }
+  for (const line of lines) line.vatAmount = vatPortion(line.lineTotal, line.vatRate)
+  const discount = coupon?.discountAmount ?? 0
+  const itemsTotal = round2(subtotal - discount)
+
+  // Shipping on the discounted total — fees follow the standard rate of the goods they deliver
+  const shippingFactor = getPriceFactor(taxContext, "standard")
+  const shippingVatRate = getVatRate(taxContext, "standard")
+  let options: ShippingOption[] = []
+  let freeShippingThreshold: number | null = null
+  if (shippingRequired) {
+    const result = await getShippingOptions({
+      country: deliveryCountry,
+      orderTotal: itemsTotal,
+      weightGrams: await getShippingWeight(lines),
+      currency,
+    })
+    options = result.options.map((o) => ({ ...o, fee: round2(o.fee * shippingFactor) }))
+    freeShippingThreshold = result.freeShippingThreshold
+  }
+  const selected = options.find((o) => o.id === input.shippingMethodId) ?? null
+  const shippingFee = selected?.fee ?? 0
+
+  return {
+    quote: {
+      currency,
+      lines,
+      coupon,
+      couponError,
+      minPurchase,
+      tax: { ...taxContext, vatNumberError },
+      shipping: { required: shippingRequired, options, freeShippingThreshold, selected, vatRate: shippingVatRate },
+      subtotal,
+      discount,
+      itemsTotal,
+      shippingFee,
+      vatAmount: round2(lines.reduce((sum, l) => sum + l.vatAmount, 0) + vatPortion(shippingFee, shippingVatRate)),
+      total: round2(itemsTotal + shippingFee),
+    },
+  }
+}
+
+/**
+ * Stripe line items at the bulk-discounted price — the coupon is applied as a session discount,
+ * and each line's share of it travels in the metadata so the order stores the engine's split.
+ * Without the Stripe coupon attached (`withCoupon` false) every line records no discount.
+ */
+export function toStripeLineItems(quote: PriceQuote, withCoupon: boolean): Stripe.Checkout.SessionCreateParams.LineItem[] {
+  return quote.lines.map((line) => ({
+    price_data: {
+      currency: quote.currency.toLowerCase(),
+      product_data: {
+        name: line.nameEn,
+        ...(line.image ? { images: [line.image] } : {}),
+        // Per-line metadata lets the webhook build structured order items
+        metadata: buildLineMetadata({
+          productId: line.productId,
+          packageId: line.packageId,
+          variantId: line.variantId,
+          fileType: line.fileType,
+          basePrice: line.unitPrice,
+          bulkPrice: line.bulkUnitPrice,
+          couponDiscount: withCoupon ? line.couponDiscount : 0,
+          vatRate: line.vatRate,
+        }),
+      },
+      unit_amount: Math.round(line.bulkUnitPrice * 100),
+    },
+    quantity: line.quantity,
+  }))
+}
+
+/** Single-use Stripe coupon for the quote's discount, or null when no coupon applies */
+export async function createStripeDiscount(stripe: Stripe, quote: PriceQuote): Promise<string | null> {
+  if (!quote.coupon) return null
+  const coupon = await stripe.coupons.create({
+    amount_off: Math.round(quote.coupon.discountAmount * 100),
+    currency: quote.currency.toLowerCase(),
+    duration: "once",
+    max_redemptions: 1,
+  })
+  return coupon.id
+}
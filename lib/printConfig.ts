@@ -0,0 +1,160 @@
+export const PRINT_FINISHES = ["none", "sanding", "primer", "painting", "vapor_smoothing"] as const
+export type PrintFinish = (typeof PRINT_FINISHES)[number]
+
+export const LAYER_HEIGHTS = [0.08, 0.12, 0.16, 0.2, 0.24, 0.28] as const
+
+/** The layer height print speed is calibrated at — finer layers take proportionally longer */
+export const BASE_LAYER_HEIGHT = 0.2
+
+export const MAX_QUOTE_QUANTITY = 1000
+
+/** Parts (separate model files) per quote */
+export const MAX_QUOTE_FILES = 10
+
+/** Print options of a quote; null fields are left to the shop */
+export type PrintConfig = {
+  materialId: string | null
+  colorId: string | null
+  layerHeight: number | null
+  infill: number | null // %
+  quantity: number
+  finish: PrintFinish | null
+  deadline: string | null // YYYY-MM-DD
+}
+
+export const EMPTY_PRINT_CONFIG: PrintConfig = {
+  materialId: null,
+  colorId: null,
+  layerHeight: null,
+  infill: null,
+  quantity: 1,
+  finish: null,
+  deadline: null,
+}
+
+const blank = (value: unknown) => value === undefined || value === null || value === ""
+
+/**
+ * Validate print options from a form or JSON body. Only the shape is checked here —
+ * callers make sure the material and color exist.
+ */
+export function parsePrintConfig(raw: Record<string, unknown>): { config: PrintConfig } | { error: string } {
+  const config: PrintConfig = { ...EMPTY_PRINT_CONFIG }
+
+  if (!blank(raw.materialId)) config.materialId = String(raw.materialId)
+  if (!blank(raw.colorId)) config.colorId = String(raw.colorId)
+
+  if (!blank(raw.layerHeight)) {
+    const layerHeight = Number(raw.layerHeight)
+    if (!(LAYER_HEIGHTS as readonly number[]).includes(layerHeight)) return { error: "Invalid layer height" }
+    config.layerHeight = layerHeight
+  }
+
+  if (!blank(raw.infill)) {
+    const infill = Number(raw.infill)
+    if (!Number.isInteger(infill) || infill < 0 || infill > 100) return { error: "Infill must be a whole percentage from 0 to 100" }
+    config.infill = infill
+  }
+
+  if (!blank(raw.quantity)) {
+    const quantity = Number(raw.quantity)
+    if (!Number.isInteger(quantity) || quantity < 1 || quantity > MAX_QUOTE_QUANTITY) {
+      return { error: `Quantity must be between 1 and ${MAX_QUOTE_QUANTITY}` }
+    }
+    config.quantity = quantity
+  }
+
+  if (!blank(raw.finish)) {
+    if (!(PRINT_FINISHES as readonly string[]).includes(String(raw.finish))) return { error: "Invalid finish" }
+    config.finish = raw.finish as PrintFinish
+  }
+
+  if (!blank(raw.deadline)) {
+    const deadline = String(raw.deadline).slice(0, 10)
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(deadline) || isNaN(Date.parse(deadline))) return { error: "Invalid deadline" }
+    config.deadline = deadline
+  }
+
+  return { config }
+}
+
+/** Options a single part can set for itself — quantity and deadline stay with the quote */
+export const PART_CONFIG_KEYS = ["materialId", "colorId", "layerHeight", "infill", "finish"] as const
+export type PartConfig = Partial<Pick<PrintConfig, (typeof PART_CONFIG_KEYS)[number]>>
+
+/** A part's quantity per set and its own options; anything left out follows the quote */
+export function parseQuotePart(raw: Record<string, unknown>): { quantity: number; config: PartConfig } | { error: string } {
+  const parsed = parsePrintConfig({
+    ...Object.fromEntries(PART_CONFIG_KEYS.map((key) => [key, raw[key]])),
+    quantity: raw.quantity,
+  })
+  if ("error" in parsed) return parsed
+  const config: PartConfig = {}
+  for (const key of PART_CONFIG_KEYS) {
+    if (parsed.config[key] !== null) Object.assign(config, { [key]: parsed.config[key] })
+  }
+  return { quantity: parsed.config.quantity, config }
+}
+
+/** The options a part is printed with */
+export function partPrintConfig(quote: PrintConfig, part: PartConfig | null | undefined): PrintConfig {
+  return { ...quote, ...part }
+}
+
+/** Config as stored on QuoteRequest columns */
+export function printConfigData(config: PrintConfig) {
+  return {
+    materialId: config.materialId,
+    colorId: config.colorId,
+    layerHeight: config.layerHeight,
+    infill: config.infill,
+    quantity: config.quantity,
+    finish: config.finish,
+    deadline: config.deadline ? new Date(`${config.deadline}T00:00:00Z`) : null,
+  }
+}
+
+/** Print options with names resolved — kept on quote messages so later catalog edits don't rewrite history */
+export type PrintConfigSnapshot = PrintConfig & {
+  materialName: string | null
+  color: { nameEn: string; nameBg: string; nameEs: string; hex: string } | null
+}
+
+/** Config from QuoteRequest columns (API rows carry the deadline as an ISO string) */
+export function printConfigOf(quote: {
+  materialId: string | null
+  colorId: string | null
+  layerHeight: number | null
+  infill: number | null
+  quantity: number
+  finish: string | null
+  deadline: Date | string | null
+}): PrintConfig {
+  return {
+    materialId: quote.materialId,
+    colorId: quote.colorId,
+    layerHeight: quote.layerHeight,
+    infill: quote.infill,
+    quantity: quote.quantity,
+    finish: (PRINT_FINISHES as readonly string[]).includes(quote.finish ?? "") ? (quote.finish as PrintFinish) : null,
+    deadline: quote.deadline ? new Date(quote.deadline).toISOString().slice(0, 10) : null,
+  }
+}
+
+/** Short labels for a config, e.g. ["PLA", "Red", "×5", "0.2 mm", "20% infill", "Sanding", "by 2026-11-01"] */
+export function printConfigParts(
+  config: PrintConfigSnapshot,
+  locale: string,
+  labels: { finish: (finish: PrintFinish) => string; infill: string; deadline: string }
+): string[] {
+  const colorName = config.color && (locale === "bg" ? config.color.nameBg : locale === "es" ? config.color.nameEs : config.color.nameEn)
+  return [
+    config.materialName,
+    colorName,
+    `×${config.quantity}`,
+    config.layerHeight !== null ? `${config.layerHeight} mm` : null,
+    config.infill !== null ? labels.infill.replace("{value}", String(config.infill)) : null,
+    config.finish && config.finish !== "none" ? labels.finish(config.finish) : null,
+    config.deadline ? labels.deadline.replace("{value}", config.deadline) : null,
+  ].filter((part): part is string => !!part)
+}
@@ -0,0 +1,200 @@
+import type { Prisma } from "@prisma/client"
+import prisma from "@/lib/prisma"
+import { consumeFilamentForOrder, consumeFilamentForQuote } from "@/lib/filament"
+import type { MeshAnalysis } from "@/lib/meshAnalysis"
+import { partPrintConfig, printConfigOf, type PartConfig } from "@/lib/printConfig"
+import { orderStatusFromJobs } from "@/lib/production"
+import { PAID_QUOTE_STATUSES } from "@/lib/quotePayment"
+import type { QuoteEstimate } from "@/lib/quotePricing"
+
+/** What the production board shows of a job */
+export const PRINT_JOB_SELECT = {
+  id: true,
+  name: true,
+  quantity: true,
+  status: true,
+  position: true,
+  printerId: true,
+  materialId: true,
+  sizeX: true,
+  sizeY: true,
+  sizeZ: true,
+  grams: true,
+  estimatedMinutes: true,
+  scheduledAt: true,
+  startedAt: true,
+  packedAt: true,
+  notes: true,
+  createdAt: true,
+  material: { select: { name: true } },
+  color: { select: { nameEn: true, nameBg: true, nameEs: true, hex: true } },
+  order: { select: { id: true, orderNumber: true, status: true, customerName: true } },
+  quote: { select: { id: true, quoteNumber: true, status: true, name: true, deadline: true } },
+} satisfies Prisma.PrintJobSelect
+
+/** Ids among `ids` that still exist — job rows reference them by foreign key */
+async function existingIds(model: "printMaterial" | "color", ids: (string | null)[]): Promise<Set<string>> {
+  const wanted = [...new Set(ids.filter((id): id is string => !!id))]
+  if (wanted.length === 0) return new Set()
+  const rows = model === "color"
+    ? await prisma.color.findMany({ where: { id: { in: wanted } }, select: { id: true } })
+    : await prisma.printMaterial.findMany({ where: { id: { in: wanted } }, select: { id: true } })
+  return new Set(rows.map((row) => row.id))
+}
+
+/** One job per physical line of a paid order. Does nothing when the order already has jobs. */
+export async function createOrderPrintJobs(orderId: string): Promise<number> {
+  const existing = await prisma.printJob.count({ where: { orderId } })
+  if (existing > 0) return 0
+
+  const items = await prisma.orderItem.findMany({
+    where: { orderId, fileType: { not: "digital" } },
+    orderBy: { createdAt: "asc" },
+    select: { nameEn: true, packageLabel: true, colorId: true, quantity: true },
+  })
+  const colors = await existingIds("color", items.map((item) => item.colorId))
+
+  const created = await prisma.printJob.createMany({
+    data: items.map((item) => ({
+      orderId,
+      name: item.packageLabel ? `${item.nameEn} (${item.packageLabel})` : item.nameEn,
+      quantity: item.quantity,
+      colorId: item.colorId && colors.has(item.colorId) ? item.colorId : null,
+    })),
+  })
+  return created.count
+}
+
+/**
+ * One job per part of an accepted quote, with the size, weight and print time of its estimate.
+ * When the quote already has jobs they are only linked to the order that paid for it.
+ */
+export async function createQuotePrintJobs(quoteId: string): Promise<number> {
+  const quote = await prisma.quoteRequest.findUnique({
+    where: { id: quoteId },
+    select: {
+      quoteNumber: true,
+      fileName: true,
+      geometry: true,
+      estimate: true,
+      orderId: true,
+      materialId: true,
+      colorId: true,
+      layerHeight: true,
+      infill: true,
+      quantity: true,
+      finish: true,
+      deadline: true,
+      files: {
+        orderBy: [{ order: "asc" }, { createdAt: "asc" }],
+        select: {
+          name: true,
+          quantity: true,
+          config: true,
+          revisions: { orderBy: { version: "desc" }, take: 1, select: { geometry: true } },
+        },
+      },
+    },
+  })
+  if (!quote) return 0
+
+  const existing = await prisma.printJob.count({ where: { quoteId } })
+  if (existing > 0) {
+    if (quote.orderId) {
+      await prisma.printJob.updateMany({ where: { quoteId, orderId: null }, data: { orderId: quote.orderId } })
+      await syncProductionStatus({ orderId: quote.orderId, quoteId })
+    }
+    return 0
+  }
+
+  const estimate = quote.estimate as QuoteEstimate | null
+  const quoteConfig = printConfigOf(quote)
+  // Quotes from before parts had files are printed as a single job
+  const parts = quote.files.length > 0
+    ? quote.files.map((file, i) => {
+        const config = partPrintConfig(quoteConfig, file.config as PartConfig | null)
+        const part = estimate?.parts?.length === quote.files.length ? estimate.parts[i] : null
+        return {
+          name: file.name,
+          quantity: file.quantity * quote.quantity,
+          geometry: file.revisions[0]?.geometry as MeshAnalysis | null | undefined,
+          materialId: config.materialId,
+          colorId: config.colorId,
+          grams: part?.grams ?? null,
+          hours: part?.hours ?? null,
+        }
+      })
+    : [{
+        name: quote.fileName || quote.quoteNumber,
+        quantity: quote.quantity,
+        geometry: quote.geometry as MeshAnalysis | null,
+        materialId: quoteConfig.materialId,
+        colorId: quoteConfig.colorId,
+        grams: estimate?.grams ?? null,
+        hours: estimate?.hours ?? null,
+      }]
+
+  const [materials, colors] = await Promise.all([
+    existingIds("printMaterial", parts.map((part) => part.materialId)),
+    existingIds("color", parts.map((part) => part.colorId)),
+  ])
+
+  const created = await prisma.printJob.createMany({
+    data: parts.map((part, position) => ({
+      quoteId,
+      orderId: quote.orderId,
+      name: part.name,
+      quantity: part.quantity,
+      materialId: part.materialId && materials.has(part.materialId) ? part.materialId : null,
+      colorId: part.colorId && colors.has(part.colorId) ? part.colorId : null,
+      sizeX: part.geometry?.size[0] ?? null,
+      sizeY: part.geometry?.size[1] ?? null,
+      sizeZ: part.geometry?.size[2] ?? null,
+      grams: part.grams,
+      estimatedMinutes: part.hours !== null ? Math.max(1, Math.round(part.hours * 60)) : null,
+      position,
+    })),
+  })
+  return created.count
+}
+
+/** A failed inventory update must not undo the status change */
+function logFilamentError(error: unknown) {
+  console.error("Failed to consume filament:", error instanceof Error ? error.message : "Unknown")
+}
+
+/**
+ * Carry job progress up to the parent order and paid quote. Cancelled orders are left alone;
+ * a paid quote is in production once any of its jobs has left the queue. Filament is taken
+ * from the inventory when everything is packed.
+ */
+export async function syncProductionStatus({ orderId, quoteId }: { orderId: string | null; quoteId: string | null }) {
+  if (orderId) {
+    const order = await prisma.order.findUnique({
+      where: { id: orderId },
+      select: { status: true, printJobs: { select: { status: true } } },
+    })
+    const next = order && orderStatusFromJobs(order.printJobs.map((job) => job.status))
+    if (order && next && order.status !== "CANCELLED" && order.status !== next) {
+      await prisma.order.update({ where: { id: orderId }, data: { status: next } })
+      if (next === "COMPLETED") await consumeFilamentForOrder(orderId).catch(logFilamentError)
+    }
+  }
+
+  if (quoteId) {
+    const quote = await prisma.quoteRequest.findUnique({
+      where: { id: quoteId },
+      select: { status: true, orderId: true, printJobs: { select: { status: true } } },
+    })
+    if (quote && PAID_QUOTE_STATUSES.includes(quote.status) && quote.printJobs.length > 0) {
+      const next = quote.printJobs.some((job) => job.status !== "queued") ? "in_production" : "paid"
+      if (quote.status !== next) {
+        await prisma.quoteRequest.update({ where: { id: quoteId }, data: { status: next } })
+      }
+      // Quotes paid through an order are consumed with it
+      if (!quote.orderId && quote.printJobs.every((job) => job.status === "packed")) {
+        await consumeFilamentForQuote(quoteId).catch(logFilamentError)
+      }
+    }
+  }
+}
@@ -0,0 +1,305 @@
+import { unstable_cache, revalidateTag } from "next/cache"
+import { Prisma } from "@prisma/client"
+import prisma from "@/lib/prisma"
+import type { Locale } from "@/i18n/config"
+import { isCategoryMatch } from "@/lib/couponHelpers"
+import { matchProducts, categorySubtree } from "@/lib/productSearch"
+import { getSynonymRules } from "@/lib/searchAnalytics"
+import { synonymMap, type FacetCount } from "@/lib/search"
+import {
+  CATALOG_PAGE_SIZE, encodeCatalogCursor, decodeCatalogCursor,
+  type CatalogQuery, type CatalogFacets,
+} from "@/lib/catalog"
+
+export const CATALOG_TAG = "catalog"
+const CATALOG_TTL = 300 // seconds
+
+// Filters, sorts and facet counts all run in Postgres over "Product" p — nothing is loaded
+// beyond the counts and the ids of one page.
+
+/** Sale-aware price, as the catalog filters and sorts by it */
+const EFFECTIVE_PRICE = Prisma.sql`(CASE WHEN p."onSale" AND p."salePrice" IS NOT NULL THEN p."salePrice" ELSE p.price END)`
+
+/** Bulk tiers are a JSON array — "" and "[]" mean none */
+const hasTiers = (column: string) => Prisma.raw(`${column} ~ '^\\s*\\[\\s*[^]\\s]'`)
+
+/** Same as `computeHasBulkDiscount`: product or package tiers, until the product's promotion expires */
+const BULK_DISCOUNT = Prisma.sql`((p."bulkDiscountExpiresAt" IS NULL OR p."bulkDiscountExpiresAt" > now())
+  AND (${hasTiers(`p."bulkDiscountTiers"`)}
+    OR EXISTS (SELECT 1 FROM "ProductPackage" pk WHERE pk."productId" = p.id AND ${hasTiers(`pk."bulkDiscountTiers"`)})))`
+
+const IS_SALE = Prisma.sql`(p."onSale" OR ${BULK_DISCOUNT})`
+
+/** Best percentage off across packages, else the product's own, for products on sale */
+const DISCOUNT = Prisma.sql`(CASE WHEN NOT p."onSale" THEN 0 ELSE coalesce(
+  nullif((SELECT greatest(0, max(round((1 - pk."salePrice" / pk.price) * 100))) FROM "ProductPackage" pk
+    WHERE pk."productId" = p.id AND pk.price > 0 AND pk."salePrice" IS NOT NULL), 0),
+  CASE WHEN p.price > 0 AND p."salePrice" IS NOT NULL THEN round((1 - p."salePrice" / p.price) * 100) ELSE 0 END) END)`
+
+/** Featured first, then admin order, newest */
+const DEFAULT_ORDER = Prisma.sql`p.featured DESC, p."order" ASC, p."createdAt" DESC, p.id`
+
+const getCategoryRows = unstable_cache(
+  () => prisma.productCategory.findMany({ select: { id: true, slug: true, parentId: true, nameEn: true, nameBg: true, nameEs: true } }),
+  ["catalog-categories"],
+  { tags: [CATALOG_TAG], revalidate: CATALOG_TTL },
+)
+
+/** Drop the cached categories — call after products, brands or categories change */
+export function invalidateCatalog() {
+  revalidateTag(CATALOG_TAG, "max")
+}
+
+type Dimension = "category" | "brand" | "colors" | "weights" | "price" | "onSale" | "availability" | "featured" | "bestSeller"
+
+/** What narrows the catalog besides the query's filters: search matches and the category subtree */
+interface CatalogScope {
+  ids: string[] | null
+  categories: string[] | null
+}
+
+/** SQL condition for the query's filters, optionally leaving one out for its facet */
+function catalogWhere(query: CatalogQuery, scope: CatalogScope, skip?: Dimension): Prisma.Sql {
+  const where = [Prisma.sql`p.published`]
+  if (scope.ids) where.push(scope.ids.length > 0 ? Prisma.sql`p.id IN (${Prisma.join(scope.ids)})` : Prisma.sql`FALSE`)
+  if (skip !== "category" && scope.categories) where.push(Prisma.sql`p.category IN (${Prisma.join(scope.categories)})`)
+  if (skip !== "brand" && query.brand) {
+    where.push(Prisma.sql`EXISTS (SELECT 1 FROM "Brand" b WHERE b.id = p."brandId" AND b.slug = ${query.brand})`)
+  }
+  if (skip !== "colors" && query.colors.length > 0) {
+    where.push(Prisma.sql`EXISTS (SELECT 1 FROM "ProductVariant" v WHERE v."productId" = p.id AND v."colorId" IN (${Prisma.join(query.colors)}))`)
+  }
+  if (skip !== "weights" && query.weights.length > 0) {
+    where.push(Prisma.sql`EXISTS (SELECT 1 FROM "ProductPackage" pk WHERE pk."productId" = p.id AND pk."weightId" IN (${Prisma.join(query.weights)}))`)
+  }
+  if (skip !== "availability" && query.availability.length > 0) where.push(Prisma.sql`p.status IN (${Prisma.join(query.availability)})`)
+  if (skip !== "onSale" && query.onSale) where.push(IS_SALE)
+  if (skip !== "featured" && query.featured) where.push(Prisma.sql`p.featured`)
+  if (skip !== "bestSeller" && query.bestSeller) where.push(Prisma.sql`p."bestSeller"`)
+  if (skip !== "price" && query.minPrice !== null) where.push(Prisma.sql`${EFFECTIVE_PRICE} >= ${query.minPrice}`)
+  if (skip !== "price" && query.maxPrice !== null) where.push(Prisma.sql`${EFFECTIVE_PRICE} <= ${query.maxPrice}`)
+  return Prisma.join(where, " AND ")
+}
+
+function catalogOrder(query: CatalogQuery, scope: CatalogScope, locale: Locale): Prisma.Sql {
+  const name = locale === "bg" ? "nameBg" : locale === "es" ? "nameEs" : "nameEn"
+  switch (query.sort) {
+    case "price-asc":
+      return Prisma.sql`${EFFECTIVE_PRICE} ASC NULLS LAST, ${DEFAULT_ORDER}`
+    case "price-desc":
+      return Prisma.sql`${EFFECTIVE_PRICE} DESC NULLS LAST, ${DEFAULT_ORDER}`
+    case "discount":
+      return Prisma.sql`(p.status IN ('in_stock', 'pre_order')) DESC, ${DISCOUNT} DESC, ${DEFAULT_ORDER}`
+    case "name-az":
+      return Prisma.sql`p.${Prisma.raw(`"${name}"`)} ASC, ${DEFAULT_ORDER}`
+    default:
+      // Without an explicit sort, search results keep their relevance order
+      return scope.ids && scope.ids.length > 0
+        ? Prisma.sql`array_position(ARRAY[${Prisma.join(scope.ids)}]::text[], p.id)`
+        : DEFAULT_ORDER
+  }
+}
+
+const byCount = (a: FacetCount, b: FacetCount) => b.count - a.count || a.nameEn.localeCompare(b.nameEn)
+
+/** Each facet counted with every other filter applied but not its own; a product counts once per value */
+async function catalogFacets(query: CatalogQuery, scope: CatalogScope, categoryRows: Awaited<ReturnType<typeof getCategoryRows>>) {
+  const without = (dimension: Dimension) => catalogWhere(query, scope, dimension)
+  const [categories, brands, colors, weights, availability, [counts]] = await Promise.all([
+    prisma.$queryRaw<{ value: string; count: number }[]>`
+      SELECT p.category AS value, count(*)::int AS count FROM "Product" p
+      WHERE ${without("category")} GROUP BY p.category`,
+    prisma.$queryRaw<FacetCount[]>`
+      SELECT b.slug AS value, b."nameEn", b."nameBg", b."nameEs", count(*)::int AS count
+      FROM "Product" p JOIN "Brand" b ON b.id = p."brandId"
+      WHERE ${without("brand")} GROUP BY b.id`,
+    prisma.$queryRaw<FacetCount[]>`
+      SELECT c.id AS value, c."nameEn", c."nameBg", c."nameEs", c.hex, c.hex2, count(DISTINCT p.id)::int AS count
+      FROM "Product" p JOIN "ProductVariant" v ON v."productId" = p.id JOIN "Color" c ON c.id = v."colorId"
+      WHERE ${without("colors")} GROUP BY c.id`,
+    prisma.$queryRaw<FacetCount[]>`
+      SELECT w.id AS value, w.label AS "nameEn", w.label AS "nameBg", w.label AS "nameEs", count(DISTINCT p.id)::int AS count
+      FROM "Product" p JOIN "ProductPackage" pk ON pk."productId" = p.id JOIN "Weight" w ON w.id = pk."weightId"
+      WHERE ${without("weights")} GROUP BY w.id`,
+    prisma.$queryRaw<{ value: string; count: number }[]>`
+      SELECT p.status AS value, count(*)::int AS count FROM "Product" p
+      WHERE ${without("availability")} GROUP BY p.status`,
+    prisma.$queryRaw<{ minPrice: number | null; maxPrice: number | null; onSale: number; featured: number; bestSeller: number }[]>`
+      SELECT
+        (SELECT min(${EFFECTIVE_PRICE})::float8 FROM "Product" p WHERE ${without("price")}) AS "minPrice",
+        (SELECT max(${EFFECTIVE_PRICE})::float8 FROM "Product" p WHERE ${without("price")}) AS "maxPrice",
+        (SELECT count(*)::int FROM "Product" p WHERE ${without("onSale")} AND ${IS_SALE}) AS "onSale",
+        (SELECT count(*)::int FROM "Product" p WHERE ${without("featured")} AND p.featured) AS featured,
+        (SELECT count(*)::int FROM "Product" p WHERE ${without("bestSeller")} AND p."bestSeller") AS "bestSeller"`,
+  ])
+
+  const names = new Map(categoryRows.map((c) => [c.slug, c]))
+  return {
+    categories: categories.map(({ value, count }) => {
+      const category = names.get(value)
+      return { value, nameEn: category?.nameEn ?? value, nameBg: category?.nameBg ?? value, nameEs: category?.nameEs ?? value, count }
+    }).sort(byCount),
+    brands: brands.sort(byCount),
+    colors: colors.sort(byCount),
+    weights: weights.sort(byCount),
+    availability: availability.map(({ value, count }) => ({ value, nameEn: value, nameBg: value, nameEs: value, count })).sort(byCount),
+    price: counts.minPrice !== null && counts.maxPrice !== null ? { min: counts.minPrice, max: counts.maxPrice } : null,
+    onSale: counts.onSale,
+    featured: counts.featured,
+    bestSeller: counts.bestSeller,
+  } satisfies CatalogFacets
+}
+
+/** Only what a product card and the quick view show — never the model file or who created it */
+const catalogSelect = {
+  id: true,
+  slug: true,
+  nameEn: true,
+  nameBg: true,
+  nameEs: true,
+  descEn: true,
+  descBg: true,
+  descEs: true,
+  category: true,
+  brandId: true,
+  price: true,
+  salePrice: true,
+  onSale: true,
+  currency: true,
+  priceType: true,
+  fileType: true,
+  image: true,
+  gallery: true,
+  fileThumbnail: true,
+  featured: true,
+  bestSeller: true,
+  status: true,
+  createdAt: true,
+  bulkDiscountTiers: true,
+  bulkDiscountExpiresAt: true,
+  brand: { select: { slug: true, nameEn: true, nameBg: true, nameEs: true } },
+  variants: {
+    select: { id: true, image: true, status: true, colorId: true, color: { select: { nameEn: true, nameBg: true, nameEs: true, hex: true, hex2: true } } },
+    orderBy: { order: "asc" },
+  },
+  packages: {
+    select: {
+      id: true,
+      price: true,
+      salePrice: true,
+      status: true,
+      bulkDiscountTiers: true,
+      weight: { select: { label: true } },
+      packageVariants: { select: { variantId: true, status: true } },
+    },
+    orderBy: { order: "asc" },
+  },
+} satisfies Prisma.ProductSelect
+
+export type CatalogProduct = Omit<Prisma.ProductGetPayload<{ select: typeof catalogSelect }>, "fileThumbnail">
+
+export interface CouponBadge {
+  code: string
+  type: string
+  value: string
+  currency: string | null
+  expiresAt: string | null
+}
+
+export interface CatalogPage {
+  products: CatalogProduct[]
+  couponMap: Record<string, CouponBadge>
+  total: number
+  facets: CatalogFacets
+  nextCursor: string | null
+}
+
+/**
+ * The best promoted coupon for each product: one for the product itself, else its category,
+ * else its brand, else a storewide one. Sale products only get coupons that allow sale items.
+ */
+export async function getCouponBadges(
+  products: { id: string; category: string; brandId: string | null; onSale: boolean; salePrice: Prisma.Decimal | null }[],
+): Promise<Record<string, CouponBadge>> {
+  if (products.length === 0) return {}
+  const now = new Date()
+  const [coupons, categories] = await Promise.all([
+    prisma.coupon.findMany({
+      where: {
+        showOnProduct: true,
+        active: true,
+        AND: [
+          { OR: [{ startsAt: null }, { startsAt: { lte: now } }] },
+          { OR: [{ expiresAt: null }, { expiresAt: { gt: now } }] },
+        ],
+      },
+      select: { code: true, type: true, value: true, currency: true, productIds: true, categoryIds: true, brandIds: true, allowOnSale: true, expiresAt: true },
+    }),
+    getCategoryRows(),
+  ])
+  if (coupons.length === 0) return {}
+
+  const couponMap: Record<string, CouponBadge> = {}
+  for (const product of products) {
+    const eligible = coupons.filter((c) => !(product.onSale && product.salePrice && !c.allowOnSale))
+    const coupon =
+      eligible.find((c) => c.productIds.includes(product.id)) ??
+      eligible.find((c) => c.productIds.length === 0 && c.categoryIds.length > 0 && isCategoryMatch(product.category, c.categoryIds, categories)) ??
+      eligible.find((c) => c.productIds.length === 0 && c.categoryIds.length === 0 && c.brandIds.length > 0 && !!product.brandId && c.brandIds.includes(product.brandId)) ??
+      eligible.find((c) => c.productIds.length === 0 && c.categoryIds.length === 0 && c.brandIds.length === 0)
+    if (coupon) {
+      couponMap[product.id] = {
+        code: coupon.code, type: coupon.type, value: coupon.value.toString(), currency: coupon.currency, expiresAt: coupon.expiresAt?.toISOString() ?? null,
+      }
+    }
+  }
+  return couponMap
+}
+
+/**
+ * One page of the catalog with facet counts. Each facet is counted with every other filter
+ * applied but not its own; `limit: 0` returns just the total and facets.
+ */
+export async function getCatalogPage(query: CatalogQuery, locale: Locale, limit = CATALOG_PAGE_SIZE): Promise<CatalogPage> {
+  const categoryRows = await getCategoryRows()
+  const ids = query.q
+    ? await matchProducts(query.q, locale, { publishedOnly: true, synonyms: synonymMap(await getSynonymRules()) })
+    : null
+  const subtree = query.subcategories.length > 0 ? query.subcategories : query.category ? [query.category] : []
+  const scope: CatalogScope = { ids, categories: subtree.length > 0 ? [...categorySubtree(subtree, categoryRows)] : null }
+  const where = catalogWhere(query, scope)
+
+  // Resume after the cursor's product; if it has since dropped out, fall back to its offset
+  const cursor = decodeCatalogCursor(query.cursor)
+  const [[{ total }], pageRows, facets] = await Promise.all([
+    prisma.$queryRaw<{ total: number }[]>`SELECT count(*)::int AS total FROM "Product" p WHERE ${where}`,
+    limit > 0
+      ? prisma.$queryRaw<{ id: string; position: number }[]>`
+          WITH matched AS (
+            SELECT p.id, row_number() OVER (ORDER BY ${catalogOrder(query, scope, locale)})::int AS position
+            FROM "Product" p WHERE ${where}
+          )
+          SELECT id, position FROM matched
+          WHERE position > coalesce((SELECT position FROM matched WHERE id = ${cursor?.id ?? null}), ${cursor?.offset ?? 0}::int)
+          ORDER BY position
+          LIMIT ${limit}::int`
+      : Promise.resolve([]),
+    catalogFacets(query, scope, categoryRows),
+  ])
+
+  const last = pageRows[pageRows.length - 1]
+  const nextCursor = last && last.position < total ? encodeCatalogCursor(last.position, last.id) : null
+  if (pageRows.length === 0) return { products: [], couponMap: {}, total, facets, nextCursor }
+
+  const found = await prisma.product.findMany({ where: { id: { in: pageRows.map((row) => row.id) } }, select: catalogSelect })
+  const byId = new Map(found.map((product) => [product.id, product]))
+  const ordered = pageRows.map((row) => byId.get(row.id)).filter((product) => !!product)
+  const couponMap = await getCouponBadges(ordered)
+  // Show the first available variant's image, else the main image, else the model preview
+  const products: CatalogProduct[] = ordered.map(({ fileThumbnail, ...product }) => ({
+    ...product,
+    image: product.variants.find((v) => ["in_stock", "pre_order"].includes(v.status))?.image || product.image || fileThumbnail,
+  }))
+
+  return { products, couponMap, total, facets, nextCursor }
+}
@@ -0,0 +1,276 @@
+import { unstable_cache, revalidateTag } from "next/cache"
+import prisma from "@/lib/prisma"
+import type { Locale } from "@/i18n/config"
+import { buildProductUrl } from "@/lib/productUrl"
+import { buildTaxContext, getPriceFactor, STORE_COUNTRY } from "@/lib/vat"
+import { categorySubtree } from "@/lib/productSearch"
+import { CATALOG_TAG } from "@/lib/productCatalog"
+
+const BASE_URL = process.env.NEXT_PUBLIC_SITE_URL || "https://www.digital4d.eu"
+const FEEDS_TAG = "feeds"
+const FEED_TTL = 3600 // seconds; product edits drop the cache right away, orders' stock changes within the hour
+
+export const FEED_CHANNELS = ["google", "meta"] as const
+export type FeedChannel = typeof FEED_CHANNELS[number]
+
+export interface FeedSettings {
+  categories: string[] // category slugs, each with its subcategories; empty = every category
+}
+
+/** Stored as JSON in SiteSettings.productFeeds; missing or invalid fields use the defaults */
+export function parseFeedSettings(json: string | null | undefined): FeedSettings {
+  let raw: Record<string, unknown> = {}
+  try {
+    const parsed = JSON.parse(json || "{}")
+    if (parsed && typeof parsed === "object" && !Array.isArray(parsed)) raw = parsed
+  } catch { /* fall back to defaults */ }
+  return {
+    categories: Array.isArray(raw.categories) ? raw.categories.filter((c): c is string => typeof c === "string") : [],
+  }
+}
+
+export type FeedAvailability = "in_stock" | "out_of_stock" | "preorder"
+export type FeedIssue = "missing_image" | "missing_price"
+
+/** One purchasable SIZE×COLOR combination (or the product itself when it has neither) */
+export interface FeedItem {
+  id: string
+  itemGroupId: string | null
+  productId: string
+  title: string
+  description: string
+  link: string
+  imageLink: string | null
+  additionalImageLinks: string[]
+  price: number | null
+  salePrice: number | null
+  currency: string
+  availability: FeedAvailability
+  brand: string | null
+  gtin: string | null
+  mpn: string | null
+  color: string | null
+  size: string | null
+  productType: string
+  issues: FeedIssue[]
+}
+
+const round2 = (n: number) => Math.round(n * 100) / 100
+
+const localized = <T extends { nameBg: string; nameEn: string; nameEs: string }>(item: T, locale: Locale) =>
+  locale === "bg" ? item.nameBg : locale === "es" ? item.nameEs : item.nameEn
+
+const plainText = (html: string) =>
+  html.replace(/<[^>]*>/g, " ").replace(/&nbsp;/g, " ").replace(/&amp;/g, "&").replace(/\s+/g, " ").trim()
+
+const codeOf = (text: string) => text.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-+|-+$/g, "")
+
+/** Whether a SKU is itself a GTIN (EAN-8, UPC-A, EAN-13 or GTIN-14 with a valid check digit) */
+function asGtin(sku: string | null): string | null {
+  if (!sku || !/^(\d{8}|\d{12,14})$/.test(sku)) return null
+  const digits = [...sku].map(Number)
+  const check = digits.pop()!
+  const sum = digits.reverse().reduce((total, d, i) => total + d * (i % 2 === 0 ? 3 : 1), 0)
+  return (10 - (sum % 10)) % 10 === check ? sku : null
+}
+
+/** The least available of the statuses that apply to an item; a SIZE×COLOR cell is authoritative */
+function availabilityOf(statuses: (string | undefined)[], cellStatus?: string): FeedAvailability {
+  const applicable = cellStatus ? [cellStatus] : statuses.filter((s): s is string => !!s)
+  if (applicable.some((s) => ["out_of_stock", "sold_out", "coming_soon"].includes(s))) return "out_of_stock"
+  if (applicable.includes("pre_order")) return "preorder"
+  return "in_stock"
+}
+
+/**
+ * Feed items for a locale: published, directly purchasable products in the chosen categories,
+ * one item per package × color variant. Prices are what a Bulgarian consumer pays (VAT included).
+ * Items with issues are kept here for the admin preview and left out of the feeds themselves.
+ */
+export const getFeedItems = unstable_cache(
+  async (locale: Locale): Promise<FeedItem[]> => {
+    const [settings, categories, products] = await Promise.all([
+      prisma.siteSettings.findUnique({
+        where: { id: "singleton" },
+        select: { productFeeds: true, pricesIncludeVat: true, ossEnabled: true },
+      }),
+      prisma.productCategory.findMany({ select: { id: true, slug: true, parentId: true, nameBg: true, nameEn: true, nameEs: true } }),
+      prisma.product.findMany({
+        where: { published: true, priceType: "fixed", NOT: { fileType: "service" } },
+        orderBy: [{ order: "asc" }, { createdAt: "desc" }],
+        include: {
+          brand: true,
+          variants: { include: { color: true }, orderBy: { order: "asc" } },
+          packages: { include: { weight: true, packageVariants: true }, orderBy: { order: "asc" } },
+        },
+      }),
+    ])
+
+    const feedSettings = parseFeedSettings(settings?.productFeeds)
+    const scope = feedSettings.categories.length > 0 ? categorySubtree(feedSettings.categories, categories) : null
+    const taxContext = buildTaxContext(
+      { pricesIncludeVat: settings?.pricesIncludeVat ?? true, ossEnabled: settings?.ossEnabled ?? true },
+      STORE_COUNTRY,
+      null
+    )
+    const categoryBySlug = new Map(categories.map((c) => [c.slug, c]))
+    const categoryById = new Map(categories.map((c) => [c.id, c]))
+
+    const items: FeedItem[] = []
+    for (const product of products) {
+      if (scope && !scope.has(product.category)) continue
+
+      const category = categoryBySlug.get(product.category)
+      const parent = category?.parentId ? categoryById.get(category.parentId) : undefined
+      const name = localized(product, locale)
+      const description = plainText(
+        (locale === "bg" ? product.descBg : locale === "es" ? product.descEs : product.descEn) || product.descEn || ""
+      ) || name
+      const path = buildProductUrl(product.slug, product.category, product.brand?.slug, parent?.slug)
+      const factor = getPriceFactor(taxContext, product.taxClass)
+      const gross = (value: { toString(): string } | null) => (value === null ? null : round2(Number(value.toString()) * factor))
+
+      const packages = product.packages.length > 0 ? product.packages : [null]
+      const variants = product.variants.length > 0 ? product.variants : [null]
+      const grouped = packages.length * variants.length > 1
+
+      for (const pkg of packages) {
+        for (const variant of variants) {
+          const cell = pkg && variant ? pkg.packageVariants.find((pv) => pv.variantId === variant.id) : undefined
+          // A package with a SIZE×COLOR matrix only sells the colors it lists
+          if (pkg && variant && pkg.packageVariants.length > 0 && !cell) continue
+
+          const sku = pkg?.sku || product.sku
+          const price = pkg ? gross(pkg.price) : gross(product.price)
+          const salePrice = pkg ? gross(pkg.salePrice) : product.onSale ? gross(product.salePrice) : null
+          const image = variant?.image || product.image || product.gallery[0] || null
+          const params = new URLSearchParams({ lang: locale })
+          if (pkg) params.set("weight", pkg.slug)
+          if (variant) params.set("color", variant.colorId)
+
+          const issues: FeedIssue[] = []
+          if (!image) issues.push("missing_image")
+          if (!price) issues.push("missing_price")
+
+          items.push({
+            id: [pkg?.sku || product.sku || product.slug, pkg && !pkg.sku ? codeOf(pkg.weight.label) : null, variant ? codeOf(variant.color.nameEn) : null]
+              .filter(Boolean).join("-").slice(0, 50),
+            itemGroupId: grouped ? (product.sku || product.id).slice(0, 50) : null,
+            productId: product.id,
+            title: [name, pkg?.weight.label, variant ? localized(variant.color, locale) : null].filter(Boolean).join(" - ").slice(0, 150),
+            description: description.slice(0, 5000),
+            link: `${BASE_URL}${path}?${params}`,
+            imageLink: image,
+            additionalImageLinks: product.gallery.filter((url) => url !== image).slice(0, 10),
+            price,
+            salePrice: salePrice !== null && price !== null && salePrice < price ? salePrice : null,
+            currency: product.currency,
+            availability: availabilityOf([product.status, pkg?.status, variant?.status], cell?.status),
+            brand: product.brand ? localized(product.brand, locale) : null,
+            gtin: asGtin(sku),
+            mpn: sku,
+            color: variant ? localized(variant.color, locale) : null,
+            size: pkg?.weight.label ?? null,
+            productType: [parent, category].filter((c) => c !== undefined).map((c) => localized(c, locale)).join(" > "),
+            issues,
+          })
+        }
+      }
+    }
+    return items
+  },
+  ["product-feed-items"],
+  { tags: [CATALOG_TAG, FEEDS_TAG], revalidate: FEED_TTL },
+)
+
+/** Drop the cached feeds — call after the feed settings change */
+export function invalidateFeeds() {
+  revalidateTag(FEEDS_TAG, "max")
+}
+
+const escapeXml = (value: string) =>
+  value.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;").replace(/'/g, "&apos;")
+
+const money = (amount: number, currency: string) => `${amount.toFixed(2)} ${currency}`
+
+/** Google Merchant Center RSS 2.0 feed */
+export function googleFeedXml(items: FeedItem[], locale: Locale): string {
+  const element = (tag: string, value: string | null) => (value ? `      <g:${tag}>${escapeXml(value)}</g:${tag}>\n` : "")
+  const entries = items.filter((item) => item.issues.length === 0).map((item) => [
+    "    <item>\n",
+    element("id", item.id),
+    `      <title>${escapeXml(item.title)}</title>\n`,
+    `      <description>${escapeXml(item.description)}</description>\n`,
+    `      <link>${escapeXml(item.link)}</link>\n`,
+    element("image_link", item.imageLink),
+    ...item.additionalImageLinks.map((url) => element("additional_image_link", url)),
+    element("availability", item.availability),
+    element("price", money(item.price!, item.currency)),
+    element("sale_price", item.salePrice === null ? null : money(item.salePrice, item.currency)),
+    element("condition", "new"),
+    element("brand", item.brand),
+    element("gtin", item.gtin),
+    element("mpn", item.mpn),
+    element("identifier_exists", item.gtin || (item.brand && item.mpn) ? null : "no"),
+    element("item_group_id", item.itemGroupId),
+    element("color", item.color),
+    element("size", item.size),
+    element("product_type", item.productType),
+    "    </item>\n",
+  ].join(""))
+
+  return [
+    `<?xml version="1.0" encoding="UTF-8"?>\n`,
+    `<rss version="2.0" xmlns:g="http://base.google.com/ns/1.0">\n`,
+    "  <channel>\n",
+    `    <title>digital4d (${locale})</title>\n`,
+    `    <link>${escapeXml(BASE_URL)}</link>\n`,
+    `    <description>digital4d products</description>\n`,
+    ...entries,
+    "  </channel>\n",
+    "</rss>\n",
+  ].join("")
+}
+
+const META_AVAILABILITY: Record<FeedAvailability, string> = {
+  in_stock: "in stock",
+  out_of_stock: "out of stock",
+  preorder: "preorder",
+}
+
+const META_HEADERS = [
+  "id", "item_group_id", "title", "description", "availability", "condition", "price", "sale_price",
+  "link", "image_link", "additional_image_link", "brand", "gtin", "mpn", "color", "size", "product_type",
+]
+
+function escapeCell(value: string | null): string {
+  const str = value ?? ""
+  if (str.includes('"') || str.includes(",") || str.includes("\n")) {
+    return '"' + str.replace(/"/g, '""') + '"'
+  }
+  return str
+}
+
+/** Meta (Facebook/Instagram) catalog CSV feed */
+export function metaFeedCsv(items: FeedItem[]): string {
+  const rows = items.filter((item) => item.issues.length === 0).map((item) => [
+    item.id,
+    item.itemGroupId,
+    item.title,
+    item.description,
+    META_AVAILABILITY[item.availability],
+    "new",
+    money(item.price!, item.currency),
+    item.salePrice === null ? null : money(item.salePrice, item.currency),
+    item.link,
+    item.imageLink,
+    item.additionalImageLinks.join(","),
+    item.brand,
+    item.gtin,
+    item.mpn,
+    item.color,
+    item.size,
+    item.productType,
+  ].map(escapeCell).join(","))
+  return [META_HEADERS.join(","), ...rows].join("\n") + "\n"
+}
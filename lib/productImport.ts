@@ -0,0 +1,666 @@
+import { randomUUID } from "crypto"
+import { neon, type NeonQueryFunction, type NeonQueryPromise } from "@neondatabase/serverless"
+import prisma from "@/lib/prisma"
+import { PRODUCT_AVAILABILITY } from "@/lib/catalog"
+import { statusForStock, syncStockStatuses, notifyRestock } from "@/lib/stock"
+import { logAuditAction } from "@/lib/auditLog"
+import { indexProducts } from "@/lib/productSearch"
+import { invalidateCatalog } from "@/lib/productCatalog"
+
+/**
+ * Product spreadsheet columns, shared by the export and the import. A row with neither Size
+ * nor Color is a product row; Size alone is a package, Color alone a color variant and both
+ * together a SIZE×COLOR matrix cell of the product named by the row's SKU or Slug.
+ */
+export const PRODUCT_SHEET_COLUMNS = [
+  { header: "SKU", key: "sku" },
+  { header: "Name (EN)", key: "nameEn" },
+  { header: "Name (BG)", key: "nameBg" },
+  { header: "Name (ES)", key: "nameEs" },
+  { header: "Category", key: "category" },
+  { header: "Brand", key: "brand" },
+  { header: "Type", key: "fileType" },
+  { header: "Status", key: "status" },
+  { header: "Price", key: "price" },
+  { header: "Sale Price", key: "salePrice" },
+  { header: "On Sale", key: "onSale" },
+  { header: "Price Type", key: "priceType" },
+  { header: "Currency", key: "currency" },
+  { header: "Featured", key: "featured" },
+  { header: "Best Seller", key: "bestSeller" },
+  { header: "Published", key: "published" },
+  { header: "Tags", key: "tags" },
+  { header: "Created At", key: "createdAt" },
+  { header: "Slug", key: "slug" },
+  { header: "Image", key: "image" },
+  { header: "Gallery", key: "gallery" },
+  { header: "Size", key: "size" },
+  { header: "Color", key: "color" },
+  { header: "Package SKU", key: "packageSku" },
+  { header: "Stock", key: "stock" },
+] as const
+
+type SheetKey = typeof PRODUCT_SHEET_COLUMNS[number]["key"]
+
+export const PRODUCT_SHEET_HEADERS = PRODUCT_SHEET_COLUMNS.map((c) => c.header)
+
+export const IMPORT_MAX_ROWS = 5000
+
+const FILE_TYPES = ["physical", "digital", "service"]
+const PRICE_TYPES = ["fixed", "from", "quote"]
+const SLUG_PATTERN = /^[a-z0-9]+(?:-[a-z0-9]+)*$/
+
+export type ImportAction = "create" | "update" | "skip" | "error"
+
+type Change = { from: unknown; to: unknown }
+
+export interface ImportRow {
+  row: number // 1-based sheet row, the header being row 1
+  kind: "product" | "package" | "variant" | "cell"
+  product: string
+  label: string
+  action: ImportAction
+  changes: Record<string, Change>
+  errors: string[]
+}
+
+export interface ImportPlan {
+  rows: ImportRow[]
+  summary: Record<ImportAction, number>
+  ignoredColumns: string[]
+}
+
+interface ProductFields {
+  sku: string | null
+  slug: string
+  nameEn: string
+  nameBg: string
+  nameEs: string
+  category: string
+  brandId: string | null
+  fileType: string
+  status: string
+  price: number | null
+  salePrice: number | null
+  onSale: boolean
+  priceType: string
+  currency: string
+  featured: boolean
+  bestSeller: boolean
+  published: boolean
+  tags: string[]
+  image: string | null
+  gallery: string[]
+}
+
+interface PackageFields { price: number; salePrice: number | null; status: string; sku: string | null }
+interface VariantFields { status: string; image: string | null }
+interface CellFields { status: string; stock: number | null }
+
+interface Draft<F> {
+  id: string
+  isNew: boolean
+  fields: F
+  dirty: Set<keyof F>
+}
+
+interface PackageDraft extends Draft<PackageFields> { weightId: string; label: string; order: number }
+interface VariantDraft extends Draft<VariantFields> { colorId: string; name: string; order: number }
+interface CellDraft extends Draft<CellFields> { packageId: string; variantId: string; colorId: string; oldStock: number | null }
+
+interface ProductDraft extends Draft<ProductFields> {
+  packages: Map<string, PackageDraft> // by weightId
+  variants: Map<string, VariantDraft> // by colorId
+  cells: Map<string, CellDraft> // by `${weightId}:${colorId}`
+  seenRows: Set<string>
+  changes: Record<string, Change>
+}
+
+export interface ProductImport {
+  plan: ImportPlan
+  drafts: ProductDraft[]
+}
+
+const decimal = (value: { toString(): string } | null) => (value === null ? null : Number(value.toString()))
+
+const same = (a: unknown, b: unknown) => JSON.stringify(a ?? null) === JSON.stringify(b ?? null)
+
+function slugify(text: string): string {
+  return text.normalize("NFKD").replace(/[\u0300-\u036f]/g, "").toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-").replace(/^-+|-+$/g, "")
+}
+
+/**
+ * Dry-run a spreadsheet against the catalog: every row becomes a create, update, skip or
+ * error with its field changes. Products match by SKU first, then slug. Blank cells leave a
+ * field as it is, so a supplier sheet with only SKU and Price updates prices and nothing else.
+ * Packages, variants and cells missing from the sheet are never removed.
+ */
+export async function planProductImport(sheet: string[][]): Promise<ProductImport | { error: string }> {
+  const [header = [], ...body] = sheet
+  const columns = new Map<SheetKey, number>()
+  const ignoredColumns: string[] = []
+  header.forEach((name, index) => {
+    const column = PRODUCT_SHEET_COLUMNS.find((c) => c.header.toLowerCase() === name.trim().toLowerCase())
+    if (column) columns.set(column.key, index)
+    else if (name.trim()) ignoredColumns.push(name.trim())
+  })
+  if (!columns.has("sku") && !columns.has("slug")) {
+    return { error: "The sheet needs a SKU or Slug column to match products" }
+  }
+  if (body.length > IMPORT_MAX_ROWS) {
+    return { error: `The sheet has more than ${IMPORT_MAX_ROWS} rows` }
+  }
+
+  const [products, categories, brands, weights, colors, productCount] = await Promise.all([
+    prisma.product.findMany({
+      include: {
+        packages: { include: { weight: true, packageVariants: true } },
+        variants: { include: { color: true } },
+      },
+    }),
+    prisma.productCategory.findMany({ select: { slug: true } }),
+    prisma.brand.findMany({ select: { id: true, slug: true, nameBg: true, nameEn: true, nameEs: true } }),
+    prisma.weight.findMany({ select: { id: true, label: true } }),
+    prisma.color.findMany({ select: { id: true, hex: true, nameBg: true, nameEn: true, nameEs: true } }),
+    prisma.product.count(),
+  ])
+
+  const categorySlugs = new Set(categories.map((c) => c.slug))
+  const brandName = (id: string | null) => brands.find((b) => b.id === id)?.nameEn ?? null
+  const findBrand = (name: string) => {
+    const needle = name.toLowerCase()
+    return brands.find((b) => [b.slug, b.nameEn, b.nameBg, b.nameEs].some((n) => n.toLowerCase() === needle))
+  }
+  const findWeight = (label: string) => weights.find((w) => w.label.toLowerCase() === label.toLowerCase())
+  const findColor = (name: string) => {
+    const needle = name.toLowerCase()
+    return colors.find((c) => [c.hex, c.nameEn, c.nameBg, c.nameEs].some((n) => n.toLowerCase() === needle))
+  }
+
+  // Drafts start from the stored product and collect every row's changes
+  const drafts = new Map<string, ProductDraft>()
+  const bySku = new Map<string, string>()
+  const bySlug = new Map<string, string>()
+  const stored = new Map(products.map((p) => [p.id, p]))
+  for (const p of products) {
+    if (p.sku) bySku.set(p.sku.toLowerCase(), p.id)
+    bySlug.set(p.slug, p.id)
+  }
+
+  const draftFor = (id: string): ProductDraft => {
+    const existing = drafts.get(id)
+    if (existing) return existing
+    const p = stored.get(id)!
+    const variantColor = new Map(p.variants.map((v) => [v.id, v.colorId]))
+    const draft: ProductDraft = {
+      id,
+      isNew: false,
+      fields: {
+        sku: p.sku, slug: p.slug, nameEn: p.nameEn, nameBg: p.nameBg, nameEs: p.nameEs,
+        category: p.category, brandId: p.brandId, fileType: p.fileType ?? "physical", status: p.status,
+        price: decimal(p.price), salePrice: decimal(p.salePrice), onSale: p.onSale,
+        priceType: p.priceType, currency: p.currency, featured: p.featured, bestSeller: p.bestSeller,
+        published: p.published, tags: p.tags, image: p.image, gallery: p.gallery,
+      },
+      dirty: new Set(),
+      packages: new Map(p.packages.map((pkg) => [pkg.weightId, {
+        id: pkg.id, isNew: false, weightId: pkg.weightId, label: pkg.weight.label, order: pkg.order, dirty: new Set(),
+        fields: { price: decimal(pkg.price)!, salePrice: decimal(pkg.salePrice), status: pkg.status, sku: pkg.sku },
+      }])),
+      variants: new Map(p.variants.map((v) => [v.colorId, {
+        id: v.id, isNew: false, colorId: v.colorId, name: v.color.nameEn, order: v.order, dirty: new Set(),
+        fields: { status: v.status, image: v.image },
+      }])),
+      cells: new Map(p.packages.flatMap((pkg) => pkg.packageVariants.map((pv) => {
+        const colorId = variantColor.get(pv.variantId) ?? ""
+        return [`${pkg.weightId}:${colorId}`, {
+          id: pv.id, isNew: false, packageId: pkg.id, variantId: pv.variantId, colorId, oldStock: pv.stock, dirty: new Set(),
+          fields: { status: pv.status, stock: pv.stock },
+        } as CellDraft]
+      }))),
+      seenRows: new Set(),
+      changes: {},
+    }
+    drafts.set(id, draft)
+    return draft
+  }
+
+  /** Apply parsed values to a draft, returning what actually changed */
+  function assign<F>(draft: Draft<F>, values: Partial<F>, prefix: string, owner: ProductDraft): Record<string, Change> {
+    const changes: Record<string, Change> = {}
+    for (const key of Object.keys(values) as (keyof F)[]) {
+      const from = draft.fields[key]
+      const to = values[key] as F[keyof F]
+      if (!draft.isNew && same(from, to)) continue
+      draft.fields[key] = to
+      draft.dirty.add(key)
+      const name = key === "brandId" ? "brand" : String(key)
+      const change = key === "brandId"
+        ? { from: brandName(from as string | null), to: brandName(to as string | null) }
+        : { from, to }
+      changes[name] = draft.isNew ? { from: null, to: change.to } : change
+      if (!owner.isNew) owner.changes[prefix + name] = { from: owner.changes[prefix + name]?.from ?? change.from, to: change.to }
+    }
+    return changes
+  }
+
+  let generatedSkus = 0
+  const rows: ImportRow[] = []
+
+  body.forEach((cells, index) => {
+    if (cells.every((cell) => cell.trim() === "")) return
+    const rowNumber = index + 2
+    const errors: string[] = []
+    const cell = (key: SheetKey) => {
+      const i = columns.get(key)
+      return i === undefined ? "" : (cells[i] ?? "").trim()
+    }
+
+    const text = (key: SheetKey) => cell(key) || undefined
+    const number = (key: SheetKey, label: string, integer = false) => {
+      const raw = cell(key)
+      if (!raw) return undefined
+      const value = Number(raw.replace(/\s/g, "").replace(/,(?=\d+$)/, ".").replace(/,/g, ""))
+      if (!Number.isFinite(value) || value < 0 || (integer && !Number.isInteger(value))) {
+        errors.push(`${label} "${raw}" is not a valid ${integer ? "whole number" : "amount"}`)
+        return undefined
+      }
+      return integer ? value : Math.round(value * 100) / 100
+    }
+    const flag = (key: SheetKey, label: string) => {
+      const raw = cell(key).toLowerCase()
+      if (!raw) return undefined
+      if (["yes", "true", "1", "y"].includes(raw)) return true
+      if (["no", "false", "0", "n"].includes(raw)) return false
+      errors.push(`${label} must be yes or no`)
+      return undefined
+    }
+    const oneOf = (key: SheetKey, label: string, allowed: readonly string[]) => {
+      const raw = cell(key)
+      if (!raw) return undefined
+      const value = raw.toLowerCase().replace(/[\s-]+/g, "_")
+      if (allowed.includes(value)) return value
+      errors.push(`${label} must be one of: ${allowed.join(", ")}`)
+      return undefined
+    }
+    const url = (raw: string, label: string) => {
+      if (/^https?:\/\/\S+$/.test(raw)) return raw
+      errors.push(`${label} "${raw}" is not a URL`)
+      return raw
+    }
+    const list = (key: SheetKey) => {
+      const raw = cell(key)
+      return raw ? raw.split("|").map((v) => v.trim()).filter(Boolean) : undefined
+    }
+
+    const sku = text("sku")
+    const slug = text("slug")
+    const size = text("size")
+    const color = text("color")
+    const kind: ImportRow["kind"] = size && color ? "cell" : size ? "package" : color ? "variant" : "product"
+    const matchedId = (sku && bySku.get(sku.toLowerCase())) || (slug && bySlug.get(slug)) || null
+    const result: ImportRow = { row: rowNumber, kind, product: slug ?? sku ?? "", label: "", action: "skip", changes: {}, errors }
+    rows.push(result)
+
+    if (!sku && !slug) {
+      errors.push("SKU or Slug is required")
+      result.action = "error"
+      return
+    }
+
+    if (kind === "product") {
+      const draft = matchedId ? draftFor(matchedId) : null
+      if (draft?.seenRows.has("product")) {
+        errors.push("The product appears in more than one product row")
+      }
+
+      const values: Partial<ProductFields> = {}
+      for (const key of ["nameEn", "nameBg", "nameEs"] as const) {
+        const value = text(key)
+        if (value !== undefined) values[key] = value
+      }
+      const category = text("category")
+      if (category !== undefined) {
+        if (categorySlugs.has(category)) values.category = category
+        else errors.push(`Unknown category "${category}"`)
+      }
+      const brand = text("brand")
+      if (brand !== undefined) {
+        const found = findBrand(brand)
+        if (found) values.brandId = found.id
+        else errors.push(`Unknown brand "${brand}"`)
+      }
+      const fileType = oneOf("fileType", "Type", FILE_TYPES)
+      if (fileType !== undefined) values.fileType = fileType
+      const status = oneOf("status", "Status", PRODUCT_AVAILABILITY)
+      if (status !== undefined) values.status = status
+      const priceType = oneOf("priceType", "Price Type", PRICE_TYPES)
+      if (priceType !== undefined) values.priceType = priceType
+      const currency = text("currency")
+      if (currency !== undefined) {
+        if (/^[a-z]{3}$/i.test(currency)) values.currency = currency.toUpperCase()
+        else errors.push(`Currency "${currency}" is not a three-letter code`)
+      }
+      const price = number("price", "Price")
+      if (price !== undefined) values.price = price
+      const salePrice = number("salePrice", "Sale Price")
+      if (salePrice !== undefined) values.salePrice = salePrice
+      for (const [key, label] of [["onSale", "On Sale"], ["featured", "Featured"], ["bestSeller", "Best Seller"], ["published", "Published"]] as const) {
+        const value = flag(key, label)
+        if (value !== undefined) values[key] = value
+      }
+      const tags = list("tags")
+      if (tags !== undefined) values.tags = tags
+      const image = text("image")
+      if (image !== undefined) values.image = url(image, "Image")
+      const gallery = list("gallery")
+      if (gallery !== undefined) values.gallery = gallery.map((g) => url(g, "Gallery image"))
+
+      // A SKU or slug the row carries that differs from the matched product renames it
+      if (sku !== undefined) {
+        const owner = bySku.get(sku.toLowerCase())
+        if (owner && owner !== matchedId) errors.push(`SKU "${sku}" belongs to another product`)
+        else values.sku = sku
+      }
+      if (slug !== undefined) {
+        const owner = bySlug.get(slug)
+        if (owner && owner !== matchedId) errors.push(`Slug "${slug}" belongs to another product`)
+        else if (!SLUG_PATTERN.test(slug)) errors.push(`Slug "${slug}" may only contain lowercase letters, digits and dashes`)
+        else values.slug = slug
+      }
+
+      if (draft) {
+        result.product = draft.fields.slug
+        result.label = values.nameEn ?? draft.fields.nameEn
+        if (errors.length === 0) {
+          draft.seenRows.add("product")
+          result.changes = assign(draft, values, "", draft)
+          result.action = Object.keys(result.changes).length > 0 ? "update" : "skip"
+          if (values.sku) bySku.set(values.sku.toLowerCase(), draft.id)
+          if (values.slug) bySlug.set(values.slug, draft.id)
+        }
+      } else {
+        // New product: names in every language, slug from the English name, SKU from the form's pattern
+        if (!values.nameEn) errors.push("Name (EN) is required for a new product")
+        if (!values.nameBg) errors.push("Name (BG) is required for a new product")
+        if (!values.nameEs) errors.push("Name (ES) is required for a new product")
+        if (!values.category && category === undefined) errors.push("Category is required for a new product")
+        const newSlug = values.slug ?? slugify(values.nameEn ?? "")
+        if (!values.slug && newSlug && bySlug.has(newSlug)) errors.push(`Slug "${newSlug}" belongs to another product`)
+        if (!newSlug) errors.push("Slug is required when the English name has no Latin letters")
+        let newSku = values.sku ?? null
+        if (!newSku) {
+          const timestamp = Date.now().toString(36).toUpperCase()
+          do {
+            generatedSkus++
+            newSku = `D4D-${(productCount + generatedSkus).toString().padStart(4, "0")}-${timestamp.slice(-4)}`
+          } while (bySku.has(newSku.toLowerCase()))
+        }
+        result.product = newSlug
+        result.label = values.nameEn ?? ""
+        if (errors.length === 0) {
+          const id = randomUUID()
+          const draft: ProductDraft = {
+            id,
+            isNew: true,
+            fields: {
+              sku: newSku, slug: newSlug, nameEn: values.nameEn!, nameBg: values.nameBg!, nameEs: values.nameEs!,
+              category: values.category!, brandId: null, fileType: "physical", status: "in_stock",
+              price: null, salePrice: null, onSale: false, priceType: "fixed", currency: "EUR",
+              featured: false, bestSeller: false, published: false, tags: [], image: null, gallery: [],
+            },
+            dirty: new Set(),
+            packages: new Map(),
+            variants: new Map(),
+            cells: new Map(),
+            seenRows: new Set(["product"]),
+            changes: {},
+          }
+          result.changes = assign(draft, { ...draft.fields, ...values, sku: newSku, slug: newSlug }, "", draft)
+          result.action = "create"
+          drafts.set(id, draft)
+          bySku.set(newSku.toLowerCase(), id)
+          bySlug.set(newSlug, id)
+        }
+      }
+      if (errors.length > 0) result.action = "error"
+      return
+    }
+
+    // Package, variant and cell rows belong to a stored product or one created earlier in the sheet
+    if (!matchedId) {
+      errors.push(`No product with ${sku ? `SKU "${sku}"` : `slug "${slug}"`} — add its product row above`)
+      result.action = "error"
+      return
+    }
+    const product = draftFor(matchedId)
+    result.product = product.fields.slug
+    const weight = size ? findWeight(size) : undefined
+    const colorRow = color ? findColor(color) : undefined
+    if (size && !weight) errors.push(`Unknown size "${size}"`)
+    if (color && !colorRow) errors.push(`Unknown color "${color}"`)
+    result.label = [weight?.label ?? size, colorRow?.nameEn ?? color].filter(Boolean).join(" · ")
+    const rowKey = `${kind}:${weight?.id ?? ""}:${colorRow?.id ?? ""}`
+    if (product.seenRows.has(rowKey)) errors.push("This row repeats an earlier one for the same product")
+
+    const status = oneOf("status", "Status", PRODUCT_AVAILABILITY)
+
+    if (kind === "package" && weight) {
+      const values: Partial<PackageFields> = {}
+      const price = number("price", "Price")
+      if (price !== undefined) values.price = price
+      const salePrice = number("salePrice", "Sale Price")
+      if (salePrice !== undefined) values.salePrice = salePrice
+      if (status !== undefined) values.status = status
+      const packageSku = text("packageSku")
+      if (packageSku !== undefined) values.sku = packageSku
+      let pkg = product.packages.get(weight.id)
+      if (!pkg && values.price === undefined) errors.push("Price is required for a new package")
+      if (errors.length === 0) {
+        if (!pkg) {
+          pkg = {
+            id: randomUUID(), isNew: true, weightId: weight.id, label: weight.label, order: product.packages.size, dirty: new Set(),
+            fields: { price: 0, salePrice: null, status: "in_stock", sku: null },
+          }
+          product.packages.set(weight.id, pkg)
+          values.price ??= 0
+        }
+        result.changes = assign(pkg, pkg.isNew ? { ...pkg.fields, ...values } : values, `packages.${weight.label}.`, product)
+        result.action = pkg.isNew ? "create" : Object.keys(result.changes).length > 0 ? "update" : "skip"
+      }
+    }
+
+    if ((kind === "variant" || kind === "cell") && colorRow && errors.length === 0) {
+      const values: Partial<VariantFields> = {}
+      if (kind === "variant") {
+        if (status !== undefined) values.status = status
+        const image = text("image")
+        if (image !== undefined) values.image = url(image, "Image")
+      }
+      let variant = product.variants.get(colorRow.id)
+      if (!variant) {
+        variant = {
+          id: randomUUID(), isNew: true, colorId: colorRow.id, name: colorRow.nameEn, order: product.variants.size, dirty: new Set(),
+          fields: { status: "in_stock", image: null },
+        }
+        product.variants.set(colorRow.id, variant)
+        values.status ??= "in_stock"
+      }
+      if (errors.length === 0) {
+        const changes = assign(variant, variant.isNew ? { ...variant.fields, ...values } : values, `variants.${colorRow.nameEn}.`, product)
+        if (kind === "variant") {
+          result.changes = changes
+          result.action = variant.isNew ? "create" : Object.keys(changes).length > 0 ? "update" : "skip"
+        }
+      }
+
+      if (kind === "cell" && weight && errors.length === 0) {
+        const pkg = product.packages.get(weight.id)
+        const values: Partial<CellFields> = {}
+        if (status !== undefined) values.status = status
+        const stock = number("stock", "Stock", true)
+        if (stock !== undefined) values.stock = stock
+        if (!pkg) errors.push(`Add a package row for size "${weight.label}" first`)
+        else {
+          const key = `${weight.id}:${colorRow.id}`
+          let matrixCell = product.cells.get(key)
+          if (!matrixCell) {
+            matrixCell = {
+              id: randomUUID(), isNew: true, packageId: pkg.id, variantId: variant.id, colorId: colorRow.id, oldStock: null, dirty: new Set(),
+              fields: { status: "in_stock", stock: null },
+            }
+            product.cells.set(key, matrixCell)
+          }
+          // Stock drives the status the same way the product form does
+          const next = { ...matrixCell.fields, ...values }
+          if (values.status !== undefined || values.stock !== undefined) values.status = statusForStock(next.status, next.stock)
+          result.changes = assign(matrixCell, matrixCell.isNew ? { ...matrixCell.fields, ...values } : values, `matrix.${weight.label}.${colorRow.nameEn}.`, product)
+          result.action = matrixCell.isNew ? "create" : Object.keys(result.changes).length > 0 ? "update" : "skip"
+        }
+      }
+    }
+
+    if (errors.length > 0) result.action = "error"
+    else product.seenRows.add(rowKey)
+  })
+
+  const summary: Record<ImportAction, number> = { create: 0, update: 0, skip: 0, error: 0 }
+  for (const row of rows) summary[row.action]++
+
+  return {
+    plan: { rows, summary, ignoredColumns },
+    drafts: [...drafts.values()].filter((d) => d.isNew || d.dirty.size > 0 || Object.keys(d.changes).length > 0),
+  }
+}
+
+type Sql = NeonQueryFunction<false, false>
+
+function sqlValue(value: unknown) {
+  return typeof value === "number" && !Number.isInteger(value) ? value.toFixed(2) : value
+}
+
+function insertQuery(sql: Sql, table: string, values: Record<string, unknown>) {
+  const columns = Object.keys(values)
+  return sql.query(
+    `INSERT INTO "${table}" (${columns.map((c) => `"${c}"`).join(", ")}) VALUES (${columns.map((_, i) => `$${i + 1}`).join(", ")})`,
+    Object.values(values).map(sqlValue)
+  )
+}
+
+function updateQuery(sql: Sql, table: string, id: string, values: Record<string, unknown>) {
+  const columns = Object.keys(values)
+  return sql.query(
+    `UPDATE "${table}" SET ${columns.map((c, i) => `"${c}" = $${i + 1}`).join(", ")} WHERE id = $${columns.length + 1}`,
+    [...Object.values(values).map(sqlValue), id]
+  )
+}
+
+function dirtyValues<F>(draft: Draft<F>): Record<string, unknown> {
+  return Object.fromEntries([...draft.dirty].map((key) => [key, draft.fields[key]]))
+}
+
+/** A tracked cell whose stock the spreadsheet changes — its stock is written as a delta */
+function stockDelta(cell: CellDraft): number | null {
+  if (cell.isNew || !cell.dirty.has("stock") || cell.fields.stock === null || cell.oldStock === null) return null
+  return cell.fields.stock - cell.oldStock
+}
+
+/**
+ * Apply a cell's spreadsheet stock as a delta to the stock read when the import was planned,
+ * so sales and restocks committed in between are not overwritten
+ */
+function updateCellQuery(sql: Sql, cell: CellDraft) {
+  const delta = stockDelta(cell)
+  const { stock, ...values } = dirtyValues(cell)
+  if (delta === null) return updateQuery(sql, "ProductPackageVariant", cell.id, { stock, ...values })
+  const columns = Object.keys(values)
+  return sql.query(
+    `UPDATE "ProductPackageVariant" SET "stock" = CASE WHEN "stock" IS NULL THEN $1::int ELSE GREATEST("stock" + $2::int, 0) END${columns.map((c, i) => `, "${c}" = $${i + 3}`).join("")} WHERE id = $${columns.length + 3}`,
+    [stock, delta, ...Object.values(values).map(sqlValue), cell.id]
+  )
+}
+
+/**
+ * Write a planned import in one transaction, then audit each product, re-roll stock statuses,
+ * notify restocks and refresh search and the catalog. Returns the ids of the products touched.
+ */
+export async function applyProductImport(imported: ProductImport, userId: string): Promise<string[]> {
+  // Neon HTTP runs a batch of statements as one transaction; the Prisma HTTP adapter cannot
+  const sql = neon(process.env.DATABASE_URL!)
+  const now = new Date()
+  const queries: NeonQueryPromise<false, false>[] = []
+  for (const draft of imported.drafts) {
+    if (draft.isNew) {
+      queries.push(insertQuery(sql, "Product", { id: draft.id, ...draft.fields, createdById: userId, updatedAt: now }))
+    } else if (draft.dirty.size > 0) {
+      queries.push(updateQuery(sql, "Product", draft.id, { ...dirtyValues(draft), updatedAt: now }))
+    }
+    for (const pkg of draft.packages.values()) {
+      if (pkg.isNew) {
+        const slug = pkg.label.toLowerCase().replace(/\s+/g, "-").replace(/[^a-z0-9.-]/g, "")
+        queries.push(insertQuery(sql, "ProductPackage", {
+          id: pkg.id, productId: draft.id, weightId: pkg.weightId, slug, ...pkg.fields, order: pkg.order, updatedAt: now,
+        }))
+      } else if (pkg.dirty.size > 0) {
+        queries.push(updateQuery(sql, "ProductPackage", pkg.id, { ...dirtyValues(pkg), updatedAt: now }))
+      }
+    }
+    for (const variant of draft.variants.values()) {
+      if (variant.isNew) {
+        queries.push(insertQuery(sql, "ProductVariant", {
+          id: variant.id, productId: draft.id, colorId: variant.colorId, ...variant.fields, order: variant.order, updatedAt: now,
+        }))
+      } else if (variant.dirty.size > 0) {
+        queries.push(updateQuery(sql, "ProductVariant", variant.id, { ...dirtyValues(variant), updatedAt: now }))
+      }
+    }
+    for (const cell of draft.cells.values()) {
+      if (cell.isNew) {
+        queries.push(insertQuery(sql, "ProductPackageVariant", {
+          id: cell.id, packageId: cell.packageId, variantId: cell.variantId, ...cell.fields,
+        }))
+      } else if (cell.dirty.size > 0) {
+        queries.push(updateCellQuery(sql, cell))
+      }
+    }
+  }
+  if (queries.length === 0) return []
+  await sql.transaction(queries)
+
+  for (const draft of imported.drafts) {
+    logAuditAction({
+      userId,
+      action: draft.isNew ? "create" : "edit",
+      resource: "products",
+      recordId: draft.id,
+      recordTitle: draft.fields.nameEn,
+      details: draft.isNew ? undefined : JSON.stringify(draft.changes),
+    }).catch(() => {})
+
+    const cells = [...draft.cells.values()]
+    for (const colorId of new Set(cells.filter((c) => c.oldStock === 0 && (c.fields.stock ?? 0) > 0).map((c) => c.colorId))) {
+      notifyRestock(draft.id, colorId)
+        .catch((err) => console.error("Failed to send restock notifications:", err instanceof Error ? err.message : "Unknown"))
+    }
+    // The planned status followed the spreadsheet's stock — re-roll it for the stock actually stored
+    for (const cell of cells.filter((c) => stockDelta(c) !== null)) {
+      const stored = await prisma.productPackageVariant.findUnique({ where: { id: cell.id }, select: { stock: true, status: true } })
+      if (!stored) continue
+      const status = statusForStock(stored.status, stored.stock)
+      if (status !== stored.status) {
+        await prisma.productPackageVariant.update({ where: { id: cell.id }, data: { status } })
+      }
+    }
+    if (cells.some((c) => c.dirty.size > 0 && c.fields.stock !== null)) {
+      await syncStockStatuses(draft.id)
+    }
+  }
+
+  const ids = imported.drafts.map((d) => d.id)
+  await indexProducts(ids).catch((err) => {
+    console.error("Failed to index products for search:", err instanceof Error ? err.message : "Unknown")
+  })
+  invalidateCatalog()
+  return ids
+}
@@ -0,0 +1,269 @@
+import { Prisma } from "@prisma/client"
+import prisma from "@/lib/prisma"
+import type { Locale } from "@/i18n/config"
+import {
+  HIGHLIGHT_START, HIGHLIGHT_STOP, queryTerms, prefixTsQuery, parseHighlight,
+  type SearchFilters, type SearchFacets, type FacetCount, type HighlightSegment,
+} from "@/lib/search"
+
+/**
+ * Product search over `ProductSearch`: one weighted tsvector per locale (name A; SKU, brand,
+ * category and tags B; description C) plus a lower-cased `terms` line for trigram typo matching.
+ * Postgres has no Bulgarian dictionary, so Bulgarian text is indexed without stemming.
+ */
+const LOCALE_INDEX: Record<Locale, { column: string; config: string; suffix: string }> = {
+  bg: { column: "vectorBg", config: "simple", suffix: "Bg" },
+  en: { column: "vectorEn", config: "english", suffix: "En" },
+  es: { column: "vectorEs", config: "spanish", suffix: "Es" },
+}
+const LOCALES = Object.keys(LOCALE_INDEX) as Locale[]
+
+const MAX_MATCHES = 500
+const OTHER_LOCALE_WEIGHT = 0.6 // a match in another language ranks below one in the customer's own
+const TYPO_FALLBACK_BELOW = 5 // look for misspellings when exact matching finds fewer products than this
+const TYPO_SIMILARITY = 0.4
+const TYPO_MATCHES = 20
+
+/** Description text without markup, as indexed and shown in snippets */
+const plainText = (column: string) =>
+  `regexp_replace(regexp_replace(coalesce(${column}, ''), '<[^>]*>', ' ', 'g'), '&[a-zA-Z#0-9]+;', ' ', 'g')`
+
+function vectorSql(locale: Locale): string {
+  const { config, suffix } = LOCALE_INDEX[locale]
+  return [
+    `setweight(to_tsvector('${config}', coalesce(p."name${suffix}", '')), 'A')`,
+    `setweight(to_tsvector('${config}', concat_ws(' ', p.sku, b."name${suffix}", c."name${suffix}", array_to_string(p.tags, ' '))), 'B')`,
+    `setweight(to_tsvector('${config}', ${plainText(`p."desc${suffix}"`)}), 'C')`,
+  ].join(" || ")
+}
+
+/** Rebuild the search rows of these products — call after a product, its brand or category changes */
+export async function indexProducts(ids: string[]) {
+  if (ids.length === 0) return
+  await prisma.$executeRaw`
+    INSERT INTO "ProductSearch" ("productId", "terms", "vectorBg", "vectorEn", "vectorEs", "updatedAt")
+    SELECT
+      p.id,
+      lower(concat_ws(' ', p."nameBg", p."nameEn", p."nameEs", p.sku, b."nameBg", b."nameEn", b."nameEs",
+        c."nameBg", c."nameEn", c."nameEs", array_to_string(p.tags, ' '))),
+      ${Prisma.raw(vectorSql("bg"))},
+      ${Prisma.raw(vectorSql("en"))},
+      ${Prisma.raw(vectorSql("es"))},
+      now()
+    FROM "Product" p
+    LEFT JOIN "Brand" b ON b.id = p."brandId"
+    LEFT JOIN "ProductCategory" c ON c.slug = p.category
+    WHERE p.id IN (${Prisma.join(ids)})
+    ON CONFLICT ("productId") DO UPDATE SET
+      "terms" = EXCLUDED."terms",
+      "vectorBg" = EXCLUDED."vectorBg",
+      "vectorEn" = EXCLUDED."vectorEn",
+      "vectorEs" = EXCLUDED."vectorEs",
+      "updatedAt" = EXCLUDED."updatedAt"`
+}
+
+/** Reindex every product of a brand or category after it was renamed */
+export async function indexProductsWhere(where: Prisma.ProductWhereInput) {
+  const products = await prisma.product.findMany({ where, select: { id: true } })
+  await indexProducts(products.map((p) => p.id))
+}
+
+/** Index the whole catalog in batches; returns the number of products indexed */
+export async function reindexAllProducts(batchSize = 200): Promise<number> {
+  const products = await prisma.product.findMany({ select: { id: true }, orderBy: { createdAt: "asc" } })
+  for (let i = 0; i < products.length; i += batchSize) {
+    await indexProducts(products.slice(i, i + batchSize).map((p) => p.id))
+  }
+  return products.length
+}
+
+type Match = { id: string; score: number }
+
+/** Products matching every word (the last as a prefix), best first */
+async function fullTextMatches(tsQuery: string, locale: Locale, publishedOnly: boolean): Promise<Match[]> {
+  const ranks = LOCALES.map((l) => {
+    const { column, config } = LOCALE_INDEX[l]
+    const weight = l === locale ? 1 : OTHER_LOCALE_WEIGHT
+    return Prisma.sql`ts_rank(s.${Prisma.raw(`"${column}"`)}, to_tsquery(${Prisma.raw(`'${config}'`)}, ${tsQuery})) * ${weight}`
+  })
+  const matches = LOCALES.map((l) => {
+    const { column, config } = LOCALE_INDEX[l]
+    return Prisma.sql`s.${Prisma.raw(`"${column}"`)} @@ to_tsquery(${Prisma.raw(`'${config}'`)}, ${tsQuery})`
+  })
+  const rows = await prisma.$queryRaw<{ id: string; score: number }[]>`
+    SELECT s."productId" AS id, greatest(${Prisma.join(ranks)})::float8 AS score
+    FROM "ProductSearch" s
+    JOIN "Product" p ON p.id = s."productId"
+    WHERE (${Prisma.join(matches, " OR ")})
+      ${publishedOnly ? Prisma.sql`AND p.published` : Prisma.empty}
+    ORDER BY score DESC, p.featured DESC, p."order" ASC
+    LIMIT ${MAX_MATCHES}`
+  return rows
+}
+
+/** Products whose names, brand, category, SKU or tags are close to the query ("filamnet") */
+async function typoMatches(phrase: string, exclude: string[], publishedOnly: boolean): Promise<Match[]> {
+  return prisma.$queryRaw<Match[]>`
+    SELECT s."productId" AS id, word_similarity(${phrase}, s.terms)::float8 AS score
+    FROM "ProductSearch" s
+    JOIN "Product" p ON p.id = s."productId"
+    WHERE word_similarity(${phrase}, s.terms) >= ${TYPO_SIMILARITY}
+      ${exclude.length > 0 ? Prisma.sql`AND s."productId" NOT IN (${Prisma.join(exclude)})` : Prisma.empty}
+      ${publishedOnly ? Prisma.sql`AND p.published` : Prisma.empty}
+    ORDER BY score DESC, p.featured DESC, p."order" ASC
+    LIMIT ${TYPO_MATCHES}`
+}
+
+interface MatchOptions {
+  publishedOnly?: boolean
+  synonyms?: Map<string, string[]>
+}
+
+/** Matched product ids in rank order; exact matches (synonyms included) first, then close misspellings */
+export async function matchProducts(q: string, locale: Locale, { publishedOnly = true, synonyms }: MatchOptions = {}): Promise<string[]> {
+  const terms = queryTerms(q)
+  if (terms.length === 0) return []
+  const exact = await fullTextMatches(prefixTsQuery(terms, synonyms), locale, publishedOnly)
+  const ids = exact.map((m) => m.id)
+  if (exact.length < TYPO_FALLBACK_BELOW) {
+    const close = await typoMatches(terms.join(" "), ids, publishedOnly)
+    ids.push(...close.map((m) => m.id))
+  }
+  return ids
+}
+
+export type ProductHighlight = { name: HighlightSegment[]; snippet: HighlightSegment[] | null }
+
+/** Matched words marked in the name and a short description excerpt around them */
+export async function highlightProducts(
+  ids: string[],
+  q: string,
+  locale: Locale,
+  synonyms?: Map<string, string[]>
+): Promise<Map<string, ProductHighlight>> {
+  const terms = queryTerms(q)
+  if (ids.length === 0 || terms.length === 0) return new Map()
+  const { config, suffix } = LOCALE_INDEX[locale]
+  const markers = `StartSel=${HIGHLIGHT_START}, StopSel=${HIGHLIGHT_STOP}`
+  const tsQuery = prefixTsQuery(terms, synonyms)
+  const rows = await prisma.$queryRaw<{ id: string; name: string; snippet: string }[]>`
+    SELECT
+      p.id,
+      ts_headline(${Prisma.raw(`'${config}'`)}, coalesce(nullif(p.${Prisma.raw(`"name${suffix}"`)}, ''), p."nameEn"),
+        to_tsquery(${Prisma.raw(`'${config}'`)}, ${tsQuery}), ${`HighlightAll=true, ${markers}`}) AS name,
+      ts_headline(${Prisma.raw(`'${config}'`)}, ${Prisma.raw(plainText(`coalesce(nullif(p."desc${suffix}", ''), p."descEn")`))},
+        to_tsquery(${Prisma.raw(`'${config}'`)}, ${tsQuery}), ${`MaxWords=24, MinWords=10, MaxFragments=1, ${markers}`}) AS snippet
+    FROM "Product" p
+    WHERE p.id IN (${Prisma.join(ids)})`
+  return new Map(rows.map((row) => [row.id, {
+    name: parseHighlight(row.name),
+    // Only worth showing when the description is what matched
+    snippet: row.snippet.includes(HIGHLIGHT_START) ? parseHighlight(row.snippet) : null,
+  }]))
+}
+
+type FacetRow = Prisma.ProductGetPayload<{ select: typeof facetSelect }>
+
+const facetSelect = {
+  id: true,
+  category: true,
+  onSale: true,
+  price: true,
+  salePrice: true,
+  brand: { select: { slug: true, nameEn: true, nameBg: true, nameEs: true } },
+  packages: { select: { weight: { select: { id: true, label: true } } } },
+  variants: { select: { color: { select: { id: true, nameEn: true, nameBg: true, nameEs: true, hex: true } } } },
+} satisfies Prisma.ProductSelect
+
+type Dimension = "category" | "brand" | "colors" | "weights" | "price" | "onSale"
+
+/** Sale-aware product price, as the catalog sorts and filters by it */
+const effectivePrice = (row: FacetRow) => {
+  const value = row.onSale && row.salePrice ? row.salePrice : row.price
+  return value === null ? null : Number(value)
+}
+
+function matchesFilters(row: FacetRow, filters: SearchFilters, categories: Set<string> | null, skip?: Dimension): boolean {
+  if (skip !== "category" && categories && !categories.has(row.category)) return false
+  if (skip !== "brand" && filters.brand && row.brand?.slug !== filters.brand) return false
+  if (skip !== "colors" && filters.colors.length > 0 && !row.variants.some((v) => filters.colors.includes(v.color.id))) return false
+  if (skip !== "weights" && filters.weights.length > 0 && !row.packages.some((p) => filters.weights.includes(p.weight.id))) return false
+  if (skip !== "onSale" && filters.onSale && !row.onSale) return false
+  if (skip !== "price" && (filters.minPrice !== null || filters.maxPrice !== null)) {
+    const price = effectivePrice(row)
+    if (price === null) return false
+    if (filters.minPrice !== null && price < filters.minPrice) return false
+    if (filters.maxPrice !== null && price > filters.maxPrice) return false
+  }
+  return true
+}
+
+/** Tally one facet; each product counts once per value however many variants carry it */
+export function tally<Row>(rows: Row[], values: (row: Row) => Omit<FacetCount, "count">[]): FacetCount[] {
+  const counts = new Map<string, FacetCount>()
+  for (const row of rows) {
+    const seen = new Set<string>()
+    for (const value of values(row)) {
+      if (seen.has(value.value)) continue
+      seen.add(value.value)
+      const entry = counts.get(value.value)
+      if (entry) entry.count++
+      else counts.set(value.value, { ...value, count: 1 })
+    }
+  }
+  return [...counts.values()].sort((a, b) => b.count - a.count || a.nameEn.localeCompare(b.nameEn))
+}
+
+/** These category slugs and all their subcategories at any depth */
+export function categorySubtree(slugs: string[], categoryRows: { id: string; slug: string; parentId: string | null }[]): Set<string> {
+  const subtree = new Set(slugs)
+  const queue = categoryRows.filter((c) => subtree.has(c.slug)).map((c) => c.id)
+  while (queue.length > 0) {
+    const parentId = queue.shift()
+    for (const child of categoryRows.filter((c) => c.parentId === parentId)) {
+      subtree.add(child.slug)
+      queue.push(child.id)
+    }
+  }
+  return subtree
+}
+
+/**
+ * Narrow ranked matches by the facet filters and count every facet. Each facet is counted with
+ * all other filters applied but not its own, so picking a color still shows the other colors.
+ */
+export async function filterWithFacets(ids: string[], filters: SearchFilters): Promise<{ ids: string[]; facets: SearchFacets }> {
+  const [rows, categoryRows] = await Promise.all([
+    prisma.product.findMany({ where: { id: { in: ids } }, select: facetSelect }),
+    prisma.productCategory.findMany({ select: { slug: true, parentId: true, id: true, nameEn: true, nameBg: true, nameEs: true } }),
+  ])
+  const byId = new Map(rows.map((row) => [row.id, row]))
+  const ranked = ids.map((id) => byId.get(id)).filter((row): row is FacetRow => !!row)
+
+  const categories = filters.category ? categorySubtree([filters.category], categoryRows) : null
+  const categoryNames = new Map(categoryRows.map((c) => [c.slug, c]))
+
+  const without = (dimension: Dimension) => ranked.filter((row) => matchesFilters(row, filters, categories, dimension))
+  const prices = without("price").map(effectivePrice).filter((p): p is number => p !== null)
+
+  return {
+    ids: ranked.filter((row) => matchesFilters(row, filters, categories)).map((row) => row.id),
+    facets: {
+      categories: tally(without("category"), (row) => {
+        const category = categoryNames.get(row.category)
+        return [{ value: row.category, nameEn: category?.nameEn ?? row.category, nameBg: category?.nameBg ?? row.category, nameEs: category?.nameEs ?? row.category }]
+      }),
+      brands: tally(without("brand"), (row) => row.brand
+        ? [{ value: row.brand.slug, nameEn: row.brand.nameEn, nameBg: row.brand.nameBg, nameEs: row.brand.nameEs }]
+        : []),
+      colors: tally(without("colors"), (row) => row.variants.map(({ color }) => ({
+        value: color.id, nameEn: color.nameEn, nameBg: color.nameBg, nameEs: color.nameEs, hex: color.hex,
+      }))),
+      weights: tally(without("weights"), (row) => row.packages.map(({ weight }) => ({
+        value: weight.id, nameEn: weight.label, nameBg: weight.label, nameEs: weight.label,
+      }))),
+      price: prices.length > 0 ? { min: Math.min(...prices), max: Math.max(...prices) } : null,
+      onSale: without("onSale").filter((row) => row.onSale).length,
+    },
+  }
+}
@@ -0,0 +1,83 @@
+import type { OrderStatus } from "@prisma/client"
+
+/** Board columns, in the order a job moves through them */
+export const PRINT_JOB_STATUSES = ["queued", "printing", "post_processing", "qa", "packed"] as const
+export type PrintJobStatus = (typeof PRINT_JOB_STATUSES)[number]
+
+/** Statuses that keep a printer busy — later stages happen off the machine */
+export const ON_PRINTER_STATUSES: PrintJobStatus[] = ["queued", "printing"]
+
+/** Planned length of a job without an estimate */
+export const DEFAULT_JOB_MINUTES = 60
+
+export function isPrintJobStatus(value: unknown): value is PrintJobStatus {
+  return (PRINT_JOB_STATUSES as readonly unknown[]).includes(value)
+}
+
+type PrinterSpec = { buildX: number; buildY: number; buildZ: number; materialIds: string[] }
+type JobSpec = { sizeX: number | null; sizeY: number | null; sizeZ: number | null; materialId: string | null }
+
+/**
+ * Why a printer can't take a job, or null when it can. A printer without a material list
+ * takes any material. Parts may be turned on the bed, so sizes are compared smallest to largest.
+ */
+export function printerFitIssue(printer: PrinterSpec, job: JobSpec): "material" | "size" | null {
+  if (job.materialId && printer.materialIds.length > 0 && !printer.materialIds.includes(job.materialId)) {
+    return "material"
+  }
+  if (job.sizeX !== null && job.sizeY !== null && job.sizeZ !== null) {
+    const part = [job.sizeX, job.sizeY, job.sizeZ].sort((a, b) => a - b)
+    const bed = [printer.buildX, printer.buildY, printer.buildZ].sort((a, b) => a - b)
+    if (part.some((size, i) => size > bed[i])) return "size"
+  }
+  return null
+}
+
+/**
+ * Order status implied by its print jobs, or null when it has none: packed everywhere
+ * completes the order, any job past the queue puts it in progress.
+ */
+export function orderStatusFromJobs(statuses: string[]): OrderStatus | null {
+  if (statuses.length === 0) return null
+  if (statuses.every((status) => status === "packed")) return "COMPLETED"
+  if (statuses.some((status) => status !== "queued")) return "IN_PROGRESS"
+  return "PENDING"
+}
+
+export type ScheduledJob = { id: string; start: Date; end: Date }
+
+/**
+ * Back-to-back timeline of one printer's queue. The printing job runs from when it
+ * started; each queued job follows in position order, no earlier than its scheduled time.
+ */
+export function schedulePrinterJobs(
+  jobs: {
+    id: string
+    status: string
+    position: number
+    scheduledAt: string | Date | null
+    startedAt: string | Date | null
+    estimatedMinutes: number | null
+  }[],
+  now = new Date()
+): ScheduledJob[] {
+  const minutes = (job: { estimatedMinutes: number | null }) => (job.estimatedMinutes ?? DEFAULT_JOB_MINUTES) * 60 * 1000
+  const running = jobs.filter((job) => job.status === "printing")
+  const queued = jobs.filter((job) => job.status === "queued").sort((a, b) => a.position - b.position)
+
+  const slots: ScheduledJob[] = []
+  let cursor = now.getTime()
+  for (const job of running) {
+    const start = new Date(job.startedAt ?? now).getTime()
+    const end = Math.max(start + minutes(job), now.getTime())
+    slots.push({ id: job.id, start: new Date(start), end: new Date(end) })
+    cursor = Math.max(cursor, end)
+  }
+  for (const job of queued) {
+    const start = Math.max(cursor, job.scheduledAt ? new Date(job.scheduledAt).getTime() : 0)
+    const end = start + minutes(job)
+    slots.push({ id: job.id, start: new Date(start), end: new Date(end) })
+    cursor = end
+  }
+  return slots
+}
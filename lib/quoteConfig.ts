@@ -0,0 +1,37 @@
+import prisma from "@/lib/prisma"
+import { getStaffWithPermission } from "@/lib/permissions"
+import type { PrintConfig, PrintConfigSnapshot } from "@/lib/printConfig"
+import { parseQuoteSla, type QuoteSla } from "@/lib/quoteSla"
+
+export async function getQuoteSla(): Promise<QuoteSla> {
+  const settings = await prisma.siteSettings.findUnique({ where: { id: "singleton" }, select: { quoteSla: true } })
+  return parseQuoteSla(settings?.quoteSla)
+}
+
+/** Staff who can take on quotes — the choices for assigning one */
+export async function getQuoteStaff(): Promise<{ id: string; name: string | null; email: string }[]> {
+  return getStaffWithPermission("quotes", "edit")
+}
+
+/** Reject unknown materials and colors — customers can only pick active materials */
+export async function checkPrintConfigRefs(config: PrintConfig, { activeOnly }: { activeOnly: boolean }): Promise<string | null> {
+  if (config.materialId) {
+    const material = await prisma.printMaterial.findUnique({ where: { id: config.materialId }, select: { active: true } })
+    if (!material || (activeOnly && !material.active)) return "Unknown material"
+  }
+  if (config.colorId) {
+    const color = await prisma.color.findUnique({ where: { id: config.colorId }, select: { id: true } })
+    if (!color) return "Unknown color"
+  }
+  return null
+}
+
+export async function printConfigSnapshot(config: PrintConfig): Promise<PrintConfigSnapshot> {
+  const [material, color] = await Promise.all([
+    config.materialId ? prisma.printMaterial.findUnique({ where: { id: config.materialId }, select: { name: true } }) : null,
+    config.colorId
+      ? prisma.color.findUnique({ where: { id: config.colorId }, select: { nameEn: true, nameBg: true, nameEs: true, hex: true } })
+      : null,
+  ])
+  return { ...config, materialName: material?.name ?? null, color }
+}
@@ -0,0 +1,90 @@
+import prisma from "@/lib/prisma"
+import { Prisma } from "@prisma/client"
+import { readTriangles, type MeshAnalysis, type ModelMesh } from "@/lib/meshAnalysis"
+import { modelFormatOf } from "@/lib/modelFormats"
+import { estimateParts, parseQuotePricing, type EstimatePart, type PricedMaterial, type QuoteEstimate, type QuotePricing } from "@/lib/quotePricing"
+import { partPrintConfig, printConfigOf, type PartConfig } from "@/lib/printConfig"
+
+export async function getQuotePricing(): Promise<QuotePricing> {
+  const settings = await prisma.siteSettings.findUnique({ where: { id: "singleton" }, select: { quotePricing: true } })
+  return parseQuotePricing(settings?.quotePricing)
+}
+
+/** The chosen material, or the first active one in the catalog when none was picked */
+async function pricedMaterial(materialId: string | null): Promise<PricedMaterial | null> {
+  const material = materialId
+    ? await prisma.printMaterial.findUnique({ where: { id: materialId } })
+    : await prisma.printMaterial.findFirst({
+        where: { active: true },
+        orderBy: [{ order: "asc" }, { name: "asc" }],
+      })
+  return material && { name: material.name, density: material.density, pricePerGram: Number(material.pricePerGram) }
+}
+
+/**
+ * Parse an uploaded model once for its measurements and preview.
+ * Files that cannot be parsed return null — the part is then priced by hand.
+ */
+export function readModel(buffer: Buffer, fileName: string): ModelMesh | null {
+  const format = modelFormatOf(fileName)
+  if (!format) return null
+  try {
+    return readTriangles(buffer, format)
+  } catch (error) {
+    console.warn("Mesh analysis failed:", error instanceof Error ? error.message : "Unknown")
+    return null
+  }
+}
+
+/**
+ * Price every part of a quote from the latest revision of its file and store the result.
+ * The estimate is cleared while any part is unmeasured, since it would undercount the job.
+ */
+export async function refreshQuoteEstimate(quoteId: string): Promise<QuoteEstimate | null> {
+  const quote = await prisma.quoteRequest.findUnique({
+    where: { id: quoteId },
+    select: {
+      materialId: true,
+      colorId: true,
+      layerHeight: true,
+      infill: true,
+      quantity: true,
+      finish: true,
+      deadline: true,
+      files: {
+        orderBy: [{ order: "asc" }, { createdAt: "asc" }],
+        select: {
+          name: true,
+          quantity: true,
+          config: true,
+          revisions: { orderBy: { version: "desc" }, take: 1, select: { geometry: true } },
+        },
+      },
+    },
+  })
+  if (!quote) return null
+
+  const quoteConfig = printConfigOf(quote)
+  const materials = new Map<string | null, Promise<PricedMaterial | null>>()
+  const parts: EstimatePart[] = []
+  for (const file of quote.files) {
+    const geometry = file.revisions[0]?.geometry as MeshAnalysis | null | undefined
+    const config = partPrintConfig(quoteConfig, file.config as PartConfig | null)
+    if (!materials.has(config.materialId)) materials.set(config.materialId, pricedMaterial(config.materialId))
+    const material = await materials.get(config.materialId)
+    if (!geometry || !material) {
+      parts.length = 0
+      break
+    }
+    parts.push({
+      name: file.name,
+      mesh: geometry,
+      material,
+      options: { quantity: file.quantity * quote.quantity, infill: config.infill, layerHeight: config.layerHeight },
+    })
+  }
+
+  const estimate = parts.length > 0 ? estimateParts(parts, await getQuotePricing()) : null
+  await prisma.quoteRequest.update({ where: { id: quoteId }, data: { estimate: estimate ?? Prisma.DbNull } })
+  return estimate
+}
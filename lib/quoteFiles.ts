@@ -0,0 +1,145 @@
+import { after } from "next/server"
+import { Prisma } from "@prisma/client"
+import prisma from "@/lib/prisma"
+import { uploadBlob } from "@/lib/blob"
+import { readModel } from "@/lib/quoteEstimate"
+import { measureMesh, type ModelMesh } from "@/lib/meshAnalysis"
+import { MAX_MODEL_FILE_SIZE, modelFormatOf, type ModelUnit } from "@/lib/modelFormats"
+import { renderModelThumbnail, deleteModelThumbnails } from "@/lib/modelThumbnail"
+import type { PartConfig } from "@/lib/printConfig"
+
+/**
+ * Magic-bytes validator for 3D model files.
+ * Prevents malicious files from being uploaded with an innocent extension.
+ * - 3MF: ZIP signature (PK\x03\x04)
+ * - STL binary: 80-byte header + uint32 triangle count → ≥84 bytes
+ * - STL ASCII: starts with "solid"
+ * - OBJ: plain ASCII text — verifies first bytes are printable
+ */
+function validate3DMagicBytes(buf: Buffer, ext: string): boolean {
+  if (buf.length === 0) return false
+  if (ext === ".3mf") {
+    // ZIP: 50 4B 03 04
+    return buf.length >= 4 && buf[0] === 0x50 && buf[1] === 0x4B && buf[2] === 0x03 && buf[3] === 0x04
+  }
+  if (ext === ".stl") {
+    if (buf.length < 5) return false
+    // ASCII STL starts with "solid"
+    if (buf.slice(0, 5).toString("ascii").toLowerCase() === "solid") return true
+    // Binary STL: at least 84 bytes (80-byte header + 4-byte triangle count)
+    return buf.length >= 84
+  }
+  if (ext === ".obj") {
+    // OBJ is plain ASCII — first 100 bytes must be printable chars / whitespace
+    const sample = buf.slice(0, Math.min(100, buf.length))
+    for (const byte of sample) {
+      if (byte > 127 || (byte < 32 && byte !== 0x09 && byte !== 0x0A && byte !== 0x0D)) return false
+    }
+    return true
+  }
+  return false
+}
+
+/** Tries at picking the next revision version before giving up */
+const MAX_VERSION_ATTEMPTS = 5
+
+export type ModelUpload = {
+  buffer: Buffer
+  fileName: string
+  fileSize: number
+  unit?: ModelUnit | null // picked by the customer in the preview; files without one are read as mm
+}
+
+/** Check size, type and content of an uploaded model — returns the bytes or an error message */
+export async function readModelUpload(file: File): Promise<ModelUpload | { error: string }> {
+  if (file.size > MAX_MODEL_FILE_SIZE) {
+    return { error: `${file.name}: file too large. Maximum size is 50MB.` }
+  }
+  if (!modelFormatOf(file.name)) {
+    return { error: `${file.name}: invalid file type. Allowed: STL, OBJ, 3MF` }
+  }
+
+  // Validate magic bytes to prevent extension spoofing
+  const buffer = Buffer.from(await file.arrayBuffer())
+  if (!validate3DMagicBytes(buffer, file.name.toLowerCase().slice(file.name.lastIndexOf(".")))) {
+    return { error: `${file.name}: file content does not match the declared format.` }
+  }
+
+  return { buffer, fileName: file.name, fileSize: file.size }
+}
+
+/** Part name from a file name — "bracket-v2.stl" → "bracket-v2" */
+export function partNameOf(fileName: string): string {
+  return fileName.replace(/\.[^.]+$/, "").slice(0, 100) || fileName
+}
+
+/**
+ * Store a new version of a part's model, measured for the estimate. The preview is rendered
+ * after the response is sent and attached to the revision then. The first upload is version 1.
+ */
+export async function addQuoteRevision(
+  fileId: string,
+  upload: ModelUpload,
+  { senderType, messageId = null }: { senderType: "user" | "admin"; messageId?: string | null }
+) {
+  const storedName = `${Date.now()}-${upload.fileName.replace(/[^a-zA-Z0-9.-]/g, "_")}`
+  const fileUrl = await uploadBlob(upload.buffer, storedName, { folder: "quotes" })
+  const mesh = readModel(upload.buffer, upload.fileName)
+  const geometry = mesh && measureMesh(mesh, upload.unit)
+
+  // Two uploads to the same part can pick the same version — the (fileId, version) index rejects
+  // the second, which then takes the next one
+  for (let attempt = 1; ; attempt++) {
+    const latest = await prisma.quoteFileRevision.findFirst({
+      where: { fileId },
+      orderBy: { version: "desc" },
+      select: { version: true },
+    })
+    try {
+      const revision = await prisma.quoteFileRevision.create({
+        data: {
+          fileId,
+          version: (latest?.version ?? 0) + 1,
+          fileName: upload.fileName,
+          fileUrl,
+          fileSize: upload.fileSize,
+          geometry: geometry ?? undefined,
+          senderType,
+          messageId,
+        },
+      })
+      if (mesh) after(() => attachRevisionThumbnail(revision.id, mesh.triangles, upload.fileName, storedName))
+      return revision
+    } catch (error) {
+      const taken = error instanceof Prisma.PrismaClientKnownRequestError && error.code === "P2002"
+      if (!taken || attempt >= MAX_VERSION_ATTEMPTS) throw error
+    }
+  }
+}
+
+/** Render a revision's preview and link it — dropped again if the revision was deleted meanwhile */
+async function attachRevisionThumbnail(revisionId: string, triangles: ModelMesh["triangles"], fileName: string, storedName: string) {
+  const thumbnailUrl = await renderModelThumbnail(triangles, fileName, { folder: "quotes", storedName })
+  if (!thumbnailUrl) return
+  const linked = await prisma.quoteFileRevision.updateMany({ where: { id: revisionId }, data: { thumbnailUrl } })
+  if (linked.count === 0) await deleteModelThumbnails([thumbnailUrl])
+}
+
+/** Add a part to a quote with its first revision */
+export async function createQuotePart(
+  quoteId: string,
+  upload: ModelUpload,
+  part: { quantity: number; config: PartConfig; order: number; senderType: "user" | "admin"; messageId?: string | null }
+) {
+  const file = await prisma.quoteFile.create({
+    data: {
+      quoteId,
+      name: partNameOf(upload.fileName),
+      quantity: part.quantity,
+      config: Object.keys(part.config).length > 0 ? part.config : undefined,
+      order: part.order,
+    },
+  })
+  const revision = await addQuoteRevision(file.id, upload, { senderType: part.senderType, messageId: part.messageId })
+  return { file, revision }
+}
@@ -0,0 +1,97 @@
+import type { Prisma } from "@prisma/client"
+import { MIN_CHARGE } from "@/lib/pricing"
+import { getShippingOptions, type ShippingOption } from "@/lib/shipping"
+import { getTaxContext, getPriceFactor, getVatRate, parseVatNumber, vatPortion, type TaxContext } from "@/lib/vat"
+import type { QuoteEstimate } from "@/lib/quotePricing"
+
+/** Quotes are offered in euros */
+export const QUOTE_CURRENCY = "EUR"
+
+/** Statuses of a quote that has been paid for — set by the webhook, then moved on by the shop */
+export const PAID_QUOTE_STATUSES = ["paid", "in_production"]
+
+const round2 = (n: number) => Math.round(n * 100) / 100
+
+/** The agreed price of a quote as charged to one destination, with shipping and VAT */
+export interface QuotePaymentQuote {
+  currency: string
+  price: number // quoted price for this destination
+  vatRate: number
+  tax: TaxContext & { vatNumberError: string | null }
+  shipping: {
+    options: ShippingOption[] // fees converted for the VAT destination
+    selected: ShippingOption | null
+    vatRate: number
+  }
+  shippingFee: number
+  vatAmount: number // VAT contained in the total
+  total: number
+}
+
+/** Why a quote cannot be paid, or null when it can */
+export function quotePaymentError(quote: {
+  status: string
+  quotedPrice: Prisma.Decimal | null
+  orderId: string | null
+}): string | null {
+  if (quote.orderId || PAID_QUOTE_STATUSES.includes(quote.status)) return "This quote has already been paid"
+  if (quote.status !== "accepted") return "Only accepted quotes can be paid"
+  if (quote.quotedPrice === null || Number(quote.quotedPrice) < MIN_CHARGE) return "This quote has no price to pay"
+  return null
+}
+
+/**
+ * Price an accepted quote the way a cart is priced: the quoted price is treated as a
+ * standard-rate catalog price for the VAT destination, and the parcel is weighed from
+ * the estimate when the parts were measured. Printed parts are always shipped.
+ */
+export async function priceQuotePayment(
+  quote: { quotedPrice: Prisma.Decimal | null; estimate: Prisma.JsonValue | null },
+  input: {
+    country?: string | null // delivery country
+    vatNumber?: string | null
+    fallbackCountry?: string | null // visitor location before an address is entered
+    shippingMethodId?: string | null
+  }
+): Promise<QuotePaymentQuote> {
+  let vatNumberError: string | null = null
+  let vatNumber: { vatNumber: string; country: string } | null = null
+  if (input.vatNumber?.trim()) {
+    const parsed = parseVatNumber(input.vatNumber)
+    if (parsed.error !== undefined) vatNumberError = parsed.error
+    else vatNumber = parsed
+  }
+  const taxContext = await getTaxContext({
+    country: input.country || (vatNumber ? null : input.fallbackCountry),
+    vatNumber,
+  })
+
+  const factor = getPriceFactor(taxContext, "standard")
+  const vatRate = getVatRate(taxContext, "standard")
+  const price = round2(Math.max(Number(quote.quotedPrice ?? 0) * factor, MIN_CHARGE))
+
+  const estimate = quote.estimate as QuoteEstimate | null
+  let options: ShippingOption[] = []
+  if (input.country) {
+    const result = await getShippingOptions({
+      country: input.country,
+      orderTotal: price,
+      weightGrams: Math.ceil(estimate?.grams ?? 0),
+      currency: QUOTE_CURRENCY,
+    })
+    options = result.options.map((o) => ({ ...o, fee: round2(o.fee * factor) }))
+  }
+  const selected = options.find((o) => o.id === input.shippingMethodId) ?? null
+  const shippingFee = selected?.fee ?? 0
+
+  return {
+    currency: QUOTE_CURRENCY,
+    price,
+    vatRate,
+    tax: { ...taxContext, vatNumberError },
+    shipping: { options, selected, vatRate },
+    shippingFee,
+    vatAmount: round2(vatPortion(price, vatRate) + vatPortion(shippingFee, vatRate)),
+    total: round2(price + shippingFee),
+  }
+}
@@ -0,0 +1,120 @@
+import type { MeshAnalysis } from "@/lib/meshAnalysis"
+import { BASE_LAYER_HEIGHT, type PrintConfig } from "@/lib/printConfig"
+
+export interface QuotePricing {
+  showEstimate: boolean // show the estimate to the customer, not just prefill it for admins
+  hourlyRate: number // machine time, per hour
+  setupFee: number // once per quote
+  minimumPrice: number
+  printSpeed: number // cm³ of plastic extruded per hour
+  infill: number // % of the interior assumed filled
+}
+
+export const DEFAULT_QUOTE_PRICING: QuotePricing = {
+  showEstimate: false,
+  hourlyRate: 2,
+  setupFee: 5,
+  minimumPrice: 10,
+  printSpeed: 15,
+  infill: 20,
+}
+
+/** Walls and top/bottom skins, ~3 perimeters of a 0.4 mm nozzle */
+const SHELL_THICKNESS_MM = 1.2
+
+const num = (value: unknown, fallback: number, min: number, max: number) =>
+  typeof value === "number" && Number.isFinite(value) ? Math.max(min, Math.min(max, value)) : fallback
+
+/** Stored as JSON in SiteSettings.quotePricing; missing or invalid fields use the defaults */
+export function parseQuotePricing(json: string | null | undefined): QuotePricing {
+  let raw: Record<string, unknown> = {}
+  try {
+    const parsed = JSON.parse(json || "{}")
+    if (parsed && typeof parsed === "object" && !Array.isArray(parsed)) raw = parsed
+  } catch { /* fall back to defaults */ }
+  const d = DEFAULT_QUOTE_PRICING
+  return {
+    showEstimate: typeof raw.showEstimate === "boolean" ? raw.showEstimate : d.showEstimate,
+    hourlyRate: num(raw.hourlyRate, d.hourlyRate, 0, 1000),
+    setupFee: num(raw.setupFee, d.setupFee, 0, 10000),
+    minimumPrice: num(raw.minimumPrice, d.minimumPrice, 0, 10000),
+    printSpeed: num(raw.printSpeed, d.printSpeed, 0.1, 1000),
+    infill: num(raw.infill, d.infill, 0, 100),
+  }
+}
+
+export interface PricedMaterial {
+  name: string
+  density: number // g/cm³
+  pricePerGram: number
+}
+
+export type QuotePartEstimate = {
+  name: string
+  material: string
+  quantity: number
+  grams: number
+  hours: number
+  cost: number // material + machine time, before the setup fee
+}
+
+export type QuoteEstimate = {
+  material: string
+  grams: number
+  hours: number
+  materialCost: number
+  machineCost: number
+  setupFee: number
+  price: number
+  parts?: QuotePartEstimate[] // absent on single-file estimates made before quotes had parts
+}
+
+export type EstimatePart = {
+  name: string
+  mesh: Pick<MeshAnalysis, "volume" | "surfaceArea">
+  material: PricedMaterial
+  options?: Partial<Pick<PrintConfig, "quantity" | "infill" | "layerHeight">>
+}
+
+const money = (n: number) => Math.round(n * 100) / 100
+
+/**
+ * Slicer-free estimate: a solid shell over the surface plus the infill share of the
+ * interior, priced by weight and by machine time. The customer's infill and layer
+ * height override the shop defaults. The setup fee and minimum price apply once per quote.
+ */
+export function estimateParts(parts: EstimatePart[], pricing: QuotePricing): QuoteEstimate {
+  let materialCost = 0
+  let machineCost = 0
+  const estimates = parts.map(({ name, mesh, material, options = {} }): QuotePartEstimate => {
+    const quantity = options.quantity ?? 1
+    const infill = options.infill ?? pricing.infill
+    const layerFactor = BASE_LAYER_HEIGHT / (options.layerHeight ?? BASE_LAYER_HEIGHT)
+    const shell = Math.min(mesh.volume, mesh.surfaceArea * SHELL_THICKNESS_MM)
+    const printedCm3 = (shell + (mesh.volume - shell) * (infill / 100)) / 1000
+    const grams = printedCm3 * material.density * quantity
+    const hours = (printedCm3 / pricing.printSpeed) * layerFactor * quantity
+    materialCost += grams * material.pricePerGram
+    machineCost += hours * pricing.hourlyRate
+    return {
+      name,
+      material: material.name,
+      quantity,
+      grams: Math.round(grams * 10) / 10,
+      hours: Math.round(hours * 100) / 100,
+      cost: money(grams * material.pricePerGram + hours * pricing.hourlyRate),
+    }
+  })
+  materialCost = money(materialCost)
+  machineCost = money(machineCost)
+  return {
+    material: [...new Set(estimates.map((part) => part.material))].join(", "),
+    grams: Math.round(estimates.reduce((sum, part) => sum + part.grams, 0) * 10) / 10,
+    hours: Math.round(estimates.reduce((sum, part) => sum + part.hours, 0) * 100) / 100,
+    materialCost,
+    machineCost,
+    setupFee: pricing.setupFee,
+    price: money(Math.max(pricing.minimumPrice, pricing.setupFee + materialCost + machineCost)),
+    parts: estimates,
+  }
+}
@@ -0,0 +1,67 @@
+export interface QuoteSla {
+  validityDays: number // how long a quoted price stands; 0 = no expiry
+  reminderDays: number // remind the customer this long before the quote expires; 0 = no reminder
+  responseHours: number // staff should answer a new request or counter-offer within this time
+}
+
+export const DEFAULT_QUOTE_SLA: QuoteSla = {
+  validityDays: 14,
+  reminderDays: 3,
+  responseHours: 24,
+}
+
+/** Statuses where the customer is waiting for the shop */
+export const AWAITING_STAFF_STATUSES = ["pending", "counter_offer"]
+
+const DAY_MS = 24 * 60 * 60 * 1000
+const HOUR_MS = 60 * 60 * 1000
+
+const int = (value: unknown, fallback: number, min: number, max: number) =>
+  typeof value === "number" && Number.isFinite(value) ? Math.round(Math.max(min, Math.min(max, value))) : fallback
+
+/** Stored as JSON in SiteSettings.quoteSla; missing or invalid fields use the defaults */
+export function parseQuoteSla(json: string | null | undefined): QuoteSla {
+  let raw: Record<string, unknown> = {}
+  try {
+    const parsed = JSON.parse(json || "{}")
+    if (parsed && typeof parsed === "object" && !Array.isArray(parsed)) raw = parsed
+  } catch { /* fall back to defaults */ }
+  const d = DEFAULT_QUOTE_SLA
+  return {
+    validityDays: int(raw.validityDays, d.validityDays, 0, 365),
+    reminderDays: int(raw.reminderDays, d.reminderDays, 0, 60),
+    responseHours: int(raw.responseHours, d.responseHours, 1, 24 * 30),
+  }
+}
+
+/** When a price quoted now stops being valid, or null when quotes don't expire */
+export function quoteExpiryFrom(quotedAt: Date, sla: QuoteSla): Date | null {
+  return sla.validityDays > 0 ? new Date(quotedAt.getTime() + sla.validityDays * DAY_MS) : null
+}
+
+/** When the reminder for a quote expiring at `expiresAt` is due */
+export function quoteReminderFrom(expiresAt: Date, sla: QuoteSla): Date | null {
+  return sla.reminderDays > 0 ? new Date(expiresAt.getTime() - sla.reminderDays * DAY_MS) : null
+}
+
+/**
+ * When staff should have answered — counted from the request or the customer's last
+ * counter-offer. Null when the quote isn't waiting on the shop.
+ */
+export function quoteResponseDue(
+  quote: { status: string; awaitingSince: string | Date | null; updatedAt: string | Date },
+  sla: QuoteSla
+): Date | null {
+  if (!AWAITING_STAFF_STATUSES.includes(quote.status)) return null
+  const since = new Date(quote.awaitingSince ?? quote.updatedAt)
+  return new Date(since.getTime() + sla.responseHours * HOUR_MS)
+}
+
+export function isQuoteOverdue(
+  quote: { status: string; awaitingSince: string | Date | null; updatedAt: string | Date },
+  sla: QuoteSla,
+  now = new Date()
+): boolean {
+  const due = quoteResponseDue(quote, sla)
+  return !!due && due <= now
+}
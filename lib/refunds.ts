@@ -0,0 +1,341 @@
+import Stripe from "stripe"
+import prisma from "@/lib/prisma"
+import { restockItems } from "@/lib/stock"
+import { issueCreditNotes } from "@/lib/invoices"
+import { withNextNumber } from "@/lib/numbering"
+
+export const REFUND_REASONS = ["requested_by_customer", "duplicate", "fraudulent"] as const
+export type RefundReason = (typeof REFUND_REASONS)[number]
+
+export interface RefundLineRequest {
+  orderItemId: string
+  quantity: number
+}
+
+const round2 = (n: number) => Math.round(n * 100) / 100
+
+/**
+ * The Stripe client is passed in (like `getCheckoutLines`) so refunds can be exercised
+ * against stripe-mock or a fake client.
+ */
+type RefundStripe = Pick<Stripe, "refunds" | "checkout">
+
+interface LineClaim {
+  orderItemId: string
+  quantity: number
+  amount: number
+}
+
+async function resolvePaymentIntent(
+  stripe: RefundStripe,
+  order: { id: string; paymentIntentId: string | null; stripeSession: string | null }
+): Promise<string | null> {
+  if (order.paymentIntentId) return order.paymentIntentId
+  if (!order.stripeSession) return null
+  const session = await stripe.checkout.sessions.retrieve(order.stripeSession)
+  const paymentIntentId = typeof session.payment_intent === "string" ? session.payment_intent : session.payment_intent?.id
+  if (!paymentIntentId) return null
+  await prisma.order.update({ where: { id: order.id }, data: { paymentIntentId } })
+  return paymentIntentId
+}
+
+async function findOrderByPaymentIntent(stripe: RefundStripe, paymentIntentId: string) {
+  const order = await prisma.order.findFirst({ where: { paymentIntentId } })
+  if (order) return order
+
+  // Orders created before paymentIntentId was stored are found through their session
+  const sessions = await stripe.checkout.sessions.list({ payment_intent: paymentIntentId, limit: 1 })
+  const stripeSession = sessions.data[0]?.id
+  if (!stripeSession) return null
+  const legacy = await prisma.order.findUnique({ where: { stripeSession } })
+  if (!legacy) return null
+  return prisma.order.update({ where: { id: legacy.id }, data: { paymentIntentId } })
+}
+
+/**
+ * Mark line quantities as refunded before money moves.
+ * Each claim only succeeds while enough unrefunded units remain, so two admins refunding
+ * the same line at once cannot both succeed (Neon HTTP has no interactive transactions).
+ */
+async function claimLines(
+  items: Array<{ id: string; quantity: number }>,
+  claims: LineClaim[]
+): Promise<boolean> {
+  const claimed: LineClaim[] = []
+  for (const claim of claims) {
+    const item = items.find((i) => i.id === claim.orderItemId)
+    if (!item) continue
+    const updated = await prisma.orderItem.updateMany({
+      where: { id: item.id, refundedQuantity: { lte: item.quantity - claim.quantity } },
+      data: { refundedQuantity: { increment: claim.quantity } },
+    })
+    if (updated.count === 0) {
+      await unclaimLines(claimed)
+      return false
+    }
+    claimed.push(claim)
+  }
+  return true
+}
+
+async function unclaimLines(claims: LineClaim[]): Promise<void> {
+  for (const claim of claims) {
+    await prisma.orderItem.update({
+      where: { id: claim.orderItemId },
+      data: { refundedQuantity: { decrement: claim.quantity } },
+    })
+  }
+}
+
+/** Invalidate download links bought in a checkout (optionally for one product only) */
+export async function revokeDownloads(stripeSession: string, productId?: string): Promise<number> {
+  const result = await prisma.digitalPurchase.updateMany({
+    where: { stripeSession, revokedAt: null, ...(productId ? { productId } : {}) },
+    data: { revokedAt: new Date() },
+  })
+  return result.count
+}
+
+/**
+ * Give a fully refunded checkout's coupon use back.
+ * Deleting the usage rows first makes repeated calls a no-op.
+ */
+export async function rollbackCouponUsage(stripeSession: string): Promise<void> {
+  const usages = await prisma.couponUsage.findMany({ where: { stripeSession }, select: { id: true, couponId: true } })
+  for (const usage of usages) {
+    const deleted = await prisma.couponUsage.deleteMany({ where: { id: usage.id } })
+    if (deleted.count === 0) continue
+    await prisma.coupon.updateMany({
+      where: { id: usage.couponId, usedCount: { gt: 0 } },
+      data: { usedCount: { decrement: 1 } },
+    })
+  }
+}
+
+/**
+ * Downstream effects of a recorded refund: revoke downloads of fully refunded digital
+ * lines, restock refunded physical units and, once the whole order is refunded,
+ * cancel it and release the coupon use.
+ */
+async function applyRefundEffects(orderId: string, claims: LineClaim[]): Promise<void> {
+  const order = await prisma.order.findUnique({ where: { id: orderId }, include: { items: true } })
+  if (!order?.stripeSession) return
+
+  const restock: Array<{ productId: string; weightId: string; colorId: string; quantity: number }> = []
+  for (const claim of claims) {
+    const item = order.items.find((i) => i.id === claim.orderItemId)
+    if (!item?.productId) continue
+    if (item.fileType === "digital") {
+      if (item.refundedQuantity >= item.quantity) await revokeDownloads(order.stripeSession, item.productId)
+    } else if (item.weightId && item.colorId) {
+      restock.push({ productId: item.productId, weightId: item.weightId, colorId: item.colorId, quantity: claim.quantity })
+    }
+  }
+  if (restock.length > 0) await restockItems(order.stripeSession, restock)
+
+  const fullyRefunded = order.total !== null && Number(order.refundedAmount) >= Number(order.total) - 0.005
+  if (fullyRefunded) {
+    if (order.status !== "CANCELLED") {
+      await prisma.order.update({ where: { id: order.id }, data: { status: "CANCELLED" } })
+    }
+    await rollbackCouponUsage(order.stripeSession)
+  }
+}
+
+/** Credit notes are paperwork — a failure is logged and retried on the next refund event */
+async function creditRefunds(orderId: string): Promise<void> {
+  try {
+    await issueCreditNotes(orderId)
+  } catch (error) {
+    console.error("Failed to issue credit note:", error instanceof Error ? error.message : "Unknown")
+  }
+}
+
+/**
+ * Admin refund of whole or partial lines (and optionally the shipping fee).
+ * The refund row and line claims are written before calling Stripe so a `charge.refunded`
+ * webhook arriving mid-request is not mistaken for a dashboard refund.
+ */
+export async function createOrderRefund(
+  stripe: RefundStripe,
+  params: {
+    orderId: string
+    lines: RefundLineRequest[]
+    includeShipping?: boolean
+    reason?: RefundReason | null
+    createdById?: string | null
+  }
+): Promise<{ refundId: string; error?: undefined } | { error: string; refundId?: undefined }> {
+  const order = await prisma.order.findUnique({
+    where: { id: params.orderId },
+    include: { items: { include: { refundItems: { where: { refund: { status: { not: "failed" } } } } } }, refunds: true },
+  })
+  if (!order) return { error: "Order not found" }
+  if (!order.stripeSession || order.total === null) return { error: "Only orders paid through Stripe can be refunded" }
+
+  const claims: LineClaim[] = []
+  for (const line of params.lines) {
+    if (!line.quantity) continue
+    const item = order.items.find((i) => i.id === line.orderItemId)
+    if (!item) return { error: "Order line not found" }
+    const remaining = item.quantity - item.refundedQuantity
+    if (!Number.isInteger(line.quantity) || line.quantity < 1 || line.quantity > remaining) {
+      return { error: `Only ${remaining} unit(s) of "${item.nameEn}" can still be refunded` }
+    }
+    // The last refunded unit takes whatever is left so rounding never over- or under-refunds
+    const alreadyRefunded = item.refundItems.reduce((sum, ri) => sum + Number(ri.amount), 0)
+    const amount = line.quantity === remaining
+      ? round2(Number(item.lineTotal) - alreadyRefunded)
+      : round2((Number(item.lineTotal) / item.quantity) * line.quantity)
+    claims.push({ orderItemId: item.id, quantity: line.quantity, amount })
+  }
+
+  const shippingFee = Number(order.shippingFee ?? 0)
+  const shippingRefunded = order.refunds.some((r) => r.includesShipping && r.status !== "failed")
+  const includesShipping = Boolean(params.includeShipping) && shippingFee > 0 && !shippingRefunded
+
+  const amount = round2(claims.reduce((sum, c) => sum + c.amount, 0) + (includesShipping ? shippingFee : 0))
+  if (amount <= 0) return { error: "Nothing selected to refund" }
+  const refundable = round2(Number(order.total) - Number(order.refundedAmount))
+  if (amount > refundable + 0.005) return { error: `At most ${refundable.toFixed(2)} ${order.currency} can still be refunded` }
+
+  if (!(await claimLines(order.items, claims))) {
+    return { error: "This order was refunded in the meantime — reload and try again" }
+  }
+
+  let refund: { id: string } | undefined
+  try {
+    refund = await withNextNumber("refund", (number) => prisma.refund.create({
+      data: {
+        number,
+        orderId: order.id,
+        amount,
+        currency: order.currency,
+        reason: params.reason || null,
+        includesShipping,
+        createdById: params.createdById || null,
+        items: { create: claims.map((c) => ({ orderItemId: c.orderItemId, quantity: c.quantity, amount: c.amount })) },
+      },
+    }))
+    await prisma.order.update({ where: { id: order.id }, data: { refundedAmount: { increment: amount } } })
+  } catch (error) {
+    if (refund) await prisma.refund.update({ where: { id: refund.id }, data: { status: "failed" } })
+    await unclaimLines(claims)
+    throw error
+  }
+
+  let stripeRefund: Stripe.Refund
+  try {
+    const paymentIntentId = await resolvePaymentIntent(stripe, order)
+    if (!paymentIntentId) throw new Error("No payment found for this order")
+    stripeRefund = await stripe.refunds.create(
+      {
+        payment_intent: paymentIntentId,
+        amount: Math.round(amount * 100),
+        ...(params.reason ? { reason: params.reason } : {}),
+        metadata: { orderId: order.id, refundId: refund.id },
+      },
+      { idempotencyKey: `refund-${refund.id}` }
+    )
+  } catch (error) {
+    await prisma.refund.update({ where: { id: refund.id }, data: { status: "failed" } })
+    await prisma.order.update({ where: { id: order.id }, data: { refundedAmount: { decrement: amount } } })
+    await unclaimLines(claims)
+    return { error: error instanceof Error ? error.message : "Stripe refund failed" }
+  }
+
+  await prisma.refund.update({
+    where: { id: refund.id },
+    data: { stripeRefundId: stripeRefund.id, status: stripeRefund.status === "succeeded" ? "succeeded" : "pending" },
+  })
+  await applyRefundEffects(order.id, claims)
+  await creditRefunds(order.id)
+
+  return { refundId: refund.id }
+}
+
+/**
+ * `charge.refunded` — confirms refunds issued here and records refunds made in the
+ * Stripe dashboard. Stripe's running `amount_refunded` is compared with what is already
+ * recorded, so duplicate deliveries add nothing.
+ */
+export async function handleChargeRefunded(stripe: RefundStripe, charge: Stripe.Charge): Promise<string | null> {
+  const paymentIntentId = typeof charge.payment_intent === "string" ? charge.payment_intent : charge.payment_intent?.id
+  if (!paymentIntentId) return null
+  const order = await findOrderByPaymentIntent(stripe, paymentIntentId)
+  if (!order) return null
+
+  await prisma.refund.updateMany({
+    where: { orderId: order.id, status: "pending", stripeRefundId: { not: null } },
+    data: { status: "succeeded" },
+  })
+
+  const recorded = await prisma.refund.aggregate({
+    where: { orderId: order.id, status: { not: "failed" } },
+    _sum: { amount: true },
+  })
+  const unrecorded = round2(charge.amount_refunded / 100 - Number(recorded._sum.amount ?? 0))
+  if (unrecorded <= 0) {
+    // Confirmation of a refund issued here — it may have just turned succeeded
+    await creditRefunds(order.id)
+    return order.orderNumber
+  }
+
+  // A full dashboard refund covers every unit not refunded yet; partial ones carry no line info
+  const items = await prisma.orderItem.findMany({ where: { orderId: order.id } })
+  const claims: LineClaim[] = charge.refunded
+    ? items
+        .filter((i) => i.refundedQuantity < i.quantity)
+        .map((i) => ({
+          orderItemId: i.id,
+          quantity: i.quantity - i.refundedQuantity,
+          amount: round2((Number(i.lineTotal) / i.quantity) * (i.quantity - i.refundedQuantity)),
+        }))
+    : []
+  if (!(await claimLines(items, claims))) return order.orderNumber
+
+  let refund: { id: string } | undefined
+  try {
+    refund = await withNextNumber("refund", (number) => prisma.refund.create({
+      data: {
+        number,
+        orderId: order.id,
+        amount: unrecorded,
+        currency: order.currency,
+        status: "succeeded",
+        source: "stripe",
+        includesShipping: charge.refunded && Number(order.shippingFee ?? 0) > 0,
+        items: { create: claims.map((c) => ({ orderItemId: c.orderItemId, quantity: c.quantity, amount: c.amount })) },
+      },
+    }))
+    await prisma.order.update({ where: { id: order.id }, data: { refundedAmount: { increment: unrecorded } } })
+  } catch (error) {
+    // A failed row is left out of the recorded total, so the replayed event records it again
+    if (refund) await prisma.refund.update({ where: { id: refund.id }, data: { status: "failed" } })
+    await unclaimLines(claims)
+    throw error
+  }
+  await applyRefundEffects(order.id, claims)
+  await creditRefunds(order.id)
+
+  return order.orderNumber
+}
+
+/**
+ * `charge.dispute.created` — flag the order and stop further downloads while the
+ * chargeback is open.
+ */
+export async function handleDisputeCreated(stripe: RefundStripe, dispute: Stripe.Dispute): Promise<string | null> {
+  const paymentIntentId = typeof dispute.payment_intent === "string" ? dispute.payment_intent : dispute.payment_intent?.id
+  if (!paymentIntentId) return null
+  const order = await findOrderByPaymentIntent(stripe, paymentIntentId)
+  if (!order) return null
+
+  await prisma.order.update({
+    where: { id: order.id },
+    data: { disputedAt: new Date(dispute.created * 1000), disputeReason: dispute.reason },
+  })
+  if (order.stripeSession) await revokeDownloads(order.stripeSession)
+
+  return order.orderNumber
+}
@@ -0,0 +1,162 @@
+/** Markers `ts_headline` puts around matched words; control characters never occur in product text */
+export const HIGHLIGHT_START = "\u0002"
+export const HIGHLIGHT_STOP = "\u0003"
+
+/** A run of text, marked when it matched the query — rendered without HTML so product text stays inert */
+export type HighlightSegment = { text: string; match: boolean }
+
+export interface SearchFilters {
+  category: string | null // category slug; includes its subcategories
+  brand: string | null // brand slug
+  colors: string[] // color ids; a product matches if it comes in any of them
+  weights: string[] // weight ids; a product matches if it has a package in any of them
+  minPrice: number | null
+  maxPrice: number | null
+  onSale: boolean
+}
+
+/** One choice of a facet; names follow the catalog's per-locale fields so the usual name helpers apply */
+export interface FacetCount {
+  value: string
+  nameEn: string
+  nameBg: string
+  nameEs: string
+  count: number
+  hex?: string
+  hex2?: string | null
+}
+
+export interface SearchFacets {
+  categories: FacetCount[]
+  brands: FacetCount[]
+  colors: FacetCount[]
+  weights: FacetCount[]
+  price: { min: number; max: number } | null
+  onSale: number
+}
+
+const MAX_TERMS = 8
+
+/** Words of a query — letters and digits only, so they are safe to join into `to_tsquery` syntax */
+export function queryTerms(q: string): string[] {
+  return (q.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? []).slice(0, MAX_TERMS)
+}
+
+/** A query as it is logged and matched against synonym rules: lower-cased words joined by single spaces */
+export function normalizeQuery(q: string): string {
+  return queryTerms(q).join(" ")
+}
+
+/**
+ * `to_tsquery` text requiring every word, with the last one as a prefix so results
+ * show up while the customer is still typing ("fila" finds "filament"). A word with
+ * synonyms matches any of them; a multi-word synonym must appear as a phrase.
+ */
+export function prefixTsQuery(terms: string[], synonyms: Map<string, string[]> = new Map()): string {
+  return terms.map((term, i) => {
+    const alternatives = [
+      i === terms.length - 1 ? `${term}:*` : term,
+      ...(synonyms.get(term) ?? []).map((synonym) => queryTerms(synonym).join(" <-> ")).filter(Boolean),
+    ]
+    return alternatives.length > 1 ? `(${alternatives.join(" | ")})` : alternatives[0]
+  }).join(" & ")
+}
+
+/** What a logged search led to */
+export const SEARCH_CLICK_TYPES = ["product", "content", "menu", "redirect"] as const
+export type SearchClickType = (typeof SEARCH_CLICK_TYPES)[number]
+
+/** An admin-managed search rule: words that mean the same, and optionally a page the exact query goes to */
+export interface SynonymRule {
+  term: string
+  synonyms: string[]
+  redirectUrl: string | null
+}
+
+/**
+ * Synonyms work both ways: every single-word member of a rule ("filament", "нишка") is
+ * expanded to all the others, so searching either finds products described with the other
+ */
+export function synonymMap(rules: SynonymRule[]): Map<string, string[]> {
+  const map = new Map<string, string[]>()
+  for (const rule of rules) {
+    const group = [...new Set([rule.term, ...rule.synonyms].map(normalizeQuery).filter(Boolean))]
+    for (const word of group) {
+      if (word.includes(" ")) continue
+      const others = group.filter((other) => other !== word)
+      map.set(word, [...new Set([...(map.get(word) ?? []), ...others])])
+    }
+  }
+  return map
+}
+
+/** The page a query is sent to — only when the whole query is a rule's term, so "pla" redirects but "pla black" searches */
+export function findRedirect(rules: SynonymRule[], q: string): string | null {
+  const normalized = normalizeQuery(q)
+  return rules.find((rule) => rule.redirectUrl && normalizeQuery(rule.term) === normalized)?.redirectUrl ?? null
+}
+
+/** Redirect targets must stay on this site */
+export function isSiteRedirect(url: string): boolean {
+  return /^\/(?![/\\])/.test(url)
+}
+
+/** Split `ts_headline` output into plain and matched runs */
+export function parseHighlight(value: string | null | undefined): HighlightSegment[] {
+  if (!value) return []
+  const segments: HighlightSegment[] = []
+  for (const part of value.split(HIGHLIGHT_START)) {
+    const stop = part.indexOf(HIGHLIGHT_STOP)
+    if (stop === -1) {
+      if (part) segments.push({ text: part, match: false })
+      continue
+    }
+    if (stop > 0) segments.push({ text: part.slice(0, stop), match: true })
+    const rest = part.slice(stop + 1)
+    if (rest) segments.push({ text: rest, match: false })
+  }
+  return segments
+}
+
+const list = (value: string | null) => (value ? value.split(",").map((v) => v.trim()).filter(Boolean) : [])
+
+const price = (value: string | null) => {
+  if (value === null || value === "") return null
+  const n = Number(value)
+  return Number.isFinite(n) && n >= 0 ? n : null
+}
+
+/** Facet filters from a query string: `category`, `brand`, `colors`, `weights`, `minPrice`, `maxPrice`, `onSale=1` */
+export function parseSearchFilters(params: URLSearchParams): SearchFilters {
+  return {
+    category: params.get("category") || null,
+    brand: params.get("brand") || null,
+    colors: list(params.get("colors")),
+    weights: list(params.get("weights")),
+    minPrice: price(params.get("minPrice")),
+    maxPrice: price(params.get("maxPrice")),
+    onSale: params.get("onSale") === "1",
+  }
+}
+
+/** The inverse of `parseSearchFilters`, leaving out filters that are not set */
+export function searchFiltersToParams(filters: SearchFilters, params = new URLSearchParams()): URLSearchParams {
+  if (filters.category) params.set("category", filters.category)
+  if (filters.brand) params.set("brand", filters.brand)
+  if (filters.colors.length > 0) params.set("colors", filters.colors.join(","))
+  if (filters.weights.length > 0) params.set("weights", filters.weights.join(","))
+  if (filters.minPrice !== null) params.set("minPrice", String(filters.minPrice))
+  if (filters.maxPrice !== null) params.set("maxPrice", String(filters.maxPrice))
+  if (filters.onSale) params.set("onSale", "1")
+  return params
+}
+
+export const EMPTY_SEARCH_FILTERS: SearchFilters = {
+  category: null,
+  brand: null,
+  colors: [],
+  weights: [],
+  minPrice: null,
+  maxPrice: null,
+  onSale: false,
+}
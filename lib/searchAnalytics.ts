@@ -0,0 +1,107 @@
+import prisma from "@/lib/prisma"
+import type { SynonymRule, SearchClickType } from "@/lib/search"
+
+/** Keystrokes of one search arrive as separate requests; within this window they update one log row */
+const MERGE_WINDOW_MS = 60_000
+
+export async function getSynonymRules(): Promise<SynonymRule[]> {
+  return prisma.searchSynonym.findMany({ select: { term: true, synonyms: true, redirectUrl: true } })
+}
+
+interface SearchLogEntry {
+  term: string
+  locale: string
+  resultCount: number
+  sessionKey: string | null
+}
+
+/**
+ * Record a search and return its id for click reporting. When the same browser session refines
+ * its query ("fil" → "filament") the earlier row is updated, so the log holds what people
+ * settled on rather than every keystroke.
+ */
+export async function logSearch({ term, locale, resultCount, sessionKey }: SearchLogEntry): Promise<string> {
+  if (sessionKey) {
+    const previous = await prisma.searchQuery.findFirst({
+      where: { sessionKey, clickedAt: null, createdAt: { gte: new Date(Date.now() - MERGE_WINDOW_MS) } },
+      orderBy: { createdAt: "desc" },
+      select: { id: true, term: true },
+    })
+    if (previous && (term.startsWith(previous.term) || previous.term.startsWith(term))) {
+      await prisma.searchQuery.update({ where: { id: previous.id }, data: { term, locale, resultCount } })
+      return previous.id
+    }
+  }
+  const entry = await prisma.searchQuery.create({
+    data: { term, locale, resultCount, sessionKey },
+    select: { id: true },
+  })
+  return entry.id
+}
+
+/** Remember the first result opened from a search; later clicks keep the first */
+export async function recordSearchClick(searchId: string, type: SearchClickType, targetId: string) {
+  await prisma.searchQuery.updateMany({
+    where: { id: searchId, clickedAt: null },
+    data: { clickedType: type, clickedId: targetId.slice(0, 500), clickedAt: new Date() },
+  })
+}
+
+export interface SearchReportRow {
+  term: string
+  searches: number
+  clicks: number
+  avgResults: number
+  lastSearchedAt: string
+}
+
+const REPORT_ROWS = 25
+
+/** Searches, zero-result rate and click-through over a period, with the top and zero-result queries */
+export async function getSearchReport(since: Date) {
+  const where = { createdAt: { gte: since } }
+  const [searches, zeroResults, clicks, top, zero] = await Promise.all([
+    prisma.searchQuery.count({ where }),
+    prisma.searchQuery.count({ where: { ...where, resultCount: 0 } }),
+    prisma.searchQuery.count({ where: { ...where, clickedAt: { not: null } } }),
+    prisma.searchQuery.groupBy({
+      by: ["term"],
+      where,
+      _count: { term: true },
+      _avg: { resultCount: true },
+      _max: { createdAt: true },
+      orderBy: { _count: { term: "desc" } },
+      take: REPORT_ROWS,
+    }),
+    prisma.searchQuery.groupBy({
+      by: ["term"],
+      where: { ...where, resultCount: 0 },
+      _count: { term: true },
+      _max: { createdAt: true },
+      orderBy: { _count: { term: "desc" } },
+      take: REPORT_ROWS,
+    }),
+  ])
+
+  const terms = [...new Set([...top, ...zero].map((row) => row.term))]
+  const clicked = await prisma.searchQuery.groupBy({
+    by: ["term"],
+    where: { ...where, term: { in: terms }, clickedAt: { not: null } },
+    _count: { term: true },
+  })
+  const clicksByTerm = new Map(clicked.map((row) => [row.term, row._count.term]))
+
+  const toRow = (row: { term: string; _count: { term: number }; _avg?: { resultCount: number | null }; _max: { createdAt: Date | null } }): SearchReportRow => ({
+    term: row.term,
+    searches: row._count.term,
+    clicks: clicksByTerm.get(row.term) ?? 0,
+    avgResults: row._avg?.resultCount ?? 0,
+    lastSearchedAt: (row._max.createdAt ?? since).toISOString(),
+  })
+
+  return {
+    totals: { searches, zeroResults, clicks },
+    topQueries: top.map(toRow),
+    zeroResultQueries: zero.map(toRow),
+  }
+}
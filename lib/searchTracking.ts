@@ -0,0 +1,26 @@
+import type { SearchClickType } from "@/lib/search"
+
+const SESSION_KEY = "d4d-search-session"
+
+/** Random id for this tab's searches, so the log can fold a query typed letter by letter into one row */
+export function getSearchSessionKey(): string {
+  try {
+    let key = sessionStorage.getItem(SESSION_KEY)
+    if (!key) {
+      key = crypto.randomUUID()
+      sessionStorage.setItem(SESSION_KEY, key)
+    }
+    return key
+  } catch {
+    return ""
+  }
+}
+
+/** Report which result a search led to; a beacon survives the navigation the click starts */
+export function reportSearchClick(searchId: string | null | undefined, type: SearchClickType, id: string) {
+  if (!searchId) return
+  const body = new Blob([JSON.stringify({ searchId, type, id })], { type: "application/json" })
+  if (!navigator.sendBeacon?.("/api/search/click", body)) {
+    fetch("/api/search/click", { method: "POST", body, keepalive: true }).catch(() => {})
+  }
+}
@@ -0,0 +1,187 @@
+import prisma from "@/lib/prisma"
+import { isShippingCountry } from "@/lib/countries"
+import { validateLength, firstError, MAX_NAME, MAX_PHONE, MAX_ADDRESS, MAX_CITY, MAX_POSTAL_CODE } from "@/lib/validation"
+
+/** Delivery address as captured at checkout and snapshotted on the order */
+export interface ShippingAddress {
+  fullName: string
+  phone: string
+  line1: string
+  line2?: string | null
+  city: string
+  postalCode: string
+  country: string // ISO 3166-1 alpha-2
+}
+
+/** A shipping method available for a destination, with its fee for the current cart */
+export interface ShippingOption {
+  id: string
+  nameBg: string
+  nameEn: string
+  nameEs: string
+  estimatedDays: string | null
+  fee: number
+  freeShippingThreshold: number | null
+}
+
+const round2 = (n: number) => Math.round(n * 100) / 100
+
+const trimOrEmpty = (v: unknown) => (typeof v === "string" ? v.trim() : "")
+
+/**
+ * Validate a delivery address from a request body.
+ * Returns the normalized address or an error message.
+ */
+export function parseShippingAddress(raw: unknown): { address: ShippingAddress; error?: undefined } | { error: string; address?: undefined } {
+  if (!raw || typeof raw !== "object") return { error: "Shipping address is required" }
+  const data = raw as Record<string, unknown>
+  const address: ShippingAddress = {
+    fullName: trimOrEmpty(data.fullName),
+    phone: trimOrEmpty(data.phone),
+    line1: trimOrEmpty(data.line1),
+    line2: trimOrEmpty(data.line2) || null,
+    city: trimOrEmpty(data.city),
+    postalCode: trimOrEmpty(data.postalCode),
+    country: trimOrEmpty(data.country).toUpperCase(),
+  }
+
+  if (!address.fullName || !address.phone || !address.line1 || !address.city || !address.postalCode) {
+    return { error: "Please fill in all required address fields" }
+  }
+  if (!isShippingCountry(address.country)) {
+    return { error: "We do not ship to the selected country" }
+  }
+  const lengthError = firstError(
+    validateLength(address.fullName, "Full name", MAX_NAME),
+    validateLength(address.phone, "Phone", MAX_PHONE),
+    validateLength(address.line1, "Address", MAX_ADDRESS / 2),
+    validateLength(address.line2, "Address line 2", MAX_ADDRESS / 2),
+    validateLength(address.city, "City", MAX_CITY),
+    validateLength(address.postalCode, "Postal code", MAX_POSTAL_CODE)
+  )
+  if (lengthError) return { error: lengthError }
+
+  return { address }
+}
+
+/** Stripe session metadata values are limited to 500 chars, so each field gets its own key */
+export function addressToMetadata(address: ShippingAddress): Record<string, string> {
+  return {
+    shipName: address.fullName,
+    shipPhone: address.phone,
+    shipLine1: address.line1,
+    shipLine2: address.line2 || "",
+    shipCity: address.city,
+    shipPostalCode: address.postalCode,
+    shipCountry: address.country,
+  }
+}
+
+export function addressFromMetadata(metadata: Record<string, string> | null | undefined): ShippingAddress | null {
+  if (!metadata?.shipLine1 || !metadata.shipCountry) return null
+  return {
+    fullName: metadata.shipName || "",
+    phone: metadata.shipPhone || "",
+    line1: metadata.shipLine1,
+    line2: metadata.shipLine2 || null,
+    city: metadata.shipCity || "",
+    postalCode: metadata.shipPostalCode || "",
+    country: metadata.shipCountry,
+  }
+}
+
+/** Digital downloads never need a delivery address */
+export function requiresShipping(lines: Array<{ fileType: string }>): boolean {
+  return lines.some((l) => l.fileType !== "digital")
+}
+
+/** Total parcel weight in grams, from each physical line's package weight */
+export async function getShippingWeight(
+  lines: Array<{ packageId?: string | null; quantity: number; fileType: string }>
+): Promise<number> {
+  const physical = lines.filter((l) => l.fileType !== "digital" && l.packageId)
+  if (physical.length === 0) return 0
+
+  const packages = await prisma.productPackage.findMany({
+    where: { id: { in: physical.map((l) => l.packageId as string) } },
+    select: { id: true, weight: { select: { grams: true } } },
+  })
+  const gramsById = new Map(packages.map((p) => [p.id, p.weight.grams ?? 0]))
+  return physical.reduce((sum, l) => sum + (gramsById.get(l.packageId as string) ?? 0) * l.quantity, 0)
+}
+
+/**
+ * Fee for one method: free once the order total reaches the threshold,
+ * otherwise the base rate plus the per-kg rate for every started kilogram.
+ */
+export function calculateShippingFee(
+  method: { baseRate: number; perKgRate: number },
+  freeShippingThreshold: number | null,
+  orderTotal: number,
+  weightGrams: number
+): number {
+  if (freeShippingThreshold !== null && orderTotal >= freeShippingThreshold) return 0
+  const kg = Math.ceil(weightGrams / 1000)
+  return round2(method.baseRate + method.perKgRate * kg)
+}
+
+/** Site-wide free shipping threshold (SiteSettings) — the default for methods without their own */
+async function getGlobalFreeShippingThreshold(currency: string): Promise<number | null> {
+  const settings = await prisma.siteSettings.findUnique({
+    where: { id: "singleton" },
+    select: { freeShippingEnabled: true, freeShippingThreshold: true, freeShippingCurrency: true },
+  })
+  if (!settings?.freeShippingEnabled || !settings.freeShippingThreshold) return null
+  if (settings.freeShippingCurrency !== currency) return null
+  return settings.freeShippingThreshold
+}
+
+/**
+ * Shipping methods available for a destination with their fees.
+ * A zone matches when its country list contains the destination; a zone with an empty
+ * country list is the "rest of the world" fallback. Without a country only the site-wide
+ * free shipping threshold is returned, so the cart banner can still show progress.
+ */
+export async function getShippingOptions(params: {
+  country?: string | null
+  orderTotal: number
+  weightGrams: number
+  currency: string
+}): Promise<{ options: ShippingOption[]; freeShippingThreshold: number | null }> {
+  const globalThreshold = await getGlobalFreeShippingThreshold(params.currency)
+  if (!params.country) return { options: [], freeShippingThreshold: globalThreshold }
+
+  const zones = await prisma.shippingZone.findMany({
+    where: { active: true },
+    orderBy: { order: "asc" },
+    include: { methods: { where: { active: true }, orderBy: { order: "asc" } } },
+  })
+  const country = params.country.toUpperCase()
+  const zone = zones.find((z) => z.countries.includes(country)) ?? zones.find((z) => z.countries.length === 0)
+  if (!zone) return { options: [], freeShippingThreshold: null }
+
+  const options: ShippingOption[] = []
+  for (const method of zone.methods) {
+    if (method.minOrderTotal !== null && params.orderTotal < Number(method.minOrderTotal)) continue
+    if (method.maxWeightGrams !== null && params.weightGrams > method.maxWeightGrams) continue
+
+    const threshold = method.freeShippingThreshold !== null ? Number(method.freeShippingThreshold) : globalThreshold
+    options.push({
+      id: method.id,
+      nameBg: method.nameBg,
+      nameEn: method.nameEn,
+      nameEs: method.nameEs,
+      estimatedDays: method.estimatedDays,
+      fee: calculateShippingFee(
+        { baseRate: Number(method.baseRate), perKgRate: Number(method.perKgRate) },
+        threshold,
+        params.orderTotal,
+        params.weightGrams
+      ),
+      freeShippingThreshold: threshold,
+    })
+  }
+
+  const thresholds = options.map((o) => o.freeShippingThreshold).filter((t): t is number => t !== null)
+  return { options, freeShippingThreshold: thresholds.length > 0 ? Math.min(...thresholds) : null }
+}
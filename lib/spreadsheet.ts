@@ -0,0 +1,152 @@
+import { inflateRawSync } from "zlib"
+
+/**
+ * Minimal spreadsheet reading for admin imports: RFC 4180 CSV (comma, semicolon or tab
+ * separated, as Excel saves it per locale) and the first worksheet of an .xlsx workbook.
+ * Every cell comes back as a string; empty trailing rows are dropped.
+ */
+export function readSpreadsheet(buffer: Buffer): string[][] {
+  const rows = buffer.subarray(0, 2).toString("latin1") === "PK"
+    ? readXlsx(buffer)
+    : parseCsv(buffer.toString("utf8"))
+  while (rows.length > 0 && rows[rows.length - 1].every((cell) => cell.trim() === "")) rows.pop()
+  return rows
+}
+
+export function parseCsv(text: string): string[][] {
+  const input = text.replace(/^\uFEFF/, "")
+  const firstLine = input.slice(0, input.search(/\r?\n|$/))
+  const counts = [",", ";", "\t"].map((d) => [d, firstLine.split(d).length] as const)
+  const delimiter = counts.reduce((best, entry) => (entry[1] > best[1] ? entry : best))[0]
+
+  const rows: string[][] = []
+  let row: string[] = []
+  let cell = ""
+  let quoted = false
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i]
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') { cell += '"'; i++ }
+      else if (char === '"') quoted = false
+      else cell += char
+    } else if (char === '"' && cell === "") {
+      quoted = true
+    } else if (char === delimiter) {
+      row.push(cell)
+      cell = ""
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && input[i + 1] === "\n") i++
+      row.push(cell)
+      rows.push(row)
+      row = []
+      cell = ""
+    } else {
+      cell += char
+    }
+  }
+  if (cell !== "" || row.length > 0) {
+    row.push(cell)
+    rows.push(row)
+  }
+  return rows
+}
+
+/** Most a workbook may unpack to — far beyond any real import, well short of a zip bomb */
+const MAX_UNPACKED_SIZE = 50 * 1024 * 1024
+const TOO_LARGE = "The .xlsx file unpacks to more than 50MB"
+
+function inflateEntry(data: Buffer, maxOutputLength: number): Buffer {
+  try {
+    return inflateRawSync(data, { maxOutputLength })
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ERR_BUFFER_TOO_LARGE") throw new Error(TOO_LARGE)
+    throw error
+  }
+}
+
+/** Files of a zip archive by name, read from its central directory */
+function unzip(buffer: Buffer): Map<string, Buffer> {
+  let end = buffer.length - 22
+  while (end >= 0 && buffer.readUInt32LE(end) !== 0x06054b50) end--
+  if (end < 0) throw new Error("Not a valid .xlsx file")
+
+  const files = new Map<string, Buffer>()
+  let unpacked = 0
+  const count = buffer.readUInt16LE(end + 10)
+  let offset = buffer.readUInt32LE(end + 16)
+  for (let i = 0; i < count; i++) {
+    if (buffer.readUInt32LE(offset) !== 0x02014b50) throw new Error("Not a valid .xlsx file")
+    const method = buffer.readUInt16LE(offset + 10)
+    const size = buffer.readUInt32LE(offset + 20)
+    if (unpacked + buffer.readUInt32LE(offset + 24) > MAX_UNPACKED_SIZE) throw new Error(TOO_LARGE)
+    const nameLength = buffer.readUInt16LE(offset + 28)
+    const headerOffset = buffer.readUInt32LE(offset + 42)
+    const name = buffer.toString("utf8", offset + 46, offset + 46 + nameLength)
+    const dataStart = headerOffset + 30 + buffer.readUInt16LE(headerOffset + 26) + buffer.readUInt16LE(headerOffset + 28)
+    const data = buffer.subarray(dataStart, dataStart + size)
+    // The declared size can lie, so inflating stops at whatever is left of the limit
+    const content = method === 8 ? inflateEntry(data, Math.max(MAX_UNPACKED_SIZE - unpacked, 1)) : data
+    unpacked += content.length
+    files.set(name, content)
+    offset += 46 + nameLength + buffer.readUInt16LE(offset + 30) + buffer.readUInt16LE(offset + 32)
+  }
+  return files
+}
+
+function decodeXml(text: string): string {
+  return text
+    .replace(/&#x([0-9a-f]+);/gi, (_, hex) => String.fromCodePoint(parseInt(hex, 16)))
+    .replace(/&#(\d+);/g, (_, dec) => String.fromCodePoint(parseInt(dec, 10)))
+    .replace(/&lt;/g, "<").replace(/&gt;/g, ">").replace(/&quot;/g, '"').replace(/&apos;/g, "'")
+    .replace(/&amp;/g, "&")
+}
+
+/** Text of an element's `<t>` runs — shared strings and inline strings may be split into rich-text runs */
+function textRuns(xml: string): string {
+  return decodeXml([...xml.matchAll(/<t\b[^>]*>([\s\S]*?)<\/t>/g)].map((m) => m[1]).join(""))
+}
+
+function columnIndex(ref: string): number {
+  return [...ref].reduce((n, c) => n * 26 + c.charCodeAt(0) - 64, 0) - 1
+}
+
+function readXlsx(buffer: Buffer): string[][] {
+  const files = unzip(buffer)
+  const read = (name: string) => files.get(name)?.toString("utf8")
+
+  // The first sheet in workbook order, resolved through the workbook relationships
+  const workbook = read("xl/workbook.xml") ?? ""
+  const rels = read("xl/_rels/workbook.xml.rels") ?? ""
+  const relId = workbook.match(/<sheet\b[^>]*\br:id="([^"]+)"/)?.[1]
+  const target = relId ? rels.match(new RegExp(`<Relationship\\b[^>]*\\bId="${relId}"[^>]*\\bTarget="([^"]+)"`))?.[1]
+    ?? rels.match(new RegExp(`<Relationship\\b[^>]*\\bTarget="([^"]+)"[^>]*\\bId="${relId}"`))?.[1] : undefined
+  const sheetPath = target ? (target.startsWith("/") ? target.slice(1) : `xl/${target}`) : "xl/worksheets/sheet1.xml"
+  const sheet = read(sheetPath)
+  if (!sheet) throw new Error("The workbook has no worksheet")
+
+  const shared = [...(read("xl/sharedStrings.xml") ?? "").matchAll(/<si>([\s\S]*?)<\/si>/g)].map((m) => textRuns(m[1]))
+
+  const rows: string[][] = []
+  for (const rowMatch of sheet.matchAll(/<row\b([^>]*?)(?:\/>|>([\s\S]*?)<\/row>)/g)) {
+    const rowNumber = parseInt(rowMatch[1].match(/\br="(\d+)"/)?.[1] ?? String(rows.length + 1))
+    while (rows.length < rowNumber - 1) rows.push([])
+    const row: string[] = []
+    for (const cellMatch of (rowMatch[2] ?? "").matchAll(/<c\b([^>]*?)(?:\/>|>([\s\S]*?)<\/c>)/g)) {
+      const attrs = cellMatch[1]
+      const body = cellMatch[2] ?? ""
+      const ref = attrs.match(/\br="([A-Z]+)\d*"/)?.[1]
+      const index = ref ? columnIndex(ref) : row.length
+      const type = attrs.match(/\bt="(\w+)"/)?.[1]
+      const raw = body.match(/<v>([\s\S]*?)<\/v>/)?.[1]
+      let value = ""
+      if (type === "s") value = shared[parseInt(raw ?? "")] ?? ""
+      else if (type === "inlineStr") value = textRuns(body)
+      else if (type === "b") value = raw === "1" ? "yes" : "no"
+      else if (raw !== undefined) value = decodeXml(raw)
+      while (row.length < index) row.push("")
+      row[index] = value
+    }
+    rows.push(row)
+  }
+  return rows
+}
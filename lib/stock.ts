@@ -0,0 +1,266 @@
+import prisma from "@/lib/prisma"
+import { notifyStockAvailable } from "@/lib/wishlistNotifications"
+import { buildProductUrlFromDb } from "@/lib/productUrl"
+
+// Stripe Checkout sessions must stay open at least 30 minutes
+export const RESERVATION_MINUTES = 30
+
+/**
+ * Stock is tracked per SIZE×COLOR cell (ProductPackageVariant.stock; null = not tracked).
+ * Package and variant rows are recreated on every product save, so reservations are keyed
+ * by the stable (productId, weightId, colorId) triple instead of row ids.
+ */
+interface StockKey {
+  productId: string
+  weightId: string
+  colorId: string
+}
+
+export interface StockRequest {
+  productId: string
+  packageId?: string | null
+  variantId?: string | null
+  quantity: number
+  name: string
+}
+
+async function findPackageVariant(key: StockKey) {
+  return prisma.productPackageVariant.findFirst({
+    where: { package: { productId: key.productId, weightId: key.weightId }, variant: { colorId: key.colorId } },
+    select: { id: true, stock: true, status: true, packageId: true },
+  })
+}
+
+async function getReservedQuantity(key: StockKey): Promise<number> {
+  const result = await prisma.stockReservation.aggregate({
+    where: { ...key, status: "active", expiresAt: { gt: new Date() } },
+    _sum: { quantity: true },
+  })
+  return result._sum.quantity ?? 0
+}
+
+/**
+ * Reserve stock for checkout lines that point at a stock-tracked SIZE×COLOR cell.
+ * Neon HTTP has no interactive transactions, so each reservation is inserted first and the
+ * total is checked afterwards — concurrent buyers of the last unit both back off rather
+ * than both succeed.
+ */
+export async function reserveStock(
+  requests: StockRequest[],
+  expiresAt: Date
+): Promise<{ reservationIds: string[]; error?: undefined } | { error: string; reservationIds?: undefined }> {
+  const reservationIds: string[] = []
+
+  for (const req of requests) {
+    if (!req.packageId || !req.variantId) continue
+    const packageVariant = await prisma.productPackageVariant.findUnique({
+      where: { packageId_variantId: { packageId: req.packageId, variantId: req.variantId } },
+      select: { stock: true, status: true, package: { select: { weightId: true } }, variant: { select: { colorId: true } } },
+    })
+    // Untracked cells and pre-orders are never limited by stock
+    if (!packageVariant || packageVariant.stock === null || packageVariant.status === "pre_order") continue
+
+    const key = { productId: req.productId, weightId: packageVariant.package.weightId, colorId: packageVariant.variant.colorId }
+    const reservation = await prisma.stockReservation.create({
+      data: { ...key, quantity: req.quantity, expiresAt },
+    })
+    reservationIds.push(reservation.id)
+
+    const reserved = await getReservedQuantity(key)
+    if (reserved > packageVariant.stock) {
+      await releaseReservations({ ids: reservationIds })
+      const left = Math.max(packageVariant.stock - (reserved - req.quantity), 0)
+      return {
+        error: left > 0
+          ? `Only ${left} left of "${req.name}"`
+          : `"${req.name}" is out of stock`,
+      }
+    }
+  }
+
+  return { reservationIds }
+}
+
+export async function attachReservationsToSession(reservationIds: string[], stripeSession: string): Promise<void> {
+  if (reservationIds.length === 0) return
+  await prisma.stockReservation.updateMany({
+    where: { id: { in: reservationIds } },
+    data: { stripeSession },
+  })
+}
+
+export async function releaseReservations(where: { ids?: string[]; stripeSession?: string }): Promise<number> {
+  if (!where.ids?.length && !where.stripeSession) return 0
+  const result = await prisma.stockReservation.updateMany({
+    where: {
+      status: "active",
+      ...(where.ids ? { id: { in: where.ids } } : { stripeSession: where.stripeSession }),
+    },
+    data: { status: "released" },
+  })
+  return result.count
+}
+
+/**
+ * Convert a paid session's reservations into real stock decrements.
+ * Safe to call twice — a reservation is only committed once.
+ */
+export async function commitReservations(stripeSession: string): Promise<void> {
+  const reservations = await prisma.stockReservation.findMany({
+    where: { stripeSession, status: "active" },
+  })
+
+  const touchedProducts = new Set<string>()
+  for (const r of reservations) {
+    const claimed = await prisma.stockReservation.updateMany({
+      where: { id: r.id, status: "active" },
+      data: { status: "committed" },
+    })
+    if (claimed.count === 0) continue
+
+    let packageVariant: Awaited<ReturnType<typeof findPackageVariant>>
+    let updated: { stock: number | null; status: string } | undefined
+    try {
+      packageVariant = await findPackageVariant(r)
+      if (packageVariant && packageVariant.stock !== null) {
+        updated = await prisma.productPackageVariant.update({
+          where: { id: packageVariant.id },
+          data: { stock: { decrement: r.quantity } },
+          select: { stock: true, status: true },
+        })
+      }
+    } catch (error) {
+      // Hand the claim back so a replay of the event decrements this row
+      await prisma.stockReservation.updateMany({
+        where: { id: r.id, status: "committed" },
+        data: { status: "active" },
+      })
+      throw error
+    }
+    if (!packageVariant || !updated) continue
+
+    if (updated.stock !== null && updated.stock <= 0 && updated.status === "in_stock") {
+      await prisma.productPackageVariant.update({
+        where: { id: packageVariant.id },
+        data: { status: "sold_out" },
+      })
+    }
+    touchedProducts.add(r.productId)
+  }
+
+  for (const productId of touchedProducts) {
+    await syncStockStatuses(productId)
+  }
+}
+
+/**
+ * Put refunded units back on the shelf.
+ * Only cells whose stock was actually decremented by this checkout (a committed
+ * reservation exists) are incremented; untracked cells and pre-orders are skipped.
+ */
+export async function restockItems(
+  stripeSession: string,
+  items: Array<{ productId: string; weightId: string; colorId: string; quantity: number }>
+): Promise<void> {
+  const touchedProducts = new Set<string>()
+  for (const item of items) {
+    const key = { productId: item.productId, weightId: item.weightId, colorId: item.colorId }
+    const committed = await prisma.stockReservation.findFirst({
+      where: { ...key, stripeSession, status: "committed" },
+      select: { id: true },
+    })
+    if (!committed) continue
+
+    const packageVariant = await findPackageVariant(key)
+    if (!packageVariant || packageVariant.stock === null) continue
+
+    const updated = await prisma.productPackageVariant.update({
+      where: { id: packageVariant.id },
+      data: { stock: { increment: item.quantity } },
+      select: { stock: true, status: true },
+    })
+    if (updated.stock !== null && updated.stock > 0 && updated.status === "sold_out") {
+      await prisma.productPackageVariant.update({
+        where: { id: packageVariant.id },
+        data: { status: "in_stock" },
+      })
+      notifyRestock(item.productId, item.colorId).catch(() => {})
+    }
+    touchedProducts.add(item.productId)
+  }
+
+  for (const productId of touchedProducts) {
+    await syncStockStatuses(productId)
+  }
+}
+
+/**
+ * Wishlist "back in stock" notification for a SIZE×COLOR cell (fire-and-forget safe).
+ */
+export async function notifyRestock(productId: string, colorId: string): Promise<void> {
+  const [product, variant] = await Promise.all([
+    prisma.product.findUnique({
+      where: { id: productId },
+      select: { slug: true, category: true, nameBg: true, nameEn: true, nameEs: true, brand: { select: { slug: true } } },
+    }),
+    prisma.productVariant.findFirst({
+      where: { productId, colorId },
+      select: { image: true, color: { select: { nameBg: true, nameEn: true, nameEs: true } } },
+    }),
+  ])
+  if (!product) return
+
+  const productUrl = await buildProductUrlFromDb(product)
+  await notifyStockAvailable(
+    productId,
+    product.slug,
+    { nameBg: product.nameBg, nameEn: product.nameEn, nameEs: product.nameEs },
+    productUrl,
+    variant?.color,
+    variant?.image ?? null
+  )
+}
+
+/**
+ * Roll SIZE×COLOR availability up to packages and the product.
+ * Only flips between in_stock and sold_out — statuses such as coming_soon or pre_order
+ * are admin decisions and are left alone.
+ */
+export async function syncStockStatuses(productId: string): Promise<void> {
+  const packages = await prisma.productPackage.findMany({
+    where: { productId },
+    select: { id: true, status: true, packageVariants: { select: { status: true } } },
+  })
+  if (packages.length === 0) return
+
+  const packageStatuses: string[] = []
+  for (const pkg of packages) {
+    let status = pkg.status
+    if (pkg.packageVariants.length > 0) {
+      const anyAvailable = pkg.packageVariants.some((pv) => pv.status === "in_stock" || pv.status === "pre_order")
+      if (!anyAvailable && pkg.status === "in_stock") status = "sold_out"
+      if (anyAvailable && pkg.status === "sold_out") status = "in_stock"
+    }
+    if (status !== pkg.status) {
+      await prisma.productPackage.update({ where: { id: pkg.id }, data: { status } })
+    }
+    packageStatuses.push(status)
+  }
+
+  const product = await prisma.product.findUnique({ where: { id: productId }, select: { status: true } })
+  if (!product) return
+  const anyPackageAvailable = packageStatuses.some((s) => s === "in_stock" || s === "pre_order")
+  if (!anyPackageAvailable && product.status === "in_stock") {
+    await prisma.product.update({ where: { id: productId }, data: { status: "sold_out" } })
+  } else if (anyPackageAvailable && product.status === "sold_out") {
+    await prisma.product.update({ where: { id: productId }, data: { status: "in_stock" } })
+  }
+}
+
+/** Status a stock-tracked SIZE×COLOR cell should have after an admin edit */
+export function statusForStock(status: string, stock: number | null): string {
+  if (stock === null) return status
+  if (stock <= 0 && status === "in_stock") return "sold_out"
+  if (stock > 0 && status === "sold_out") return "in_stock"
+  return status
+}
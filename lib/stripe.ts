@@ -0,0 +1,20 @@
+import Stripe from "stripe"
+
+/**
+ * Server-side Stripe client.
+ * STRIPE_API_HOST / STRIPE_API_PORT / STRIPE_API_PROTOCOL redirect API calls to a local
+ * stripe-mock (e.g. localhost, 12111, http) for development without a Stripe account.
+ */
+export function getStripe(): Stripe {
+  const key = process.env.STRIPE_SECRET_KEY
+  if (!key) {
+    throw new Error("STRIPE_SECRET_KEY is not configured")
+  }
+  const host = process.env.STRIPE_API_HOST
+  if (!host) return new Stripe(key)
+  return new Stripe(key, {
+    host,
+    port: process.env.STRIPE_API_PORT || undefined,
+    protocol: process.env.STRIPE_API_PROTOCOL === "http" ? "http" : "https",
+  })
+}
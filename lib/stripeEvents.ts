@@ -0,0 +1,390 @@
+import Stripe from "stripe"
+import prisma from "@/lib/prisma"
+import { getStripe } from "@/lib/stripe"
+import { freshDownloadLink, getDownloadLimits } from "@/lib/downloads"
+import { getCheckoutLines, createOrderFromLines } from "@/lib/orders"
+import { commitReservations, releaseReservations } from "@/lib/stock"
+import { addressFromMetadata } from "@/lib/shipping"
+import { taxFromMetadata } from "@/lib/vat"
+import { handleChargeRefunded, handleDisputeCreated } from "@/lib/refunds"
+import { issueInvoice } from "@/lib/invoices"
+import { createOrderPrintJobs, createQuotePrintJobs } from "@/lib/printJobs"
+
+export const STRIPE_EVENT_STATUSES = ["pending", "processing", "processed", "ignored", "failed"] as const
+export type StripeEventStatus = (typeof STRIPE_EVENT_STATUSES)[number]
+
+/** A "processing" claim older than this is treated as a crashed run and may be taken over */
+const STALE_PROCESSING_MS = 5 * 60 * 1000
+
+/**
+ * Persist an incoming event before handling it.
+ * Insert-first: a redelivery of the same event id is a no-op here, and the status claim
+ * in `processStripeEvent` decides whether it still needs work.
+ */
+export async function recordStripeEvent(event: Stripe.Event): Promise<void> {
+  await prisma.stripeEvent.createMany({
+    data: [{
+      id: event.id,
+      type: event.type,
+      payload: JSON.parse(JSON.stringify(event)),
+      livemode: event.livemode,
+      createdAt: new Date(event.created * 1000),
+    }],
+    skipDuplicates: true,
+  })
+}
+
+/**
+ * Run the handler for a stored event, at most once at a time.
+ * Pending and failed events are claimed automatically; `force` (admin replay) also re-runs
+ * processed and ignored ones — every handler is safe to repeat.
+ * Returns null when the event is unknown or another run holds it.
+ */
+export async function processStripeEvent(
+  id: string,
+  options: { force?: boolean } = {}
+): Promise<{ status: StripeEventStatus; error: string | null } | null> {
+  const claimable: StripeEventStatus[] = options.force ? ["pending", "failed", "processed", "ignored"] : ["pending", "failed"]
+  const claimed = await prisma.stripeEvent.updateMany({
+    where: {
+      id,
+      OR: [
+        { status: { in: claimable } },
+        { status: "processing", updatedAt: { lt: new Date(Date.now() - STALE_PROCESSING_MS) } },
+      ],
+    },
+    data: { status: "processing", attempts: { increment: 1 }, error: null },
+  })
+  if (claimed.count === 0) return null
+
+  const stored = await prisma.stripeEvent.findUnique({ where: { id }, select: { payload: true } })
+  if (!stored) return null
+
+  try {
+    const handled = await handleStripeEvent(stored.payload as unknown as Stripe.Event)
+    const status: StripeEventStatus = handled ? "processed" : "ignored"
+    await prisma.stripeEvent.update({ where: { id }, data: { status, processedAt: new Date() } })
+    return { status, error: null }
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unknown"
+    await prisma.stripeEvent.update({ where: { id }, data: { status: "failed", error: message.slice(0, 2000) } })
+    return { status: "failed", error: message }
+  }
+}
+
+/** Dispatch an event to its handler. Returns false for event types this shop does not act on. */
+async function handleStripeEvent(event: Stripe.Event): Promise<boolean> {
+  switch (event.type) {
+    case "checkout.session.completed":
+      await handleCheckoutCompleted(event.data.object as Stripe.Checkout.Session)
+      return true
+    case "checkout.session.expired":
+      await handleCheckoutExpired(event.data.object as Stripe.Checkout.Session)
+      return true
+    case "payment_intent.payment_failed":
+      handlePaymentFailed(event.data.object as Stripe.PaymentIntent)
+      return true
+    case "charge.refunded": {
+      const charge = event.data.object as Stripe.Charge
+      const orderNumber = await handleChargeRefunded(getStripe(), charge)
+      if (orderNumber) {
+        console.log(`Refund recorded for order ${orderNumber} (${charge.amount_refunded / 100} ${charge.currency.toUpperCase()} refunded in total)`)
+      }
+      return true
+    }
+    case "charge.dispute.created": {
+      const dispute = event.data.object as Stripe.Dispute
+      const orderNumber = await handleDisputeCreated(getStripe(), dispute)
+      if (orderNumber) {
+        console.log(`Dispute opened for order ${orderNumber}: ${dispute.reason}`)
+      }
+      return true
+    }
+    default:
+      return false
+  }
+}
+
+async function createDigitalPurchase(productId: string, email: string, stripeSession: string, couponId?: string | null, userId?: string | null) {
+  // A replayed event must not hand out a second download link
+  const existing = await prisma.digitalPurchase.findFirst({ where: { stripeSession, productId }, select: { id: true } })
+  if (existing) return
+
+  await prisma.digitalPurchase.create({
+    data: {
+      productId,
+      email,
+      ...freshDownloadLink(await getDownloadLimits()),
+      stripeSession,
+      couponId: couponId || null,
+      userId: userId || null,
+    },
+  })
+  console.log(`Digital purchase created for product ${productId}`)
+}
+
+/**
+ * Record coupon usage once per session. The discount is what Stripe applied; sessions from
+ * before checkout used Stripe coupons carry it in metadata instead.
+ */
+async function recordCouponUsage(session: Stripe.Checkout.Session, email: string) {
+  const couponId = session.metadata?.couponId
+  if (!couponId) return
+  const existing = await prisma.couponUsage.findFirst({ where: { couponId, stripeSession: session.id } })
+  if (existing) return
+
+  const stripeDiscount = (session.total_details?.amount_discount ?? 0) / 100
+  const originalPrice = stripeDiscount > 0
+    ? (session.amount_subtotal ?? 0) / 100
+    : parseFloat(session.metadata?.originalPrice || "0")
+  const discountAmount = stripeDiscount > 0 ? stripeDiscount : parseFloat(session.metadata?.discountAmount || "0")
+
+  const usageRecord = await prisma.couponUsage.create({
+    data: {
+      couponId,
+      email,
+      originalPrice,
+      discountAmount,
+      finalPrice: Math.max(originalPrice - discountAmount, 0.50),
+      stripeSession: session.id,
+    },
+  })
+
+  const coupon = await prisma.coupon.findUnique({ where: { id: couponId }, select: { maxUses: true } })
+  if (coupon?.maxUses != null) {
+    const updated = await prisma.coupon.updateMany({
+      where: { id: couponId, usedCount: { lt: coupon.maxUses } },
+      data: { usedCount: { increment: 1 } },
+    })
+    // Race condition: another concurrent webhook already hit the cap — roll back usage record
+    if (updated.count === 0) {
+      await prisma.couponUsage.delete({ where: { id: usageRecord.id } })
+      console.log(`Coupon ${couponId} max uses reached during concurrent processing — usage rolled back`)
+      return
+    }
+  } else if (coupon) {
+    await prisma.coupon.update({ where: { id: couponId }, data: { usedCount: { increment: 1 } } })
+  }
+  console.log(`Coupon usage recorded, coupon ${couponId}`)
+}
+
+/** Delivery address travels in session metadata; the fee is what Stripe actually charged */
+async function shippingFromSession(session: Stripe.Checkout.Session) {
+  const shippingAddress = addressFromMetadata(session.metadata)
+  if (!shippingAddress) return null
+  const shippingMethodId = session.metadata?.shippingMethodId || null
+  const shippingMethod = shippingMethodId
+    ? await prisma.shippingMethod.findUnique({ where: { id: shippingMethodId }, select: { nameEn: true } })
+    : null
+  return {
+    methodId: shippingMethodId,
+    methodName: shippingMethod?.nameEn ?? "",
+    fee: (session.shipping_cost?.amount_total ?? 0) / 100,
+    address: shippingAddress,
+  }
+}
+
+/** Missing jobs can be added later from the production board */
+async function queuePrintJobs(create: () => Promise<number>, label: string) {
+  try {
+    const count = await create()
+    if (count > 0) console.log(`${count} print job(s) queued for ${label}`)
+  } catch (jobError) {
+    console.error("Failed to queue print jobs:", jobError instanceof Error ? jobError.message : "Unknown")
+  }
+}
+
+/** A failed invoice can be issued later from the admin orders page */
+async function issueOrderInvoice(order: { id: string; orderNumber: string }) {
+  try {
+    const invoice = await issueInvoice(order.id)
+    if (invoice?.number) console.log(`Invoice ${invoice.number} issued for order ${order.orderNumber}`)
+  } catch (invoiceError) {
+    console.error("Failed to issue invoice:", invoiceError instanceof Error ? invoiceError.message : "Unknown")
+  }
+}
+
+/**
+ * Paid checkout → order, download links, stock commit, print jobs, invoice and coupon usage.
+ * Every step checks for its own earlier result, so a run that failed halfway can be replayed.
+ */
+async function handleCheckoutCompleted(session: Stripe.Checkout.Session) {
+  if (session.metadata?.type === "quote") {
+    await handleQuoteCheckoutCompleted(session)
+    return
+  }
+
+  const customerEmail = session.customer_email || session.customer_details?.email
+  const isCartCheckout = session.metadata?.type === "cart"
+  const userId = session.metadata?.userId || null
+
+  if (!customerEmail || (!isCartCheckout && !session.metadata?.productId)) {
+    throw new Error("Missing email or product metadata in session")
+  }
+
+  let order = await findSessionOrder(session.id)
+  const lines = await getCheckoutLines(getStripe(), session)
+  if (lines.length === 0) {
+    throw new Error("No purchasable lines found in session")
+  }
+
+  if (!order) {
+    // One order per checkout — every purchased line becomes an OrderItem
+    const created = await createOrderFromLines({
+      lines,
+      email: customerEmail,
+      customerName: session.customer_details?.name,
+      phone: session.customer_details?.phone,
+      userId,
+      currency: session.currency?.toUpperCase() || "EUR",
+      stripeSession: session.id,
+      couponCode: session.metadata?.couponCode,
+      paymentIntentId: typeof session.payment_intent === "string" ? session.payment_intent : session.payment_intent?.id,
+      locale: session.metadata?.locale,
+      shipping: await shippingFromSession(session),
+      tax: taxFromMetadata(session.metadata),
+    })
+    console.log(`Order ${created.orderNumber} created with ${created.items.length} item(s)`)
+    order = created
+  }
+
+  for (const line of lines) {
+    if (line.fileType === "digital" && line.productId) {
+      await createDigitalPurchase(line.productId, customerEmail, session.id, session.metadata?.couponId, userId)
+    }
+  }
+
+  // Turn the checkout's stock hold into a real decrement — a failure fails the event so it is replayed
+  await commitReservations(session.id)
+
+  await queuePrintJobs(() => createOrderPrintJobs(order.id), `order ${order.orderNumber}`)
+  await issueOrderInvoice(order)
+
+  try {
+    await recordCouponUsage(session, customerEmail)
+  } catch (couponError) {
+    console.error("Error recording coupon usage:", couponError instanceof Error ? couponError.message : "Unknown")
+    // Non-critical — purchase still valid
+  }
+}
+
+/**
+ * The order already created for a checkout session, if any.
+ * Orders from before `stripeSession` existed only carry the session id in their notes;
+ * such an order gets the column filled in so the next lookup is a plain unique match.
+ */
+async function findSessionOrder(sessionId: string) {
+  const order = await prisma.order.findUnique({ where: { stripeSession: sessionId }, select: { id: true, orderNumber: true } })
+  if (order) return order
+
+  const legacy = await prisma.order.findFirst({
+    where: { stripeSession: null, notes: { contains: sessionId } },
+    select: { id: true, orderNumber: true },
+  })
+  if (legacy) {
+    await prisma.order.updateMany({ where: { id: legacy.id, stripeSession: null }, data: { stripeSession: sessionId } })
+  }
+  return legacy
+}
+
+/**
+ * Paid quote → an order for the agreed price, linked back to the quote, which moves to "paid".
+ * The first order to pay a quote is linked; a second payment stays a separate order to refund.
+ */
+async function handleQuoteCheckoutCompleted(session: Stripe.Checkout.Session) {
+  const customerEmail = session.customer_email || session.customer_details?.email
+  const quoteId = session.metadata?.quoteId
+  if (!customerEmail || !quoteId) {
+    throw new Error("Missing email or quote metadata in session")
+  }
+
+  const quote = await prisma.quoteRequest.findUnique({
+    where: { id: quoteId },
+    select: { id: true, quoteNumber: true, productId: true },
+  })
+  if (!quote) {
+    throw new Error(`Quote ${quoteId} not found`)
+  }
+
+  let order = await findSessionOrder(session.id)
+  if (!order) {
+    const shipping = await shippingFromSession(session)
+    const lineTotal = ((session.amount_total ?? 0) - (session.shipping_cost?.amount_total ?? 0)) / 100
+    const created = await createOrderFromLines({
+      lines: [{
+        productId: quote.productId,
+        fileType: "physical",
+        quantity: 1,
+        unitPrice: lineTotal,
+        bulkDiscount: 0,
+        couponDiscount: 0,
+        lineTotal,
+        vatRate: parseFloat(session.metadata?.vatRate || "0"),
+        nameEn: `Custom print ${quote.quoteNumber}`,
+      }],
+      email: customerEmail,
+      customerName: session.customer_details?.name,
+      phone: session.customer_details?.phone,
+      userId: session.metadata?.userId || null,
+      currency: session.currency?.toUpperCase() || "EUR",
+      stripeSession: session.id,
+      paymentIntentId: typeof session.payment_intent === "string" ? session.payment_intent : session.payment_intent?.id,
+      locale: session.metadata?.locale,
+      shipping,
+      tax: taxFromMetadata(session.metadata),
+    })
+    console.log(`Order ${created.orderNumber} created for quote ${quote.quoteNumber}`)
+    order = created
+  }
+
+  const linked = await prisma.quoteRequest.updateMany({
+    where: { id: quote.id, orderId: null },
+    data: { orderId: order.id, status: "paid", paidAt: new Date() },
+  })
+  if (linked.count > 0) {
+    await prisma.quoteMessage.create({
+      data: {
+        quoteId: quote.id,
+        senderType: "user",
+        message: JSON.stringify({ key: "paid", orderNumber: order.orderNumber }),
+      },
+    })
+  } else {
+    const current = await prisma.quoteRequest.findUnique({ where: { id: quote.id }, select: { orderId: true } })
+    if (current?.orderId !== order.id) {
+      console.warn(`Quote ${quote.quoteNumber} was already paid — order ${order.orderNumber} is a second payment`)
+    }
+  }
+
+  // Jobs made when the quote was accepted are linked to the paying order
+  await queuePrintJobs(() => createQuotePrintJobs(quote.id), `quote ${quote.quoteNumber}`)
+  await issueOrderInvoice(order)
+}
+
+/** Abandoned checkout — give the held units back and drop its single-use discount coupon */
+async function handleCheckoutExpired(session: Stripe.Checkout.Session) {
+  const released = await releaseReservations({ stripeSession: session.id })
+  if (released > 0) {
+    console.log(`Released ${released} stock reservation(s) for expired session ${session.id}`)
+  }
+
+  if (!session.metadata?.couponId) return
+  const stripe = getStripe()
+  for (const discount of session.discounts ?? []) {
+    const couponId = typeof discount.coupon === "string" ? discount.coupon : discount.coupon?.id
+    if (!couponId) continue
+    try {
+      const coupon = await stripe.coupons.retrieve(couponId)
+      if (coupon.max_redemptions === 1 && coupon.times_redeemed === 0) await stripe.coupons.del(couponId)
+    } catch { /* already deleted */ }
+  }
+}
+
+/**
+ * A declined or failed card payment. The checkout session stays open for another attempt
+ * and its stock hold runs out on its own, so the stored event is the record.
+ */
+function handlePaymentFailed(intent: Stripe.PaymentIntent) {
+  const reason = intent.last_payment_error?.decline_code || intent.last_payment_error?.code || "unknown"
+  console.log(`Payment failed for payment intent ${intent.id}: ${reason}`)
+}
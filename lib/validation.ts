@@ -8,6 +8,7 @@ export const MAX_MESSAGE = 5000
 export const MAX_ADDRESS = 500
 export const MAX_CITY = 100
 export const MAX_COUNTRY = 100
+export const MAX_POSTAL_CODE = 20
 
 /**
  * Validates that a string does not exceed the maximum length.
@@ -46,6 +47,13 @@ export function validateBirthDate(value: string | null | undefined): string | nu
   return null
 }
 
+/**
+ * Basic email shape check (something@domain.tld) within the RFC length limit.
+ */
+export function isValidEmail(value: unknown): value is string {
+  return typeof value === "string" && value.length <= MAX_EMAIL && /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(value)
+}
+
 /**
  * Run multiple validations and return the first error, or null if all pass.
  */
@@ -0,0 +1,241 @@
+import prisma from "@/lib/prisma"
+
+/** Country the shop is VAT-registered in — its rates apply to domestic and below-threshold sales */
+export const STORE_COUNTRY = "BG"
+
+export const TAX_CLASSES = ["standard", "reduced", "zero"] as const
+export type TaxClass = (typeof TAX_CLASSES)[number]
+
+/**
+ * Standard and main reduced VAT rates (%) per EU member state.
+ * Keyed by ISO 3166-1 alpha-2 — Greece is "GR" here even though its VAT numbers use "EL".
+ * Update when a member state changes its rates.
+ */
+export const EU_VAT_RATES: Record<string, { standard: number; reduced: number }> = {
+  AT: { standard: 20, reduced: 10 },
+  BE: { standard: 21, reduced: 6 },
+  BG: { standard: 20, reduced: 9 },
+  CY: { standard: 19, reduced: 5 },
+  CZ: { standard: 21, reduced: 12 },
+  DE: { standard: 19, reduced: 7 },
+  DK: { standard: 25, reduced: 25 },
+  EE: { standard: 24, reduced: 9 },
+  ES: { standard: 21, reduced: 10 },
+  FI: { standard: 25.5, reduced: 14 },
+  FR: { standard: 20, reduced: 5.5 },
+  GR: { standard: 24, reduced: 13 },
+  HR: { standard: 25, reduced: 13 },
+  HU: { standard: 27, reduced: 5 },
+  IE: { standard: 23, reduced: 13.5 },
+  IT: { standard: 22, reduced: 10 },
+  LT: { standard: 21, reduced: 9 },
+  LU: { standard: 17, reduced: 8 },
+  LV: { standard: 21, reduced: 12 },
+  MT: { standard: 18, reduced: 5 },
+  NL: { standard: 21, reduced: 9 },
+  PL: { standard: 23, reduced: 8 },
+  PT: { standard: 23, reduced: 6 },
+  RO: { standard: 21, reduced: 11 },
+  SE: { standard: 25, reduced: 6 },
+  SI: { standard: 22, reduced: 9.5 },
+  SK: { standard: 23, reduced: 19 },
+}
+
+// VIES number formats (without the country prefix)
+const VAT_NUMBER_FORMATS: Record<string, RegExp> = {
+  AT: /^U\d{8}$/,
+  BE: /^[01]\d{9}$/,
+  BG: /^\d{9,10}$/,
+  CY: /^\d{8}[A-Z]$/,
+  CZ: /^\d{8,10}$/,
+  DE: /^\d{9}$/,
+  DK: /^\d{8}$/,
+  EE: /^\d{9}$/,
+  ES: /^[A-Z0-9]\d{7}[A-Z0-9]$/,
+  FI: /^\d{8}$/,
+  FR: /^[A-HJ-NP-Z0-9]{2}\d{9}$/,
+  GR: /^\d{9}$/,
+  HR: /^\d{11}$/,
+  HU: /^\d{8}$/,
+  IE: /^(\d{7}[A-W][A-I]?|\d[A-Z+*]\d{5}[A-W])$/,
+  IT: /^\d{11}$/,
+  LT: /^(\d{9}|\d{12})$/,
+  LU: /^\d{8}$/,
+  LV: /^\d{11}$/,
+  MT: /^\d{8}$/,
+  NL: /^\d{9}B\d{2}$/,
+  PL: /^\d{10}$/,
+  PT: /^\d{9}$/,
+  RO: /^\d{2,10}$/,
+  SE: /^\d{12}$/,
+  SI: /^\d{8}$/,
+  SK: /^\d{10}$/,
+}
+
+const round2 = (n: number) => Math.round(n * 100) / 100
+
+export function isEuCountry(code: string | null | undefined): boolean {
+  return !!code && code in EU_VAT_RATES
+}
+
+export function isTaxClass(value: unknown): value is TaxClass {
+  return typeof value === "string" && (TAX_CLASSES as readonly string[]).includes(value)
+}
+
+/** Uppercase and strip spaces, dots and dashes — "bg 123.456.789" → "BG123456789" */
+export function normalizeVatNumber(raw: string): string {
+  return raw.toUpperCase().replace(/[\s.\-]/g, "")
+}
+
+/**
+ * Check a VAT number's format against its member state's pattern.
+ * Only the format is checked — the number is not looked up in VIES.
+ */
+export function parseVatNumber(raw: string): { vatNumber: string; country: string; error?: undefined } | { error: string; vatNumber?: undefined; country?: undefined } {
+  const vatNumber = normalizeVatNumber(raw)
+  const prefix = vatNumber.slice(0, 2)
+  const country = prefix === "EL" ? "GR" : prefix
+  const format = VAT_NUMBER_FORMATS[country]
+  if (!format || prefix === "GR") {
+    return { error: "VAT number must start with an EU country prefix (e.g. BG, ES, EL)" }
+  }
+  if (!format.test(vatNumber.slice(2))) {
+    return { error: "VAT number format is not valid for its country" }
+  }
+  return { vatNumber, country }
+}
+
+/** Everything needed to price and tax a checkout for one destination */
+export interface TaxContext {
+  country: string           // destination country used for VAT
+  vatNumber: string | null  // normalized, format-valid business VAT number
+  reverseCharge: boolean    // intra-EU B2B — customer self-accounts the VAT
+  exportSale: boolean       // destination outside the EU — zero-rated
+  pricesIncludeVat: boolean // catalog prices are gross (VAT included)
+  ossEnabled: boolean       // One-Stop-Shop registered — charge destination rates to EU consumers
+}
+
+export function buildTaxContext(
+  settings: { pricesIncludeVat: boolean; ossEnabled: boolean },
+  country: string,
+  vatNumber: { vatNumber: string; country: string } | null
+): TaxContext {
+  const reverseCharge = !!vatNumber &&
+    vatNumber.country !== STORE_COUNTRY &&
+    vatNumber.country === country
+  return {
+    country,
+    vatNumber: vatNumber?.vatNumber ?? null,
+    reverseCharge,
+    exportSale: !isEuCountry(country),
+    pricesIncludeVat: settings.pricesIncludeVat,
+    ossEnabled: settings.ossEnabled,
+  }
+}
+
+/**
+ * Resolve the tax context for a checkout.
+ * A business VAT number only triggers reverse charge when it belongs to the destination country.
+ */
+export async function getTaxContext(params: {
+  country?: string | null
+  vatNumber?: { vatNumber: string; country: string } | null
+}): Promise<TaxContext> {
+  const settings = await prisma.siteSettings.findUnique({
+    where: { id: "singleton" },
+    select: { pricesIncludeVat: true, ossEnabled: true },
+  })
+  const country = (params.country || params.vatNumber?.country || STORE_COUNTRY).toUpperCase()
+  return buildTaxContext(
+    { pricesIncludeVat: settings?.pricesIncludeVat ?? true, ossEnabled: settings?.ossEnabled ?? true },
+    country,
+    params.vatNumber ?? null
+  )
+}
+
+/** Home-country rate for a tax class — used to strip VAT from gross catalog prices */
+function storeRate(taxClass: string): number {
+  if (taxClass === "zero") return 0
+  const rates = EU_VAT_RATES[STORE_COUNTRY]
+  return taxClass === "reduced" ? rates.reduced : rates.standard
+}
+
+/**
+ * VAT rate (%) charged for a tax class in this context.
+ * EU consumers pay the destination rate under OSS, otherwise the home rate;
+ * reverse charge and exports are zero-rated.
+ */
+export function getVatRate(ctx: TaxContext, taxClass: string): number {
+  if (taxClass === "zero" || ctx.reverseCharge || ctx.exportSale) return 0
+  const rates = (ctx.ossEnabled && EU_VAT_RATES[ctx.country]) || EU_VAT_RATES[STORE_COUNTRY]
+  return taxClass === "reduced" ? rates.reduced : rates.standard
+}
+
+/**
+ * Multiplier from catalog price to charged (gross) price.
+ * Gross catalog prices stay the same for every EU consumer — only the VAT portion changes —
+ * and zero-rated sales get the home VAT stripped. Net catalog prices get the charged rate added.
+ */
+export function getPriceFactor(ctx: TaxContext, taxClass: string): number {
+  const rate = getVatRate(ctx, taxClass)
+  if (ctx.pricesIncludeVat) {
+    return rate === 0 ? 1 / (1 + storeRate(taxClass) / 100) : 1
+  }
+  return 1 + rate / 100
+}
+
+/** VAT contained in a gross amount */
+export function vatPortion(gross: number, rate: number): number {
+  return rate > 0 ? round2((gross * rate) / (100 + rate)) : 0
+}
+
+/** Per-rate totals stored on the order (Order.taxBreakdown) */
+export interface VatBreakdownLine {
+  rate: number
+  net: number
+  vat: number
+}
+
+export function summarizeVat(lines: Array<{ gross: number; rate: number }>): VatBreakdownLine[] {
+  const byRate = new Map<number, { gross: number; vat: number }>()
+  for (const line of lines) {
+    const entry = byRate.get(line.rate) ?? { gross: 0, vat: 0 }
+    entry.gross += line.gross
+    entry.vat += vatPortion(line.gross, line.rate)
+    byRate.set(line.rate, entry)
+  }
+  return [...byRate.entries()]
+    .sort(([a], [b]) => b - a)
+    .map(([rate, { gross, vat }]) => ({ rate, net: round2(gross - vat), vat: round2(vat) }))
+}
+
+/** Best guess of an anonymous visitor's country — Vercel's geo header, else the home country */
+export function countryFromHeaders(headers: Headers): string {
+  const country = headers.get("x-vercel-ip-country")?.toUpperCase()
+  return country && /^[A-Z]{2}$/.test(country) ? country : STORE_COUNTRY
+}
+
+/** Checkout session metadata carrying the tax decision to the webhook */
+export function taxContextToMetadata(ctx: TaxContext): Record<string, string> {
+  return {
+    taxCountry: ctx.country,
+    vatNumber: ctx.vatNumber || "",
+    reverseCharge: ctx.reverseCharge ? "true" : "",
+    shippingVatRate: String(getVatRate(ctx, "standard")),
+  }
+}
+
+export function taxFromMetadata(metadata: Record<string, string> | null | undefined): {
+  country: string
+  vatNumber: string | null
+  reverseCharge: boolean
+  shippingVatRate: number
+} | null {
+  if (!metadata?.taxCountry) return null
+  return {
+    country: metadata.taxCountry,
+    vatNumber: metadata.vatNumber || null,
+    reverseCharge: metadata.reverseCharge === "true",
+    shippingVatRate: parseFloat(metadata.shippingVatRate || "0"),
+  }
+}
@@ -107,6 +107,21 @@ export function middleware(request: NextRequest) {
     }
   }
 
+  // ?lang= picks the language for this visit — product feeds link to landing pages in their own language
+  const langParam = request.nextUrl.searchParams.get("lang") as Locale | null
+  if (langParam && locales.includes(langParam)) {
+    request.cookies.set("NEXT_LOCALE", langParam)
+    requestHeaders.set("cookie", request.cookies.toString())
+    const response = NextResponse.next({ request: { headers: requestHeaders } })
+    response.cookies.set("NEXT_LOCALE", langParam, {
+      path: "/",
+      maxAge: 60 * 60 * 24 * 365,
+      sameSite: "lax",
+    })
+    applySecurityHeaders(response, nonce)
+    return response
+  }
+
   // Check existing locale cookie
   const localeCookie = request.cookies.get("NEXT_LOCALE")?.value as Locale | undefined
   if (localeCookie && locales.includes(localeCookie)) {
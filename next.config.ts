@@ -6,6 +6,11 @@ const withNextIntl = createNextIntlPlugin("./i18n/request.ts");
 // Security headers (CSP, X-Frame-Options, HSTS, etc.) are handled in middleware.ts
 // because CSP requires a dynamic per-request nonce.
 const nextConfig: NextConfig = {
+  // pdfkit reads its font metrics from disk, so it must not be bundled
+  serverExternalPackages: ["pdfkit"],
+  outputFileTracingIncludes: {
+    "/api/**/*": ["./node_modules/dejavu-fonts-ttf/ttf/DejaVuSans.ttf", "./node_modules/dejavu-fonts-ttf/ttf/DejaVuSans-Bold.ttf"],
+  },
   images: {
     remotePatterns: [
       { protocol: "https", hostname: "lh3.googleusercontent.com" },
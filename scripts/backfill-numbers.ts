@@ -1,30 +1,39 @@
-import prisma from "../lib/prisma"
+/**
+ * Backfill script for sequential document numbers
+ *
+ * Existing numbers — including the old random ORD-XXXX@D4D / QUO-XXXX@D4D ones — stay as
+ * they are. Rows without a number (blank orders and quotes, refunds from before refunds were
+ * numbered) get the next number of the year they were created in, oldest first.
+ *
+ * Counters are created on first use and continue after the highest number already issued
+ * in the current format, so invoice numbering carries on from the old per-year counter and
+ * the script can be run again safely.
+ *
+ * Usage:
+ *   npx tsx --env-file=.env scripts/backfill-numbers.ts
+ */
 
-const CHARS = "ABCDEFGHJKLMNPQRSTUVWXYZ23456789"
-function rand(n: number) {
-  let r = ""
-  for (let i = 0; i < n; i++) r += CHARS[Math.floor(Math.random() * CHARS.length)]
-  return r
-}
+import prisma from "../lib/prisma"
+import { documentYear, assignNumber } from "../lib/numbering"
 
 async function main() {
-  const orders = await prisma.order.findMany({ where: { orderNumber: "" } })
+  const orders = await prisma.order.findMany({ where: { orderNumber: "" }, orderBy: { createdAt: "asc" }, select: { id: true, createdAt: true } })
   for (const o of orders) {
-    await prisma.order.update({
-      where: { id: o.id },
-      data: { orderNumber: `ORD-${rand(4)}@D4D` },
-    })
+    await assignNumber("order", o.id, documentYear(o.createdAt))
   }
-  console.log(`Updated ${orders.length} orders`)
+  console.log(`Numbered ${orders.length} orders`)
 
-  const quotes = await prisma.quoteRequest.findMany({ where: { quoteNumber: "" } })
+  const quotes = await prisma.quoteRequest.findMany({ where: { quoteNumber: "" }, orderBy: { createdAt: "asc" }, select: { id: true, createdAt: true } })
   for (const q of quotes) {
-    await prisma.quoteRequest.update({
-      where: { id: q.id },
-      data: { quoteNumber: `QUO-${rand(4)}@D4D` },
-    })
+    await assignNumber("quote", q.id, documentYear(q.createdAt))
+  }
+  console.log(`Numbered ${quotes.length} quotes`)
+
+  const refunds = await prisma.refund.findMany({ where: { number: null }, orderBy: { createdAt: "asc" }, select: { id: true, createdAt: true } })
+  for (const r of refunds) {
+    await assignNumber("refund", r.id, documentYear(r.createdAt))
   }
-  console.log(`Updated ${quotes.length} quotes`)
+  console.log(`Numbered ${refunds.length} refunds`)
 }
 
-main().catch(console.error)
\ No newline at end of file
+main().catch(console.error)
@@ -0,0 +1,47 @@
+/**
+ * Backfill script for quote parts
+ *
+ * Quotes from before multi-file support kept a single model in QuoteRequest.fileUrl.
+ * Each of those becomes a part with the same file as its version 1, keeping the stored
+ * mesh analysis, so it shows up in the file list, revisions and ZIP download.
+ * Quotes that already have parts are skipped, so the script can be run again safely.
+ *
+ * Usage:
+ *   npx tsx --env-file=.env scripts/backfill-quote-files.ts
+ */
+
+import prisma from "../lib/prisma"
+import { partNameOf } from "../lib/quoteFiles"
+
+async function main() {
+  const quotes = await prisma.quoteRequest.findMany({
+    where: { fileUrl: { not: null }, files: { none: {} } },
+    orderBy: { createdAt: "asc" },
+    select: { id: true, fileName: true, fileUrl: true, fileSize: true, geometry: true, createdAt: true },
+  })
+
+  for (const q of quotes) {
+    const fileName = q.fileName || q.fileUrl!.split("/").pop()!.split("?")[0]
+    await prisma.quoteFile.create({
+      data: {
+        quoteId: q.id,
+        name: partNameOf(fileName),
+        createdAt: q.createdAt,
+        revisions: {
+          create: {
+            version: 1,
+            fileName,
+            fileUrl: q.fileUrl!,
+            fileSize: q.fileSize ?? 0,
+            geometry: q.geometry ?? undefined,
+            senderType: "user",
+            createdAt: q.createdAt,
+          },
+        },
+      },
+    })
+  }
+  console.log(`Moved ${quotes.length} quote files to parts`)
+}
+
+main().catch(console.error)
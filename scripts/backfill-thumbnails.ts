@@ -0,0 +1,53 @@
+/**
+ * Backfill script for model previews
+ *
+ * Renders a thumbnail for every quote file revision and digital product model uploaded
+ * before previews existed. Rows that already have one are skipped, so the script can be
+ * run again safely; files that cannot be read or drawn are reported and left without one.
+ *
+ * Usage:
+ *   npx tsx --env-file=.env scripts/backfill-thumbnails.ts
+ */
+
+import prisma from "../lib/prisma"
+import { readBlob } from "../lib/blob"
+import { createModelThumbnail, syncProductThumbnail } from "../lib/modelThumbnail"
+
+async function main() {
+  const revisions = await prisma.quoteFileRevision.findMany({
+    where: { thumbnailUrl: null },
+    orderBy: { createdAt: "asc" },
+    select: { id: true, fileName: true, fileUrl: true },
+  })
+
+  let rendered = 0
+  for (const revision of revisions) {
+    try {
+      const storedName = `${Date.now()}-${revision.fileName.replace(/[^a-zA-Z0-9.-]/g, "_")}`
+      const thumbnailUrl = await createModelThumbnail(await readBlob(revision.fileUrl), revision.fileName, { folder: "quotes", storedName })
+      if (!thumbnailUrl) continue
+      await prisma.quoteFileRevision.update({ where: { id: revision.id }, data: { thumbnailUrl } })
+      rendered++
+    } catch (error) {
+      console.log(`  ! ${revision.fileName} - ${error instanceof Error ? error.message : String(error)}`)
+    }
+  }
+  console.log(`Rendered ${rendered} of ${revisions.length} quote file previews`)
+
+  const products = await prisma.product.findMany({
+    where: { fileType: "digital", fileUrl: { not: null }, fileThumbnail: null },
+    select: { id: true, fileUrl: true, fileType: true, fileThumbnail: true },
+  })
+
+  let productsRendered = 0
+  for (const product of products) {
+    if (await syncProductThumbnail(product, product.fileUrl)) productsRendered++
+  }
+  console.log(`Rendered ${productsRendered} of ${products.length} product previews`)
+}
+
+main()
+  .catch(console.error)
+  .finally(async () => {
+    await prisma.$disconnect()
+  })
@@ -60,13 +60,14 @@ async function getValidBlobUrls(): Promise<Set<string>> {
 
   console.log("Fetching valid blob URLs from database...")
 
-  // Products: image, gallery, fileUrl
+  // Products: image, gallery, fileUrl, fileThumbnail
   const products = await prisma.product.findMany({
-    select: { image: true, gallery: true, fileUrl: true }
+    select: { image: true, gallery: true, fileUrl: true, fileThumbnail: true }
   })
   for (const product of products) {
     if (isVercelBlobUrl(product.image)) validUrls.add(product.image!)
     if (isVercelBlobUrl(product.fileUrl)) validUrls.add(product.fileUrl!)
+    if (isVercelBlobUrl(product.fileThumbnail)) validUrls.add(product.fileThumbnail!)
     for (const galleryUrl of product.gallery || []) {
       if (isVercelBlobUrl(galleryUrl)) validUrls.add(galleryUrl)
     }
@@ -80,6 +81,15 @@ async function getValidBlobUrls(): Promise<Set<string>> {
     if (isVercelBlobUrl(quote.fileUrl)) validUrls.add(quote.fileUrl!)
   }
 
+  // QuoteFileRevisions: fileUrl, thumbnailUrl (every revision is kept for the history)
+  const revisions = await prisma.quoteFileRevision.findMany({
+    select: { fileUrl: true, thumbnailUrl: true }
+  })
+  for (const revision of revisions) {
+    if (isVercelBlobUrl(revision.fileUrl)) validUrls.add(revision.fileUrl)
+    if (isVercelBlobUrl(revision.thumbnailUrl)) validUrls.add(revision.thumbnailUrl!)
+  }
+
   // Content: image
   const contents = await prisma.content.findMany({
     select: { image: true }
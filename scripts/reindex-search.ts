@@ -0,0 +1,24 @@
+/**
+ * Rebuild the product search index
+ *
+ * Fills `ProductSearch` for every product — run once after the table is created, and
+ * again whenever the indexed text changes outside the admin panel (imports, manual SQL).
+ * Admin saves keep the index current on their own. Safe to re-run.
+ *
+ * Usage:
+ *   npx tsx --env-file=.env scripts/reindex-search.ts
+ */
+
+import prisma from "../lib/prisma"
+import { reindexAllProducts } from "../lib/productSearch"
+
+async function main() {
+  const count = await reindexAllProducts()
+  console.log(`Indexed ${count} products for search`)
+}
+
+main()
+  .catch(console.error)
+  .finally(async () => {
+    await prisma.$disconnect()
+  })
@@ -14,7 +14,7 @@ import * as path from "path"
 dotenv.config({ path: path.resolve(process.cwd(), ".env.local") })
 dotenv.config({ path: path.resolve(process.cwd(), ".env") })
 
-import { processTemplates, processReminderNotifications } from "../lib/cronNotifications"
+import { processTemplates, processReminderNotifications, processQuoteFollowUps } from "../lib/cronNotifications"
 
 async function main() {
   // Parse --date=YYYY-MM-DD argument
@@ -58,7 +58,18 @@ async function main() {
     reminders.errors.forEach((e) => console.error(`    - ${e}`))
   }
 
-  const totalErrors = result.errors.length + reminders.errors.length
+  console.log("\nProcessing quote expiry and reminders...")
+  const quotes = await processQuoteFollowUps()
+
+  console.log(`  Quotes expired : ${quotes.expired}`)
+  console.log(`  Quotes reminded: ${quotes.reminded}`)
+
+  if (quotes.errors.length > 0) {
+    console.log(`  Errors: ${quotes.errors.length}`)
+    quotes.errors.forEach((e) => console.error(`    - ${e}`))
+  }
+
+  const totalErrors = result.errors.length + reminders.errors.length + quotes.errors.length
   console.log(`\n[test-cron] Done. ${totalErrors > 0 ? `${totalErrors} error(s) — see above.` : "No errors."}\n`)
 
   process.exit(totalErrors > 0 ? 1 : 0)